@@ -0,0 +1,58 @@
+/**
+ * Reconciliation Script
+ *
+ * Runs a full ledger reconciliation and prints a discrepancy report.
+ * Intended to be run nightly from cron.
+ *
+ * Exit codes:
+ * - 0: completed with no discrepancies
+ * - 1: completed with discrepancies
+ * - 2: run failed
+ *
+ * Run with: npm run reconcile
+ */
+
+import { ReconciliationService } from "../src/services/reconciliation.service";
+import { closeConnection } from "../src/db";
+
+/**
+ * Main reconciliation function
+ */
+async function reconcile(): Promise<number> {
+  try {
+    console.log("\n🧮 Starting reconciliation\n");
+
+    const run = await ReconciliationService.run("cli");
+    const { discrepancies } = await ReconciliationService.getRun(run.id);
+
+    console.log(`   Run ID: ${run.id}`);
+    console.log(`   Wallets checked: ${run.wallets_checked}`);
+    console.log(`   Transfers checked: ${run.transfers_checked}`);
+    console.log(`   Discrepancies: ${run.discrepancy_count}\n`);
+
+    if (discrepancies.length === 0) {
+      console.log("✅ Books are balanced\n");
+      return 0;
+    }
+
+    console.table(
+      discrepancies.map((discrepancy) => ({
+        check: discrepancy.check_type,
+        wallet: discrepancy.wallet_id,
+        transfer: discrepancy.transfer_id,
+        expected: discrepancy.expected,
+        actual: discrepancy.actual,
+        message: discrepancy.message,
+      }))
+    );
+    console.log(`\n❌ ${discrepancies.length} discrepancies recorded for run ${run.id}\n`);
+    return 1;
+  } catch (error) {
+    console.error("❌ Reconciliation failed:", error);
+    return 2;
+  } finally {
+    await closeConnection();
+  }
+}
+
+reconcile().then((code) => process.exit(code));
@@ -60,6 +60,37 @@ async function resetMigrations() {
         // Drop all tables in reverse order (respecting foreign keys)
         // Order matters: child tables (with FKs) must be dropped before parent tables
         const tablesToDrop = [
+            'reconciliation_discrepancies', // Has FK to reconciliation_runs
+            'reconciliation_runs',
+            'ledger_entries',   // Has FK to journal_entries, ledger_accounts
+            'journal_entries',
+            'ledger_accounts',  // Has FK to wallets
+            'credit_decisions', // Has FK to users, wallets, loan_applications
+            'adjutor_reports',  // Has FK to users, loan_applications
+            'loan_repayments',  // Has FK to loan_applications, loan_installments, transactions
+            'loan_installments', // Has FK to loan_applications
+            'loan_applications', // Has FK to users, loan_products, wallets, adjutor_checks, transactions
+            'loan_products',
+            'interest_accruals',        // Has FK to wallets, interest_capitalizations
+            'interest_capitalizations', // Has FK to wallets, transactions
+            'savings_pots',     // Has FK to users, wallets
+            'escrow_events',    // Has FK to escrows, users
+            'escrows',          // Has FK to users, transfers
+            'payment_requests', // Has FK to users, transfers
+            'payout_items',     // Has FK to payout_batches, users, transfers
+            'payout_batches',   // Has FK to users, wallets
+            'scheduled_transfer_runs', // Has FK to scheduled_transfers, transfers
+            'scheduled_transfers',     // Has FK to users
+            'fx_quotes',        // Has FK to users, wallets
+            'fx_rates',
+            'fee_rules',
+            'tier_limits',
+            'wallet_status_history', // Has FK to wallets, users
+            'wallet_holds',     // Has FK to wallets, transactions
+            'idempotency_keys', // Has FK to users
+            'sessions',         // Has FK to users
+            'login_otps',       // Has FK to users
+            'user_credentials', // Has FK to users
             'transfers',        // Has FK to wallets
             'transactions',     // Has FK to wallets
             'adjutor_checks',   // Has FK to users
@@ -31,6 +31,7 @@ async function runTests(): Promise<void> {
       email: `john.doe.${uniqueId}@example.com`,
       phone: `+234701234${random.toString().padStart(4, '0')}`,
       bvn: "22212345678",
+      password: "test-password-1",
     };
 
     const user2Data = {
@@ -38,6 +39,7 @@ async function runTests(): Promise<void> {
       email: `jane.smith.${uniqueId}@example.com`,
       phone: `+234702345${random.toString().padStart(4, '0')}`,
       bvn: "22223456789",
+      password: "test-password-2",
     };
 
     const user1Result = await AuthService.createUser(user1Data);
@@ -59,8 +61,8 @@ async function runTests(): Promise<void> {
 
     // Test 3: Fund Wallets
     console.log("\n💵 Test 3: Funding wallets...");
-    const fundAmount1 = 5000.00;
-    const fundAmount2 = 3000.00;
+    const fundAmount1 = "5000.00";
+    const fundAmount2 = "3000.00";
 
     await WalletService.fund(userId1, fundAmount1, { description: "Initial funding" });
     await WalletService.fund(userId2, fundAmount2, { description: "Initial funding" });
@@ -75,7 +77,7 @@ async function runTests(): Promise<void> {
 
     // Test 4: Transfer Between Users
     console.log("\n🔄 Test 4: Transferring funds between users...");
-    const transferAmount = 1500.00;
+    const transferAmount = "1500.00";
 
     await WalletService.transfer(
       userId1,
@@ -93,7 +95,7 @@ async function runTests(): Promise<void> {
 
     // Test 5: Withdraw Funds
     console.log("\n💸 Test 5: Withdrawing funds...");
-    const withdrawAmount = 500.00;
+    const withdrawAmount = "500.00";
 
     await WalletService.withdraw(userId1, withdrawAmount, { description: "Test withdrawal" });
 
@@ -103,8 +105,8 @@ async function runTests(): Promise<void> {
 
     // Test 6: Query Transactions
     console.log("\n📊 Test 6: Querying transaction history...");
-    const transactions1 = await WalletService.getTransactionHistory(userId1, 10);
-    const transactions2 = await WalletService.getTransactionHistory(userId2, 10);
+    const { transactions: transactions1 } = await WalletService.getTransactionHistory(userId1, { limit: 10 });
+    const { transactions: transactions2 } = await WalletService.getTransactionHistory(userId2, { limit: 10 });
 
     console.log(`✅ User 1 has ${transactions1.length} transactions:`);
     transactions1.forEach((tx, idx) => {
@@ -14,7 +14,11 @@ import { config } from "./config/env";
 import authRoutes from "./routes/auth";
 import userRoutes from "./routes/users";
 import walletRoutes from "./routes/wallets";
+import paymentRequestRoutes from "./routes/payment-requests";
+import escrowRoutes from "./routes/escrows";
+import loanRoutes from "./routes/loans";
 import adjutorRoutes from "./routes/adjutor";
+import adminRoutes from "./routes/admin";
 
 // Import middlewares
 import { errorHandler } from "./middlewares/error";
@@ -31,8 +35,8 @@ const app: Express = express();
  * Global Middleware Configuration
  */
 
-// Parse JSON request bodies
-app.use(express.json());
+// Parse JSON request bodies (bulk payouts can carry up to PAYOUT_MAX_ITEMS rows)
+app.use(express.json({ limit: "1mb" }));
 
 // Parse URL-encoded request bodies
 app.use(express.urlencoded({ extended: true }));
@@ -107,7 +111,11 @@ app.get("/api-docs.json", (_req: Request, res: Response) => {
 app.use("/api/v1/auth", authRoutes);
 app.use("/api/v1/users", userRoutes);
 app.use("/api/v1/wallets", walletRoutes);
+app.use("/api/v1/payment-requests", paymentRequestRoutes);
+app.use("/api/v1/escrows", escrowRoutes);
+app.use("/api/v1/loans", loanRoutes);
 app.use("/api/v1/adjutor", adjutorRoutes);
+app.use("/api/v1/admin", adminRoutes);
 
 // API root endpoint
 app.get("/api/v1", (_req: Request, res: Response) => {
@@ -118,19 +126,104 @@ app.get("/api/v1", (_req: Request, res: Response) => {
       auth: {
         signup: "POST /api/v1/auth/signup",
         login: "POST /api/v1/auth/login",
+        requestOtp: "POST /api/v1/auth/otp/request",
+        verifyOtp: "POST /api/v1/auth/otp/verify",
+        refresh: "POST /api/v1/auth/refresh",
+        logout: "POST /api/v1/auth/logout",
       },
       users: {
         getById: "GET /api/v1/users/:id",
+        setHandle: "PATCH /api/v1/users/:id/handle",
       },
       wallets: {
+        list: "GET /api/v1/wallets/:userId",
+        open: "POST /api/v1/wallets/:userId",
         fund: "POST /api/v1/wallets/:userId/fund",
         withdraw: "POST /api/v1/wallets/:userId/withdraw",
         transfer: "POST /api/v1/wallets/transfer",
+        lookupRecipient: "GET /api/v1/wallets/recipients/lookup",
+        simulateFee: "POST /api/v1/wallets/fees/simulate",
+        fxQuote: "POST /api/v1/wallets/convert/quotes",
+        convert: "POST /api/v1/wallets/convert",
         balance: "GET /api/v1/wallets/:userId/balance",
+        limits: "GET /api/v1/wallets/:userId/limits",
+        transactions: "GET /api/v1/wallets/:userId/transactions",
+        createHold: "POST /api/v1/wallets/:userId/holds",
+        listHolds: "GET /api/v1/wallets/:userId/holds",
+        getHold: "GET /api/v1/wallets/:userId/holds/:holdId",
+        captureHold: "POST /api/v1/wallets/:userId/holds/:holdId/capture",
+        releaseHold: "POST /api/v1/wallets/:userId/holds/:holdId/release",
+        createScheduledTransfer: "POST /api/v1/wallets/:userId/scheduled-transfers",
+        listScheduledTransfers: "GET /api/v1/wallets/:userId/scheduled-transfers",
+        getScheduledTransfer: "GET /api/v1/wallets/:userId/scheduled-transfers/:scheduleId",
+        pauseScheduledTransfer: "POST /api/v1/wallets/:userId/scheduled-transfers/:scheduleId/pause",
+        resumeScheduledTransfer: "POST /api/v1/wallets/:userId/scheduled-transfers/:scheduleId/resume",
+        cancelScheduledTransfer: "POST /api/v1/wallets/:userId/scheduled-transfers/:scheduleId/cancel",
+        createSavingsPot: "POST /api/v1/wallets/:userId/pots",
+        listSavingsPots: "GET /api/v1/wallets/:userId/pots",
+        getSavingsPot: "GET /api/v1/wallets/:userId/pots/:potId",
+        depositSavingsPot: "POST /api/v1/wallets/:userId/pots/:potId/deposit",
+        withdrawSavingsPot: "POST /api/v1/wallets/:userId/pots/:potId/withdraw",
+        closeSavingsPot: "POST /api/v1/wallets/:userId/pots/:potId/close",
+        createPayout: "POST /api/v1/wallets/:userId/payouts",
+        listPayouts: "GET /api/v1/wallets/:userId/payouts",
+        getPayout: "GET /api/v1/wallets/:userId/payouts/:batchId",
+        downloadPayoutResults: "GET /api/v1/wallets/:userId/payouts/:batchId/results",
+      },
+      paymentRequests: {
+        create: "POST /api/v1/payment-requests",
+        listIncoming: "GET /api/v1/payment-requests/incoming",
+        listOutgoing: "GET /api/v1/payment-requests/outgoing",
+        get: "GET /api/v1/payment-requests/:requestId",
+        accept: "POST /api/v1/payment-requests/:requestId/accept",
+        decline: "POST /api/v1/payment-requests/:requestId/decline",
+        cancel: "POST /api/v1/payment-requests/:requestId/cancel",
+      },
+      escrows: {
+        create: "POST /api/v1/escrows",
+        list: "GET /api/v1/escrows",
+        get: "GET /api/v1/escrows/:escrowId",
+        release: "POST /api/v1/escrows/:escrowId/release",
+        refund: "POST /api/v1/escrows/:escrowId/refund",
+        dispute: "POST /api/v1/escrows/:escrowId/dispute",
+      },
+      loans: {
+        listProducts: "GET /api/v1/loans/products",
+        apply: "POST /api/v1/loans/applications",
+        listApplications: "GET /api/v1/loans/applications",
+        getApplication: "GET /api/v1/loans/applications/:applicationId",
+        getSchedule: "GET /api/v1/loans/:applicationId/schedule",
       },
       adjutor: {
         checkKarma: "GET /api/v1/adjutor/karma/:identityType/:identity",
       },
+      admin: {
+        runReconciliation: "POST /api/v1/admin/reconciliation/runs",
+        listReconciliationRuns: "GET /api/v1/admin/reconciliation/runs",
+        getReconciliationRun: "GET /api/v1/admin/reconciliation/runs/:runId",
+        reverse: "POST /api/v1/admin/reversals",
+        listFeeRules: "GET /api/v1/admin/fee-rules",
+        createFeeRule: "POST /api/v1/admin/fee-rules",
+        updateFeeRule: "PATCH /api/v1/admin/fee-rules/:ruleId",
+        listTierLimits: "GET /api/v1/admin/tier-limits",
+        setTierLimit: "PUT /api/v1/admin/tier-limits/:tier/:currency",
+        setUserTier: "PATCH /api/v1/admin/users/:userId/tier",
+        listEscrows: "GET /api/v1/admin/escrows",
+        resolveEscrow: "POST /api/v1/admin/escrows/:escrowId/resolve",
+        setWalletStatus: "PATCH /api/v1/admin/wallets/:walletId/status",
+        getWalletStatusHistory: "GET /api/v1/admin/wallets/:walletId/status-history",
+        listLoanProducts: "GET /api/v1/admin/loan-products",
+        createLoanProduct: "POST /api/v1/admin/loan-products",
+        updateLoanProduct: "PATCH /api/v1/admin/loan-products/:productId",
+        listLoanApplications: "GET /api/v1/admin/loan-applications",
+        decideLoanApplication: "POST /api/v1/admin/loan-applications/:applicationId/decision",
+        disburseLoanApplication: "POST /api/v1/admin/loan-applications/:applicationId/disburse",
+        listLoanKarmaReports: "GET /api/v1/admin/loan-applications/:applicationId/karma-report",
+        reportLoanToKarma: "POST /api/v1/admin/loan-applications/:applicationId/karma-report",
+        removeLoanFromKarma: "DELETE /api/v1/admin/loan-applications/:applicationId/karma-report",
+        dryRunCreditDecision: "POST /api/v1/admin/credit-decisions/dry-run",
+        listCreditDecisions: "GET /api/v1/admin/credit-decisions",
+      },
     },
   });
 });
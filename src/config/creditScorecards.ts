@@ -0,0 +1,307 @@
+/**
+ * Credit Scorecards
+ *
+ * Versioned rules for the credit decisioning engine (see
+ * CreditDecisionService). A scorecard turns an applicant's credit factors
+ * into a score, a decision and a borrowing limit:
+ *
+ * 1. every rule whose factor falls in its range fires: its points are added
+ *    to `baseScore` and its code is given as a reason
+ * 2. a firing `decline` rule declines outright and a firing `refer` rule
+ *    sends the decision to an admin; otherwise the score decides
+ *    (`approveFrom` and above approves, `referFrom` and above refers, the
+ *    rest is declined)
+ * 3. the limit is a share of the average monthly inflow into the wallet,
+ *    set by the highest limit band the score reaches, and capped per
+ *    currency (zero when declined)
+ *
+ * A published scorecard is never edited: add a new version and point
+ * CURRENT_SCORECARD_VERSION at it, so every stored decision can still be
+ * explained by the rules that made it.
+ *
+ * @module config/creditScorecards
+ */
+
+/**
+ * Credit factors a rule can test (all whole numbers)
+ *
+ * - account_age_days:           days since signup
+ * - credit_count:               credits into the wallet in the history window
+ * - inflow_outflow_percent:     inflow as a percentage of outflow in the
+ *                               window (capped at 1000; 1000 with no outflow)
+ * - repaid_loans:               loans repaid in full
+ * - open_loans:                 loans paid out and not yet repaid
+ * - late_installments:          installments paid after their due date
+ * - overdue_installments:       installments overdue right now
+ * - karma_listed:               1 if an identity is on the Karma blacklist
+ * - karma_unavailable:          1 if Karma could not be checked
+ * - karma_amount_in_contention: amount Karma reports in contention (whole units)
+ */
+export const creditFactors = [
+  "account_age_days",
+  "credit_count",
+  "inflow_outflow_percent",
+  "repaid_loans",
+  "open_loans",
+  "late_installments",
+  "overdue_installments",
+  "karma_listed",
+  "karma_unavailable",
+  "karma_amount_in_contention",
+] as const;
+
+/**
+ * Credit factor name
+ */
+export type CreditFactor = (typeof creditFactors)[number];
+
+/**
+ * Credit decision outcomes
+ */
+export const creditDecisionOutcomes = ["approve", "refer", "decline"] as const;
+
+/**
+ * Credit decision outcome
+ */
+export type CreditDecisionOutcome = (typeof creditDecisionOutcomes)[number];
+
+/**
+ * A scorecard rule
+ */
+export interface CreditRule {
+  /** Reason code given when the rule fires (e.g. THIN_CREDIT_HISTORY) */
+  code: string;
+  factor: CreditFactor;
+  /** Lowest value the rule fires for (inclusive) */
+  min?: number;
+  /** Value the rule stops firing at (exclusive) */
+  max?: number;
+  /** Only fire when the Karma type contains this text (case-insensitive) */
+  karmaType?: string;
+  /** Points added to the score (negative to subtract) */
+  points?: number;
+  /** Decline whatever the score */
+  decline?: boolean;
+  /** Refer to an admin unless declined */
+  refer?: boolean;
+  /** Human-readable explanation */
+  message: string;
+}
+
+/**
+ * Limit granted from a score upwards
+ */
+export interface CreditLimitBand {
+  minScore: number;
+  /** Limit as a percentage of the average monthly inflow */
+  inflowPercent: number;
+}
+
+/**
+ * A versioned scorecard
+ */
+export interface CreditScorecard {
+  version: string;
+  description: string;
+  /** Wallet history looked at, in days */
+  historyDays: number;
+  baseScore: number;
+  approveFrom: number;
+  referFrom: number;
+  rules: CreditRule[];
+  limitBands: CreditLimitBand[];
+  /** Highest limit per currency (decimal strings) */
+  maxLimit: Record<string, string>;
+}
+
+/**
+ * Published scorecards keyed by version
+ */
+export const creditScorecards: Record<string, CreditScorecard> = {
+  "2024-01": {
+    version: "2024-01",
+    description: "Karma, account age, wallet behaviour and prior loans",
+    historyDays: 90,
+    baseScore: 500,
+    approveFrom: 600,
+    referFrom: 500,
+    rules: [
+      {
+        code: "KARMA_FRAUD",
+        factor: "karma_listed",
+        min: 1,
+        karmaType: "fraud",
+        decline: true,
+        message: "Listed on Karma for fraud",
+      },
+      {
+        code: "KARMA_LARGE_DEFAULT",
+        factor: "karma_amount_in_contention",
+        min: 50000,
+        decline: true,
+        message: "Listed on Karma with 50000 or more in contention",
+      },
+      {
+        code: "KARMA_LISTED",
+        factor: "karma_listed",
+        min: 1,
+        points: -150,
+        message: "Listed on the Karma blacklist",
+      },
+      {
+        code: "KARMA_UNAVAILABLE",
+        factor: "karma_unavailable",
+        min: 1,
+        refer: true,
+        message: "Karma could not be checked",
+      },
+      {
+        code: "LOAN_OVERDUE",
+        factor: "overdue_installments",
+        min: 1,
+        decline: true,
+        message: "An earlier loan has an overdue installment",
+      },
+      {
+        code: "OPEN_LOAN",
+        factor: "open_loans",
+        min: 1,
+        points: -100,
+        message: "An earlier loan is still being repaid",
+      },
+      {
+        code: "ACCOUNT_NEW",
+        factor: "account_age_days",
+        max: 30,
+        points: -50,
+        message: "Account opened less than 30 days ago",
+      },
+      {
+        code: "ACCOUNT_ESTABLISHED",
+        factor: "account_age_days",
+        min: 30,
+        max: 180,
+        points: 20,
+        message: "Account opened 30 to 180 days ago",
+      },
+      {
+        code: "ACCOUNT_MATURE",
+        factor: "account_age_days",
+        min: 180,
+        points: 60,
+        message: "Account opened 180 or more days ago",
+      },
+      {
+        code: "THIN_CREDIT_HISTORY",
+        factor: "credit_count",
+        max: 3,
+        points: -60,
+        message: "Fewer than 3 credits into the wallet",
+      },
+      {
+        code: "SOME_CREDITS",
+        factor: "credit_count",
+        min: 3,
+        max: 10,
+        points: 30,
+        message: "3 to 9 credits into the wallet",
+      },
+      {
+        code: "REGULAR_CREDITS",
+        factor: "credit_count",
+        min: 10,
+        points: 60,
+        message: "10 or more credits into the wallet",
+      },
+      {
+        code: "OUTFLOW_EXCEEDS_INFLOW",
+        factor: "inflow_outflow_percent",
+        max: 90,
+        points: -40,
+        message: "Spends more than comes in",
+      },
+      {
+        code: "BALANCED_CASH_FLOW",
+        factor: "inflow_outflow_percent",
+        min: 90,
+        max: 120,
+        points: 10,
+        message: "Spends about what comes in",
+      },
+      {
+        code: "POSITIVE_CASH_FLOW",
+        factor: "inflow_outflow_percent",
+        min: 120,
+        points: 50,
+        message: "Receives at least 20% more than spends",
+      },
+      {
+        code: "LOAN_REPAID",
+        factor: "repaid_loans",
+        min: 1,
+        max: 3,
+        points: 40,
+        message: "Has repaid a loan",
+      },
+      {
+        code: "LOANS_REPAID",
+        factor: "repaid_loans",
+        min: 3,
+        points: 80,
+        message: "Has repaid 3 or more loans",
+      },
+      {
+        code: "SOME_LATE_PAYMENTS",
+        factor: "late_installments",
+        min: 1,
+        max: 3,
+        points: -30,
+        message: "1 or 2 installments paid late",
+      },
+      {
+        code: "FREQUENT_LATE_PAYMENTS",
+        factor: "late_installments",
+        min: 3,
+        points: -80,
+        message: "3 or more installments paid late",
+      },
+    ],
+    limitBands: [
+      { minScore: 700, inflowPercent: 150 },
+      { minScore: 650, inflowPercent: 100 },
+      { minScore: 600, inflowPercent: 50 },
+    ],
+    maxLimit: {
+      NGN: "500000",
+      USD: "1000",
+      GHS: "10000",
+    },
+  },
+};
+
+/**
+ * Scorecard used for new decisions
+ */
+export const CURRENT_SCORECARD_VERSION = "2024-01";
+
+/**
+ * Published scorecard versions
+ */
+export const creditScorecardVersions = Object.keys(creditScorecards);
+
+/**
+ * Get a scorecard by version
+ *
+ * @param version - Scorecard version (defaults to the current one)
+ * @returns Scorecard
+ * @throws Error if the version is not published
+ */
+export function getCreditScorecard(version: string = CURRENT_SCORECARD_VERSION): CreditScorecard {
+  const scorecard = creditScorecards[version];
+
+  if (!scorecard) {
+    throw new Error(`Unknown credit scorecard version: ${version}`);
+  }
+
+  return scorecard;
+}
@@ -0,0 +1,72 @@
+/**
+ * Supported Currencies
+ *
+ * Per-currency precision rules used when parsing client-supplied amounts.
+ * Balances are always stored at DECIMAL(20,6); `decimals` is the maximum
+ * number of fractional digits a customer may send for that currency.
+ *
+ * @module config/currencies
+ */
+
+/**
+ * Currency definition
+ */
+export interface CurrencyDefinition {
+  /** ISO 4217 currency code */
+  code: string;
+
+  /** Display name */
+  name: string;
+
+  /** Maximum fractional digits accepted in request amounts */
+  decimals: number;
+}
+
+/**
+ * Default wallet currency
+ */
+export const DEFAULT_CURRENCY = "NGN";
+
+/**
+ * Supported currencies keyed by ISO code
+ *
+ * Users get a DEFAULT_CURRENCY wallet at signup and may open one extra
+ * wallet per other supported currency.
+ */
+export const currencies: Record<string, CurrencyDefinition> = {
+  NGN: { code: "NGN", name: "Nigerian Naira", decimals: 2 },
+  USD: { code: "USD", name: "US Dollar", decimals: 2 },
+  GHS: { code: "GHS", name: "Ghanaian Cedi", decimals: 2 },
+};
+
+/**
+ * Supported currency codes
+ */
+export const currencyCodes = Object.keys(currencies);
+
+/**
+ * Check whether a currency code is supported
+ *
+ * @param code - ISO currency code
+ * @returns true if supported
+ */
+export function isSupportedCurrency(code: string): boolean {
+  return Object.prototype.hasOwnProperty.call(currencies, code);
+}
+
+/**
+ * Get a currency definition
+ *
+ * @param code - ISO currency code
+ * @returns Currency definition
+ * @throws Error if the currency is not supported
+ */
+export function getCurrency(code: string): CurrencyDefinition {
+  const currency = currencies[code];
+
+  if (!currency) {
+    throw new Error(`Unsupported currency: ${code}`);
+  }
+
+  return currency;
+}
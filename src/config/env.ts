@@ -23,6 +23,21 @@ type NodeEnv = "development" | "production" | "test";
  */
 type AdjutorMode = "live" | "mock";
 
+/**
+ * Valid values for FX_RATES_PROVIDER
+ */
+type FxRatesProviderName = "static" | "db";
+
+/**
+ * Valid values for OTP_DELIVERY
+ */
+type OtpDeliveryName = "none" | "console" | "file";
+
+/**
+ * Valid values for INTEREST_ELIGIBLE_WALLETS
+ */
+type InterestEligibleWallets = "pots" | "all";
+
 /**
  * Application configuration interface
  * All configuration values are validated and typed
@@ -40,6 +55,48 @@ interface Config {
   /** HMAC secret key for signing authentication tokens */
   hmacSecret: string;
   
+  /** Login configuration */
+  auth: {
+    /** How long an access token works, in seconds */
+    accessTokenTtlSeconds: number;
+    
+    /** How long a refresh token works, in days (each refresh issues a new one) */
+    refreshTokenTtlDays: number;
+    
+    /** How long a login code stays valid, in seconds */
+    otpTtlSeconds: number;
+    
+    /** Wrong codes allowed before a login code stops working */
+    otpMaxAttempts: number;
+    
+    /** Digits in a login code */
+    otpLength: number;
+    
+    /** Login codes a user can request per window */
+    otpRequestLimit: number;
+    
+    /** Window the request limit applies to, in seconds */
+    otpRequestWindowSeconds: number;
+    
+    /** Failed password logins allowed per account per window */
+    loginAccountAttemptLimit: number;
+    
+    /** Failed password logins allowed per IP address per window */
+    loginIpAttemptLimit: number;
+    
+    /** Window the failed login limits apply to, in seconds */
+    loginAttemptWindowSeconds: number;
+    
+    /**
+     * How login codes are delivered: only by an adapter installed at startup
+     * (none), logged to the console, or appended to a file
+     */
+    otpDelivery: OtpDeliveryName;
+    
+    /** File the file delivery appends codes to */
+    otpDeliveryFile: string;
+  };
+  
   /** Adjutor API configuration */
   adjutor: {
     /** Base URL for Adjutor API */
@@ -55,6 +112,129 @@ interface Config {
     timeout: number;
   };
   
+  /** Idempotency-Key configuration */
+  idempotency: {
+    /** How long a stored key (and its response) can be replayed, in hours */
+    keyTtlHours: number;
+  };
+  
+  /** Nightly reconciliation configuration */
+  reconciliation: {
+    /** Whether the server schedules the nightly run itself (otherwise use the CLI from cron) */
+    scheduleEnabled: boolean;
+    
+    /** Hour of the day (UTC, 0-23) at which the scheduled run starts */
+    hourUtc: number;
+  };
+  
+  /** Wallet hold configuration */
+  holds: {
+    /** How long a hold stays active when no expiry is given, in minutes */
+    defaultTtlMinutes: number;
+    
+    /** How often the server releases expired holds, in seconds */
+    expirySweepSeconds: number;
+  };
+  
+  /** Scheduled transfer configuration */
+  scheduledTransfers: {
+    /** How often the server executes due scheduled transfers, in seconds */
+    sweepSeconds: number;
+    
+    /** Attempts per occurrence before it is recorded as failed */
+    maxAttempts: number;
+    
+    /** Delay before retrying a failed attempt, in minutes */
+    retryMinutes: number;
+  };
+  
+  /** Bulk payout configuration */
+  payouts: {
+    /** Maximum number of recipients in one batch */
+    maxItems: number;
+  };
+  
+  /** Payment request configuration */
+  paymentRequests: {
+    /** How long a request stays payable when no expiry is given, in hours */
+    defaultExpiryHours: number;
+    
+    /** Latest expiry a requester may set, in days */
+    maxExpiryDays: number;
+    
+    /** How often the server expires unanswered requests, in seconds */
+    expirySweepSeconds: number;
+  };
+  
+  /** Escrow configuration */
+  escrow: {
+    /** User whose wallets hold escrowed funds (one wallet per currency escrowed) */
+    userId: string | undefined;
+    
+    /** How long an escrow waits for release when no timeout is given, in days */
+    defaultTimeoutDays: number;
+    
+    /** Latest timeout a payer may set, in days */
+    maxTimeoutDays: number;
+    
+    /** How often the server refunds timed-out escrows, in seconds */
+    sweepSeconds: number;
+  };
+  
+  /** FX conversion configuration */
+  fx: {
+    /** Where mid-market rates come from: a static file/table in config, or the fx_rates table */
+    ratesProvider: FxRatesProviderName;
+    
+    /** Optional JSON file of "BASE/QUOTE" rates for the static provider */
+    ratesFile: string | undefined;
+    
+    /** How long a quote can be executed after it is created, in seconds */
+    quoteTtlSeconds: number;
+    
+    /** Spread taken from the mid-market rate, in basis points */
+    spreadBps: number;
+    
+    /** Conversion fee charged on the source amount, in basis points */
+    feeBps: number;
+  };
+  
+  /** Withdrawal and transfer fee configuration */
+  fees: {
+    /** User whose wallets collect fee revenue (one wallet per currency charged) */
+    revenueUserId: string | undefined;
+  };
+  
+  /** Interest accrual configuration */
+  interest: {
+    /** Annual interest rate, in basis points (0 disables accrual) */
+    annualRateBps: number;
+    
+    /** Which wallets earn interest: savings pots only, or every user wallet */
+    eligibleWallets: InterestEligibleWallets;
+    
+    /** How often the server accrues finished days and capitalizes finished months, in seconds */
+    sweepSeconds: number;
+  };
+  
+  /** Loan application checks and repayment collection */
+  loans: {
+    /** How far back the applicant's wallet history is checked, in days */
+    historyDays: number;
+    
+    /** Credits the wallet must have received in that window */
+    minCredits: number;
+    
+    /** Inflow the wallet must have received in that window, as a percentage of the amount applied for */
+    minInflowPercent: number;
+    
+    /** Days an installment may stay unpaid after its due date before late penalties accrue */
+    penaltyGraceDays: number;
+    
+    /** How often the server accrues late penalties and collects due installments, in seconds */
+    collectionSweepSeconds: number;
+  };
+  
   /** Logging configuration */
   logLevel: string;
 
@@ -160,6 +340,63 @@ function validateAdjutorMode(value: string): AdjutorMode {
   return value as AdjutorMode;
 }
 
+/**
+ * Validates FX_RATES_PROVIDER value
+ * 
+ * @param value - The FX_RATES_PROVIDER value to validate
+ * @returns The validated provider name
+ * @throws Error if the value is not valid
+ */
+function validateFxRatesProvider(value: string): FxRatesProviderName {
+  const validProviders: FxRatesProviderName[] = ["static", "db"];
+  
+  if (!validProviders.includes(value as FxRatesProviderName)) {
+    throw new Error(
+      `FX_RATES_PROVIDER must be one of: ${validProviders.join(", ")}. Got: ${value}`
+    );
+  }
+  
+  return value as FxRatesProviderName;
+}
+
+/**
+ * Validates OTP_DELIVERY value
+ * 
+ * @param value - The OTP_DELIVERY value to validate
+ * @returns The validated delivery name
+ * @throws Error if the value is not valid
+ */
+function validateOtpDelivery(value: string): OtpDeliveryName {
+  const validDeliveries: OtpDeliveryName[] = ["none", "console", "file"];
+  
+  if (!validDeliveries.includes(value as OtpDeliveryName)) {
+    throw new Error(
+      `OTP_DELIVERY must be one of: ${validDeliveries.join(", ")}. Got: ${value}`
+    );
+  }
+  
+  return value as OtpDeliveryName;
+}
+
+/**
+ * Validates INTEREST_ELIGIBLE_WALLETS value
+ * 
+ * @param value - The INTEREST_ELIGIBLE_WALLETS value to validate
+ * @returns The validated eligibility setting
+ * @throws Error if the value is not valid
+ */
+function validateInterestEligibleWallets(value: string): InterestEligibleWallets {
+  const validValues: InterestEligibleWallets[] = ["pots", "all"];
+  
+  if (!validValues.includes(value as InterestEligibleWallets)) {
+    throw new Error(
+      `INTEREST_ELIGIBLE_WALLETS must be one of: ${validValues.join(", ")}. Got: ${value}`
+    );
+  }
+  
+  return value as InterestEligibleWallets;
+}
+
 /**
  * Validates database URL format
  * 
@@ -210,6 +447,59 @@ function loadConfig(): Config {
       );
     }
     
+    const accessTokenTtlSeconds = parseNumber(
+      "ACCESS_TOKEN_TTL_SECONDS",
+      getEnvVar("ACCESS_TOKEN_TTL_SECONDS", "900"),
+      60,
+      86400
+    );
+    const refreshTokenTtlDays = parseNumber(
+      "REFRESH_TOKEN_TTL_DAYS",
+      getEnvVar("REFRESH_TOKEN_TTL_DAYS", "30"),
+      1,
+      365
+    );
+    const otpTtlSeconds = parseNumber("OTP_TTL_SECONDS", getEnvVar("OTP_TTL_SECONDS", "300"), 60, 3600);
+    const otpMaxAttempts = parseNumber("OTP_MAX_ATTEMPTS", getEnvVar("OTP_MAX_ATTEMPTS", "5"), 1, 10);
+    const otpLength = parseNumber("OTP_LENGTH", getEnvVar("OTP_LENGTH", "6"), 4, 10);
+    const otpRequestLimit = parseNumber("OTP_REQUEST_LIMIT", getEnvVar("OTP_REQUEST_LIMIT", "5"), 1, 100);
+    const otpRequestWindowSeconds = parseNumber(
+      "OTP_REQUEST_WINDOW_SECONDS",
+      getEnvVar("OTP_REQUEST_WINDOW_SECONDS", "3600"),
+      60,
+      86400
+    );
+    const loginAccountAttemptLimit = parseNumber(
+      "LOGIN_ACCOUNT_ATTEMPT_LIMIT",
+      getEnvVar("LOGIN_ACCOUNT_ATTEMPT_LIMIT", "5"),
+      1,
+      100
+    );
+    const loginIpAttemptLimit = parseNumber(
+      "LOGIN_IP_ATTEMPT_LIMIT",
+      getEnvVar("LOGIN_IP_ATTEMPT_LIMIT", "20"),
+      1,
+      1000
+    );
+    const loginAttemptWindowSeconds = parseNumber(
+      "LOGIN_ATTEMPT_WINDOW_SECONDS",
+      getEnvVar("LOGIN_ATTEMPT_WINDOW_SECONDS", "900"),
+      60,
+      86400
+    );
+    const otpDelivery = validateOtpDelivery(
+      getEnvVar("OTP_DELIVERY", nodeEnv === "production" ? "none" : "console")
+    );
+    const otpDeliveryFile = getEnvVar("OTP_DELIVERY_FILE", "./otp-outbox.log");
+    
+    // The stand-in adapters leave login codes in logs or on disk
+    if (nodeEnv === "production" && otpDelivery !== "none") {
+      throw new Error(
+        `OTP_DELIVERY must be 'none' in production. Got: ${otpDelivery}. ` +
+        "Install a real delivery adapter with OtpDeliveryService.setDelivery()"
+      );
+    }
+    
     // Load Adjutor configuration
     const adjutorBaseUrl = getEnvVar("ADJUTOR_BASE_URL", "https://adjutor.lendsqr.com");
     const adjutorApiKey = getEnvVar("ADJUTOR_API_KEY");
@@ -229,6 +519,144 @@ function loadConfig(): Config {
       );
     }
     
+    const idempotencyKeyTtlHours = parseNumber(
+      "IDEMPOTENCY_KEY_TTL_HOURS",
+      getEnvVar("IDEMPOTENCY_KEY_TTL_HOURS", "24"),
+      1,
+      720
+    );
+    
+    const reconciliationScheduleEnabled =
+      getEnvVar("RECONCILIATION_SCHEDULE_ENABLED", "false") === "true";
+    const reconciliationHourUtc = parseNumber(
+      "RECONCILIATION_HOUR_UTC",
+      getEnvVar("RECONCILIATION_HOUR_UTC", "2"),
+      0,
+      23
+    );
+    
+    const holdDefaultTtlMinutes = parseNumber(
+      "HOLD_DEFAULT_TTL_MINUTES",
+      getEnvVar("HOLD_DEFAULT_TTL_MINUTES", "10080"),
+      1,
+      43200
+    );
+    const holdExpirySweepSeconds = parseNumber(
+      "HOLD_EXPIRY_SWEEP_SECONDS",
+      getEnvVar("HOLD_EXPIRY_SWEEP_SECONDS", "60"),
+      5,
+      3600
+    );
+    
+    const scheduledTransferSweepSeconds = parseNumber(
+      "SCHEDULED_TRANSFER_SWEEP_SECONDS",
+      getEnvVar("SCHEDULED_TRANSFER_SWEEP_SECONDS", "60"),
+      5,
+      3600
+    );
+    const scheduledTransferMaxAttempts = parseNumber(
+      "SCHEDULED_TRANSFER_MAX_ATTEMPTS",
+      getEnvVar("SCHEDULED_TRANSFER_MAX_ATTEMPTS", "3"),
+      1,
+      10
+    );
+    const scheduledTransferRetryMinutes = parseNumber(
+      "SCHEDULED_TRANSFER_RETRY_MINUTES",
+      getEnvVar("SCHEDULED_TRANSFER_RETRY_MINUTES", "60"),
+      1,
+      1440
+    );
+    
+    const payoutMaxItems = parseNumber(
+      "PAYOUT_MAX_ITEMS",
+      getEnvVar("PAYOUT_MAX_ITEMS", "1000"),
+      1,
+      5000
+    );
+    const paymentRequestExpiryHours = parseNumber(
+      "PAYMENT_REQUEST_EXPIRY_HOURS",
+      getEnvVar("PAYMENT_REQUEST_EXPIRY_HOURS", "72"),
+      1,
+      8760
+    );
+    const paymentRequestMaxExpiryDays = parseNumber(
+      "PAYMENT_REQUEST_MAX_EXPIRY_DAYS",
+      getEnvVar("PAYMENT_REQUEST_MAX_EXPIRY_DAYS", "30"),
+      1,
+      365
+    );
+    const paymentRequestExpirySweepSeconds = parseNumber(
+      "PAYMENT_REQUEST_EXPIRY_SWEEP_SECONDS",
+      getEnvVar("PAYMENT_REQUEST_EXPIRY_SWEEP_SECONDS", "60"),
+      5,
+      3600
+    );
+    
+    const escrowUserId = process.env["ESCROW_USER_ID"]?.trim() || undefined;
+    const escrowTimeoutDays = parseNumber(
+      "ESCROW_TIMEOUT_DAYS",
+      getEnvVar("ESCROW_TIMEOUT_DAYS", "14"),
+      1,
+      365
+    );
+    const escrowMaxTimeoutDays = parseNumber(
+      "ESCROW_MAX_TIMEOUT_DAYS",
+      getEnvVar("ESCROW_MAX_TIMEOUT_DAYS", "90"),
+      1,
+      365
+    );
+    const escrowSweepSeconds = parseNumber(
+      "ESCROW_SWEEP_SECONDS",
+      getEnvVar("ESCROW_SWEEP_SECONDS", "300"),
+      5,
+      3600
+    );
+    
+    const fxRatesProvider = validateFxRatesProvider(getEnvVar("FX_RATES_PROVIDER", "static"));
+    const fxRatesFile = process.env["FX_RATES_FILE"]?.trim() || undefined;
+    const fxQuoteTtlSeconds = parseNumber(
+      "FX_QUOTE_TTL_SECONDS",
+      getEnvVar("FX_QUOTE_TTL_SECONDS", "60"),
+      10,
+      3600
+    );
+    const fxSpreadBps = parseNumber("FX_SPREAD_BPS", getEnvVar("FX_SPREAD_BPS", "50"), 0, 1000);
+    const fxFeeBps = parseNumber("FX_FEE_BPS", getEnvVar("FX_FEE_BPS", "0"), 0, 1000);
+    
+    const feeRevenueUserId = process.env["FEE_REVENUE_USER_ID"]?.trim() || undefined;
+    
+    const interestRateBps = parseNumber("INTEREST_RATE_BPS", getEnvVar("INTEREST_RATE_BPS", "0"), 0, 10000);
+    const interestEligibleWallets = validateInterestEligibleWallets(
+      getEnvVar("INTEREST_ELIGIBLE_WALLETS", "pots")
+    );
+    const interestSweepSeconds = parseNumber(
+      "INTEREST_SWEEP_SECONDS",
+      getEnvVar("INTEREST_SWEEP_SECONDS", "3600"),
+      60,
+      86400
+    );
+    
+    const loanHistoryDays = parseNumber("LOAN_HISTORY_DAYS", getEnvVar("LOAN_HISTORY_DAYS", "90"), 7, 365);
+    const loanMinCredits = parseNumber("LOAN_MIN_CREDITS", getEnvVar("LOAN_MIN_CREDITS", "3"), 0, 1000);
+    const loanMinInflowPercent = parseNumber(
+      "LOAN_MIN_INFLOW_PERCENT",
+      getEnvVar("LOAN_MIN_INFLOW_PERCENT", "100"),
+      0,
+      1000
+    );
+    const loanPenaltyGraceDays = parseNumber(
+      "LOAN_PENALTY_GRACE_DAYS",
+      getEnvVar("LOAN_PENALTY_GRACE_DAYS", "3"),
+      0,
+      90
+    );
+    const loanCollectionSweepSeconds = parseNumber(
+      "LOAN_COLLECTION_SWEEP_SECONDS",
+      getEnvVar("LOAN_COLLECTION_SWEEP_SECONDS", "3600"),
+      60,
+      86400
+    );
+    
     const logLevel = getEnvVar("LOG_LEVEL", "info");
     const publicUrl = resolvePublicUrl(port);
     
@@ -237,12 +665,78 @@ function loadConfig(): Config {
       port,
       databaseUrl,
       hmacSecret,
+      auth: {
+        accessTokenTtlSeconds,
+        refreshTokenTtlDays,
+        otpTtlSeconds,
+        otpMaxAttempts,
+        otpLength,
+        otpRequestLimit,
+        otpRequestWindowSeconds,
+        loginAccountAttemptLimit,
+        loginIpAttemptLimit,
+        loginAttemptWindowSeconds,
+        otpDelivery,
+        otpDeliveryFile,
+      },
       adjutor: {
         baseUrl: adjutorBaseUrl,
         apiKey: adjutorApiKey,
         mode: adjutorMode,
         timeout: adjutorTimeout,
       },
+      idempotency: {
+        keyTtlHours: idempotencyKeyTtlHours,
+      },
+      reconciliation: {
+        scheduleEnabled: reconciliationScheduleEnabled,
+        hourUtc: reconciliationHourUtc,
+      },
+      holds: {
+        defaultTtlMinutes: holdDefaultTtlMinutes,
+        expirySweepSeconds: holdExpirySweepSeconds,
+      },
+      scheduledTransfers: {
+        sweepSeconds: scheduledTransferSweepSeconds,
+        maxAttempts: scheduledTransferMaxAttempts,
+        retryMinutes: scheduledTransferRetryMinutes,
+      },
+      payouts: {
+        maxItems: payoutMaxItems,
+      },
+      paymentRequests: {
+        defaultExpiryHours: paymentRequestExpiryHours,
+        maxExpiryDays: paymentRequestMaxExpiryDays,
+        expirySweepSeconds: paymentRequestExpirySweepSeconds,
+      },
+      escrow: {
+        userId: escrowUserId,
+        defaultTimeoutDays: escrowTimeoutDays,
+        maxTimeoutDays: escrowMaxTimeoutDays,
+        sweepSeconds: escrowSweepSeconds,
+      },
+      fx: {
+        ratesProvider: fxRatesProvider,
+        ratesFile: fxRatesFile,
+        quoteTtlSeconds: fxQuoteTtlSeconds,
+        spreadBps: fxSpreadBps,
+        feeBps: fxFeeBps,
+      },
+      fees: {
+        revenueUserId: feeRevenueUserId,
+      },
+      interest: {
+        annualRateBps: interestRateBps,
+        eligibleWallets: interestEligibleWallets,
+        sweepSeconds: interestSweepSeconds,
+      },
+      loans: {
+        historyDays: loanHistoryDays,
+        minCredits: loanMinCredits,
+        minInflowPercent: loanMinInflowPercent,
+        penaltyGraceDays: loanPenaltyGraceDays,
+        collectionSweepSeconds: loanCollectionSweepSeconds,
+      },
       logLevel,
       publicUrl,
     };
@@ -0,0 +1,51 @@
+/**
+ * Fee Schedule Options
+ *
+ * The operations that can carry a fee, the channels a request can arrive
+ * through, and the ways a fee rule prices an amount. The rules themselves
+ * live in the fee_rules table (see FeeService).
+ *
+ * @module config/fees
+ */
+
+/**
+ * Operations a fee rule can apply to
+ *
+ * `pot_early_withdrawal` is the penalty for taking money out of a savings
+ * pot before its lock date; without a matching rule the withdrawal is refused.
+ */
+export const feeOperations = ["withdraw", "transfer", "pot_early_withdrawal"] as const;
+
+/**
+ * Fee-bearing operation
+ */
+export type FeeOperation = (typeof feeOperations)[number];
+
+/**
+ * Channels a money movement can be requested through
+ */
+export const feeChannels = ["api", "web", "mobile", "ussd"] as const;
+
+/**
+ * Request channel
+ */
+export type FeeChannel = (typeof feeChannels)[number];
+
+/**
+ * Channel assumed when a request does not name one
+ */
+export const DEFAULT_FEE_CHANNEL: FeeChannel = "api";
+
+/**
+ * How a fee rule prices an amount
+ *
+ * - `flat`: a fixed fee
+ * - `percentage`: basis points of the amount, plus an optional fixed fee
+ * - `tiered`: the fixed fee and/or basis points of the band the amount falls in
+ */
+export const feeTypes = ["flat", "percentage", "tiered"] as const;
+
+/**
+ * Fee rule pricing type
+ */
+export type FeeType = (typeof feeTypes)[number];
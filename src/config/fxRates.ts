@@ -0,0 +1,36 @@
+/**
+ * Static FX Rates
+ *
+ * Mid-market rates used by the static rates provider when FX_RATES_FILE is
+ * not set. They are for local development and tests only; production should
+ * load current rates from a file or the fx_rates table.
+ *
+ * Each entry is keyed "BASE/QUOTE" and gives the units of QUOTE per unit of
+ * BASE. Both directions are listed explicitly: an inverse is never derived,
+ * so the rate a customer sees is always the one that was configured.
+ *
+ * @module config/fxRates
+ */
+
+/**
+ * Default mid-market rates keyed "BASE/QUOTE"
+ */
+export const defaultFxRates: Record<string, string> = {
+  "USD/NGN": "1500.000000",
+  "NGN/USD": "0.000666667",
+  "GHS/NGN": "100.000000",
+  "NGN/GHS": "0.010000",
+  "USD/GHS": "15.000000",
+  "GHS/USD": "0.066666667",
+};
+
+/**
+ * Build the key for a currency pair
+ *
+ * @param base - Currency being sold
+ * @param quote - Currency being bought
+ * @returns Pair key, e.g. "USD/NGN"
+ */
+export function fxPairKey(base: string, quote: string): string {
+  return `${base}/${quote}`;
+}
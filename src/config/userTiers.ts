@@ -0,0 +1,23 @@
+/**
+ * User Tiers
+ *
+ * Every user belongs to one tier. The tier is raised as a customer completes
+ * more identity checks and selects the fee rules that apply to them.
+ *
+ * @module config/userTiers
+ */
+
+/**
+ * Supported tiers, lowest first
+ */
+export const userTiers = ["tier_1", "tier_2", "tier_3"] as const;
+
+/**
+ * User tier
+ */
+export type UserTier = (typeof userTiers)[number];
+
+/**
+ * Tier given to new users
+ */
+export const DEFAULT_USER_TIER: UserTier = "tier_1";
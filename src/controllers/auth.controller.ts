@@ -1,13 +1,52 @@
 /**
  * Authentication Controller
  * 
- * Handles authentication-related HTTP requests (signup, login).
+ * Handles authentication-related HTTP requests (signup, password login,
+ * one-time code login, token refresh, logout).
  * 
  * @module controllers/auth.controller
  */
 
 import { Request, Response, NextFunction } from "express";
-import { AuthService } from "../services/auth.service";
+import { AuthService, AuthResponse, AuthTokens } from "../services/auth.service";
+
+/**
+ * Shape session tokens for API responses
+ * 
+ * @param tokens - Access token and refresh token
+ * @returns Public token fields
+ */
+function toTokenResponse(tokens: AuthTokens) {
+  return {
+    token: tokens.token,
+    token_expires_at: tokens.tokenExpiresAt,
+    refresh_token: tokens.refreshToken,
+    refresh_token_expires_at: tokens.refreshTokenExpiresAt,
+  };
+}
+
+/**
+ * Shape a successful login for API responses
+ * 
+ * @param result - Authenticated user and token
+ * @returns Login response body
+ */
+function toLoginResponse(result: AuthResponse) {
+  return {
+    success: true,
+    message: "Login successful",
+    data: {
+      user: {
+        id: result.user.id,
+        name: result.user.name,
+        email: result.user.email,
+        phone: result.user.phone,
+        status: result.user.status,
+      },
+      ...toTokenResponse(result),
+    },
+  };
+}
 
 /**
  * Authentication controller class
@@ -23,6 +62,7 @@ export class AuthController {
    * - email: string
    * - phone: string
    * - bvn: string (not stored)
+   * - password: string (stored hashed)
    * 
    * @param req - Express request object
    * @param res - Express response object
@@ -34,7 +74,7 @@ export class AuthController {
     next: NextFunction
   ): Promise<void> {
     try {
-      const { name, email, phone, bvn } = req.body;
+      const { name, email, phone, bvn, password } = req.body;
 
       // Create user with Adjutor check
       const result = await AuthService.createUser({
@@ -42,6 +82,7 @@ export class AuthController {
         email,
         phone,
         bvn,
+        password,
       });
 
       // Return success response
@@ -57,7 +98,7 @@ export class AuthController {
             status: result.user.status,
             created_at: result.user.created_at,
           },
-          token: result.token,
+          ...toTokenResponse(result),
         },
       });
     } catch (error) {
@@ -66,13 +107,16 @@ export class AuthController {
   }
 
   /**
-   * Handle user login
+   * Handle user login with a password
    * 
    * POST /api/v1/auth/login
    * 
    * Request body:
    * - email?: string
    * - phone?: string
+   * - password: string
+   * 
+   * Failed logins are throttled per account and per client IP (req.ip).
    * 
    * @param req - Express request object
    * @param res - Express response object
@@ -84,29 +128,142 @@ export class AuthController {
     next: NextFunction
   ): Promise<void> {
     try {
-      const { email, phone } = req.body;
+      const { email, phone, password } = req.body;
 
       // Authenticate user
-      const result = await AuthService.loginUser({ email, phone });
+      const result = await AuthService.loginUser({ email, phone, password }, req.ip);
 
       // Return success response
+      res.status(200).json(toLoginResponse(result));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Send a one-time login code
+   * 
+   * POST /api/v1/auth/otp/request
+   * 
+   * Request body:
+   * - email?: string
+   * - phone?: string
+   * 
+   * Responds the same whether or not an account matches.
+   * 
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async requestOtp(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { email, phone } = req.body;
+
+      const result = await AuthService.requestLoginOtp({ email, phone });
+
       res.status(200).json({
         success: true,
-        message: "Login successful",
+        message: "If an account matches, a login code has been sent",
         data: {
-          user: {
-            id: result.user.id,
-            name: result.user.name,
-            email: result.user.email,
-            phone: result.user.phone,
-            status: result.user.status,
-          },
-          token: result.token,
+          channel: result.channel,
+          expires_in_seconds: result.expiresInSeconds,
         },
       });
     } catch (error) {
       next(error);
     }
   }
-}
 
+  /**
+   * Handle user login with a one-time code
+   * 
+   * POST /api/v1/auth/otp/verify
+   * 
+   * Request body:
+   * - email?: string
+   * - phone?: string
+   * - code: string
+   * 
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async verifyOtp(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { email, phone, code } = req.body;
+
+      const result = await AuthService.loginWithOtp({ email, phone, code });
+
+      res.status(200).json(toLoginResponse(result));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Exchange a refresh token for new tokens
+   * 
+   * POST /api/v1/auth/refresh
+   * 
+   * Request body:
+   * - refreshToken: string (used up; reusing it revokes the session)
+   * 
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async refresh(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const tokens = await AuthService.refreshSession(req.body.refreshToken);
+
+      res.status(200).json({
+        success: true,
+        message: "Token refreshed",
+        data: toTokenResponse(tokens),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * End the session a refresh token belongs to
+   * 
+   * POST /api/v1/auth/logout
+   * 
+   * Request body:
+   * - refreshToken: string
+   * 
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async logout(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      await AuthService.logout(req.body.refreshToken);
+
+      res.status(200).json({
+        success: true,
+        message: "Logged out",
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * Credit Decision Controller
+ *
+ * Handles the admin credit decision endpoints: scoring a user without
+ * storing the result (dry run), and listing stored decisions.
+ *
+ * @module controllers/credit-decision.controller
+ */
+
+import { Request, Response, NextFunction } from "express";
+import { CreditDecisionService, CreditDecision, CreditEvaluation } from "../services/credit-decision.service";
+import { DEFAULT_CURRENCY } from "../config/currencies";
+
+/**
+ * Shape an unstored evaluation for API responses
+ *
+ * @param evaluation - Scored user
+ * @returns Public evaluation representation
+ */
+function toEvaluationResponse(evaluation: CreditEvaluation) {
+  return {
+    user_id: evaluation.userId,
+    wallet_id: evaluation.walletId,
+    currency: evaluation.currency,
+    scorecard_version: evaluation.version,
+    score: evaluation.score,
+    decision: evaluation.decision,
+    limit: evaluation.limit.toStorageString(),
+    reasons: evaluation.reasons,
+    inputs: evaluation.inputs,
+  };
+}
+
+/**
+ * Shape a stored decision for API responses
+ *
+ * @param decision - Stored credit decision
+ * @returns Public decision representation
+ */
+function toDecisionResponse(decision: CreditDecision) {
+  return {
+    id: decision.id,
+    user_id: decision.user_id,
+    wallet_id: decision.wallet_id,
+    application_id: decision.application_id,
+    currency: decision.currency,
+    scorecard_version: decision.scorecard_version,
+    score: decision.score,
+    decision: decision.decision,
+    limit: decision.limit_decimal,
+    reasons: decision.reasons,
+    inputs: decision.inputs,
+    created_at: decision.created_at,
+  };
+}
+
+/**
+ * Credit decision controller class
+ */
+export class CreditDecisionController {
+  /**
+   * Score a user without storing the decision (admin)
+   *
+   * POST /api/v1/admin/credit-decisions/dry-run
+   *
+   * Request body:
+   * - userId: string
+   * - currency?: string (default: NGN)
+   * - version?: string (default: the current scorecard)
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async dryRun(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { userId, version } = req.body;
+      const currency = req.body.currency ?? DEFAULT_CURRENCY;
+
+      const evaluation = await CreditDecisionService.dryRun(userId, currency, version);
+
+      res.status(200).json({
+        success: true,
+        message: "Credit decision evaluated (not stored)",
+        data: {
+          evaluation: toEvaluationResponse(evaluation),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List stored credit decisions, newest first (admin)
+   *
+   * GET /api/v1/admin/credit-decisions
+   *
+   * Query parameters:
+   * - userId?: string
+   * - applicationId?: string
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async list(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const decisions = await CreditDecisionService.list({
+        userId: req.query["userId"] as string | undefined,
+        applicationId: req.query["applicationId"] as string | undefined,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: {
+          decisions: decisions.map(toDecisionResponse),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
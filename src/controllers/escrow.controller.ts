@@ -0,0 +1,389 @@
+/**
+ * Escrow Controller
+ *
+ * Handles escrow HTTP requests: funding, listing and viewing escrows,
+ * release by the payer, refund by the beneficiary, disputes by either
+ * party, and the admin endpoints that list and resolve escrows.
+ *
+ * @module controllers/escrow.controller
+ */
+
+import { Request, Response, NextFunction } from "express";
+import {
+  EscrowService,
+  Escrow,
+  EscrowEvent,
+  EscrowRole,
+  EscrowStatus,
+  EscrowOutcome,
+} from "../services/escrow.service";
+import { FeeChannel } from "../config/fees";
+import { toFeeResponse } from "./fee.controller";
+
+/**
+ * Shape an escrow for API responses
+ *
+ * @param escrow - Escrow record
+ * @returns Public escrow representation
+ */
+function toEscrowResponse(escrow: Escrow) {
+  return {
+    id: escrow.id,
+    payer_user_id: escrow.payer_user_id,
+    beneficiary_user_id: escrow.beneficiary_user_id,
+    amount: escrow.amount_decimal,
+    currency: escrow.currency,
+    released_amount: escrow.released_decimal,
+    refunded_amount: escrow.refunded_decimal,
+    description: escrow.description,
+    status: escrow.status,
+    expires_at: escrow.expires_at,
+    funding_transfer_id: escrow.funding_transfer_id,
+    release_transfer_id: escrow.release_transfer_id,
+    refund_transfer_id: escrow.refund_transfer_id,
+    metadata: escrow.metadata,
+    created_at: escrow.created_at,
+    updated_at: escrow.updated_at,
+    settled_at: escrow.settled_at,
+  };
+}
+
+/**
+ * Shape an escrow audit trail entry for API responses
+ *
+ * @param event - Escrow event record
+ * @returns Public event representation
+ */
+function toEscrowEventResponse(event: EscrowEvent) {
+  return {
+    from_status: event.from_status,
+    to_status: event.to_status,
+    actor_type: event.actor_type,
+    actor_user_id: event.actor_user_id,
+    reason: event.reason,
+    created_at: event.created_at,
+  };
+}
+
+/**
+ * Escrow controller class
+ */
+export class EscrowController {
+  /**
+   * Fund an escrow for another user
+   *
+   * POST /api/v1/escrows
+   *
+   * Request body:
+   * - beneficiaryUserId?: string (or beneficiary)
+   * - beneficiary?: string (beneficiary's email, phone number or handle)
+   * - amount: string (decimal, e.g. "1500.50")
+   * - currency?: string (default: NGN)
+   * - description?: string
+   * - expiresAt?: string (ISO 8601, default: ESCROW_TIMEOUT_DAYS from now)
+   * - channel?: "api" | "web" | "mobile" | "ussd"
+   * - metadata?: object
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async create(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      // Set by authMiddleware
+      const userId = req.user?.id as string;
+      const {
+        beneficiaryUserId,
+        beneficiary,
+        amount,
+        currency,
+        description,
+        expiresAt,
+        channel,
+        metadata,
+      } = req.body;
+
+      const { escrow, transfer } = await EscrowService.create(
+        userId,
+        { beneficiaryUserId, beneficiary, amount, currency, description, expiresAt, metadata },
+        channel as FeeChannel | undefined
+      );
+
+      res.status(201).json({
+        success: true,
+        message: "Escrow funded successfully",
+        data: {
+          escrow: toEscrowResponse(escrow),
+          transfer: {
+            id: transfer.transfer.id,
+            reference: transfer.reference,
+            amount: transfer.transfer.amount_decimal,
+            currency: transfer.fromWallet.currency,
+            from_balance: transfer.fromWallet.balance_decimal,
+            fee: {
+              ...toFeeResponse(transfer.fee),
+              transaction_id: transfer.feeTransaction?.id ?? null,
+            },
+          },
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List the user's escrows
+   *
+   * GET /api/v1/escrows
+   *
+   * Query parameters:
+   * - role?: payer | beneficiary (default: payer)
+   * - status?: funded | disputed | released | refunded | split
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async list(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const role = (req.query["role"] as EscrowRole | undefined) ?? "payer";
+      const status = req.query["status"] as EscrowStatus | undefined;
+      const escrows = await EscrowService.listEscrows(req.user?.id as string, role, status);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          escrows: escrows.map(toEscrowResponse),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get an escrow the user is a party to, with its audit trail
+   *
+   * GET /api/v1/escrows/:escrowId
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async get(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { escrowId } = req.params;
+      const { escrow, events } = await EscrowService.getEscrow(
+        req.user?.id as string,
+        escrowId as string
+      );
+
+      res.status(200).json({
+        success: true,
+        data: {
+          escrow: toEscrowResponse(escrow),
+          events: events.map(toEscrowEventResponse),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Confirm the deal and pay the beneficiary
+   *
+   * POST /api/v1/escrows/:escrowId/release
+   *
+   * Request body:
+   * - reason?: string
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async release(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { escrowId } = req.params;
+      const escrow = await EscrowService.release(
+        req.user?.id as string,
+        escrowId as string,
+        req.body?.reason
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "Escrow released successfully",
+        data: {
+          escrow: toEscrowResponse(escrow),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Back out of the deal and return the funds to the payer
+   *
+   * POST /api/v1/escrows/:escrowId/refund
+   *
+   * Request body:
+   * - reason?: string
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async refund(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { escrowId } = req.params;
+      const escrow = await EscrowService.refund(
+        req.user?.id as string,
+        escrowId as string,
+        req.body?.reason
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "Escrow refunded successfully",
+        data: {
+          escrow: toEscrowResponse(escrow),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Freeze an escrow until an admin resolves it
+   *
+   * POST /api/v1/escrows/:escrowId/dispute
+   *
+   * Request body:
+   * - reason: string
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async dispute(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { escrowId } = req.params;
+      const escrow = await EscrowService.dispute(
+        req.user?.id as string,
+        escrowId as string,
+        req.body.reason
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "Escrow disputed; an admin will resolve it",
+        data: {
+          escrow: toEscrowResponse(escrow),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List all escrows (admin)
+   *
+   * GET /api/v1/admin/escrows
+   *
+   * Query parameters:
+   * - status?: funded | disputed | released | refunded | split
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async listAll(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const status = req.query["status"] as EscrowStatus | undefined;
+      const escrows = await EscrowService.listAll(status);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          escrows: escrows.map(toEscrowResponse),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Release, refund or split an escrow (admin)
+   *
+   * POST /api/v1/admin/escrows/:escrowId/resolve
+   *
+   * Request body:
+   * - outcome: "release" | "refund" | "split"
+   * - beneficiaryAmount?: string (required for split; the payer gets the rest)
+   * - reason?: string
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async resolve(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { escrowId } = req.params;
+      const { outcome, beneficiaryAmount, reason } = req.body;
+
+      const escrow = await EscrowService.resolve(req.user?.id as string, escrowId as string, {
+        outcome: outcome as EscrowOutcome,
+        beneficiaryAmount,
+        reason,
+      });
+
+      res.status(200).json({
+        success: true,
+        message: `Escrow ${escrow.status}`,
+        data: {
+          escrow: toEscrowResponse(escrow),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
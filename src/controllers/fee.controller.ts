@@ -0,0 +1,202 @@
+/**
+ * Fee Controller
+ *
+ * Handles fee HTTP requests: fee simulation for customers, and fee rule
+ * management for admins.
+ *
+ * @module controllers/fee.controller
+ */
+
+import { Request, Response, NextFunction } from "express";
+import { FeeService, FeeBreakdown } from "../services/fee.service";
+import { DEFAULT_CURRENCY } from "../config/currencies";
+import { FeeOperation } from "../config/fees";
+
+/**
+ * Shape a fee breakdown for API responses
+ *
+ * Used by the simulation endpoint and the withdraw/transfer responses.
+ *
+ * @param breakdown - Priced fee
+ * @returns Public fee representation
+ */
+export function toFeeResponse(breakdown: FeeBreakdown) {
+  return {
+    amount: breakdown.fee.toStorageString(),
+    total_debit: breakdown.total.toStorageString(),
+    rule_id: breakdown.rule?.id ?? null,
+    fee_type: breakdown.rule?.fee_type ?? null,
+    channel: breakdown.channel,
+    tier: breakdown.tier,
+    breakdown: {
+      flat: breakdown.flat.toStorageString(),
+      percentage: breakdown.percentage.toStorageString(),
+      percentage_bps: breakdown.band ? breakdown.band.bps ?? null : breakdown.rule?.percentage_bps ?? null,
+      band: breakdown.band,
+      adjustment: breakdown.adjustment,
+    },
+  };
+}
+
+/**
+ * Fee controller class
+ */
+export class FeeController {
+  /**
+   * Price a withdrawal or transfer without moving money
+   *
+   * POST /api/v1/wallets/fees/simulate
+   *
+   * Request body:
+   * - userId: string
+   * - operation: "withdraw" | "transfer"
+   * - amount: string (decimal, e.g. "1500.50")
+   * - currency?: string (default: NGN)
+   * - channel?: string (default: api)
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async simulate(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { userId, operation, amount, channel } = req.body;
+      const currency = req.body.currency ?? DEFAULT_CURRENCY;
+
+      // SECURITY: Verify the authenticated user is pricing their own operation
+      if (req.user?.id !== userId) {
+        res.status(403).json({
+          success: false,
+          error: "Forbidden",
+          message: "You can only simulate fees for your own wallets",
+        });
+        return;
+      }
+
+      const breakdown = await FeeService.simulate(userId, operation, amount, currency, channel);
+
+      res.status(200).json({
+        success: true,
+        message: "Fee calculated successfully",
+        data: {
+          operation,
+          currency,
+          amount: breakdown.amount.toStorageString(),
+          fee: toFeeResponse(breakdown),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List fee rules
+   *
+   * GET /api/v1/admin/fee-rules
+   *
+   * Query parameters:
+   * - operation?: "withdraw" | "transfer"
+   * - currency?: string
+   * - active?: "true" | "false"
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async listRules(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const operation = req.query["operation"] as FeeOperation | undefined;
+      const currency = req.query["currency"] as string | undefined;
+      const active = req.query["active"] as string | undefined;
+
+      const rules = await FeeService.listRules({
+        operation,
+        currency,
+        active: active === undefined ? undefined : active === "true",
+      });
+
+      res.status(200).json({
+        success: true,
+        message: "Fee rules retrieved successfully",
+        data: { rules },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Add a fee rule
+   *
+   * POST /api/v1/admin/fee-rules
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async createRule(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const rule = await FeeService.createRule(req.body);
+
+      res.status(201).json({
+        success: true,
+        message: "Fee rule created successfully",
+        data: { rule },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Activate, deactivate, reprioritise or describe a fee rule
+   *
+   * PATCH /api/v1/admin/fee-rules/:ruleId
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async updateRule(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { ruleId } = req.params;
+      const { active, priority, description } = req.body;
+
+      if (!ruleId) {
+        res.status(400).json({
+          success: false,
+          error: "Validation Error",
+          message: "Rule ID is required",
+        });
+        return;
+      }
+
+      const rule = await FeeService.updateRule(ruleId, { active, priority, description });
+
+      res.status(200).json({
+        success: true,
+        message: "Fee rule updated successfully",
+        data: { rule },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * FX Controller
+ *
+ * Handles currency conversion HTTP requests (quote, convert).
+ *
+ * @module controllers/fx.controller
+ */
+
+import { Request, Response, NextFunction } from "express";
+import { FxService, FxQuote } from "../services/fx.service";
+
+/**
+ * Shape a quote for API responses
+ *
+ * @param quote - Quote record
+ * @returns Public quote representation
+ */
+function toQuoteResponse(quote: FxQuote) {
+  return {
+    id: quote.id,
+    from_currency: quote.from_currency,
+    to_currency: quote.to_currency,
+    amount: quote.source_amount_decimal,
+    fee: quote.fee_decimal,
+    rate: quote.rate,
+    mid_rate: quote.mid_rate,
+    spread_bps: quote.spread_bps,
+    spread: quote.spread_decimal,
+    converted_amount: quote.target_amount_decimal,
+    status: quote.status,
+    reference: quote.reference,
+    expires_at: quote.expires_at,
+    executed_at: quote.executed_at,
+    created_at: quote.created_at,
+  };
+}
+
+/**
+ * FX controller class
+ */
+export class FxController {
+  /**
+   * Quote a conversion between two of the user's currencies
+   *
+   * POST /api/v1/wallets/convert/quotes
+   *
+   * Request body:
+   * - userId: string
+   * - fromCurrency: string
+   * - toCurrency: string
+   * - amount: string (decimal amount of fromCurrency, e.g. "100.00")
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async createQuote(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { userId, fromCurrency, toCurrency, amount } = req.body;
+
+      // SECURITY: Verify the authenticated user is requesting their own quote
+      if (req.user?.id !== userId) {
+        res.status(403).json({
+          success: false,
+          error: "Forbidden",
+          message: "You can only request quotes for your own wallets",
+        });
+        return;
+      }
+
+      const quote = await FxService.createQuote(userId, fromCurrency, toCurrency, amount);
+
+      res.status(201).json({
+        success: true,
+        message: "Quote created successfully",
+        data: {
+          quote: toQuoteResponse(quote),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Execute a quote
+   *
+   * POST /api/v1/wallets/convert
+   *
+   * Request body:
+   * - userId: string
+   * - quoteId: string
+   * - metadata?: object
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async convert(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { userId, quoteId, metadata } = req.body;
+
+      // SECURITY: Verify the authenticated user owns the quote's wallets
+      if (req.user?.id !== userId) {
+        res.status(403).json({
+          success: false,
+          error: "Forbidden",
+          message: "You can only convert funds in your own wallets",
+        });
+        return;
+      }
+
+      const result = await FxService.convert(userId, quoteId, metadata);
+
+      res.status(200).json({
+        success: true,
+        message: "Conversion completed successfully",
+        data: {
+          reference: result.reference,
+          quote: toQuoteResponse(result.quote),
+          from_wallet: {
+            id: result.fromWallet.id,
+            currency: result.fromWallet.currency,
+            balance: result.fromWallet.balance_decimal,
+          },
+          to_wallet: {
+            id: result.toWallet.id,
+            currency: result.toWallet.currency,
+            balance: result.toWallet.balance_decimal,
+          },
+          transactions: result.transactions.map((txn) => ({
+            id: txn.id,
+            wallet_id: txn.wallet_id,
+            type: txn.type,
+            amount: txn.amount_decimal,
+            balance_after: txn.balance_after,
+            reference: txn.reference,
+          })),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,337 @@
+/**
+ * Hold Controller
+ *
+ * Handles wallet hold HTTP requests (place, list, get, capture, release).
+ *
+ * @module controllers/hold.controller
+ */
+
+import { Request, Response, NextFunction } from "express";
+import { HoldService, HoldStatus, WalletHold } from "../services/hold.service";
+import { WalletService, Wallet } from "../services/wallet.service";
+import { toFeeResponse } from "./fee.controller";
+
+/**
+ * Shape a hold for API responses
+ *
+ * @param hold - Hold record
+ * @returns Public hold representation
+ */
+function toHoldResponse(hold: WalletHold) {
+  return {
+    id: hold.id,
+    wallet_id: hold.wallet_id,
+    reference: hold.reference,
+    amount: hold.amount_decimal,
+    captured_amount: hold.captured_decimal,
+    status: hold.status,
+    capture_transaction_id: hold.capture_transaction_id,
+    expires_at: hold.expires_at,
+    metadata: hold.metadata,
+    created_at: hold.created_at,
+    updated_at: hold.updated_at,
+  };
+}
+
+/**
+ * Shape the wallet balances for API responses
+ *
+ * @param wallet - Wallet record
+ * @returns Ledger, available and held balances
+ */
+function toBalances(wallet: Wallet) {
+  return {
+    balance: wallet.balance_decimal,
+    available_balance: WalletService.availableBalance(wallet).toStorageString(),
+    held_balance: wallet.held_decimal,
+    currency: wallet.currency,
+  };
+}
+
+/**
+ * Hold controller class
+ */
+export class HoldController {
+  /**
+   * Place a hold on a wallet
+   *
+   * POST /api/v1/wallets/:userId/holds
+   *
+   * Request body:
+   * - amount: string (decimal, e.g. "1500.50")
+   * - expiresInSeconds?: number
+   * - metadata?: object
+   * - walletId?/currency?: wallet to hold funds on (default: NGN wallet)
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async create(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { userId } = req.params;
+      const { amount, expiresInSeconds, metadata, walletId, currency } = req.body;
+
+      if (!userId) {
+        res.status(400).json({
+          success: false,
+          error: "Validation Error",
+          message: "User ID is required",
+        });
+        return;
+      }
+
+      // SECURITY: Verify the authenticated user owns this wallet
+      if (req.user?.id !== userId) {
+        res.status(403).json({
+          success: false,
+          error: "Forbidden",
+          message: "You can only place holds on your own wallet",
+        });
+        return;
+      }
+
+      const result = await HoldService.create(userId, amount, {
+        expiresInSeconds,
+        metadata,
+        wallet: { walletId, currency },
+      });
+
+      res.status(201).json({
+        success: true,
+        message: "Hold placed successfully",
+        data: {
+          hold: toHoldResponse(result.hold),
+          ...toBalances(result.wallet),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List holds on a wallet
+   *
+   * GET /api/v1/wallets/:userId/holds
+   *
+   * Query parameters:
+   * - status?: active | captured | released | expired
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async list(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { userId } = req.params;
+      const status = req.query["status"] as HoldStatus | undefined;
+
+      if (!userId) {
+        res.status(400).json({
+          success: false,
+          error: "Validation Error",
+          message: "User ID is required",
+        });
+        return;
+      }
+
+      // SECURITY: Verify the authenticated user owns this wallet
+      if (req.user?.id !== userId) {
+        res.status(403).json({
+          success: false,
+          error: "Forbidden",
+          message: "You can only view holds on your own wallet",
+        });
+        return;
+      }
+
+      const holds = await HoldService.listHolds(userId, status);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          holds: holds.map(toHoldResponse),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get a hold
+   *
+   * GET /api/v1/wallets/:userId/holds/:holdId
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async get(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { userId, holdId } = req.params;
+
+      if (!userId || !holdId) {
+        res.status(400).json({
+          success: false,
+          error: "Validation Error",
+          message: "User ID and hold ID are required",
+        });
+        return;
+      }
+
+      // SECURITY: Verify the authenticated user owns this wallet
+      if (req.user?.id !== userId) {
+        res.status(403).json({
+          success: false,
+          error: "Forbidden",
+          message: "You can only view holds on your own wallet",
+        });
+        return;
+      }
+
+      const hold = await HoldService.getHold(userId, holdId);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          hold: toHoldResponse(hold),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Capture a hold (full or partial)
+   *
+   * POST /api/v1/wallets/:userId/holds/:holdId/capture
+   *
+   * Request body:
+   * - amount?: string (defaults to the full hold)
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async capture(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { userId, holdId } = req.params;
+
+      if (!userId || !holdId) {
+        res.status(400).json({
+          success: false,
+          error: "Validation Error",
+          message: "User ID and hold ID are required",
+        });
+        return;
+      }
+
+      const { amount } = req.body ?? {};
+
+      // SECURITY: Verify the authenticated user owns this wallet
+      if (req.user?.id !== userId) {
+        res.status(403).json({
+          success: false,
+          error: "Forbidden",
+          message: "You can only capture holds on your own wallet",
+        });
+        return;
+      }
+
+      const result = await HoldService.capture(userId, holdId, amount);
+
+      res.status(200).json({
+        success: true,
+        message: "Hold captured successfully",
+        data: {
+          hold: toHoldResponse(result.hold),
+          ...toBalances(result.wallet),
+          transaction: {
+            id: result.transaction.id,
+            type: result.transaction.type,
+            amount: result.transaction.amount_decimal,
+            balance_after: result.transaction.balance_after,
+            reference: result.transaction.reference,
+            created_at: result.transaction.created_at,
+          },
+          fee: {
+            ...toFeeResponse(result.fee),
+            transaction_id: result.feeTransaction?.id ?? null,
+          },
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Release a hold
+   *
+   * POST /api/v1/wallets/:userId/holds/:holdId/release
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async release(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { userId, holdId } = req.params;
+
+      if (!userId || !holdId) {
+        res.status(400).json({
+          success: false,
+          error: "Validation Error",
+          message: "User ID and hold ID are required",
+        });
+        return;
+      }
+
+      // SECURITY: Verify the authenticated user owns this wallet
+      if (req.user?.id !== userId) {
+        res.status(403).json({
+          success: false,
+          error: "Forbidden",
+          message: "You can only release holds on your own wallet",
+        });
+        return;
+      }
+
+      const result = await HoldService.release(userId, holdId);
+
+      res.status(200).json({
+        success: true,
+        message: "Hold released successfully",
+        data: {
+          hold: toHoldResponse(result.hold),
+          ...toBalances(result.wallet),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
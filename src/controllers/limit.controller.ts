@@ -0,0 +1,190 @@
+/**
+ * Limit Controller
+ *
+ * Handles tier limit HTTP requests: a customer's own limits and usage, and
+ * tier limit and user tier management for admins.
+ *
+ * @module controllers/limit.controller
+ */
+
+import { Request, Response, NextFunction } from "express";
+import { LimitService } from "../services/limit.service";
+import { UserTier } from "../config/userTiers";
+
+/**
+ * Limit controller class
+ */
+export class LimitController {
+  /**
+   * Get a wallet's limits, usage and remaining allowance
+   *
+   * GET /api/v1/wallets/:userId/limits
+   *
+   * Query parameters:
+   * - walletId?: string
+   * - currency?: string (default: NGN)
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async getUsage(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { userId } = req.params;
+
+      if (!userId) {
+        res.status(400).json({
+          success: false,
+          error: "Validation Error",
+          message: "User ID is required",
+        });
+        return;
+      }
+
+      // SECURITY: Verify the authenticated user owns this wallet
+      if (req.user?.id !== userId) {
+        res.status(403).json({
+          success: false,
+          error: "Forbidden",
+          message: "You can only view limits on your own wallet",
+        });
+        return;
+      }
+
+      const { walletId, currency } = req.query as Record<string, string | undefined>;
+      const usage = await LimitService.getUsage(userId, { walletId, currency });
+
+      res.status(200).json({
+        success: true,
+        data: usage,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List tier limits
+   *
+   * GET /api/v1/admin/tier-limits
+   *
+   * Query parameters:
+   * - tier?: "tier_1" | "tier_2" | "tier_3"
+   * - currency?: string
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async listLimits(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const tier = req.query["tier"] as UserTier | undefined;
+      const currency = req.query["currency"] as string | undefined;
+
+      const limits = await LimitService.listLimits({ tier, currency });
+
+      res.status(200).json({
+        success: true,
+        message: "Tier limits retrieved successfully",
+        data: { limits },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Set the limits of a tier in a currency
+   *
+   * PUT /api/v1/admin/tier-limits/:tier/:currency
+   *
+   * Request body (null = unlimited):
+   * - maxSingle: string | null
+   * - dailyLimit: string | null
+   * - monthlyLimit: string | null
+   * - maxBalance: string | null
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async setLimit(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const tier = req.params["tier"] as UserTier;
+      const currency = req.params["currency"] as string;
+      const { maxSingle, dailyLimit, monthlyLimit, maxBalance } = req.body;
+
+      const limit = await LimitService.setLimit(tier, currency, {
+        maxSingle,
+        dailyLimit,
+        monthlyLimit,
+        maxBalance,
+      });
+
+      res.status(200).json({
+        success: true,
+        message: "Tier limits updated successfully",
+        data: { limit },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Move a user to another tier
+   *
+   * PATCH /api/v1/admin/users/:userId/tier
+   *
+   * Request body:
+   * - tier: "tier_1" | "tier_2" | "tier_3"
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async setUserTier(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { userId } = req.params;
+
+      if (!userId) {
+        res.status(400).json({
+          success: false,
+          error: "Validation Error",
+          message: "User ID is required",
+        });
+        return;
+      }
+
+      const result = await LimitService.setUserTier(userId, req.body.tier);
+
+      res.status(200).json({
+        success: true,
+        message: "User tier updated successfully",
+        data: {
+          user_id: result.userId,
+          previous_tier: result.previousTier,
+          tier: result.tier,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
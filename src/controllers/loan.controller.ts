@@ -0,0 +1,605 @@
+/**
+ * Loan Controller
+ *
+ * Handles loan HTTP requests: browsing products, applying for a loan,
+ * following applications and their repayment schedules, and the admin endpoints that manage products,
+ * decide, list and disburse applications, and report defaulters to Adjutor Karma.
+ *
+ * @module controllers/loan.controller
+ */
+
+import { Request, Response, NextFunction } from "express";
+import {
+  LoanService,
+  LoanProduct,
+  LoanApplication,
+  LoanApplicationStatus,
+  LoanDecision,
+} from "../services/loan.service";
+import { LoanRepaymentService, LoanSchedule } from "../services/loan-repayment.service";
+import { KarmaReportService, KarmaReport } from "../services/karma-report.service";
+import { Money } from "../utils/money";
+
+/**
+ * Shape a loan product for API responses
+ *
+ * @param product - Loan product record
+ * @returns Public product representation
+ */
+function toProductResponse(product: LoanProduct) {
+  return {
+    id: product.id,
+    name: product.name,
+    description: product.description,
+    currency: product.currency,
+    min_amount: product.min_amount_decimal,
+    max_amount: product.max_amount_decimal,
+    tenor_months: product.tenor_months,
+    interest_rate_bps: product.interest_rate_bps,
+    repayment_method: product.repayment_method,
+    late_penalty_bps: product.late_penalty_bps,
+    fee_flat: product.fee_flat_decimal,
+    fee_bps: product.fee_bps,
+    active: product.active,
+    created_at: product.created_at,
+    updated_at: product.updated_at,
+  };
+}
+
+/**
+ * Shape a loan application for API responses
+ *
+ * @param application - Loan application record
+ * @returns Public application representation
+ */
+function toApplicationResponse(application: LoanApplication) {
+  const amount = Money.fromStorage(application.amount_decimal, application.currency);
+  const fee = Money.fromStorage(application.fee_decimal, application.currency);
+
+  return {
+    id: application.id,
+    user_id: application.user_id,
+    product_id: application.product_id,
+    wallet_id: application.wallet_id,
+    amount: application.amount_decimal,
+    currency: application.currency,
+    fee: application.fee_decimal,
+    disbursement_amount: amount.subtract(fee).toStorageString(),
+    tenor_months: application.tenor_months,
+    interest_rate_bps: application.interest_rate_bps,
+    repayment_method: application.repayment_method,
+    late_penalty_bps: application.late_penalty_bps,
+    purpose: application.purpose,
+    status: application.status,
+    decision_reasons: application.decision_reasons,
+    decided_by: application.decided_by,
+    decided_at: application.decided_at,
+    disbursement_transaction_id: application.disbursement_transaction_id,
+    disbursement_error: application.disbursement_error,
+    disbursed_at: application.disbursed_at,
+    repaid_at: application.repaid_at,
+    karma_reported_at: application.karma_reported_at,
+    karma_removed_at: application.karma_removed_at,
+    created_at: application.created_at,
+    updated_at: application.updated_at,
+  };
+}
+
+/**
+ * Shape a loan's repayment schedule for API responses
+ *
+ * @param application - Loan application
+ * @param schedule - Its installments and totals
+ * @returns Public schedule representation
+ */
+function toScheduleResponse(application: LoanApplication, schedule: LoanSchedule) {
+  return {
+    application_id: application.id,
+    status: application.status,
+    currency: application.currency,
+    repayment_method: application.repayment_method,
+    interest_rate_bps: application.interest_rate_bps,
+    late_penalty_bps: application.late_penalty_bps,
+    total_principal: schedule.principal.toStorageString(),
+    total_interest: schedule.interest.toStorageString(),
+    total_penalty: schedule.penalty.toStorageString(),
+    total_paid: schedule.paid.toStorageString(),
+    outstanding: schedule.outstanding.toStorageString(),
+    installments: schedule.installments.map((installment) => {
+      const due = Money.fromStorage(installment.principal_decimal, application.currency)
+        .add(Money.fromStorage(installment.interest_decimal, application.currency))
+        .add(Money.fromStorage(installment.penalty_decimal, application.currency));
+
+      return {
+        sequence: installment.sequence,
+        due_date: installment.due_date,
+        principal: installment.principal_decimal,
+        interest: installment.interest_decimal,
+        penalty: installment.penalty_decimal,
+        amount_due: due.toStorageString(),
+        paid: installment.paid_decimal,
+        outstanding: due.subtract(Money.fromStorage(installment.paid_decimal, application.currency)).toStorageString(),
+        status: installment.status,
+        paid_at: installment.paid_at,
+      };
+    }),
+  };
+}
+
+/**
+ * Shape a Karma submission for API responses
+ *
+ * @param report - Logged submission
+ * @returns Public submission representation
+ */
+function toKarmaReportResponse(report: KarmaReport) {
+  return {
+    id: report.id,
+    action: report.action,
+    identity_type: report.identity_type,
+    identity: report.identity,
+    amount_in_contention: report.amount_in_contention_decimal,
+    reason: report.reason,
+    default_date: report.default_date,
+    succeeded: report.succeeded,
+    response: report.raw_response,
+    submitted_by: report.submitted_by,
+    submitted_at: report.submitted_at,
+  };
+}
+
+/**
+ * Loan controller class
+ */
+export class LoanController {
+  /**
+   * List the loan products open for applications
+   *
+   * GET /api/v1/loans/products
+   *
+   * @param _req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async listProducts(
+    _req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const products = await LoanService.listProducts(true);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          products: products.map(toProductResponse),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Apply for a loan
+   *
+   * POST /api/v1/loans/applications
+   *
+   * Request body:
+   * - productId: string
+   * - amount: string (decimal, e.g. "50000.00")
+   * - purpose?: string
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async apply(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      // Set by authMiddleware
+      const userId = req.user?.id as string;
+      const { productId, amount, purpose } = req.body;
+
+      const application = await LoanService.apply(userId, { productId, amount, purpose });
+
+      res.status(201).json({
+        success: true,
+        message: "Loan application submitted",
+        data: {
+          application: toApplicationResponse(application),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List the user's loan applications
+   *
+   * GET /api/v1/loans/applications
+   *
+   * Query parameters:
+   * - status?: review | approved | declined | disbursed | repaid
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async listApplications(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const status = req.query["status"] as LoanApplicationStatus | undefined;
+      const applications = await LoanService.listApplications(req.user?.id as string, status);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          applications: applications.map(toApplicationResponse),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get one of the user's loan applications
+   *
+   * GET /api/v1/loans/applications/:applicationId
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async getApplication(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { applicationId } = req.params;
+      const application = await LoanService.getApplication(req.user?.id as string, applicationId as string);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          application: toApplicationResponse(application),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get the repayment schedule of one of the user's loans
+   *
+   * GET /api/v1/loans/:applicationId/schedule
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async getSchedule(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { applicationId } = req.params;
+      const application = await LoanService.getApplication(req.user?.id as string, applicationId as string);
+      const schedule = await LoanRepaymentService.getSchedule(application);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          schedule: toScheduleResponse(application, schedule),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List all loan products (admin)
+   *
+   * GET /api/v1/admin/loan-products
+   *
+   * Query parameters:
+   * - active?: "true" | "false"
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async adminListProducts(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const active = req.query["active"] as string | undefined;
+      const products = await LoanService.listProducts(active === undefined ? undefined : active === "true");
+
+      res.status(200).json({
+        success: true,
+        message: "Loan products retrieved successfully",
+        data: {
+          products: products.map(toProductResponse),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Add a loan product (admin)
+   *
+   * POST /api/v1/admin/loan-products
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async createProduct(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const product = await LoanService.createProduct(req.body);
+
+      res.status(201).json({
+        success: true,
+        message: "Loan product created successfully",
+        data: {
+          product: toProductResponse(product),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Activate, deactivate or describe a loan product (admin)
+   *
+   * PATCH /api/v1/admin/loan-products/:productId
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async updateProduct(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { productId } = req.params;
+      const { active, description } = req.body;
+
+      const product = await LoanService.updateProduct(productId as string, { active, description });
+
+      res.status(200).json({
+        success: true,
+        message: "Loan product updated successfully",
+        data: {
+          product: toProductResponse(product),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List all loan applications (admin)
+   *
+   * GET /api/v1/admin/loan-applications
+   *
+   * Query parameters:
+   * - status?: review | approved | declined | disbursed | repaid
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async adminListApplications(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const status = req.query["status"] as LoanApplicationStatus | undefined;
+      const applications = await LoanService.listAll(status);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          applications: applications.map(toApplicationResponse),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Approve or decline a referred loan application (admin)
+   *
+   * POST /api/v1/admin/loan-applications/:applicationId/decision
+   *
+   * Request body:
+   * - decision: "approve" | "decline"
+   * - reason: string
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async decide(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { applicationId } = req.params;
+      const { decision, reason } = req.body;
+
+      const application = await LoanService.decide(
+        req.user?.id as string,
+        applicationId as string,
+        decision as LoanDecision,
+        reason
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "Loan application decided",
+        data: {
+          application: toApplicationResponse(application),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Retry paying out an approved loan application (admin)
+   *
+   * POST /api/v1/admin/loan-applications/:applicationId/disburse
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async disburse(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { applicationId } = req.params;
+      const application = await LoanService.disburse(applicationId as string);
+
+      res.status(200).json({
+        success: true,
+        message: "Loan disbursed successfully",
+        data: {
+          application: toApplicationResponse(application),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List the Karma submissions made for a loan (admin)
+   *
+   * GET /api/v1/admin/loan-applications/:applicationId/karma-report
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async listKarmaReports(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { applicationId } = req.params;
+      const reports = await KarmaReportService.listReports(applicationId as string);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          reports: reports.map(toKarmaReportResponse),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Report the borrower of an overdue loan to Adjutor Karma (admin)
+   *
+   * POST /api/v1/admin/loan-applications/:applicationId/karma-report
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async reportToKarma(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { applicationId } = req.params;
+      const { application, reports } = await KarmaReportService.report(
+        req.user?.id as string,
+        applicationId as string
+      );
+
+      res.status(201).json({
+        success: true,
+        message: "Borrower reported to Adjutor Karma",
+        data: {
+          application: toApplicationResponse(application),
+          reports: reports.map(toKarmaReportResponse),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Remove a repaid borrower from Adjutor Karma (admin)
+   *
+   * DELETE /api/v1/admin/loan-applications/:applicationId/karma-report
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async removeFromKarma(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { applicationId } = req.params;
+      const { application, reports } = await KarmaReportService.remove(
+        req.user?.id as string,
+        applicationId as string
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "Borrower removed from Adjutor Karma",
+        data: {
+          application: toApplicationResponse(application),
+          reports: reports.map(toKarmaReportResponse),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,314 @@
+/**
+ * Payment Request Controller
+ *
+ * Handles payment request HTTP requests (create, incoming and outgoing
+ * lists, get, accept, decline, cancel). Every endpoint acts for the
+ * authenticated user; the service only finds requests the user is on.
+ *
+ * @module controllers/payment-request.controller
+ */
+
+import { Request, Response, NextFunction } from "express";
+import {
+  PaymentRequestService,
+  PaymentRequest,
+  PaymentRequestStatus,
+} from "../services/payment-request.service";
+import { FeeChannel } from "../config/fees";
+import { toFeeResponse } from "./fee.controller";
+
+/**
+ * Shape a payment request for API responses
+ *
+ * @param request - Payment request record
+ * @returns Public payment request representation
+ */
+function toPaymentRequestResponse(request: PaymentRequest) {
+  return {
+    id: request.id,
+    requester_user_id: request.requester_user_id,
+    payer_user_id: request.payer_user_id,
+    amount: request.amount_decimal,
+    currency: request.currency,
+    note: request.note,
+    status: request.status,
+    expires_at: request.expires_at,
+    transfer_id: request.transfer_id,
+    responded_at: request.responded_at,
+    created_at: request.created_at,
+    updated_at: request.updated_at,
+  };
+}
+
+/**
+ * Payment request controller class
+ */
+export class PaymentRequestController {
+  /**
+   * Ask another user for money
+   *
+   * POST /api/v1/payment-requests
+   *
+   * Request body:
+   * - payerUserId?: string (or payer)
+   * - payer?: string (payer's email, phone number or handle)
+   * - amount: string (decimal, e.g. "1500.50")
+   * - currency?: string (default: NGN)
+   * - note?: string
+   * - expiresAt?: string (ISO 8601, default: PAYMENT_REQUEST_EXPIRY_HOURS from now)
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async create(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      // Set by authMiddleware
+      const userId = req.user?.id as string;
+      const { payerUserId, payer, amount, currency, note, expiresAt } = req.body;
+
+      const paymentRequest = await PaymentRequestService.create(userId, {
+        payerUserId,
+        payer,
+        amount,
+        currency,
+        note,
+        expiresAt,
+      });
+
+      res.status(201).json({
+        success: true,
+        message: "Payment request sent successfully",
+        data: {
+          payment_request: toPaymentRequestResponse(paymentRequest),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List requests the user has been asked to pay
+   *
+   * GET /api/v1/payment-requests/incoming
+   *
+   * Query parameters:
+   * - status?: pending | paid | declined | expired | cancelled
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async listIncoming(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const status = req.query["status"] as PaymentRequestStatus | undefined;
+      const requests = await PaymentRequestService.listRequests(
+        req.user?.id as string,
+        "incoming",
+        status
+      );
+
+      res.status(200).json({
+        success: true,
+        data: {
+          payment_requests: requests.map(toPaymentRequestResponse),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List requests the user has made
+   *
+   * GET /api/v1/payment-requests/outgoing
+   *
+   * Query parameters:
+   * - status?: pending | paid | declined | expired | cancelled
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async listOutgoing(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const status = req.query["status"] as PaymentRequestStatus | undefined;
+      const requests = await PaymentRequestService.listRequests(
+        req.user?.id as string,
+        "outgoing",
+        status
+      );
+
+      res.status(200).json({
+        success: true,
+        data: {
+          payment_requests: requests.map(toPaymentRequestResponse),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get a request the user made or was asked to pay
+   *
+   * GET /api/v1/payment-requests/:requestId
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async get(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { requestId } = req.params;
+      const paymentRequest = await PaymentRequestService.getRequest(
+        req.user?.id as string,
+        requestId as string
+      );
+
+      res.status(200).json({
+        success: true,
+        data: {
+          payment_request: toPaymentRequestResponse(paymentRequest),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Pay a request
+   *
+   * POST /api/v1/payment-requests/:requestId/accept
+   *
+   * Request body:
+   * - channel?: "api" | "web" | "mobile" | "ussd"
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async accept(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { requestId } = req.params;
+      const channel = req.body?.channel as FeeChannel | undefined;
+
+      const { paymentRequest, transfer } = await PaymentRequestService.accept(
+        req.user?.id as string,
+        requestId as string,
+        channel
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "Payment request paid successfully",
+        data: {
+          payment_request: toPaymentRequestResponse(paymentRequest),
+          transfer: {
+            id: transfer.transfer.id,
+            reference: transfer.reference,
+            amount: transfer.transfer.amount_decimal,
+            currency: transfer.fromWallet.currency,
+            from_balance: transfer.fromWallet.balance_decimal,
+            fee: {
+              ...toFeeResponse(transfer.fee),
+              transaction_id: transfer.feeTransaction?.id ?? null,
+            },
+          },
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Turn down a request
+   *
+   * POST /api/v1/payment-requests/:requestId/decline
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async decline(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { requestId } = req.params;
+      const paymentRequest = await PaymentRequestService.decline(
+        req.user?.id as string,
+        requestId as string
+      );
+
+      res.status(200).json({
+        success: true,
+        message: `Payment request ${paymentRequest.status}`,
+        data: {
+          payment_request: toPaymentRequestResponse(paymentRequest),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Withdraw a request
+   *
+   * POST /api/v1/payment-requests/:requestId/cancel
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async cancel(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { requestId } = req.params;
+      const paymentRequest = await PaymentRequestService.cancel(
+        req.user?.id as string,
+        requestId as string
+      );
+
+      res.status(200).json({
+        success: true,
+        message: `Payment request ${paymentRequest.status}`,
+        data: {
+          payment_request: toPaymentRequestResponse(paymentRequest),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
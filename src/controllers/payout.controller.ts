@@ -0,0 +1,284 @@
+/**
+ * Payout Controller
+ *
+ * Handles bulk payout HTTP requests (submit a batch, list batches, get a
+ * batch with its rows, download the result file).
+ *
+ * @module controllers/payout.controller
+ */
+
+import { Request, Response, NextFunction } from "express";
+import {
+  PayoutService,
+  PayoutBatch,
+  PayoutBatchStatus,
+  PayoutItem,
+} from "../services/payout.service";
+
+/**
+ * Shape a batch summary for API responses
+ *
+ * @param batch - Batch record
+ * @returns Public batch representation
+ */
+function toBatchResponse(batch: PayoutBatch) {
+  return {
+    id: batch.id,
+    wallet_id: batch.wallet_id,
+    currency: batch.currency,
+    channel: batch.channel,
+    mode: batch.mode,
+    status: batch.status,
+    item_count: batch.item_count,
+    total_amount: batch.total_decimal,
+    succeeded_count: batch.succeeded_count,
+    failed_count: batch.failed_count,
+    paid_amount: batch.paid_decimal,
+    total_fee: batch.fee_decimal,
+    error: batch.error,
+    metadata: batch.metadata,
+    created_at: batch.created_at,
+    completed_at: batch.completed_at,
+  };
+}
+
+/**
+ * Shape a batch row for API responses
+ *
+ * @param item - Row record
+ * @returns Public row representation
+ */
+function toItemResponse(item: PayoutItem) {
+  return {
+    row: item.row_number,
+    recipient_user_id: item.recipient_user_id,
+    amount: item.amount_decimal,
+    narration: item.narration,
+    status: item.status,
+    fee: item.fee_decimal,
+    reference: item.reference,
+    transfer_id: item.transfer_id,
+    error: item.error,
+  };
+}
+
+/**
+ * Payout controller class
+ */
+export class PayoutController {
+  /**
+   * Submit and execute a payout batch
+   *
+   * POST /api/v1/wallets/:userId/payouts
+   *
+   * Request body:
+   * - items?: Array<{ recipientUserId, amount, narration? }>
+   * - csv?: string (header: recipient_user_id,amount[,narration])
+   * - currency?: string (default: NGN)
+   * - mode?: "all_or_nothing" | "best_effort" (default: all_or_nothing)
+   * - channel?: "api" | "web" | "mobile" | "ussd"
+   * - metadata?: object
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async create(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { userId } = req.params;
+
+      if (!userId) {
+        res.status(400).json({
+          success: false,
+          error: "Validation Error",
+          message: "User ID is required",
+        });
+        return;
+      }
+
+      // SECURITY: Verify the authenticated user owns this wallet
+      if (req.user?.id !== userId) {
+        res.status(403).json({
+          success: false,
+          error: "Forbidden",
+          message: "You can only pay out from your own wallet",
+        });
+        return;
+      }
+
+      const { items, csv, currency, mode, channel, metadata } = req.body;
+      const { batch, items: rows } = await PayoutService.create(userId, {
+        items,
+        csv,
+        currency,
+        mode,
+        channel,
+        metadata,
+      });
+
+      res.status(201).json({
+        success: true,
+        message: `Payout batch ${batch.status.replace("_", " ")}`,
+        data: {
+          batch: toBatchResponse(batch),
+          items: rows.map(toItemResponse),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List a user's payout batches
+   *
+   * GET /api/v1/wallets/:userId/payouts
+   *
+   * Query parameters:
+   * - status?: processing | completed | partially_completed | failed
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async list(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { userId } = req.params;
+      const status = req.query["status"] as PayoutBatchStatus | undefined;
+
+      if (!userId) {
+        res.status(400).json({
+          success: false,
+          error: "Validation Error",
+          message: "User ID is required",
+        });
+        return;
+      }
+
+      // SECURITY: Verify the authenticated user owns this wallet
+      if (req.user?.id !== userId) {
+        res.status(403).json({
+          success: false,
+          error: "Forbidden",
+          message: "You can only view your own payout batches",
+        });
+        return;
+      }
+
+      const batches = await PayoutService.listBatches(userId, status);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          batches: batches.map(toBatchResponse),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get a payout batch with every row
+   *
+   * GET /api/v1/wallets/:userId/payouts/:batchId
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async get(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { userId, batchId } = req.params;
+
+      if (!userId || !batchId) {
+        res.status(400).json({
+          success: false,
+          error: "Validation Error",
+          message: "User ID and batch ID are required",
+        });
+        return;
+      }
+
+      // SECURITY: Verify the authenticated user owns this wallet
+      if (req.user?.id !== userId) {
+        res.status(403).json({
+          success: false,
+          error: "Forbidden",
+          message: "You can only view your own payout batches",
+        });
+        return;
+      }
+
+      const { batch, items } = await PayoutService.getBatchDetails(userId, batchId);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          batch: toBatchResponse(batch),
+          items: items.map(toItemResponse),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Download a payout batch's result file (CSV)
+   *
+   * GET /api/v1/wallets/:userId/payouts/:batchId/results
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async downloadResults(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { userId, batchId } = req.params;
+
+      if (!userId || !batchId) {
+        res.status(400).json({
+          success: false,
+          error: "Validation Error",
+          message: "User ID and batch ID are required",
+        });
+        return;
+      }
+
+      // SECURITY: Verify the authenticated user owns this wallet
+      if (req.user?.id !== userId) {
+        res.status(403).json({
+          success: false,
+          error: "Forbidden",
+          message: "You can only download your own payout results",
+        });
+        return;
+      }
+
+      const csv = await PayoutService.resultsCsv(userId, batchId);
+
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="payout-${batchId}.csv"`);
+      res.status(200).send(csv);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
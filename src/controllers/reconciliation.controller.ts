@@ -0,0 +1,118 @@
+/**
+ * Reconciliation Controller
+ *
+ * Handles admin reconciliation HTTP requests (trigger a run, list runs,
+ * inspect discrepancies).
+ *
+ * @module controllers/reconciliation.controller
+ */
+
+import { Request, Response, NextFunction } from "express";
+import { ReconciliationService } from "../services/reconciliation.service";
+
+/**
+ * Reconciliation controller class
+ */
+export class ReconciliationController {
+  /**
+   * Run a reconciliation now
+   *
+   * POST /api/v1/admin/reconciliation/runs
+   *
+   * Runs synchronously and returns the finished run summary.
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async createRun(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const run = await ReconciliationService.run(`admin:${req.user?.id}`);
+
+      res.status(201).json({
+        success: true,
+        message:
+          run.discrepancy_count > 0
+            ? `Reconciliation completed with ${run.discrepancy_count} discrepancies`
+            : "Reconciliation completed with no discrepancies",
+        data: { run },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List recent reconciliation runs
+   *
+   * GET /api/v1/admin/reconciliation/runs
+   *
+   * Query parameters:
+   * - limit?: number (1-100, default 20)
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async listRuns(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const limit = typeof req.query["limit"] === "string"
+        ? parseInt(req.query["limit"], 10)
+        : undefined;
+
+      const runs = await ReconciliationService.listRuns(limit);
+
+      res.status(200).json({
+        success: true,
+        data: { runs },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get a reconciliation run with its discrepancies
+   *
+   * GET /api/v1/admin/reconciliation/runs/:runId
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async getRun(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { runId } = req.params;
+
+      if (!runId) {
+        res.status(400).json({
+          success: false,
+          error: "Validation Error",
+          message: "Run ID is required",
+        });
+        return;
+      }
+
+      const result = await ReconciliationService.getRun(runId);
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Reversal Controller
+ *
+ * Handles admin reversal HTTP requests.
+ *
+ * @module controllers/reversal.controller
+ */
+
+import { Request, Response, NextFunction } from "express";
+import { WalletService } from "../services/wallet.service";
+
+/**
+ * Reversal controller class
+ */
+export class ReversalController {
+  /**
+   * Reverse a transaction or transfer
+   *
+   * POST /api/v1/admin/reversals
+   *
+   * Request body:
+   * - target: string (transaction ID or transfer reference)
+   * - reason: string
+   * - allowNegativeBalance?: boolean
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async create(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { target, reason, allowNegativeBalance } = req.body;
+
+      const result = await WalletService.reverse(target, reason, {
+        allowNegativeBalance: allowNegativeBalance === true,
+        reversedBy: req.user?.id,
+      });
+
+      res.status(201).json({
+        success: true,
+        message: result.transfer
+          ? "Transfer reversed successfully"
+          : "Transaction reversed successfully",
+        data: {
+          reference: result.reference,
+          transfer: result.transfer
+            ? {
+                id: result.transfer.id,
+                reference: result.transfer.reference,
+                status: result.transfer.status,
+              }
+            : null,
+          transactions: result.transactions.map((transaction) => ({
+            id: transaction.id,
+            wallet_id: transaction.wallet_id,
+            type: transaction.type,
+            amount: transaction.amount_decimal,
+            balance_after: transaction.balance_after,
+            reference: transaction.reference,
+            reversal_of: transaction.reversal_of ?? null,
+            created_at: transaction.created_at,
+          })),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
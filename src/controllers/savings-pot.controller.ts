@@ -0,0 +1,328 @@
+/**
+ * Savings Pot Controller
+ *
+ * Handles savings pot HTTP requests (create, list, get, deposit, withdraw,
+ * close).
+ *
+ * @module controllers/savings-pot.controller
+ */
+
+import { Request, Response, NextFunction } from "express";
+import { FeeChannel } from "../config/fees";
+import {
+  SavingsPotService,
+  SavingsPotStatus,
+  SavingsPotWithBalance,
+  PotMoveResult,
+} from "../services/savings-pot.service";
+import { toFeeResponse } from "./fee.controller";
+
+/**
+ * Shape a savings pot for API responses
+ *
+ * @param pot - Pot with its balance
+ * @returns Public pot representation
+ */
+function toPotResponse(pot: SavingsPotWithBalance) {
+  return {
+    id: pot.id,
+    wallet_id: pot.wallet_id,
+    parent_wallet_id: pot.parent_wallet_id,
+    name: pot.name,
+    balance: pot.balance_decimal,
+    currency: pot.currency,
+    target_amount: pot.target_decimal,
+    locked_until: pot.locked_until,
+    status: pot.status,
+    created_at: pot.created_at,
+    updated_at: pot.updated_at,
+    closed_at: pot.closed_at,
+  };
+}
+
+/**
+ * Shape a deposit or withdrawal for API responses
+ *
+ * @param result - Pot move result
+ * @returns Updated pot, internal transfer and main wallet balance
+ */
+function toMoveResponse(result: PotMoveResult) {
+  return {
+    pot: toPotResponse(result.pot),
+    transfer: {
+      id: result.transfer.transfer.id,
+      reference: result.transfer.reference,
+      amount: result.transfer.transfer.amount_decimal,
+    },
+    wallet_balance: result.wallet.balance_decimal,
+  };
+}
+
+/**
+ * Reject a request for someone else's pots
+ *
+ * @param req - Express request object
+ * @param res - Express response object
+ * @param message - Forbidden message
+ * @returns Owner's user ID, or null once a response was sent
+ */
+function ownerOf(req: Request, res: Response, message: string): string | null {
+  const { userId } = req.params;
+
+  if (!userId) {
+    res.status(400).json({
+      success: false,
+      error: "Validation Error",
+      message: "User ID is required",
+    });
+    return null;
+  }
+
+  // SECURITY: Verify the authenticated user owns this wallet
+  if (req.user?.id !== userId) {
+    res.status(403).json({
+      success: false,
+      error: "Forbidden",
+      message,
+    });
+    return null;
+  }
+
+  return userId;
+}
+
+/**
+ * Savings pot controller class
+ */
+export class SavingsPotController {
+  /**
+   * Open a savings pot
+   *
+   * POST /api/v1/wallets/:userId/pots
+   *
+   * Request body:
+   * - name: string
+   * - currency?: string (main wallet the pot belongs to, default: NGN)
+   * - targetAmount?: string (decimal savings goal)
+   * - lockedUntil?: string (ISO 8601, future)
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async create(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const userId = ownerOf(req, res, "You can only open savings pots on your own wallet");
+      if (!userId) {
+        return;
+      }
+
+      const { name, currency, targetAmount, lockedUntil } = req.body;
+
+      const pot = await SavingsPotService.create(userId, { name, currency, targetAmount, lockedUntil });
+
+      res.status(201).json({
+        success: true,
+        message: "Savings pot created successfully",
+        data: {
+          pot: toPotResponse(pot),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List a user's savings pots
+   *
+   * GET /api/v1/wallets/:userId/pots
+   *
+   * Query parameters:
+   * - status?: active | closed
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async list(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const userId = ownerOf(req, res, "You can only view your own savings pots");
+      if (!userId) {
+        return;
+      }
+
+      const status = req.query["status"] as SavingsPotStatus | undefined;
+      const pots = await SavingsPotService.listPots(userId, status);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          pots: pots.map(toPotResponse),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get a savings pot
+   *
+   * GET /api/v1/wallets/:userId/pots/:potId
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async get(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const userId = ownerOf(req, res, "You can only view your own savings pots");
+      if (!userId) {
+        return;
+      }
+
+      const pot = await SavingsPotService.getPot(userId, req.params["potId"]!);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          pot: toPotResponse(pot),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Move money from the main wallet into a pot
+   *
+   * POST /api/v1/wallets/:userId/pots/:potId/deposit
+   *
+   * Request body:
+   * - amount: string (decimal, e.g. "1500.50")
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async deposit(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const userId = ownerOf(req, res, "You can only fund your own savings pots");
+      if (!userId) {
+        return;
+      }
+
+      const result = await SavingsPotService.deposit(userId, req.params["potId"]!, req.body.amount);
+
+      res.status(200).json({
+        success: true,
+        message: "Savings pot funded successfully",
+        data: toMoveResponse(result),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Move money from a pot back to the main wallet
+   *
+   * POST /api/v1/wallets/:userId/pots/:potId/withdraw
+   *
+   * Request body:
+   * - amount: string (decimal, e.g. "1500.50")
+   * - channel?: "api" | "web" | "mobile" | "ussd" (selects the early withdrawal penalty)
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async withdraw(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const userId = ownerOf(req, res, "You can only withdraw from your own savings pots");
+      if (!userId) {
+        return;
+      }
+
+      const { amount, channel } = req.body;
+      const result = await SavingsPotService.withdraw(
+        userId,
+        req.params["potId"]!,
+        amount,
+        channel as FeeChannel | undefined
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "Savings pot withdrawal successful",
+        data: {
+          ...toMoveResponse(result),
+          penalty: result.penalty
+            ? {
+                ...toFeeResponse(result.penalty),
+                transaction_id: result.penaltyTransaction?.id ?? null,
+              }
+            : null,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Close an empty savings pot
+   *
+   * POST /api/v1/wallets/:userId/pots/:potId/close
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async close(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const userId = ownerOf(req, res, "You can only close your own savings pots");
+      if (!userId) {
+        return;
+      }
+
+      const pot = await SavingsPotService.close(userId, req.params["potId"]!);
+
+      res.status(200).json({
+        success: true,
+        message: "Savings pot closed successfully",
+        data: {
+          pot: toPotResponse(pot),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
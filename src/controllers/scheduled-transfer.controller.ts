@@ -0,0 +1,407 @@
+/**
+ * Scheduled Transfer Controller
+ *
+ * Handles scheduled transfer HTTP requests (create, list, get with run
+ * history, pause, resume, cancel).
+ *
+ * @module controllers/scheduled-transfer.controller
+ */
+
+import { Request, Response, NextFunction } from "express";
+import {
+  ScheduledTransferService,
+  ScheduledTransfer,
+  ScheduledTransferRun,
+  ScheduledTransferStatus,
+} from "../services/scheduled-transfer.service";
+
+/**
+ * Shape a schedule for API responses
+ *
+ * @param schedule - Schedule record
+ * @returns Public schedule representation
+ */
+function toScheduleResponse(schedule: ScheduledTransfer) {
+  return {
+    id: schedule.id,
+    recipient_user_id: schedule.recipient_user_id,
+    amount: schedule.amount_decimal,
+    currency: schedule.currency,
+    channel: schedule.channel,
+    recurrence: schedule.recurrence,
+    start_at: schedule.start_at,
+    end_at: schedule.end_at,
+    max_runs: schedule.max_runs,
+    status: schedule.status,
+    next_run_at: schedule.next_run_at,
+    retry_at: schedule.retry_at,
+    run_count: schedule.run_count,
+    last_run_at: schedule.last_run_at,
+    last_error: schedule.last_error,
+    metadata: schedule.metadata,
+    created_at: schedule.created_at,
+    updated_at: schedule.updated_at,
+  };
+}
+
+/**
+ * Shape a run for API responses
+ *
+ * @param run - Run record
+ * @returns Public run representation
+ */
+function toRunResponse(run: ScheduledTransferRun) {
+  return {
+    id: run.id,
+    occurrence: run.occurrence,
+    attempt: run.attempt,
+    scheduled_for: run.scheduled_for,
+    status: run.status,
+    reference: run.reference,
+    transfer_id: run.transfer_id,
+    error: run.error,
+    retry_at: run.retry_at,
+    created_at: run.created_at,
+  };
+}
+
+/**
+ * Scheduled transfer controller class
+ */
+export class ScheduledTransferController {
+  /**
+   * Schedule a one-off or recurring transfer
+   *
+   * POST /api/v1/wallets/:userId/scheduled-transfers
+   *
+   * Request body:
+   * - recipientUserId: string
+   * - amount: string (decimal, e.g. "1500.50")
+   * - currency?: string (default: NGN)
+   * - startAt: string (ISO 8601, first or only run)
+   * - recurrence?: string (e.g. "FREQ=MONTHLY;BYMONTHDAY=1")
+   * - endAt?: string / maxRuns?: number (recurring only)
+   * - channel?: "api" | "web" | "mobile" | "ussd"
+   * - metadata?: object
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async create(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { userId } = req.params;
+
+      if (!userId) {
+        res.status(400).json({
+          success: false,
+          error: "Validation Error",
+          message: "User ID is required",
+        });
+        return;
+      }
+
+      // SECURITY: Verify the authenticated user owns this wallet
+      if (req.user?.id !== userId) {
+        res.status(403).json({
+          success: false,
+          error: "Forbidden",
+          message: "You can only schedule transfers from your own wallet",
+        });
+        return;
+      }
+
+      const {
+        recipientUserId,
+        amount,
+        currency,
+        startAt,
+        recurrence,
+        endAt,
+        maxRuns,
+        channel,
+        metadata,
+      } = req.body;
+
+      const schedule = await ScheduledTransferService.create(userId, {
+        recipientUserId,
+        amount,
+        currency,
+        startAt,
+        recurrence,
+        endAt,
+        maxRuns,
+        channel,
+        metadata,
+      });
+
+      res.status(201).json({
+        success: true,
+        message: "Transfer scheduled successfully",
+        data: {
+          scheduled_transfer: toScheduleResponse(schedule),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List a user's scheduled transfers
+   *
+   * GET /api/v1/wallets/:userId/scheduled-transfers
+   *
+   * Query parameters:
+   * - status?: active | paused | completed | cancelled | failed
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async list(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { userId } = req.params;
+      const status = req.query["status"] as ScheduledTransferStatus | undefined;
+
+      if (!userId) {
+        res.status(400).json({
+          success: false,
+          error: "Validation Error",
+          message: "User ID is required",
+        });
+        return;
+      }
+
+      // SECURITY: Verify the authenticated user owns this wallet
+      if (req.user?.id !== userId) {
+        res.status(403).json({
+          success: false,
+          error: "Forbidden",
+          message: "You can only view your own scheduled transfers",
+        });
+        return;
+      }
+
+      const schedules = await ScheduledTransferService.listSchedules(userId, status);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          scheduled_transfers: schedules.map(toScheduleResponse),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get a scheduled transfer with its execution history
+   *
+   * GET /api/v1/wallets/:userId/scheduled-transfers/:scheduleId
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async get(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { userId, scheduleId } = req.params;
+
+      if (!userId || !scheduleId) {
+        res.status(400).json({
+          success: false,
+          error: "Validation Error",
+          message: "User ID and schedule ID are required",
+        });
+        return;
+      }
+
+      // SECURITY: Verify the authenticated user owns this wallet
+      if (req.user?.id !== userId) {
+        res.status(403).json({
+          success: false,
+          error: "Forbidden",
+          message: "You can only view your own scheduled transfers",
+        });
+        return;
+      }
+
+      const schedule = await ScheduledTransferService.getSchedule(userId, scheduleId);
+      const runs = await ScheduledTransferService.listRuns(schedule.id);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          scheduled_transfer: toScheduleResponse(schedule),
+          runs: runs.map(toRunResponse),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Pause a scheduled transfer
+   *
+   * POST /api/v1/wallets/:userId/scheduled-transfers/:scheduleId/pause
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async pause(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { userId, scheduleId } = req.params;
+
+      if (!userId || !scheduleId) {
+        res.status(400).json({
+          success: false,
+          error: "Validation Error",
+          message: "User ID and schedule ID are required",
+        });
+        return;
+      }
+
+      // SECURITY: Verify the authenticated user owns this wallet
+      if (req.user?.id !== userId) {
+        res.status(403).json({
+          success: false,
+          error: "Forbidden",
+          message: "You can only pause your own scheduled transfers",
+        });
+        return;
+      }
+
+      const schedule = await ScheduledTransferService.pause(userId, scheduleId);
+
+      res.status(200).json({
+        success: true,
+        message: "Scheduled transfer paused successfully",
+        data: {
+          scheduled_transfer: toScheduleResponse(schedule),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Resume a scheduled transfer
+   *
+   * POST /api/v1/wallets/:userId/scheduled-transfers/:scheduleId/resume
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async resume(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { userId, scheduleId } = req.params;
+
+      if (!userId || !scheduleId) {
+        res.status(400).json({
+          success: false,
+          error: "Validation Error",
+          message: "User ID and schedule ID are required",
+        });
+        return;
+      }
+
+      // SECURITY: Verify the authenticated user owns this wallet
+      if (req.user?.id !== userId) {
+        res.status(403).json({
+          success: false,
+          error: "Forbidden",
+          message: "You can only resume your own scheduled transfers",
+        });
+        return;
+      }
+
+      const schedule = await ScheduledTransferService.resume(userId, scheduleId);
+
+      res.status(200).json({
+        success: true,
+        message: "Scheduled transfer resumed successfully",
+        data: {
+          scheduled_transfer: toScheduleResponse(schedule),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Cancel a scheduled transfer
+   *
+   * POST /api/v1/wallets/:userId/scheduled-transfers/:scheduleId/cancel
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async cancel(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { userId, scheduleId } = req.params;
+
+      if (!userId || !scheduleId) {
+        res.status(400).json({
+          success: false,
+          error: "Validation Error",
+          message: "User ID and schedule ID are required",
+        });
+        return;
+      }
+
+      // SECURITY: Verify the authenticated user owns this wallet
+      if (req.user?.id !== userId) {
+        res.status(403).json({
+          success: false,
+          error: "Forbidden",
+          message: "You can only cancel your own scheduled transfers",
+        });
+        return;
+      }
+
+      const schedule = await ScheduledTransferService.cancel(userId, scheduleId);
+
+      res.status(200).json({
+        success: true,
+        message: "Scheduled transfer cancelled successfully",
+        data: {
+          scheduled_transfer: toScheduleResponse(schedule),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -65,6 +65,7 @@ export class UserController {
             name: user.name,
             email: user.email,
             phone: user.phone,
+            handle: user.handle,
             status: user.status,
             created_at: user.created_at,
           },
@@ -74,5 +75,62 @@ export class UserController {
       next(error);
     }
   }
-}
 
+  /**
+   * Set or change the user's handle
+   * 
+   * PATCH /api/v1/users/:id/handle
+   * 
+   * Request body:
+   * - handle: string (3-30 characters, optional leading @)
+   * 
+   * Other users can then send transfers to `@handle`.
+   * 
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async setHandle(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        res.status(400).json({
+          success: false,
+          error: "Validation Error",
+          message: "User ID is required",
+        });
+        return;
+      }
+
+      // Security check: Users can only change their own handle
+      if (id !== req.user?.id) {
+        res.status(403).json({
+          success: false,
+          error: "Forbidden",
+          message: "You can only change your own handle",
+        });
+        return;
+      }
+
+      const user = await UserService.setHandle(id, req.body.handle);
+
+      res.status(200).json({
+        success: true,
+        message: "Handle updated successfully",
+        data: {
+          user: {
+            id: user.id,
+            handle: user.handle,
+          },
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
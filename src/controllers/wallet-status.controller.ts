@@ -0,0 +1,111 @@
+/**
+ * Wallet Status Controller
+ *
+ * Handles the admin endpoints that freeze, restrict (post-no-debit),
+ * reactivate and close wallets, and list each wallet's status history.
+ *
+ * @module controllers/wallet-status.controller
+ */
+
+import { Request, Response, NextFunction } from "express";
+import { WalletStatus } from "../services/wallet.service";
+import { WalletStatusService, WalletStatusChange } from "../services/wallet-status.service";
+
+/**
+ * Shape a status change for API responses
+ *
+ * @param change - Status change record
+ * @returns Public status change representation
+ */
+function toChangeResponse(change: WalletStatusChange) {
+  return {
+    id: change.id,
+    wallet_id: change.wallet_id,
+    from_status: change.from_status,
+    to_status: change.to_status,
+    reason: change.reason,
+    changed_by: change.changed_by,
+    created_at: change.created_at,
+  };
+}
+
+/**
+ * Wallet status controller class
+ */
+export class WalletStatusController {
+  /**
+   * Change a wallet's status
+   *
+   * PATCH /api/v1/admin/wallets/:walletId/status
+   *
+   * Request body:
+   * - status: "active" | "frozen" | "post_no_debit" | "closed"
+   * - reason: string
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async setStatus(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { walletId } = req.params;
+      const { status, reason } = req.body;
+
+      const result = await WalletStatusService.setStatus(
+        walletId as string,
+        status as WalletStatus,
+        reason,
+        req.user?.id as string
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "Wallet status updated successfully",
+        data: {
+          wallet: {
+            id: result.wallet.id,
+            user_id: result.wallet.user_id,
+            currency: result.wallet.currency,
+            balance: result.wallet.balance_decimal,
+            status: result.wallet.status,
+          },
+          change: toChangeResponse(result.change),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List a wallet's status changes, newest first
+   *
+   * GET /api/v1/admin/wallets/:walletId/status-history
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async listHistory(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const history = await WalletStatusService.listHistory(req.params["walletId"] as string);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          history: history.map(toChangeResponse),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
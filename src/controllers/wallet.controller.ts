@@ -1,26 +1,152 @@
 /**
  * Wallet Controller
  * 
- * Handles wallet-related HTTP requests (fund, withdraw, transfer, balance).
+ * Handles wallet-related HTTP requests (list, open, fund, withdraw, transfer,
+ * recipient lookup, balance, history).
  * 
  * @module controllers/wallet.controller
  */
 
 import { Request, Response, NextFunction } from "express";
-import { WalletService } from "../services/wallet.service";
+import { WalletService, Wallet, Transaction } from "../services/wallet.service";
+import { UserService } from "../services/user.service";
+import { maskName } from "../utils/mask";
+import { toFeeResponse } from "./fee.controller";
+
+/**
+ * Shape a wallet for API responses
+ *
+ * @param wallet - Wallet record
+ * @returns Public wallet representation
+ */
+function toWalletResponse(wallet: Wallet) {
+  return {
+    id: wallet.id,
+    currency: wallet.currency,
+    balance: wallet.balance_decimal,
+    available_balance: WalletService.availableBalance(wallet).toStorageString(),
+    held_balance: wallet.held_decimal,
+    status: wallet.status,
+    created_at: wallet.created_at,
+  };
+}
 
 /**
  * Wallet controller class
  */
 export class WalletController {
+  /**
+   * List a user's wallets (one per currency)
+   *
+   * GET /api/v1/wallets/:userId
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async listWallets(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { userId } = req.params;
+
+      if (!userId) {
+        res.status(400).json({
+          success: false,
+          error: "Validation Error",
+          message: "User ID is required",
+        });
+        return;
+      }
+
+      // SECURITY: Verify the authenticated user owns these wallets
+      if (req.user?.id !== userId) {
+        res.status(403).json({
+          success: false,
+          error: "Forbidden",
+          message: "You can only view your own wallets",
+        });
+        return;
+      }
+
+      const wallets = await WalletService.listWallets(userId);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          wallets: wallets.map(toWalletResponse),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Open a wallet in another currency
+   *
+   * POST /api/v1/wallets/:userId
+   *
+   * Request body:
+   * - currency: string (supported ISO code, e.g. "USD")
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async openWallet(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { userId } = req.params;
+      const { currency } = req.body;
+
+      if (!userId) {
+        res.status(400).json({
+          success: false,
+          error: "Validation Error",
+          message: "User ID is required",
+        });
+        return;
+      }
+
+      // SECURITY: Verify the authenticated user owns this account
+      if (req.user?.id !== userId) {
+        res.status(403).json({
+          success: false,
+          error: "Forbidden",
+          message: "You can only open wallets for yourself",
+        });
+        return;
+      }
+
+      const wallet = await WalletService.openWallet(userId, currency);
+
+      res.status(201).json({
+        success: true,
+        message: "Wallet opened successfully",
+        data: {
+          wallet: toWalletResponse(wallet),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * Fund a wallet
    * 
    * POST /api/v1/wallets/:userId/fund
    * 
    * Request body:
-   * - amount: number
+   * - amount: string (decimal, e.g. "1500.50")
    * - metadata?: object
+   * - walletId?/currency?: wallet to use (default: NGN wallet)
    * 
    * @param req - Express request object
    * @param res - Express response object
@@ -33,7 +159,7 @@ export class WalletController {
   ): Promise<void> {
     try {
       const { userId } = req.params;
-      const { amount, metadata } = req.body;
+      const { amount, metadata, walletId, currency } = req.body;
 
       if (!userId) {
         res.status(400).json({
@@ -55,7 +181,10 @@ export class WalletController {
       }
 
       // Fund wallet (reference auto-generated)
-      const result = await WalletService.fund(userId, amount, metadata);
+      const result = await WalletService.fund(userId, amount, metadata, {
+        walletId,
+        currency,
+      });
 
       // Return success response with generated reference
       res.status(200).json({
@@ -85,8 +214,10 @@ export class WalletController {
    * POST /api/v1/wallets/:userId/withdraw
    * 
    * Request body:
-   * - amount: number
+   * - amount: string (decimal, e.g. "1500.50")
    * - metadata?: object
+   * - walletId?/currency?: wallet to use (default: NGN wallet)
+   * - channel?: request channel (selects the fee rule; default: api)
    * 
    * @param req - Express request object
    * @param res - Express response object
@@ -99,7 +230,7 @@ export class WalletController {
   ): Promise<void> {
     try {
       const { userId } = req.params;
-      const { amount, metadata } = req.body;
+      const { amount, metadata, walletId, currency, channel } = req.body;
 
       if (!userId) {
         res.status(400).json({
@@ -121,7 +252,13 @@ export class WalletController {
       }
 
       // Withdraw from wallet (reference auto-generated)
-      const result = await WalletService.withdraw(userId, amount, metadata);
+      const result = await WalletService.withdraw(
+        userId,
+        amount,
+        metadata,
+        { walletId, currency },
+        channel
+      );
 
       // Return success response with generated reference
       res.status(200).json({
@@ -138,6 +275,10 @@ export class WalletController {
             balance_after: result.transaction.balance_after,
             created_at: result.transaction.created_at,
           },
+          fee: {
+            ...toFeeResponse(result.fee),
+            transaction_id: result.feeTransaction?.id ?? null,
+          },
         },
       });
     } catch (error) {
@@ -152,9 +293,12 @@ export class WalletController {
    * 
    * Request body:
    * - fromUserId: string
-   * - toUserId: string
-   * - amount: number
+   * - toUserId?: string (recipient's user ID), or
+   * - recipient?: string (recipient's email, phone number or handle)
+   * - amount: string (decimal, e.g. "1500.50")
    * - metadata?: object
+   * - currency?/fromWalletId?/toWalletId?: wallets to use (default: NGN wallets)
+   * - channel?: request channel (selects the fee rule; default: api)
    * 
    * @param req - Express request object
    * @param res - Express response object
@@ -166,7 +310,8 @@ export class WalletController {
     next: NextFunction
   ): Promise<void> {
     try {
-      const { fromUserId, toUserId, amount, metadata } = req.body;
+      const { fromUserId, recipient, amount, metadata, currency, fromWalletId, toWalletId, channel } =
+        req.body;
 
       // SECURITY: Verify the authenticated user is the sender
       if (req.user?.id !== fromUserId) {
@@ -178,12 +323,30 @@ export class WalletController {
         return;
       }
 
+      // Resolve an email, phone number or handle to the recipient's user ID
+      let toUserId: string | undefined = req.body.toUserId;
+      if (!toUserId) {
+        const { user } = await UserService.resolveRecipient(recipient);
+
+        if (user.id === fromUserId) {
+          res.status(400).json({
+            success: false,
+            error: "Validation Error",
+            message: "Cannot transfer to yourself",
+          });
+          return;
+        }
+        toUserId = user.id;
+      }
+
       // Execute transfer (reference auto-generated)
       const result = await WalletService.transfer(
         fromUserId,
         toUserId,
         amount,
-        metadata
+        metadata,
+        { currency, fromWalletId, toWalletId },
+        channel
       );
 
       // Return success response with generated reference
@@ -200,6 +363,7 @@ export class WalletController {
             status: result.transfer.status,
             created_at: result.transfer.created_at,
           },
+          currency: result.fromWallet.currency,
           from_balance: result.fromWallet.balance_decimal,
           to_balance: result.toWallet.balance_decimal,
           transactions: result.transactions.map(txn => ({
@@ -209,6 +373,57 @@ export class WalletController {
             amount: txn.amount_decimal,
             balance_after: txn.balance_after,
           })),
+          fee: {
+            ...toFeeResponse(result.fee),
+            transaction_id: result.feeTransaction?.id ?? null,
+          },
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Look up a transfer recipient so the sender can confirm who they are paying
+   * 
+   * GET /api/v1/wallets/recipients/lookup
+   * 
+   * Query parameters:
+   * - identifier: recipient's email, phone number or handle
+   * 
+   * Only the masked name (and the handle, which is public) is returned.
+   * 
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async lookupRecipient(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const identifier = req.query["identifier"] as string;
+      const { user, type } = await UserService.resolveRecipient(identifier);
+
+      if (user.id === req.user?.id) {
+        res.status(400).json({
+          success: false,
+          error: "Validation Error",
+          message: "Cannot transfer to yourself",
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: {
+          recipient: {
+            name: maskName(user.name),
+            handle: user.handle ? `@${user.handle}` : null,
+            identifier_type: type,
+          },
         },
       });
     } catch (error) {
@@ -221,6 +436,9 @@ export class WalletController {
    * 
    * GET /api/v1/wallets/:userId/balance
    * 
+   * Query parameters:
+   * - walletId?/currency?: wallet to read (default: NGN wallet)
+   * 
    * @param req - Express request object
    * @param res - Express response object
    * @param next - Express next function
@@ -242,15 +460,32 @@ export class WalletController {
         return;
       }
 
+      // Verify user is checking their own balance
+      if (req.user?.id !== userId) {
+        res.status(403).json({
+          success: false,
+          error: "Forbidden",
+          message: "You can only view your own balance",
+        });
+        return;
+      }
+
+      const { walletId, currency } = req.query as Record<string, string | undefined>;
+
       // Get balance
-      const result = await WalletService.getBalance(userId);
+      const result = await WalletService.getBalance(userId, { walletId, currency });
 
       // Return success response
       res.status(200).json({
         success: true,
         data: {
           balance: result.balance,
+          available_balance: result.available,
+          held_balance: result.held,
+          pots_balance: result.pots,
+          total_balance: result.total,
           currency: result.currency,
+          status: result.wallet.status,
           wallet_id: result.wallet.id,
         },
       });
@@ -258,5 +493,100 @@ export class WalletController {
       next(error);
     }
   }
-}
 
+  /**
+   * Get paginated transaction history
+   * 
+   * GET /api/v1/wallets/:userId/transactions
+   * 
+   * Query parameters:
+   * - limit?: number (1-100, default 20)
+   * - cursor?: string (from previous page's next_cursor)
+   * - type?: comma-separated transaction types
+   * - from?: ISO date (inclusive)
+   * - to?: ISO date (exclusive)
+   * - minAmount?/maxAmount?: decimal strings (inclusive)
+   * - reference?: reference prefix
+   * - walletId?/currency?: wallet to read (default: NGN wallet)
+   * 
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  static async getTransactions(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { userId } = req.params;
+
+      if (!userId) {
+        res.status(400).json({
+          success: false,
+          error: "Validation Error",
+          message: "User ID is required",
+        });
+        return;
+      }
+
+      // SECURITY: Verify the authenticated user owns this wallet
+      if (req.user?.id !== userId) {
+        res.status(403).json({
+          success: false,
+          error: "Forbidden",
+          message: "You can only view your own transaction history",
+        });
+        return;
+      }
+
+      // Query values arrive as strings (already validated by the route schema)
+      const {
+        limit,
+        cursor,
+        type,
+        from,
+        to,
+        minAmount,
+        maxAmount,
+        reference,
+        walletId,
+        currency,
+      } = req.query as Record<string, string | undefined>;
+
+      const page = await WalletService.getTransactionHistory(userId, {
+        limit: limit ? parseInt(limit, 10) : undefined,
+        cursor,
+        types: type
+          ? (type.split(",").map((t) => t.trim()) as Transaction["type"][])
+          : undefined,
+        from: from ? new Date(from) : undefined,
+        to: to ? new Date(to) : undefined,
+        minAmount,
+        maxAmount,
+        referencePrefix: reference,
+      }, { walletId, currency });
+
+      res.status(200).json({
+        success: true,
+        data: {
+          transactions: page.transactions.map((txn) => ({
+            id: txn.id,
+            type: txn.type,
+            amount: txn.amount_decimal,
+            balance_after: txn.balance_after,
+            reference: txn.reference,
+            metadata: txn.metadata,
+            created_at: txn.created_at,
+          })),
+          pagination: {
+            next_cursor: page.nextCursor,
+            has_more: page.nextCursor !== null,
+          },
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
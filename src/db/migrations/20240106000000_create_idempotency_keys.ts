@@ -0,0 +1,97 @@
+/**
+ * Migration: Create Idempotency Keys Table
+ * 
+ * This migration creates the idempotency_keys table which stores client-supplied
+ * Idempotency-Key headers together with a fingerprint of the original request
+ * and the first response, so retried requests can be replayed safely.
+ * 
+ * @module migrations/create_idempotency_keys
+ */
+
+import { Knex } from "knex";
+
+/**
+ * Create the idempotency_keys table
+ * 
+ * Table structure:
+ * - id: UUID primary key
+ * - user_id: Foreign key to users table (keys are scoped per user)
+ * - idempotency_key: Client-supplied key
+ * - request_fingerprint: SHA-256 of method, path and body
+ * - response_status: HTTP status of the first response (null while in progress)
+ * - response_body: JSON body of the first response (null while in progress)
+ * - created_at: Timestamp when the key was first seen
+ * - expires_at: Timestamp after which the key can be reused
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable("idempotency_keys", (table) => {
+    // Primary key - UUID format
+    table
+      .string("id", 36)
+      .primary()
+      .notNullable()
+      .comment("Idempotency record unique identifier");
+
+    // Foreign key to users
+    table
+      .string("user_id", 36)
+      .notNullable()
+      .comment("User ID the key belongs to");
+    table
+      .foreign("user_id")
+      .references("users.id")
+      .onDelete("CASCADE")
+      .onUpdate("CASCADE");
+
+    // Client-supplied key
+    table
+      .string("idempotency_key", 255)
+      .notNullable()
+      .comment("Client-supplied Idempotency-Key header value");
+
+    // Request fingerprint
+    table
+      .string("request_fingerprint", 64)
+      .notNullable()
+      .comment("SHA-256 fingerprint of method, path and body");
+
+    // Stored response
+    table
+      .integer("response_status")
+      .nullable()
+      .comment("HTTP status of the first response (null while in progress)");
+    table
+      .json("response_body")
+      .nullable()
+      .comment("Body of the first response (null while in progress)");
+
+    // Timestamps
+    table
+      .timestamp("created_at")
+      .defaultTo(knex.fn.now())
+      .notNullable()
+      .comment("Timestamp when the key was first seen");
+    table
+      .timestamp("expires_at")
+      .notNullable()
+      .comment("Timestamp after which the key expires");
+
+    // One key per user
+    table.unique(["user_id", "idempotency_key"], {
+      indexName: "uq_idempotency_keys_user_key",
+    });
+
+    // Indexes for performance
+    table.index(["expires_at"], "idx_idempotency_keys_expires_at");
+  });
+
+  console.log("✅ Created idempotency_keys table");
+}
+
+/**
+ * Drop the idempotency_keys table
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists("idempotency_keys");
+  console.log("✅ Dropped idempotency_keys table");
+}
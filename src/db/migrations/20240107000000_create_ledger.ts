@@ -0,0 +1,244 @@
+/**
+ * Migration: Create Double-Entry Ledger Tables
+ *
+ * This migration creates the journal/entries subsystem that sits underneath
+ * the wallets table. Every money movement posts a balanced journal (total
+ * debits = total credits) against wallet accounts and system accounts, so it
+ * can be proven that money was neither created nor destroyed.
+ *
+ * Existing wallets get a ledger account and an opening-balance journal so
+ * their current balances are represented in the ledger from day one.
+ *
+ * @module migrations/create_ledger
+ */
+
+import { Knex } from "knex";
+import { v4 as uuidv4 } from "uuid";
+
+/**
+ * Create the ledger_accounts, journal_entries and ledger_entries tables
+ *
+ * ledger_accounts:
+ * - id: UUID primary key
+ * - code: Unique account code (WALLET:<walletId> or <SYSTEM_NAME>:<currency>)
+ * - type: wallet or system
+ * - wallet_id: Wallet this account mirrors (wallet accounts only)
+ * - currency: Currency code
+ * - normal_balance: Side that increases the account (credit for wallets)
+ * - balance_decimal: Running balance (maintained for wallet accounts only)
+ *
+ * journal_entries:
+ * - id: UUID primary key
+ * - reference: Unique reference (same as the wallet operation reference)
+ * - description: Human-readable description
+ * - metadata: Optional JSON metadata
+ *
+ * ledger_entries:
+ * - id: UUID primary key
+ * - journal_id: Journal this leg belongs to
+ * - account_id: Account debited or credited
+ * - direction: debit or credit
+ * - amount_decimal: Leg amount (always positive)
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable("ledger_accounts", (table) => {
+    // Primary key - UUID format
+    table.string("id", 36).primary().notNullable().comment("Ledger account unique identifier");
+
+    table
+      .string("code", 80)
+      .notNullable()
+      .unique()
+      .comment("Account code (WALLET:<walletId> or <SYSTEM_NAME>:<currency>)");
+    table.string("name", 120).notNullable().comment("Account display name");
+
+    table
+      .enum("type", ["wallet", "system"], {
+        useNative: true,
+        enumName: "ledger_account_type_enum",
+      })
+      .notNullable()
+      .comment("Account type");
+
+    // Wallet accounts mirror exactly one wallet
+    table
+      .string("wallet_id", 36)
+      .nullable()
+      .unique()
+      .comment("Wallet ID (wallet accounts only)");
+    table
+      .foreign("wallet_id")
+      .references("wallets.id")
+      .onDelete("CASCADE")
+      .onUpdate("CASCADE");
+
+    table.string("currency", 10).notNullable().comment("Currency code");
+
+    table
+      .enum("normal_balance", ["debit", "credit"], {
+        useNative: true,
+        enumName: "ledger_normal_balance_enum",
+      })
+      .notNullable()
+      .comment("Side that increases the account balance");
+
+    table
+      .decimal("balance_decimal", 20, 6)
+      .notNullable()
+      .defaultTo(0)
+      .comment("Running balance (wallet accounts only; system accounts are derived)");
+
+    table
+      .timestamp("created_at")
+      .defaultTo(knex.fn.now())
+      .notNullable()
+      .comment("Timestamp when account was created");
+
+    table.index(["type"], "idx_ledger_accounts_type");
+    table.index(["currency"], "idx_ledger_accounts_currency");
+  });
+
+  await knex.schema.createTable("journal_entries", (table) => {
+    // Primary key - UUID format
+    table.string("id", 36).primary().notNullable().comment("Journal unique identifier");
+
+    table
+      .string("reference", 80)
+      .notNullable()
+      .unique()
+      .comment("Unique journal reference (matches the wallet operation reference)");
+    table.string("description", 255).notNullable().comment("Journal description");
+    table.json("metadata").nullable().comment("Optional journal metadata");
+
+    table
+      .timestamp("created_at")
+      .defaultTo(knex.fn.now())
+      .notNullable()
+      .comment("Timestamp when journal was posted");
+
+    table.index(["created_at"], "idx_journal_entries_created_at");
+  });
+
+  await knex.schema.createTable("ledger_entries", (table) => {
+    // Primary key - UUID format
+    table.string("id", 36).primary().notNullable().comment("Ledger entry unique identifier");
+
+    table.string("journal_id", 36).notNullable().comment("Journal this entry belongs to");
+    table
+      .foreign("journal_id")
+      .references("journal_entries.id")
+      .onDelete("CASCADE")
+      .onUpdate("CASCADE");
+
+    table.string("account_id", 36).notNullable().comment("Account debited or credited");
+    table
+      .foreign("account_id")
+      .references("ledger_accounts.id")
+      .onDelete("CASCADE")
+      .onUpdate("CASCADE");
+
+    table
+      .enum("direction", ["debit", "credit"], {
+        useNative: true,
+        enumName: "ledger_entry_direction_enum",
+      })
+      .notNullable()
+      .comment("Entry direction");
+
+    table
+      .decimal("amount_decimal", 20, 6)
+      .notNullable()
+      .comment("Entry amount (always positive)");
+
+    table
+      .timestamp("created_at")
+      .defaultTo(knex.fn.now())
+      .notNullable()
+      .comment("Timestamp when entry was posted");
+
+    table.index(["journal_id"], "idx_ledger_entries_journal_id");
+    table.index(["account_id", "direction"], "idx_ledger_entries_account_direction");
+  });
+
+  await knex.raw(`
+    ALTER TABLE ledger_entries
+    ADD CONSTRAINT chk_ledger_entry_amount_positive
+    CHECK (amount_decimal > 0)
+  `);
+
+  // Backfill: give every existing wallet a ledger account and an opening balance
+  const wallets: Array<{ id: string; balance_decimal: string; currency: string }> =
+    await knex("wallets").select("id", "balance_decimal", "currency");
+
+  const openingAccounts = new Map<string, string>();
+
+  for (const wallet of wallets) {
+    const walletAccountId = uuidv4();
+    await knex("ledger_accounts").insert({
+      id: walletAccountId,
+      code: `WALLET:${wallet.id}`,
+      name: `Wallet ${wallet.id}`,
+      type: "wallet",
+      wallet_id: wallet.id,
+      currency: wallet.currency,
+      normal_balance: "credit",
+      balance_decimal: wallet.balance_decimal,
+    });
+
+    if (Number(wallet.balance_decimal) === 0) {
+      continue;
+    }
+
+    let openingAccountId = openingAccounts.get(wallet.currency);
+    if (!openingAccountId) {
+      openingAccountId = uuidv4();
+      await knex("ledger_accounts").insert({
+        id: openingAccountId,
+        code: `OPENING_BALANCES:${wallet.currency}`,
+        name: `Opening balances (${wallet.currency})`,
+        type: "system",
+        wallet_id: null,
+        currency: wallet.currency,
+        normal_balance: "debit",
+        balance_decimal: 0,
+      });
+      openingAccounts.set(wallet.currency, openingAccountId);
+    }
+
+    const journalId = uuidv4();
+    await knex("journal_entries").insert({
+      id: journalId,
+      reference: `OPENING-${wallet.id}`,
+      description: "Opening balance migrated from wallets table",
+      metadata: null,
+    });
+    await knex("ledger_entries").insert([
+      {
+        id: uuidv4(),
+        journal_id: journalId,
+        account_id: openingAccountId,
+        direction: "debit",
+        amount_decimal: wallet.balance_decimal,
+      },
+      {
+        id: uuidv4(),
+        journal_id: journalId,
+        account_id: walletAccountId,
+        direction: "credit",
+        amount_decimal: wallet.balance_decimal,
+      },
+    ]);
+  }
+
+  console.log("✅ Created ledger tables");
+}
+
+/**
+ * Drop the ledger tables
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists("ledger_entries");
+  await knex.schema.dropTableIfExists("journal_entries");
+  await knex.schema.dropTableIfExists("ledger_accounts");
+  console.log("✅ Dropped ledger tables");
+}
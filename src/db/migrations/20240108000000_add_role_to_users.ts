@@ -0,0 +1,44 @@
+/**
+ * Migration: Add Role to Users
+ *
+ * Adds a role column so that back-office endpoints (reconciliation and
+ * other operations under /api/v1/admin) can be restricted to staff.
+ * Every existing user becomes a regular user; admins are promoted manually.
+ *
+ * @module migrations/add_role_to_users
+ */
+
+import { Knex } from "knex";
+
+/**
+ * Add the role column to users
+ *
+ * Column:
+ * - role: user or admin (default user)
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable("users", (table) => {
+    table
+      .enum("role", ["user", "admin"], {
+        useNative: true,
+        enumName: "user_role_enum",
+      })
+      .notNullable()
+      .defaultTo("user")
+      .after("status")
+      .comment("User role (admin can access back-office endpoints)");
+  });
+
+  console.log("✅ Added role column to users table");
+}
+
+/**
+ * Drop the role column from users
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable("users", (table) => {
+    table.dropColumn("role");
+  });
+
+  console.log("✅ Dropped role column from users table");
+}
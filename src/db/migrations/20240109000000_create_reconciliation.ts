@@ -0,0 +1,122 @@
+/**
+ * Migration: Create Reconciliation Tables
+ *
+ * This migration creates the tables used by the reconciliation runner.
+ * Each run walks every wallet and transfer and records any mismatch it finds
+ * so that a bug in a money path is noticed before a customer complains.
+ *
+ * @module migrations/create_reconciliation
+ */
+
+import { Knex } from "knex";
+
+/**
+ * Create the reconciliation_runs and reconciliation_discrepancies tables
+ *
+ * reconciliation_runs:
+ * - id: UUID primary key
+ * - status: running, completed, or failed
+ * - triggered_by: Who started the run (cli, schedule, or admin:<userId>)
+ * - wallets_checked / transfers_checked: Counters
+ * - discrepancy_count: Number of discrepancies found
+ * - error: Failure message (failed runs only)
+ * - started_at / finished_at: Run timestamps
+ *
+ * reconciliation_discrepancies:
+ * - id: UUID primary key
+ * - run_id: Run that found the discrepancy
+ * - check_type: wallet_balance, balance_chain, transfer_legs, or ledger
+ * - wallet_id / transfer_id / transaction_id: What the discrepancy is about
+ * - expected / actual: Values that disagreed
+ * - message: Human-readable description
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable("reconciliation_runs", (table) => {
+    // Primary key - UUID format
+    table.string("id", 36).primary().notNullable().comment("Run unique identifier");
+
+    table
+      .enum("status", ["running", "completed", "failed"], {
+        useNative: true,
+        enumName: "reconciliation_run_status_enum",
+      })
+      .notNullable()
+      .defaultTo("running")
+      .comment("Run status");
+
+    table
+      .string("triggered_by", 64)
+      .notNullable()
+      .comment("Run trigger (cli, schedule, or admin:<userId>)");
+
+    table.integer("wallets_checked").unsigned().notNullable().defaultTo(0);
+    table.integer("transfers_checked").unsigned().notNullable().defaultTo(0);
+    table
+      .integer("discrepancy_count")
+      .unsigned()
+      .notNullable()
+      .defaultTo(0)
+      .comment("Number of discrepancies found");
+
+    table.string("error", 500).nullable().comment("Failure message (failed runs only)");
+
+    table
+      .timestamp("started_at")
+      .defaultTo(knex.fn.now())
+      .notNullable()
+      .comment("Timestamp when the run started");
+    table.timestamp("finished_at").nullable().comment("Timestamp when the run finished");
+
+    table.index(["status"], "idx_reconciliation_runs_status");
+    table.index(["started_at"], "idx_reconciliation_runs_started_at");
+  });
+
+  await knex.schema.createTable("reconciliation_discrepancies", (table) => {
+    // Primary key - UUID format
+    table.string("id", 36).primary().notNullable().comment("Discrepancy unique identifier");
+
+    table.string("run_id", 36).notNullable().comment("Run that found the discrepancy");
+    table
+      .foreign("run_id")
+      .references("reconciliation_runs.id")
+      .onDelete("CASCADE")
+      .onUpdate("CASCADE");
+
+    table
+      .enum("check_type", ["wallet_balance", "balance_chain", "transfer_legs", "ledger"], {
+        useNative: true,
+        enumName: "reconciliation_check_type_enum",
+      })
+      .notNullable()
+      .comment("Check that failed");
+
+    // Plain columns (no FKs): discrepancies must survive whatever they point at
+    table.string("wallet_id", 36).nullable().comment("Wallet involved");
+    table.string("transfer_id", 36).nullable().comment("Transfer involved");
+    table.string("transaction_id", 36).nullable().comment("Transaction involved");
+
+    table.string("expected", 100).nullable().comment("Expected value");
+    table.string("actual", 100).nullable().comment("Actual value");
+    table.string("message", 500).notNullable().comment("Description of the mismatch");
+
+    table
+      .timestamp("created_at")
+      .defaultTo(knex.fn.now())
+      .notNullable()
+      .comment("Timestamp when the discrepancy was recorded");
+
+    table.index(["run_id"], "idx_reconciliation_discrepancies_run_id");
+    table.index(["wallet_id"], "idx_reconciliation_discrepancies_wallet_id");
+  });
+
+  console.log("✅ Created reconciliation tables");
+}
+
+/**
+ * Drop the reconciliation tables
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists("reconciliation_discrepancies");
+  await knex.schema.dropTableIfExists("reconciliation_runs");
+  console.log("✅ Dropped reconciliation tables");
+}
@@ -0,0 +1,89 @@
+/**
+ * Migration: Add Reversals
+ *
+ * Makes reversals a first-class operation:
+ * - transactions.type gains `reversal`
+ * - transactions.reversal_of links a compensating transaction to the one it
+ *   reverses; the unique index makes a double reversal impossible
+ * - transfers.status gains `reversed`
+ *
+ * The `chk_wallet_balance_positive` constraint is dropped: a reversal may take
+ * a wallet negative when an admin explicitly overrides the check. Every other
+ * path still refuses to go below zero in WalletService.
+ *
+ * @module migrations/add_reversals
+ */
+
+import { Knex } from "knex";
+
+/**
+ * Add reversal support to transactions, transfers and wallets
+ *
+ * Columns:
+ * - transactions.reversal_of: Transaction this row reverses (unique, nullable)
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.raw(`
+    ALTER TABLE transactions
+    MODIFY COLUMN type ENUM('credit', 'debit', 'transfer-in', 'transfer-out', 'reversal') NOT NULL
+    COMMENT 'Transaction type'
+  `);
+
+  await knex.schema.alterTable("transactions", (table) => {
+    table
+      .string("reversal_of", 36)
+      .nullable()
+      .unique("uq_transactions_reversal_of")
+      .after("reference")
+      .comment("Transaction reversed by this row (reversal type only)");
+    table
+      .foreign("reversal_of", "fk_transactions_reversal_of")
+      .references("transactions.id")
+      .onDelete("RESTRICT")
+      .onUpdate("CASCADE");
+  });
+
+  await knex.raw(`
+    ALTER TABLE transfers
+    MODIFY COLUMN status ENUM('pending', 'completed', 'failed', 'reversed') NOT NULL DEFAULT 'pending'
+    COMMENT 'Transfer status'
+  `);
+
+  await knex.raw("ALTER TABLE wallets DROP CHECK chk_wallet_balance_positive");
+
+  console.log("✅ Added reversal support");
+}
+
+/**
+ * Remove reversal support
+ *
+ * Fails if reversal rows exist (they must be removed by hand first).
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.raw(`
+    ALTER TABLE wallets
+    ADD CONSTRAINT chk_wallet_balance_positive
+    CHECK (balance_decimal >= 0)
+  `);
+
+  await knex("transfers").where({ status: "reversed" }).update({ status: "completed" });
+  await knex.raw(`
+    ALTER TABLE transfers
+    MODIFY COLUMN status ENUM('pending', 'completed', 'failed') NOT NULL DEFAULT 'pending'
+    COMMENT 'Transfer status'
+  `);
+
+  await knex.schema.alterTable("transactions", (table) => {
+    table.dropForeign(["reversal_of"], "fk_transactions_reversal_of");
+    table.dropUnique(["reversal_of"], "uq_transactions_reversal_of");
+    table.dropColumn("reversal_of");
+  });
+
+  await knex.raw(`
+    ALTER TABLE transactions
+    MODIFY COLUMN type ENUM('credit', 'debit', 'transfer-in', 'transfer-out') NOT NULL
+    COMMENT 'Transaction type'
+  `);
+
+  console.log("✅ Removed reversal support");
+}
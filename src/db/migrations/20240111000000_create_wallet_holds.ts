@@ -0,0 +1,119 @@
+/**
+ * Migration: Create Wallet Holds
+ *
+ * A hold reserves part of a wallet's balance without moving it (card
+ * authorizations, loan collateral). Held funds stay in `balance_decimal`
+ * (the ledger balance) but are excluded from the available balance:
+ *
+ *   available = balance_decimal - held_decimal
+ *
+ * `wallets.held_decimal` is the running total of active holds, maintained
+ * under the wallet row lock so the available balance is a single-row read.
+ *
+ * @module migrations/create_wallet_holds
+ */
+
+import { Knex } from "knex";
+
+/**
+ * Create the wallet_holds table and wallets.held_decimal
+ *
+ * wallet_holds:
+ * - id: UUID primary key
+ * - wallet_id: Wallet the funds are reserved on
+ * - amount_decimal: Amount reserved
+ * - captured_decimal: Amount actually taken on capture (null until captured)
+ * - status: active, captured, released, or expired
+ * - reference: Unique hold reference
+ * - capture_transaction_id: Debit transaction posted by the capture
+ * - expires_at: When an active hold lapses automatically
+ * - metadata: Optional context (merchant, loan, ...)
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable("wallets", (table) => {
+    table
+      .decimal("held_decimal", 20, 6)
+      .notNullable()
+      .defaultTo(0.0)
+      .after("balance_decimal")
+      .comment("Sum of active holds (available = balance - held)");
+  });
+
+  await knex.schema.createTable("wallet_holds", (table) => {
+    // Primary key - UUID format
+    table.string("id", 36).primary().notNullable().comment("Hold unique identifier");
+
+    table.string("wallet_id", 36).notNullable().comment("Wallet the funds are reserved on");
+    table
+      .foreign("wallet_id")
+      .references("wallets.id")
+      .onDelete("RESTRICT")
+      .onUpdate("CASCADE");
+
+    table
+      .decimal("amount_decimal", 20, 6)
+      .notNullable()
+      .comment("Amount reserved");
+    table
+      .decimal("captured_decimal", 20, 6)
+      .nullable()
+      .comment("Amount taken on capture");
+
+    table
+      .enum("status", ["active", "captured", "released", "expired"], {
+        useNative: true,
+        enumName: "wallet_hold_status_enum",
+      })
+      .notNullable()
+      .defaultTo("active")
+      .comment("Hold status");
+
+    table.string("reference", 100).notNullable().unique().comment("Unique hold reference");
+
+    table
+      .string("capture_transaction_id", 36)
+      .nullable()
+      .comment("Debit transaction posted by the capture");
+    table
+      .foreign("capture_transaction_id")
+      .references("transactions.id")
+      .onDelete("RESTRICT")
+      .onUpdate("CASCADE");
+
+    table.timestamp("expires_at").notNullable().comment("When the hold lapses if still active");
+    table.json("metadata").nullable().comment("Additional hold context");
+
+    table
+      .timestamp("created_at")
+      .defaultTo(knex.fn.now())
+      .notNullable()
+      .comment("Timestamp when the hold was placed");
+    table
+      .timestamp("updated_at")
+      .defaultTo(knex.fn.now())
+      .notNullable()
+      .comment("Timestamp when the hold last changed");
+
+    table.index(["wallet_id", "status"], "idx_wallet_holds_wallet_status");
+    table.index(["status", "expires_at"], "idx_wallet_holds_status_expires");
+  });
+
+  await knex.raw(`
+    ALTER TABLE wallet_holds
+    ADD CONSTRAINT chk_wallet_hold_amount_positive
+    CHECK (amount_decimal > 0)
+  `);
+
+  console.log("✅ Created wallet_holds table");
+}
+
+/**
+ * Drop the wallet_holds table and wallets.held_decimal
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists("wallet_holds");
+  await knex.schema.alterTable("wallets", (table) => {
+    table.dropColumn("held_decimal");
+  });
+  console.log("✅ Dropped wallet_holds table");
+}
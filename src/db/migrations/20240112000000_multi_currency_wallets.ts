@@ -0,0 +1,44 @@
+/**
+ * Migration: Multi-Currency Wallets
+ *
+ * Replaces the one-wallet-per-user rule with one wallet per user per
+ * currency, so a user can hold NGN, USD and GHS wallets side by side.
+ *
+ * @module migrations/multi_currency_wallets
+ */
+
+import { Knex } from "knex";
+
+/**
+ * Swap the unique key on wallets.user_id for (user_id, currency)
+ *
+ * idx_wallets_user_id still backs the users foreign key.
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable("wallets", (table) => {
+    table.unique(["user_id", "currency"], { indexName: "uq_wallets_user_currency" });
+  });
+
+  await knex.schema.alterTable("wallets", (table) => {
+    table.dropUnique(["user_id"]);
+  });
+
+  console.log("✅ Wallets are now unique per user and currency");
+}
+
+/**
+ * Restore one wallet per user
+ *
+ * Fails if any user has more than one wallet (they must be removed by hand first).
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable("wallets", (table) => {
+    table.unique(["user_id"]);
+  });
+
+  await knex.schema.alterTable("wallets", (table) => {
+    table.dropUnique(["user_id", "currency"], "uq_wallets_user_currency");
+  });
+
+  console.log("✅ Restored one wallet per user");
+}
@@ -0,0 +1,146 @@
+/**
+ * Migration: Create FX Conversions
+ *
+ * Lets a user convert money between their own currency wallets:
+ * - fx_rates holds mid-market rates for the `db` rates provider
+ * - fx_quotes records each quote (rate, spread, fee, amounts) and, once
+ *   executed, the wallets and reference of the conversion
+ * - transactions.type gains `conversion-out`, `conversion-in` and `fee` so
+ *   every leg of a conversion shows up in transaction history
+ *
+ * @module migrations/create_fx_conversions
+ */
+
+import { Knex } from "knex";
+
+/**
+ * Create the fx_rates and fx_quotes tables
+ *
+ * fx_rates:
+ * - base_currency / quote_currency: Pair (units of quote per unit of base)
+ * - rate: Mid-market rate
+ *
+ * fx_quotes:
+ * - id: UUID primary key
+ * - user_id: User the quote was issued to
+ * - from_currency / to_currency: Currencies sold and bought
+ * - source_amount_decimal: Amount converted (debited from the source wallet)
+ * - fee_decimal: Conversion fee (source currency, debited on top)
+ * - mid_rate: Provider rate at quote time
+ * - rate: Customer rate (mid rate less the spread)
+ * - spread_bps / spread_decimal: Spread in basis points and in target currency
+ * - target_amount_decimal: Amount credited to the target wallet
+ * - status: open or executed
+ * - reference: Conversion reference (set on execution)
+ * - expires_at: Last moment the quote can be executed
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable("fx_rates", (table) => {
+    table.increments("id").primary();
+    table.string("base_currency", 3).notNullable().comment("Currency sold");
+    table.string("quote_currency", 3).notNullable().comment("Currency bought");
+    table.decimal("rate", 24, 12).notNullable().comment("Units of quote per unit of base");
+    table
+      .timestamp("updated_at")
+      .defaultTo(knex.fn.now())
+      .notNullable()
+      .comment("When the rate was last refreshed");
+
+    table.unique(["base_currency", "quote_currency"], { indexName: "uq_fx_rates_pair" });
+  });
+
+  await knex.schema.createTable("fx_quotes", (table) => {
+    // Primary key - UUID format
+    table.string("id", 36).primary().notNullable().comment("Quote unique identifier");
+
+    table.string("user_id", 36).notNullable().comment("User the quote was issued to");
+    table
+      .foreign("user_id")
+      .references("users.id")
+      .onDelete("CASCADE")
+      .onUpdate("CASCADE");
+
+    table.string("from_currency", 3).notNullable().comment("Currency sold");
+    table.string("to_currency", 3).notNullable().comment("Currency bought");
+
+    table.decimal("source_amount_decimal", 20, 6).notNullable().comment("Amount converted");
+    table.decimal("fee_decimal", 20, 6).notNullable().comment("Conversion fee (source currency)");
+    table.decimal("mid_rate", 24, 12).notNullable().comment("Provider mid-market rate");
+    table.decimal("rate", 24, 12).notNullable().comment("Customer rate after spread");
+    table.integer("spread_bps").unsigned().notNullable().comment("Spread in basis points");
+    table
+      .decimal("spread_decimal", 20, 6)
+      .notNullable()
+      .comment("Spread in target currency (mid-rate amount less target amount)");
+    table
+      .decimal("target_amount_decimal", 20, 6)
+      .notNullable()
+      .comment("Amount credited to the target wallet");
+    table.string("rate_source", 50).notNullable().comment("Rates provider that priced the quote");
+
+    table
+      .enum("status", ["open", "executed"], {
+        useNative: true,
+        enumName: "fx_quote_status_enum",
+      })
+      .notNullable()
+      .defaultTo("open")
+      .comment("Quote status");
+
+    table.string("reference", 100).nullable().unique().comment("Conversion reference");
+    table.string("from_wallet_id", 36).nullable().comment("Wallet debited on execution");
+    table.string("to_wallet_id", 36).nullable().comment("Wallet credited on execution");
+    table
+      .foreign("from_wallet_id")
+      .references("wallets.id")
+      .onDelete("RESTRICT")
+      .onUpdate("CASCADE");
+    table
+      .foreign("to_wallet_id")
+      .references("wallets.id")
+      .onDelete("RESTRICT")
+      .onUpdate("CASCADE");
+
+    table.timestamp("expires_at").notNullable().comment("Last moment the quote can be executed");
+    table.timestamp("executed_at").nullable().comment("When the quote was executed");
+    table
+      .timestamp("created_at")
+      .defaultTo(knex.fn.now())
+      .notNullable()
+      .comment("Timestamp when the quote was issued");
+
+    table.index(["user_id", "created_at"], "idx_fx_quotes_user_created");
+  });
+
+  await knex.raw(`
+    ALTER TABLE fx_quotes
+    ADD CONSTRAINT chk_fx_quote_amounts_positive
+    CHECK (source_amount_decimal > 0 AND target_amount_decimal > 0)
+  `);
+
+  await knex.raw(`
+    ALTER TABLE transactions
+    MODIFY COLUMN type ENUM('credit', 'debit', 'transfer-in', 'transfer-out', 'reversal', 'conversion-out', 'conversion-in', 'fee') NOT NULL
+    COMMENT 'Transaction type'
+  `);
+
+  console.log("✅ Created fx_rates and fx_quotes tables");
+}
+
+/**
+ * Drop the FX tables and transaction types
+ *
+ * Fails if conversion rows exist (they must be removed by hand first).
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.raw(`
+    ALTER TABLE transactions
+    MODIFY COLUMN type ENUM('credit', 'debit', 'transfer-in', 'transfer-out', 'reversal') NOT NULL
+    COMMENT 'Transaction type'
+  `);
+
+  await knex.schema.dropTableIfExists("fx_quotes");
+  await knex.schema.dropTableIfExists("fx_rates");
+
+  console.log("✅ Dropped fx_rates and fx_quotes tables");
+}
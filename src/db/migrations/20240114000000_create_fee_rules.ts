@@ -0,0 +1,127 @@
+/**
+ * Migration: Create Fee Rules
+ *
+ * Withdrawals and transfers can now carry a fee, priced by rules stored in
+ * the database so the schedule can change without a deploy:
+ * - users.tier places each user in a tier that rules can target
+ * - fee_rules holds the schedule (flat, percentage or tiered pricing per
+ *   operation, currency, channel and user tier)
+ * - transactions.type gains `fee-income`, the credit a fee makes to the
+ *   revenue wallet (the payer's side is the existing `fee` type)
+ *
+ * @module migrations/create_fee_rules
+ */
+
+import { Knex } from "knex";
+
+/**
+ * Add users.tier and create the fee_rules table
+ *
+ * fee_rules:
+ * - id: UUID primary key
+ * - operation: withdraw or transfer
+ * - currency: Currency the rule prices
+ * - channel / user_tier: Channel and tier the rule is limited to (null = any)
+ * - fee_type: flat, percentage or tiered
+ * - flat_fee_decimal: Fixed fee (flat) or fixed part added to a percentage fee
+ * - percentage_bps: Basis points of the amount (percentage)
+ * - tiers: Amount bands for tiered rules, JSON array of
+ *   { up_to, flat_fee, bps } ordered by up_to (last band has up_to null)
+ * - min_fee_decimal / max_fee_decimal: Optional floor and cap on the fee
+ * - priority: Breaks ties between equally specific rules (higher wins)
+ * - active: Inactive rules are ignored
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable("users", (table) => {
+    table
+      .enum("tier", ["tier_1", "tier_2", "tier_3"], {
+        useNative: true,
+        enumName: "user_tier_enum",
+      })
+      .notNullable()
+      .defaultTo("tier_1")
+      .after("role")
+      .comment("User tier (selects fee rules)");
+  });
+
+  await knex.schema.createTable("fee_rules", (table) => {
+    // Primary key - UUID format
+    table.string("id", 36).primary().notNullable().comment("Fee rule unique identifier");
+
+    table
+      .enum("operation", ["withdraw", "transfer"], {
+        useNative: true,
+        enumName: "fee_operation_enum",
+      })
+      .notNullable()
+      .comment("Operation the rule prices");
+    table.string("currency", 3).notNullable().comment("Currency the rule prices");
+    table.string("channel", 20).nullable().comment("Channel the rule is limited to (null = any)");
+    table
+      .enum("user_tier", ["tier_1", "tier_2", "tier_3"], {
+        useNative: true,
+        enumName: "fee_rule_tier_enum",
+      })
+      .nullable()
+      .comment("User tier the rule is limited to (null = any)");
+
+    table
+      .enum("fee_type", ["flat", "percentage", "tiered"], {
+        useNative: true,
+        enumName: "fee_type_enum",
+      })
+      .notNullable()
+      .comment("How the rule prices an amount");
+    table.decimal("flat_fee_decimal", 20, 6).nullable().comment("Fixed fee or fixed part");
+    table.integer("percentage_bps").unsigned().nullable().comment("Basis points of the amount");
+    table.json("tiers").nullable().comment("Amount bands for tiered rules");
+    table.decimal("min_fee_decimal", 20, 6).nullable().comment("Fee floor");
+    table.decimal("max_fee_decimal", 20, 6).nullable().comment("Fee cap");
+
+    table.integer("priority").notNullable().defaultTo(0).comment("Higher wins between equal matches");
+    table.boolean("active").notNullable().defaultTo(true).comment("Inactive rules are ignored");
+    table.string("description", 255).nullable().comment("What the rule is for");
+
+    table
+      .timestamp("created_at")
+      .defaultTo(knex.fn.now())
+      .notNullable()
+      .comment("Timestamp when the rule was created");
+    table
+      .timestamp("updated_at")
+      .defaultTo(knex.fn.now())
+      .notNullable()
+      .comment("Timestamp when the rule was last changed");
+
+    table.index(["operation", "currency", "active"], "idx_fee_rules_lookup");
+  });
+
+  await knex.raw(`
+    ALTER TABLE transactions
+    MODIFY COLUMN type ENUM('credit', 'debit', 'transfer-in', 'transfer-out', 'reversal', 'conversion-out', 'conversion-in', 'fee', 'fee-income') NOT NULL
+    COMMENT 'Transaction type'
+  `);
+
+  console.log("✅ Created fee_rules table and users.tier column");
+}
+
+/**
+ * Drop the fee_rules table, users.tier and the fee-income type
+ *
+ * Fails if fee-income rows exist (they must be removed by hand first).
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.raw(`
+    ALTER TABLE transactions
+    MODIFY COLUMN type ENUM('credit', 'debit', 'transfer-in', 'transfer-out', 'reversal', 'conversion-out', 'conversion-in', 'fee') NOT NULL
+    COMMENT 'Transaction type'
+  `);
+
+  await knex.schema.dropTableIfExists("fee_rules");
+
+  await knex.schema.alterTable("users", (table) => {
+    table.dropColumn("tier");
+  });
+
+  console.log("✅ Dropped fee_rules table and users.tier column");
+}
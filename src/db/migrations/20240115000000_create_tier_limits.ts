@@ -0,0 +1,98 @@
+/**
+ * Migration: Create Tier Limits
+ *
+ * Caps what each user tier (users.tier) can move, per currency:
+ * - max_single_decimal: largest single withdrawal or transfer
+ * - daily_limit_decimal / monthly_limit_decimal: cumulative withdrawals and
+ *   outgoing transfers per UTC day / calendar month
+ * - max_balance_decimal: highest balance a wallet may hold
+ *
+ * A null limit is unlimited. Defaults are seeded for every supported
+ * currency so new (tier_1) accounts are limited from the start; admins can
+ * change them at runtime.
+ *
+ * @module migrations/create_tier_limits
+ */
+
+import { Knex } from "knex";
+import { v4 as uuidv4 } from "uuid";
+
+/**
+ * Default limits: [tier, currency, max single, daily, monthly, max balance]
+ */
+const DEFAULT_LIMITS: Array<[string, string, string, string, string, string | null]> = [
+  ["tier_1", "NGN", "50000.000000", "50000.000000", "300000.000000", "300000.000000"],
+  ["tier_2", "NGN", "200000.000000", "200000.000000", "1000000.000000", "500000.000000"],
+  ["tier_3", "NGN", "5000000.000000", "5000000.000000", "50000000.000000", null],
+  ["tier_1", "USD", "100.000000", "100.000000", "500.000000", "500.000000"],
+  ["tier_2", "USD", "500.000000", "1000.000000", "5000.000000", "5000.000000"],
+  ["tier_3", "USD", "10000.000000", "10000.000000", "100000.000000", null],
+  ["tier_1", "GHS", "1000.000000", "1000.000000", "5000.000000", "5000.000000"],
+  ["tier_2", "GHS", "5000.000000", "10000.000000", "50000.000000", "50000.000000"],
+  ["tier_3", "GHS", "100000.000000", "100000.000000", "1000000.000000", null],
+];
+
+/**
+ * Create the tier_limits table and seed the defaults
+ *
+ * tier_limits:
+ * - id: UUID primary key
+ * - tier / currency: What the row limits (unique together)
+ * - max_single_decimal, daily_limit_decimal, monthly_limit_decimal,
+ *   max_balance_decimal: Limits (null = unlimited)
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable("tier_limits", (table) => {
+    // Primary key - UUID format
+    table.string("id", 36).primary().notNullable().comment("Tier limit unique identifier");
+
+    table
+      .enum("tier", ["tier_1", "tier_2", "tier_3"], {
+        useNative: true,
+        enumName: "tier_limit_tier_enum",
+      })
+      .notNullable()
+      .comment("User tier the limits apply to");
+    table.string("currency", 3).notNullable().comment("Currency the limits apply to");
+
+    table.decimal("max_single_decimal", 20, 6).nullable().comment("Largest single withdrawal or transfer");
+    table.decimal("daily_limit_decimal", 20, 6).nullable().comment("Outflow cap per UTC day");
+    table.decimal("monthly_limit_decimal", 20, 6).nullable().comment("Outflow cap per UTC month");
+    table.decimal("max_balance_decimal", 20, 6).nullable().comment("Highest wallet balance");
+
+    table
+      .timestamp("created_at")
+      .defaultTo(knex.fn.now())
+      .notNullable()
+      .comment("Timestamp when the limits were created");
+    table
+      .timestamp("updated_at")
+      .defaultTo(knex.fn.now())
+      .notNullable()
+      .comment("Timestamp when the limits were last changed");
+
+    table.unique(["tier", "currency"], { indexName: "uniq_tier_limits_tier_currency" });
+  });
+
+  await knex("tier_limits").insert(
+    DEFAULT_LIMITS.map(([tier, currency, maxSingle, daily, monthly, maxBalance]) => ({
+      id: uuidv4(),
+      tier,
+      currency,
+      max_single_decimal: maxSingle,
+      daily_limit_decimal: daily,
+      monthly_limit_decimal: monthly,
+      max_balance_decimal: maxBalance,
+    }))
+  );
+
+  console.log("✅ Created tier_limits table with default limits");
+}
+
+/**
+ * Drop the tier_limits table
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists("tier_limits");
+  console.log("✅ Dropped tier_limits table");
+}
@@ -0,0 +1,159 @@
+/**
+ * Migration: Create Scheduled Transfers
+ *
+ * Standing orders: a transfer set up once and executed later by the server,
+ * either on a single future date or on a recurrence (RRULE subset, see
+ * utils/recurrence), until an end date or a maximum number of runs.
+ *
+ * Each attempt is recorded in scheduled_transfer_runs, so a schedule keeps
+ * its own execution history including failures and retries.
+ *
+ * @module migrations/create_scheduled_transfers
+ */
+
+import { Knex } from "knex";
+
+/**
+ * Create the scheduled_transfers and scheduled_transfer_runs tables
+ *
+ * scheduled_transfers:
+ * - id: UUID primary key
+ * - user_id / recipient_user_id: Sender and recipient
+ * - currency / amount_decimal: What is sent each run
+ * - channel: Channel recorded for fee pricing
+ * - recurrence: RRULE subset (null = one-off on start_at)
+ * - start_at: First (or only) occurrence
+ * - end_at / max_runs: Optional end of a recurring series
+ * - next_run_at: Next occurrence (null once the schedule has ended)
+ * - retry_at: When a failed occurrence is attempted again (null = not retrying)
+ * - run_count: Occurrences settled (succeeded or finally failed)
+ * - attempt_count: Failed attempts of the current occurrence
+ * - status: active, paused, completed, cancelled, or failed (one-off that failed)
+ *
+ * scheduled_transfer_runs:
+ * - schedule_id / occurrence / attempt: Which attempt of which occurrence
+ * - scheduled_for: Occurrence time
+ * - status: succeeded or failed
+ * - reference / transfer_id: Transfer the run made (reference is per occurrence)
+ * - error / retry_at: Failure reason and, if it will be retried, when
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable("scheduled_transfers", (table) => {
+    // Primary key - UUID format
+    table.string("id", 36).primary().notNullable().comment("Schedule unique identifier");
+
+    table.string("user_id", 36).notNullable().comment("Sender");
+    table
+      .foreign("user_id")
+      .references("users.id")
+      .onDelete("RESTRICT")
+      .onUpdate("CASCADE");
+    table.string("recipient_user_id", 36).notNullable().comment("Recipient");
+    table
+      .foreign("recipient_user_id")
+      .references("users.id")
+      .onDelete("RESTRICT")
+      .onUpdate("CASCADE");
+
+    table.string("currency", 3).notNullable().comment("Currency of both wallets");
+    table.decimal("amount_decimal", 20, 6).notNullable().comment("Amount sent each run");
+    table.string("channel", 20).notNullable().defaultTo("api").comment("Channel for fee pricing");
+
+    table.string("recurrence", 255).nullable().comment("RRULE subset (null = one-off)");
+    table.timestamp("start_at").notNullable().comment("First (or only) occurrence");
+    table.timestamp("end_at").nullable().comment("No occurrences after this time");
+    table.integer("max_runs").unsigned().nullable().comment("Maximum number of occurrences");
+
+    table.timestamp("next_run_at").nullable().comment("Next occurrence");
+    table.timestamp("retry_at").nullable().comment("Retry time of a failed occurrence");
+    table.integer("run_count").unsigned().notNullable().defaultTo(0).comment("Occurrences settled");
+    table
+      .integer("attempt_count")
+      .unsigned()
+      .notNullable()
+      .defaultTo(0)
+      .comment("Failed attempts of the current occurrence");
+    table.timestamp("last_run_at").nullable().comment("Time of the last attempt");
+    table.string("last_error", 255).nullable().comment("Error of the last failed attempt");
+
+    table
+      .enum("status", ["active", "paused", "completed", "cancelled", "failed"], {
+        useNative: true,
+        enumName: "scheduled_transfer_status_enum",
+      })
+      .notNullable()
+      .defaultTo("active")
+      .comment("Schedule status");
+
+    table.json("metadata").nullable().comment("Metadata copied onto each transfer");
+
+    table
+      .timestamp("created_at")
+      .defaultTo(knex.fn.now())
+      .notNullable()
+      .comment("Timestamp when the schedule was created");
+    table
+      .timestamp("updated_at")
+      .defaultTo(knex.fn.now())
+      .notNullable()
+      .comment("Timestamp when the schedule was last changed");
+
+    table.index(["status", "next_run_at"], "idx_scheduled_transfers_due");
+    table.index(["user_id", "created_at"], "idx_scheduled_transfers_user");
+  });
+
+  await knex.schema.createTable("scheduled_transfer_runs", (table) => {
+    // Primary key - UUID format
+    table.string("id", 36).primary().notNullable().comment("Run unique identifier");
+
+    table.string("schedule_id", 36).notNullable().comment("Schedule the run belongs to");
+    table
+      .foreign("schedule_id")
+      .references("scheduled_transfers.id")
+      .onDelete("CASCADE")
+      .onUpdate("CASCADE");
+
+    table.integer("occurrence").unsigned().notNullable().comment("Occurrence number (1-based)");
+    table.integer("attempt").unsigned().notNullable().comment("Attempt number within the occurrence");
+    table.timestamp("scheduled_for").notNullable().comment("Occurrence time");
+
+    table
+      .enum("status", ["succeeded", "failed"], {
+        useNative: true,
+        enumName: "scheduled_transfer_run_status_enum",
+      })
+      .notNullable()
+      .comment("Run outcome");
+
+    table.string("reference", 80).notNullable().comment("Transfer reference of the occurrence");
+    table.string("transfer_id", 36).nullable().comment("Transfer made by the run");
+    table
+      .foreign("transfer_id")
+      .references("transfers.id")
+      .onDelete("RESTRICT")
+      .onUpdate("CASCADE");
+    table.string("error", 255).nullable().comment("Failure reason");
+    table.timestamp("retry_at").nullable().comment("When the failed occurrence will be retried");
+
+    table
+      .timestamp("created_at")
+      .defaultTo(knex.fn.now())
+      .notNullable()
+      .comment("Timestamp of the run");
+
+    table.unique(["schedule_id", "occurrence", "attempt"], {
+      indexName: "uniq_scheduled_transfer_runs_attempt",
+    });
+  });
+
+  console.log("✅ Created scheduled_transfers and scheduled_transfer_runs tables");
+}
+
+/**
+ * Drop the scheduled transfer tables
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists("scheduled_transfer_runs");
+  await knex.schema.dropTableIfExists("scheduled_transfers");
+  console.log("✅ Dropped scheduled_transfers and scheduled_transfer_runs tables");
+}
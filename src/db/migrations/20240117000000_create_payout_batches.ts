@@ -0,0 +1,155 @@
+/**
+ * Migration: Create Payout Batches
+ *
+ * Bulk payouts: one sender wallet paying many recipients in a single
+ * request. A batch is validated as a whole before anything moves, then
+ * executed all-or-nothing or best-effort; each row keeps its own status
+ * and the transfer it made.
+ *
+ * @module migrations/create_payout_batches
+ */
+
+import { Knex } from "knex";
+
+/**
+ * Create the payout_batches and payout_items tables
+ *
+ * payout_batches:
+ * - user_id / wallet_id / currency: Sender and the wallet paid from
+ * - mode: all_or_nothing (one DB transaction) or best_effort (per row)
+ * - status: processing, completed, partially_completed, or failed
+ * - item_count / total_decimal: Rows and the sum of their amounts
+ * - succeeded_count / failed_count / paid_decimal / fee_decimal: Outcome
+ * - error: Why an all-or-nothing batch was rolled back
+ *
+ * payout_items:
+ * - row_number: 1-based position in the upload
+ * - reference: Transfer reference (`PAYOUT-<batch id>-<row>`)
+ * - status: pending, succeeded, failed, or skipped (rolled back with the batch)
+ * - transfer_id / fee_decimal / error: Outcome of the row
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable("payout_batches", (table) => {
+    // Primary key - UUID format
+    table.string("id", 36).primary().notNullable().comment("Batch unique identifier");
+
+    table.string("user_id", 36).notNullable().comment("Sender");
+    table
+      .foreign("user_id")
+      .references("users.id")
+      .onDelete("RESTRICT")
+      .onUpdate("CASCADE");
+    table.string("wallet_id", 36).notNullable().comment("Wallet the batch is paid from");
+    table
+      .foreign("wallet_id")
+      .references("wallets.id")
+      .onDelete("RESTRICT")
+      .onUpdate("CASCADE");
+    table.string("currency", 3).notNullable().comment("Currency of every row");
+    table.string("channel", 20).notNullable().defaultTo("api").comment("Channel for fee pricing");
+
+    table
+      .enum("mode", ["all_or_nothing", "best_effort"], {
+        useNative: true,
+        enumName: "payout_batch_mode_enum",
+      })
+      .notNullable()
+      .comment("Execution semantics");
+    table
+      .enum("status", ["processing", "completed", "partially_completed", "failed"], {
+        useNative: true,
+        enumName: "payout_batch_status_enum",
+      })
+      .notNullable()
+      .defaultTo("processing")
+      .comment("Batch status");
+
+    table.integer("item_count").unsigned().notNullable().comment("Number of rows");
+    table.decimal("total_decimal", 20, 6).notNullable().comment("Sum of row amounts");
+    table.integer("succeeded_count").unsigned().notNullable().defaultTo(0).comment("Rows paid");
+    table.integer("failed_count").unsigned().notNullable().defaultTo(0).comment("Rows not paid");
+    table.decimal("paid_decimal", 20, 6).notNullable().defaultTo(0).comment("Sum of amounts paid");
+    table.decimal("fee_decimal", 20, 6).notNullable().defaultTo(0).comment("Sum of fees charged");
+    table.string("error", 255).nullable().comment("Why the batch was rolled back");
+
+    table.json("metadata").nullable().comment("Client metadata");
+
+    table
+      .timestamp("created_at")
+      .defaultTo(knex.fn.now())
+      .notNullable()
+      .comment("Timestamp when the batch was submitted");
+    table
+      .timestamp("updated_at")
+      .defaultTo(knex.fn.now())
+      .notNullable()
+      .comment("Timestamp when the batch was last changed");
+    table.timestamp("completed_at").nullable().comment("Timestamp when execution finished");
+
+    table.index(["user_id", "created_at"], "idx_payout_batches_user");
+  });
+
+  await knex.schema.createTable("payout_items", (table) => {
+    // Primary key - UUID format
+    table.string("id", 36).primary().notNullable().comment("Row unique identifier");
+
+    table.string("batch_id", 36).notNullable().comment("Batch the row belongs to");
+    table
+      .foreign("batch_id")
+      .references("payout_batches.id")
+      .onDelete("CASCADE")
+      .onUpdate("CASCADE");
+    table.integer("row_number").unsigned().notNullable().comment("1-based position in the upload");
+
+    table.string("recipient_user_id", 36).notNullable().comment("Recipient");
+    table
+      .foreign("recipient_user_id")
+      .references("users.id")
+      .onDelete("RESTRICT")
+      .onUpdate("CASCADE");
+    table.decimal("amount_decimal", 20, 6).notNullable().comment("Amount to pay");
+    table.string("narration", 255).nullable().comment("Narration copied onto the transfer");
+    table.string("reference", 80).notNullable().unique().comment("Transfer reference");
+
+    table
+      .enum("status", ["pending", "succeeded", "failed", "skipped"], {
+        useNative: true,
+        enumName: "payout_item_status_enum",
+      })
+      .notNullable()
+      .defaultTo("pending")
+      .comment("Row status");
+    table.string("transfer_id", 36).nullable().comment("Transfer made for the row");
+    table
+      .foreign("transfer_id")
+      .references("transfers.id")
+      .onDelete("RESTRICT")
+      .onUpdate("CASCADE");
+    table.decimal("fee_decimal", 20, 6).nullable().comment("Fee charged for the row");
+    table.string("error", 255).nullable().comment("Why the row was not paid");
+
+    table
+      .timestamp("created_at")
+      .defaultTo(knex.fn.now())
+      .notNullable()
+      .comment("Timestamp when the row was submitted");
+    table
+      .timestamp("updated_at")
+      .defaultTo(knex.fn.now())
+      .notNullable()
+      .comment("Timestamp when the row was last changed");
+
+    table.unique(["batch_id", "row_number"], { indexName: "uniq_payout_items_row" });
+  });
+
+  console.log("✅ Created payout_batches and payout_items tables");
+}
+
+/**
+ * Drop the payout tables
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists("payout_items");
+  await knex.schema.dropTableIfExists("payout_batches");
+  console.log("✅ Dropped payout_batches and payout_items tables");
+}
@@ -0,0 +1,42 @@
+/**
+ * Migration: Add Handle to Users
+ *
+ * Adds a user-chosen handle (tag) so that senders can address a transfer
+ * to `@handle` instead of a user UUID. Handles are optional, unique and
+ * stored in lowercase without the leading `@`.
+ *
+ * @module migrations/add_handle_to_users
+ */
+
+import { Knex } from "knex";
+
+/**
+ * Add the handle column to users
+ *
+ * Column:
+ * - handle: Unique lowercase handle, or null until the user picks one
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable("users", (table) => {
+    table
+      .string("handle", 30)
+      .nullable()
+      .unique({ indexName: "uniq_users_handle" })
+      .after("phone")
+      .comment("User-chosen handle for receiving transfers (unique, lowercase)");
+  });
+
+  console.log("✅ Added handle column to users table");
+}
+
+/**
+ * Drop the handle column from users
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable("users", (table) => {
+    table.dropUnique(["handle"], "uniq_users_handle");
+    table.dropColumn("handle");
+  });
+
+  console.log("✅ Dropped handle column from users table");
+}
@@ -0,0 +1,91 @@
+/**
+ * Migration: Create Payment Requests
+ *
+ * Request-to-pay between users: a requester asks a payer for an amount,
+ * and the payer accepts (which makes an ordinary transfer) or declines.
+ * Requests replace the ad-hoc "request" keys clients used to put in
+ * transfer metadata.
+ *
+ * @module migrations/create_payment_requests
+ */
+
+import { Knex } from "knex";
+
+/**
+ * Create the payment_requests table
+ *
+ * Columns:
+ * - requester_user_id / payer_user_id: Who is paid and who pays
+ * - currency / amount_decimal: What is requested
+ * - note: Message shown to the payer
+ * - status: pending, paid, declined, expired, or cancelled
+ * - expires_at: Unanswered requests expire at this time
+ * - transfer_id: Transfer made when the request was paid
+ * - responded_at: When the request left pending
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable("payment_requests", (table) => {
+    // Primary key - UUID format
+    table.string("id", 36).primary().notNullable().comment("Request unique identifier");
+
+    table.string("requester_user_id", 36).notNullable().comment("User asking to be paid");
+    table
+      .foreign("requester_user_id")
+      .references("users.id")
+      .onDelete("RESTRICT")
+      .onUpdate("CASCADE");
+    table.string("payer_user_id", 36).notNullable().comment("User asked to pay");
+    table
+      .foreign("payer_user_id")
+      .references("users.id")
+      .onDelete("RESTRICT")
+      .onUpdate("CASCADE");
+
+    table.string("currency", 3).notNullable().comment("Currency of both wallets");
+    table.decimal("amount_decimal", 20, 6).notNullable().comment("Amount requested");
+    table.string("note", 255).nullable().comment("Message shown to the payer");
+
+    table
+      .enum("status", ["pending", "paid", "declined", "expired", "cancelled"], {
+        useNative: true,
+        enumName: "payment_request_status_enum",
+      })
+      .notNullable()
+      .defaultTo("pending")
+      .comment("Request status");
+    table.timestamp("expires_at").notNullable().comment("Unanswered requests expire at this time");
+
+    table.string("transfer_id", 36).nullable().comment("Transfer that paid the request");
+    table
+      .foreign("transfer_id")
+      .references("transfers.id")
+      .onDelete("RESTRICT")
+      .onUpdate("CASCADE");
+    table.timestamp("responded_at").nullable().comment("When the request left pending");
+
+    table
+      .timestamp("created_at")
+      .defaultTo(knex.fn.now())
+      .notNullable()
+      .comment("Timestamp when the request was made");
+    table
+      .timestamp("updated_at")
+      .defaultTo(knex.fn.now())
+      .notNullable()
+      .comment("Timestamp when the request was last changed");
+
+    table.index(["payer_user_id", "status", "created_at"], "idx_payment_requests_payer");
+    table.index(["requester_user_id", "status", "created_at"], "idx_payment_requests_requester");
+    table.index(["status", "expires_at"], "idx_payment_requests_expiry");
+  });
+
+  console.log("✅ Created payment_requests table");
+}
+
+/**
+ * Drop the payment_requests table
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists("payment_requests");
+  console.log("✅ Dropped payment_requests table");
+}
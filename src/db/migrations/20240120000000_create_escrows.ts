@@ -0,0 +1,164 @@
+/**
+ * Migration: Create Escrows
+ *
+ * Funds locked between two parties (marketplace loans, P2P trades). The
+ * payer's money sits in the escrow user's wallet until it is released to
+ * the beneficiary, refunded to the payer, or split between them. Every
+ * movement is an ordinary row in `transfers`.
+ *
+ * Tables:
+ * - escrows: one escrow and the transfers that funded and settled it
+ * - escrow_events: audit trail of every status change and who caused it
+ *
+ * @module migrations/create_escrows
+ */
+
+import { Knex } from "knex";
+
+/**
+ * Create the escrows and escrow_events tables
+ *
+ * escrows columns:
+ * - payer_user_id / beneficiary_user_id: The two parties
+ * - currency / amount_decimal: What is escrowed
+ * - released_decimal / refunded_decimal: How it was settled
+ * - status: funded, disputed, released, refunded, or split
+ * - expires_at: Funded escrows not released by then are refunded
+ * - funding / release / refund transfer IDs
+ *
+ * escrow_events columns:
+ * - from_status / to_status: The change (from_status is null on creation)
+ * - actor_type / actor_user_id: Who caused it (a party, an admin, or the system)
+ * - reason: Why, when given
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable("escrows", (table) => {
+    // Primary key - UUID format
+    table.string("id", 36).primary().notNullable().comment("Escrow unique identifier");
+
+    table.string("payer_user_id", 36).notNullable().comment("User whose funds are escrowed");
+    table
+      .foreign("payer_user_id")
+      .references("users.id")
+      .onDelete("RESTRICT")
+      .onUpdate("CASCADE");
+    table.string("beneficiary_user_id", 36).notNullable().comment("User the funds are meant for");
+    table
+      .foreign("beneficiary_user_id")
+      .references("users.id")
+      .onDelete("RESTRICT")
+      .onUpdate("CASCADE");
+
+    table.string("currency", 3).notNullable().comment("Currency of the escrowed funds");
+    table.decimal("amount_decimal", 20, 6).notNullable().comment("Amount escrowed");
+    table.decimal("released_decimal", 20, 6).nullable().comment("Amount paid to the beneficiary");
+    table.decimal("refunded_decimal", 20, 6).nullable().comment("Amount returned to the payer");
+    table.string("description", 255).nullable().comment("What the escrow is for");
+
+    table
+      .enum("status", ["funded", "disputed", "released", "refunded", "split"], {
+        useNative: true,
+        enumName: "escrow_status_enum",
+      })
+      .notNullable()
+      .defaultTo("funded")
+      .comment("Escrow status");
+    table.timestamp("expires_at").notNullable().comment("Funded escrows are refunded after this time");
+
+    table.string("funding_transfer_id", 36).notNullable().comment("Transfer from the payer into escrow");
+    table
+      .foreign("funding_transfer_id")
+      .references("transfers.id")
+      .onDelete("RESTRICT")
+      .onUpdate("CASCADE");
+    table.string("release_transfer_id", 36).nullable().comment("Transfer from escrow to the beneficiary");
+    table
+      .foreign("release_transfer_id")
+      .references("transfers.id")
+      .onDelete("RESTRICT")
+      .onUpdate("CASCADE");
+    table.string("refund_transfer_id", 36).nullable().comment("Transfer from escrow back to the payer");
+    table
+      .foreign("refund_transfer_id")
+      .references("transfers.id")
+      .onDelete("RESTRICT")
+      .onUpdate("CASCADE");
+
+    table.json("metadata").nullable().comment("Caller-supplied metadata");
+    table
+      .timestamp("created_at")
+      .defaultTo(knex.fn.now())
+      .notNullable()
+      .comment("Timestamp when the escrow was funded");
+    table
+      .timestamp("updated_at")
+      .defaultTo(knex.fn.now())
+      .notNullable()
+      .comment("Timestamp when the escrow was last changed");
+    table.timestamp("settled_at").nullable().comment("When the funds left escrow");
+
+    table.index(["payer_user_id", "status", "created_at"], "idx_escrows_payer");
+    table.index(["beneficiary_user_id", "status", "created_at"], "idx_escrows_beneficiary");
+    table.index(["status", "expires_at"], "idx_escrows_expiry");
+  });
+
+  await knex.schema.createTable("escrow_events", (table) => {
+    table.string("id", 36).primary().notNullable().comment("Event unique identifier");
+
+    table.string("escrow_id", 36).notNullable().comment("Escrow that changed");
+    table
+      .foreign("escrow_id")
+      .references("escrows.id")
+      .onDelete("CASCADE")
+      .onUpdate("CASCADE");
+
+    table
+      .enum("from_status", ["funded", "disputed", "released", "refunded", "split"], {
+        useNative: true,
+        enumName: "escrow_event_from_status_enum",
+      })
+      .nullable()
+      .comment("Status before the change (null when the escrow was created)");
+    table
+      .enum("to_status", ["funded", "disputed", "released", "refunded", "split"], {
+        useNative: true,
+        enumName: "escrow_event_to_status_enum",
+      })
+      .notNullable()
+      .comment("Status after the change");
+
+    table
+      .enum("actor_type", ["payer", "beneficiary", "admin", "system"], {
+        useNative: true,
+        enumName: "escrow_actor_type_enum",
+      })
+      .notNullable()
+      .comment("Who caused the change");
+    table.string("actor_user_id", 36).nullable().comment("Acting user (null for the system)");
+    table
+      .foreign("actor_user_id")
+      .references("users.id")
+      .onDelete("RESTRICT")
+      .onUpdate("CASCADE");
+    table.string("reason", 255).nullable().comment("Reason given for the change");
+
+    table
+      .timestamp("created_at")
+      .defaultTo(knex.fn.now())
+      .notNullable()
+      .comment("Timestamp of the change");
+
+    table.index(["escrow_id", "created_at"], "idx_escrow_events_escrow");
+  });
+
+  console.log("✅ Created escrows and escrow_events tables");
+}
+
+/**
+ * Drop the escrow tables
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists("escrow_events");
+  await knex.schema.dropTableIfExists("escrows");
+  console.log("✅ Dropped escrows and escrow_events tables");
+}
@@ -0,0 +1,151 @@
+/**
+ * Migration: Create Savings Pots
+ *
+ * Named pots ("School fees") where users set money aside, optionally
+ * towards a target and locked until a date. Each pot is a sub-wallet: a
+ * `wallets` row whose `parent_wallet_id` is the user's main wallet in the
+ * same currency, so moves in and out are ordinary transfers and the pot's
+ * balance is covered by the ledger and reconciliation like any wallet.
+ *
+ * - wallets.parent_wallet_id marks a sub-wallet; main wallets stay unique
+ *   per user and currency through the generated `main_currency` column
+ *   (null for sub-wallets, so a user can have any number of pots)
+ * - savings_pots holds each pot's name, target and lock
+ * - fee_rules.operation gains `pot_early_withdrawal`: a rule for it is the
+ *   penalty that allows withdrawing from a locked pot
+ *
+ * @module migrations/create_savings_pots
+ */
+
+import { Knex } from "knex";
+
+/**
+ * Add sub-wallets and create the savings_pots table
+ *
+ * savings_pots columns:
+ * - user_id: Pot owner
+ * - wallet_id: The pot's sub-wallet (holds the balance)
+ * - parent_wallet_id: Main wallet the pot belongs to
+ * - name: Display name, unique among the owner's open pots
+ * - target_decimal: Optional savings goal
+ * - locked_until: Withdrawals before this time need a penalty rule
+ * - status: active or closed
+ */
+export async function up(knex: Knex): Promise<void> {
+  // The FK cannot cascade: MySQL forbids it on a generated column's base column
+  await knex.schema.alterTable("wallets", (table) => {
+    table
+      .string("parent_wallet_id", 36)
+      .nullable()
+      .after("user_id")
+      .comment("Main wallet this sub-wallet (savings pot) belongs to; null for main wallets");
+    table
+      .foreign("parent_wallet_id", "fk_wallets_parent_wallet")
+      .references("wallets.id")
+      .onDelete("RESTRICT")
+      .onUpdate("RESTRICT");
+  });
+
+  await knex.raw(`
+    ALTER TABLE wallets
+    ADD COLUMN main_currency VARCHAR(10)
+    GENERATED ALWAYS AS (IF(parent_wallet_id IS NULL, currency, NULL)) STORED
+    COMMENT 'Currency of a main wallet (null for sub-wallets); backs one main wallet per currency'
+    AFTER currency
+  `);
+
+  await knex.schema.alterTable("wallets", (table) => {
+    table.unique(["user_id", "main_currency"], { indexName: "uq_wallets_user_main_currency" });
+  });
+
+  await knex.schema.alterTable("wallets", (table) => {
+    table.dropUnique(["user_id", "currency"], "uq_wallets_user_currency");
+  });
+
+  await knex.schema.createTable("savings_pots", (table) => {
+    // Primary key - UUID format
+    table.string("id", 36).primary().notNullable().comment("Savings pot unique identifier");
+
+    table.string("user_id", 36).notNullable().comment("Pot owner");
+    table
+      .foreign("user_id")
+      .references("users.id")
+      .onDelete("CASCADE")
+      .onUpdate("CASCADE");
+    table.string("wallet_id", 36).notNullable().unique().comment("Sub-wallet holding the pot's balance");
+    table
+      .foreign("wallet_id")
+      .references("wallets.id")
+      .onDelete("RESTRICT")
+      .onUpdate("CASCADE");
+    table.string("parent_wallet_id", 36).notNullable().comment("Main wallet the pot belongs to");
+    table
+      .foreign("parent_wallet_id")
+      .references("wallets.id")
+      .onDelete("RESTRICT")
+      .onUpdate("CASCADE");
+
+    table.string("name", 100).notNullable().comment("Display name");
+    table.decimal("target_decimal", 20, 6).nullable().comment("Savings goal (null = none)");
+    table.timestamp("locked_until").nullable().comment("Withdrawals before this time need a penalty rule");
+    table
+      .enum("status", ["active", "closed"], {
+        useNative: true,
+        enumName: "savings_pot_status_enum",
+      })
+      .notNullable()
+      .defaultTo("active")
+      .comment("Pot status");
+
+    table
+      .timestamp("created_at")
+      .defaultTo(knex.fn.now())
+      .notNullable()
+      .comment("Timestamp when the pot was created");
+    table
+      .timestamp("updated_at")
+      .defaultTo(knex.fn.now())
+      .notNullable()
+      .comment("Timestamp when the pot was last changed");
+    table.timestamp("closed_at").nullable().comment("When the pot was closed");
+
+    table.index(["user_id", "status"], "idx_savings_pots_user_status");
+  });
+
+  await knex.raw(`
+    ALTER TABLE fee_rules
+    MODIFY COLUMN operation ENUM('withdraw', 'transfer', 'pot_early_withdrawal') NOT NULL
+    COMMENT 'Operation the rule prices'
+  `);
+
+  console.log("✅ Created savings_pots table and sub-wallets");
+}
+
+/**
+ * Drop savings pots and sub-wallets
+ *
+ * Fails if pot wallets or pot_early_withdrawal rules exist (they must be
+ * removed by hand first).
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.raw(`
+    ALTER TABLE fee_rules
+    MODIFY COLUMN operation ENUM('withdraw', 'transfer') NOT NULL
+    COMMENT 'Operation the rule prices'
+  `);
+
+  await knex.schema.dropTableIfExists("savings_pots");
+
+  await knex.schema.alterTable("wallets", (table) => {
+    table.unique(["user_id", "currency"], { indexName: "uq_wallets_user_currency" });
+  });
+
+  await knex.schema.alterTable("wallets", (table) => {
+    table.dropUnique(["user_id", "main_currency"], "uq_wallets_user_main_currency");
+    table.dropColumn("main_currency");
+    table.dropForeign(["parent_wallet_id"], "fk_wallets_parent_wallet");
+    table.dropColumn("parent_wallet_id");
+  });
+
+  console.log("✅ Dropped savings_pots table and sub-wallets");
+}
@@ -0,0 +1,120 @@
+/**
+ * Migration: Create Interest Accrual
+ *
+ * Daily interest on eligible wallets at the configured annual rate,
+ * capitalized (paid into the wallet as a `credit`) once a month.
+ *
+ * Tables:
+ * - interest_accruals: one row per wallet per day with the closing balance
+ *   and the interest it earned; the unique (wallet, day) key makes the
+ *   accrual job safe to rerun
+ * - interest_capitalizations: one row per wallet per month with what was
+ *   paid and the sub-unit remainder carried into the next month
+ *
+ * @module migrations/create_interest
+ */
+
+import { Knex } from "knex";
+
+/**
+ * Create the interest_accruals and interest_capitalizations tables
+ *
+ * interest_accruals columns:
+ * - wallet_id / accrual_date: The wallet and the (UTC) day accrued
+ * - balance_decimal: Ledger balance at the end of the day
+ * - rate_bps: Annual rate applied, in basis points
+ * - amount_decimal: Interest for the day (6 decimal places, truncated)
+ * - capitalization_id: Capitalization that paid it (null until then)
+ *
+ * interest_capitalizations columns:
+ * - wallet_id / period: The wallet and the month (YYYY-MM) capitalized
+ * - accrued_decimal: Sum of the month's daily accruals
+ * - carried_in_decimal / carried_out_decimal: Remainder below the currency's precision
+ * - paid_decimal: Amount credited (truncated to the currency's precision)
+ * - credited_wallet_id / transaction_id: Where it was paid and the credit posted
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable("interest_capitalizations", (table) => {
+    // Primary key - UUID format
+    table.string("id", 36).primary().notNullable().comment("Capitalization unique identifier");
+
+    table.string("wallet_id", 36).notNullable().comment("Wallet that accrued the interest");
+    table
+      .foreign("wallet_id")
+      .references("wallets.id")
+      .onDelete("RESTRICT")
+      .onUpdate("CASCADE");
+    table.string("period", 7).notNullable().comment("Month capitalized (YYYY-MM)");
+
+    table.decimal("accrued_decimal", 20, 6).notNullable().comment("Sum of the month's daily accruals");
+    table.decimal("carried_in_decimal", 20, 6).notNullable().comment("Remainder carried from the previous month");
+    table.decimal("paid_decimal", 20, 6).notNullable().comment("Amount credited to the wallet");
+    table.decimal("carried_out_decimal", 20, 6).notNullable().comment("Remainder carried to the next month");
+
+    table.string("credited_wallet_id", 36).notNullable().comment("Wallet credited (the main wallet for a closed pot)");
+    table
+      .foreign("credited_wallet_id")
+      .references("wallets.id")
+      .onDelete("RESTRICT")
+      .onUpdate("CASCADE");
+    table.string("transaction_id", 36).nullable().comment("Credit posted (null when nothing was paid)");
+    table
+      .foreign("transaction_id")
+      .references("transactions.id")
+      .onDelete("RESTRICT")
+      .onUpdate("CASCADE");
+
+    table
+      .timestamp("created_at")
+      .defaultTo(knex.fn.now())
+      .notNullable()
+      .comment("Timestamp when the interest was capitalized");
+
+    table.unique(["wallet_id", "period"], { indexName: "uq_interest_capitalizations_wallet_period" });
+  });
+
+  await knex.schema.createTable("interest_accruals", (table) => {
+    // Primary key - UUID format
+    table.string("id", 36).primary().notNullable().comment("Accrual unique identifier");
+
+    table.string("wallet_id", 36).notNullable().comment("Wallet accruing interest");
+    table
+      .foreign("wallet_id")
+      .references("wallets.id")
+      .onDelete("RESTRICT")
+      .onUpdate("CASCADE");
+    table.date("accrual_date").notNullable().comment("Day accrued (UTC)");
+
+    table.decimal("balance_decimal", 20, 6).notNullable().comment("Ledger balance at the end of the day");
+    table.integer("rate_bps").unsigned().notNullable().comment("Annual rate applied, in basis points");
+    table.decimal("amount_decimal", 20, 6).notNullable().comment("Interest accrued for the day");
+
+    table.string("capitalization_id", 36).nullable().comment("Capitalization that paid this accrual");
+    table
+      .foreign("capitalization_id")
+      .references("interest_capitalizations.id")
+      .onDelete("RESTRICT")
+      .onUpdate("CASCADE");
+
+    table
+      .timestamp("created_at")
+      .defaultTo(knex.fn.now())
+      .notNullable()
+      .comment("Timestamp when the day was accrued");
+
+    table.unique(["wallet_id", "accrual_date"], { indexName: "uq_interest_accruals_wallet_date" });
+    table.index(["capitalization_id", "accrual_date"], "idx_interest_accruals_uncapitalized");
+  });
+
+  console.log("✅ Created interest_accruals and interest_capitalizations tables");
+}
+
+/**
+ * Drop the interest tables
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists("interest_accruals");
+  await knex.schema.dropTableIfExists("interest_capitalizations");
+
+  console.log("✅ Dropped interest_accruals and interest_capitalizations tables");
+}
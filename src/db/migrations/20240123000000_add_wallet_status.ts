@@ -0,0 +1,94 @@
+/**
+ * Migration: Add Wallet Status
+ *
+ * Lets compliance restrict a single wallet instead of the whole user.
+ *
+ * - wallets.status: active, frozen (no movement), post_no_debit (credits
+ *   only) or closed (emptied and retired for good)
+ * - wallet_status_history: every status change, who made it and why
+ *
+ * @module migrations/add_wallet_status
+ */
+
+import { Knex } from "knex";
+
+/**
+ * Add wallets.status and create the wallet_status_history table
+ *
+ * wallet_status_history columns:
+ * - wallet_id: Wallet whose status changed
+ * - from_status / to_status: The change
+ * - reason: Why it was made
+ * - changed_by: Admin who made it
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable("wallets", (table) => {
+    table
+      .enum("status", ["active", "frozen", "post_no_debit", "closed"], {
+        useNative: true,
+        enumName: "wallet_status_enum",
+      })
+      .notNullable()
+      .defaultTo("active")
+      .after("currency")
+      .comment("Wallet status: active, frozen (no movement), post_no_debit (credits only) or closed");
+  });
+
+  await knex.schema.createTable("wallet_status_history", (table) => {
+    // Primary key - UUID format
+    table.string("id", 36).primary().notNullable().comment("Status change unique identifier");
+
+    table.string("wallet_id", 36).notNullable().comment("Wallet whose status changed");
+    table
+      .foreign("wallet_id")
+      .references("wallets.id")
+      .onDelete("CASCADE")
+      .onUpdate("CASCADE");
+
+    table
+      .enum("from_status", ["active", "frozen", "post_no_debit", "closed"], {
+        useNative: true,
+        enumName: "wallet_status_history_from_enum",
+      })
+      .notNullable()
+      .comment("Status before the change");
+    table
+      .enum("to_status", ["active", "frozen", "post_no_debit", "closed"], {
+        useNative: true,
+        enumName: "wallet_status_history_to_enum",
+      })
+      .notNullable()
+      .comment("Status after the change");
+    table.string("reason", 500).notNullable().comment("Why the status was changed");
+
+    table.string("changed_by", 36).notNullable().comment("Admin who changed the status");
+    table
+      .foreign("changed_by")
+      .references("users.id")
+      .onDelete("RESTRICT")
+      .onUpdate("CASCADE");
+
+    table
+      .timestamp("created_at")
+      .defaultTo(knex.fn.now())
+      .notNullable()
+      .comment("Timestamp when the status was changed");
+
+    table.index(["wallet_id", "created_at"], "idx_wallet_status_history_wallet_created");
+  });
+
+  console.log("✅ Added wallets.status and created wallet_status_history table");
+}
+
+/**
+ * Drop wallet_status_history and wallets.status
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists("wallet_status_history");
+
+  await knex.schema.alterTable("wallets", (table) => {
+    table.dropColumn("status");
+  });
+
+  console.log("✅ Dropped wallet_status_history table and wallets.status");
+}
@@ -0,0 +1,152 @@
+/**
+ * Migration: Create Loans
+ *
+ * Loan products offered to users and the applications made against them.
+ * An application is checked automatically (Adjutor Karma, wallet history,
+ * outstanding loans) and approved, declined or referred to an admin; an
+ * approved application is disbursed into the applicant's wallet as an
+ * ordinary credit.
+ *
+ * Tables:
+ * - loan_products: what can be borrowed, for how long and at what price
+ * - loan_applications: one application, its decision and its disbursement
+ *
+ * @module migrations/create_loans
+ */
+
+import { Knex } from "knex";
+
+/**
+ * Create the loan_products and loan_applications tables
+ *
+ * loan_products columns:
+ * - currency / min_amount_decimal / max_amount_decimal: What can be borrowed
+ * - tenor_months: How long the loan runs
+ * - interest_rate_bps: Annual interest rate
+ * - fee_flat_decimal / fee_bps: Processing fee, deducted from the disbursement
+ * - active: Whether new applications are accepted
+ *
+ * loan_applications columns:
+ * - amount / fee / tenor / rate: Terms, copied from the product when applying
+ * - status: review, approved, declined, or disbursed
+ * - decision_reasons: Outcome of every check and of any admin decision
+ * - adjutor_check_id: Karma check the decision relied on
+ * - decided_by: Admin who decided a referred application (null when automatic)
+ * - disbursement_transaction_id / disbursement_error: Result of paying it out
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable("loan_products", (table) => {
+    // Primary key - UUID format
+    table.string("id", 36).primary().notNullable().comment("Loan product unique identifier");
+
+    table.string("name", 100).notNullable().unique().comment("Product name shown to applicants");
+    table.string("description", 255).nullable().comment("What the product is for");
+    table.string("currency", 3).notNullable().comment("Currency lent");
+    table.decimal("min_amount_decimal", 20, 6).notNullable().comment("Smallest amount that can be borrowed");
+    table.decimal("max_amount_decimal", 20, 6).notNullable().comment("Largest amount that can be borrowed");
+    table.integer("tenor_months").unsigned().notNullable().comment("Loan duration in months");
+    table.integer("interest_rate_bps").unsigned().notNullable().comment("Annual interest rate in basis points");
+    table.decimal("fee_flat_decimal", 20, 6).notNullable().defaultTo(0).comment("Flat processing fee");
+    table.integer("fee_bps").unsigned().notNullable().defaultTo(0).comment("Processing fee in basis points of the amount");
+    table.boolean("active").notNullable().defaultTo(true).comment("Whether new applications are accepted");
+
+    table
+      .timestamp("created_at")
+      .defaultTo(knex.fn.now())
+      .notNullable()
+      .comment("Timestamp when the product was created");
+    table
+      .timestamp("updated_at")
+      .defaultTo(knex.fn.now())
+      .notNullable()
+      .comment("Timestamp when the product was last changed");
+  });
+
+  await knex.schema.createTable("loan_applications", (table) => {
+    // Primary key - UUID format
+    table.string("id", 36).primary().notNullable().comment("Loan application unique identifier");
+
+    table.string("user_id", 36).notNullable().comment("Applicant");
+    table
+      .foreign("user_id")
+      .references("users.id")
+      .onDelete("RESTRICT")
+      .onUpdate("CASCADE");
+    table.string("product_id", 36).notNullable().comment("Product applied for");
+    table
+      .foreign("product_id")
+      .references("loan_products.id")
+      .onDelete("RESTRICT")
+      .onUpdate("CASCADE");
+    table.string("wallet_id", 36).notNullable().comment("Wallet the loan is paid into");
+    table
+      .foreign("wallet_id")
+      .references("wallets.id")
+      .onDelete("RESTRICT")
+      .onUpdate("CASCADE");
+
+    table.string("currency", 3).notNullable().comment("Currency of the loan");
+    table.decimal("amount_decimal", 20, 6).notNullable().comment("Amount borrowed (principal)");
+    table.decimal("fee_decimal", 20, 6).notNullable().comment("Processing fee deducted from the disbursement");
+    table.integer("tenor_months").unsigned().notNullable().comment("Loan duration in months");
+    table.integer("interest_rate_bps").unsigned().notNullable().comment("Annual interest rate in basis points");
+    table.string("purpose", 255).nullable().comment("What the applicant wants the money for");
+
+    table
+      .enum("status", ["review", "approved", "declined", "disbursed"], {
+        useNative: true,
+        enumName: "loan_application_status_enum",
+      })
+      .notNullable()
+      .comment("Application status");
+    table.json("decision_reasons").notNullable().comment("Outcome of each check and of any admin decision");
+    table.string("adjutor_check_id", 36).nullable().comment("Karma check the decision relied on");
+    table
+      .foreign("adjutor_check_id")
+      .references("adjutor_checks.id")
+      .onDelete("SET NULL")
+      .onUpdate("CASCADE");
+    table.string("decided_by", 36).nullable().comment("Admin who decided a referred application");
+    table
+      .foreign("decided_by")
+      .references("users.id")
+      .onDelete("RESTRICT")
+      .onUpdate("CASCADE");
+    table.timestamp("decided_at").nullable().comment("When the application was approved or declined");
+
+    table.string("disbursement_transaction_id", 36).nullable().comment("Credit that paid the loan out");
+    table
+      .foreign("disbursement_transaction_id")
+      .references("transactions.id")
+      .onDelete("RESTRICT")
+      .onUpdate("CASCADE");
+    table.string("disbursement_error", 255).nullable().comment("Why the last disbursement attempt failed");
+    table.timestamp("disbursed_at").nullable().comment("When the loan was paid out");
+
+    table
+      .timestamp("created_at")
+      .defaultTo(knex.fn.now())
+      .notNullable()
+      .comment("Timestamp when the application was made");
+    table
+      .timestamp("updated_at")
+      .defaultTo(knex.fn.now())
+      .notNullable()
+      .comment("Timestamp when the application was last changed");
+
+    table.index(["user_id", "created_at"], "idx_loan_applications_user_created");
+    table.index(["status", "created_at"], "idx_loan_applications_status_created");
+  });
+
+  console.log("✅ Created loan_products and loan_applications tables");
+}
+
+/**
+ * Drop the loan_applications and loan_products tables
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists("loan_applications");
+  await knex.schema.dropTableIfExists("loan_products");
+
+  console.log("✅ Dropped loan_applications and loan_products tables");
+}
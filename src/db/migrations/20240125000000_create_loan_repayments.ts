@@ -0,0 +1,186 @@
+/**
+ * Migration: Create Loan Repayments
+ *
+ * Repayment schedules for disbursed loans, collected from the borrower's
+ * wallet by a periodic worker.
+ *
+ * - loan_products / loan_applications gain the amortization method and the
+ *   daily late penalty rate (copied onto the application when applying)
+ * - loan_applications.status gains `repaid`
+ * - loan_installments: the schedule, one row per monthly installment
+ * - loan_repayments: each amount collected towards an installment, with
+ *   the wallet debit that paid it
+ *
+ * @module migrations/create_loan_repayments
+ */
+
+import { Knex } from "knex";
+
+/**
+ * Add repayment terms and create the loan_installments and loan_repayments tables
+ *
+ * Columns:
+ * - repayment_method: flat (interest on the original amount) or reducing_balance (annuity)
+ * - late_penalty_bps: Daily penalty on an overdue installment's unpaid amount
+ *
+ * loan_installments columns:
+ * - sequence / due_date: Position in the schedule and the (UTC) day it falls due
+ * - principal_decimal / interest_decimal / penalty_decimal: What is owed
+ * - paid_decimal: What has been collected so far (partial collections add up)
+ * - status: pending, overdue, or paid
+ * - penalty_accrued_to: Last day late penalties were accrued for
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable("loan_products", (table) => {
+    table
+      .enum("repayment_method", ["flat", "reducing_balance"], {
+        useNative: true,
+        enumName: "loan_repayment_method_enum",
+      })
+      .notNullable()
+      .defaultTo("reducing_balance")
+      .after("interest_rate_bps")
+      .comment("How installments split principal and interest");
+    table
+      .integer("late_penalty_bps")
+      .unsigned()
+      .notNullable()
+      .defaultTo(0)
+      .after("repayment_method")
+      .comment("Daily late penalty in basis points of the overdue amount");
+  });
+
+  await knex.schema.alterTable("loan_applications", (table) => {
+    table
+      .enum("repayment_method", ["flat", "reducing_balance"], {
+        useNative: true,
+        enumName: "loan_repayment_method_enum",
+      })
+      .notNullable()
+      .defaultTo("reducing_balance")
+      .after("interest_rate_bps")
+      .comment("How installments split principal and interest");
+    table
+      .integer("late_penalty_bps")
+      .unsigned()
+      .notNullable()
+      .defaultTo(0)
+      .after("repayment_method")
+      .comment("Daily late penalty in basis points of the overdue amount");
+    table.timestamp("repaid_at").nullable().after("disbursed_at").comment("When the last installment was paid");
+  });
+
+  await knex.raw(`
+    ALTER TABLE loan_applications
+    MODIFY COLUMN status ENUM('review', 'approved', 'declined', 'disbursed', 'repaid') NOT NULL
+    COMMENT 'Application status'
+  `);
+
+  await knex.schema.createTable("loan_installments", (table) => {
+    // Primary key - UUID format
+    table.string("id", 36).primary().notNullable().comment("Installment unique identifier");
+
+    table.string("application_id", 36).notNullable().comment("Loan the installment belongs to");
+    table
+      .foreign("application_id")
+      .references("loan_applications.id")
+      .onDelete("RESTRICT")
+      .onUpdate("CASCADE");
+    table.integer("sequence").unsigned().notNullable().comment("Position in the schedule, from 1");
+    table.date("due_date").notNullable().comment("Day the installment falls due (UTC)");
+
+    table.decimal("principal_decimal", 20, 6).notNullable().comment("Principal repaid by the installment");
+    table.decimal("interest_decimal", 20, 6).notNullable().comment("Interest charged by the installment");
+    table.decimal("penalty_decimal", 20, 6).notNullable().defaultTo(0).comment("Late penalties accrued");
+    table.decimal("paid_decimal", 20, 6).notNullable().defaultTo(0).comment("Amount collected so far");
+
+    table
+      .enum("status", ["pending", "overdue", "paid"], {
+        useNative: true,
+        enumName: "loan_installment_status_enum",
+      })
+      .notNullable()
+      .defaultTo("pending")
+      .comment("Installment status");
+    table.date("penalty_accrued_to").nullable().comment("Last day late penalties were accrued for");
+    table.timestamp("paid_at").nullable().comment("When the installment was paid in full");
+
+    table
+      .timestamp("created_at")
+      .defaultTo(knex.fn.now())
+      .notNullable()
+      .comment("Timestamp when the installment was scheduled");
+    table
+      .timestamp("updated_at")
+      .defaultTo(knex.fn.now())
+      .notNullable()
+      .comment("Timestamp when the installment was last changed");
+
+    table.unique(["application_id", "sequence"], { indexName: "uq_loan_installments_application_sequence" });
+    table.index(["status", "due_date"], "idx_loan_installments_status_due");
+  });
+
+  await knex.schema.createTable("loan_repayments", (table) => {
+    // Primary key - UUID format
+    table.string("id", 36).primary().notNullable().comment("Repayment unique identifier");
+
+    table.string("application_id", 36).notNullable().comment("Loan repaid");
+    table
+      .foreign("application_id")
+      .references("loan_applications.id")
+      .onDelete("RESTRICT")
+      .onUpdate("CASCADE");
+    table.string("installment_id", 36).notNullable().comment("Installment the amount went towards");
+    table
+      .foreign("installment_id")
+      .references("loan_installments.id")
+      .onDelete("RESTRICT")
+      .onUpdate("CASCADE");
+    table.string("transaction_id", 36).notNullable().comment("Wallet debit that paid it");
+    table
+      .foreign("transaction_id")
+      .references("transactions.id")
+      .onDelete("RESTRICT")
+      .onUpdate("CASCADE");
+    table.decimal("amount_decimal", 20, 6).notNullable().comment("Amount applied to the installment");
+
+    table
+      .timestamp("created_at")
+      .defaultTo(knex.fn.now())
+      .notNullable()
+      .comment("Timestamp when the amount was collected");
+
+    table.index(["application_id", "created_at"], "idx_loan_repayments_application_created");
+  });
+
+  console.log("✅ Created loan_installments and loan_repayments tables");
+}
+
+/**
+ * Drop the repayment tables and terms
+ *
+ * Fails if repaid applications exist (they must be removed by hand first).
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists("loan_repayments");
+  await knex.schema.dropTableIfExists("loan_installments");
+
+  await knex.raw(`
+    ALTER TABLE loan_applications
+    MODIFY COLUMN status ENUM('review', 'approved', 'declined', 'disbursed') NOT NULL
+    COMMENT 'Application status'
+  `);
+
+  await knex.schema.alterTable("loan_applications", (table) => {
+    table.dropColumn("repaid_at");
+    table.dropColumn("late_penalty_bps");
+    table.dropColumn("repayment_method");
+  });
+
+  await knex.schema.alterTable("loan_products", (table) => {
+    table.dropColumn("late_penalty_bps");
+    table.dropColumn("repayment_method");
+  });
+
+  console.log("✅ Dropped loan_installments and loan_repayments tables");
+}
@@ -0,0 +1,108 @@
+/**
+ * Migration: Create Adjutor Reports
+ *
+ * Defaulting borrowers reported to the Adjutor Karma blacklist, and the
+ * removal of those records once the debt is cleared.
+ *
+ * - adjutor_reports: every submission to Karma (add or remove) with the
+ *   payload sent and the response received, next to adjutor_checks
+ * - loan_applications gains when the borrower was reported and when the
+ *   record was removed
+ *
+ * @module migrations/create_adjutor_reports
+ */
+
+import { Knex } from "knex";
+
+/**
+ * Create the adjutor_reports table and the Karma columns on loan_applications
+ *
+ * adjutor_reports columns:
+ * - action: add (report the defaulter) or remove (debt cleared)
+ * - identity_type / identity: Karma identity submitted (needed to remove it later)
+ * - amount_in_contention_decimal / reason / default_date: What was reported (add only)
+ * - request_payload / raw_response: What was sent and what Adjutor answered
+ * - succeeded: Whether Adjutor accepted the submission
+ * - submitted_by: Admin who made it (null when made by the collection worker)
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable("adjutor_reports", (table) => {
+    // Primary key - UUID format
+    table.string("id", 36).primary().notNullable().comment("Report submission unique identifier");
+
+    table.string("user_id", 36).notNullable().comment("Borrower reported");
+    table.foreign("user_id").references("users.id").onDelete("CASCADE").onUpdate("CASCADE");
+    table.string("application_id", 36).notNullable().comment("Loan in default");
+    table
+      .foreign("application_id")
+      .references("loan_applications.id")
+      .onDelete("RESTRICT")
+      .onUpdate("CASCADE");
+
+    table
+      .enum("action", ["add", "remove"], {
+        useNative: true,
+        enumName: "adjutor_report_action_enum",
+      })
+      .notNullable()
+      .comment("Add the identity to Karma or remove it");
+    table
+      .enum("identity_type", ["bvn", "email", "phone"], {
+        useNative: true,
+        enumName: "identity_type_enum",
+      })
+      .notNullable()
+      .comment("Type of identity submitted");
+    table.string("identity", 255).notNullable().comment("Identity submitted");
+
+    table.decimal("amount_in_contention_decimal", 20, 6).nullable().comment("Amount owed when reported");
+    table.string("reason", 255).nullable().comment("Reason given for the report");
+    table.date("default_date").nullable().comment("Due date of the oldest unpaid installment");
+
+    table.json("request_payload").notNullable().comment("Payload sent to Adjutor");
+    table.json("raw_response").notNullable().comment("Complete Adjutor API response");
+    table.boolean("succeeded").notNullable().comment("True if Adjutor accepted the submission");
+
+    table.string("submitted_by", 36).nullable().comment("Admin who made the submission (null for the worker)");
+    table.foreign("submitted_by").references("users.id").onDelete("SET NULL").onUpdate("CASCADE");
+    table
+      .timestamp("submitted_at")
+      .defaultTo(knex.fn.now())
+      .notNullable()
+      .comment("Timestamp when the submission was made");
+
+    table.index(["application_id", "submitted_at"], "idx_adjutor_reports_application_submitted");
+    table.index(["user_id"], "idx_adjutor_reports_user_id");
+  });
+
+  await knex.schema.alterTable("loan_applications", (table) => {
+    table
+      .timestamp("karma_reported_at")
+      .nullable()
+      .after("repaid_at")
+      .comment("When the borrower was reported to Adjutor Karma");
+    table
+      .timestamp("karma_removed_at")
+      .nullable()
+      .after("karma_reported_at")
+      .comment("When the Karma record was removed");
+    table.index(["status", "karma_reported_at", "karma_removed_at"], "idx_loan_applications_karma");
+  });
+
+  console.log("✅ Created adjutor_reports table");
+}
+
+/**
+ * Drop the adjutor_reports table and the Karma columns
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable("loan_applications", (table) => {
+    table.dropIndex(["status", "karma_reported_at", "karma_removed_at"], "idx_loan_applications_karma");
+    table.dropColumn("karma_removed_at");
+    table.dropColumn("karma_reported_at");
+  });
+
+  await knex.schema.dropTableIfExists("adjutor_reports");
+
+  console.log("✅ Dropped adjutor_reports table");
+}
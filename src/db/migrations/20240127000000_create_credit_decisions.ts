@@ -0,0 +1,71 @@
+/**
+ * Migration: Create Credit Decisions
+ *
+ * Every decision of the credit decisioning engine, with the inputs it was
+ * made from, so it can be audited and replayed against its scorecard.
+ *
+ * @module migrations/create_credit_decisions
+ */
+
+import { Knex } from "knex";
+
+/**
+ * Create the credit_decisions table
+ *
+ * Columns:
+ * - scorecard_version: Scorecard the decision was made with
+ * - application_id: Loan application the decision was made for
+ * - inputs: Credit factors plus the Karma and wallet figures behind them (JSON)
+ * - score / decision / limit_decimal: The outcome
+ * - reasons: Every rule that fired (code, points, message) (JSON)
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable("credit_decisions", (table) => {
+    // Primary key - UUID format
+    table.string("id", 36).primary().notNullable().comment("Decision unique identifier");
+
+    table.string("user_id", 36).notNullable().comment("User assessed");
+    table.foreign("user_id").references("users.id").onDelete("CASCADE").onUpdate("CASCADE");
+    table.string("wallet_id", 36).notNullable().comment("Wallet whose history was assessed");
+    table.foreign("wallet_id").references("wallets.id").onDelete("RESTRICT").onUpdate("CASCADE");
+    table.string("application_id", 36).nullable().comment("Loan application the decision was made for");
+    table
+      .foreign("application_id")
+      .references("loan_applications.id")
+      .onDelete("SET NULL")
+      .onUpdate("CASCADE");
+
+    table.string("currency", 3).notNullable().comment("Currency of the limit");
+    table.string("scorecard_version", 20).notNullable().comment("Scorecard the decision was made with");
+    table.json("inputs").notNullable().comment("Credit factors and the figures behind them");
+    table.integer("score").notNullable().comment("Score");
+    table
+      .enum("decision", ["approve", "refer", "decline"], {
+        useNative: true,
+        enumName: "credit_decision_enum",
+      })
+      .notNullable()
+      .comment("Outcome");
+    table.decimal("limit_decimal", 20, 6).notNullable().comment("Borrowing limit granted");
+    table.json("reasons").notNullable().comment("Rules that fired");
+
+    table
+      .timestamp("created_at")
+      .defaultTo(knex.fn.now())
+      .notNullable()
+      .comment("Timestamp when the decision was made");
+
+    table.index(["user_id", "created_at"], "idx_credit_decisions_user_created");
+    table.index(["application_id"], "idx_credit_decisions_application_id");
+  });
+
+  console.log("✅ Created credit_decisions table");
+}
+
+/**
+ * Drop the credit_decisions table
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists("credit_decisions");
+  console.log("✅ Dropped credit_decisions table");
+}
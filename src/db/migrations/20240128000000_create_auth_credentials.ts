@@ -0,0 +1,89 @@
+/**
+ * Migration: Create Auth Credentials
+ *
+ * Real login credentials instead of an email or phone number alone.
+ *
+ * - user_credentials: a user's scrypt password hash, kept out of the users
+ *   table so it is never loaded with a user
+ * - login_otps: one-time codes for passwordless login, stored hashed, with
+ *   an expiry and a count of wrong attempts
+ *
+ * @module migrations/create_auth_credentials
+ */
+
+import { Knex } from "knex";
+
+/**
+ * Create the user_credentials and login_otps tables
+ *
+ * user_credentials columns:
+ * - password_hash: scrypt$<N>$<r>$<p>$<salt>$<hash> (see utils/password)
+ *
+ * login_otps columns:
+ * - channel / destination: Where the code was sent (the email or phone number logged in with)
+ * - code_hash: HMAC-SHA256 of the code (the code itself is never stored)
+ * - attempts: Wrong codes tried so far
+ * - expires_at: When the code stops working (also set when a newer code replaces it)
+ * - consumed_at: When the code was used to log in
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable("user_credentials", (table) => {
+    table.string("user_id", 36).primary().notNullable().comment("User the password belongs to");
+    table.foreign("user_id").references("users.id").onDelete("CASCADE").onUpdate("CASCADE");
+
+    table.string("password_hash", 255).notNullable().comment("scrypt hash with its parameters and salt");
+
+    table
+      .timestamp("created_at")
+      .defaultTo(knex.fn.now())
+      .notNullable()
+      .comment("Timestamp when the password was first set");
+    table
+      .timestamp("updated_at")
+      .defaultTo(knex.fn.now())
+      .notNullable()
+      .comment("Timestamp when the password was last changed");
+  });
+
+  console.log("✅ Created user_credentials table");
+
+  await knex.schema.createTable("login_otps", (table) => {
+    // Primary key - UUID format
+    table.string("id", 36).primary().notNullable().comment("One-time code unique identifier");
+
+    table.string("user_id", 36).notNullable().comment("User logging in");
+    table.foreign("user_id").references("users.id").onDelete("CASCADE").onUpdate("CASCADE");
+
+    table
+      .enum("channel", ["email", "phone"], {
+        useNative: true,
+        enumName: "login_otp_channel_enum",
+      })
+      .notNullable()
+      .comment("Channel the code was sent over");
+    table.string("destination", 255).notNullable().comment("Email address or phone number sent to");
+    table.string("code_hash", 64).notNullable().comment("HMAC-SHA256 of the code");
+    table.integer("attempts").unsigned().notNullable().defaultTo(0).comment("Wrong codes tried");
+    table.timestamp("expires_at").notNullable().comment("When the code stops working");
+    table.timestamp("consumed_at").nullable().comment("When the code was used");
+
+    table
+      .timestamp("created_at")
+      .defaultTo(knex.fn.now())
+      .notNullable()
+      .comment("Timestamp when the code was sent");
+
+    table.index(["user_id", "created_at"], "idx_login_otps_user_created");
+  });
+
+  console.log("✅ Created login_otps table");
+}
+
+/**
+ * Drop the login_otps and user_credentials tables
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists("login_otps");
+  await knex.schema.dropTableIfExists("user_credentials");
+  console.log("✅ Dropped login_otps and user_credentials tables");
+}
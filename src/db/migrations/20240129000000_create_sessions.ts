@@ -0,0 +1,67 @@
+/**
+ * Migration: Create Sessions
+ *
+ * Server-side sessions behind short-lived access tokens.
+ *
+ * Each login starts a session family. Every refresh token the family is
+ * given is one row: using it marks it rotated and adds the next one. A
+ * rotated token that is used again means it was stolen, so the whole
+ * family is revoked, and access tokens issued to it stop working.
+ *
+ * @module migrations/create_sessions
+ */
+
+import { Knex } from "knex";
+
+/**
+ * Create the sessions table
+ *
+ * Columns:
+ * - family_id: Session the refresh token belongs to (embedded in access tokens)
+ * - refresh_token_hash: HMAC-SHA256 of the refresh token (the token itself is never stored)
+ * - expires_at: When the refresh token stops working
+ * - rotated_at: When the refresh token was exchanged for the next one
+ * - revoked_at / revoked_reason: When and why the family was ended
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable("sessions", (table) => {
+    // Primary key - UUID format
+    table.string("id", 36).primary().notNullable().comment("Refresh token unique identifier");
+
+    table.string("family_id", 36).notNullable().comment("Session family (one per login)");
+
+    table.string("user_id", 36).notNullable().comment("User the session belongs to");
+    table.foreign("user_id").references("users.id").onDelete("CASCADE").onUpdate("CASCADE");
+
+    table.string("refresh_token_hash", 64).notNullable().unique().comment("HMAC-SHA256 of the refresh token");
+    table.timestamp("expires_at").notNullable().comment("When the refresh token stops working");
+    table.timestamp("rotated_at").nullable().comment("When the refresh token was exchanged");
+    table.timestamp("revoked_at").nullable().comment("When the session family was ended");
+    table
+      .enum("revoked_reason", ["logout", "reuse_detected", "account_disabled"], {
+        useNative: true,
+        enumName: "session_revoked_reason_enum",
+      })
+      .nullable()
+      .comment("Why the session family was ended");
+
+    table
+      .timestamp("created_at")
+      .defaultTo(knex.fn.now())
+      .notNullable()
+      .comment("Timestamp when the refresh token was issued");
+
+    table.index(["family_id"], "idx_sessions_family");
+    table.index(["user_id", "created_at"], "idx_sessions_user_created");
+  });
+
+  console.log("✅ Created sessions table");
+}
+
+/**
+ * Drop the sessions table
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists("sessions");
+  console.log("✅ Dropped sessions table");
+}
@@ -0,0 +1,48 @@
+/**
+ * Migration: Create Login Attempts
+ *
+ * Failed password logins, so repeated guessing can be throttled per account
+ * and per IP address.
+ *
+ * @module migrations/create_login_attempts
+ */
+
+import { Knex } from "knex";
+
+/**
+ * Create the login_attempts table
+ *
+ * Columns:
+ * - account: User ID the email or phone number belongs to, or the identifier
+ *   itself (`email:<address>` or `phone:<number>`) when no user matches, so
+ *   unknown accounts are throttled the same way as real ones
+ * - ip_address: Address the attempt came from (null if unknown)
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable("login_attempts", (table) => {
+    // Primary key - UUID format
+    table.string("id", 36).primary().notNullable().comment("Failed login unique identifier");
+
+    table.string("account", 255).notNullable().comment("User ID, or the identifier tried when no user matched");
+    table.string("ip_address", 45).nullable().comment("IP address the attempt came from");
+
+    table
+      .timestamp("created_at")
+      .defaultTo(knex.fn.now())
+      .notNullable()
+      .comment("Timestamp of the failed attempt");
+
+    table.index(["account", "created_at"], "idx_login_attempts_account_created");
+    table.index(["ip_address", "created_at"], "idx_login_attempts_ip_created");
+  });
+
+  console.log("✅ Created login_attempts table");
+}
+
+/**
+ * Drop the login_attempts table
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists("login_attempts");
+  console.log("✅ Dropped login_attempts table");
+}
@@ -1,7 +1,8 @@
 /**
  * Adjutor OpenAPI Schema Definitions
  * 
- * Schema components for Adjutor Karma blacklist verification endpoints.
+ * Schema components for Adjutor Karma blacklist verification endpoints and
+ * the defaulter reports sent to Karma.
  * 
  * @module docs/schemas/adjutor
  */
@@ -182,6 +183,72 @@
  *               type: string
  *               example: "External service timeout"
  *       description: Response when Adjutor API is unavailable or returns an error
+ *
+ *     KarmaReport:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         action:
+ *           type: string
+ *           enum: [add, remove]
+ *           description: Report the borrower, or remove the record after repayment
+ *           example: "add"
+ *         identity_type:
+ *           type: string
+ *           enum: [bvn, email, phone]
+ *           example: "email"
+ *         identity:
+ *           type: string
+ *           example: "ada@example.com"
+ *         amount_in_contention:
+ *           type: string
+ *           nullable: true
+ *           description: Everything still owed on the loan when reported (add only)
+ *           example: "35013.710000"
+ *         reason:
+ *           type: string
+ *           nullable: true
+ *           example: "Default on loan repayment: NGN 17594.38 overdue across 1 installment(s)"
+ *         default_date:
+ *           type: string
+ *           format: date
+ *           nullable: true
+ *           description: Due date of the oldest unpaid installment (add only)
+ *           example: "2024-04-01"
+ *         succeeded:
+ *           type: boolean
+ *           description: Whether Adjutor accepted the submission
+ *           example: true
+ *         response:
+ *           type: object
+ *           description: Adjutor's response as received
+ *           example:
+ *             status: "success"
+ *             message: "Karma record added"
+ *         submitted_by:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *           description: Admin who made the submission (null for the collection worker)
+ *         submitted_at:
+ *           type: string
+ *           format: date-time
+ *
+ *     KarmaReportListResponse:
+ *       type: object
+ *       properties:
+ *         success:
+ *           type: boolean
+ *           example: true
+ *         data:
+ *           type: object
+ *           properties:
+ *             reports:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/KarmaReport'
  */
 
 export {};
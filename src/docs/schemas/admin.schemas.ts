@@ -0,0 +1,585 @@
+/**
+ * Admin OpenAPI Schema Definitions
+ *
+ * Schema components for back-office endpoints (reconciliation, reversals,
+ * fee rules, tier limits, wallet statuses).
+ *
+ * @module docs/schemas/admin
+ */
+
+/**
+ * @openapi
+ * components:
+ *   schemas:
+ *     ReconciliationRun:
+ *       type: object
+ *       properties:
+ *         id:
+ *           $ref: '#/components/schemas/UUID'
+ *         status:
+ *           type: string
+ *           enum: [running, completed, failed]
+ *           example: "completed"
+ *         triggered_by:
+ *           type: string
+ *           description: "cli, schedule, or admin:<userId>"
+ *           example: "admin:550e8400-e29b-41d4-a716-446655440000"
+ *         wallets_checked:
+ *           type: integer
+ *           example: 1250
+ *         transfers_checked:
+ *           type: integer
+ *           example: 4310
+ *         discrepancy_count:
+ *           type: integer
+ *           example: 0
+ *         error:
+ *           type: string
+ *           nullable: true
+ *           example: null
+ *         started_at:
+ *           $ref: '#/components/schemas/Timestamp'
+ *         finished_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *
+ *     ReconciliationDiscrepancy:
+ *       type: object
+ *       properties:
+ *         id:
+ *           $ref: '#/components/schemas/UUID'
+ *         run_id:
+ *           $ref: '#/components/schemas/UUID'
+ *         check_type:
+ *           type: string
+ *           enum: [wallet_balance, balance_chain, transfer_legs, ledger]
+ *           example: "wallet_balance"
+ *         wallet_id:
+ *           type: string
+ *           nullable: true
+ *         transfer_id:
+ *           type: string
+ *           nullable: true
+ *         transaction_id:
+ *           type: string
+ *           nullable: true
+ *         expected:
+ *           type: string
+ *           nullable: true
+ *           example: "1500.000000"
+ *         actual:
+ *           type: string
+ *           nullable: true
+ *           example: "1500.010000"
+ *         message:
+ *           type: string
+ *           example: "Wallet balance does not equal the sum of its 12 transactions"
+ *         created_at:
+ *           $ref: '#/components/schemas/Timestamp'
+ *
+ *     ReconciliationRunResponse:
+ *       type: object
+ *       properties:
+ *         success:
+ *           type: boolean
+ *           example: true
+ *         message:
+ *           type: string
+ *           example: "Reconciliation completed with no discrepancies"
+ *         data:
+ *           type: object
+ *           properties:
+ *             run:
+ *               $ref: '#/components/schemas/ReconciliationRun'
+ *
+ *     ReconciliationRunListResponse:
+ *       type: object
+ *       properties:
+ *         success:
+ *           type: boolean
+ *           example: true
+ *         data:
+ *           type: object
+ *           properties:
+ *             runs:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/ReconciliationRun'
+ *
+ *     ReconciliationRunDetailResponse:
+ *       type: object
+ *       properties:
+ *         success:
+ *           type: boolean
+ *           example: true
+ *         data:
+ *           type: object
+ *           properties:
+ *             run:
+ *               $ref: '#/components/schemas/ReconciliationRun'
+ *             discrepancies:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/ReconciliationDiscrepancy'
+ *
+ *     ReversalRequest:
+ *       type: object
+ *       required:
+ *         - target
+ *         - reason
+ *       properties:
+ *         target:
+ *           type: string
+ *           description: Transaction ID or transfer reference
+ *           example: "TRANSFER-550e8400-1699564800000-A1B2C3D4"
+ *         reason:
+ *           type: string
+ *           minLength: 3
+ *           maxLength: 255
+ *           example: "Sent to the wrong recipient"
+ *         allowNegativeBalance:
+ *           type: boolean
+ *           default: false
+ *           description: Allow the reversal to take a wallet below zero
+ *
+ *     ReversalResponse:
+ *       type: object
+ *       properties:
+ *         success:
+ *           type: boolean
+ *           example: true
+ *         message:
+ *           type: string
+ *           example: "Transfer reversed successfully"
+ *         data:
+ *           type: object
+ *           properties:
+ *             reference:
+ *               type: string
+ *               example: "REVERSAL-a1b2c3d4-1699564900000-E5F6A7B8"
+ *             transfer:
+ *               type: object
+ *               nullable: true
+ *               properties:
+ *                 id:
+ *                   $ref: '#/components/schemas/UUID'
+ *                 reference:
+ *                   type: string
+ *                 status:
+ *                   type: string
+ *                   example: "reversed"
+ *             transactions:
+ *               type: array
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   id:
+ *                     $ref: '#/components/schemas/UUID'
+ *                   wallet_id:
+ *                     $ref: '#/components/schemas/UUID'
+ *                   type:
+ *                     type: string
+ *                     example: "reversal"
+ *                   amount:
+ *                     type: string
+ *                     example: "1000.000000"
+ *                   balance_after:
+ *                     type: string
+ *                     example: "0.000000"
+ *                   reference:
+ *                     type: string
+ *                     example: "REVERSAL-a1b2c3d4-1699564900000-E5F6A7B8-OUT"
+ *                   reversal_of:
+ *                     $ref: '#/components/schemas/UUID'
+ *                   created_at:
+ *                     $ref: '#/components/schemas/Timestamp'
+ *
+ *     FeeTierBand:
+ *       type: object
+ *       required:
+ *         - upTo
+ *       properties:
+ *         upTo:
+ *           type: string
+ *           nullable: true
+ *           description: Upper bound of the band, inclusive (null on the last band)
+ *           example: "5000.00"
+ *         flatFee:
+ *           type: string
+ *           example: "10.00"
+ *         bps:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 10000
+ *           example: 50
+ *
+ *     CreateFeeRuleRequest:
+ *       type: object
+ *       required:
+ *         - operation
+ *         - currency
+ *         - feeType
+ *       properties:
+ *         operation:
+ *           type: string
+ *           enum: [withdraw, transfer, pot_early_withdrawal]
+ *         currency:
+ *           type: string
+ *           enum: [NGN, USD, GHS]
+ *         channel:
+ *           type: string
+ *           enum: [api, web, mobile, ussd]
+ *           nullable: true
+ *           description: Limit the rule to one channel (omit for any)
+ *         userTier:
+ *           type: string
+ *           enum: [tier_1, tier_2, tier_3]
+ *           nullable: true
+ *           description: Limit the rule to one user tier (omit for any)
+ *         feeType:
+ *           type: string
+ *           enum: [flat, percentage, tiered]
+ *         flatFee:
+ *           type: string
+ *           description: Fixed fee (flat), or fixed part added to a percentage fee
+ *           example: "10.00"
+ *         percentageBps:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 10000
+ *           description: Basis points of the amount (percentage rules)
+ *           example: 50
+ *         tiers:
+ *           type: array
+ *           description: Amount bands (tiered rules), ascending by upTo
+ *           items:
+ *             $ref: '#/components/schemas/FeeTierBand'
+ *         minFee:
+ *           type: string
+ *           example: "10.00"
+ *         maxFee:
+ *           type: string
+ *           example: "2000.00"
+ *         priority:
+ *           type: integer
+ *           minimum: 0
+ *           maximum: 1000
+ *           default: 0
+ *           description: Breaks ties between equally specific rules (higher wins)
+ *         active:
+ *           type: boolean
+ *           default: true
+ *         description:
+ *           type: string
+ *           example: "Standard NGN bank payout fee"
+ *
+ *     UpdateFeeRuleRequest:
+ *       type: object
+ *       properties:
+ *         active:
+ *           type: boolean
+ *         priority:
+ *           type: integer
+ *           minimum: 0
+ *           maximum: 1000
+ *         description:
+ *           type: string
+ *           nullable: true
+ *
+ *     FeeRule:
+ *       type: object
+ *       properties:
+ *         id:
+ *           $ref: '#/components/schemas/UUID'
+ *         operation:
+ *           type: string
+ *           enum: [withdraw, transfer, pot_early_withdrawal]
+ *         currency:
+ *           type: string
+ *           example: "NGN"
+ *         channel:
+ *           type: string
+ *           nullable: true
+ *         user_tier:
+ *           type: string
+ *           nullable: true
+ *         fee_type:
+ *           type: string
+ *           enum: [flat, percentage, tiered]
+ *         flat_fee_decimal:
+ *           type: string
+ *           nullable: true
+ *           example: "10.000000"
+ *         percentage_bps:
+ *           type: integer
+ *           nullable: true
+ *         tiers:
+ *           type: array
+ *           nullable: true
+ *           items:
+ *             type: object
+ *             properties:
+ *               up_to:
+ *                 type: string
+ *                 nullable: true
+ *               flat_fee:
+ *                 type: string
+ *               bps:
+ *                 type: integer
+ *         min_fee_decimal:
+ *           type: string
+ *           nullable: true
+ *         max_fee_decimal:
+ *           type: string
+ *           nullable: true
+ *         priority:
+ *           type: integer
+ *         active:
+ *           type: boolean
+ *         description:
+ *           type: string
+ *           nullable: true
+ *         created_at:
+ *           $ref: '#/components/schemas/Timestamp'
+ *         updated_at:
+ *           $ref: '#/components/schemas/Timestamp'
+ *
+ *     FeeRuleResponse:
+ *       type: object
+ *       properties:
+ *         success:
+ *           type: boolean
+ *           example: true
+ *         message:
+ *           type: string
+ *           example: "Fee rule created successfully"
+ *         data:
+ *           type: object
+ *           properties:
+ *             rule:
+ *               $ref: '#/components/schemas/FeeRule'
+ *
+ *     FeeRuleListResponse:
+ *       type: object
+ *       properties:
+ *         success:
+ *           type: boolean
+ *           example: true
+ *         message:
+ *           type: string
+ *           example: "Fee rules retrieved successfully"
+ *         data:
+ *           type: object
+ *           properties:
+ *             rules:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/FeeRule'
+ *
+ *     TierLimit:
+ *       type: object
+ *       description: Limits of a user tier in one currency (null = unlimited)
+ *       properties:
+ *         id:
+ *           $ref: '#/components/schemas/UUID'
+ *         tier:
+ *           type: string
+ *           enum: [tier_1, tier_2, tier_3]
+ *         currency:
+ *           type: string
+ *           example: "NGN"
+ *         max_single_decimal:
+ *           type: string
+ *           nullable: true
+ *           example: "50000.000000"
+ *         daily_limit_decimal:
+ *           type: string
+ *           nullable: true
+ *           example: "50000.000000"
+ *         monthly_limit_decimal:
+ *           type: string
+ *           nullable: true
+ *           example: "300000.000000"
+ *         max_balance_decimal:
+ *           type: string
+ *           nullable: true
+ *           example: "300000.000000"
+ *         created_at:
+ *           $ref: '#/components/schemas/Timestamp'
+ *         updated_at:
+ *           $ref: '#/components/schemas/Timestamp'
+ *
+ *     SetTierLimitRequest:
+ *       type: object
+ *       required: [maxSingle, dailyLimit, monthlyLimit, maxBalance]
+ *       description: Every limit must be given; null means unlimited
+ *       properties:
+ *         maxSingle:
+ *           type: string
+ *           nullable: true
+ *           example: "200000.00"
+ *         dailyLimit:
+ *           type: string
+ *           nullable: true
+ *           example: "200000.00"
+ *         monthlyLimit:
+ *           type: string
+ *           nullable: true
+ *           example: "1000000.00"
+ *         maxBalance:
+ *           type: string
+ *           nullable: true
+ *           example: "500000.00"
+ *
+ *     TierLimitResponse:
+ *       type: object
+ *       properties:
+ *         success:
+ *           type: boolean
+ *           example: true
+ *         message:
+ *           type: string
+ *           example: "Tier limits updated successfully"
+ *         data:
+ *           type: object
+ *           properties:
+ *             limit:
+ *               $ref: '#/components/schemas/TierLimit'
+ *
+ *     TierLimitListResponse:
+ *       type: object
+ *       properties:
+ *         success:
+ *           type: boolean
+ *           example: true
+ *         message:
+ *           type: string
+ *           example: "Tier limits retrieved successfully"
+ *         data:
+ *           type: object
+ *           properties:
+ *             limits:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/TierLimit'
+ *
+ *     SetUserTierRequest:
+ *       type: object
+ *       required: [tier]
+ *       properties:
+ *         tier:
+ *           type: string
+ *           enum: [tier_1, tier_2, tier_3]
+ *           example: "tier_2"
+ *
+ *     SetUserTierResponse:
+ *       type: object
+ *       properties:
+ *         success:
+ *           type: boolean
+ *           example: true
+ *         message:
+ *           type: string
+ *           example: "User tier updated successfully"
+ *         data:
+ *           type: object
+ *           properties:
+ *             user_id:
+ *               $ref: '#/components/schemas/UUID'
+ *             previous_tier:
+ *               type: string
+ *               example: "tier_1"
+ *             tier:
+ *               type: string
+ *               example: "tier_2"
+ *
+ *     SetWalletStatusRequest:
+ *       type: object
+ *       required: [status, reason]
+ *       properties:
+ *         status:
+ *           type: string
+ *           enum: [active, frozen, post_no_debit, closed]
+ *           description: |
+ *             `frozen` blocks all movement, `post_no_debit` blocks debits only,
+ *             `closed` is permanent and needs an empty wallet
+ *           example: "frozen"
+ *         reason:
+ *           type: string
+ *           minLength: 3
+ *           maxLength: 500
+ *           example: "Suspicious inbound transfers under review"
+ *
+ *     WalletStatusChange:
+ *       type: object
+ *       properties:
+ *         id:
+ *           $ref: '#/components/schemas/UUID'
+ *         wallet_id:
+ *           $ref: '#/components/schemas/UUID'
+ *         from_status:
+ *           type: string
+ *           enum: [active, frozen, post_no_debit, closed]
+ *           example: "active"
+ *         to_status:
+ *           type: string
+ *           enum: [active, frozen, post_no_debit, closed]
+ *           example: "frozen"
+ *         reason:
+ *           type: string
+ *           example: "Suspicious inbound transfers under review"
+ *         changed_by:
+ *           $ref: '#/components/schemas/UUID'
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ *
+ *     SetWalletStatusResponse:
+ *       type: object
+ *       properties:
+ *         success:
+ *           type: boolean
+ *           example: true
+ *         message:
+ *           type: string
+ *           example: "Wallet status updated successfully"
+ *         data:
+ *           type: object
+ *           properties:
+ *             wallet:
+ *               type: object
+ *               properties:
+ *                 id:
+ *                   $ref: '#/components/schemas/UUID'
+ *                 user_id:
+ *                   $ref: '#/components/schemas/UUID'
+ *                 currency:
+ *                   type: string
+ *                   example: "NGN"
+ *                 balance:
+ *                   type: string
+ *                   example: "25000.000000"
+ *                 status:
+ *                   type: string
+ *                   enum: [active, frozen, post_no_debit, closed]
+ *                   example: "frozen"
+ *             change:
+ *               $ref: '#/components/schemas/WalletStatusChange'
+ *
+ *     WalletStatusHistoryResponse:
+ *       type: object
+ *       properties:
+ *         success:
+ *           type: boolean
+ *           example: true
+ *         data:
+ *           type: object
+ *           properties:
+ *             history:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/WalletStatusChange'
+ */
+
+export {};
@@ -2,7 +2,8 @@
  * Authentication OpenAPI Schema Definitions
  * 
  * Schema components for authentication endpoints including
- * signup and login request/response structures.
+ * signup, password login, one-time code login, token refresh and logout
+ * request/response structures.
  * 
  * @module docs/schemas/auth
  */
@@ -18,6 +19,7 @@
  *         - email
  *         - phone
  *         - bvn
+ *         - password
  *       properties:
  *         name:
  *           type: string
@@ -42,6 +44,13 @@
  *           maxLength: 11
  *           description: Bank Verification Number (11 digits). Used for Adjutor Karma blacklist check but NOT stored in database.
  *           example: "12345678901"
+ *         password:
+ *           type: string
+ *           format: password
+ *           minLength: 8
+ *           maxLength: 128
+ *           description: Login password. Stored as an scrypt hash only.
+ *           example: "correct horse battery staple"
  *       description: User registration request payload
  * 
  *     SignupResponse:
@@ -118,10 +127,24 @@
  *               type: string
  *               description: JWT authentication token (faux auth implementation)
  *               example: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
+ *             token_expires_at:
+ *               type: string
+ *               format: date-time
+ *               description: When the access token stops working (ACCESS_TOKEN_TTL_SECONDS after issue)
+ *             refresh_token:
+ *               type: string
+ *               description: Refresh token for POST /auth/refresh and /auth/logout. Works once.
+ *               example: "k7Qm2x...Zr0"
+ *             refresh_token_expires_at:
+ *               type: string
+ *               format: date-time
+ *               description: When the refresh token stops working (REFRESH_TOKEN_TTL_DAYS after issue)
  *       description: Successful signup response with user, wallet, and authentication token
  * 
  *     LoginRequest:
  *       type: object
+ *       required:
+ *         - password
  *       properties:
  *         email:
  *           type: string
@@ -133,6 +156,12 @@
  *           pattern: '^\+?[1-9]\d{1,14}$'
  *           description: User's phone number (required if email is not provided)
  *           example: "+2348012345678"
+ *         password:
+ *           type: string
+ *           format: password
+ *           maxLength: 128
+ *           description: Password set at signup
+ *           example: "correct horse battery staple"
  *       description: Login request payload. Either email or phone must be provided.
  *       oneOf:
  *         - required:
@@ -187,8 +216,139 @@
  *               type: string
  *               description: JWT authentication token
  *               example: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
+ *             token_expires_at:
+ *               type: string
+ *               format: date-time
+ *               description: When the access token stops working (ACCESS_TOKEN_TTL_SECONDS after issue)
+ *             refresh_token:
+ *               type: string
+ *               description: Refresh token for POST /auth/refresh and /auth/logout. Works once.
+ *               example: "k7Qm2x...Zr0"
+ *             refresh_token_expires_at:
+ *               type: string
+ *               format: date-time
+ *               description: When the refresh token stops working (REFRESH_TOKEN_TTL_DAYS after issue)
  *       description: Successful login response with user and authentication token
  * 
+ *     RefreshTokenRequest:
+ *       type: object
+ *       required:
+ *         - refreshToken
+ *       properties:
+ *         refreshToken:
+ *           type: string
+ *           maxLength: 200
+ *           description: Refresh token from the last login or refresh
+ *           example: "k7Qm2x...Zr0"
+ * 
+ *     TokenRefreshResponse:
+ *       type: object
+ *       properties:
+ *         success:
+ *           type: boolean
+ *           example: true
+ *         message:
+ *           type: string
+ *           example: "Token refreshed"
+ *         data:
+ *           type: object
+ *           properties:
+ *             token:
+ *               type: string
+ *               description: New access token
+ *               example: "candidate:550e8400-...:9b2f61c0-...:1709283600:signature"
+ *             token_expires_at:
+ *               type: string
+ *               format: date-time
+ *               description: When the access token stops working (ACCESS_TOKEN_TTL_SECONDS after issue)
+ *             refresh_token:
+ *               type: string
+ *               description: Refresh token for POST /auth/refresh and /auth/logout. Works once.
+ *               example: "k7Qm2x...Zr0"
+ *             refresh_token_expires_at:
+ *               type: string
+ *               format: date-time
+ *               description: When the refresh token stops working (REFRESH_TOKEN_TTL_DAYS after issue)
+ * 
+ *     LogoutResponse:
+ *       type: object
+ *       properties:
+ *         success:
+ *           type: boolean
+ *           example: true
+ *         message:
+ *           type: string
+ *           example: "Logged out"
+ * 
+ *     OtpRequest:
+ *       type: object
+ *       properties:
+ *         email:
+ *           type: string
+ *           format: email
+ *           description: Email address to send the code to (required if phone is not provided)
+ *           example: "john.doe@example.com"
+ *         phone:
+ *           type: string
+ *           pattern: '^\+?[1-9]\d{1,14}$'
+ *           description: Phone number to send the code to (required if email is not provided)
+ *           example: "+2348012345678"
+ *       description: Login code request payload. Either email or phone must be provided; email wins if both are.
+ *       oneOf:
+ *         - required:
+ *             - email
+ *         - required:
+ *             - phone
+ * 
+ *     OtpRequestResponse:
+ *       type: object
+ *       properties:
+ *         success:
+ *           type: boolean
+ *           example: true
+ *         message:
+ *           type: string
+ *           example: "If an account matches, a login code has been sent"
+ *         data:
+ *           type: object
+ *           properties:
+ *             channel:
+ *               type: string
+ *               enum: [email, phone]
+ *               example: "email"
+ *             expires_in_seconds:
+ *               type: integer
+ *               description: How long the code works
+ *               example: 300
+ *       description: Same response whether or not an account matches
+ * 
+ *     OtpVerifyRequest:
+ *       type: object
+ *       required:
+ *         - code
+ *       properties:
+ *         email:
+ *           type: string
+ *           format: email
+ *           description: Email address the code was sent to (required if phone is not provided)
+ *           example: "john.doe@example.com"
+ *         phone:
+ *           type: string
+ *           pattern: '^\+?[1-9]\d{1,14}$'
+ *           description: Phone number the code was sent to (required if email is not provided)
+ *           example: "+2348012345678"
+ *         code:
+ *           type: string
+ *           pattern: '^\d{4,10}$'
+ *           description: One-time login code
+ *           example: "482913"
+ *       description: Login code verification payload. Either email or phone must be provided.
+ *       oneOf:
+ *         - required:
+ *             - email
+ *         - required:
+ *             - phone
+ * 
  *     BlacklistedUserResponse:
  *       type: object
  *       required:
@@ -10,6 +10,38 @@
 /**
  * @openapi
  * components:
+ *   parameters:
+ *     IdempotencyKey:
+ *       in: header
+ *       name: Idempotency-Key
+ *       required: false
+ *       schema:
+ *         type: string
+ *         maxLength: 255
+ *       description: |
+ *         Optional client-generated key (e.g. a UUID) that makes the request safe to retry.
+ *         A replay with the same key and body returns the first response (with header `Idempotent-Replayed: true`);
+ *         reusing the key with a different body returns 422. Keys expire after `IDEMPOTENCY_KEY_TTL_HOURS`.
+ *       example: "5f1b6a3c-9d2e-4c1a-8f0b-7e6d5c4b3a21"
+ * 
+ *     WalletIdQuery:
+ *       in: query
+ *       name: walletId
+ *       required: false
+ *       schema:
+ *         type: string
+ *         format: uuid
+ *       description: Wallet to use (takes precedence over currency)
+ * 
+ *     CurrencyQuery:
+ *       in: query
+ *       name: currency
+ *       required: false
+ *       schema:
+ *         type: string
+ *         enum: [NGN, USD, GHS]
+ *       description: Currency of the wallet to use (defaults to NGN)
+ * 
  *   schemas:
  *     UUID:
  *       type: string
@@ -153,6 +185,23 @@
  *           type: string
  *           example: "An unexpected error occurred"
  * 
+ *     IdempotencyKeyMismatchResponse:
+ *       type: object
+ *       required:
+ *         - success
+ *         - error
+ *         - message
+ *       properties:
+ *         success:
+ *           type: boolean
+ *           example: false
+ *         error:
+ *           type: string
+ *           example: "Validation Error"
+ *         message:
+ *           type: string
+ *           example: "Idempotency-Key has already been used with a different request payload"
+ * 
  *     SuccessResponse:
  *       type: object
  *       required:
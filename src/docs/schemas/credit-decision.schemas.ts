@@ -0,0 +1,202 @@
+/**
+ * Credit Decision OpenAPI Schema Definitions
+ *
+ * Schema components for the credit decisioning engine: scorecard
+ * evaluations, stored decisions and the admin dry run.
+ *
+ * @module docs/schemas/credit-decision
+ */
+
+/**
+ * @openapi
+ * components:
+ *   schemas:
+ *     CreditReason:
+ *       type: object
+ *       description: A scorecard rule that fired
+ *       properties:
+ *         code:
+ *           type: string
+ *           example: "POSITIVE_CASH_FLOW"
+ *         points:
+ *           type: integer
+ *           description: Points the rule added to the score (0 for rules that decline or refer outright)
+ *           example: 50
+ *         message:
+ *           type: string
+ *           example: "Receives at least 20% more than spends"
+ *
+ *     CreditInputs:
+ *       type: object
+ *       description: Everything the decision was made from
+ *       properties:
+ *         as_of:
+ *           type: string
+ *           format: date-time
+ *         history_days:
+ *           type: integer
+ *           description: Wallet history looked at
+ *           example: 90
+ *         factors:
+ *           type: object
+ *           description: Value of every credit factor the scorecard's rules test
+ *           properties:
+ *             account_age_days:
+ *               type: integer
+ *               example: 210
+ *             credit_count:
+ *               type: integer
+ *               example: 12
+ *             inflow_outflow_percent:
+ *               type: integer
+ *               description: Inflow as a percentage of outflow (capped at 1000; 1000 with no outflow)
+ *               example: 135
+ *             repaid_loans:
+ *               type: integer
+ *               example: 1
+ *             open_loans:
+ *               type: integer
+ *               example: 0
+ *             late_installments:
+ *               type: integer
+ *               example: 0
+ *             overdue_installments:
+ *               type: integer
+ *               example: 0
+ *             karma_listed:
+ *               type: integer
+ *               enum: [0, 1]
+ *             karma_unavailable:
+ *               type: integer
+ *               enum: [0, 1]
+ *             karma_amount_in_contention:
+ *               type: integer
+ *               example: 0
+ *         karma:
+ *           type: object
+ *           properties:
+ *             listed:
+ *               type: boolean
+ *             unavailable:
+ *               type: boolean
+ *             identity_type:
+ *               type: string
+ *               nullable: true
+ *               enum: [email, phone]
+ *             karma_type:
+ *               type: string
+ *               nullable: true
+ *               example: "Loan Default"
+ *             amount_in_contention:
+ *               type: string
+ *               nullable: true
+ *               example: "50000.00"
+ *         inflow:
+ *           type: string
+ *           example: "240000.000000"
+ *         outflow:
+ *           type: string
+ *           example: "177000.000000"
+ *         monthly_inflow:
+ *           type: string
+ *           description: Average monthly inflow over the history window
+ *           example: "80000.000000"
+ *
+ *     CreditEvaluation:
+ *       type: object
+ *       properties:
+ *         user_id:
+ *           type: string
+ *           format: uuid
+ *         wallet_id:
+ *           type: string
+ *           format: uuid
+ *         currency:
+ *           type: string
+ *           example: "NGN"
+ *         scorecard_version:
+ *           type: string
+ *           example: "2024-01"
+ *         score:
+ *           type: integer
+ *           example: 680
+ *         decision:
+ *           type: string
+ *           enum: [approve, refer, decline]
+ *           example: "approve"
+ *         limit:
+ *           type: string
+ *           description: Borrowing limit (zero when declined)
+ *           example: "80000.000000"
+ *         reasons:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/CreditReason'
+ *         inputs:
+ *           $ref: '#/components/schemas/CreditInputs'
+ *
+ *     CreditDecision:
+ *       allOf:
+ *         - type: object
+ *           properties:
+ *             id:
+ *               type: string
+ *               format: uuid
+ *             application_id:
+ *               type: string
+ *               format: uuid
+ *               nullable: true
+ *               description: Loan application the decision was made for
+ *             created_at:
+ *               type: string
+ *               format: date-time
+ *         - $ref: '#/components/schemas/CreditEvaluation'
+ *
+ *     CreditDecisionDryRunRequest:
+ *       type: object
+ *       required:
+ *         - userId
+ *       properties:
+ *         userId:
+ *           type: string
+ *           format: uuid
+ *         currency:
+ *           type: string
+ *           description: Currency of the wallet to assess (default NGN)
+ *           example: "NGN"
+ *         version:
+ *           type: string
+ *           description: Scorecard version (default the current one)
+ *           example: "2024-01"
+ *
+ *     CreditDecisionDryRunResponse:
+ *       type: object
+ *       properties:
+ *         success:
+ *           type: boolean
+ *           example: true
+ *         message:
+ *           type: string
+ *           example: "Credit decision evaluated (not stored)"
+ *         data:
+ *           type: object
+ *           properties:
+ *             evaluation:
+ *               $ref: '#/components/schemas/CreditEvaluation'
+ *
+ *     CreditDecisionListResponse:
+ *       type: object
+ *       properties:
+ *         success:
+ *           type: boolean
+ *           example: true
+ *         data:
+ *           type: object
+ *           properties:
+ *             decisions:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/CreditDecision'
+ */
+
+export {};
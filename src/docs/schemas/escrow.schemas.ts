@@ -0,0 +1,283 @@
+/**
+ * Escrow OpenAPI Schema Definitions
+ *
+ * Schema components for escrows between two users.
+ *
+ * @module docs/schemas/escrow
+ */
+
+/**
+ * @openapi
+ * components:
+ *   schemas:
+ *     Escrow:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *           example: "9a1c7e52-3b8d-4f0a-8e6c-2d4b5f7a9c10"
+ *         payer_user_id:
+ *           type: string
+ *           format: uuid
+ *           description: User whose funds are escrowed
+ *           example: "550e8400-e29b-41d4-a716-446655440000"
+ *         beneficiary_user_id:
+ *           type: string
+ *           format: uuid
+ *           description: User the funds are meant for
+ *           example: "770e8400-e29b-41d4-a716-446655440111"
+ *         amount:
+ *           type: string
+ *           example: "50000.000000"
+ *         currency:
+ *           type: string
+ *           example: "NGN"
+ *         released_amount:
+ *           type: string
+ *           nullable: true
+ *           description: Amount paid to the beneficiary once settled
+ *           example: "30000.000000"
+ *         refunded_amount:
+ *           type: string
+ *           nullable: true
+ *           description: Amount returned to the payer once settled
+ *           example: "20000.000000"
+ *         description:
+ *           type: string
+ *           nullable: true
+ *           example: "Used laptop, delivery in Lagos"
+ *         status:
+ *           type: string
+ *           enum: [funded, disputed, released, refunded, split]
+ *           example: "funded"
+ *         expires_at:
+ *           type: string
+ *           format: date-time
+ *           description: A funded escrow not released by then is refunded to the payer
+ *         funding_transfer_id:
+ *           type: string
+ *           format: uuid
+ *           description: Transfer from the payer into escrow
+ *         release_transfer_id:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *           description: Transfer from escrow to the beneficiary
+ *         refund_transfer_id:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *           description: Transfer from escrow back to the payer
+ *         metadata:
+ *           type: object
+ *           nullable: true
+ *           additionalProperties: true
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ *         updated_at:
+ *           type: string
+ *           format: date-time
+ *         settled_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: When the funds left escrow
+ *
+ *     EscrowEvent:
+ *       type: object
+ *       description: One status change in an escrow's audit trail
+ *       properties:
+ *         from_status:
+ *           type: string
+ *           enum: [funded, disputed, released, refunded, split]
+ *           nullable: true
+ *           description: Status before the change (null when the escrow was funded)
+ *         to_status:
+ *           type: string
+ *           enum: [funded, disputed, released, refunded, split]
+ *         actor_type:
+ *           type: string
+ *           enum: [payer, beneficiary, admin, system]
+ *           description: Who made the change (`system` for timeouts)
+ *         actor_user_id:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *         reason:
+ *           type: string
+ *           nullable: true
+ *           example: "Item not as described"
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ *
+ *     CreateEscrowRequest:
+ *       type: object
+ *       description: Send exactly one of `beneficiaryUserId` or `beneficiary`
+ *       required:
+ *         - amount
+ *       properties:
+ *         beneficiaryUserId:
+ *           type: string
+ *           format: uuid
+ *           description: Beneficiary's user ID
+ *           example: "770e8400-e29b-41d4-a716-446655440111"
+ *         beneficiary:
+ *           type: string
+ *           maxLength: 150
+ *           description: Beneficiary's email, phone number or handle (instead of beneficiaryUserId)
+ *           example: "@janedoe"
+ *         amount:
+ *           type: string
+ *           pattern: '^\d{1,14}(\.\d{1,6})?$'
+ *           description: Amount to escrow as a decimal string
+ *           example: "50000.00"
+ *         currency:
+ *           type: string
+ *           enum: [NGN, USD, GHS]
+ *           description: Currency of both wallets (defaults to NGN)
+ *           example: "NGN"
+ *         description:
+ *           type: string
+ *           maxLength: 255
+ *           example: "Used laptop, delivery in Lagos"
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *           description: When an unreleased escrow is refunded (defaults to ESCROW_TIMEOUT_DAYS from now; at most ESCROW_MAX_TIMEOUT_DAYS ahead)
+ *           example: "2024-02-15T09:00:00Z"
+ *         channel:
+ *           type: string
+ *           enum: [api, web, mobile, ussd]
+ *           default: api
+ *           description: Channel the request came through (selects the fee rule)
+ *         metadata:
+ *           type: object
+ *           additionalProperties: true
+ *           example:
+ *             order_id: "ORD-1042"
+ *
+ *     SettleEscrowRequest:
+ *       type: object
+ *       properties:
+ *         reason:
+ *           type: string
+ *           maxLength: 255
+ *           description: Note for the audit trail
+ *           example: "Item received"
+ *
+ *     DisputeEscrowRequest:
+ *       type: object
+ *       required:
+ *         - reason
+ *       properties:
+ *         reason:
+ *           type: string
+ *           maxLength: 255
+ *           example: "Item not as described"
+ *
+ *     ResolveEscrowRequest:
+ *       type: object
+ *       required:
+ *         - outcome
+ *       properties:
+ *         outcome:
+ *           type: string
+ *           enum: [release, refund, split]
+ *         beneficiaryAmount:
+ *           type: string
+ *           pattern: '^\d{1,14}(\.\d{1,6})?$'
+ *           description: Beneficiary's share on a split (required for `split` only); the payer gets the rest
+ *           example: "30000.00"
+ *         reason:
+ *           type: string
+ *           maxLength: 255
+ *           example: "Partial delivery confirmed by both parties"
+ *
+ *     EscrowResponse:
+ *       type: object
+ *       properties:
+ *         success:
+ *           type: boolean
+ *           example: true
+ *         message:
+ *           type: string
+ *           example: "Escrow released successfully"
+ *         data:
+ *           type: object
+ *           properties:
+ *             escrow:
+ *               $ref: '#/components/schemas/Escrow'
+ *
+ *     EscrowDetailsResponse:
+ *       type: object
+ *       properties:
+ *         success:
+ *           type: boolean
+ *           example: true
+ *         data:
+ *           type: object
+ *           properties:
+ *             escrow:
+ *               $ref: '#/components/schemas/Escrow'
+ *             events:
+ *               type: array
+ *               description: Audit trail, oldest first
+ *               items:
+ *                 $ref: '#/components/schemas/EscrowEvent'
+ *
+ *     EscrowListResponse:
+ *       type: object
+ *       properties:
+ *         success:
+ *           type: boolean
+ *           example: true
+ *         data:
+ *           type: object
+ *           properties:
+ *             escrows:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Escrow'
+ *
+ *     CreateEscrowResponse:
+ *       type: object
+ *       properties:
+ *         success:
+ *           type: boolean
+ *           example: true
+ *         message:
+ *           type: string
+ *           example: "Escrow funded successfully"
+ *         data:
+ *           type: object
+ *           properties:
+ *             escrow:
+ *               $ref: '#/components/schemas/Escrow'
+ *             transfer:
+ *               type: object
+ *               description: Funding transfer into escrow
+ *               properties:
+ *                 id:
+ *                   type: string
+ *                   format: uuid
+ *                 reference:
+ *                   type: string
+ *                   example: "ESCROW-9a1c7e52-3b8d-4f0a-8e6c-2d4b5f7a9c10-FUND"
+ *                 amount:
+ *                   type: string
+ *                   example: "50000.000000"
+ *                 currency:
+ *                   type: string
+ *                   example: "NGN"
+ *                 from_balance:
+ *                   type: string
+ *                   description: Payer's balance after the transfer and fee
+ *                   example: "49950.000000"
+ *                 fee:
+ *                   $ref: '#/components/schemas/FeeBreakdown'
+ */
+
+export {};
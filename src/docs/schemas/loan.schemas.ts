@@ -0,0 +1,487 @@
+/**
+ * Loan OpenAPI Schema Definitions
+ *
+ * Schema components for loan products, loan applications and repayment
+ * schedules.
+ *
+ * @module docs/schemas/loan
+ */
+
+/**
+ * @openapi
+ * components:
+ *   schemas:
+ *     LoanProduct:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *           example: "3f6b2c1e-8d4a-4e7b-9c2f-5a1d7e9b0c34"
+ *         name:
+ *           type: string
+ *           example: "Salary Advance"
+ *         description:
+ *           type: string
+ *           nullable: true
+ *           example: "Short-term loan repaid over three months"
+ *         currency:
+ *           type: string
+ *           example: "NGN"
+ *         min_amount:
+ *           type: string
+ *           example: "10000.000000"
+ *         max_amount:
+ *           type: string
+ *           example: "500000.000000"
+ *         tenor_months:
+ *           type: integer
+ *           description: How long the loan runs
+ *           example: 3
+ *         interest_rate_bps:
+ *           type: integer
+ *           description: Annual interest rate in basis points (3000 = 30%)
+ *           example: 3000
+ *         repayment_method:
+ *           type: string
+ *           enum: [flat, reducing_balance]
+ *           description: "`flat` charges interest on the original amount; `reducing_balance` on the principal still owed (level installments)"
+ *           example: "reducing_balance"
+ *         late_penalty_bps:
+ *           type: integer
+ *           description: Daily late penalty in basis points of an overdue installment's unpaid amount
+ *           example: 10
+ *         fee_flat:
+ *           type: string
+ *           description: Flat processing fee, deducted from the amount paid out
+ *           example: "500.000000"
+ *         fee_bps:
+ *           type: integer
+ *           description: Processing fee in basis points of the amount, deducted from the amount paid out
+ *           example: 100
+ *         active:
+ *           type: boolean
+ *           description: Whether new applications are accepted
+ *           example: true
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ *         updated_at:
+ *           type: string
+ *           format: date-time
+ *
+ *     LoanDecisionReason:
+ *       type: object
+ *       description: Outcome of one check, or of an admin decision
+ *       properties:
+ *         code:
+ *           type: string
+ *           description: |
+ *             `KARMA_CLEAR`, `KARMA_LISTED`, `KARMA_UNAVAILABLE`, `NO_OUTSTANDING_LOAN`,
+ *             `OUTSTANDING_LOAN`, `CREDIT_HISTORY`, `THIN_CREDIT_HISTORY`, `SUFFICIENT_INFLOW`,
+ *             `LOW_INFLOW`, `CREDIT_SCORE`, `CREDIT_SCORE_DECLINED`, `CREDIT_SCORE_REFER`,
+ *             `CREDIT_LIMIT_EXCEEDED`, `ADMIN_APPROVED` or `ADMIN_DECLINED`
+ *           example: "LOW_INFLOW"
+ *         outcome:
+ *           type: string
+ *           enum: [pass, fail, refer]
+ *           description: "`fail` declines the application; `refer` sends it to an admin"
+ *           example: "fail"
+ *         message:
+ *           type: string
+ *           example: "25000.000000 received in the last 90 days; at least 50000.000000 needed"
+ *
+ *     LoanApplication:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *           example: "b7e4d2a9-1c3f-4a8e-9d6b-2f5c8a1e7d40"
+ *         user_id:
+ *           type: string
+ *           format: uuid
+ *           example: "550e8400-e29b-41d4-a716-446655440000"
+ *         product_id:
+ *           type: string
+ *           format: uuid
+ *           example: "3f6b2c1e-8d4a-4e7b-9c2f-5a1d7e9b0c34"
+ *         wallet_id:
+ *           type: string
+ *           format: uuid
+ *           description: Wallet the loan is paid into
+ *         amount:
+ *           type: string
+ *           description: Amount borrowed
+ *           example: "50000.000000"
+ *         currency:
+ *           type: string
+ *           example: "NGN"
+ *         fee:
+ *           type: string
+ *           description: Processing fee deducted from the amount paid out
+ *           example: "1000.000000"
+ *         disbursement_amount:
+ *           type: string
+ *           description: Amount paid into the wallet (amount less fee)
+ *           example: "49000.000000"
+ *         tenor_months:
+ *           type: integer
+ *           example: 3
+ *         interest_rate_bps:
+ *           type: integer
+ *           description: Annual interest rate in basis points, fixed when applying
+ *           example: 3000
+ *         repayment_method:
+ *           type: string
+ *           enum: [flat, reducing_balance]
+ *           example: "reducing_balance"
+ *         late_penalty_bps:
+ *           type: integer
+ *           example: 10
+ *         purpose:
+ *           type: string
+ *           nullable: true
+ *           example: "Rent top-up"
+ *         status:
+ *           type: string
+ *           enum: [review, approved, declined, disbursed, repaid]
+ *           description: "`review` waits for an admin; `approved` waits for its payout (see `disbursement_error`); `disbursed` is being repaid"
+ *           example: "disbursed"
+ *         decision_reasons:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/LoanDecisionReason'
+ *         decided_by:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *           description: Admin who decided a referred application (null when decided automatically)
+ *         decided_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         disbursement_transaction_id:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *           description: Credit that paid the loan into the wallet
+ *         disbursement_error:
+ *           type: string
+ *           nullable: true
+ *           description: Why the last payout attempt failed
+ *           example: null
+ *         disbursed_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         repaid_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: When the last installment was paid
+ *         karma_reported_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: When the borrower was reported to Adjutor Karma
+ *         karma_removed_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: When the Karma record was removed after repayment
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ *         updated_at:
+ *           type: string
+ *           format: date-time
+ *
+ *     CreateLoanProductRequest:
+ *       type: object
+ *       required:
+ *         - name
+ *         - currency
+ *         - minAmount
+ *         - maxAmount
+ *         - tenorMonths
+ *         - interestRateBps
+ *       properties:
+ *         name:
+ *           type: string
+ *           maxLength: 100
+ *           example: "Salary Advance"
+ *         description:
+ *           type: string
+ *           maxLength: 255
+ *           example: "Short-term loan repaid over three months"
+ *         currency:
+ *           type: string
+ *           enum: [NGN, USD, GHS]
+ *           example: "NGN"
+ *         minAmount:
+ *           type: string
+ *           pattern: '^\d{1,14}(\.\d{1,6})?$'
+ *           example: "10000.00"
+ *         maxAmount:
+ *           type: string
+ *           pattern: '^\d{1,14}(\.\d{1,6})?$'
+ *           example: "500000.00"
+ *         tenorMonths:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 60
+ *           example: 3
+ *         interestRateBps:
+ *           type: integer
+ *           minimum: 0
+ *           maximum: 100000
+ *           description: Annual interest rate in basis points
+ *           example: 3000
+ *         repaymentMethod:
+ *           type: string
+ *           enum: [flat, reducing_balance]
+ *           default: reducing_balance
+ *         latePenaltyBps:
+ *           type: integer
+ *           minimum: 0
+ *           maximum: 1000
+ *           default: 0
+ *           description: Daily late penalty in basis points of an overdue installment's unpaid amount
+ *           example: 10
+ *         feeFlat:
+ *           type: string
+ *           pattern: '^\d{1,14}(\.\d{1,6})?$'
+ *           description: Flat processing fee (omit for none)
+ *           example: "500.00"
+ *         feeBps:
+ *           type: integer
+ *           minimum: 0
+ *           maximum: 5000
+ *           description: Processing fee in basis points of the amount
+ *           example: 100
+ *         active:
+ *           type: boolean
+ *           default: true
+ *
+ *     UpdateLoanProductRequest:
+ *       type: object
+ *       description: At least one field is required
+ *       properties:
+ *         active:
+ *           type: boolean
+ *           example: false
+ *         description:
+ *           type: string
+ *           maxLength: 255
+ *           nullable: true
+ *
+ *     ApplyForLoanRequest:
+ *       type: object
+ *       required:
+ *         - productId
+ *         - amount
+ *       properties:
+ *         productId:
+ *           type: string
+ *           format: uuid
+ *           example: "3f6b2c1e-8d4a-4e7b-9c2f-5a1d7e9b0c34"
+ *         amount:
+ *           type: string
+ *           pattern: '^\d{1,14}(\.\d{1,6})?$'
+ *           description: Amount to borrow, within the product's range
+ *           example: "50000.00"
+ *         purpose:
+ *           type: string
+ *           maxLength: 255
+ *           example: "Rent top-up"
+ *
+ *     DecideLoanApplicationRequest:
+ *       type: object
+ *       required:
+ *         - decision
+ *         - reason
+ *       properties:
+ *         decision:
+ *           type: string
+ *           enum: [approve, decline]
+ *         reason:
+ *           type: string
+ *           minLength: 3
+ *           maxLength: 255
+ *           example: "Karma checked manually; no record"
+ *
+ *     LoanProductResponse:
+ *       type: object
+ *       properties:
+ *         success:
+ *           type: boolean
+ *           example: true
+ *         message:
+ *           type: string
+ *           example: "Loan product created successfully"
+ *         data:
+ *           type: object
+ *           properties:
+ *             product:
+ *               $ref: '#/components/schemas/LoanProduct'
+ *
+ *     LoanProductListResponse:
+ *       type: object
+ *       properties:
+ *         success:
+ *           type: boolean
+ *           example: true
+ *         data:
+ *           type: object
+ *           properties:
+ *             products:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/LoanProduct'
+ *
+ *     LoanApplicationResponse:
+ *       type: object
+ *       properties:
+ *         success:
+ *           type: boolean
+ *           example: true
+ *         message:
+ *           type: string
+ *           example: "Loan application submitted"
+ *         data:
+ *           type: object
+ *           properties:
+ *             application:
+ *               $ref: '#/components/schemas/LoanApplication'
+ *
+ *     LoanInstallment:
+ *       type: object
+ *       properties:
+ *         sequence:
+ *           type: integer
+ *           example: 1
+ *         due_date:
+ *           type: string
+ *           format: date
+ *           example: "2024-04-01"
+ *         principal:
+ *           type: string
+ *           example: "16256.850000"
+ *         interest:
+ *           type: string
+ *           example: "1250.000000"
+ *         penalty:
+ *           type: string
+ *           description: Late penalties accrued so far
+ *           example: "0.000000"
+ *         amount_due:
+ *           type: string
+ *           description: Principal plus interest plus penalty
+ *           example: "17506.850000"
+ *         paid:
+ *           type: string
+ *           description: Collected so far
+ *           example: "17506.850000"
+ *         outstanding:
+ *           type: string
+ *           example: "0.000000"
+ *         status:
+ *           type: string
+ *           enum: [pending, overdue, paid]
+ *           example: "paid"
+ *         paid_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *
+ *     LoanSchedule:
+ *       type: object
+ *       properties:
+ *         application_id:
+ *           type: string
+ *           format: uuid
+ *         status:
+ *           type: string
+ *           enum: [review, approved, declined, disbursed, repaid]
+ *           example: "disbursed"
+ *         currency:
+ *           type: string
+ *           example: "NGN"
+ *         repayment_method:
+ *           type: string
+ *           enum: [flat, reducing_balance]
+ *         interest_rate_bps:
+ *           type: integer
+ *           example: 3000
+ *         late_penalty_bps:
+ *           type: integer
+ *           example: 10
+ *         total_principal:
+ *           type: string
+ *           example: "50000.000000"
+ *         total_interest:
+ *           type: string
+ *           example: "2520.560000"
+ *         total_penalty:
+ *           type: string
+ *           example: "0.000000"
+ *         total_paid:
+ *           type: string
+ *           example: "17506.850000"
+ *         outstanding:
+ *           type: string
+ *           example: "35013.710000"
+ *         installments:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/LoanInstallment'
+ *
+ *     LoanScheduleResponse:
+ *       type: object
+ *       properties:
+ *         success:
+ *           type: boolean
+ *           example: true
+ *         data:
+ *           type: object
+ *           properties:
+ *             schedule:
+ *               $ref: '#/components/schemas/LoanSchedule'
+ *
+ *     LoanApplicationListResponse:
+ *       type: object
+ *       properties:
+ *         success:
+ *           type: boolean
+ *           example: true
+ *         data:
+ *           type: object
+ *           properties:
+ *             applications:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/LoanApplication'
+ *
+ *     LoanKarmaReportResponse:
+ *       type: object
+ *       properties:
+ *         success:
+ *           type: boolean
+ *           example: true
+ *         message:
+ *           type: string
+ *           example: "Borrower reported to Adjutor Karma"
+ *         data:
+ *           type: object
+ *           properties:
+ *             application:
+ *               $ref: '#/components/schemas/LoanApplication'
+ *             reports:
+ *               type: array
+ *               description: Submissions made by this request
+ *               items:
+ *                 $ref: '#/components/schemas/KarmaReport'
+ */
+
+export {};
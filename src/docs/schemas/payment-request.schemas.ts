@@ -0,0 +1,177 @@
+/**
+ * Payment Request OpenAPI Schema Definitions
+ *
+ * Schema components for request-to-pay between users.
+ *
+ * @module docs/schemas/payment-request
+ */
+
+/**
+ * @openapi
+ * components:
+ *   schemas:
+ *     PaymentRequest:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *           example: "3f2b8c1e-8d4a-4b6f-9c2e-1a7d5e9f0b34"
+ *         requester_user_id:
+ *           type: string
+ *           format: uuid
+ *           description: User asking to be paid
+ *           example: "550e8400-e29b-41d4-a716-446655440000"
+ *         payer_user_id:
+ *           type: string
+ *           format: uuid
+ *           description: User asked to pay
+ *           example: "770e8400-e29b-41d4-a716-446655440111"
+ *         amount:
+ *           type: string
+ *           example: "2500.000000"
+ *         currency:
+ *           type: string
+ *           example: "NGN"
+ *         note:
+ *           type: string
+ *           nullable: true
+ *           example: "Dinner on Friday"
+ *         status:
+ *           type: string
+ *           enum: [pending, paid, declined, expired, cancelled]
+ *           example: "pending"
+ *         expires_at:
+ *           type: string
+ *           format: date-time
+ *           description: Unanswered requests expire at this time
+ *         transfer_id:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *           description: Transfer that paid the request
+ *         responded_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: When the request left pending
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ *         updated_at:
+ *           type: string
+ *           format: date-time
+ *
+ *     CreatePaymentRequestRequest:
+ *       type: object
+ *       description: Send exactly one of `payerUserId` or `payer`
+ *       required:
+ *         - amount
+ *       properties:
+ *         payerUserId:
+ *           type: string
+ *           format: uuid
+ *           description: Payer's user ID
+ *           example: "770e8400-e29b-41d4-a716-446655440111"
+ *         payer:
+ *           type: string
+ *           maxLength: 150
+ *           description: Payer's email, phone number or handle (instead of payerUserId)
+ *           example: "@janedoe"
+ *         amount:
+ *           type: string
+ *           pattern: '^\d{1,14}(\.\d{1,6})?$'
+ *           description: Amount requested as a decimal string
+ *           example: "2500.00"
+ *         currency:
+ *           type: string
+ *           enum: [NGN, USD, GHS]
+ *           description: Currency of both wallets (defaults to NGN)
+ *           example: "NGN"
+ *         note:
+ *           type: string
+ *           maxLength: 255
+ *           description: Message shown to the payer
+ *           example: "Dinner on Friday"
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *           description: When the request lapses (defaults to PAYMENT_REQUEST_EXPIRY_HOURS from now; at most PAYMENT_REQUEST_MAX_EXPIRY_DAYS ahead)
+ *           example: "2024-02-01T09:00:00Z"
+ *
+ *     AcceptPaymentRequestRequest:
+ *       type: object
+ *       properties:
+ *         channel:
+ *           type: string
+ *           enum: [api, web, mobile, ussd]
+ *           default: api
+ *           description: Channel the request came through (selects the fee rule)
+ *
+ *     PaymentRequestResponse:
+ *       type: object
+ *       properties:
+ *         success:
+ *           type: boolean
+ *           example: true
+ *         message:
+ *           type: string
+ *           example: "Payment request sent successfully"
+ *         data:
+ *           type: object
+ *           properties:
+ *             payment_request:
+ *               $ref: '#/components/schemas/PaymentRequest'
+ *
+ *     PaymentRequestListResponse:
+ *       type: object
+ *       properties:
+ *         success:
+ *           type: boolean
+ *           example: true
+ *         data:
+ *           type: object
+ *           properties:
+ *             payment_requests:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/PaymentRequest'
+ *
+ *     AcceptPaymentRequestResponse:
+ *       type: object
+ *       properties:
+ *         success:
+ *           type: boolean
+ *           example: true
+ *         message:
+ *           type: string
+ *           example: "Payment request paid successfully"
+ *         data:
+ *           type: object
+ *           properties:
+ *             payment_request:
+ *               $ref: '#/components/schemas/PaymentRequest'
+ *             transfer:
+ *               type: object
+ *               properties:
+ *                 id:
+ *                   type: string
+ *                   format: uuid
+ *                 reference:
+ *                   type: string
+ *                   example: "PAYREQ-3f2b8c1e-8d4a-4b6f-9c2e-1a7d5e9f0b34"
+ *                 amount:
+ *                   type: string
+ *                   example: "2500.000000"
+ *                 currency:
+ *                   type: string
+ *                   example: "NGN"
+ *                 from_balance:
+ *                   type: string
+ *                   description: Payer's balance after the transfer and fee
+ *                   example: "7490.000000"
+ *                 fee:
+ *                   $ref: '#/components/schemas/FeeBreakdown'
+ */
+
+export {};
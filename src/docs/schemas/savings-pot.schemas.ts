@@ -0,0 +1,182 @@
+/**
+ * Savings Pot OpenAPI Schema Definitions
+ *
+ * Schema components for savings pots (sub-wallets with goals and locks).
+ *
+ * @module docs/schemas/savings-pot
+ */
+
+/**
+ * @openapi
+ * components:
+ *   schemas:
+ *     SavingsPot:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *           example: "3f6b2a1e-8c4d-4e7a-9b1f-5d2c8e4a6b90"
+ *         wallet_id:
+ *           type: string
+ *           format: uuid
+ *           description: Sub-wallet holding the pot's balance
+ *         parent_wallet_id:
+ *           type: string
+ *           format: uuid
+ *           description: Main wallet the pot belongs to
+ *         name:
+ *           type: string
+ *           example: "School fees"
+ *         balance:
+ *           type: string
+ *           example: "120000.000000"
+ *         currency:
+ *           type: string
+ *           example: "NGN"
+ *         target_amount:
+ *           type: string
+ *           nullable: true
+ *           description: Savings goal
+ *           example: "450000.000000"
+ *         locked_until:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: Withdrawals before this time pay the early withdrawal penalty, or are refused when no penalty rule applies
+ *         status:
+ *           type: string
+ *           enum: [active, closed]
+ *           example: "active"
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ *         updated_at:
+ *           type: string
+ *           format: date-time
+ *         closed_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *
+ *     CreateSavingsPotRequest:
+ *       type: object
+ *       required:
+ *         - name
+ *       properties:
+ *         name:
+ *           type: string
+ *           maxLength: 100
+ *           description: Unique among the user's active pots
+ *           example: "School fees"
+ *         currency:
+ *           type: string
+ *           enum: [NGN, USD, GHS]
+ *           description: Currency of the main wallet the pot belongs to (defaults to NGN)
+ *           example: "NGN"
+ *         targetAmount:
+ *           type: string
+ *           pattern: '^\d{1,14}(\.\d{1,6})?$'
+ *           description: Savings goal as a decimal string
+ *           example: "450000.00"
+ *         lockedUntil:
+ *           type: string
+ *           format: date-time
+ *           description: Lock the pot until this (future) time
+ *           example: "2024-09-01T00:00:00Z"
+ *
+ *     SavingsPotDepositRequest:
+ *       type: object
+ *       required:
+ *         - amount
+ *       properties:
+ *         amount:
+ *           type: string
+ *           pattern: '^\d{1,14}(\.\d{1,6})?$'
+ *           description: Amount to move from the main wallet as a decimal string
+ *           example: "20000.00"
+ *
+ *     SavingsPotWithdrawRequest:
+ *       type: object
+ *       required:
+ *         - amount
+ *       properties:
+ *         amount:
+ *           type: string
+ *           pattern: '^\d{1,14}(\.\d{1,6})?$'
+ *           description: Amount to return to the main wallet as a decimal string
+ *           example: "20000.00"
+ *         channel:
+ *           type: string
+ *           enum: [api, web, mobile, ussd]
+ *           default: api
+ *           description: Channel the request came through (selects the early withdrawal penalty rule)
+ *
+ *     SavingsPotResponse:
+ *       type: object
+ *       properties:
+ *         success:
+ *           type: boolean
+ *           example: true
+ *         message:
+ *           type: string
+ *           example: "Savings pot created successfully"
+ *         data:
+ *           type: object
+ *           properties:
+ *             pot:
+ *               $ref: '#/components/schemas/SavingsPot'
+ *
+ *     SavingsPotListResponse:
+ *       type: object
+ *       properties:
+ *         success:
+ *           type: boolean
+ *           example: true
+ *         data:
+ *           type: object
+ *           properties:
+ *             pots:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/SavingsPot'
+ *
+ *     SavingsPotMoveResponse:
+ *       type: object
+ *       properties:
+ *         success:
+ *           type: boolean
+ *           example: true
+ *         message:
+ *           type: string
+ *           example: "Savings pot funded successfully"
+ *         data:
+ *           type: object
+ *           properties:
+ *             pot:
+ *               $ref: '#/components/schemas/SavingsPot'
+ *             transfer:
+ *               type: object
+ *               description: Internal transfer between the main wallet and the pot
+ *               properties:
+ *                 id:
+ *                   type: string
+ *                   format: uuid
+ *                 reference:
+ *                   type: string
+ *                   example: "POT-550e8400-1699564800000-A1B2C3D4"
+ *                 amount:
+ *                   type: string
+ *                   example: "20000.000000"
+ *             wallet_balance:
+ *               type: string
+ *               description: Main wallet balance after the move
+ *               example: "80000.000000"
+ *             penalty:
+ *               nullable: true
+ *               description: Early withdrawal penalty, paid from the pot (withdrawals from a locked pot only)
+ *               allOf:
+ *                 - $ref: '#/components/schemas/FeeBreakdown'
+ */
+
+export {};
@@ -2,7 +2,7 @@
  * User OpenAPI Schema Definitions
  * 
  * Schema components for user-related endpoints including
- * user objects and user retrieval responses.
+ * user objects, user retrieval and handle responses.
  * 
  * @module docs/schemas/user
  */
@@ -39,6 +39,11 @@
  *           type: string
  *           description: User's phone number in international format
  *           example: "+2348012345678"
+ *         handle:
+ *           type: string
+ *           nullable: true
+ *           description: Handle other users can send transfers to (as @handle), stored lowercase without the @
+ *           example: "johndoe"
  *         createdAt:
  *           type: string
  *           format: date-time
@@ -90,6 +95,39 @@
  *           type: string
  *           example: "User not found"
  *       description: Response when requested user does not exist
+ * 
+ *     SetHandleRequest:
+ *       type: object
+ *       required:
+ *         - handle
+ *       properties:
+ *         handle:
+ *           type: string
+ *           pattern: '^@?[A-Za-z][A-Za-z0-9_]{2,29}$'
+ *           description: 3-30 characters, a letter followed by letters, digits or underscores (case-insensitive; a leading @ is ignored)
+ *           example: "@JohnDoe"
+ * 
+ *     SetHandleResponse:
+ *       type: object
+ *       properties:
+ *         success:
+ *           type: boolean
+ *           example: true
+ *         message:
+ *           type: string
+ *           example: "Handle updated successfully"
+ *         data:
+ *           type: object
+ *           properties:
+ *             user:
+ *               type: object
+ *               properties:
+ *                 id:
+ *                   type: string
+ *                   format: uuid
+ *                 handle:
+ *                   type: string
+ *                   example: "johndoe"
  */
 
 export {};
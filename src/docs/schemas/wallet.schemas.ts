@@ -2,7 +2,8 @@
  * Wallet OpenAPI Schema Definitions
  * 
  * Schema components for wallet operations including fund, withdraw,
- * transfer, balance retrieval, and transaction objects.
+ * transfer, balance retrieval, transaction history, holds, multi-currency
+ * wallet listing, FX conversion, and transaction objects.
  * 
  * @module docs/schemas/wallet
  */
@@ -57,11 +58,10 @@
  *         - amount
  *       properties:
  *         amount:
- *           type: number
- *           format: double
- *           minimum: 0.01
- *           description: Amount to fund (must be positive)
- *           example: 500.00
+ *           type: string
+ *           pattern: '^\d{1,14}(\.\d{1,6})?$'
+ *           description: Amount to fund as a decimal string (must be positive; at most 2 decimal places for NGN)
+ *           example: "500.00"
  *         metadata:
  *           type: object
  *           additionalProperties: true
@@ -69,6 +69,15 @@
  *           example:
  *             source: "bank_transfer"
  *             description: "Salary payment"
+ *         walletId:
+ *           type: string
+ *           format: uuid
+ *           description: Wallet to use (takes precedence over currency)
+ *         currency:
+ *           type: string
+ *           enum: [NGN, USD, GHS]
+ *           description: Currency of the wallet to use (defaults to NGN)
+ *           example: "NGN"
  *       description: Request payload for funding a wallet. Reference is auto-generated by the server.
  * 
  *     WithdrawWalletRequest:
@@ -77,11 +86,10 @@
  *         - amount
  *       properties:
  *         amount:
- *           type: number
- *           format: double
- *           minimum: 0.01
- *           description: Amount to withdraw (must be positive and not exceed balance)
- *           example: 200.00
+ *           type: string
+ *           pattern: '^\d{1,14}(\.\d{1,6})?$'
+ *           description: Amount to withdraw as a decimal string (must be positive and not exceed balance; at most 2 decimal places for NGN)
+ *           example: "200.00"
  *         metadata:
  *           type: object
  *           additionalProperties: true
@@ -89,13 +97,26 @@
  *           example:
  *             destination: "bank_account"
  *             accountNumber: "0123456789"
+ *         walletId:
+ *           type: string
+ *           format: uuid
+ *           description: Wallet to use (takes precedence over currency)
+ *         currency:
+ *           type: string
+ *           enum: [NGN, USD, GHS]
+ *           description: Currency of the wallet to use (defaults to NGN)
+ *           example: "NGN"
+ *         channel:
+ *           type: string
+ *           enum: [api, web, mobile, ussd]
+ *           default: api
+ *           description: Channel the request came through (selects the fee rule)
  *       description: Request payload for withdrawing from a wallet. Reference is auto-generated by the server.
  * 
  *     TransferRequest:
  *       type: object
  *       required:
  *         - fromUserId
- *         - toUserId
  *         - amount
  *       properties:
  *         fromUserId:
@@ -108,12 +129,16 @@
  *           format: uuid
  *           description: Recipient's user ID (must be different from sender)
  *           example: "770e8400-e29b-41d4-a716-446655440111"
+ *         recipient:
+ *           type: string
+ *           maxLength: 150
+ *           description: Recipient's email, phone number or handle (instead of toUserId)
+ *           example: "@janedoe"
  *         amount:
- *           type: number
- *           format: double
- *           minimum: 0.01
- *           description: Amount to transfer (must be positive and not exceed sender's balance)
- *           example: 300.00
+ *           type: string
+ *           pattern: '^\d{1,14}(\.\d{1,6})?$'
+ *           description: Amount to transfer as a decimal string (must be positive and not exceed sender's balance; at most 2 decimal places for NGN)
+ *           example: "300.00"
  *         metadata:
  *           type: object
  *           additionalProperties: true
@@ -121,7 +146,25 @@
  *           example:
  *             reason: "payment"
  *             description: "Invoice #12345"
- *       description: Request payload for transferring funds between wallets. Reference is auto-generated by the server.
+ *         currency:
+ *           type: string
+ *           enum: [NGN, USD, GHS]
+ *           description: Currency of both wallets (defaults to NGN). Cross-currency transfers are rejected.
+ *           example: "NGN"
+ *         fromWalletId:
+ *           type: string
+ *           format: uuid
+ *           description: Sender wallet (its currency is used when currency is omitted)
+ *         toWalletId:
+ *           type: string
+ *           format: uuid
+ *           description: Recipient wallet (must be in the same currency as the sender wallet)
+ *         channel:
+ *           type: string
+ *           enum: [api, web, mobile, ussd]
+ *           default: api
+ *           description: Channel the request came through (selects the fee rule)
+ *       description: Request payload for transferring funds between wallets. Send exactly one of `toUserId` or `recipient`. Reference is auto-generated by the server.
  * 
  *     Transaction:
  *       type: object
@@ -285,6 +328,8 @@
  *               $ref: '#/components/schemas/Transaction'
  *             wallet:
  *               $ref: '#/components/schemas/Wallet'
+ *             fee:
+ *               $ref: '#/components/schemas/FeeCharge'
  *       description: Successful withdrawal response
  * 
  *     TransferResponse:
@@ -313,29 +358,336 @@
  *               $ref: '#/components/schemas/Wallet'
  *             toWallet:
  *               $ref: '#/components/schemas/Wallet'
+ *             fee:
+ *               $ref: '#/components/schemas/FeeCharge'
  *       description: Successful transfer response
  * 
  *     GetBalanceResponse:
  *       type: object
  *       required:
  *         - success
- *         - message
  *         - data
  *       properties:
  *         success:
  *           type: boolean
  *           example: true
+ *         data:
+ *           type: object
+ *           properties:
+ *             balance:
+ *               type: string
+ *               description: Ledger balance (includes held funds)
+ *               example: "1500.500000"
+ *             available_balance:
+ *               type: string
+ *               description: Balance that can be withdrawn, transferred or held
+ *               example: "1300.500000"
+ *             held_balance:
+ *               type: string
+ *               description: Sum of active holds
+ *               example: "200.000000"
+ *             pots_balance:
+ *               type: string
+ *               description: Combined balance of the wallet's savings pots
+ *               example: "5000.000000"
+ *             total_balance:
+ *               type: string
+ *               description: Main balance plus savings pots
+ *               example: "6500.500000"
+ *             currency:
+ *               type: string
+ *               example: "NGN"
+ *             status:
+ *               type: string
+ *               enum: [active, frozen, post_no_debit, closed]
+ *               example: "active"
+ *             wallet_id:
+ *               type: string
+ *               format: uuid
+ *               example: "660f9510-f39c-52e5-b827-557766551111"
+ *       description: Successful balance retrieval response
+ * 
+ *     TransactionHistoryItem:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *           example: "880e8400-e29b-41d4-a716-446655440222"
+ *         type:
+ *           type: string
+ *           enum: [credit, debit, transfer-in, transfer-out, reversal, conversion-out, conversion-in, fee, fee-income]
+ *           example: "credit"
+ *         amount:
+ *           type: string
+ *           example: "500.000000"
+ *         balance_after:
+ *           type: string
+ *           example: "1500.000000"
+ *         reference:
+ *           type: string
+ *           example: "FUND-550e8400-1705315200000-A1B2C3D4"
+ *         metadata:
+ *           type: object
+ *           nullable: true
+ *           example:
+ *             source: "bank_transfer"
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ *           example: "2024-01-15T10:30:00.000Z"
+ *       description: Single entry in a wallet's transaction history
+ * 
+ *     TransactionHistoryResponse:
+ *       type: object
+ *       required:
+ *         - success
+ *         - data
+ *       properties:
+ *         success:
+ *           type: boolean
+ *           example: true
+ *         data:
+ *           type: object
+ *           properties:
+ *             transactions:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/TransactionHistoryItem'
+ *             pagination:
+ *               type: object
+ *               properties:
+ *                 next_cursor:
+ *                   type: string
+ *                   nullable: true
+ *                   description: Pass as `cursor` to fetch the next page; null on the last page
+ *                   example: "eyJjIjoiMjAyNC0wMS0xNVQxMDozMDowMC4wMDBaIiwiaSI6Ijg4MGU4NDAwIn0"
+ *                 has_more:
+ *                   type: boolean
+ *                   example: true
+ *       description: Cursor-paginated transaction history
+ * 
+ *     FeeBreakdown:
+ *       type: object
+ *       properties:
+ *         amount:
+ *           type: string
+ *           description: Fee charged on top of the amount
+ *           example: "25.000000"
+ *         total_debit:
+ *           type: string
+ *           description: Amount plus fee (what the payer is debited)
+ *           example: "5025.000000"
+ *         rule_id:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *           description: Fee rule that priced the fee (null when no rule applies)
+ *         fee_type:
+ *           type: string
+ *           enum: [flat, percentage, tiered]
+ *           nullable: true
+ *         channel:
+ *           type: string
+ *           enum: [api, web, mobile, ussd]
+ *         tier:
+ *           type: string
+ *           enum: [tier_1, tier_2, tier_3]
+ *           description: Payer's user tier
+ *         breakdown:
+ *           type: object
+ *           properties:
+ *             flat:
+ *               type: string
+ *               example: "10.000000"
+ *             percentage:
+ *               type: string
+ *               example: "15.000000"
+ *             percentage_bps:
+ *               type: integer
+ *               nullable: true
+ *               example: 30
+ *             band:
+ *               type: object
+ *               nullable: true
+ *               description: Band used by a tiered rule
+ *               properties:
+ *                 up_to:
+ *                   type: string
+ *                   nullable: true
+ *                 flat_fee:
+ *                   type: string
+ *                 bps:
+ *                   type: integer
+ *             adjustment:
+ *               type: string
+ *               enum: [min, max]
+ *               nullable: true
+ *               description: Whether the rule's minimum or maximum fee changed the result
+ * 
+ *     FeeCharge:
+ *       allOf:
+ *         - $ref: '#/components/schemas/FeeBreakdown'
+ *         - type: object
+ *           properties:
+ *             transaction_id:
+ *               type: string
+ *               format: uuid
+ *               nullable: true
+ *               description: The payer's `fee` transaction (null when no fee was charged)
+ * 
+ *     SimulateFeeRequest:
+ *       type: object
+ *       required:
+ *         - userId
+ *         - operation
+ *         - amount
+ *       properties:
+ *         userId:
+ *           type: string
+ *           format: uuid
+ *           description: User who would pay the fee (must match authenticated user)
+ *         operation:
+ *           type: string
+ *           enum: [withdraw, transfer, pot_early_withdrawal]
+ *         amount:
+ *           type: string
+ *           pattern: '^\d{1,14}(\.\d{1,6})?$'
+ *           example: "5000.00"
+ *         currency:
+ *           type: string
+ *           enum: [NGN, USD, GHS]
+ *           description: Currency of the amount (defaults to NGN)
+ *         channel:
+ *           type: string
+ *           enum: [api, web, mobile, ussd]
+ *           default: api
+ *           description: Channel the operation would come through
+ * 
+ *     SimulateFeeResponse:
+ *       type: object
+ *       properties:
+ *         success:
+ *           type: boolean
+ *           example: true
  *         message:
  *           type: string
- *           example: "Balance retrieved successfully"
+ *           example: "Fee calculated successfully"
  *         data:
  *           type: object
- *           required:
- *             - wallet
  *           properties:
- *             wallet:
- *               $ref: '#/components/schemas/Wallet'
- *       description: Successful balance retrieval response
+ *             operation:
+ *               type: string
+ *               example: "withdraw"
+ *             currency:
+ *               type: string
+ *               example: "NGN"
+ *             amount:
+ *               type: string
+ *               example: "5000.000000"
+ *             fee:
+ *               $ref: '#/components/schemas/FeeBreakdown'
+ * 
+ *     LimitUsageResponse:
+ *       type: object
+ *       properties:
+ *         success:
+ *           type: boolean
+ *           example: true
+ *         data:
+ *           type: object
+ *           properties:
+ *             tier:
+ *               type: string
+ *               enum: [tier_1, tier_2, tier_3]
+ *             currency:
+ *               type: string
+ *               example: "NGN"
+ *             limits:
+ *               type: object
+ *               description: Limits of the user's tier (null = unlimited)
+ *               properties:
+ *                 max_single:
+ *                   type: string
+ *                   nullable: true
+ *                   example: "50000.000000"
+ *                 daily:
+ *                   type: string
+ *                   nullable: true
+ *                   example: "50000.000000"
+ *                 monthly:
+ *                   type: string
+ *                   nullable: true
+ *                   example: "300000.000000"
+ *                 max_balance:
+ *                   type: string
+ *                   nullable: true
+ *                   example: "300000.000000"
+ *             used:
+ *               type: object
+ *               properties:
+ *                 daily:
+ *                   type: string
+ *                   example: "12000.000000"
+ *                 monthly:
+ *                   type: string
+ *                   example: "80000.000000"
+ *                 balance:
+ *                   type: string
+ *                   example: "25000.000000"
+ *             remaining:
+ *               type: object
+ *               properties:
+ *                 daily:
+ *                   type: string
+ *                   nullable: true
+ *                   example: "38000.000000"
+ *                 monthly:
+ *                   type: string
+ *                   nullable: true
+ *                   example: "220000.000000"
+ * 
+ *     LimitExceededResponse:
+ *       type: object
+ *       required:
+ *         - success
+ *         - error
+ *         - message
+ *         - limit
+ *       properties:
+ *         success:
+ *           type: boolean
+ *           example: false
+ *         error:
+ *           type: string
+ *           example: "Forbidden"
+ *         message:
+ *           type: string
+ *           example: "Amount exceeds the tier_1 daily limit of 50000.00 NGN (already used: 45000.00)"
+ *         limit:
+ *           type: object
+ *           properties:
+ *             limit:
+ *               type: string
+ *               enum: [max_single, daily, monthly, max_balance]
+ *               example: "daily"
+ *             tier:
+ *               type: string
+ *               example: "tier_1"
+ *             currency:
+ *               type: string
+ *               example: "NGN"
+ *             max:
+ *               type: string
+ *               example: "50000.000000"
+ *             used:
+ *               type: string
+ *               description: Usage so far in the period, or the current balance (omitted for a transfer recipient)
+ *               example: "45000.000000"
+ *             requested:
+ *               type: string
+ *               example: "10000.000000"
+ *       description: Response when an operation would exceed a tier limit (403 for max_single/daily/monthly, 422 for max_balance)
  * 
  *     InsufficientBalanceResponse:
  *       type: object
@@ -387,6 +739,829 @@
  *               type: string
  *               example: "FUND-20240115-123456"
  *       description: Response when trying to reuse a transaction reference (idempotency check)
+ * 
+ *     WalletHold:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *           example: "990e8400-e29b-41d4-a716-446655440333"
+ *         wallet_id:
+ *           type: string
+ *           format: uuid
+ *           example: "660f9510-f39c-52e5-b827-557766551111"
+ *         reference:
+ *           type: string
+ *           example: "HOLD-550e8400-1699564800000-A1B2C3D4"
+ *         amount:
+ *           type: string
+ *           example: "200.000000"
+ *         captured_amount:
+ *           type: string
+ *           nullable: true
+ *           example: null
+ *         status:
+ *           type: string
+ *           enum: [active, captured, released, expired]
+ *           example: "active"
+ *         capture_transaction_id:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *           example: null
+ *         expires_at:
+ *           type: string
+ *           format: date-time
+ *           example: "2024-01-22T10:30:00.000Z"
+ *         metadata:
+ *           type: object
+ *           nullable: true
+ *           additionalProperties: true
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ *         updated_at:
+ *           type: string
+ *           format: date-time
+ *       description: Funds reserved on a wallet without being moved
+ * 
+ *     CreateHoldRequest:
+ *       type: object
+ *       required:
+ *         - amount
+ *       properties:
+ *         amount:
+ *           type: string
+ *           description: Amount to reserve as a decimal string
+ *           example: "200.00"
+ *         expiresInSeconds:
+ *           type: integer
+ *           minimum: 60
+ *           maximum: 2592000
+ *           description: Seconds until the hold lapses (defaults to HOLD_DEFAULT_TTL_MINUTES)
+ *           example: 3600
+ *         metadata:
+ *           type: object
+ *           additionalProperties: true
+ *           example:
+ *             merchant: "ACME Stores"
+ *         walletId:
+ *           type: string
+ *           format: uuid
+ *           description: Wallet to use (takes precedence over currency)
+ *         currency:
+ *           type: string
+ *           enum: [NGN, USD, GHS]
+ *           description: Currency of the wallet to use (defaults to NGN)
+ *           example: "NGN"
+ * 
+ *     CaptureHoldRequest:
+ *       type: object
+ *       properties:
+ *         amount:
+ *           type: string
+ *           description: Amount to capture (defaults to the full hold; the remainder is released)
+ *           example: "150.00"
+ * 
+ *     HoldResponse:
+ *       type: object
+ *       properties:
+ *         success:
+ *           type: boolean
+ *           example: true
+ *         message:
+ *           type: string
+ *           example: "Hold placed successfully"
+ *         data:
+ *           type: object
+ *           properties:
+ *             hold:
+ *               $ref: '#/components/schemas/WalletHold'
+ *             balance:
+ *               type: string
+ *               example: "1500.500000"
+ *             available_balance:
+ *               type: string
+ *               example: "1300.500000"
+ *             held_balance:
+ *               type: string
+ *               example: "200.000000"
+ *             currency:
+ *               type: string
+ *               example: "NGN"
+ *             transaction:
+ *               type: object
+ *               description: Debit transaction (capture only)
+ *               properties:
+ *                 id:
+ *                   type: string
+ *                   format: uuid
+ *                 type:
+ *                   type: string
+ *                   example: "debit"
+ *                 amount:
+ *                   type: string
+ *                   example: "150.000000"
+ *                 balance_after:
+ *                   type: string
+ *                   example: "1350.500000"
+ *                 reference:
+ *                   type: string
+ *                   example: "HOLD-550e8400-1699564800000-A1B2C3D4-CAPTURE"
+ *                 created_at:
+ *                   type: string
+ *                   format: date-time
+ *             fee:
+ *               description: Withdrawal fee charged on the capture (capture only)
+ *               allOf:
+ *                 - $ref: '#/components/schemas/FeeCharge'
+ * 
+ *     HoldListResponse:
+ *       type: object
+ *       properties:
+ *         success:
+ *           type: boolean
+ *           example: true
+ *         data:
+ *           type: object
+ *           properties:
+ *             holds:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/WalletHold'
+ * 
+ *     WalletSummary:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         currency:
+ *           type: string
+ *           example: "USD"
+ *         balance:
+ *           type: string
+ *           example: "250.000000"
+ *         available_balance:
+ *           type: string
+ *           example: "250.000000"
+ *         held_balance:
+ *           type: string
+ *           example: "0.000000"
+ *         status:
+ *           type: string
+ *           enum: [active, frozen, post_no_debit, closed]
+ *           description: Frozen and closed wallets take no money in or out; post_no_debit wallets take credits only
+ *           example: "active"
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ *       description: One of a user's wallets (one per currency)
+ * 
+ *     WalletListResponse:
+ *       type: object
+ *       properties:
+ *         success:
+ *           type: boolean
+ *           example: true
+ *         data:
+ *           type: object
+ *           properties:
+ *             wallets:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/WalletSummary'
+ * 
+ *     OpenWalletRequest:
+ *       type: object
+ *       required:
+ *         - currency
+ *       properties:
+ *         currency:
+ *           type: string
+ *           enum: [NGN, USD, GHS]
+ *           description: Currency of the new wallet
+ *           example: "USD"
+ * 
+ *     OpenWalletResponse:
+ *       type: object
+ *       properties:
+ *         success:
+ *           type: boolean
+ *           example: true
+ *         message:
+ *           type: string
+ *           example: "Wallet opened successfully"
+ *         data:
+ *           type: object
+ *           properties:
+ *             wallet:
+ *               $ref: '#/components/schemas/WalletSummary'
+ * 
+ *     CreateFxQuoteRequest:
+ *       type: object
+ *       required:
+ *         - userId
+ *         - fromCurrency
+ *         - toCurrency
+ *         - amount
+ *       properties:
+ *         userId:
+ *           type: string
+ *           format: uuid
+ *           description: Wallet owner (must match authenticated user)
+ *         fromCurrency:
+ *           type: string
+ *           enum: [NGN, USD, GHS]
+ *           example: "USD"
+ *         toCurrency:
+ *           type: string
+ *           enum: [NGN, USD, GHS]
+ *           example: "NGN"
+ *         amount:
+ *           type: string
+ *           description: Amount of fromCurrency to convert
+ *           example: "100.00"
+ * 
+ *     FxQuote:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         from_currency:
+ *           type: string
+ *           example: "USD"
+ *         to_currency:
+ *           type: string
+ *           example: "NGN"
+ *         amount:
+ *           type: string
+ *           description: Amount converted (source currency)
+ *           example: "100.000000"
+ *         fee:
+ *           type: string
+ *           description: Conversion fee charged on top of amount (source currency)
+ *           example: "0.000000"
+ *         rate:
+ *           type: string
+ *           description: Customer rate (mid rate less spread)
+ *           example: "1492.500000000000"
+ *         mid_rate:
+ *           type: string
+ *           example: "1500.000000"
+ *         spread_bps:
+ *           type: integer
+ *           example: 50
+ *         spread:
+ *           type: string
+ *           description: Cost of the spread in the target currency
+ *           example: "750.000000"
+ *         converted_amount:
+ *           type: string
+ *           description: Amount credited to the target wallet
+ *           example: "149250.000000"
+ *         status:
+ *           type: string
+ *           enum: [open, executed]
+ *         reference:
+ *           type: string
+ *           nullable: true
+ *           description: Conversion reference (set once executed)
+ *         expires_at:
+ *           type: string
+ *           format: date-time
+ *         executed_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ * 
+ *     FxQuoteResponse:
+ *       type: object
+ *       properties:
+ *         success:
+ *           type: boolean
+ *           example: true
+ *         message:
+ *           type: string
+ *           example: "Quote created successfully"
+ *         data:
+ *           type: object
+ *           properties:
+ *             quote:
+ *               $ref: '#/components/schemas/FxQuote'
+ * 
+ *     ConvertRequest:
+ *       type: object
+ *       required:
+ *         - userId
+ *         - quoteId
+ *       properties:
+ *         userId:
+ *           type: string
+ *           format: uuid
+ *           description: Wallet owner (must match authenticated user)
+ *         quoteId:
+ *           type: string
+ *           format: uuid
+ *           description: Open quote to execute
+ *         metadata:
+ *           type: object
+ *           additionalProperties: true
+ * 
+ *     ConvertResponse:
+ *       type: object
+ *       properties:
+ *         success:
+ *           type: boolean
+ *           example: true
+ *         message:
+ *           type: string
+ *           example: "Conversion completed successfully"
+ *         data:
+ *           type: object
+ *           properties:
+ *             reference:
+ *               type: string
+ *               example: "FX-550e8400-1705315200000-A1B2C3D4"
+ *             quote:
+ *               $ref: '#/components/schemas/FxQuote'
+ *             from_wallet:
+ *               $ref: '#/components/schemas/ConvertWalletBalance'
+ *             to_wallet:
+ *               $ref: '#/components/schemas/ConvertWalletBalance'
+ *             transactions:
+ *               type: array
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   id:
+ *                     type: string
+ *                   wallet_id:
+ *                     type: string
+ *                   type:
+ *                     type: string
+ *                     enum: [conversion-out, fee, conversion-in]
+ *                   amount:
+ *                     type: string
+ *                   balance_after:
+ *                     type: string
+ *                   reference:
+ *                     type: string
+ * 
+ *     ConvertWalletBalance:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         currency:
+ *           type: string
+ *         balance:
+ *           type: string
+ * 
+ *     ScheduledTransfer:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *           example: "aa0e8400-e29b-41d4-a716-446655440444"
+ *         recipient_user_id:
+ *           type: string
+ *           format: uuid
+ *           example: "770e8400-e29b-41d4-a716-446655440002"
+ *         amount:
+ *           type: string
+ *           example: "50000.000000"
+ *         currency:
+ *           type: string
+ *           example: "NGN"
+ *         channel:
+ *           type: string
+ *           example: "api"
+ *         recurrence:
+ *           type: string
+ *           nullable: true
+ *           description: RRULE subset; null for a one-off transfer
+ *           example: "FREQ=MONTHLY;BYMONTHDAY=1"
+ *         start_at:
+ *           type: string
+ *           format: date-time
+ *           example: "2024-02-01T09:00:00.000Z"
+ *         end_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         max_runs:
+ *           type: integer
+ *           nullable: true
+ *           example: 12
+ *         status:
+ *           type: string
+ *           enum: [active, paused, completed, cancelled, failed]
+ *           example: "active"
+ *         next_run_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: Next occurrence (null once the schedule has ended)
+ *           example: "2024-02-01T09:00:00.000Z"
+ *         retry_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: When a failed occurrence will be attempted again
+ *         run_count:
+ *           type: integer
+ *           description: Occurrences settled (succeeded or finally failed)
+ *           example: 0
+ *         last_run_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         last_error:
+ *           type: string
+ *           nullable: true
+ *           example: null
+ *         metadata:
+ *           type: object
+ *           nullable: true
+ *           additionalProperties: true
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ *         updated_at:
+ *           type: string
+ *           format: date-time
+ *       description: A one-off or recurring transfer executed by the server
+ * 
+ *     ScheduledTransferRun:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         occurrence:
+ *           type: integer
+ *           example: 1
+ *         attempt:
+ *           type: integer
+ *           example: 1
+ *         scheduled_for:
+ *           type: string
+ *           format: date-time
+ *         status:
+ *           type: string
+ *           enum: [succeeded, failed]
+ *           example: "failed"
+ *         reference:
+ *           type: string
+ *           description: Transfer reference, the same for every attempt of an occurrence
+ *           example: "SCHED-aa0e8400-e29b-41d4-a716-446655440444-1"
+ *         transfer_id:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *         error:
+ *           type: string
+ *           nullable: true
+ *           example: "Insufficient funds. Available: 1000.000000, Required: 50000.000000"
+ *         retry_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: When the occurrence will be retried (null = not retried)
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ *       description: One execution attempt of a scheduled transfer
+ * 
+ *     CreateScheduledTransferRequest:
+ *       type: object
+ *       required:
+ *         - recipientUserId
+ *         - amount
+ *         - startAt
+ *       properties:
+ *         recipientUserId:
+ *           type: string
+ *           format: uuid
+ *           example: "770e8400-e29b-41d4-a716-446655440002"
+ *         amount:
+ *           type: string
+ *           description: Amount sent on each run as a decimal string
+ *           example: "50000.00"
+ *         currency:
+ *           type: string
+ *           enum: [NGN, USD, GHS]
+ *           description: Currency of both wallets (defaults to NGN)
+ *           example: "NGN"
+ *         startAt:
+ *           type: string
+ *           format: date-time
+ *           description: First (or only) run; must be in the future
+ *           example: "2024-02-01T09:00:00Z"
+ *         recurrence:
+ *           type: string
+ *           description: |
+ *             RRULE subset: FREQ=DAILY|WEEKLY|MONTHLY with optional INTERVAL,
+ *             BYDAY (weekly) and BYMONTHDAY (monthly). Omit for a one-off transfer.
+ *           example: "FREQ=MONTHLY;BYMONTHDAY=1"
+ *         endAt:
+ *           type: string
+ *           format: date-time
+ *           description: No runs after this time (recurring only)
+ *         maxRuns:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 10000
+ *           description: Maximum number of runs (recurring only)
+ *           example: 12
+ *         channel:
+ *           type: string
+ *           enum: [api, web, mobile, ussd]
+ *           description: Channel used to price the transfer fee (defaults to api)
+ *         metadata:
+ *           type: object
+ *           additionalProperties: true
+ *           description: Copied onto every transfer
+ *           example:
+ *             description: "Rent"
+ * 
+ *     ScheduledTransferResponse:
+ *       type: object
+ *       properties:
+ *         success:
+ *           type: boolean
+ *           example: true
+ *         message:
+ *           type: string
+ *           example: "Transfer scheduled successfully"
+ *         data:
+ *           type: object
+ *           properties:
+ *             scheduled_transfer:
+ *               $ref: '#/components/schemas/ScheduledTransfer'
+ *             runs:
+ *               type: array
+ *               description: Execution history, latest attempt first (get only)
+ *               items:
+ *                 $ref: '#/components/schemas/ScheduledTransferRun'
+ * 
+ *     ScheduledTransferListResponse:
+ *       type: object
+ *       properties:
+ *         success:
+ *           type: boolean
+ *           example: true
+ *         data:
+ *           type: object
+ *           properties:
+ *             scheduled_transfers:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/ScheduledTransfer'
+ * 
+ *     PayoutBatch:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *           example: "7c9e6679-7425-40de-944b-e07fc1f90ae7"
+ *         wallet_id:
+ *           type: string
+ *           format: uuid
+ *         currency:
+ *           type: string
+ *           example: "NGN"
+ *         channel:
+ *           type: string
+ *           example: "api"
+ *         mode:
+ *           type: string
+ *           enum: [all_or_nothing, best_effort]
+ *           example: "best_effort"
+ *         status:
+ *           type: string
+ *           enum: [processing, completed, partially_completed, failed]
+ *           example: "partially_completed"
+ *         item_count:
+ *           type: integer
+ *           example: 3
+ *         total_amount:
+ *           type: string
+ *           description: Sum of row amounts
+ *           example: "7500.000000"
+ *         succeeded_count:
+ *           type: integer
+ *           example: 2
+ *         failed_count:
+ *           type: integer
+ *           description: Rows not paid (failed or skipped)
+ *           example: 1
+ *         paid_amount:
+ *           type: string
+ *           example: "5000.000000"
+ *         total_fee:
+ *           type: string
+ *           example: "20.000000"
+ *         error:
+ *           type: string
+ *           nullable: true
+ *           description: Why an all-or-nothing batch was rolled back
+ *           example: null
+ *         metadata:
+ *           type: object
+ *           nullable: true
+ *           additionalProperties: true
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ *         completed_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *       description: Summary of a bulk payout
+ * 
+ *     PayoutItem:
+ *       type: object
+ *       properties:
+ *         row:
+ *           type: integer
+ *           description: 1-based position in the upload (CSV rows are counted after the header)
+ *           example: 1
+ *         recipient_user_id:
+ *           type: string
+ *           format: uuid
+ *         amount:
+ *           type: string
+ *           example: "2500.000000"
+ *         narration:
+ *           type: string
+ *           nullable: true
+ *           example: "March salary"
+ *         status:
+ *           type: string
+ *           enum: [pending, succeeded, failed, skipped]
+ *           example: "succeeded"
+ *         fee:
+ *           type: string
+ *           nullable: true
+ *           example: "10.000000"
+ *         reference:
+ *           type: string
+ *           example: "PAYOUT-7c9e6679-7425-40de-944b-e07fc1f90ae7-1"
+ *         transfer_id:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *         error:
+ *           type: string
+ *           nullable: true
+ *           example: null
+ *       description: One row of a bulk payout
+ * 
+ *     CreatePayoutRequest:
+ *       type: object
+ *       description: Send exactly one of `items` or `csv`
+ *       properties:
+ *         items:
+ *           type: array
+ *           minItems: 1
+ *           items:
+ *             type: object
+ *             required:
+ *               - recipientUserId
+ *               - amount
+ *             properties:
+ *               recipientUserId:
+ *                 type: string
+ *                 format: uuid
+ *                 example: "550e8400-e29b-41d4-a716-446655440001"
+ *               amount:
+ *                 type: string
+ *                 example: "2500.00"
+ *               narration:
+ *                 type: string
+ *                 maxLength: 255
+ *                 example: "March salary"
+ *         csv:
+ *           type: string
+ *           description: CSV text with a header naming recipient_user_id, amount and optionally narration
+ *           example: "recipient_user_id,amount,narration\n550e8400-e29b-41d4-a716-446655440001,2500.00,March salary\n"
+ *         currency:
+ *           type: string
+ *           enum: [NGN, USD, GHS]
+ *           description: Currency of the sender's and every recipient's wallet (defaults to NGN)
+ *           example: "NGN"
+ *         mode:
+ *           type: string
+ *           enum: [all_or_nothing, best_effort]
+ *           description: Execution semantics (defaults to all_or_nothing)
+ *         channel:
+ *           type: string
+ *           enum: [api, web, mobile, ussd]
+ *           description: Channel used to price the transfer fees (defaults to api)
+ *         metadata:
+ *           type: object
+ *           additionalProperties: true
+ *           description: Stored on the batch
+ * 
+ *     PayoutBatchResponse:
+ *       type: object
+ *       properties:
+ *         success:
+ *           type: boolean
+ *           example: true
+ *         message:
+ *           type: string
+ *           example: "Payout batch partially completed"
+ *         data:
+ *           type: object
+ *           properties:
+ *             batch:
+ *               $ref: '#/components/schemas/PayoutBatch'
+ *             items:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/PayoutItem'
+ * 
+ *     PayoutBatchListResponse:
+ *       type: object
+ *       properties:
+ *         success:
+ *           type: boolean
+ *           example: true
+ *         data:
+ *           type: object
+ *           properties:
+ *             batches:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/PayoutBatch'
+ * 
+ *     PayoutValidationErrorResponse:
+ *       type: object
+ *       required:
+ *         - success
+ *         - error
+ *         - message
+ *         - rows
+ *       properties:
+ *         success:
+ *           type: boolean
+ *           example: false
+ *         error:
+ *           type: string
+ *           example: "Validation Error"
+ *         message:
+ *           type: string
+ *           example: "Payout batch rejected: 2 of 40 rows are invalid"
+ *         rows:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               row:
+ *                 type: integer
+ *                 example: 3
+ *               field:
+ *                 type: string
+ *                 example: "recipientUserId"
+ *               message:
+ *                 type: string
+ *                 example: "Duplicate of row 1"
+ *       description: Response when a payout batch fails up-front validation; every invalid row is listed * 
+ *     RecipientLookupResponse:
+ *       type: object
+ *       properties:
+ *         success:
+ *           type: boolean
+ *           example: true
+ *         data:
+ *           type: object
+ *           properties:
+ *             recipient:
+ *               type: object
+ *               properties:
+ *                 name:
+ *                   type: string
+ *                   description: Name with all but the first letter of each word masked
+ *                   example: "J*** D**"
+ *                 handle:
+ *                   type: string
+ *                   nullable: true
+ *                   example: "@janedoe"
+ *                 identifier_type:
+ *                   type: string
+ *                   enum: [email, phone, handle]
+ *                   example: "handle"
  */
 
 export {};
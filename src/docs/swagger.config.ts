@@ -82,10 +82,26 @@ export const swaggerDefinition = {
       name: "Wallets",
       description: "Wallet operations (fund, withdraw, transfer, balance)",
     },
+    {
+      name: "Payment Requests",
+      description: "Request money from another user and pay or decline requests",
+    },
+    {
+      name: "Escrows",
+      description: "Hold funds between two users until the deal is released, refunded or resolved",
+    },
+    {
+      name: "Loans",
+      description: "Loan products and applications, checked against Adjutor Karma and wallet history",
+    },
     {
       name: "Adjutor",
       description: "Adjutor Karma blacklist verification endpoints",
     },
+    {
+      name: "Admin",
+      description: "Back-office endpoints (admin role required)",
+    },
   ],
   components: {
     securitySchemes: {
@@ -93,7 +109,7 @@ export const swaggerDefinition = {
         type: "http",
         scheme: "bearer",
         bearerFormat: "JWT",
-        description: "Enter your JWT token obtained from signup or login endpoints",
+        description: "Enter the access token obtained from signup, login or refresh endpoints (expires after ACCESS_TOKEN_TTL_SECONDS)",
       },
     },
     responses: {
@@ -25,6 +25,9 @@ declare global {
  * Authentication middleware
  * Validates Bearer token and attaches user to request
  * 
+ * Rejects tokens that are malformed, badly signed or expired, and tokens
+ * whose session has been revoked (logout, refresh token reuse).
+ * 
  * Expected header format: Authorization: Bearer <token>
  * 
  * @param req - Express request
@@ -36,6 +39,9 @@ export async function authMiddleware(
   res: Response,
   next: NextFunction
 ): Promise<void> {
+  let userId: string;
+  let sessionId: string;
+
   try {
     // Extract Authorization header
     const authHeader = req.headers.authorization;
@@ -77,14 +83,8 @@ export async function authMiddleware(
     
     // Verify token and extract payload
     const payload = verifyToken(token);
-    
-    // Attach user to request
-    req.user = {
-      id: payload.userId,
-    };
-    
-    // Continue to next middleware
-    next();
+    userId = payload.userId;
+    sessionId = payload.sessionId;
   } catch (error) {
     // Token verification failed
     res.status(401).json({
@@ -92,6 +92,72 @@ export async function authMiddleware(
       error: "Unauthorized",
       message: error instanceof Error ? error.message : "Invalid token",
     });
+    return;
   }
+
+  try {
+    // Reject tokens of revoked sessions
+    const { SessionService } = await import("../services/session.service");
+
+    if (!(await SessionService.isActive(sessionId))) {
+      res.status(401).json({
+        success: false,
+        error: "Unauthorized",
+        message: "Session has been revoked",
+      });
+      return;
+    }
+  } catch (error) {
+    next(error);
+    return;
+  }
+
+  // Attach user to request
+  req.user = {
+    id: userId,
+  };
+
+  // Continue to next middleware
+  next();
 }
 
+/**
+ * Admin authorization middleware
+ * Must be mounted after authMiddleware; allows only users with role "admin"
+ * 
+ * @param req - Express request
+ * @param res - Express response
+ * @param next - Express next function
+ */
+export async function adminMiddleware(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  if (!req.user) {
+    res.status(401).json({
+      success: false,
+      error: "Unauthorized",
+      message: "Authentication is required",
+    });
+    return;
+  }
+
+  try {
+    const { UserService } = await import("../services/user.service");
+    const user = await UserService.getUserById(req.user.id);
+
+    if (user.role !== "admin") {
+      res.status(403).json({
+        success: false,
+        error: "Forbidden",
+        message: "Admin access is required",
+      });
+      return;
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
@@ -27,6 +27,66 @@ export class AppError extends Error {
   }
 }
 
+/**
+ * Details of a breached transaction limit
+ */
+export interface LimitBreach {
+  /** Which limit was breached */
+  limit: "max_single" | "daily" | "monthly" | "max_balance";
+  /** Tier whose limits applied */
+  tier: string;
+  currency: string;
+  /** Configured limit */
+  max: string;
+  /** Amount already used in the period (or current balance); omitted for a recipient */
+  used?: string;
+  /** Amount of the operation */
+  requested: string;
+}
+
+/**
+ * Error for an operation that would exceed a tier limit
+ *
+ * Carries the breached limit so the error handler can return it.
+ */
+export class LimitExceededError extends AppError {
+  constructor(
+    statusCode: number,
+    message: string,
+    public breach: LimitBreach
+  ) {
+    super(statusCode, message);
+    Object.setPrototypeOf(this, LimitExceededError.prototype);
+  }
+}
+
+/**
+ * Problem with one row of a batch request
+ */
+export interface RowError {
+  /** 1-based row number (CSV rows are counted after the header) */
+  row: number;
+  /** Field the problem is in, if any */
+  field?: string;
+  message: string;
+}
+
+/**
+ * Error for a batch request with invalid rows
+ *
+ * Carries every row problem so the client can fix the batch in one go.
+ */
+export class BatchValidationError extends AppError {
+  constructor(
+    statusCode: number,
+    message: string,
+    public rows: RowError[]
+  ) {
+    super(statusCode, message);
+    Object.setPrototypeOf(this, BatchValidationError.prototype);
+  }
+}
+
 /**
  * Map HTTP status codes to error type names
  * 
@@ -41,6 +101,7 @@ function getErrorType(statusCode: number): string {
     404: "Not Found",
     409: "Conflict",
     422: "Validation Error",
+    429: "Too Many Requests",
     500: "Internal Server Error",
   };
 
@@ -95,6 +156,8 @@ export function errorHandler(
     success: false,
     error: errorType,
     message: message,
+    ...(err instanceof LimitExceededError && { limit: err.breach }),
+    ...(err instanceof BatchValidationError && { rows: err.rows }),
     ...(config.nodeEnv === "development" && {
       stack: err.stack,
       details: err.message,
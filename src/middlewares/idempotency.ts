@@ -0,0 +1,112 @@
+/**
+ * Idempotency Middleware
+ *
+ * Honours the optional `Idempotency-Key` request header on money-moving
+ * endpoints. The first successful response for a key is stored and replayed
+ * for retries with the same body; reusing a key with a different body is
+ * rejected with 422.
+ *
+ * Must be mounted after authMiddleware (keys are scoped per user).
+ *
+ * @module middlewares/idempotency
+ */
+
+import { Request, Response, NextFunction } from "express";
+import { IdempotencyService } from "../services/idempotency.service";
+import { logger } from "../utils/logger";
+
+/**
+ * Header carrying the client-supplied key
+ */
+export const IDEMPOTENCY_HEADER = "idempotency-key";
+
+/**
+ * Maximum accepted key length (matches the database column)
+ */
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Idempotency middleware
+ *
+ * Requests without an Idempotency-Key header pass through untouched.
+ *
+ * @param req - Express request
+ * @param res - Express response
+ * @param next - Express next function
+ */
+export async function idempotencyMiddleware(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  const key = req.header(IDEMPOTENCY_HEADER)?.trim();
+
+  if (key === undefined) {
+    next();
+    return;
+  }
+
+  if (key.length === 0 || key.length > MAX_KEY_LENGTH) {
+    res.status(400).json({
+      success: false,
+      error: "Validation Error",
+      message: `Idempotency-Key must be between 1 and ${MAX_KEY_LENGTH} characters`,
+    });
+    return;
+  }
+
+  const userId = req.user?.id;
+
+  if (!userId) {
+    res.status(401).json({
+      success: false,
+      error: "Unauthorized",
+      message: "Authentication is required to use Idempotency-Key",
+    });
+    return;
+  }
+
+  try {
+    const fingerprint = IdempotencyService.fingerprint(
+      req.method,
+      `${req.baseUrl}${req.path}`,
+      req.body
+    );
+
+    const result = await IdempotencyService.begin(userId, key, fingerprint);
+
+    if (result.status === "replay") {
+      logger.info(`Replaying stored response for Idempotency-Key (user ${userId})`);
+      res.setHeader("Idempotent-Replayed", "true");
+      res.status(result.responseStatus).json(result.responseBody);
+      return;
+    }
+
+    // Capture the response so it can be stored before it is sent
+    const originalJson = res.json.bind(res);
+
+    res.json = ((body: unknown) => {
+      const statusCode = res.statusCode;
+
+      // Only successful responses are stored; failures free the key for a retry
+      const persist =
+        statusCode >= 200 && statusCode < 300
+          ? IdempotencyService.complete(result.recordId, statusCode, body)
+          : IdempotencyService.release(result.recordId);
+
+      persist
+        .catch((error) => {
+          logger.error("Failed to persist idempotency key result", error);
+        })
+        .finally(() => {
+          originalJson(body);
+        });
+
+      return res;
+    }) as Response["json"];
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
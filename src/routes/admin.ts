@@ -0,0 +1,1671 @@
+/**
+ * Admin Routes
+ *
+ * Back-office endpoints (reconciliation, reversals, fee rules, tier limits,
+ * escrow disputes, wallet statuses, loan products and applications,
+ * Adjutor Karma reports of defaulting borrowers, and credit decisions).
+ * Every route
+ * requires an authenticated user with role "admin".
+ *
+ * @module routes/admin
+ */
+
+import { Router } from "express";
+import { ReconciliationController } from "../controllers/reconciliation.controller";
+import { ReversalController } from "../controllers/reversal.controller";
+import { FeeController } from "../controllers/fee.controller";
+import { LimitController } from "../controllers/limit.controller";
+import { EscrowController } from "../controllers/escrow.controller";
+import { WalletStatusController } from "../controllers/wallet-status.controller";
+import { LoanController } from "../controllers/loan.controller";
+import { CreditDecisionController } from "../controllers/credit-decision.controller";
+import { authMiddleware, adminMiddleware } from "../middlewares/auth";
+import { validateRequest } from "../middlewares/validator";
+import {
+  listReconciliationRunsSchema,
+  getReconciliationRunSchema,
+  reversalSchema,
+  listFeeRulesSchema,
+  createFeeRuleSchema,
+  updateFeeRuleSchema,
+  listTierLimitsSchema,
+  setTierLimitSchema,
+  setUserTierSchema,
+  adminListEscrowsSchema,
+  resolveEscrowSchema,
+  setWalletStatusSchema,
+  walletStatusHistorySchema,
+  listLoanProductsSchema,
+  createLoanProductSchema,
+  updateLoanProductSchema,
+  adminListLoanApplicationsSchema,
+  decideLoanApplicationSchema,
+  loanApplicationParamsSchema,
+  creditDecisionDryRunSchema,
+  listCreditDecisionsSchema,
+} from "../utils/validation";
+
+const router = Router();
+
+// Every admin route requires authentication and the admin role
+router.use(authMiddleware, adminMiddleware);
+
+/**
+ * @openapi
+ * /api/v1/admin/reconciliation/runs:
+ *   post:
+ *     tags:
+ *       - Admin
+ *     summary: Run a ledger reconciliation
+ *     description: |
+ *       Walks every wallet and transfer and records any mismatch as a discrepancy.
+ *
+ *       **Authentication:** Required (Bearer token, admin role)
+ *
+ *       **Checks:**
+ *       - `wallet_balance`: `balance_decimal` equals the sum of the wallet's transactions
+ *       - `balance_chain`: each transaction's `balance_after` follows from the previous one
+ *       - `transfer_legs`: every transfer has matching `-OUT` and `-IN` transactions
+ *       - `ledger`: the wallet agrees with its double-entry ledger account
+ *
+ *       The same run can be started from the command line with `npm run reconcile`.
+ *     operationId: createReconciliationRun
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       201:
+ *         description: Reconciliation finished
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ReconciliationRunResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       403:
+ *         description: Forbidden - admin role required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ForbiddenResponse'
+ *       409:
+ *         description: Another reconciliation run is in progress
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/InternalServerErrorResponse'
+ *   get:
+ *     tags:
+ *       - Admin
+ *     summary: List reconciliation runs
+ *     description: |
+ *       Returns recent reconciliation runs, newest first.
+ *
+ *       **Authentication:** Required (Bearer token, admin role)
+ *     operationId: listReconciliationRuns
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         required: false
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *         description: Maximum number of runs to return
+ *     responses:
+ *       200:
+ *         description: Runs retrieved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ReconciliationRunListResponse'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       403:
+ *         description: Forbidden - admin role required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ForbiddenResponse'
+ */
+router.post("/reconciliation/runs", ReconciliationController.createRun);
+
+router.get(
+  "/reconciliation/runs",
+  validateRequest(listReconciliationRunsSchema),
+  ReconciliationController.listRuns
+);
+
+/**
+ * @openapi
+ * /api/v1/admin/reconciliation/runs/{runId}:
+ *   get:
+ *     tags:
+ *       - Admin
+ *     summary: Get a reconciliation run and its discrepancies
+ *     description: |
+ *       Returns the run summary and every discrepancy it recorded.
+ *
+ *       **Authentication:** Required (Bearer token, admin role)
+ *     operationId: getReconciliationRun
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: runId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Reconciliation run ID
+ *     responses:
+ *       200:
+ *         description: Run retrieved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ReconciliationRunDetailResponse'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       403:
+ *         description: Forbidden - admin role required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ForbiddenResponse'
+ *       404:
+ *         description: Run not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundResponse'
+ */
+router.get(
+  "/reconciliation/runs/:runId",
+  validateRequest(getReconciliationRunSchema),
+  ReconciliationController.getRun
+);
+
+/**
+ * @openapi
+ * /api/v1/admin/reversals:
+ *   post:
+ *     tags:
+ *       - Admin
+ *     summary: Reverse a transaction or transfer
+ *     description: |
+ *       Posts compensating `reversal` transactions linked to the original via `reversal_of`.
+ *       Original rows are never modified.
+ *
+ *       **Authentication:** Required (Bearer token, admin role)
+ *
+ *       **Targets:**
+ *       - A fund or withdrawal transaction ID reverses that transaction
+ *       - A transfer reference (or either of its `-OUT`/`-IN` transaction IDs) reverses the whole
+ *         transfer: the recipient is debited, the sender credited, and the transfer moves to `reversed`
+ *
+ *       **Rules:**
+ *       - A transaction or transfer can only be reversed once (409)
+ *       - Reversals cannot be reversed
+ *       - Escrow transfers (`ESCROW-...`) cannot be reversed; refund or resolve the escrow instead
+ *       - Savings pot moves (`POT-...`) cannot be reversed; deposit or withdraw instead
+ *       - Loan disbursements and repayments (`LOAN-...`) cannot be reversed
+ *       - Interest payments (`INTEREST-...`) cannot be reversed
+ *       - Hold captures (`HOLD-...-CAPTURE`) cannot be reversed
+ *       - A reversal that would take a wallet's available balance (balance less holds) negative is
+ *         refused (422) unless `allowNegativeBalance` is true
+ *     operationId: createReversal
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ReversalRequest'
+ *     responses:
+ *       201:
+ *         description: Reversal posted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ReversalResponse'
+ *       400:
+ *         description: Validation error or target cannot be reversed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       403:
+ *         description: Forbidden - admin role required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ForbiddenResponse'
+ *       404:
+ *         description: No transaction or transfer matches the target
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundResponse'
+ *       409:
+ *         description: Already reversed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       422:
+ *         description: Reversal would take a wallet negative
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  "/reversals",
+  validateRequest(reversalSchema),
+  ReversalController.create
+);
+
+/**
+ * @openapi
+ * /api/v1/admin/fee-rules:
+ *   get:
+ *     tags:
+ *       - Admin
+ *     summary: List fee rules
+ *     description: |
+ *       Returns fee rules grouped by operation and currency, highest priority first.
+ *
+ *       **Authentication:** Required (Bearer token, admin role)
+ *     operationId: listFeeRules
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: operation
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [withdraw, transfer]
+ *       - $ref: '#/components/parameters/CurrencyQuery'
+ *       - in: query
+ *         name: active
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: ["true", "false"]
+ *     responses:
+ *       200:
+ *         description: Rules retrieved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/FeeRuleListResponse'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       403:
+ *         description: Forbidden - admin role required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ForbiddenResponse'
+ *   post:
+ *     tags:
+ *       - Admin
+ *     summary: Add a fee rule
+ *     description: |
+ *       Adds a withdrawal or transfer fee rule. Takes effect immediately.
+ *
+ *       **Authentication:** Required (Bearer token, admin role)
+ *
+ *       **Matching:** a rule with a `channel` and/or `userTier` only applies to that channel/tier
+ *       (omit for any). The most specific active rule wins, then the highest `priority`.
+ *
+ *       **Pricing fields by `feeType`:**
+ *       - `flat`: `flatFee`
+ *       - `percentage`: `percentageBps`, optionally plus `flatFee`
+ *       - `tiered`: `tiers`, ordered by `upTo`, the last band with `upTo: null`
+ *
+ *       Pricing cannot be edited afterwards: add a new rule and deactivate the old one.
+ *     operationId: createFeeRule
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateFeeRuleRequest'
+ *     responses:
+ *       201:
+ *         description: Rule created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/FeeRuleResponse'
+ *       400:
+ *         description: Validation error or pricing fields that do not fit the fee type
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       403:
+ *         description: Forbidden - admin role required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ForbiddenResponse'
+ */
+router.get(
+  "/fee-rules",
+  validateRequest(listFeeRulesSchema),
+  FeeController.listRules
+);
+
+router.post(
+  "/fee-rules",
+  validateRequest(createFeeRuleSchema),
+  FeeController.createRule
+);
+
+/**
+ * @openapi
+ * /api/v1/admin/fee-rules/{ruleId}:
+ *   patch:
+ *     tags:
+ *       - Admin
+ *     summary: Activate, deactivate or reprioritise a fee rule
+ *     description: |
+ *       Changes a rule's `active` flag, `priority` or `description`. Pricing fields cannot change.
+ *
+ *       **Authentication:** Required (Bearer token, admin role)
+ *     operationId: updateFeeRule
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: ruleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Fee rule ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/UpdateFeeRuleRequest'
+ *     responses:
+ *       200:
+ *         description: Rule updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/FeeRuleResponse'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       403:
+ *         description: Forbidden - admin role required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ForbiddenResponse'
+ *       404:
+ *         description: Rule not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundResponse'
+ */
+router.patch(
+  "/fee-rules/:ruleId",
+  validateRequest(updateFeeRuleSchema),
+  FeeController.updateRule
+);
+
+/**
+ * @openapi
+ * /api/v1/admin/tier-limits:
+ *   get:
+ *     tags:
+ *       - Admin
+ *     summary: List tier limits
+ *     description: |
+ *       Lists the single transaction, daily, monthly and maximum balance limits of each user tier per currency.
+ *
+ *       **Authentication:** Required (Bearer token, admin role)
+ *     operationId: listTierLimits
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: tier
+ *         schema:
+ *           type: string
+ *           enum: [tier_1, tier_2, tier_3]
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Limits retrieved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/TierLimitListResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       403:
+ *         description: Forbidden - admin role required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ForbiddenResponse'
+ */
+router.get(
+  "/tier-limits",
+  validateRequest(listTierLimitsSchema),
+  LimitController.listLimits
+);
+
+/**
+ * @openapi
+ * /api/v1/admin/tier-limits/{tier}/{currency}:
+ *   put:
+ *     tags:
+ *       - Admin
+ *     summary: Set a tier's limits in a currency
+ *     description: |
+ *       Replaces the limits of a tier in a currency (creating them if needed). Takes effect on the next operation.
+ *
+ *       **Authentication:** Required (Bearer token, admin role)
+ *
+ *       Every limit must be sent; `null` means unlimited. `maxSingle` must not exceed `dailyLimit`, and `dailyLimit` must not exceed `monthlyLimit`.
+ *     operationId: setTierLimit
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: tier
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [tier_1, tier_2, tier_3]
+ *       - in: path
+ *         name: currency
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: "NGN"
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/SetTierLimitRequest'
+ *     responses:
+ *       200:
+ *         description: Limits saved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/TierLimitResponse'
+ *       400:
+ *         description: Validation error or inconsistent limits
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       403:
+ *         description: Forbidden - admin role required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ForbiddenResponse'
+ */
+router.put(
+  "/tier-limits/:tier/:currency",
+  validateRequest(setTierLimitSchema),
+  LimitController.setLimit
+);
+
+/**
+ * @openapi
+ * /api/v1/admin/users/{userId}/tier:
+ *   patch:
+ *     tags:
+ *       - Admin
+ *     summary: Move a user to another tier
+ *     description: |
+ *       Changes the tier that selects the user's limits and fee rules, e.g. after KYC verification.
+ *
+ *       **Authentication:** Required (Bearer token, admin role)
+ *     operationId: setUserTier
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/SetUserTierRequest'
+ *     responses:
+ *       200:
+ *         description: Tier changed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SetUserTierResponse'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       403:
+ *         description: Forbidden - admin role required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ForbiddenResponse'
+ *       404:
+ *         description: User not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundResponse'
+ */
+router.patch(
+  "/users/:userId/tier",
+  validateRequest(setUserTierSchema),
+  LimitController.setUserTier
+);
+
+/**
+ * @openapi
+ * /api/v1/admin/escrows:
+ *   get:
+ *     tags:
+ *       - Admin
+ *     summary: List escrows
+ *     description: |
+ *       Returns all escrows, newest first. Filter by `status=disputed` for the
+ *       escrows waiting for a decision.
+ *
+ *       **Authentication:** Required (Bearer token, admin role)
+ *     operationId: adminListEscrows
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [funded, disputed, released, refunded, split]
+ *         description: Only return escrows with this status
+ *     responses:
+ *       200:
+ *         description: Escrows retrieved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/EscrowListResponse'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       403:
+ *         description: Forbidden - admin role required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ForbiddenResponse'
+ */
+router.get(
+  "/escrows",
+  validateRequest(adminListEscrowsSchema),
+  EscrowController.listAll
+);
+
+/**
+ * @openapi
+ * /api/v1/admin/escrows/{escrowId}/resolve:
+ *   post:
+ *     tags:
+ *       - Admin
+ *     summary: Resolve an escrow
+ *     description: |
+ *       Settles a funded or disputed escrow: `release` pays the beneficiary, `refund`
+ *       returns the funds to the payer, and `split` pays `beneficiaryAmount` to the
+ *       beneficiary and the rest to the payer. The decision and reason are recorded
+ *       in the escrow's audit trail.
+ *
+ *       **Authentication:** Required (Bearer token, admin role)
+ *     operationId: resolveEscrow
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: escrowId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Escrow ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ResolveEscrowRequest'
+ *     responses:
+ *       200:
+ *         description: Escrow settled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/EscrowResponse'
+ *       400:
+ *         description: Validation error, or split amount not less than the escrowed amount
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       403:
+ *         description: Forbidden - admin role required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ForbiddenResponse'
+ *       404:
+ *         description: Escrow not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundResponse'
+ *       409:
+ *         description: Escrow is already settled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       422:
+ *         description: Beneficiary can no longer receive funds
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  "/escrows/:escrowId/resolve",
+  validateRequest(resolveEscrowSchema),
+  EscrowController.resolve
+);
+
+/**
+ * @openapi
+ * /api/v1/admin/wallets/{walletId}/status:
+ *   patch:
+ *     tags:
+ *       - Admin
+ *     summary: Change a wallet's status
+ *     description: |
+ *       Restricts a single wallet without blocking its owner. Applies to main wallets
+ *       and savings pot sub-wallets alike. The change, reason and acting admin are
+ *       recorded in the wallet's status history.
+ *
+ *       **Authentication:** Required (Bearer token, admin role)
+ *
+ *       **Statuses:**
+ *       - `active`: no restriction
+ *       - `frozen`: no money in or out (funding, withdrawals, transfers, holds, conversions, reversals)
+ *       - `post_no_debit`: credits allowed, debits blocked
+ *       - `closed`: permanent; only a wallet with no balance, holds or savings pot funds can be closed
+ *
+ *       Transfers to a frozen or closed wallet fail with 422 without revealing the status to the sender.
+ *     operationId: setWalletStatus
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: walletId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Wallet ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/SetWalletStatusRequest'
+ *     responses:
+ *       200:
+ *         description: Status changed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SetWalletStatusResponse'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       403:
+ *         description: Forbidden - admin role required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ForbiddenResponse'
+ *       404:
+ *         description: Wallet not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundResponse'
+ *       409:
+ *         description: Wallet already has the status, is closed, or still holds funds
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.patch(
+  "/wallets/:walletId/status",
+  validateRequest(setWalletStatusSchema),
+  WalletStatusController.setStatus
+);
+
+/**
+ * @openapi
+ * /api/v1/admin/wallets/{walletId}/status-history:
+ *   get:
+ *     tags:
+ *       - Admin
+ *     summary: Wallet status history
+ *     description: |
+ *       Every status change of the wallet, newest first, with who made it and why.
+ *
+ *       **Authentication:** Required (Bearer token, admin role)
+ *     operationId: getWalletStatusHistory
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: walletId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Wallet ID
+ *     responses:
+ *       200:
+ *         description: Status history retrieved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/WalletStatusHistoryResponse'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       403:
+ *         description: Forbidden - admin role required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ForbiddenResponse'
+ *       404:
+ *         description: Wallet not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundResponse'
+ */
+router.get(
+  "/wallets/:walletId/status-history",
+  validateRequest(walletStatusHistorySchema),
+  WalletStatusController.listHistory
+);
+
+/**
+ * @openapi
+ * /api/v1/admin/loan-products:
+ *   get:
+ *     tags:
+ *       - Admin
+ *     summary: List loan products
+ *     description: |
+ *       Returns every loan product, active or not, by name.
+ *
+ *       **Authentication:** Required (Bearer token, admin role)
+ *     operationId: adminListLoanProducts
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: active
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: ["true", "false"]
+ *     responses:
+ *       200:
+ *         description: Loan products retrieved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LoanProductListResponse'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       403:
+ *         description: Forbidden - admin role required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ForbiddenResponse'
+ *   post:
+ *     tags:
+ *       - Admin
+ *     summary: Add a loan product
+ *     description: |
+ *       Adds a loan product users can apply for straight away (unless `active` is false).
+ *
+ *       **Authentication:** Required (Bearer token, admin role)
+ *
+ *       `interestRateBps` is the annual rate, charged on the original amount (`flat`) or on the
+ *       principal still owed (`reducing_balance`, the default) according to `repaymentMethod`.
+ *       `latePenaltyBps` is charged daily on an overdue installment's unpaid amount. The
+ *       processing fee (`feeFlat` plus `feeBps` of the amount) is deducted from the amount
+ *       paid out, so it must leave something to pay out on `minAmount`. Pricing cannot be
+ *       edited afterwards: add a new product and deactivate the old one.
+ *     operationId: createLoanProduct
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateLoanProductRequest'
+ *     responses:
+ *       201:
+ *         description: Loan product created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LoanProductResponse'
+ *       400:
+ *         description: Validation error, minAmount above maxAmount, or a fee that leaves nothing to pay out
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       403:
+ *         description: Forbidden - admin role required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ForbiddenResponse'
+ *       409:
+ *         description: A product with the name exists
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  "/loan-products",
+  validateRequest(listLoanProductsSchema),
+  LoanController.adminListProducts
+);
+router.post(
+  "/loan-products",
+  validateRequest(createLoanProductSchema),
+  LoanController.createProduct
+);
+
+/**
+ * @openapi
+ * /api/v1/admin/loan-products/{productId}:
+ *   patch:
+ *     tags:
+ *       - Admin
+ *     summary: Update a loan product
+ *     description: |
+ *       Activates, deactivates or re-describes a loan product. Existing applications keep
+ *       the terms they were made on.
+ *
+ *       **Authentication:** Required (Bearer token, admin role)
+ *     operationId: updateLoanProduct
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: productId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Loan product ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/UpdateLoanProductRequest'
+ *     responses:
+ *       200:
+ *         description: Loan product updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LoanProductResponse'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       403:
+ *         description: Forbidden - admin role required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ForbiddenResponse'
+ *       404:
+ *         description: Loan product not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundResponse'
+ */
+router.patch(
+  "/loan-products/:productId",
+  validateRequest(updateLoanProductSchema),
+  LoanController.updateProduct
+);
+
+/**
+ * @openapi
+ * /api/v1/admin/loan-applications:
+ *   get:
+ *     tags:
+ *       - Admin
+ *     summary: List loan applications
+ *     description: |
+ *       Returns every loan application, newest first. Filter with `status=review` for those
+ *       waiting for a decision, or `status=approved` for those whose payout failed.
+ *
+ *       **Authentication:** Required (Bearer token, admin role)
+ *     operationId: adminListLoanApplications
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [review, approved, declined, disbursed, repaid]
+ *     responses:
+ *       200:
+ *         description: Applications retrieved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LoanApplicationListResponse'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       403:
+ *         description: Forbidden - admin role required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ForbiddenResponse'
+ */
+router.get(
+  "/loan-applications",
+  validateRequest(adminListLoanApplicationsSchema),
+  LoanController.adminListApplications
+);
+
+/**
+ * @openapi
+ * /api/v1/admin/loan-applications/{applicationId}/decision:
+ *   post:
+ *     tags:
+ *       - Admin
+ *     summary: Decide a referred loan application
+ *     description: |
+ *       Approves or declines an application in `review`. The decision and reason are added to
+ *       its `decision_reasons` with the acting admin. An approved application is paid out at
+ *       once; if the payout fails it stays `approved` with `disbursement_error` set.
+ *
+ *       **Authentication:** Required (Bearer token, admin role)
+ *     operationId: decideLoanApplication
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: applicationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Loan application ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/DecideLoanApplicationRequest'
+ *     responses:
+ *       200:
+ *         description: Application decided
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LoanApplicationResponse'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       403:
+ *         description: Forbidden - admin role required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ForbiddenResponse'
+ *       404:
+ *         description: Application not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundResponse'
+ *       409:
+ *         description: Application is not in review
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  "/loan-applications/:applicationId/decision",
+  validateRequest(decideLoanApplicationSchema),
+  LoanController.decide
+);
+
+/**
+ * @openapi
+ * /api/v1/admin/loan-applications/{applicationId}/disburse:
+ *   post:
+ *     tags:
+ *       - Admin
+ *     summary: Retry a loan payout
+ *     description: |
+ *       Pays an `approved` application whose payout failed (see `disbursement_error`) into the
+ *       applicant's wallet. The payout uses the reference `LOAN-<application id>-DISBURSE`, so a
+ *       loan is never paid twice.
+ *
+ *       **Authentication:** Required (Bearer token, admin role)
+ *     operationId: disburseLoanApplication
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: applicationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Loan application ID
+ *     responses:
+ *       200:
+ *         description: Loan disbursed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LoanApplicationResponse'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       403:
+ *         description: Forbidden - admin role required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ForbiddenResponse'
+ *       404:
+ *         description: Application not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundResponse'
+ *       409:
+ *         description: Application is not approved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       422:
+ *         description: The wallet cannot take the payout (e.g. tier maximum balance)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  "/loan-applications/:applicationId/disburse",
+  validateRequest(loanApplicationParamsSchema),
+  LoanController.disburse
+);
+
+/**
+ * @openapi
+ * /api/v1/admin/loan-applications/{applicationId}/karma-report:
+ *   get:
+ *     tags:
+ *       - Admin
+ *     summary: List a loan's Karma submissions
+ *     description: |
+ *       Returns every report and removal sent to Adjutor Karma for the loan, oldest first, with
+ *       the payload sent and Adjutor's response (including failed attempts).
+ *
+ *       **Authentication:** Required (Bearer token, admin role)
+ *     operationId: listLoanKarmaReports
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: applicationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Loan application ID
+ *     responses:
+ *       200:
+ *         description: Submissions retrieved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/KarmaReportListResponse'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       403:
+ *         description: Forbidden - admin role required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ForbiddenResponse'
+ *       404:
+ *         description: Application not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundResponse'
+ */
+router.get(
+  "/loan-applications/:applicationId/karma-report",
+  validateRequest(loanApplicationParamsSchema),
+  LoanController.listKarmaReports
+);
+
+/**
+ * @openapi
+ * /api/v1/admin/loan-applications/{applicationId}/karma-report:
+ *   post:
+ *     tags:
+ *       - Admin
+ *     summary: Report a defaulting borrower to Adjutor Karma
+ *     description: |
+ *       Adds the borrower's email and phone number to the Adjutor Karma blacklist. The loan must
+ *       be `disbursed` with an installment unpaid more than `LOAN_PENALTY_GRACE_DAYS` after its
+ *       due date. Each record carries everything still owed on the loan (`amount_in_contention`),
+ *       the due date of the oldest unpaid installment (`default_date`) and the overdue amount
+ *       (`reason`). The loan counts as reported if Karma accepts at least one identity; every
+ *       submission is logged, failed or not.
+ *
+ *       With `ADJUTOR_MODE=mock` nothing is sent to Adjutor.
+ *
+ *       **Authentication:** Required (Bearer token, admin role)
+ *     operationId: reportLoanToKarma
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: applicationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Loan application ID
+ *     responses:
+ *       201:
+ *         description: Borrower reported
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LoanKarmaReportResponse'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       403:
+ *         description: Forbidden - admin role required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ForbiddenResponse'
+ *       404:
+ *         description: Application not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundResponse'
+ *       409:
+ *         description: Loan not disbursed, already reported, or not overdue
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       502:
+ *         description: Adjutor did not accept the report
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  "/loan-applications/:applicationId/karma-report",
+  validateRequest(loanApplicationParamsSchema),
+  LoanController.reportToKarma
+);
+
+/**
+ * @openapi
+ * /api/v1/admin/loan-applications/{applicationId}/karma-report:
+ *   delete:
+ *     tags:
+ *       - Admin
+ *     summary: Remove a repaid borrower from Adjutor Karma
+ *     description: |
+ *       Removes every Karma record accepted for the loan once it is `repaid`. The loan
+ *       collection worker does this on its own after repayment; use this endpoint to retry
+ *       straight away. Records already removed are skipped, so a partial failure can be retried.
+ *
+ *       **Authentication:** Required (Bearer token, admin role)
+ *     operationId: removeLoanFromKarma
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: applicationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Loan application ID
+ *     responses:
+ *       200:
+ *         description: Borrower removed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LoanKarmaReportResponse'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       403:
+ *         description: Forbidden - admin role required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ForbiddenResponse'
+ *       404:
+ *         description: Application not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundResponse'
+ *       409:
+ *         description: Loan not repaid, or nothing to remove
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       502:
+ *         description: Adjutor did not remove every record
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.delete(
+  "/loan-applications/:applicationId/karma-report",
+  validateRequest(loanApplicationParamsSchema),
+  LoanController.removeFromKarma
+);
+
+/**
+ * @openapi
+ * /api/v1/admin/credit-decisions/dry-run:
+ *   post:
+ *     tags:
+ *       - Admin
+ *     summary: Score a user without storing the decision
+ *     description: |
+ *       Runs the credit decisioning engine on a user as a loan application would: looks the
+ *       user's email and phone number up on Adjutor Karma, gathers account age, the wallet's
+ *       inflow and outflow over the scorecard's history window and the user's earlier loans,
+ *       and scores them. Returns the score, decision (`approve`, `refer` or `decline`), limit,
+ *       the rules that fired and every input. Nothing is stored; pass `version` to try a
+ *       scorecard other than the current one.
+ *
+ *       **Authentication:** Required (Bearer token, admin role)
+ *     operationId: dryRunCreditDecision
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreditDecisionDryRunRequest'
+ *     responses:
+ *       200:
+ *         description: User scored
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/CreditDecisionDryRunResponse'
+ *       400:
+ *         description: Validation error (including an unknown scorecard version)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       403:
+ *         description: Forbidden - admin role required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ForbiddenResponse'
+ *       404:
+ *         description: User not found, or no wallet in the currency
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundResponse'
+ */
+router.post(
+  "/credit-decisions/dry-run",
+  validateRequest(creditDecisionDryRunSchema),
+  CreditDecisionController.dryRun
+);
+
+/**
+ * @openapi
+ * /api/v1/admin/credit-decisions:
+ *   get:
+ *     tags:
+ *       - Admin
+ *     summary: List credit decisions
+ *     description: |
+ *       Returns the stored credit decisions (one per loan application), newest first, with the
+ *       scorecard version and every input each was made from. Up to 100 are returned.
+ *
+ *       **Authentication:** Required (Bearer token, admin role)
+ *     operationId: listCreditDecisions
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: userId
+ *         required: false
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: applicationId
+ *         required: false
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Decisions retrieved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/CreditDecisionListResponse'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       403:
+ *         description: Forbidden - admin role required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ForbiddenResponse'
+ */
+router.get(
+  "/credit-decisions",
+  validateRequest(listCreditDecisionsSchema),
+  CreditDecisionController.list
+);
+
+export default router;
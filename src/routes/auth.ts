@@ -1,7 +1,8 @@
 /**
  * Authentication Routes
  * 
- * Handles user signup and login endpoints.
+ * Handles user signup, password login, one-time code login, token refresh
+ * and logout endpoints.
  * 
  * @module routes/auth
  */
@@ -9,7 +10,13 @@
 import { Router } from "express";
 import { AuthController } from "../controllers/auth.controller";
 import { validateRequest } from "../middlewares/validator";
-import { signupSchema, loginSchema } from "../utils/validation";
+import {
+  signupSchema,
+  loginSchema,
+  requestOtpSchema,
+  verifyOtpSchema,
+  refreshTokenSchema,
+} from "../utils/validation";
 
 const router = Router();
 
@@ -28,8 +35,9 @@ const router = Router();
  *       - User will be rejected if found in Adjutor Karma blacklist
  *       - When `ADJUTOR_MODE=live`: BVN is checked against Adjutor
  *       - When `ADJUTOR_MODE=mock`: BVN → Email → Phone are checked in order, stopping at first hit
+ *       - The password is stored as an scrypt hash and checked at login
  *       - Creates a wallet automatically with 0.00 balance
- *       - Returns JWT token for immediate authentication
+ *       - Returns an access token and refresh token for immediate authentication
  *     operationId: signup
  *     requestBody:
  *       required: true
@@ -45,6 +53,7 @@ const router = Router();
  *                 email: "john.doe@example.com"
  *                 phone: "+2348012345678"
  *                 bvn: "22212345679"
+ *                 password: "correct horse battery staple"
  *             blacklistedByBvn:
  *               summary: Blacklisted by BVN (mock sentinel)
  *               value:
@@ -52,6 +61,7 @@ const router = Router();
  *                 email: "bad@example.com"
  *                 phone: "+2348012345678"
  *                 bvn: "12345678901"
+ *                 password: "correct horse battery staple"
  *             blacklistedByEmail:
  *               summary: Blacklisted by Email (mock sentinel)
  *               value:
@@ -59,6 +69,7 @@ const router = Router();
  *                 email: "blacklisted@adjutor.test"
  *                 phone: "+2348012345678"
  *                 bvn: "22212345679"
+ *                 password: "correct horse battery staple"
  *             blacklistedByPhone:
  *               summary: Blacklisted by Phone (mock sentinel)
  *               value:
@@ -66,6 +77,7 @@ const router = Router();
  *                 email: "ok@example.com"
  *                 phone: "+2341234567890"
  *                 bvn: "22212345679"
+ *                 password: "correct horse battery staple"
  *     responses:
  *       201:
  *         description: User created successfully
@@ -105,6 +117,8 @@ const router = Router();
  *               details:
  *                 - field: "bvn"
  *                   message: "BVN must be exactly 11 digits"
+ *                 - field: "password"
+ *                   message: "Password must be at least 8 characters"
  *       403:
  *         description: User is blacklisted
  *         content:
@@ -144,12 +158,17 @@ router.post("/signup", validateRequest(signupSchema), AuthController.signup);
  *       - Authentication
  *     summary: Login to the system
  *     description: |
- *       Authenticate a user using email OR phone number.
+ *       Authenticate a user using email OR phone number, and the password set at signup.
  *       
  *       **Authentication:**
- *       - Provide either email or phone (at least one required)
- *       - Returns JWT token for use in protected endpoints
- *       - Token should be included in Authorization header as: `Bearer <token>`
+ *       - Provide either email or phone (at least one required), and the password
+ *       - Unknown users and wrong passwords get the same 401
+ *       - After `LOGIN_ACCOUNT_ATTEMPT_LIMIT` failures for an account, or `LOGIN_IP_ATTEMPT_LIMIT`
+ *         from an IP address, within `LOGIN_ATTEMPT_WINDOW_SECONDS`, logins are refused with 429
+ *       - Accounts created without a password log in with a one-time code (`/auth/otp/request`)
+ *       - Returns an access token for use in protected endpoints, and a refresh token
+ *       - The access token should be included in Authorization header as: `Bearer <token>`
+ *       - The access token expires after `ACCESS_TOKEN_TTL_SECONDS`; get a new one at `/auth/refresh`
  *     operationId: login
  *     requestBody:
  *       required: true
@@ -162,15 +181,18 @@ router.post("/signup", validateRequest(signupSchema), AuthController.signup);
  *               summary: Login with email
  *               value:
  *                 email: "john.doe@example.com"
+ *                 password: "correct horse battery staple"
  *             loginWithPhone:
  *               summary: Login with phone
  *               value:
  *                 phone: "+2348012345678"
+ *                 password: "correct horse battery staple"
  *             loginWithBoth:
  *               summary: Login with both (email used)
  *               value:
  *                 email: "john.doe@example.com"
  *                 phone: "+2348012345678"
+ *                 password: "correct horse battery staple"
  *     responses:
  *       200:
  *         description: Login successful
@@ -200,16 +222,36 @@ router.post("/signup", validateRequest(signupSchema), AuthController.signup);
  *               success: false
  *               error: "Validation Error"
  *               message: "Either email or phone is required"
- *       404:
- *         description: User not found
+ *       401:
+ *         description: Unknown user, no password set, or wrong password
  *         content:
  *           application/json:
  *             schema:
- *               $ref: '#/components/schemas/NotFoundResponse'
+ *               $ref: '#/components/schemas/ErrorResponse'
  *             example:
  *               success: false
- *               error: "Not Found"
- *               message: "User not found"
+ *               error: "Unauthorized"
+ *               message: "Invalid credentials"
+ *       403:
+ *         description: Account is blocked or blacklisted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *             example:
+ *               success: false
+ *               error: "Forbidden"
+ *               message: "Account is blocked. Please contact support."
+ *       429:
+ *         description: Too many failed logins for the account or IP address; try again later
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *             example:
+ *               success: false
+ *               error: "Too Many Requests"
+ *               message: "Too many failed login attempts; try again later"
  *       500:
  *         description: Internal server error
  *         content:
@@ -219,5 +261,227 @@ router.post("/signup", validateRequest(signupSchema), AuthController.signup);
  */
 router.post("/login", validateRequest(loginSchema), AuthController.login);
 
-export default router;
+/**
+ * @openapi
+ * /api/v1/auth/otp/request:
+ *   post:
+ *     tags:
+ *       - Authentication
+ *     summary: Send a one-time login code
+ *     description: |
+ *       Sends a one-time login code to the email address or phone number given
+ *       (email wins if both are). Log in with it at `/auth/otp/verify`.
+ *       
+ *       - The response is the same whether or not an account matches
+ *       - Requesting a new code cancels any earlier one
+ *       - Codes expire after `OTP_TTL_SECONDS` and allow `OTP_MAX_ATTEMPTS` wrong guesses
+ *       - A user can request `OTP_REQUEST_LIMIT` codes per `OTP_REQUEST_WINDOW_SECONDS`
+ *       - `OTP_DELIVERY=console` logs codes; `OTP_DELIVERY=file` appends them to `OTP_DELIVERY_FILE`;
+ *         with `OTP_DELIVERY=none` (production) codes need an adapter set at startup
+ *     operationId: requestLoginOtp
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/OtpRequest'
+ *           example:
+ *             email: "john.doe@example.com"
+ *     responses:
+ *       200:
+ *         description: Code sent if an account matches
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/OtpRequestResponse'
+ *       400:
+ *         description: Validation error (missing email and phone)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       429:
+ *         description: Too many codes requested; try again later
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *             example:
+ *               success: false
+ *               error: "Too Many Requests"
+ *               message: "Too many login codes requested; try again later"
+ *       502:
+ *         description: The code could not be sent
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *             example:
+ *               success: false
+ *               error: "Error"
+ *               message: "The login code could not be sent; try again later"
+ *       503:
+ *         description: One-time code login is not available (no delivery adapter)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post("/otp/request", validateRequest(requestOtpSchema), AuthController.requestOtp);
 
+/**
+ * @openapi
+ * /api/v1/auth/otp/verify:
+ *   post:
+ *     tags:
+ *       - Authentication
+ *     summary: Login with a one-time code
+ *     description: |
+ *       Exchanges the latest code sent to the email address or phone number for a JWT token.
+ *       A code works once; after too many wrong guesses a new one must be requested.
+ *     operationId: verifyLoginOtp
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/OtpVerifyRequest'
+ *           example:
+ *             email: "john.doe@example.com"
+ *             code: "482913"
+ *     responses:
+ *       200:
+ *         description: Login successful
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LoginResponse'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Wrong, expired or already used code
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *             example:
+ *               success: false
+ *               error: "Unauthorized"
+ *               message: "Invalid or expired code"
+ *       403:
+ *         description: Account is blocked or blacklisted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         description: Too many wrong codes; request a new one
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *             example:
+ *               success: false
+ *               error: "Too Many Requests"
+ *               message: "Too many wrong codes; request a new one"
+ *       503:
+ *         description: One-time code login is not available (no delivery adapter)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post("/otp/verify", validateRequest(verifyOtpSchema), AuthController.verifyOtp);
+
+/**
+ * @openapi
+ * /api/v1/auth/refresh:
+ *   post:
+ *     tags:
+ *       - Authentication
+ *     summary: Refresh the access token
+ *     description: |
+ *       Exchanges a refresh token for a new access token and a new refresh token.
+ *       
+ *       - Each refresh token works once; keep the new one
+ *       - Presenting a refresh token that was already used revokes the whole session:
+ *         every access token and refresh token issued to it stops working
+ *       - Refreshing for a blocked or blacklisted user revokes the session (403)
+ *     operationId: refreshToken
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/RefreshTokenRequest'
+ *     responses:
+ *       200:
+ *         description: New tokens
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/TokenRefreshResponse'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Refresh token unknown, expired, already used or revoked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *             example:
+ *               success: false
+ *               error: "Unauthorized"
+ *               message: "Refresh token has already been used; the session has been revoked"
+ *       403:
+ *         description: Account is blocked or blacklisted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post("/refresh", validateRequest(refreshTokenSchema), AuthController.refresh);
+
+/**
+ * @openapi
+ * /api/v1/auth/logout:
+ *   post:
+ *     tags:
+ *       - Authentication
+ *     summary: Logout
+ *     description: |
+ *       Ends the session a refresh token belongs to. Its access tokens and
+ *       refresh tokens stop working. Unknown or already revoked refresh
+ *       tokens get the same response.
+ *     operationId: logout
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/RefreshTokenRequest'
+ *     responses:
+ *       200:
+ *         description: Logged out
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LogoutResponse'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ */
+router.post("/logout", validateRequest(refreshTokenSchema), AuthController.logout);
+
+export default router;
@@ -0,0 +1,418 @@
+/**
+ * Escrow Routes
+ *
+ * Escrows between two users (fund, list, get, release, refund, dispute).
+ * Every route acts for the authenticated user; admins resolve disputes
+ * through the admin routes.
+ *
+ * @module routes/escrows
+ */
+
+import { Router } from "express";
+import { EscrowController } from "../controllers/escrow.controller";
+import { authMiddleware } from "../middlewares/auth";
+import { validateRequest } from "../middlewares/validator";
+import { idempotencyMiddleware } from "../middlewares/idempotency";
+import {
+  createEscrowSchema,
+  listEscrowsSchema,
+  escrowParamsSchema,
+  settleEscrowSchema,
+  disputeEscrowSchema,
+} from "../utils/validation";
+
+const router = Router();
+
+/**
+ * @openapi
+ * /api/v1/escrows:
+ *   post:
+ *     tags:
+ *       - Escrows
+ *     summary: Fund an escrow
+ *     description: |
+ *       Moves funds from the authenticated user's (the payer's) wallet into escrow
+ *       for a beneficiary, given by user ID or by email, phone number or handle.
+ *       The beneficiary needs a wallet in the escrow currency.
+ *
+ *       Funding is an ordinary transfer to the escrow wallet: fees and tier limits
+ *       apply, and it appears in the payer's history with reference
+ *       `ESCROW-<escrow id>-FUND`. Release and refund move the funds on without
+ *       further fees. Send an `Idempotency-Key` header to make retries safe.
+ *
+ *       The escrow stays `funded` until the payer releases it, the beneficiary
+ *       refunds it, either party disputes it, or it times out (`expiresAt`, by
+ *       default ESCROW_TIMEOUT_DAYS from now, at most ESCROW_MAX_TIMEOUT_DAYS) and
+ *       is refunded to the payer.
+ *
+ *       **Authentication:** Required (Bearer token)
+ *     operationId: createEscrow
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateEscrowRequest'
+ *     responses:
+ *       201:
+ *         description: Escrow funded
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/CreateEscrowResponse'
+ *       400:
+ *         description: Validation error, escrow with self, or invalid timeout
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       404:
+ *         description: Beneficiary not found, or either user has no wallet in the currency
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundResponse'
+ *       422:
+ *         description: Insufficient funds, limit exceeded, or beneficiary cannot receive funds
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       503:
+ *         description: No escrow wallet is configured for the currency
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  "/",
+  authMiddleware,
+  validateRequest(createEscrowSchema),
+  idempotencyMiddleware,
+  EscrowController.create
+);
+
+/**
+ * @openapi
+ * /api/v1/escrows:
+ *   get:
+ *     tags:
+ *       - Escrows
+ *     summary: List escrows
+ *     description: |
+ *       Returns the escrows the authenticated user funded (`role=payer`, the default)
+ *       or is the beneficiary of (`role=beneficiary`), newest first.
+ *
+ *       **Authentication:** Required (Bearer token)
+ *     operationId: listEscrows
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: role
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [payer, beneficiary]
+ *           default: payer
+ *         description: Which side of the escrows to list
+ *       - in: query
+ *         name: status
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [funded, disputed, released, refunded, split]
+ *         description: Only return escrows with this status
+ *     responses:
+ *       200:
+ *         description: Escrows retrieved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/EscrowListResponse'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ */
+router.get(
+  "/",
+  authMiddleware,
+  validateRequest(listEscrowsSchema),
+  EscrowController.list
+);
+
+/**
+ * @openapi
+ * /api/v1/escrows/{escrowId}:
+ *   get:
+ *     tags:
+ *       - Escrows
+ *     summary: Get an escrow
+ *     description: |
+ *       Returns an escrow the authenticated user is a party to, with its audit
+ *       trail: every status change, who made it and why.
+ *
+ *       **Authentication:** Required (Bearer token)
+ *     operationId: getEscrow
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: escrowId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Escrow ID
+ *     responses:
+ *       200:
+ *         description: Escrow retrieved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/EscrowDetailsResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       404:
+ *         description: Escrow not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundResponse'
+ */
+router.get(
+  "/:escrowId",
+  authMiddleware,
+  validateRequest(escrowParamsSchema),
+  EscrowController.get
+);
+
+/**
+ * @openapi
+ * /api/v1/escrows/{escrowId}/release:
+ *   post:
+ *     tags:
+ *       - Escrows
+ *     summary: Release an escrow
+ *     description: |
+ *       Confirms the deal and pays the full amount to the beneficiary (reference
+ *       `ESCROW-<escrow id>-RELEASE`). A disputed escrow can only be resolved by
+ *       an admin.
+ *
+ *       **Authentication:** Required (Bearer token)
+ *
+ *       **Security:** Only the payer can release an escrow
+ *     operationId: releaseEscrow
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: escrowId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Escrow ID
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/SettleEscrowRequest'
+ *     responses:
+ *       200:
+ *         description: Escrow released
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/EscrowResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       404:
+ *         description: Escrow not found for this payer
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundResponse'
+ *       409:
+ *         description: Escrow is disputed or already settled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       422:
+ *         description: Beneficiary can no longer receive funds
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  "/:escrowId/release",
+  authMiddleware,
+  validateRequest(settleEscrowSchema),
+  EscrowController.release
+);
+
+/**
+ * @openapi
+ * /api/v1/escrows/{escrowId}/refund:
+ *   post:
+ *     tags:
+ *       - Escrows
+ *     summary: Refund an escrow
+ *     description: |
+ *       Backs out of the deal and returns the full amount to the payer (reference
+ *       `ESCROW-<escrow id>-REFUND`).
+ *
+ *       **Authentication:** Required (Bearer token)
+ *
+ *       **Security:** Only the beneficiary can refund an escrow
+ *     operationId: refundEscrow
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: escrowId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Escrow ID
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/SettleEscrowRequest'
+ *     responses:
+ *       200:
+ *         description: Escrow refunded
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/EscrowResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       404:
+ *         description: Escrow not found for this beneficiary
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundResponse'
+ *       409:
+ *         description: Escrow is disputed or already settled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  "/:escrowId/refund",
+  authMiddleware,
+  validateRequest(settleEscrowSchema),
+  EscrowController.refund
+);
+
+/**
+ * @openapi
+ * /api/v1/escrows/{escrowId}/dispute:
+ *   post:
+ *     tags:
+ *       - Escrows
+ *     summary: Dispute an escrow
+ *     description: |
+ *       Freezes a funded escrow until an admin releases, refunds or splits it. A
+ *       disputed escrow is not refunded when it times out, so a beneficiary who
+ *       delivered can dispute to stop an automatic refund.
+ *
+ *       **Authentication:** Required (Bearer token)
+ *
+ *       **Security:** Only the payer or the beneficiary can dispute an escrow
+ *     operationId: disputeEscrow
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: escrowId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Escrow ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/DisputeEscrowRequest'
+ *     responses:
+ *       200:
+ *         description: Escrow disputed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/EscrowResponse'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       404:
+ *         description: Escrow not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundResponse'
+ *       409:
+ *         description: Escrow is not funded or has timed out
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  "/:escrowId/dispute",
+  authMiddleware,
+  validateRequest(disputeEscrowSchema),
+  EscrowController.dispute
+);
+
+export default router;
@@ -0,0 +1,309 @@
+/**
+ * Loan Routes
+ *
+ * Loan products and applications (list products, apply, list and get
+ * applications, repayment schedules). Every route acts for the authenticated user; admins
+ * manage products and decide referred applications through the admin
+ * routes.
+ *
+ * @module routes/loans
+ */
+
+import { Router } from "express";
+import { LoanController } from "../controllers/loan.controller";
+import { authMiddleware } from "../middlewares/auth";
+import { validateRequest } from "../middlewares/validator";
+import { idempotencyMiddleware } from "../middlewares/idempotency";
+import {
+  applyForLoanSchema,
+  listLoanApplicationsSchema,
+  loanApplicationParamsSchema,
+} from "../utils/validation";
+
+const router = Router();
+
+/**
+ * @openapi
+ * /api/v1/loans/products:
+ *   get:
+ *     tags:
+ *       - Loans
+ *     summary: List loan products
+ *     description: |
+ *       Returns the loan products open for applications, by name: what can be
+ *       borrowed, for how long, the annual interest rate and the processing fee
+ *       (deducted from the amount paid out).
+ *
+ *       **Authentication:** Required (Bearer token)
+ *     operationId: listLoanProducts
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Loan products retrieved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LoanProductListResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ */
+router.get("/products", authMiddleware, LoanController.listProducts);
+
+/**
+ * @openapi
+ * /api/v1/loans/applications:
+ *   post:
+ *     tags:
+ *       - Loans
+ *     summary: Apply for a loan
+ *     description: |
+ *       Applies for an amount within a product's range, paid into the authenticated
+ *       user's wallet in the product currency. The product's tenor, rate and fee are
+ *       fixed on the application.
+ *
+ *       The application is checked straight away:
+ *       - Adjutor Karma: the user's email and phone number must not be blacklisted
+ *       - No loan already paid out and outstanding
+ *       - Wallet history: at least LOAN_MIN_CREDITS credits, adding up to at least
+ *         LOAN_MIN_INFLOW_PERCENT of the amount, over the last LOAN_HISTORY_DAYS days
+ *
+ *       A failed check declines the application; if Karma cannot be reached it goes to
+ *       an admin (`review`). An approved application is paid out at once, less the fee
+ *       (`disbursed`); if the payout fails it stays `approved` with `disbursement_error`
+ *       set. Every check's outcome is listed in `decision_reasons`.
+ *
+ *       Send an `Idempotency-Key` header to make retries safe.
+ *
+ *       **Authentication:** Required (Bearer token)
+ *     operationId: applyForLoan
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ApplyForLoanRequest'
+ *     responses:
+ *       201:
+ *         description: Application made and decided (or referred)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LoanApplicationResponse'
+ *       400:
+ *         description: Validation error, or amount outside the product's range
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       403:
+ *         description: The wallet is frozen or closed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Product not found, or no wallet in the product currency
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundResponse'
+ *       409:
+ *         description: Product not accepting applications, or another application is in review or approved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  "/applications",
+  authMiddleware,
+  validateRequest(applyForLoanSchema),
+  idempotencyMiddleware,
+  LoanController.apply
+);
+
+/**
+ * @openapi
+ * /api/v1/loans/applications:
+ *   get:
+ *     tags:
+ *       - Loans
+ *     summary: List loan applications
+ *     description: |
+ *       Returns the authenticated user's loan applications, newest first.
+ *
+ *       **Authentication:** Required (Bearer token)
+ *     operationId: listLoanApplications
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [review, approved, declined, disbursed, repaid]
+ *         description: Only return applications with this status
+ *     responses:
+ *       200:
+ *         description: Applications retrieved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LoanApplicationListResponse'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ */
+router.get(
+  "/applications",
+  authMiddleware,
+  validateRequest(listLoanApplicationsSchema),
+  LoanController.listApplications
+);
+
+/**
+ * @openapi
+ * /api/v1/loans/applications/{applicationId}:
+ *   get:
+ *     tags:
+ *       - Loans
+ *     summary: Get a loan application
+ *     description: |
+ *       Returns one of the authenticated user's loan applications with the outcome of
+ *       every check.
+ *
+ *       **Authentication:** Required (Bearer token)
+ *     operationId: getLoanApplication
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: applicationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Loan application ID
+ *     responses:
+ *       200:
+ *         description: Application retrieved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LoanApplicationResponse'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       404:
+ *         description: Application not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundResponse'
+ */
+router.get(
+  "/applications/:applicationId",
+  authMiddleware,
+  validateRequest(loanApplicationParamsSchema),
+  LoanController.getApplication
+);
+
+/**
+ * @openapi
+ * /api/v1/loans/{applicationId}/schedule:
+ *   get:
+ *     tags:
+ *       - Loans
+ *     summary: Get a loan's repayment schedule
+ *     description: |
+ *       Returns the installments of one of the authenticated user's loans, drawn up
+ *       when it was paid out: one a month for the tenor, due on the day of the month
+ *       the loan was paid out. Each shows its principal and interest (split by the
+ *       loan's `repayment_method`), any late penalty, and what has been collected.
+ *
+ *       Due installments are debited from the loan's wallet automatically, oldest
+ *       first; when the balance is short, what is available is collected and the rest
+ *       is retried later. An installment unpaid more than LOAN_PENALTY_GRACE_DAYS
+ *       after its due date accrues `late_penalty_bps` of its unpaid amount each day.
+ *       Once every installment is paid the loan is `repaid`.
+ *
+ *       A loan that has not been paid out has no installments.
+ *
+ *       **Authentication:** Required (Bearer token)
+ *     operationId: getLoanSchedule
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: applicationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Loan application ID
+ *     responses:
+ *       200:
+ *         description: Schedule retrieved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LoanScheduleResponse'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       404:
+ *         description: Loan not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundResponse'
+ */
+router.get(
+  "/:applicationId/schedule",
+  authMiddleware,
+  validateRequest(loanApplicationParamsSchema),
+  LoanController.getSchedule
+);
+
+export default router;
@@ -0,0 +1,420 @@
+/**
+ * Payment Request Routes
+ *
+ * Request-to-pay between users (create, incoming and outgoing lists, get,
+ * accept, decline, cancel). Every route acts for the authenticated user.
+ *
+ * @module routes/payment-requests
+ */
+
+import { Router } from "express";
+import { PaymentRequestController } from "../controllers/payment-request.controller";
+import { authMiddleware } from "../middlewares/auth";
+import { validateRequest } from "../middlewares/validator";
+import { idempotencyMiddleware } from "../middlewares/idempotency";
+import {
+  createPaymentRequestSchema,
+  listPaymentRequestsSchema,
+  paymentRequestParamsSchema,
+  acceptPaymentRequestSchema,
+} from "../utils/validation";
+
+const router = Router();
+
+/**
+ * @openapi
+ * /api/v1/payment-requests:
+ *   post:
+ *     tags:
+ *       - Payment Requests
+ *     summary: Request money from another user
+ *     description: |
+ *       Asks another user (the payer) to pay the authenticated user. The payer is
+ *       given by user ID or by email, phone number or handle. Both users need a
+ *       wallet in the request currency.
+ *
+ *       The request stays `pending` until the payer accepts or declines it, the
+ *       requester cancels it, or it expires (`expiresAt`, by default
+ *       PAYMENT_REQUEST_EXPIRY_HOURS from now, at most PAYMENT_REQUEST_MAX_EXPIRY_DAYS).
+ *
+ *       **Authentication:** Required (Bearer token)
+ *     operationId: createPaymentRequest
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreatePaymentRequestRequest'
+ *     responses:
+ *       201:
+ *         description: Payment request sent
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PaymentRequestResponse'
+ *       400:
+ *         description: Validation error, request to self, or invalid expiry
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       404:
+ *         description: Payer not found, or either user has no wallet in the currency
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundResponse'
+ */
+router.post(
+  "/",
+  authMiddleware,
+  validateRequest(createPaymentRequestSchema),
+  PaymentRequestController.create
+);
+
+/**
+ * @openapi
+ * /api/v1/payment-requests/incoming:
+ *   get:
+ *     tags:
+ *       - Payment Requests
+ *     summary: List requests to pay
+ *     description: |
+ *       Returns the requests the authenticated user has been asked to pay, newest first.
+ *
+ *       **Authentication:** Required (Bearer token)
+ *     operationId: listIncomingPaymentRequests
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [pending, paid, declined, expired, cancelled]
+ *         description: Only return requests with this status
+ *     responses:
+ *       200:
+ *         description: Payment requests retrieved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PaymentRequestListResponse'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ */
+router.get(
+  "/incoming",
+  authMiddleware,
+  validateRequest(listPaymentRequestsSchema),
+  PaymentRequestController.listIncoming
+);
+
+/**
+ * @openapi
+ * /api/v1/payment-requests/outgoing:
+ *   get:
+ *     tags:
+ *       - Payment Requests
+ *     summary: List requests made
+ *     description: |
+ *       Returns the requests the authenticated user has made, newest first.
+ *
+ *       **Authentication:** Required (Bearer token)
+ *     operationId: listOutgoingPaymentRequests
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [pending, paid, declined, expired, cancelled]
+ *         description: Only return requests with this status
+ *     responses:
+ *       200:
+ *         description: Payment requests retrieved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PaymentRequestListResponse'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ */
+router.get(
+  "/outgoing",
+  authMiddleware,
+  validateRequest(listPaymentRequestsSchema),
+  PaymentRequestController.listOutgoing
+);
+
+/**
+ * @openapi
+ * /api/v1/payment-requests/{requestId}:
+ *   get:
+ *     tags:
+ *       - Payment Requests
+ *     summary: Get a payment request
+ *     description: |
+ *       Returns a request the authenticated user made or was asked to pay.
+ *
+ *       **Authentication:** Required (Bearer token)
+ *     operationId: getPaymentRequest
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: requestId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Payment request ID
+ *     responses:
+ *       200:
+ *         description: Payment request retrieved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PaymentRequestResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       404:
+ *         description: Payment request not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundResponse'
+ */
+router.get(
+  "/:requestId",
+  authMiddleware,
+  validateRequest(paymentRequestParamsSchema),
+  PaymentRequestController.get
+);
+
+/**
+ * @openapi
+ * /api/v1/payment-requests/{requestId}/accept:
+ *   post:
+ *     tags:
+ *       - Payment Requests
+ *     summary: Pay a payment request
+ *     description: |
+ *       Transfers the requested amount from the payer's wallet to the requester's
+ *       wallet and marks the request `paid`. This is an ordinary transfer: fees and
+ *       tier limits apply, and it appears in both transaction histories with
+ *       reference `PAYREQ-<request id>` and the request ID in its metadata.
+ *       Send an `Idempotency-Key` header to make retries safe.
+ *
+ *       **Authentication:** Required (Bearer token)
+ *
+ *       **Security:** Only the payer can accept a request
+ *     operationId: acceptPaymentRequest
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: requestId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Payment request ID
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/AcceptPaymentRequestRequest'
+ *     responses:
+ *       200:
+ *         description: Payment request paid
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AcceptPaymentRequestResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       404:
+ *         description: Payment request not found for this payer
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundResponse'
+ *       409:
+ *         description: Request is no longer pending or has expired
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       422:
+ *         description: Insufficient funds, limit exceeded, or requester cannot receive transfers
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  "/:requestId/accept",
+  authMiddleware,
+  validateRequest(acceptPaymentRequestSchema),
+  idempotencyMiddleware,
+  PaymentRequestController.accept
+);
+
+/**
+ * @openapi
+ * /api/v1/payment-requests/{requestId}/decline:
+ *   post:
+ *     tags:
+ *       - Payment Requests
+ *     summary: Decline a payment request
+ *     description: |
+ *       Turns down a pending request. A request already past its expiry is marked
+ *       `expired` instead.
+ *
+ *       **Authentication:** Required (Bearer token)
+ *
+ *       **Security:** Only the payer can decline a request
+ *     operationId: declinePaymentRequest
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: requestId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Payment request ID
+ *     responses:
+ *       200:
+ *         description: Payment request declined
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PaymentRequestResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       404:
+ *         description: Payment request not found for this payer
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundResponse'
+ *       409:
+ *         description: Request is no longer pending
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  "/:requestId/decline",
+  authMiddleware,
+  validateRequest(paymentRequestParamsSchema),
+  PaymentRequestController.decline
+);
+
+/**
+ * @openapi
+ * /api/v1/payment-requests/{requestId}/cancel:
+ *   post:
+ *     tags:
+ *       - Payment Requests
+ *     summary: Cancel a payment request
+ *     description: |
+ *       Withdraws a pending request. A request already past its expiry is marked
+ *       `expired` instead.
+ *
+ *       **Authentication:** Required (Bearer token)
+ *
+ *       **Security:** Only the requester can cancel a request
+ *     operationId: cancelPaymentRequest
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: requestId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Payment request ID
+ *     responses:
+ *       200:
+ *         description: Payment request cancelled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PaymentRequestResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       404:
+ *         description: Payment request not found for this requester
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundResponse'
+ *       409:
+ *         description: Request is no longer pending
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  "/:requestId/cancel",
+  authMiddleware,
+  validateRequest(paymentRequestParamsSchema),
+  PaymentRequestController.cancel
+);
+
+export default router;
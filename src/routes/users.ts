@@ -10,7 +10,7 @@ import { Router } from "express";
 import { UserController } from "../controllers/user.controller";
 import { authMiddleware } from "../middlewares/auth";
 import { validateRequest } from "../middlewares/validator";
-import { getUserSchema } from "../utils/validation";
+import { getUserSchema, setHandleSchema } from "../utils/validation";
 
 const router = Router();
 
@@ -124,5 +124,75 @@ router.get(
   UserController.getById
 );
 
+/**
+ * @openapi
+ * /api/v1/users/{id}/handle:
+ *   patch:
+ *     tags:
+ *       - Users
+ *     summary: Set or change the user's handle
+ *     description: |
+ *       Sets the handle other users can send transfers to (`recipient: "@handle"` on
+ *       `POST /api/v1/wallets/transfer`). Handles are unique and case-insensitive.
+ *       
+ *       **Authentication:** Required (Bearer token)
+ *       
+ *       **Security:** Users can only change their own handle
+ *     operationId: setUserHandle
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: User's unique identifier (must match authenticated user)
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/SetHandleRequest'
+ *     responses:
+ *       200:
+ *         description: Handle updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SetHandleResponse'
+ *       400:
+ *         description: Invalid handle format
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized - Missing or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       403:
+ *         description: Forbidden - Attempting to change another user's handle
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ForbiddenResponse'
+ *       409:
+ *         description: Handle already taken by another user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.patch(
+  "/:id/handle",
+  authMiddleware,
+  validateRequest(setHandleSchema),
+  UserController.setHandle
+);
+
 export default router;
 
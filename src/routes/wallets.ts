@@ -1,20 +1,53 @@
 /**
  * Wallet Routes
  * 
- * Handles wallet operations (fund, withdraw, transfer, balance).
+ * Handles wallet operations (list, open, fund, withdraw, transfer, recipient
+ * lookup, fee simulation, convert, balance, limits, history, holds,
+ * scheduled transfers, savings pots, bulk payouts).
  * 
  * @module routes/wallets
  */
 
 import { Router } from "express";
 import { WalletController } from "../controllers/wallet.controller";
+import { HoldController } from "../controllers/hold.controller";
+import { FxController } from "../controllers/fx.controller";
+import { FeeController } from "../controllers/fee.controller";
+import { LimitController } from "../controllers/limit.controller";
+import { ScheduledTransferController } from "../controllers/scheduled-transfer.controller";
+import { SavingsPotController } from "../controllers/savings-pot.controller";
+import { PayoutController } from "../controllers/payout.controller";
 import { authMiddleware } from "../middlewares/auth";
 import { validateRequest } from "../middlewares/validator";
+import { idempotencyMiddleware } from "../middlewares/idempotency";
 import {
   fundWalletSchema,
   withdrawWalletSchema,
   transferSchema,
+  lookupRecipientSchema,
   getBalanceSchema,
+  transactionHistorySchema,
+  createHoldSchema,
+  listHoldsSchema,
+  holdParamsSchema,
+  captureHoldSchema,
+  listWalletsSchema,
+  openWalletSchema,
+  createFxQuoteSchema,
+  convertSchema,
+  simulateFeeSchema,
+  getLimitsSchema,
+  createScheduledTransferSchema,
+  listScheduledTransfersSchema,
+  scheduledTransferParamsSchema,
+  createSavingsPotSchema,
+  listSavingsPotsSchema,
+  savingsPotParamsSchema,
+  depositSavingsPotSchema,
+  withdrawSavingsPotSchema,
+  createPayoutSchema,
+  listPayoutsSchema,
+  payoutParamsSchema,
 } from "../utils/validation";
 
 const router = Router();
@@ -39,6 +72,7 @@ const router = Router();
  *       - Server automatically generates a unique reference
  *       - Reference format: FUND-{userId}-{timestamp}-{random}
  *       - Reference is returned in the response for tracking
+ *       - Send an `Idempotency-Key` header to make retries safe: a replay with the same key and body returns the stored response
  *       
  *       **Transaction Safety:**
  *       - Uses MySQL transactions with row-level locking
@@ -48,6 +82,7 @@ const router = Router();
  *     security:
  *       - BearerAuth: []
  *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *       - in: path
  *         name: userId
  *         required: true
@@ -66,11 +101,11 @@ const router = Router();
  *             basicFunding:
  *               summary: Basic wallet funding
  *               value:
- *                 amount: 500.00
+ *                 amount: "500.00"
  *             fundingWithMetadata:
  *               summary: Funding with metadata
  *               value:
- *                 amount: 1000.00
+ *                 amount: "1000.00"
  *                 metadata:
  *                   source: "bank_transfer"
  *                   description: "Salary deposit"
@@ -100,11 +135,19 @@ const router = Router();
  *             schema:
  *               $ref: '#/components/schemas/NotFoundResponse'
  *       409:
- *         description: Duplicate reference (idempotency check failed)
+ *         description: Duplicate reference, or a request with the same Idempotency-Key is still in progress
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/DuplicateReferenceResponse'
+ *       422:
+ *         description: Idempotency-Key reused with a different request body, or the wallet would exceed its tier's maximum balance
+ *         content:
+ *           application/json:
+ *             schema:
+ *               oneOf:
+ *                 - $ref: '#/components/schemas/IdempotencyKeyMismatchResponse'
+ *                 - $ref: '#/components/schemas/LimitExceededResponse'
  *       500:
  *         description: Internal server error
  *         content:
@@ -116,6 +159,7 @@ router.post(
   "/:userId/fund",
   authMiddleware,
   validateRequest(fundWalletSchema),
+  idempotencyMiddleware,
   WalletController.fund
 );
 
@@ -136,13 +180,24 @@ router.post(
  *       - Returns 403 Forbidden if attempting to withdraw from another user's wallet
  *       
  *       **Balance Check:**
- *       - Amount must not exceed current wallet balance
+ *       - Amount plus fee must not exceed the available wallet balance
  *       - Returns 400 Bad Request if insufficient balance
  *       
+ *       **Fees:**
+ *       - Priced by the active fee rules for the currency, `channel` and the user's tier
+ *       - Charged on top of the amount as a separate `fee` transaction (reference `{reference}-FEE`)
+ *       - Returned in `data.fee`; preview it first with `POST /api/v1/wallets/fees/simulate`
+ *       
+ *       **Limits:**
+ *       - The amount is checked against the user's tier limits (single transaction, daily and monthly) for the currency
+ *       - A breach returns 403 with a `limit` object naming the limit
+ *       - See current usage with `GET /api/v1/wallets/{userId}/limits`
+ *       
  *       **Idempotency:**
  *       - Server automatically generates a unique reference
  *       - Reference format: WITHDRAW-{userId}-{timestamp}-{random}
  *       - Reference is returned in the response for tracking
+ *       - Send an `Idempotency-Key` header to make retries safe: a replay with the same key and body returns the stored response
  *       
  *       **Transaction Safety:**
  *       - Uses MySQL transactions with row-level locking (`SELECT ... FOR UPDATE`)
@@ -152,6 +207,7 @@ router.post(
  *     security:
  *       - BearerAuth: []
  *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *       - in: path
  *         name: userId
  *         required: true
@@ -170,11 +226,11 @@ router.post(
  *             basicWithdrawal:
  *               summary: Basic withdrawal
  *               value:
- *                 amount: 200.00
+ *                 amount: "200.00"
  *             withdrawalWithMetadata:
  *               summary: Withdrawal with metadata
  *               value:
- *                 amount: 500.00
+ *                 amount: "500.00"
  *                 metadata:
  *                   destination: "bank_account"
  *                   accountNumber: "0123456789"
@@ -199,6 +255,12 @@ router.post(
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       403:
+ *         description: Not the wallet owner, or a tier limit (max_single, daily, monthly) would be exceeded
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LimitExceededResponse'
  *       404:
  *         description: Wallet not found
  *         content:
@@ -206,11 +268,23 @@ router.post(
  *             schema:
  *               $ref: '#/components/schemas/NotFoundResponse'
  *       409:
- *         description: Duplicate reference (idempotency check failed)
+ *         description: Duplicate reference, or a request with the same Idempotency-Key is still in progress
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/DuplicateReferenceResponse'
+ *       422:
+ *         description: Idempotency-Key reused with a different request body
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/IdempotencyKeyMismatchResponse'
+ *       503:
+ *         description: A fee applies but no fee revenue wallet is configured for the currency
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
  *       500:
  *         description: Internal server error
  *         content:
@@ -222,6 +296,7 @@ router.post(
   "/:userId/withdraw",
   authMiddleware,
   validateRequest(withdrawWalletSchema),
+  idempotencyMiddleware,
   WalletController.withdraw
 );
 
@@ -235,6 +310,10 @@ router.post(
  *     description: |
  *       Transfer funds from one user's wallet to another. Reference is automatically generated for idempotency.
  *       
+ *       **Recipient:** send either `toUserId` or `recipient` — the recipient's email, phone
+ *       number or `@handle`. Use `GET /api/v1/wallets/recipients/lookup` first to show the
+ *       sender the (masked) name they are about to pay.
+ *       
  *       **Authentication:** Required (Bearer token)
  *       
  *       **Security:**
@@ -243,13 +322,25 @@ router.post(
  *       
  *       **Validation:**
  *       - Sender and recipient must be different users
- *       - Sender must have sufficient balance
+ *       - Blocked and blacklisted users cannot receive transfers (422)
+ *       - Sender must have sufficient balance (amount plus fee)
  *       - Both wallets must exist
  *       
+ *       **Fees:**
+ *       - The sender pays any fee on top of the amount; the recipient receives the full amount
+ *       - Priced by the active fee rules for the currency, `channel` and the sender's tier
+ *       - Posted as a separate `fee` transaction (reference `{reference}-FEE`) and returned in `data.fee`
+ *       
+ *       **Limits:**
+ *       - The amount is checked against the sender's tier limits (single transaction, daily and monthly) for the currency
+ *       - A breach returns 403 with a `limit` object naming the limit (the recipient's maximum balance returns 422)
+ *       - See current usage with `GET /api/v1/wallets/{userId}/limits`
+ *       
  *       **Idempotency:**
  *       - Server automatically generates a unique reference
  *       - Reference format: TRANSFER-{fromUserId}-{timestamp}-{random}
  *       - Reference is returned in the response for tracking
+ *       - Send an `Idempotency-Key` header to make retries safe: a replay with the same key and body returns the stored response
  *       
  *       **Transaction Safety:**
  *       - Uses MySQL transactions with row-level locking on BOTH wallets
@@ -260,6 +351,8 @@ router.post(
  *     operationId: transferFunds
  *     security:
  *       - BearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
@@ -272,13 +365,19 @@ router.post(
  *               value:
  *                 fromUserId: "550e8400-e29b-41d4-a716-446655440000"
  *                 toUserId: "770e8400-e29b-41d4-a716-446655440111"
- *                 amount: 300.00
+ *                 amount: "300.00"
+ *             transferByHandle:
+ *               summary: Transfer to a handle, email or phone number
+ *               value:
+ *                 fromUserId: "550e8400-e29b-41d4-a716-446655440000"
+ *                 recipient: "@janedoe"
+ *                 amount: "300.00"
  *             transferWithMetadata:
  *               summary: Transfer with metadata
  *               value:
  *                 fromUserId: "550e8400-e29b-41d4-a716-446655440000"
  *                 toUserId: "770e8400-e29b-41d4-a716-446655440111"
- *                 amount: 500.00
+ *                 amount: "500.00"
  *                 metadata:
  *                   reason: "payment"
  *                   description: "Invoice #12345"
@@ -316,8 +415,14 @@ router.post(
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       403:
+ *         description: Not the sender, or a sender tier limit (max_single, daily, monthly) would be exceeded
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LimitExceededResponse'
  *       404:
- *         description: Sender or recipient wallet not found
+ *         description: Sender or recipient wallet not found, or no user matches the recipient identifier
  *         content:
  *           application/json:
  *             schema:
@@ -336,11 +441,26 @@ router.post(
  *                   error: "Not Found"
  *                   message: "Recipient wallet not found"
  *       409:
- *         description: Duplicate reference (idempotency check failed)
+ *         description: Duplicate reference, or a request with the same Idempotency-Key is still in progress
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/DuplicateReferenceResponse'
+ *       422:
+ *         description: Idempotency-Key reused with a different request body, the recipient's wallet would exceed its maximum balance, or the recipient cannot receive transfers (blocked or blacklisted)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               oneOf:
+ *                 - $ref: '#/components/schemas/IdempotencyKeyMismatchResponse'
+ *                 - $ref: '#/components/schemas/LimitExceededResponse'
+ *                 - $ref: '#/components/schemas/ErrorResponse'
+ *       503:
+ *         description: A fee applies but no fee revenue wallet is configured for the currency
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
  *       500:
  *         description: Internal server error
  *         content:
@@ -352,9 +472,300 @@ router.post(
   "/transfer",
   authMiddleware,
   validateRequest(transferSchema),
+  idempotencyMiddleware,
   WalletController.transfer
 );
 
+/**
+ * @openapi
+ * /api/v1/wallets/recipients/lookup:
+ *   get:
+ *     tags:
+ *       - Wallets
+ *     summary: Look up a transfer recipient
+ *     description: |
+ *       Resolves an email, phone number or handle to the user it belongs to and returns
+ *       their masked name (e.g. `J*** D**`) so the sender can confirm before transferring.
+ *       
+ *       **Identifier:** an address with `@` after the first character is an email;
+ *       digits (optionally with a leading `+`, spaces or dashes) are a phone number;
+ *       anything else is a handle (the leading `@` is optional).
+ *       
+ *       **Authentication:** Required (Bearer token)
+ *     operationId: lookupRecipient
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: identifier
+ *         required: true
+ *         schema:
+ *           type: string
+ *           maxLength: 150
+ *         description: Recipient's email, phone number or handle
+ *         example: "@janedoe"
+ *     responses:
+ *       200:
+ *         description: Recipient found and able to receive transfers
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RecipientLookupResponse'
+ *       400:
+ *         description: Validation error, or the identifier is the sender's own
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       404:
+ *         description: No user matches the identifier
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundResponse'
+ *       422:
+ *         description: The recipient cannot receive transfers (blocked or blacklisted)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  "/recipients/lookup",
+  authMiddleware,
+  validateRequest(lookupRecipientSchema),
+  WalletController.lookupRecipient
+);
+
+/**
+ * @openapi
+ * /api/v1/wallets/fees/simulate:
+ *   post:
+ *     tags:
+ *       - Wallets
+ *     summary: Preview the fee for a withdrawal or transfer
+ *     description: |
+ *       Prices a withdrawal or transfer with the current fee rules without moving any money,
+ *       so the user can confirm the fee before committing.
+ *       
+ *       **Authentication:** Required (Bearer token)
+ *       
+ *       **Security:** Users can only simulate fees for themselves
+ *       
+ *       **Pricing:**
+ *       - The most specific active rule for the operation, currency, `channel` and the user's tier applies
+ *       - `flat`: a fixed fee; `percentage`: basis points of the amount (plus an optional fixed part);
+ *         `tiered`: the fixed fee and/or basis points of the band the amount falls in
+ *       - A rule's `min_fee`/`max_fee` floor and cap the result (`breakdown.adjustment`)
+ *       - No matching rule means no fee
+ *     operationId: simulateFee
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/SimulateFeeRequest'
+ *     responses:
+ *       200:
+ *         description: Fee calculated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SimulateFeeResponse'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       403:
+ *         description: Forbidden - not the authenticated user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ForbiddenResponse'
+ *       404:
+ *         description: User not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundResponse'
+ */
+router.post(
+  "/fees/simulate",
+  authMiddleware,
+  validateRequest(simulateFeeSchema),
+  FeeController.simulate
+);
+
+/**
+ * @openapi
+ * /api/v1/wallets/convert/quotes:
+ *   post:
+ *     tags:
+ *       - Wallets
+ *     summary: Quote a currency conversion
+ *     description: |
+ *       Prices a conversion between two of the user's currencies and holds the
+ *       price for `FX_QUOTE_TTL_SECONDS`.
+ *       
+ *       - `rate` is the provider's mid rate less `spread_bps`
+ *       - `fee` (source currency) is charged on top of `amount`
+ *       - `spread` is what the spread costs, in the target currency
+ *       
+ *       **Authentication:** Required (Bearer token)
+ *       
+ *       **Security:** Users can only request quotes for themselves
+ *     operationId: createFxQuote
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateFxQuoteRequest'
+ *     responses:
+ *       201:
+ *         description: Quote created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/FxQuoteResponse'
+ *       400:
+ *         description: Validation error or unsupported currency
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       403:
+ *         description: Forbidden - not the authenticated user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ForbiddenResponse'
+ *       422:
+ *         description: No rate for the pair, or the amount is too small to convert
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  "/convert/quotes",
+  authMiddleware,
+  validateRequest(createFxQuoteSchema),
+  FxController.createQuote
+);
+
+/**
+ * @openapi
+ * /api/v1/wallets/convert:
+ *   post:
+ *     tags:
+ *       - Wallets
+ *     summary: Execute a currency conversion
+ *     description: |
+ *       Executes an open quote atomically: the source wallet is debited the
+ *       quoted amount plus fee and the target wallet is credited the converted
+ *       amount in one database transaction. Each quote can be executed once.
+ *       
+ *       The conversion appears in transaction history as `conversion-out`,
+ *       `fee` (when charged) and `conversion-in` transactions sharing one reference.
+ *       The fee is credited to the fee revenue wallet.
+ *       
+ *       **Authentication:** Required (Bearer token)
+ *       
+ *       **Security:** Users can only convert funds in their own wallets
+ *     operationId: convertCurrency
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ConvertRequest'
+ *     responses:
+ *       200:
+ *         description: Conversion completed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ConvertResponse'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       403:
+ *         description: Forbidden - not the authenticated user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ForbiddenResponse'
+ *       404:
+ *         description: Quote not found, or the user has no wallet in one of the currencies
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundResponse'
+ *       409:
+ *         description: Quote already executed or expired
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       422:
+ *         description: Insufficient available balance for amount plus fee, or the target wallet would exceed its maximum balance
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       503:
+ *         description: A fee applies but no fee revenue wallet is configured for the source currency
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  "/convert",
+  authMiddleware,
+  validateRequest(convertSchema),
+  idempotencyMiddleware,
+  FxController.convert
+);
+
 /**
  * @openapi
  * /api/v1/wallets/{userId}/balance:
@@ -363,15 +774,15 @@ router.post(
  *       - Wallets
  *     summary: Get wallet balance
  *     description: |
- *       Retrieve the current balance and details of a user's wallet.
+ *       Retrieve the current balances of a user's wallet.
  *       
  *       **Authentication:** Required (Bearer token)
  *       
  *       **Information Returned:**
- *       - Current wallet balance
- *       - Wallet ID and user ID
- *       - Currency (NGN)
- *       - Creation and update timestamps
+ *       - `balance`: ledger balance, including funds reserved by holds
+ *       - `available_balance`: what can be withdrawn, transferred or held
+ *       - `held_balance`: sum of active holds
+ *       - Currency and wallet ID
  *     operationId: getWalletBalance
  *     security:
  *       - BearerAuth: []
@@ -384,6 +795,8 @@ router.post(
  *           format: uuid
  *         description: User's unique identifier (UUID)
  *         example: "550e8400-e29b-41d4-a716-446655440000"
+ *       - $ref: '#/components/parameters/WalletIdQuery'
+ *       - $ref: '#/components/parameters/CurrencyQuery'
  *     responses:
  *       200:
  *         description: Balance retrieved successfully
@@ -393,15 +806,12 @@ router.post(
  *               $ref: '#/components/schemas/GetBalanceResponse'
  *             example:
  *               success: true
- *               message: "Balance retrieved successfully"
  *               data:
- *                 wallet:
- *                   id: "660f9510-f39c-52e5-b827-557766551111"
- *                   userId: "550e8400-e29b-41d4-a716-446655440000"
- *                   balance: "1500.50"
- *                   currency: "NGN"
- *                   createdAt: "2024-01-15T10:30:00.000Z"
- *                   updatedAt: "2024-01-15T12:45:00.000Z"
+ *                 balance: "1500.500000"
+ *                 available_balance: "1300.500000"
+ *                 held_balance: "200.000000"
+ *                 currency: "NGN"
+ *                 wallet_id: "660f9510-f39c-52e5-b827-557766551111"
  *       400:
  *         description: Invalid UUID format
  *         content:
@@ -421,6 +831,12 @@ router.post(
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       403:
+ *         description: Forbidden - not the wallet owner
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ForbiddenResponse'
  *       404:
  *         description: Wallet not found
  *         content:
@@ -445,5 +861,1894 @@ router.get(
   WalletController.getBalance
 );
 
+/**
+ * @openapi
+ * /api/v1/wallets/{userId}/limits:
+ *   get:
+ *     tags:
+ *       - Wallets
+ *     summary: Get wallet limits and usage
+ *     description: |
+ *       Returns the limits of the user's tier for the wallet's currency and how much of them is used.
+ *       
+ *       **Authentication:** Required (Bearer token)
+ *       
+ *       **Information Returned:**
+ *       - `limits`: single transaction, daily, monthly and maximum balance limits (null = unlimited)
+ *       - `used`: withdrawals and outgoing transfers since the start of the UTC day and month, and the current balance
+ *       - `remaining`: what can still be sent today and this month
+ *     operationId: getWalletLimits
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: User's unique identifier (must match authenticated user)
+ *       - $ref: '#/components/parameters/WalletIdQuery'
+ *       - $ref: '#/components/parameters/CurrencyQuery'
+ *     responses:
+ *       200:
+ *         description: Limits retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LimitUsageResponse'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       403:
+ *         description: Forbidden - not the wallet owner
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ForbiddenResponse'
+ *       404:
+ *         description: Wallet not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundResponse'
+ */
+router.get(
+  "/:userId/limits",
+  authMiddleware,
+  validateRequest(getLimitsSchema),
+  LimitController.getUsage
+);
+
+/**
+ * @openapi
+ * /api/v1/wallets/{userId}/transactions:
+ *   get:
+ *     tags:
+ *       - Wallets
+ *     summary: Get transaction history
+ *     description: |
+ *       Retrieve the wallet's transaction history, newest first.
+ *       
+ *       **Authentication:** Required (Bearer token)
+ *       
+ *       **Security:**
+ *       - User can only view their own transaction history
+ *       
+ *       **Pagination:**
+ *       - Cursor-based (keyset on `created_at`, `id`) so pages stay stable while new transactions arrive
+ *       - Pass `pagination.next_cursor` from the previous response as `cursor` to get the next page
+ *       - `next_cursor` is `null` on the last page
+ *       
+ *       **Filters:**
+ *       - `type`: comma-separated list of transaction types
+ *       - `from` (inclusive) / `to` (exclusive): ISO 8601 date range on `created_at`
+ *       - `minAmount` / `maxAmount`: inclusive amount range
+ *       - `reference`: reference prefix (e.g. `FUND-` or a full transfer reference)
+ *     operationId: getTransactionHistory
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: User's unique identifier (must match authenticated user)
+ *         example: "550e8400-e29b-41d4-a716-446655440000"
+ *       - $ref: '#/components/parameters/WalletIdQuery'
+ *       - $ref: '#/components/parameters/CurrencyQuery'
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *         description: Page size
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: Opaque cursor from the previous page
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *         description: Comma-separated transaction types (credit, debit, transfer-in, transfer-out, reversal, conversion-out, conversion-in, fee, fee-income)
+ *         example: "credit,transfer-in"
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only transactions created at or after this time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only transactions created before this time
+ *       - in: query
+ *         name: minAmount
+ *         schema:
+ *           type: string
+ *         description: Minimum amount (inclusive)
+ *         example: "100.00"
+ *       - in: query
+ *         name: maxAmount
+ *         schema:
+ *           type: string
+ *         description: Maximum amount (inclusive)
+ *         example: "5000.00"
+ *       - in: query
+ *         name: reference
+ *         schema:
+ *           type: string
+ *         description: Reference prefix
+ *         example: "TRANSFER-"
+ *     responses:
+ *       200:
+ *         description: Transaction history page
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/TransactionHistoryResponse'
+ *       400:
+ *         description: Invalid filters or cursor
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       403:
+ *         description: Attempting to view another user's history
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ForbiddenResponse'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/InternalServerErrorResponse'
+ */
+router.get(
+  "/:userId/transactions",
+  authMiddleware,
+  validateRequest(transactionHistorySchema),
+  WalletController.getTransactions
+);
+
+/**
+ * @openapi
+ * /api/v1/wallets/{userId}/holds:
+ *   post:
+ *     tags:
+ *       - Wallets
+ *     summary: Place a hold on a wallet
+ *     description: |
+ *       Reserves funds without moving them (card authorizations, loan collateral).
+ *       The held amount stays in the ledger balance but is removed from the available
+ *       balance until the hold is captured, released or expires.
+ *       
+ *       **Authentication:** Required (Bearer token)
+ *       
+ *       **Security:** Users can only place holds on their own wallet
+ *     operationId: createWalletHold
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Wallet owner's user ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateHoldRequest'
+ *     responses:
+ *       201:
+ *         description: Hold placed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/HoldResponse'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       403:
+ *         description: Forbidden - not the wallet owner
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ForbiddenResponse'
+ *       422:
+ *         description: Insufficient available balance
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *   get:
+ *     tags:
+ *       - Wallets
+ *     summary: List holds on a wallet
+ *     description: |
+ *       Returns the wallet's holds, newest first.
+ *       
+ *       **Authentication:** Required (Bearer token)
+ *     operationId: listWalletHolds
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Wallet owner's user ID
+ *       - in: query
+ *         name: status
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [active, captured, released, expired]
+ *         description: Only return holds with this status
+ *     responses:
+ *       200:
+ *         description: Holds retrieved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/HoldListResponse'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       403:
+ *         description: Forbidden - not the wallet owner
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ForbiddenResponse'
+ */
+router.post(
+  "/:userId/holds",
+  authMiddleware,
+  validateRequest(createHoldSchema),
+  HoldController.create
+);
+
+router.get(
+  "/:userId/holds",
+  authMiddleware,
+  validateRequest(listHoldsSchema),
+  HoldController.list
+);
+
+/**
+ * @openapi
+ * /api/v1/wallets/{userId}/holds/{holdId}:
+ *   get:
+ *     tags:
+ *       - Wallets
+ *     summary: Get a hold
+ *     description: |
+ *       **Authentication:** Required (Bearer token)
+ *     operationId: getWalletHold
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Wallet owner's user ID
+ *       - in: path
+ *         name: holdId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Hold ID
+ *     responses:
+ *       200:
+ *         description: Hold retrieved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/HoldResponse'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       403:
+ *         description: Forbidden - not the wallet owner
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ForbiddenResponse'
+ *       404:
+ *         description: Hold not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundResponse'
+ */
+router.get(
+  "/:userId/holds/:holdId",
+  authMiddleware,
+  validateRequest(holdParamsSchema),
+  HoldController.get
+);
+
+/**
+ * @openapi
+ * /api/v1/wallets/{userId}/holds/{holdId}/capture:
+ *   post:
+ *     tags:
+ *       - Wallets
+ *     summary: Capture a hold
+ *     description: |
+ *       Debits the wallet for the full hold, or for a smaller `amount`; any remainder
+ *       is released. The debit appears in the transaction history with reference
+ *       `<hold reference>-CAPTURE`.
+ *       
+ *       A capture is treated as a withdrawal: it counts towards the tier's single,
+ *       daily and monthly limits, and the withdrawal fee is charged on top of the
+ *       captured amount from the available balance.
+ *       
+ *       **Authentication:** Required (Bearer token)
+ *     operationId: captureWalletHold
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Wallet owner's user ID
+ *       - in: path
+ *         name: holdId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Hold ID
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CaptureHoldRequest'
+ *     responses:
+ *       200:
+ *         description: Hold captured
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/HoldResponse'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       403:
+ *         description: Not the wallet owner, or a tier limit (max_single, daily, monthly) would be exceeded
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LimitExceededResponse'
+ *       404:
+ *         description: Hold not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundResponse'
+ *       409:
+ *         description: Hold is no longer active or has expired
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       422:
+ *         description: Capture amount exceeds the hold, or the available balance cannot cover the fee
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       503:
+ *         description: A fee applies but no fee revenue wallet is configured for the currency
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  "/:userId/holds/:holdId/capture",
+  authMiddleware,
+  validateRequest(captureHoldSchema),
+  HoldController.capture
+);
+
+/**
+ * @openapi
+ * /api/v1/wallets/{userId}/holds/{holdId}/release:
+ *   post:
+ *     tags:
+ *       - Wallets
+ *     summary: Release a hold
+ *     description: |
+ *       Returns the held amount to the available balance without moving money.
+ *       
+ *       **Authentication:** Required (Bearer token)
+ *     operationId: releaseWalletHold
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Wallet owner's user ID
+ *       - in: path
+ *         name: holdId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Hold ID
+ *     responses:
+ *       200:
+ *         description: Hold released
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/HoldResponse'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       403:
+ *         description: Forbidden - not the wallet owner
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ForbiddenResponse'
+ *       404:
+ *         description: Hold not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundResponse'
+ *       409:
+ *         description: Hold is no longer active or has expired
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  "/:userId/holds/:holdId/release",
+  authMiddleware,
+  validateRequest(holdParamsSchema),
+  HoldController.release
+);
+
+/**
+ * @openapi
+ * /api/v1/wallets/{userId}/scheduled-transfers:
+ *   post:
+ *     tags:
+ *       - Wallets
+ *     summary: Schedule a transfer
+ *     description: |
+ *       Sets up a transfer that the server executes later: once at `startAt`, or
+ *       repeatedly on a `recurrence` rule until `endAt` or `maxRuns`.
+ *       
+ *       **Recurrence:** a subset of iCalendar RRULE, e.g. `FREQ=MONTHLY;BYMONTHDAY=1`,
+ *       `FREQ=WEEKLY;BYDAY=MO,FR` or `FREQ=DAILY;INTERVAL=2`. Every run keeps the
+ *       time of day of `startAt` (UTC).
+ *       
+ *       **Execution:** each run is an ordinary transfer (fees and limits apply) with
+ *       reference `SCHED-<schedule id>-<occurrence>`. Runs that fail for a reason that
+ *       may clear up, such as insufficient funds, are retried after
+ *       SCHEDULED_TRANSFER_RETRY_MINUTES, up to SCHEDULED_TRANSFER_MAX_ATTEMPTS attempts.
+ *       Every attempt is kept in the schedule's run history.
+ *       
+ *       **Authentication:** Required (Bearer token)
+ *       
+ *       **Security:** Users can only schedule transfers from their own wallet
+ *     operationId: createScheduledTransfer
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Sender's user ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateScheduledTransferRequest'
+ *     responses:
+ *       201:
+ *         description: Transfer scheduled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ScheduledTransferResponse'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       403:
+ *         description: Forbidden - not the sender
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ForbiddenResponse'
+ *       404:
+ *         description: Sender or recipient has no wallet in the currency
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundResponse'
+ *   get:
+ *     tags:
+ *       - Wallets
+ *     summary: List scheduled transfers
+ *     description: |
+ *       Returns the user's scheduled transfers, newest first.
+ *       
+ *       **Authentication:** Required (Bearer token)
+ *     operationId: listScheduledTransfers
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Sender's user ID
+ *       - in: query
+ *         name: status
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [active, paused, completed, cancelled, failed]
+ *         description: Only return scheduled transfers with this status
+ *     responses:
+ *       200:
+ *         description: Scheduled transfers retrieved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ScheduledTransferListResponse'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       403:
+ *         description: Forbidden - not the sender
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ForbiddenResponse'
+ */
+router.post(
+  "/:userId/scheduled-transfers",
+  authMiddleware,
+  validateRequest(createScheduledTransferSchema),
+  ScheduledTransferController.create
+);
+
+router.get(
+  "/:userId/scheduled-transfers",
+  authMiddleware,
+  validateRequest(listScheduledTransfersSchema),
+  ScheduledTransferController.list
+);
+
+/**
+ * @openapi
+ * /api/v1/wallets/{userId}/scheduled-transfers/{scheduleId}:
+ *   get:
+ *     tags:
+ *       - Wallets
+ *     summary: Get a scheduled transfer
+ *     description: |
+ *       Returns the schedule and its run history (every attempt, latest first).
+ *       
+ *       **Authentication:** Required (Bearer token)
+ *     operationId: getScheduledTransfer
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Sender's user ID
+ *       - in: path
+ *         name: scheduleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Scheduled transfer ID
+ *     responses:
+ *       200:
+ *         description: Scheduled transfer retrieved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ScheduledTransferResponse'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       403:
+ *         description: Forbidden - not the sender
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ForbiddenResponse'
+ *       404:
+ *         description: Scheduled transfer not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundResponse'
+ */
+router.get(
+  "/:userId/scheduled-transfers/:scheduleId",
+  authMiddleware,
+  validateRequest(scheduledTransferParamsSchema),
+  ScheduledTransferController.get
+);
+
+/**
+ * @openapi
+ * /api/v1/wallets/{userId}/scheduled-transfers/{scheduleId}/pause:
+ *   post:
+ *     tags:
+ *       - Wallets
+ *     summary: Pause a scheduled transfer
+ *     description: |
+ *       Stops an active schedule from running until it is resumed.
+ *       
+ *       **Authentication:** Required (Bearer token)
+ *     operationId: pauseScheduledTransfer
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Sender's user ID
+ *       - in: path
+ *         name: scheduleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Scheduled transfer ID
+ *     responses:
+ *       200:
+ *         description: Scheduled transfer paused
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ScheduledTransferResponse'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       403:
+ *         description: Forbidden - not the sender
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ForbiddenResponse'
+ *       404:
+ *         description: Scheduled transfer not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundResponse'
+ *       409:
+ *         description: Scheduled transfer is not active
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  "/:userId/scheduled-transfers/:scheduleId/pause",
+  authMiddleware,
+  validateRequest(scheduledTransferParamsSchema),
+  ScheduledTransferController.pause
+);
+
+/**
+ * @openapi
+ * /api/v1/wallets/{userId}/scheduled-transfers/{scheduleId}/resume:
+ *   post:
+ *     tags:
+ *       - Wallets
+ *     summary: Resume a scheduled transfer
+ *     description: |
+ *       Reactivates a paused schedule. A recurring schedule continues with its next
+ *       occurrence; occurrences that fell due while it was paused are skipped.
+ *       
+ *       **Authentication:** Required (Bearer token)
+ *     operationId: resumeScheduledTransfer
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Sender's user ID
+ *       - in: path
+ *         name: scheduleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Scheduled transfer ID
+ *     responses:
+ *       200:
+ *         description: Scheduled transfer resumed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ScheduledTransferResponse'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       403:
+ *         description: Forbidden - not the sender
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ForbiddenResponse'
+ *       404:
+ *         description: Scheduled transfer not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundResponse'
+ *       409:
+ *         description: Scheduled transfer is not paused
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  "/:userId/scheduled-transfers/:scheduleId/resume",
+  authMiddleware,
+  validateRequest(scheduledTransferParamsSchema),
+  ScheduledTransferController.resume
+);
+
+/**
+ * @openapi
+ * /api/v1/wallets/{userId}/scheduled-transfers/{scheduleId}/cancel:
+ *   post:
+ *     tags:
+ *       - Wallets
+ *     summary: Cancel a scheduled transfer
+ *     description: |
+ *       Ends an active or paused schedule; it will not run again.
+ *       
+ *       **Authentication:** Required (Bearer token)
+ *     operationId: cancelScheduledTransfer
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Sender's user ID
+ *       - in: path
+ *         name: scheduleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Scheduled transfer ID
+ *     responses:
+ *       200:
+ *         description: Scheduled transfer cancelled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ScheduledTransferResponse'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       403:
+ *         description: Forbidden - not the sender
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ForbiddenResponse'
+ *       404:
+ *         description: Scheduled transfer not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundResponse'
+ *       409:
+ *         description: Scheduled transfer has already ended
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  "/:userId/scheduled-transfers/:scheduleId/cancel",
+  authMiddleware,
+  validateRequest(scheduledTransferParamsSchema),
+  ScheduledTransferController.cancel
+);
+
+/**
+ * @openapi
+ * /api/v1/wallets/{userId}/pots:
+ *   post:
+ *     tags:
+ *       - Wallets
+ *     summary: Open a savings pot
+ *     description: |
+ *       Creates a named pot (e.g. "School fees") under the user's main wallet in
+ *       `currency`, with an optional target amount and lock date. The pot is a
+ *       sub-wallet with its own balance; money only moves in and out of it through
+ *       the pot endpoints.
+ *       
+ *       **Authentication:** Required (Bearer token)
+ *       
+ *       **Security:** Users can only open pots on their own wallet
+ *     operationId: createSavingsPot
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Pot owner's user ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateSavingsPotRequest'
+ *     responses:
+ *       201:
+ *         description: Savings pot created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SavingsPotResponse'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       403:
+ *         description: Forbidden - not the wallet owner
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ForbiddenResponse'
+ *       404:
+ *         description: User has no wallet in the currency
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundResponse'
+ *       409:
+ *         description: User already has an active pot with that name
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *   get:
+ *     tags:
+ *       - Wallets
+ *     summary: List savings pots
+ *     description: |
+ *       Returns the user's savings pots with their balances, oldest first.
+ *       
+ *       **Authentication:** Required (Bearer token)
+ *     operationId: listSavingsPots
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Pot owner's user ID
+ *       - in: query
+ *         name: status
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [active, closed]
+ *         description: Only return pots with this status
+ *     responses:
+ *       200:
+ *         description: Savings pots retrieved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SavingsPotListResponse'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       403:
+ *         description: Forbidden - not the wallet owner
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ForbiddenResponse'
+ */
+router.post(
+  "/:userId/pots",
+  authMiddleware,
+  validateRequest(createSavingsPotSchema),
+  SavingsPotController.create
+);
+
+router.get(
+  "/:userId/pots",
+  authMiddleware,
+  validateRequest(listSavingsPotsSchema),
+  SavingsPotController.list
+);
+
+/**
+ * @openapi
+ * /api/v1/wallets/{userId}/pots/{potId}:
+ *   get:
+ *     tags:
+ *       - Wallets
+ *     summary: Get a savings pot
+ *     description: |
+ *       Returns one of the user's savings pots with its balance.
+ *       
+ *       **Authentication:** Required (Bearer token)
+ *     operationId: getSavingsPot
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Pot owner's user ID
+ *       - in: path
+ *         name: potId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Savings pot ID
+ *     responses:
+ *       200:
+ *         description: Savings pot retrieved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SavingsPotResponse'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       403:
+ *         description: Forbidden - not the wallet owner
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ForbiddenResponse'
+ *       404:
+ *         description: Savings pot not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundResponse'
+ */
+router.get(
+  "/:userId/pots/:potId",
+  authMiddleware,
+  validateRequest(savingsPotParamsSchema),
+  SavingsPotController.get
+);
+
+/**
+ * @openapi
+ * /api/v1/wallets/{userId}/pots/{potId}/deposit:
+ *   post:
+ *     tags:
+ *       - Wallets
+ *     summary: Move money into a savings pot
+ *     description: |
+ *       Moves money from the main wallet into the pot as an internal transfer
+ *       (reference `POT-...`). No fee is charged and the move does not count
+ *       towards the daily or monthly limits.
+ *       
+ *       **Authentication:** Required (Bearer token)
+ *       
+ *       **Idempotency:** Send an `Idempotency-Key` header to make retries safe
+ *     operationId: depositSavingsPot
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Pot owner's user ID
+ *       - in: path
+ *         name: potId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Savings pot ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/SavingsPotDepositRequest'
+ *     responses:
+ *       200:
+ *         description: Money moved into the pot
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SavingsPotMoveResponse'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       403:
+ *         description: Forbidden - not the wallet owner
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ForbiddenResponse'
+ *       404:
+ *         description: Savings pot not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundResponse'
+ *       409:
+ *         description: Savings pot is closed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       422:
+ *         description: Insufficient available balance in the main wallet
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  "/:userId/pots/:potId/deposit",
+  authMiddleware,
+  validateRequest(depositSavingsPotSchema),
+  idempotencyMiddleware,
+  SavingsPotController.deposit
+);
+
+/**
+ * @openapi
+ * /api/v1/wallets/{userId}/pots/{potId}/withdraw:
+ *   post:
+ *     tags:
+ *       - Wallets
+ *     summary: Move money out of a savings pot
+ *     description: |
+ *       Moves money from the pot back to the main wallet as an internal transfer.
+ *       
+ *       **Locked pots:** before `locked_until`, the withdrawal is priced with the
+ *       `pot_early_withdrawal` fee rule and the fee is taken from the pot as a
+ *       penalty, on top of the amount. If no such rule applies, the withdrawal is
+ *       refused with 403.
+ *       
+ *       **Authentication:** Required (Bearer token)
+ *       
+ *       **Idempotency:** Send an `Idempotency-Key` header to make retries safe
+ *     operationId: withdrawSavingsPot
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Pot owner's user ID
+ *       - in: path
+ *         name: potId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Savings pot ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/SavingsPotWithdrawRequest'
+ *     responses:
+ *       200:
+ *         description: Money moved back to the main wallet
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SavingsPotMoveResponse'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       403:
+ *         description: Forbidden - not the wallet owner, or the pot is locked and no penalty rule applies
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ForbiddenResponse'
+ *       404:
+ *         description: Savings pot not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundResponse'
+ *       409:
+ *         description: Savings pot is closed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       422:
+ *         description: Pot balance cannot cover the amount plus penalty
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  "/:userId/pots/:potId/withdraw",
+  authMiddleware,
+  validateRequest(withdrawSavingsPotSchema),
+  idempotencyMiddleware,
+  SavingsPotController.withdraw
+);
+
+/**
+ * @openapi
+ * /api/v1/wallets/{userId}/pots/{potId}/close:
+ *   post:
+ *     tags:
+ *       - Wallets
+ *     summary: Close a savings pot
+ *     description: |
+ *       Closes an empty pot. Withdraw its balance first.
+ *       
+ *       **Authentication:** Required (Bearer token)
+ *     operationId: closeSavingsPot
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Pot owner's user ID
+ *       - in: path
+ *         name: potId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Savings pot ID
+ *     responses:
+ *       200:
+ *         description: Savings pot closed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SavingsPotResponse'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       403:
+ *         description: Forbidden - not the wallet owner
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ForbiddenResponse'
+ *       404:
+ *         description: Savings pot not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundResponse'
+ *       409:
+ *         description: Savings pot is already closed or still holds money
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  "/:userId/pots/:potId/close",
+  authMiddleware,
+  validateRequest(savingsPotParamsSchema),
+  SavingsPotController.close
+);
+
+/**
+ * @openapi
+ * /api/v1/wallets/{userId}/payouts:
+ *   post:
+ *     tags:
+ *       - Wallets
+ *     summary: Submit a bulk payout
+ *     description: |
+ *       Pays many recipients from one wallet in a single request. Rows are sent either
+ *       as a JSON `items` array or as `csv` text with a `recipient_user_id,amount[,narration]`
+ *       header (columns in any order).
+ *       
+ *       **Validation:** the whole batch is checked before any money moves: every
+ *       recipient must exist and hold a wallet in the currency, no recipient may appear
+ *       twice, and the sum of amounts plus fees must fit the available balance. Every
+ *       problem is reported at once in `rows`, with the row number it came from.
+ *       
+ *       **Modes:**
+ *       - `all_or_nothing` (default): one database transaction; if any row fails, the
+ *         batch is rolled back, the failing row is marked `failed` and the rest `skipped`
+ *       - `best_effort`: each row is its own transfer; rows that fail are marked `failed`
+ *         and the rest are still paid (`partially_completed`)
+ *       
+ *       Each row is an ordinary transfer (fees and limits apply) with reference
+ *       `PAYOUT-<batch id>-<row>`. At most PAYOUT_MAX_ITEMS rows per batch.
+ *       
+ *       **Authentication:** Required (Bearer token)
+ *       
+ *       **Security:** Users can only pay out from their own wallet
+ *       
+ *       **Idempotency:** Send an `Idempotency-Key` header to make retries safe
+ *     operationId: createPayout
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Sender's user ID
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreatePayoutRequest'
+ *     responses:
+ *       201:
+ *         description: Batch executed (check `status` for the outcome)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PayoutBatchResponse'
+ *       400:
+ *         description: Validation error, malformed CSV, or too many rows
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       403:
+ *         description: Forbidden - not the sender
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ForbiddenResponse'
+ *       404:
+ *         description: Sender has no wallet in the currency
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundResponse'
+ *       409:
+ *         description: A request with the same Idempotency-Key is still in progress
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       422:
+ *         description: One or more rows are invalid, the batch exceeds the available balance, or the Idempotency-Key was reused with a different body
+ *         content:
+ *           application/json:
+ *             schema:
+ *               oneOf:
+ *                 - $ref: '#/components/schemas/PayoutValidationErrorResponse'
+ *                 - $ref: '#/components/schemas/ErrorResponse'
+ *                 - $ref: '#/components/schemas/IdempotencyKeyMismatchResponse'
+ *   get:
+ *     tags:
+ *       - Wallets
+ *     summary: List payout batches
+ *     description: |
+ *       Returns the user's payout batches, newest first.
+ *       
+ *       **Authentication:** Required (Bearer token)
+ *     operationId: listPayouts
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Sender's user ID
+ *       - in: query
+ *         name: status
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [processing, completed, partially_completed, failed]
+ *         description: Only return batches with this status
+ *     responses:
+ *       200:
+ *         description: Payout batches retrieved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PayoutBatchListResponse'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       403:
+ *         description: Forbidden - not the sender
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ForbiddenResponse'
+ */
+router.post(
+  "/:userId/payouts",
+  authMiddleware,
+  validateRequest(createPayoutSchema),
+  idempotencyMiddleware,
+  PayoutController.create
+);
+
+router.get(
+  "/:userId/payouts",
+  authMiddleware,
+  validateRequest(listPayoutsSchema),
+  PayoutController.list
+);
+
+/**
+ * @openapi
+ * /api/v1/wallets/{userId}/payouts/{batchId}:
+ *   get:
+ *     tags:
+ *       - Wallets
+ *     summary: Get a payout batch
+ *     description: |
+ *       Returns the batch summary and the status of every row, in upload order.
+ *       
+ *       **Authentication:** Required (Bearer token)
+ *     operationId: getPayout
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Sender's user ID
+ *       - in: path
+ *         name: batchId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Payout batch ID
+ *     responses:
+ *       200:
+ *         description: Payout batch retrieved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PayoutBatchResponse'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       403:
+ *         description: Forbidden - not the sender
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ForbiddenResponse'
+ *       404:
+ *         description: Payout batch not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundResponse'
+ */
+router.get(
+  "/:userId/payouts/:batchId",
+  authMiddleware,
+  validateRequest(payoutParamsSchema),
+  PayoutController.get
+);
+
+/**
+ * @openapi
+ * /api/v1/wallets/{userId}/payouts/{batchId}/results:
+ *   get:
+ *     tags:
+ *       - Wallets
+ *     summary: Download a payout result file
+ *     description: |
+ *       Returns the batch as a CSV file, one line per row, with columns
+ *       `row,recipient_user_id,amount,currency,narration,status,fee,reference,transfer_id,error`.
+ *       
+ *       **Authentication:** Required (Bearer token)
+ *     operationId: downloadPayoutResults
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Sender's user ID
+ *       - in: path
+ *         name: batchId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Payout batch ID
+ *     responses:
+ *       200:
+ *         description: Result file
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *             example: |
+ *               row,recipient_user_id,amount,currency,narration,status,fee,reference,transfer_id,error
+ *               1,550e8400-e29b-41d4-a716-446655440001,2500.00,NGN,March salary,succeeded,10.00,PAYOUT-7c9e6679-7425-40de-944b-e07fc1f90ae7-1,8f14e45f-ceea-467f-a8ad-0e7f2b3c4d5e,
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       403:
+ *         description: Forbidden - not the sender
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ForbiddenResponse'
+ *       404:
+ *         description: Payout batch not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundResponse'
+ */
+router.get(
+  "/:userId/payouts/:batchId/results",
+  authMiddleware,
+  validateRequest(payoutParamsSchema),
+  PayoutController.downloadResults
+);
+
+/**
+ * @openapi
+ * /api/v1/wallets/{userId}:
+ *   get:
+ *     tags:
+ *       - Wallets
+ *     summary: List a user's wallets
+ *     description: |
+ *       Returns every wallet the user holds, one per currency, oldest first.
+ *       The NGN wallet is created at signup; others are opened on demand.
+ *       
+ *       **Authentication:** Required (Bearer token)
+ *       
+ *       **Security:** Users can only list their own wallets
+ *     operationId: listWallets
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: User's unique identifier (must match authenticated user)
+ *     responses:
+ *       200:
+ *         description: Wallets retrieved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/WalletListResponse'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       403:
+ *         description: Forbidden - not the wallet owner
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ForbiddenResponse'
+ *   post:
+ *     tags:
+ *       - Wallets
+ *     summary: Open a wallet in another currency
+ *     description: |
+ *       Opens an empty wallet in a supported currency. A user can hold one wallet
+ *       per currency. Amounts sent to the new wallet are checked against that
+ *       currency's precision.
+ *       
+ *       **Authentication:** Required (Bearer token)
+ *       
+ *       **Security:** Users can only open wallets for themselves
+ *     operationId: openWallet
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: User's unique identifier (must match authenticated user)
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/OpenWalletRequest'
+ *     responses:
+ *       201:
+ *         description: Wallet opened
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/OpenWalletResponse'
+ *       400:
+ *         description: Validation error or unsupported currency
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedResponse'
+ *       403:
+ *         description: Forbidden - not the account owner
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ForbiddenResponse'
+ *       404:
+ *         description: User not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundResponse'
+ *       409:
+ *         description: The user already has a wallet in this currency
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  "/:userId",
+  authMiddleware,
+  validateRequest(listWalletsSchema),
+  WalletController.listWallets
+);
+
+router.post(
+  "/:userId",
+  authMiddleware,
+  validateRequest(openWalletSchema),
+  WalletController.openWallet
+);
+
 export default router;
 
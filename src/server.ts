@@ -10,6 +10,54 @@
 import app from "./app";
 import { config } from "./config/env";
 import { initializeDatabase, closeConnection } from "./db";
+import { IdempotencyService } from "./services/idempotency.service";
+import { SessionService } from "./services/session.service";
+import { LoginAttemptService } from "./services/login-attempt.service";
+import { ReconciliationService } from "./services/reconciliation.service";
+import { HoldService } from "./services/hold.service";
+import { ScheduledTransferService } from "./services/scheduled-transfer.service";
+import { PaymentRequestService } from "./services/payment-request.service";
+import { EscrowService } from "./services/escrow.service";
+import { InterestService } from "./services/interest.service";
+import { LoanRepaymentService } from "./services/loan-repayment.service";
+import { KarmaReportService } from "./services/karma-report.service";
+
+/**
+ * How often expired Idempotency-Key records are purged
+ */
+const IDEMPOTENCY_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * How often expired refresh tokens are purged
+ */
+const SESSION_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * How often failed login attempts older than the throttling window are purged
+ */
+const LOGIN_ATTEMPT_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Schedule the nightly reconciliation run at the configured UTC hour
+ * 
+ * Each run schedules the next one; timers do not keep the process alive.
+ */
+function scheduleReconciliation(): void {
+  const now = new Date();
+  const next = new Date(now);
+  next.setUTCHours(config.reconciliation.hourUtc, 0, 0, 0);
+  if (next <= now) {
+    next.setUTCDate(next.getUTCDate() + 1);
+  }
+
+  setTimeout(() => {
+    ReconciliationService.run("schedule")
+      .catch((error) => {
+        console.error("❌ Scheduled reconciliation failed:", error);
+      })
+      .finally(scheduleReconciliation);
+  }, next.getTime() - now.getTime()).unref();
+}
 
 /**
  * Start the HTTP server
@@ -36,6 +84,78 @@ async function startServer(): Promise<void> {
       console.log("\n✅ Server is ready to accept connections\n");
     });
 
+    // Periodically purge expired idempotency keys (does not keep the process alive)
+    setInterval(() => {
+      IdempotencyService.purgeExpired().catch((error) => {
+        console.error("❌ Failed to purge idempotency keys:", error);
+      });
+    }, IDEMPOTENCY_PURGE_INTERVAL_MS).unref();
+
+    // Periodically purge expired refresh tokens
+    setInterval(() => {
+      SessionService.purgeExpired().catch((error) => {
+        console.error("❌ Failed to purge expired sessions:", error);
+      });
+    }, SESSION_PURGE_INTERVAL_MS).unref();
+
+    // Periodically purge failed login attempts that no longer count
+    setInterval(() => {
+      LoginAttemptService.purgeExpired().catch((error) => {
+        console.error("❌ Failed to purge failed login attempts:", error);
+      });
+    }, LOGIN_ATTEMPT_PURGE_INTERVAL_MS).unref();
+
+    // Release wallet holds that have passed their expiry
+    setInterval(() => {
+      HoldService.expireDue().catch((error) => {
+        console.error("❌ Failed to expire wallet holds:", error);
+      });
+    }, config.holds.expirySweepSeconds * 1000).unref();
+
+    // Execute scheduled transfers that have fallen due
+    setInterval(() => {
+      ScheduledTransferService.runDue().catch((error) => {
+        console.error("❌ Failed to run scheduled transfers:", error);
+      });
+    }, config.scheduledTransfers.sweepSeconds * 1000).unref();
+
+    // Expire payment requests nobody answered in time
+    setInterval(() => {
+      PaymentRequestService.expireDue().catch((error) => {
+        console.error("❌ Failed to expire payment requests:", error);
+      });
+    }, config.paymentRequests.expirySweepSeconds * 1000).unref();
+
+    // Refund escrows nobody released before their timeout
+    setInterval(() => {
+      EscrowService.refundExpired().catch((error) => {
+        console.error("❌ Failed to refund timed-out escrows:", error);
+      });
+    }, config.escrow.sweepSeconds * 1000).unref();
+
+    // Accrue interest for finished days and capitalize finished months
+    setInterval(() => {
+      InterestService.run().catch((error) => {
+        console.error("❌ Failed to accrue interest:", error);
+      });
+    }, config.interest.sweepSeconds * 1000).unref();
+
+    // Accrue late penalties and collect loan installments that have fallen due,
+    // then take repaid borrowers off the Adjutor Karma blacklist
+    setInterval(() => {
+      LoanRepaymentService.collectDue()
+        .then(() => KarmaReportService.removeCleared())
+        .catch((error) => {
+          console.error("❌ Failed to collect loan repayments:", error);
+        });
+    }, config.loans.collectionSweepSeconds * 1000).unref();
+
+    // Nightly reconciliation (when not driven by an external cron via the CLI)
+    if (config.reconciliation.scheduleEnabled) {
+      scheduleReconciliation();
+      console.log(`   🧮 Reconciliation scheduled daily at ${config.reconciliation.hourUtc}:00 UTC`);
+    }
+
     /**
      * Graceful shutdown handler
      * 
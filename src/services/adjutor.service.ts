@@ -1,7 +1,9 @@
 /**
  * Adjutor Service
  * 
- * Handles Adjutor Karma blacklist API integration with mock mode support.
+ * Handles Adjutor Karma blacklist API integration with mock mode support:
+ * looking identities up, and reporting defaulting borrowers (and removing
+ * them once the debt is cleared).
  * 
  * API Documentation: https://docs.adjutor.io/adjutor-api-endpoints/validation/karma-lookup
  * 
@@ -60,6 +62,36 @@ export interface KarmaCheckResult {
   checkedAt: Date;
 }
 
+/**
+ * Karma record submitted when reporting a defaulter
+ */
+export interface KarmaReportPayload {
+  identity: string;
+  /** Identity type as Adjutor names it (BVN, EMAIL, PHONE) */
+  identity_type: string;
+  amount_in_contention: string;
+  reason: string;
+  /** YYYY-MM-DD */
+  default_date: string;
+  karma_type: string;
+}
+
+/**
+ * Karma submission kinds
+ */
+export type KarmaReportAction = "add" | "remove";
+
+/**
+ * Result of adding or removing a Karma record
+ */
+export interface KarmaSubmissionResult {
+  succeeded: boolean;
+  identity: string;
+  identityType: IdentityType;
+  rawResponse: AdjutorKarmaResponse;
+  submittedAt: Date;
+}
+
 /**
  * Adjutor service class
  */
@@ -316,6 +348,137 @@ export class AdjutorService {
     }
   }
 
+  /**
+   * Report a defaulting borrower to Adjutor Karma
+   *
+   * Adjutor errors (including timeouts and rejected payloads) are returned
+   * as an unsuccessful result rather than thrown, so the attempt can be
+   * logged and retried.
+   *
+   * @param payload - Karma record to add
+   * @param identityType - Type of identity reported
+   * @returns Submission result
+   */
+  static async reportKarma(
+    payload: KarmaReportPayload,
+    identityType: IdentityType
+  ): Promise<KarmaSubmissionResult> {
+    logger.info(`Reporting ${identityType} ${payload.identity.substring(0, 4)}*** to Adjutor Karma`);
+
+    return this.submitKarma(payload.identity, identityType, async () => {
+      if (config.adjutor.mode === "mock") {
+        logger.warn("⚠️  ADJUTOR_MODE is set to 'mock' - NOT reporting to Karma!");
+        return {
+          status: "success",
+          message: "Karma record added",
+          data: {
+            karma_identity: payload.identity,
+            amount_in_contention: payload.amount_in_contention,
+            reason: payload.reason,
+            default_date: payload.default_date,
+            karma_type: { karma: payload.karma_type },
+            karma_identity_type: { identity_type: payload.identity_type },
+            reporting_entity: { name: "Mock Lender", email: "[email protected]" },
+          },
+          meta: { cost: 10, balance: 9990 },
+        };
+      }
+
+      // Karma records live under the same path the lookup reads from
+      const apiResponse = await this.getAxiosInstance().post<AdjutorKarmaResponse>(
+        "/v2/verification/karma",
+        payload
+      );
+      return apiResponse.data;
+    });
+  }
+
+  /**
+   * Remove a Karma record this lender reported
+   *
+   * A 404 means there is no record to remove, which counts as removed.
+   *
+   * @param identity - Identity that was reported
+   * @param identityType - Type of identity
+   * @returns Submission result
+   */
+  static async removeKarma(
+    identity: string,
+    identityType: IdentityType
+  ): Promise<KarmaSubmissionResult> {
+    logger.info(`Removing ${identityType} ${identity.substring(0, 4)}*** from Adjutor Karma`);
+
+    return this.submitKarma(identity, identityType, async () => {
+      if (config.adjutor.mode === "mock") {
+        logger.warn("⚠️  ADJUTOR_MODE is set to 'mock' - NOT removing from Karma!");
+        return { status: "success", message: "Karma record removed", meta: { cost: 0, balance: 9990 } };
+      }
+
+      const apiResponse = await this.getAxiosInstance().delete<AdjutorKarmaResponse>(
+        `/v2/verification/karma/${encodeURIComponent(identity)}`
+      );
+      return apiResponse.data;
+    });
+  }
+
+  /**
+   * Make a Karma submission and turn Adjutor errors into an unsuccessful result
+   *
+   * @param identity - Identity submitted
+   * @param identityType - Type of identity
+   * @param send - Makes the call (or the mock) and returns Adjutor's response
+   * @returns Submission result
+   */
+  private static async submitKarma(
+    identity: string,
+    identityType: IdentityType,
+    send: () => Promise<AdjutorKarmaResponse>
+  ): Promise<KarmaSubmissionResult> {
+    try {
+      const response = await send();
+      return {
+        succeeded: response.status === "success",
+        identity,
+        identityType,
+        rawResponse: response,
+        submittedAt: new Date(),
+      };
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        const axiosError = error as AxiosError<{ message?: string }>;
+
+        if (axiosError.config?.method === "delete" && axiosError.response?.status === 404) {
+          return {
+            succeeded: true,
+            identity,
+            identityType,
+            rawResponse: { status: "success", message: "No record found" },
+            submittedAt: new Date(),
+          };
+        }
+
+        logger.error("Adjutor API error", axiosError, {
+          status: axiosError.response?.status,
+          data: axiosError.response?.data,
+        });
+
+        return {
+          succeeded: false,
+          identity,
+          identityType,
+          rawResponse: {
+            status: "error",
+            message: axiosError.response?.data?.message ?? axiosError.message,
+          },
+          submittedAt: new Date(),
+        };
+      }
+
+      logger.error("Unknown error during Karma submission", error);
+      throw error;
+    }
+  }
+
   /**
    * Log Adjutor check result to database
    * 
@@ -350,6 +513,54 @@ export class AdjutorService {
       throw error;
     }
   }
+
+  /**
+   * Log a Karma report or removal to the database
+   *
+   * @param userId - Borrower reported
+   * @param applicationId - Loan in default
+   * @param action - add or remove
+   * @param payload - What was sent (the report, or the identity removed)
+   * @param result - Submission result
+   * @param submittedBy - Admin who made it (null for the worker)
+   * @returns Log record ID
+   */
+  static async logReport(
+    userId: string,
+    applicationId: string,
+    action: KarmaReportAction,
+    payload: KarmaReportPayload | { identity: string },
+    result: KarmaSubmissionResult,
+    submittedBy: string | null
+  ): Promise<string> {
+    try {
+      const id = newId();
+      const report = "amount_in_contention" in payload ? payload : null;
+
+      await knex("adjutor_reports").insert({
+        id,
+        user_id: userId,
+        application_id: applicationId,
+        action,
+        identity_type: result.identityType,
+        identity: result.identity,
+        amount_in_contention_decimal: report?.amount_in_contention ?? null,
+        reason: report?.reason ?? null,
+        default_date: report?.default_date ?? null,
+        request_payload: JSON.stringify(payload),
+        raw_response: JSON.stringify(result.rawResponse),
+        succeeded: result.succeeded,
+        submitted_by: submittedBy,
+        submitted_at: result.submittedAt,
+      });
+
+      logger.debug(`Logged Adjutor ${action} report for user ${userId}`);
+      return id;
+    } catch (error) {
+      logger.error("Failed to log Adjutor report", error);
+      throw error;
+    }
+  }
 }
 
 
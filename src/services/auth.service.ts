@@ -1,16 +1,28 @@
 /**
  * Authentication Service
  * 
- * Handles authentication business logic (user creation, token generation).
+ * Handles authentication business logic (user creation, login, token generation).
+ * 
+ * Users log in with a secret, never with an identifier alone:
+ * - password: set at signup and stored as an scrypt hash in `user_credentials`
+ * - one-time code: sent by OtpService to the email address or phone number
+ *   the user logs in with (passwordless)
+ * 
+ * Every login starts a session (SessionService): a short-lived access
+ * token plus a rotating refresh token, revoked at logout.
  * 
  * @module services/auth.service
  */
 
-import { withTransaction, newId } from "../db";
-import { generateToken } from "../utils/token";
+import { knex, withTransaction, newId } from "../db";
+import { hashPassword, verifyPassword } from "../utils/password";
 import { UserService, User } from "./user.service";
 import { WalletService } from "./wallet.service";
 import { AdjutorService } from "./adjutor.service";
+import { OtpService } from "./otp.service";
+import { SessionService, SessionTokens } from "./session.service";
+import { LoginAttemptService } from "./login-attempt.service";
+import { OtpDeliveryService, OtpChannel } from "./otp-delivery.service";
 import { logger } from "../utils/logger";
 import { AppError } from "../middlewares/error";
 import { config } from "../config/env";
@@ -23,22 +35,67 @@ export interface SignupData {
   email: string;
   phone: string;
   bvn: string; // Not stored, only used for Adjutor check
+  password: string; // Stored as an scrypt hash only
 }
 
 /**
- * Login credentials
+ * Email address or phone number identifying a user at login
  */
-export interface LoginData {
+export interface LoginIdentifier {
   email?: string;
   phone?: string;
 }
 
+/**
+ * Login credentials
+ */
+export interface LoginData extends LoginIdentifier {
+  password: string;
+}
+
+/**
+ * Passwordless login credentials
+ */
+export interface OtpLoginData extends LoginIdentifier {
+  code: string;
+}
+
+/**
+ * Where a login code was sent, and for how long it works
+ */
+export interface OtpRequestResult {
+  channel: OtpChannel;
+  expiresInSeconds: number;
+}
+
+/**
+ * Tokens for an authenticated session
+ */
+export interface AuthTokens {
+  /** Access token */
+  token: string;
+  tokenExpiresAt: Date;
+  refreshToken: string;
+  refreshTokenExpiresAt: Date;
+}
+
 /**
  * Auth response
  */
-export interface AuthResponse {
+export interface AuthResponse extends AuthTokens {
   user: User;
-  token: string;
+}
+
+/**
+ * Pick the client-facing tokens out of a session
+ */
+function toAuthTokens(session: SessionTokens): AuthTokens {
+  return {
+    token: session.token,
+    tokenExpiresAt: session.tokenExpiresAt,
+    refreshToken: session.refreshToken,
+    refreshTokenExpiresAt: session.refreshTokenExpiresAt,
+  };
 }
 
 /**
@@ -51,12 +108,13 @@ export class AuthService {
    * This is the main signup flow:
    * 1. Check if email/phone already exists
    * 2. Verify BVN against Adjutor Karma blacklist
-   * 3. Create user and wallet in a transaction
-   * 4. Log Adjutor check result
-   * 5. Generate authentication token
+   * 3. Hash the password with scrypt
+   * 4. Create user, credentials and wallet in a transaction
+   * 5. Log Adjutor check result
+   * 6. Start a session (access and refresh tokens)
    * 
    * @param userData - User registration data
-   * @returns Created user and auth token
+   * @returns Created user and session tokens
    * @throws Error if validation fails or user is blacklisted
    * 
    * @example
@@ -65,13 +123,14 @@ export class AuthService {
    *   name: "John Doe",
    *   email: "[email protected]",
    *   phone: "+2347012345678",
-   *   bvn: "22212345678"
+   *   bvn: "22212345678",
+   *   password: "correct horse battery staple"
    * });
    * console.log(result.token);
    * ```
    */
   static async createUser(userData: SignupData): Promise<AuthResponse> {
-    const { name, email, phone, bvn } = userData;
+    const { name, email, phone, bvn, password } = userData;
 
     // Check if email already exists
     if (await UserService.emailExists(email)) {
@@ -120,6 +179,8 @@ export class AuthService {
       }
     }
 
+    const passwordHash = await hashPassword(password);
+
     // Create user and wallet in transaction
     const { user } = await withTransaction(async (trx) => {
       // Create user
@@ -141,6 +202,13 @@ export class AuthService {
         throw new Error("Failed to create user");
       }
 
+      await trx("user_credentials").insert({
+        user_id: userId,
+        password_hash: passwordHash,
+        created_at: trx.fn.now(),
+        updated_at: trx.fn.now(),
+      });
+
       // Create wallet for user
       await WalletService.createWallet(userId, trx);
 
@@ -166,55 +234,199 @@ export class AuthService {
       }
     }
 
-    // Generate auth token
-    const token = generateToken(user.id);
+    // Start a session
+    const session = await SessionService.start(user.id);
 
     logger.info(`Signup complete for user: ${user.id}`);
 
     return {
       user,
-      token,
+      ...toAuthTokens(session),
     };
   }
 
   /**
-   * Authenticate user and generate token
+   * Authenticate user with a password and generate token
    * 
-   * Login using either email or phone number.
+   * Login using either email or phone number, plus the password set at signup.
    * Validates that the user is not blocked or blacklisted.
    * 
-   * @param credentials - Login credentials (email or phone)
+   * An unknown user, a user without a password and a wrong password all
+   * get the same 401 (a password is hashed either way, so the response
+   * time does not tell them apart either). Failures are throttled per
+   * account and per IP address by LoginAttemptService.
+   * 
+   * @param credentials - Login credentials (email or phone, and password)
+   * @param ipAddress - Address the login comes from
    * @returns User and auth token
-   * @throws Error if user not found or account is blocked
+   * @throws AppError (401) if the credentials do not match
+   * @throws AppError (403) if the account is blocked or blacklisted
+   * @throws AppError (429) if the account or address has too many recent failures
    * 
    * @example
    * ```typescript
    * const result = await AuthService.loginUser({
-   *   email: "[email protected]"
+   *   email: "[email protected]",
+   *   password: "correct horse battery staple"
    * });
    * ```
    */
-  static async loginUser(credentials: LoginData): Promise<AuthResponse> {
-    const { email, phone } = credentials;
+  static async loginUser(credentials: LoginData, ipAddress?: string): Promise<AuthResponse> {
+    const user = await this.findUser(credentials);
+    const account =
+      user?.id ?? (credentials.email ? `email:${credentials.email}` : `phone:${credentials.phone}`);
+
+    await LoginAttemptService.assertAllowed(account, ipAddress);
+
+    const credential: { password_hash: string } | undefined = user
+      ? await knex("user_credentials").where({ user_id: user.id }).first()
+      : undefined;
+
+    if (!user || !credential) {
+      await hashPassword(credentials.password ?? "");
+      await LoginAttemptService.recordFailure(account, ipAddress);
+      throw new AppError(401, "Invalid credentials");
+    }
+
+    if (!(await verifyPassword(credentials.password ?? "", credential.password_hash))) {
+      await LoginAttemptService.recordFailure(account, ipAddress);
+      throw new AppError(401, "Invalid credentials");
+    }
+
+    await LoginAttemptService.clear(account);
+
+    return this.startSession(user);
+  }
+
+  /**
+   * Send a one-time login code
+   * 
+   * The code goes to the email address or phone number given. The result
+   * is the same whether or not a user matches, so the endpoint cannot be
+   * used to find out who has an account; no code is sent to an unknown or
+   * inactive user.
+   * 
+   * @param identifier - Email or phone number
+   * @returns Channel used and how long the code works
+   * @throws AppError (400) if neither email nor phone is given
+   * @throws AppError (429) if too many codes were requested recently
+   * @throws AppError (502) if the code could not be sent
+   * @throws AppError (503) if no delivery adapter is set
+   */
+  static async requestLoginOtp(identifier: LoginIdentifier): Promise<OtpRequestResult> {
+    this.assertOtpAvailable();
+
+    const user = await this.findUser(identifier);
+    const channel: OtpChannel = identifier.email ? "email" : "phone";
+
+    if (user && user.status === "active") {
+      await OtpService.issue(user.id, channel, channel === "email" ? user.email : user.phone);
+    } else {
+      logger.info(`Login code requested for no active user by ${channel}`);
+    }
+
+    return { channel, expiresInSeconds: config.auth.otpTtlSeconds };
+  }
+
+  /**
+   * Authenticate user with a one-time code and generate token
+   * 
+   * @param credentials - Email or phone number, and the code sent to it
+   * @returns User and auth token
+   * @throws AppError (401) if there is no matching code
+   * @throws AppError (429) if too many wrong codes were tried
+   * @throws AppError (403) if the account is blocked or blacklisted
+   * @throws AppError (503) if no delivery adapter is set
+   */
+  static async loginWithOtp(credentials: OtpLoginData): Promise<AuthResponse> {
+    this.assertOtpAvailable();
+
+    const user = await this.findUser(credentials);
+
+    if (!user) {
+      throw new AppError(401, "Invalid or expired code");
+    }
+
+    await OtpService.verify(user.id, credentials.code);
+
+    return this.startSession(user);
+  }
+
+  /**
+   * Find the user an email or phone number belongs to
+   * 
+   * @param identifier - Email or phone number (email wins if both are given)
+   * @returns User, or null if none matches
+   * @throws AppError (400) if neither is given
+   */
+  private static async findUser(identifier: LoginIdentifier): Promise<User | null> {
+    const { email, phone } = identifier;
 
     // Must provide either email or phone
     if (!email && !phone) {
       throw new AppError(400, "Email or phone number is required");
     }
 
-    // Find user
-    let user: User | null = null;
-
     if (email) {
-      user = await UserService.getUserByEmail(email);
-    } else if (phone) {
-      user = await UserService.getUserByPhone(phone);
+      return UserService.getUserByEmail(email);
     }
 
-    if (!user) {
-      throw new AppError(401, "Invalid credentials");
+    return UserService.getUserByPhone(phone as string);
+  }
+
+  /**
+   * Exchange a refresh token for new session tokens
+   * 
+   * The refresh token is used up. Presenting it again revokes the whole
+   * session, as does refreshing for a blocked or blacklisted user.
+   * 
+   * @param refreshToken - Refresh token from the last login or refresh
+   * @returns New access token and refresh token
+   * @throws AppError (401) if the refresh token is invalid, expired, reused or revoked
+   * @throws AppError (403) if the account is blocked or blacklisted
+   */
+  static async refreshSession(refreshToken: string): Promise<AuthTokens> {
+    const session = await SessionService.refresh(refreshToken);
+    const user = await UserService.getUserById(session.userId);
+
+    if (user.status !== "active") {
+      await SessionService.revokeFamily(session.sessionId, "account_disabled");
+      this.assertCanLogin(user);
+    }
+
+    return toAuthTokens(session);
+  }
+
+  /**
+   * End the session a refresh token belongs to
+   * 
+   * Access tokens issued to the session stop working too. Unknown or
+   * already revoked tokens are ignored, so logging out twice is harmless.
+   * 
+   * @param refreshToken - Refresh token of the session
+   */
+  static async logout(refreshToken: string): Promise<void> {
+    await SessionService.revoke(refreshToken);
+  }
+
+  /**
+   * Check that one-time code login is enabled
+   * 
+   * @throws AppError (503) if no delivery adapter is set (OTP_DELIVERY=none)
+   */
+  private static assertOtpAvailable(): void {
+    if (!OtpDeliveryService.isAvailable()) {
+      throw new AppError(503, "Login with a one-time code is not available");
     }
+  }
 
+  /**
+   * Check that a user may log in
+   * 
+   * @param user - User whose credentials were checked
+   * @throws AppError (403) if the account is blocked or blacklisted
+   */
+  private static assertCanLogin(user: User): void {
     // Check user status
     if (user.status === "blocked") {
       throw new AppError(403, "Account is blocked. Please contact support.");
@@ -223,16 +435,25 @@ export class AuthService {
     if (user.status === "blacklisted") {
       throw new AppError(403, "Account is blacklisted and cannot access services.");
     }
+  }
+
+  /**
+   * Start a session for an authenticated user
+   * 
+   * @param user - User whose credentials were checked
+   * @returns User and session tokens
+   * @throws AppError (403) if the account is blocked or blacklisted
+   */
+  private static async startSession(user: User): Promise<AuthResponse> {
+    this.assertCanLogin(user);
 
-    // Generate auth token
-    const token = generateToken(user.id);
+    const session = await SessionService.start(user.id);
 
     logger.info(`User logged in: ${user.id}`);
 
     return {
       user,
-      token,
+      ...toAuthTokens(session),
     };
   }
 }
-
@@ -0,0 +1,484 @@
+/**
+ * Credit Decision Service
+ *
+ * The credit decisioning engine: scores a user against a versioned
+ * scorecard (see config/creditScorecards) and returns a decision, a
+ * borrowing limit and the reason codes behind them.
+ *
+ * Inputs, gathered as of a given time:
+ * - Adjutor Karma: whether the user is listed, the Karma type and the
+ *   amount in contention (or that Karma could not be checked)
+ * - account age: days since signup
+ * - wallet behaviour: credits, inflow and outflow of the wallet over the
+ *   scorecard's history window, from `transactions` (loan payouts and
+ *   repayments left out)
+ * - prior loans: loans repaid and still open, installments paid late and
+ *   overdue now
+ *
+ * Loan applications are scored as one of their checks and the decision is
+ * stored in `credit_decisions` with every input, so it can be audited and
+ * replayed. A dry run scores a user without storing anything.
+ *
+ * @module services/credit-decision.service
+ */
+
+import { Knex } from "knex";
+import { knex, newId } from "../db";
+import { logger } from "../utils/logger";
+import { AppError } from "../middlewares/error";
+import { Money } from "../utils/money";
+import {
+  CreditDecisionOutcome,
+  CreditFactor,
+  CreditScorecard,
+  getCreditScorecard,
+} from "../config/creditScorecards";
+import { AdjutorService, IdentityType, KarmaCheckResult } from "./adjutor.service";
+import { UserService, User } from "./user.service";
+import { WalletService, Wallet } from "./wallet.service";
+
+/**
+ * Outcome of looking a user up on Karma
+ */
+export interface KarmaLookup {
+  /** Check that decided the outcome (null if none was made) */
+  result: KarmaCheckResult | null;
+  /** True if Karma could not be checked */
+  unavailable: boolean;
+}
+
+/**
+ * Value of every credit factor
+ */
+export type CreditFactors = Record<CreditFactor, number>;
+
+/**
+ * Everything a decision was made from
+ */
+export interface CreditInputs {
+  /** ISO timestamp the inputs were gathered at */
+  as_of: string;
+  history_days: number;
+  factors: CreditFactors;
+  karma: {
+    listed: boolean;
+    unavailable: boolean;
+    identity_type: IdentityType | null;
+    karma_type: string | null;
+    amount_in_contention: string | null;
+  };
+  /** Wallet inflow, outflow and average monthly inflow over the window */
+  inflow: string;
+  outflow: string;
+  monthly_inflow: string;
+}
+
+/**
+ * A rule that fired
+ */
+export interface CreditReason {
+  code: string;
+  points: number;
+  message: string;
+}
+
+/**
+ * Result of scoring a user
+ */
+export interface CreditEvaluation {
+  userId: string;
+  walletId: string;
+  currency: string;
+  version: string;
+  inputs: CreditInputs;
+  score: number;
+  decision: CreditDecisionOutcome;
+  limit: Money;
+  reasons: CreditReason[];
+}
+
+/**
+ * Stored credit decision
+ */
+export interface CreditDecision {
+  id: string;
+  user_id: string;
+  wallet_id: string;
+  application_id: string | null;
+  currency: string;
+  scorecard_version: string;
+  inputs: CreditInputs;
+  score: number;
+  decision: CreditDecisionOutcome;
+  limit_decimal: string;
+  reasons: CreditReason[];
+  created_at: Date;
+}
+
+/**
+ * credit_decisions row as read from MySQL (JSON columns may come back as text)
+ */
+interface CreditDecisionRow extends Omit<CreditDecision, "inputs" | "reasons"> {
+  inputs: CreditInputs | string;
+  reasons: CreditReason[] | string;
+}
+
+/**
+ * Filters for listing stored decisions
+ */
+export interface CreditDecisionFilters {
+  userId?: string;
+  applicationId?: string;
+}
+
+/**
+ * Ceiling of the inflow/outflow factor
+ */
+const MAX_INFLOW_OUTFLOW_PERCENT = 1000;
+
+/**
+ * One day in milliseconds
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Stored decisions returned per listing
+ */
+const LIST_LIMIT = 100;
+
+/**
+ * Credit decision service class
+ */
+export class CreditDecisionService {
+  /**
+   * Normalize a DB row into a CreditDecision
+   *
+   * @param row - Raw credit_decisions row
+   * @returns Credit decision
+   */
+  private static decisionFromRow(row: CreditDecisionRow): CreditDecision {
+    return {
+      ...row,
+      inputs: typeof row.inputs === "string" ? JSON.parse(row.inputs) : row.inputs,
+      reasons: typeof row.reasons === "string" ? JSON.parse(row.reasons) : row.reasons,
+    };
+  }
+
+  /**
+   * Look the user's email and phone number up on Adjutor Karma
+   *
+   * Stops at the first listing, or as soon as Karma cannot be reached
+   * (checkKarma fails open; a lender cannot).
+   *
+   * @param user - User to look up
+   * @returns The check that decided the outcome, and whether Karma was unavailable
+   */
+  static async lookUpKarma(user: User): Promise<KarmaLookup> {
+    const identities: Array<[string, IdentityType]> = [
+      [user.email, "email"],
+      [user.phone, "phone"],
+    ];
+
+    let result: KarmaCheckResult | null = null;
+    for (const [identity, type] of identities) {
+      result = await AdjutorService.checkKarma(identity, type);
+      if (result.isFlagged) {
+        break;
+      }
+      if (result.rawResponse.status === "error") {
+        return { result, unavailable: true };
+      }
+    }
+
+    return { result, unavailable: false };
+  }
+
+  /**
+   * Score factors against a scorecard
+   *
+   * @param scorecard - Scorecard to apply
+   * @param factors - Credit factors
+   * @param karmaType - Karma type of a listing (null if not listed)
+   * @param monthlyInflow - Average monthly inflow into the wallet
+   * @returns Score, decision, limit and the rules that fired
+   */
+  static score(
+    scorecard: CreditScorecard,
+    factors: CreditFactors,
+    karmaType: string | null,
+    monthlyInflow: Money
+  ): Pick<CreditEvaluation, "score" | "decision" | "limit" | "reasons"> {
+    let score = scorecard.baseScore;
+    let decline = false;
+    let refer = false;
+    const reasons: CreditReason[] = [];
+
+    for (const rule of scorecard.rules) {
+      const value = factors[rule.factor];
+      if (rule.min !== undefined && value < rule.min) continue;
+      if (rule.max !== undefined && value >= rule.max) continue;
+      if (rule.karmaType && !karmaType?.toLowerCase().includes(rule.karmaType.toLowerCase())) continue;
+
+      score += rule.points ?? 0;
+      decline = decline || Boolean(rule.decline);
+      refer = refer || Boolean(rule.refer);
+      reasons.push({ code: rule.code, points: rule.points ?? 0, message: rule.message });
+    }
+
+    const decision: CreditDecisionOutcome = decline
+      ? "decline"
+      : refer
+        ? "refer"
+        : score >= scorecard.approveFrom
+          ? "approve"
+          : score >= scorecard.referFrom
+            ? "refer"
+            : "decline";
+
+    let limit = Money.zero(monthlyInflow.currency);
+    const band = scorecard.limitBands
+      .filter((candidate) => score >= candidate.minScore)
+      .sort((a, b) => b.minScore - a.minScore)[0];
+    if (decision !== "decline" && band) {
+      limit = monthlyInflow.basisPoints(band.inflowPercent * 100);
+      const maxLimit = scorecard.maxLimit[monthlyInflow.currency];
+      if (maxLimit) {
+        const cap = Money.parse(maxLimit, monthlyInflow.currency);
+        limit = limit.greaterThan(cap) ? cap : limit;
+      }
+    }
+
+    return { score, decision, limit, reasons };
+  }
+
+  /**
+   * Gather a user's credit inputs and score them
+   *
+   * @param user - User to score
+   * @param wallet - Wallet whose history counts (and whose currency the limit is in)
+   * @param karma - Karma lookup
+   * @param now - Reference time (defaults to the current time)
+   * @param version - Scorecard version (defaults to the current one)
+   * @returns Evaluation (not stored)
+   */
+  static async evaluate(
+    user: User,
+    wallet: Wallet,
+    karma: KarmaLookup,
+    now: Date = new Date(),
+    version?: string
+  ): Promise<CreditEvaluation> {
+    const scorecard = getCreditScorecard(version);
+    const since = new Date(now.getTime() - scorecard.historyDays * DAY_MS);
+
+    const flows = await this.walletFlows(wallet, since);
+    const loans = await this.loanHistory(user.id);
+
+    const data = karma.result?.isFlagged ? karma.result.rawResponse.data : undefined;
+    const contention = /^\d+/.exec(data?.amount_in_contention ?? "");
+
+    const factors: CreditFactors = {
+      account_age_days: Math.max(0, Math.floor((now.getTime() - new Date(user.created_at).getTime()) / DAY_MS)),
+      credit_count: flows.credits,
+      inflow_outflow_percent: flows.inflow.isZero()
+        ? 0
+        : flows.outflow.isZero()
+          ? MAX_INFLOW_OUTFLOW_PERCENT
+          : Math.min(MAX_INFLOW_OUTFLOW_PERCENT, Number((flows.inflow.units * 100n) / flows.outflow.units)),
+      repaid_loans: loans.repaid,
+      open_loans: loans.open,
+      late_installments: loans.late,
+      overdue_installments: loans.overdue,
+      karma_listed: karma.result?.isFlagged ? 1 : 0,
+      karma_unavailable: karma.unavailable ? 1 : 0,
+      karma_amount_in_contention: contention ? Number(contention[0]) : 0,
+    };
+    const karmaType = data?.karma_type?.karma ?? null;
+    const monthlyInflow = flows.inflow.basisPoints(30 * 10000).divide(scorecard.historyDays);
+
+    const outcome = this.score(scorecard, factors, karmaType, monthlyInflow);
+
+    return {
+      userId: user.id,
+      walletId: wallet.id,
+      currency: wallet.currency,
+      version: scorecard.version,
+      inputs: {
+        as_of: now.toISOString(),
+        history_days: scorecard.historyDays,
+        factors,
+        karma: {
+          listed: Boolean(karma.result?.isFlagged),
+          unavailable: karma.unavailable,
+          identity_type: karma.result?.isFlagged ? karma.result.identityType : null,
+          karma_type: karmaType,
+          amount_in_contention: data?.amount_in_contention ?? null,
+        },
+        inflow: flows.inflow.toStorageString(),
+        outflow: flows.outflow.toStorageString(),
+        monthly_inflow: monthlyInflow.toStorageString(),
+      },
+      ...outcome,
+    };
+  }
+
+  /**
+   * Store a decision with its inputs
+   *
+   * @param db - Knex instance or transaction
+   * @param evaluation - Evaluation to store
+   * @param applicationId - Loan application it was made for
+   * @returns Decision ID
+   */
+  static async record(
+    db: Knex | Knex.Transaction,
+    evaluation: CreditEvaluation,
+    applicationId: string | null
+  ): Promise<string> {
+    const id = newId();
+
+    await db("credit_decisions").insert({
+      id,
+      user_id: evaluation.userId,
+      wallet_id: evaluation.walletId,
+      application_id: applicationId,
+      currency: evaluation.currency,
+      scorecard_version: evaluation.version,
+      inputs: JSON.stringify(evaluation.inputs),
+      score: evaluation.score,
+      decision: evaluation.decision,
+      limit_decimal: evaluation.limit.toStorageString(),
+      reasons: JSON.stringify(evaluation.reasons),
+      created_at: db.fn.now(),
+    });
+
+    logger.info(`Credit decision ${id} for ${evaluation.userId}: ${evaluation.decision} (score ${evaluation.score})`);
+    return id;
+  }
+
+  /**
+   * Score a user without storing the decision (admin dry run)
+   *
+   * Karma is looked up as for a loan application, but the lookup is not logged.
+   *
+   * @param userId - User to score
+   * @param currency - Currency of the wallet to assess
+   * @param version - Scorecard version (defaults to the current one)
+   * @param now - Reference time (defaults to the current time)
+   * @returns Evaluation
+   * @throws AppError (404) if the user does not exist or has no wallet in the currency
+   */
+  static async dryRun(
+    userId: string,
+    currency: string,
+    version?: string,
+    now: Date = new Date()
+  ): Promise<CreditEvaluation> {
+    const user = await UserService.getUserById(userId);
+    const wallet = await WalletService.getWalletByUserId(userId, undefined, false, { currency });
+
+    if (!wallet) {
+      throw new AppError(404, `User ${userId} has no ${currency} wallet`);
+    }
+
+    const karma = await this.lookUpKarma(user);
+    return this.evaluate(user, wallet, karma, now, version);
+  }
+
+  /**
+   * List stored decisions, newest first
+   *
+   * @param filters - Optional user and loan application filters
+   * @returns Up to 100 decisions
+   */
+  static async list(filters: CreditDecisionFilters = {}): Promise<CreditDecision[]> {
+    const query = knex("credit_decisions").orderBy("created_at", "desc").limit(LIST_LIMIT);
+
+    if (filters.userId) {
+      query.where("user_id", filters.userId);
+    }
+    if (filters.applicationId) {
+      query.where("application_id", filters.applicationId);
+    }
+
+    const rows: CreditDecisionRow[] = await query;
+    return rows.map((row) => this.decisionFromRow(row));
+  }
+
+  /**
+   * Credits, inflow and outflow of a wallet since a time
+   *
+   * Loan payouts and repayments (references starting LOAN-) and reversals
+   * are left out.
+   *
+   * @param wallet - Wallet
+   * @param since - Start of the window
+   * @returns Number of credits and the amounts in and out
+   */
+  private static async walletFlows(
+    wallet: Wallet,
+    since: Date
+  ): Promise<{ credits: number; inflow: Money; outflow: Money }> {
+    const rows: Array<{ type: string; count: number | string; amount: string | null }> = await knex("transactions")
+      .select("type")
+      .count({ count: "*" })
+      .sum({ amount: "amount_decimal" })
+      .where({ wallet_id: wallet.id })
+      .whereIn("type", ["credit", "transfer-in", "debit", "transfer-out"])
+      .where("created_at", ">=", since)
+      .whereNot("reference", "like", "LOAN-%")
+      .groupBy("type");
+
+    let credits = 0;
+    let inflow = Money.zero(wallet.currency);
+    let outflow = Money.zero(wallet.currency);
+    for (const row of rows) {
+      const amount = row.amount ? Money.fromStorage(String(row.amount), wallet.currency) : Money.zero(wallet.currency);
+      if (row.type === "credit" || row.type === "transfer-in") {
+        credits += Number(row.count);
+        inflow = inflow.add(amount);
+      } else {
+        outflow = outflow.add(amount);
+      }
+    }
+
+    return { credits, inflow, outflow };
+  }
+
+  /**
+   * How a user has handled earlier loans
+   *
+   * @param userId - Borrower
+   * @returns Loans repaid and open, installments paid late and overdue now
+   */
+  private static async loanHistory(
+    userId: string
+  ): Promise<{ repaid: number; open: number; late: number; overdue: number }> {
+    const loans: Array<{ status: string; count: number | string }> = await knex("loan_applications")
+      .select("status")
+      .count({ count: "*" })
+      .where({ user_id: userId })
+      .whereIn("status", ["disbursed", "repaid"])
+      .groupBy("status");
+
+    const installments = await knex("loan_installments")
+      .join("loan_applications", "loan_applications.id", "loan_installments.application_id")
+      .where("loan_applications.user_id", userId)
+      .select(
+        knex.raw(
+          "COALESCE(SUM(loan_installments.status = 'paid' AND DATE(loan_installments.paid_at) > loan_installments.due_date), 0) as late"
+        ),
+        knex.raw("COALESCE(SUM(loan_installments.status = 'overdue'), 0) as overdue")
+      )
+      .first();
+
+    const count = (status: string) => Number(loans.find((row) => row.status === status)?.count ?? 0);
+
+    return {
+      repaid: count("repaid"),
+      open: count("disbursed"),
+      late: Number(installments?.late ?? 0),
+      overdue: Number(installments?.overdue ?? 0),
+    };
+  }
+}
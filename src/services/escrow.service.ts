@@ -0,0 +1,732 @@
+/**
+ * Escrow Service
+ *
+ * Funds locked between two parties (marketplace loans, P2P trades) until
+ * the deal completes. The payer's money moves into the escrow user's
+ * wallet (ESCROW_USER_ID) and stays there until it is released to the
+ * beneficiary, refunded to the payer, or split between them. Every
+ * movement is an ordinary transfer, so balances, history and
+ * reconciliation need nothing escrow-specific.
+ *
+ * Lifecycle of an escrow:
+ * 1. create()        - the payer funds it (funded); fees and tier limits
+ *                      apply to this transfer only
+ * 2. release()       - the payer confirms the deal; funds go to the
+ *                      beneficiary (released)
+ * 3. refund()        - the beneficiary backs out; funds go back to the
+ *                      payer (refunded)
+ * 4. dispute()       - either party freezes it for an admin (disputed)
+ * 5. resolve()       - an admin releases, refunds or splits a funded or
+ *                      disputed escrow
+ * 6. timeout         - funded escrows past `expires_at` are refunded by
+ *                      refundExpired(); disputed ones wait for an admin
+ *
+ * Every status change is recorded in `escrow_events` with who made it.
+ * Transfers use the references `ESCROW-<id>-FUND`, `-RELEASE` and
+ * `-REFUND`, so an escrow can never be paid out twice.
+ *
+ * @module services/escrow.service
+ */
+
+import { Knex } from "knex";
+import { knex, newId, withTransaction } from "../db";
+import { config } from "../config/env";
+import { DEFAULT_CURRENCY } from "../config/currencies";
+import { FeeChannel } from "../config/fees";
+import { logger } from "../utils/logger";
+import { AppError } from "../middlewares/error";
+import { Money } from "../utils/money";
+import { UserService } from "./user.service";
+import { WalletService, Wallet, TransferResult } from "./wallet.service";
+
+/**
+ * Escrow status values
+ */
+export type EscrowStatus = "funded" | "disputed" | "released" | "refunded" | "split";
+
+/**
+ * Who caused an escrow status change
+ */
+export type EscrowActorType = "payer" | "beneficiary" | "admin" | "system";
+
+/**
+ * How an admin settles an escrow
+ */
+export type EscrowOutcome = "release" | "refund" | "split";
+
+/**
+ * Escrow record
+ */
+export interface Escrow {
+  id: string;
+  payer_user_id: string;
+  beneficiary_user_id: string;
+  currency: string;
+  amount_decimal: string;
+  released_decimal: string | null;
+  refunded_decimal: string | null;
+  description: string | null;
+  status: EscrowStatus;
+  expires_at: Date;
+  funding_transfer_id: string;
+  release_transfer_id: string | null;
+  refund_transfer_id: string | null;
+  metadata: Record<string, unknown> | null;
+  created_at: Date;
+  updated_at: Date;
+  settled_at: Date | null;
+}
+
+/**
+ * Escrow audit trail entry
+ */
+export interface EscrowEvent {
+  id: string;
+  escrow_id: string;
+  from_status: EscrowStatus | null;
+  to_status: EscrowStatus;
+  actor_type: EscrowActorType;
+  actor_user_id: string | null;
+  reason: string | null;
+  created_at: Date;
+}
+
+/**
+ * Input for funding an escrow
+ */
+export interface CreateEscrowInput {
+  /** Beneficiary's user ID */
+  beneficiaryUserId?: string;
+  /** Beneficiary's email, phone number or handle (instead of beneficiaryUserId) */
+  beneficiary?: string;
+  amount: string;
+  /** Currency of the payer's and beneficiary's wallets (default: DEFAULT_CURRENCY) */
+  currency?: string;
+  description?: string;
+  /** When an unreleased escrow is refunded (default: ESCROW_TIMEOUT_DAYS from now) */
+  expiresAt?: string | Date;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Result of funding an escrow
+ */
+export interface CreateEscrowResult {
+  escrow: Escrow;
+  transfer: TransferResult;
+}
+
+/**
+ * Admin decision on an escrow
+ */
+export interface ResolveEscrowInput {
+  outcome: EscrowOutcome;
+  /** Amount paid to the beneficiary on a split; the payer gets the rest */
+  beneficiaryAmount?: string;
+  reason?: string;
+}
+
+/**
+ * Escrow with its audit trail
+ */
+export interface EscrowDetails {
+  escrow: Escrow;
+  events: EscrowEvent[];
+}
+
+/**
+ * Which side of an escrow a user is on
+ */
+export type EscrowRole = "payer" | "beneficiary";
+
+/**
+ * Who is acting on an escrow
+ */
+interface EscrowActor {
+  type: EscrowActorType;
+  userId: string | null;
+}
+
+/**
+ * Maximum number of escrows refunded per sweep
+ */
+const TIMEOUT_BATCH_SIZE = 100;
+
+/**
+ * Escrow service class
+ */
+export class EscrowService {
+  /**
+   * Fund an escrow for another user
+   *
+   * The amount moves from the payer's wallet to the escrow wallet with the
+   * usual transfer fees and limits.
+   *
+   * @param payerId - User whose funds are escrowed
+   * @param input - Beneficiary, amount, description, timeout and metadata
+   * @param channel - Channel the request came through (selects the fee rule)
+   * @param now - Current time
+   * @returns Funded escrow and the funding transfer
+   *
+   * @throws AppError (400) if the beneficiary is the payer, or the amount or expiry is invalid
+   * @throws AppError (404) if the beneficiary does not exist or has no wallet in the currency
+   * @throws AppError (422) if the beneficiary cannot receive funds
+   * @throws AppError (503) if no escrow wallet is configured for the currency
+   * @throws Same errors as WalletService.transfer()
+   */
+  static async create(
+    payerId: string,
+    input: CreateEscrowInput,
+    channel?: FeeChannel,
+    now: Date = new Date()
+  ): Promise<CreateEscrowResult> {
+    const beneficiaryUserId =
+      input.beneficiaryUserId ?? (await UserService.resolveRecipient(input.beneficiary ?? "")).user.id;
+
+    if (beneficiaryUserId === payerId) {
+      throw new AppError(400, "Cannot open an escrow with yourself");
+    }
+
+    const currency = input.currency ?? DEFAULT_CURRENCY;
+    const money = WalletService.toMoney(input.amount, currency);
+    const expiresAt = this.resolveExpiry(input.expiresAt, now);
+    const escrowUserId = this.escrowUserId();
+
+    return withTransaction(async (trx) => {
+      await UserService.assertCanReceive(trx, beneficiaryUserId);
+
+      const [beneficiaryWallet, escrowWallet] = await Promise.all([
+        WalletService.getWalletByUserId(beneficiaryUserId, trx, false, { currency }),
+        WalletService.getWalletByUserId(escrowUserId, trx, false, { currency }),
+      ]);
+
+      if (!beneficiaryWallet) {
+        throw new AppError(404, `Beneficiary has no ${currency} wallet`);
+      }
+      if (!escrowWallet) {
+        throw new AppError(503, `No ${currency} escrow wallet; open one for the escrow user`);
+      }
+
+      const id = newId();
+      const transfer = await WalletService.transferWithin(
+        trx,
+        payerId,
+        escrowUserId,
+        money,
+        { escrow_id: id, description: input.description ?? null },
+        { currency },
+        channel,
+        `ESCROW-${id}-FUND`
+      );
+
+      await trx("escrows").insert({
+        id,
+        payer_user_id: payerId,
+        beneficiary_user_id: beneficiaryUserId,
+        currency,
+        amount_decimal: money.toStorageString(),
+        description: input.description ?? null,
+        status: "funded",
+        expires_at: expiresAt,
+        funding_transfer_id: transfer.transfer.id,
+        metadata: input.metadata ? JSON.stringify(input.metadata) : null,
+        created_at: trx.fn.now(),
+        updated_at: trx.fn.now(),
+      });
+      await this.recordEvent(trx, id, null, "funded", { type: "payer", userId: payerId });
+
+      logger.info(`Escrow ${id} funded: ${payerId} -> ${beneficiaryUserId}, ${money}`);
+
+      const escrow = await trx("escrows").where({ id }).first();
+      return { escrow, transfer };
+    });
+  }
+
+  /**
+   * Confirm the deal and pay the beneficiary
+   *
+   * @param payerId - Payer of the escrow
+   * @param escrowId - Escrow to release
+   * @param reason - Optional note for the audit trail
+   * @returns Released escrow
+   *
+   * @throws AppError (404) if the user is not the payer of the escrow
+   * @throws AppError (409) if the escrow is not funded (a disputed escrow needs an admin)
+   * @throws AppError (422) if the beneficiary can no longer receive funds
+   */
+  static async release(payerId: string, escrowId: string, reason?: string): Promise<Escrow> {
+    return withTransaction(async (trx) => {
+      const escrow = await this.lockEscrow(trx, escrowId, { payer_user_id: payerId }, ["funded"]);
+      const amount = Money.fromStorage(escrow.amount_decimal, escrow.currency);
+
+      await this.settle(trx, escrow, amount, { type: "payer", userId: payerId }, reason);
+
+      return trx("escrows").where({ id: escrow.id }).first();
+    });
+  }
+
+  /**
+   * Back out of the deal and return the funds to the payer
+   *
+   * @param beneficiaryId - Beneficiary of the escrow
+   * @param escrowId - Escrow to refund
+   * @param reason - Optional note for the audit trail
+   * @returns Refunded escrow
+   *
+   * @throws AppError (404) if the user is not the beneficiary of the escrow
+   * @throws AppError (409) if the escrow is not funded (a disputed escrow needs an admin)
+   */
+  static async refund(beneficiaryId: string, escrowId: string, reason?: string): Promise<Escrow> {
+    return withTransaction(async (trx) => {
+      const escrow = await this.lockEscrow(
+        trx,
+        escrowId,
+        { beneficiary_user_id: beneficiaryId },
+        ["funded"]
+      );
+
+      await this.settle(
+        trx,
+        escrow,
+        Money.zero(escrow.currency),
+        { type: "beneficiary", userId: beneficiaryId },
+        reason
+      );
+
+      return trx("escrows").where({ id: escrow.id }).first();
+    });
+  }
+
+  /**
+   * Freeze a funded escrow until an admin resolves it
+   *
+   * A disputed escrow is not refunded when it times out.
+   *
+   * @param userId - Payer or beneficiary of the escrow
+   * @param escrowId - Escrow to dispute
+   * @param reason - What went wrong
+   * @returns Disputed escrow
+   *
+   * @throws AppError (404) if the user is on neither side of the escrow
+   * @throws AppError (409) if the escrow is not funded or has timed out
+   */
+  static async dispute(userId: string, escrowId: string, reason: string): Promise<Escrow> {
+    return withTransaction(async (trx) => {
+      const escrow = await this.lockEscrow(trx, escrowId, {}, ["funded"]);
+      const actorType = this.partyRole(escrow, userId);
+
+      if (!actorType) {
+        throw new AppError(404, `Escrow not found: ${escrowId}`);
+      }
+
+      // Left for refundExpired() to settle
+      if (new Date(escrow.expires_at).getTime() <= Date.now()) {
+        throw new AppError(409, `Escrow ${escrow.id} has expired`);
+      }
+
+      await trx("escrows")
+        .where({ id: escrow.id })
+        .update({ status: "disputed", updated_at: trx.fn.now() });
+      await this.recordEvent(trx, escrow.id, escrow.status, "disputed", { type: actorType, userId }, reason);
+
+      logger.info(`Escrow ${escrow.id} disputed by ${actorType} ${userId}`);
+
+      return trx("escrows").where({ id: escrow.id }).first();
+    });
+  }
+
+  /**
+   * Settle a funded or disputed escrow as an admin
+   *
+   * @param adminId - Admin making the decision
+   * @param escrowId - Escrow to settle
+   * @param input - Outcome, the beneficiary's share on a split, and the reason
+   * @returns Settled escrow
+   *
+   * @throws AppError (400) if a split amount is missing, not positive, or not less than the escrowed amount
+   * @throws AppError (404) if the escrow does not exist
+   * @throws AppError (409) if the escrow is already settled
+   * @throws AppError (422) if the beneficiary can no longer receive funds
+   */
+  static async resolve(adminId: string, escrowId: string, input: ResolveEscrowInput): Promise<Escrow> {
+    return withTransaction(async (trx) => {
+      const escrow = await this.lockEscrow(trx, escrowId, {}, ["funded", "disputed"]);
+      const amount = Money.fromStorage(escrow.amount_decimal, escrow.currency);
+
+      let toBeneficiary: Money;
+      if (input.outcome === "release") {
+        toBeneficiary = amount;
+      } else if (input.outcome === "refund") {
+        toBeneficiary = Money.zero(escrow.currency);
+      } else {
+        if (input.beneficiaryAmount === undefined) {
+          throw new AppError(400, "beneficiaryAmount is required for a split");
+        }
+        toBeneficiary = WalletService.toMoney(input.beneficiaryAmount, escrow.currency);
+        if (!toBeneficiary.lessThan(amount)) {
+          throw new AppError(400, `beneficiaryAmount must be less than the escrowed ${amount}`);
+        }
+      }
+
+      await this.settle(trx, escrow, toBeneficiary, { type: "admin", userId: adminId }, input.reason);
+
+      return trx("escrows").where({ id: escrow.id }).first();
+    });
+  }
+
+  /**
+   * Refund funded escrows whose timeout has passed
+   *
+   * Each escrow is refunded in its own transaction, so one failure does
+   * not hold up the rest. Called periodically by the server.
+   *
+   * @param now - Reference time (defaults to the current time)
+   * @returns Number of escrows refunded
+   */
+  static async refundExpired(now: Date = new Date()): Promise<number> {
+    const due: Array<{ id: string }> = await knex("escrows")
+      .select("id")
+      .where({ status: "funded" })
+      .where("expires_at", "<=", now)
+      .orderBy("expires_at", "asc")
+      .limit(TIMEOUT_BATCH_SIZE);
+
+    let refunded = 0;
+    for (const { id } of due) {
+      try {
+        await withTransaction(async (trx) => {
+          const escrow: Escrow | undefined = await trx("escrows")
+            .where({ id, status: "funded" })
+            .forUpdate()
+            .first();
+
+          // Released or disputed since it was selected
+          if (!escrow) {
+            return;
+          }
+
+          await this.settle(
+            trx,
+            escrow,
+            Money.zero(escrow.currency),
+            { type: "system", userId: null },
+            "Escrow timed out"
+          );
+          refunded++;
+        });
+      } catch (error) {
+        logger.error(`Failed to refund timed-out escrow ${id}:`, error);
+      }
+    }
+
+    if (refunded > 0) {
+      logger.info(`Refunded ${refunded} timed-out escrows`);
+    }
+
+    return refunded;
+  }
+
+  /**
+   * Get an escrow the user is a party to, with its audit trail
+   *
+   * @param userId - Payer or beneficiary
+   * @param escrowId - Escrow ID
+   * @returns Escrow and its events, oldest first
+   *
+   * @throws AppError (404) if the user is on neither side of the escrow
+   */
+  static async getEscrow(userId: string, escrowId: string): Promise<EscrowDetails> {
+    const escrow: Escrow | undefined = await knex("escrows")
+      .where({ id: escrowId })
+      .where((query) => {
+        query.where({ payer_user_id: userId }).orWhere({ beneficiary_user_id: userId });
+      })
+      .first();
+
+    if (!escrow) {
+      throw new AppError(404, `Escrow not found: ${escrowId}`);
+    }
+
+    return { escrow, events: await this.listEvents(escrow.id) };
+  }
+
+  /**
+   * List escrows a user funded, or is the beneficiary of, newest first
+   *
+   * @param userId - User
+   * @param role - `payer` or `beneficiary`
+   * @param status - Optional status filter
+   * @returns Escrows
+   */
+  static async listEscrows(userId: string, role: EscrowRole, status?: EscrowStatus): Promise<Escrow[]> {
+    const column = role === "payer" ? "payer_user_id" : "beneficiary_user_id";
+    const query = knex("escrows")
+      .where(column, userId)
+      .orderBy("created_at", "desc");
+
+    if (status) {
+      query.where("status", status);
+    }
+
+    return query;
+  }
+
+  /**
+   * List all escrows for the back office, newest first
+   *
+   * @param status - Optional status filter (e.g. `disputed`)
+   * @returns Escrows
+   */
+  static async listAll(status?: EscrowStatus): Promise<Escrow[]> {
+    const query = knex("escrows").orderBy("created_at", "desc");
+
+    if (status) {
+      query.where("status", status);
+    }
+
+    return query;
+  }
+
+  /**
+   * List an escrow's audit trail, oldest first
+   *
+   * @param escrowId - Escrow ID
+   * @returns Events
+   */
+  static async listEvents(escrowId: string): Promise<EscrowEvent[]> {
+    return knex("escrow_events")
+      .where({ escrow_id: escrowId })
+      .orderBy("created_at", "asc");
+  }
+
+  /**
+   * Pay a locked escrow out of the escrow wallet
+   *
+   * The beneficiary gets `toBeneficiary` and the payer the rest; the final
+   * status follows from which of the two received anything. Wallets are
+   * locked in user ID order, like transfers.
+   *
+   * @param trx - Knex transaction
+   * @param escrow - Locked funded or disputed escrow
+   * @param toBeneficiary - Beneficiary's share (zero to refund everything)
+   * @param actor - Who settled it
+   * @param reason - Optional note for the audit trail
+   *
+   * @throws AppError (422) if the beneficiary can no longer receive funds
+   * @throws AppError (503) if the escrow wallet is missing
+   */
+  private static async settle(
+    trx: Knex.Transaction,
+    escrow: Escrow,
+    toBeneficiary: Money,
+    actor: EscrowActor,
+    reason?: string
+  ): Promise<void> {
+    const amount = Money.fromStorage(escrow.amount_decimal, escrow.currency);
+    const toPayer = amount.subtract(toBeneficiary);
+    const status: EscrowStatus = toPayer.isZero()
+      ? "released"
+      : toBeneficiary.isZero()
+        ? "refunded"
+        : "split";
+
+    if (toBeneficiary.isPositive()) {
+      await UserService.assertCanReceive(trx, escrow.beneficiary_user_id);
+    }
+
+    const escrowUserId = this.escrowUserId();
+    const parties = [escrowUserId];
+    if (toBeneficiary.isPositive()) {
+      parties.push(escrow.beneficiary_user_id);
+    }
+    if (toPayer.isPositive()) {
+      parties.push(escrow.payer_user_id);
+    }
+
+    // Lock in a consistent order to prevent deadlocks
+    const wallets = new Map<string, Wallet>();
+    for (const userId of [...parties].sort()) {
+      const wallet = await WalletService.getWalletByUserId(userId, trx, true, {
+        currency: escrow.currency,
+      });
+      if (!wallet) {
+        throw userId === escrowUserId
+          ? new AppError(503, `No ${escrow.currency} escrow wallet; open one for the escrow user`)
+          : new Error(`Wallet not found for user: ${userId}`);
+      }
+      wallets.set(userId, wallet);
+    }
+
+    let escrowWallet = wallets.get(escrowUserId) as Wallet;
+    let releaseTransferId: string | null = null;
+    let refundTransferId: string | null = null;
+
+    if (toBeneficiary.isPositive()) {
+      const moved = await WalletService.moveWithin(
+        trx,
+        escrowWallet,
+        wallets.get(escrow.beneficiary_user_id) as Wallet,
+        toBeneficiary,
+        { escrow_id: escrow.id },
+        `ESCROW-${escrow.id}-RELEASE`,
+        `Escrow ${escrow.id} released`
+      );
+      escrowWallet = moved.fromWallet;
+      releaseTransferId = moved.transfer.id;
+    }
+
+    if (toPayer.isPositive()) {
+      const moved = await WalletService.moveWithin(
+        trx,
+        escrowWallet,
+        wallets.get(escrow.payer_user_id) as Wallet,
+        toPayer,
+        { escrow_id: escrow.id },
+        `ESCROW-${escrow.id}-REFUND`,
+        `Escrow ${escrow.id} refunded`
+      );
+      refundTransferId = moved.transfer.id;
+    }
+
+    await trx("escrows")
+      .where({ id: escrow.id })
+      .update({
+        status,
+        released_decimal: toBeneficiary.toStorageString(),
+        refunded_decimal: toPayer.toStorageString(),
+        release_transfer_id: releaseTransferId,
+        refund_transfer_id: refundTransferId,
+        settled_at: trx.fn.now(),
+        updated_at: trx.fn.now(),
+      });
+    await this.recordEvent(trx, escrow.id, escrow.status, status, actor, reason);
+
+    logger.info(
+      `Escrow ${escrow.id} ${status} by ${actor.type}: ${toBeneficiary} to beneficiary, ${toPayer} to payer`
+    );
+  }
+
+  /**
+   * Append a status change to an escrow's audit trail
+   *
+   * @param trx - Knex transaction
+   * @param escrowId - Escrow ID
+   * @param fromStatus - Status before the change (null on creation)
+   * @param toStatus - Status after the change
+   * @param actor - Who made the change
+   * @param reason - Optional reason
+   */
+  private static async recordEvent(
+    trx: Knex.Transaction,
+    escrowId: string,
+    fromStatus: EscrowStatus | null,
+    toStatus: EscrowStatus,
+    actor: EscrowActor,
+    reason?: string
+  ): Promise<void> {
+    await trx("escrow_events").insert({
+      id: newId(),
+      escrow_id: escrowId,
+      from_status: fromStatus,
+      to_status: toStatus,
+      actor_type: actor.type,
+      actor_user_id: actor.userId,
+      reason: reason ?? null,
+      created_at: trx.fn.now(),
+    });
+  }
+
+  /**
+   * Lock an escrow in one of the expected statuses
+   *
+   * @param trx - Knex transaction
+   * @param escrowId - Escrow ID
+   * @param owner - Column identifying the user allowed to act on it (empty for any)
+   * @param statuses - Statuses the action applies to
+   * @returns Locked escrow
+   *
+   * @throws AppError (404) if the escrow does not exist or the user may not act on it
+   * @throws AppError (409) if the escrow is in another status
+   */
+  private static async lockEscrow(
+    trx: Knex.Transaction,
+    escrowId: string,
+    owner: Partial<Pick<Escrow, "payer_user_id" | "beneficiary_user_id">>,
+    statuses: EscrowStatus[]
+  ): Promise<Escrow> {
+    const escrow: Escrow | undefined = await trx("escrows")
+      .where({ id: escrowId, ...owner })
+      .forUpdate()
+      .first();
+
+    if (!escrow) {
+      throw new AppError(404, `Escrow not found: ${escrowId}`);
+    }
+
+    if (!statuses.includes(escrow.status)) {
+      throw new AppError(409, `Escrow ${escrow.id} is ${escrow.status}`);
+    }
+
+    return escrow;
+  }
+
+  /**
+   * Which party of an escrow a user is
+   *
+   * @param escrow - Escrow
+   * @param userId - User
+   * @returns `payer`, `beneficiary`, or null for neither
+   */
+  private static partyRole(escrow: Escrow, userId: string): EscrowRole | null {
+    if (escrow.payer_user_id === userId) {
+      return "payer";
+    }
+    if (escrow.beneficiary_user_id === userId) {
+      return "beneficiary";
+    }
+    return null;
+  }
+
+  /**
+   * User whose wallets hold escrowed funds
+   *
+   * @returns ESCROW_USER_ID
+   * @throws AppError (503) if it is not configured
+   */
+  private static escrowUserId(): string {
+    const userId = config.escrow.userId;
+
+    if (!userId) {
+      throw new AppError(503, "Escrow wallet is not configured (set ESCROW_USER_ID)");
+    }
+
+    return userId;
+  }
+
+  /**
+   * Work out when a new escrow times out
+   *
+   * @param expiresAt - Requested timeout, if any
+   * @param now - Current time
+   * @returns Timeout
+   *
+   * @throws AppError (400) if the timeout is not in the future or too far ahead
+   */
+  private static resolveExpiry(expiresAt: string | Date | undefined, now: Date): Date {
+    if (expiresAt === undefined) {
+      return new Date(now.getTime() + config.escrow.defaultTimeoutDays * 86400 * 1000);
+    }
+
+    const expiry = new Date(expiresAt);
+    if (Number.isNaN(expiry.getTime()) || expiry <= now) {
+      throw new AppError(400, "expiresAt must be in the future");
+    }
+
+    const maxDays = config.escrow.maxTimeoutDays;
+    if (expiry.getTime() > now.getTime() + maxDays * 86400 * 1000) {
+      throw new AppError(400, `expiresAt must be within ${maxDays} days`);
+    }
+
+    return expiry;
+  }
+}
@@ -0,0 +1,661 @@
+/**
+ * Fee Service
+ *
+ * Prices withdrawals and transfers from the rules in fee_rules and collects
+ * the fee into the platform's revenue wallet. FX conversion fees (priced by
+ * FX_FEE_BPS) are collected the same way.
+ *
+ * Rule selection: among active rules for the operation and currency whose
+ * channel and user tier match (a null channel or tier matches anything), the
+ * most specific rule wins, then the highest priority, then the oldest. No
+ * matching rule means no fee.
+ *
+ * A fee is charged on top of the amount: the payer is debited amount + fee
+ * and the recipient (or payout) receives the full amount. collect() posts
+ * the fee as its own `fee` / `fee-income` transaction pair and journal
+ * (reference `<operation reference>-FEE`) inside the caller's DB transaction.
+ *
+ * The revenue wallets belong to the user named by FEE_REVENUE_USER_ID (one
+ * wallet per currency charged). Operations lock the revenue wallet with
+ * lockWithRevenueWallet(), in user_id order among their own wallets like any
+ * other user's, so lock order stays consistent across operations. Moves to
+ * or from the revenue user are internal and never charged.
+ *
+ * Pricing columns of a rule are immutable once created: to change a price,
+ * add a new rule and deactivate the old one, so the `fee_rule_id` recorded
+ * on past fee transactions keeps describing what was charged.
+ *
+ * @module services/fee.service
+ */
+
+import { Knex } from "knex";
+import { knex, newId } from "../db";
+import { config } from "../config/env";
+import { DEFAULT_FEE_CHANNEL, FeeChannel, FeeOperation, FeeType } from "../config/fees";
+import { UserTier } from "../config/userTiers";
+import { logger } from "../utils/logger";
+import { AppError } from "../middlewares/error";
+import { Money } from "../utils/money";
+import { LedgerService } from "./ledger.service";
+import { Wallet, Transaction } from "./wallet.service";
+
+/**
+ * Journal description for a collected fee, by operation
+ */
+const FEE_DESCRIPTIONS: Record<CollectedFee["operation"], string> = {
+  withdraw: "Withdrawal fee",
+  transfer: "Transfer fee",
+  pot_early_withdrawal: "Savings pot early withdrawal penalty",
+  fx_conversion: "FX conversion fee",
+};
+
+/**
+ * Amount band of a tiered rule
+ */
+export interface FeeTierBand {
+  /** Upper bound of the band, inclusive (null = no upper bound) */
+  up_to: string | null;
+  /** Fixed fee for amounts in the band */
+  flat_fee?: string;
+  /** Basis points of the amount for amounts in the band */
+  bps?: number;
+}
+
+/**
+ * Fee rule record
+ */
+export interface FeeRule {
+  id: string;
+  operation: FeeOperation;
+  currency: string;
+  channel: FeeChannel | null;
+  user_tier: UserTier | null;
+  fee_type: FeeType;
+  flat_fee_decimal: string | null;
+  percentage_bps: number | null;
+  tiers: FeeTierBand[] | null;
+  min_fee_decimal: string | null;
+  max_fee_decimal: string | null;
+  priority: number;
+  active: boolean;
+  description: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * New fee rule (request body shape)
+ */
+export interface FeeRuleInput {
+  operation: FeeOperation;
+  currency: string;
+  channel?: FeeChannel | null;
+  userTier?: UserTier | null;
+  feeType: FeeType;
+  flatFee?: string | null;
+  percentageBps?: number | null;
+  tiers?: Array<{ upTo: string | null; flatFee?: string; bps?: number }> | null;
+  minFee?: string | null;
+  maxFee?: string | null;
+  priority?: number;
+  active?: boolean;
+  description?: string | null;
+}
+
+/**
+ * Fee rule changes that do not affect pricing
+ */
+export interface FeeRuleUpdate {
+  active?: boolean;
+  priority?: number;
+  description?: string | null;
+}
+
+/**
+ * Fee rule list filters
+ */
+export interface FeeRuleFilters {
+  operation?: FeeOperation;
+  currency?: string;
+  active?: boolean;
+}
+
+/**
+ * What a fee applies to
+ */
+export interface FeeContext {
+  operation: FeeOperation;
+  /** User who pays the fee */
+  userId: string;
+  currency: string;
+  channel?: FeeChannel;
+  /** Other party of a transfer (a transfer to the revenue user is not charged) */
+  counterpartyId?: string;
+}
+
+/**
+ * Priced fee with its parts
+ */
+export interface FeeBreakdown {
+  operation: FeeOperation;
+  channel: FeeChannel;
+  tier: UserTier;
+  /** Rule that priced the fee (null = no rule matched, no fee) */
+  rule: FeeRule | null;
+  /** Amount being moved */
+  amount: Money;
+  /** Fixed part of the fee */
+  flat: Money;
+  /** Basis-point part of the fee */
+  percentage: Money;
+  /** Band used by a tiered rule */
+  band: FeeTierBand | null;
+  /** Whether the rule's floor or cap changed the fee */
+  adjustment: "min" | "max" | null;
+  /** Fee charged */
+  fee: Money;
+  /** Amount + fee (what the payer is debited) */
+  total: Money;
+}
+
+/**
+ * Fee to collect
+ *
+ * A FeeBreakdown, or a fee priced outside fee_rules (the FX conversion fee
+ * comes from FX_FEE_BPS).
+ */
+export interface CollectedFee {
+  operation: FeeOperation | "fx_conversion";
+  /** Rule that priced the fee (null = not priced by a rule) */
+  rule: FeeRule | null;
+  /** Fee charged */
+  fee: Money;
+}
+
+/**
+ * Fee service class
+ */
+export class FeeService {
+  /**
+   * Normalise a fee_rules row (JSON and boolean columns)
+   *
+   * @param row - Row from fee_rules
+   * @returns Fee rule
+   */
+  private static fromRow(row: any): FeeRule {
+    return {
+      ...row,
+      tiers: typeof row.tiers === "string" ? JSON.parse(row.tiers) : row.tiers ?? null,
+      active: Boolean(row.active),
+    };
+  }
+
+  /**
+   * Find the rule that prices an operation
+   *
+   * @param db - Knex instance or transaction
+   * @param operation - Operation being priced
+   * @param currency - Currency of the amount
+   * @param channel - Request channel
+   * @param tier - Payer's tier
+   * @returns Best matching active rule, or null
+   */
+  static async findRule(
+    db: Knex | Knex.Transaction,
+    operation: FeeOperation,
+    currency: string,
+    channel: FeeChannel,
+    tier: UserTier
+  ): Promise<FeeRule | null> {
+    const row = await db("fee_rules")
+      .where({ operation, currency, active: true })
+      .where((query) => query.where("channel", channel).orWhereNull("channel"))
+      .where((query) => query.where("user_tier", tier).orWhereNull("user_tier"))
+      .orderByRaw("(channel IS NOT NULL) + (user_tier IS NOT NULL) DESC")
+      .orderBy("priority", "desc")
+      .orderBy("created_at", "asc")
+      .first();
+
+    return row ? this.fromRow(row) : null;
+  }
+
+  /**
+   * Price an amount with a rule
+   *
+   * @param rule - Rule to apply (null = no fee)
+   * @param amount - Amount being moved
+   * @returns Fee parts and total fee
+   */
+  static calculate(
+    rule: FeeRule | null,
+    amount: Money
+  ): Pick<FeeBreakdown, "flat" | "percentage" | "band" | "adjustment" | "fee"> {
+    const zero = Money.zero(amount.currency);
+    const stored = (value: string | null | undefined) =>
+      value === null || value === undefined ? zero : Money.fromStorage(value, amount.currency);
+
+    let flat = zero;
+    let percentage = zero;
+    let band: FeeTierBand | null = null;
+
+    if (rule?.fee_type === "flat") {
+      flat = stored(rule.flat_fee_decimal);
+    } else if (rule?.fee_type === "percentage") {
+      flat = stored(rule.flat_fee_decimal);
+      percentage = amount.basisPoints(rule.percentage_bps ?? 0);
+    } else if (rule?.fee_type === "tiered") {
+      band =
+        (rule.tiers ?? []).find(
+          (candidate) =>
+            candidate.up_to === null || !amount.greaterThan(stored(candidate.up_to))
+        ) ?? null;
+      flat = stored(band?.flat_fee);
+      percentage = amount.basisPoints(band?.bps ?? 0);
+    }
+
+    let fee = flat.add(percentage);
+    let adjustment: FeeBreakdown["adjustment"] = null;
+    const min = rule?.min_fee_decimal ? stored(rule.min_fee_decimal) : null;
+    const max = rule?.max_fee_decimal ? stored(rule.max_fee_decimal) : null;
+
+    if (min && fee.lessThan(min)) {
+      fee = min;
+      adjustment = "min";
+    } else if (max && fee.greaterThan(max)) {
+      fee = max;
+      adjustment = "max";
+    }
+
+    return { flat, percentage, band, adjustment, fee };
+  }
+
+  /**
+   * Price the fee for an operation
+   *
+   * @param db - Knex instance or transaction
+   * @param context - Operation, payer, currency and channel
+   * @param amount - Amount being moved
+   * @returns Fee breakdown
+   * @throws AppError 404 if the payer does not exist
+   */
+  static async quote(
+    db: Knex | Knex.Transaction,
+    context: FeeContext,
+    amount: Money
+  ): Promise<FeeBreakdown> {
+    const channel = context.channel ?? DEFAULT_FEE_CHANNEL;
+    const user: { tier: UserTier } | undefined = await db("users")
+      .select("tier")
+      .where({ id: context.userId })
+      .first();
+
+    if (!user) {
+      throw new AppError(404, `User not found: ${context.userId}`);
+    }
+
+    const revenueUserId = config.fees.revenueUserId;
+    const internal =
+      revenueUserId !== undefined &&
+      (context.userId === revenueUserId || context.counterpartyId === revenueUserId);
+
+    const rule = internal
+      ? null
+      : await this.findRule(db, context.operation, context.currency, channel, user.tier);
+    const priced = this.calculate(rule, amount);
+
+    return {
+      operation: context.operation,
+      channel,
+      tier: user.tier,
+      rule,
+      amount,
+      ...priced,
+      total: amount.add(priced.fee),
+    };
+  }
+
+  /**
+   * Price an operation without moving money
+   *
+   * @param userId - User who would pay the fee
+   * @param operation - Operation to price
+   * @param amount - Decimal amount (e.g. "1500.50")
+   * @param currency - Currency of the amount
+   * @param channel - Request channel (default DEFAULT_FEE_CHANNEL)
+   * @returns Fee breakdown
+   * @throws AppError 400 if the amount is invalid, 404 if the user does not exist
+   */
+  static async simulate(
+    userId: string,
+    operation: FeeOperation,
+    amount: string,
+    currency: string,
+    channel?: FeeChannel
+  ): Promise<FeeBreakdown> {
+    const money = Money.parse(amount, currency);
+    return this.quote(knex, { operation, userId, currency, channel }, money);
+  }
+
+  /**
+   * Lock an operation's wallets together with the revenue wallet
+   *
+   * Users are visited in ascending user_id order, the revenue user among
+   * them; `lockUser` locks the wallets of each of the operation's users. The
+   * revenue wallet is not locked when the revenue user is one of `userIds`
+   * (such moves are never charged) or no revenue user is configured.
+   *
+   * @param trx - Knex transaction
+   * @param userIds - Users whose wallets the operation moves money between
+   * @param currency - Currency a fee would be charged in
+   * @param lockUser - Locks one user's wallets
+   * @returns What `lockUser` returned for each user, and the locked revenue
+   *   wallet (null if none was locked)
+   */
+  static async lockWithRevenueWallet<T>(
+    trx: Knex.Transaction,
+    userIds: string[],
+    currency: string,
+    lockUser: (userId: string) => Promise<T>
+  ): Promise<{ locked: Map<string, T>; revenueWallet: Wallet | null }> {
+    const revenueUserId = config.fees.revenueUserId;
+    const lockRevenue = revenueUserId !== undefined && !userIds.includes(revenueUserId);
+    const order = lockRevenue ? [...userIds, revenueUserId] : [...userIds];
+
+    const locked = new Map<string, T>();
+    let revenueWallet: Wallet | null = null;
+    for (const userId of [...new Set(order)].sort()) {
+      if (lockRevenue && userId === revenueUserId) {
+        revenueWallet =
+          (await trx("wallets")
+            .where({ user_id: revenueUserId, currency, parent_wallet_id: null })
+            .forUpdate()
+            .first()) ?? null;
+      } else {
+        locked.set(userId, await lockUser(userId));
+      }
+    }
+
+    return { locked, revenueWallet };
+  }
+
+  /**
+   * Collect a fee into the revenue wallet
+   *
+   * Must run inside the operation's DB transaction, after the payer's wallet
+   * and the revenue wallet have been locked (see lockWithRevenueWallet()).
+   * Debits the payer with a `fee` transaction, credits the revenue wallet
+   * with a `fee-income` transaction, and posts their journal. The caller
+   * still updates the payer's balance and checks it against the ledger.
+   *
+   * @param trx - Knex transaction
+   * @param payer - Locked payer wallet
+   * @param revenueWallet - Locked revenue wallet in the payer's currency
+   * @param breakdown - Priced fee (must be positive)
+   * @param balanceAfter - Payer balance after the fee
+   * @param reference - Reference of the operation the fee belongs to
+   * @param metadata - Extra metadata for both transactions
+   * @returns The payer's fee transaction
+   * @throws AppError 503 if no revenue wallet is configured for the currency
+   */
+  static async collect(
+    trx: Knex.Transaction,
+    payer: Wallet,
+    revenueWallet: Wallet | null,
+    breakdown: CollectedFee,
+    balanceAfter: Money,
+    reference: string,
+    metadata: Record<string, unknown> = {}
+  ): Promise<Transaction> {
+    if (!config.fees.revenueUserId) {
+      throw new AppError(503, "Fee revenue wallet is not configured (set FEE_REVENUE_USER_ID)");
+    }
+
+    if (!revenueWallet || revenueWallet.currency !== payer.currency) {
+      throw new AppError(
+        503,
+        `No ${payer.currency} fee revenue wallet; open one for the revenue user`
+      );
+    }
+
+    const fee = breakdown.fee;
+    const amountDecimal = fee.toStorageString();
+    const feeReference = `${reference}-FEE`;
+    const revenueBalance = Money.fromStorage(revenueWallet.balance_decimal, payer.currency).add(fee);
+    const feeMetadata = JSON.stringify({
+      ...metadata,
+      fee_for: reference,
+      fee_rule_id: breakdown.rule?.id ?? null,
+    });
+
+    const feeTxnId = newId();
+    await Promise.all([
+      trx("transactions").insert({
+        id: feeTxnId,
+        wallet_id: payer.id,
+        type: "fee",
+        amount_decimal: amountDecimal,
+        balance_after: balanceAfter.toStorageString(),
+        reference: feeReference,
+        metadata: feeMetadata,
+        created_at: trx.fn.now(),
+      }),
+      trx("transactions").insert({
+        id: newId(),
+        wallet_id: revenueWallet.id,
+        type: "fee-income",
+        amount_decimal: amountDecimal,
+        balance_after: revenueBalance.toStorageString(),
+        reference: `${feeReference}-IN`,
+        metadata: feeMetadata,
+        created_at: trx.fn.now(),
+      }),
+    ]);
+
+    // Ledger: the fee moves from the payer's wallet to the revenue wallet
+    await LedgerService.postJournal(trx, {
+      reference: feeReference,
+      description: FEE_DESCRIPTIONS[breakdown.operation],
+      legs: [
+        { account: { walletId: payer.id, currency: payer.currency }, direction: "debit", amount: fee },
+        { account: { walletId: revenueWallet.id, currency: payer.currency }, direction: "credit", amount: fee },
+      ],
+      metadata: { fee_for: reference, fee_rule_id: breakdown.rule?.id ?? null },
+    });
+    await LedgerService.assertWalletBalance(trx, revenueWallet.id, revenueBalance);
+
+    await trx("wallets")
+      .where({ id: revenueWallet.id })
+      .update({
+        balance_decimal: revenueBalance.toStorageString(),
+        updated_at: trx.fn.now(),
+      });
+
+    logger.info(`Collected fee ${amountDecimal} ${payer.currency} from wallet ${payer.id} [ref: ${feeReference}]`);
+
+    return trx("transactions").where({ id: feeTxnId }).first();
+  }
+
+  /**
+   * List fee rules
+   *
+   * @param filters - Optional operation, currency and active filters
+   * @returns Rules, grouped by operation and currency, highest priority first
+   */
+  static async listRules(filters: FeeRuleFilters = {}): Promise<FeeRule[]> {
+    const query = knex("fee_rules");
+
+    if (filters.operation) {
+      query.where("operation", filters.operation);
+    }
+    if (filters.currency) {
+      query.where("currency", filters.currency);
+    }
+    if (filters.active !== undefined) {
+      query.where("active", filters.active);
+    }
+
+    const rows = await query
+      .orderBy("operation", "asc")
+      .orderBy("currency", "asc")
+      .orderBy("priority", "desc")
+      .orderBy("created_at", "asc");
+
+    return rows.map((row: any) => this.fromRow(row));
+  }
+
+  /**
+   * Parse a configured fee amount in the rule's currency
+   *
+   * @param value - Decimal string
+   * @param currency - Rule currency
+   * @param field - Field name for error messages
+   * @returns Money value
+   * @throws AppError 400 if the amount is invalid for the currency
+   */
+  private static parseFeeAmount(value: string, currency: string, field: string): Money {
+    try {
+      return Money.parse(value, currency);
+    } catch (error) {
+      throw new AppError(400, `${field}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Check a new rule's pricing fields and build its row
+   *
+   * @param input - Rule input
+   * @returns Row values for fee_rules (without id and timestamps)
+   * @throws AppError 400 if the pricing fields do not fit the fee type
+   */
+  private static toRow(input: FeeRuleInput) {
+    const { currency, feeType } = input;
+    const flatFee = input.flatFee ? this.parseFeeAmount(input.flatFee, currency, "flatFee") : null;
+    const minFee = input.minFee ? this.parseFeeAmount(input.minFee, currency, "minFee") : null;
+    const maxFee = input.maxFee ? this.parseFeeAmount(input.maxFee, currency, "maxFee") : null;
+    let tiers: FeeTierBand[] | null = null;
+
+    if (feeType === "flat" && !flatFee) {
+      throw new AppError(400, "A flat rule needs flatFee");
+    }
+    if (feeType === "percentage" && !input.percentageBps) {
+      throw new AppError(400, "A percentage rule needs percentageBps");
+    }
+    if (feeType !== "percentage" && input.percentageBps) {
+      throw new AppError(400, "percentageBps only applies to percentage rules");
+    }
+    if (feeType === "tiered") {
+      if (flatFee) {
+        throw new AppError(400, "A tiered rule sets its fees per band, not with flatFee");
+      }
+      if (!input.tiers || input.tiers.length === 0) {
+        throw new AppError(400, "A tiered rule needs at least one band in tiers");
+      }
+
+      let previous: Money | null = null;
+      tiers = input.tiers.map((band, index) => {
+        const last = index === input.tiers!.length - 1;
+        if ((band.upTo === null) !== last) {
+          throw new AppError(400, "Only the last band in tiers may (and must) have upTo null");
+        }
+        if (!band.flatFee && !band.bps) {
+          throw new AppError(400, `Band ${index + 1} needs flatFee and/or bps`);
+        }
+
+        const upTo = band.upTo === null ? null : this.parseFeeAmount(band.upTo, currency, "upTo");
+        if (upTo && previous && !upTo.greaterThan(previous)) {
+          throw new AppError(400, "Bands in tiers must be in ascending upTo order");
+        }
+        previous = upTo;
+
+        return {
+          up_to: upTo ? upTo.toStorageString() : null,
+          ...(band.flatFee
+            ? { flat_fee: this.parseFeeAmount(band.flatFee, currency, "flatFee").toStorageString() }
+            : {}),
+          ...(band.bps ? { bps: band.bps } : {}),
+        };
+      });
+    } else if (input.tiers) {
+      throw new AppError(400, "tiers only applies to tiered rules");
+    }
+
+    if (minFee && maxFee && minFee.greaterThan(maxFee)) {
+      throw new AppError(400, "minFee must not exceed maxFee");
+    }
+
+    return {
+      operation: input.operation,
+      currency,
+      channel: input.channel ?? null,
+      user_tier: input.userTier ?? null,
+      fee_type: feeType,
+      flat_fee_decimal: flatFee ? flatFee.toStorageString() : null,
+      percentage_bps: input.percentageBps ?? null,
+      tiers: tiers ? JSON.stringify(tiers) : null,
+      min_fee_decimal: minFee ? minFee.toStorageString() : null,
+      max_fee_decimal: maxFee ? maxFee.toStorageString() : null,
+      priority: input.priority ?? 0,
+      active: input.active ?? true,
+      description: input.description ?? null,
+    };
+  }
+
+  /**
+   * Get a fee rule
+   *
+   * @param ruleId - Rule ID
+   * @returns Fee rule
+   * @throws AppError 404 if the rule does not exist
+   */
+  static async getRule(ruleId: string): Promise<FeeRule> {
+    const row = await knex("fee_rules").where({ id: ruleId }).first();
+
+    if (!row) {
+      throw new AppError(404, `Fee rule not found: ${ruleId}`);
+    }
+
+    return this.fromRow(row);
+  }
+
+  /**
+   * Add a fee rule
+   *
+   * @param input - Rule definition
+   * @returns Created rule
+   * @throws AppError 400 if the pricing fields do not fit the fee type
+   */
+  static async createRule(input: FeeRuleInput): Promise<FeeRule> {
+    const row = this.toRow(input);
+    const id = newId();
+
+    await knex("fee_rules").insert({ id, ...row });
+
+    logger.info(`Created ${input.feeType} fee rule ${id} for ${input.operation} in ${input.currency}`);
+
+    return this.getRule(id);
+  }
+
+  /**
+   * Activate, deactivate, reprioritise or describe a fee rule
+   *
+   * @param ruleId - Rule ID
+   * @param changes - Fields to change
+   * @returns Updated rule
+   * @throws AppError 404 if the rule does not exist
+   */
+  static async updateRule(ruleId: string, changes: FeeRuleUpdate): Promise<FeeRule> {
+    await this.getRule(ruleId);
+
+    const values = Object.fromEntries(
+      Object.entries(changes).filter(([, value]) => value !== undefined)
+    );
+
+    await knex("fee_rules")
+      .where({ id: ruleId })
+      .update({ ...values, updated_at: knex.fn.now() });
+
+    logger.info(`Updated fee rule ${ruleId}: ${Object.keys(values).join(", ")}`);
+
+    return this.getRule(ruleId);
+  }
+}
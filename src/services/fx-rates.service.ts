@@ -0,0 +1,154 @@
+/**
+ * FX Rates Service
+ *
+ * Supplies mid-market exchange rates to FxService through a small provider
+ * interface, so the source of rates can change without touching conversion
+ * logic. Two static providers ship with the service:
+ *
+ * - `static`: rates from FX_RATES_FILE (JSON keyed "BASE/QUOTE"), or the
+ *   defaults in config/fxRates when no file is set
+ * - `db`: rates from the fx_rates table, maintained out of band
+ *
+ * FX_RATES_PROVIDER picks the provider; tests can swap in their own with
+ * FxRatesService.setProvider().
+ *
+ * @module services/fx-rates.service
+ */
+
+import { readFileSync } from "fs";
+import { config } from "../config/env";
+import { defaultFxRates, fxPairKey } from "../config/fxRates";
+import { knex } from "../db";
+import { logger } from "../utils/logger";
+
+/**
+ * Mid-market rate for a currency pair
+ */
+export interface FxRate {
+  /** Currency sold */
+  base: string;
+  /** Currency bought */
+  quote: string;
+  /** Units of `quote` per unit of `base` (decimal string) */
+  rate: string;
+  /** Name of the provider that supplied the rate */
+  source: string;
+}
+
+/**
+ * Source of mid-market rates
+ */
+export interface FxRatesProvider {
+  /** Provider name, recorded on every quote */
+  readonly name: string;
+
+  /**
+   * Look up the rate for a pair
+   *
+   * @param base - Currency sold
+   * @param quote - Currency bought
+   * @returns Rate, or null if the pair is not quoted
+   */
+  getRate(base: string, quote: string): Promise<FxRate | null>;
+}
+
+/**
+ * Rates from a JSON file or the built-in defaults
+ */
+export class StaticFxRatesProvider implements FxRatesProvider {
+  readonly name: string;
+  private readonly rates: Record<string, string>;
+
+  /**
+   * @param file - Optional path to a JSON file of "BASE/QUOTE": "rate" entries
+   */
+  constructor(file?: string) {
+    this.name = file ? "static-file" : "static";
+    this.rates = file ? StaticFxRatesProvider.load(file) : defaultFxRates;
+  }
+
+  /**
+   * Read and check a rates file
+   *
+   * @param file - Path to the JSON file
+   * @returns Rates keyed "BASE/QUOTE"
+   * @throws Error if the file is missing, not JSON, or holds a non-decimal rate
+   */
+  private static load(file: string): Record<string, string> {
+    const parsed = JSON.parse(readFileSync(file, "utf8")) as Record<string, unknown>;
+    const rates: Record<string, string> = {};
+
+    for (const [pair, rate] of Object.entries(parsed)) {
+      if (typeof rate !== "string" || !/^\d+(\.\d{1,12})?$/.test(rate)) {
+        throw new Error(`Invalid FX rate for ${pair} in ${file}: ${String(rate)}`);
+      }
+      rates[pair] = rate;
+    }
+
+    logger.info(`Loaded ${Object.keys(rates).length} FX rates from ${file}`);
+    return rates;
+  }
+
+  async getRate(base: string, quote: string): Promise<FxRate | null> {
+    const rate = this.rates[fxPairKey(base, quote)];
+    return rate ? { base, quote, rate, source: this.name } : null;
+  }
+}
+
+/**
+ * Rates from the fx_rates table
+ */
+export class DbFxRatesProvider implements FxRatesProvider {
+  readonly name = "db";
+
+  async getRate(base: string, quote: string): Promise<FxRate | null> {
+    const row: { rate: string } | undefined = await knex("fx_rates")
+      .where({ base_currency: base, quote_currency: quote })
+      .first();
+
+    return row ? { base, quote, rate: String(row.rate), source: this.name } : null;
+  }
+}
+
+/**
+ * FX rates service class
+ */
+export class FxRatesService {
+  private static provider: FxRatesProvider | null = null;
+
+  /**
+   * Get the configured provider (created on first use)
+   *
+   * @returns Rates provider
+   */
+  static getProvider(): FxRatesProvider {
+    if (!this.provider) {
+      this.provider =
+        config.fx.ratesProvider === "db"
+          ? new DbFxRatesProvider()
+          : new StaticFxRatesProvider(config.fx.ratesFile);
+    }
+
+    return this.provider;
+  }
+
+  /**
+   * Replace the provider (tests, or a live feed wired in at startup)
+   *
+   * @param provider - Provider to use, or null to fall back to configuration
+   */
+  static setProvider(provider: FxRatesProvider | null): void {
+    this.provider = provider;
+  }
+
+  /**
+   * Look up the mid-market rate for a pair
+   *
+   * @param base - Currency sold
+   * @param quote - Currency bought
+   * @returns Rate, or null if the pair is not quoted
+   */
+  static async getRate(base: string, quote: string): Promise<FxRate | null> {
+    return this.getProvider().getRate(base, quote);
+  }
+}
@@ -0,0 +1,389 @@
+/**
+ * FX Service
+ *
+ * Converts money between a user's own currency wallets in two steps:
+ *
+ * 1. createQuote() prices a conversion from the rates provider's mid rate
+ *    less the configured spread, adds the conversion fee, and stores the
+ *    quote with a short TTL (FX_QUOTE_TTL_SECONDS)
+ * 2. convert() executes an open quote atomically: the quote row, both
+ *    wallets and the fee revenue wallet are locked, the source wallet is
+ *    debited the amount plus fee, the target wallet is credited at the
+ *    quoted rate, and a journal that balances in each currency is posted
+ *    through the FX position account
+ *
+ * Each executed conversion leaves `conversion-out`, `conversion-in` and
+ * (when charged) `fee` transactions, so it shows up in transaction history.
+ * The fee is collected into the revenue wallet by FeeService.collect(), like
+ * withdrawal and transfer fees; the revenue user converts without a fee.
+ *
+ * @module services/fx.service
+ */
+
+import { Knex } from "knex";
+import { knex, newId, withTransaction } from "../db";
+import { config } from "../config/env";
+import { isSupportedCurrency } from "../config/currencies";
+import { logger } from "../utils/logger";
+import { AppError } from "../middlewares/error";
+import { Money } from "../utils/money";
+import { FeeService } from "./fee.service";
+import { FxRatesService } from "./fx-rates.service";
+import { LedgerService, JournalLeg } from "./ledger.service";
+import { LimitService } from "./limit.service";
+import { WalletService, Wallet, Transaction } from "./wallet.service";
+
+/**
+ * FX quote status values
+ */
+export type FxQuoteStatus = "open" | "executed";
+
+/**
+ * FX quote record
+ */
+export interface FxQuote {
+  id: string;
+  user_id: string;
+  from_currency: string;
+  to_currency: string;
+  source_amount_decimal: string;
+  fee_decimal: string;
+  mid_rate: string;
+  rate: string;
+  spread_bps: number;
+  spread_decimal: string;
+  target_amount_decimal: string;
+  rate_source: string;
+  status: FxQuoteStatus;
+  reference: string | null;
+  from_wallet_id: string | null;
+  to_wallet_id: string | null;
+  expires_at: Date;
+  executed_at: Date | null;
+  created_at: Date;
+}
+
+/**
+ * Result of executing a quote
+ */
+export interface ConversionResult {
+  reference: string;
+  quote: FxQuote;
+  fromWallet: Wallet;
+  toWallet: Wallet;
+  /** conversion-out, fee (if charged) and conversion-in transactions */
+  transactions: Transaction[];
+}
+
+/**
+ * Fractional digits kept on rates (matches the DECIMAL(24,12) columns)
+ */
+const RATE_SCALE = 12;
+
+/**
+ * Take the spread off a mid-market rate
+ *
+ * @param midRate - Mid-market rate (decimal string)
+ * @param spreadBps - Spread in basis points
+ * @returns Customer rate with RATE_SCALE fractional digits (rounded down)
+ */
+function applySpread(midRate: string, spreadBps: number): string {
+  const [whole = "0", fraction = ""] = midRate.split(".");
+  const units = BigInt(whole + fraction.padEnd(RATE_SCALE, "0").slice(0, RATE_SCALE));
+  const customer = ((units * BigInt(10000 - spreadBps)) / 10000n)
+    .toString()
+    .padStart(RATE_SCALE + 1, "0");
+
+  return `${customer.slice(0, -RATE_SCALE)}.${customer.slice(-RATE_SCALE)}`;
+}
+
+/**
+ * FX service class
+ */
+export class FxService {
+  /**
+   * Price a conversion and store it as an open quote
+   *
+   * @param userId - User requesting the quote
+   * @param fromCurrency - Currency to sell
+   * @param toCurrency - Currency to buy
+   * @param amount - Amount of `fromCurrency` to convert (decimal string)
+   * @returns Stored quote
+   *
+   * @throws AppError (400) if the currencies are unsupported or identical, or the amount is invalid
+   * @throws AppError (422) if no rate is available or the amount converts to nothing
+   */
+  static async createQuote(
+    userId: string,
+    fromCurrency: string,
+    toCurrency: string,
+    amount: string
+  ): Promise<FxQuote> {
+    for (const currency of [fromCurrency, toCurrency]) {
+      if (!isSupportedCurrency(currency)) {
+        throw new AppError(400, `Unsupported currency: ${currency}`);
+      }
+    }
+
+    if (fromCurrency === toCurrency) {
+      throw new AppError(400, "Cannot convert a currency to itself");
+    }
+
+    const source = Money.parse(amount, fromCurrency);
+    const midRate = await FxRatesService.getRate(fromCurrency, toCurrency);
+
+    if (!midRate) {
+      throw new AppError(422, `No FX rate available for ${fromCurrency}/${toCurrency}`);
+    }
+
+    const { spreadBps, feeBps, quoteTtlSeconds } = config.fx;
+    const rate = applySpread(midRate.rate, spreadBps);
+    const target = source.convert(rate, toCurrency);
+
+    if (!target.isPositive()) {
+      throw new AppError(422, `Amount is too small to convert to ${toCurrency}`);
+    }
+
+    const spread = source.convert(midRate.rate, toCurrency).subtract(target);
+    const fee =
+      userId === config.fees.revenueUserId ? Money.zero(fromCurrency) : source.basisPoints(feeBps);
+
+    const quoteId = newId();
+    await knex("fx_quotes").insert({
+      id: quoteId,
+      user_id: userId,
+      from_currency: fromCurrency,
+      to_currency: toCurrency,
+      source_amount_decimal: source.toStorageString(),
+      fee_decimal: fee.toStorageString(),
+      mid_rate: midRate.rate,
+      rate,
+      spread_bps: spreadBps,
+      spread_decimal: spread.toStorageString(),
+      target_amount_decimal: target.toStorageString(),
+      rate_source: midRate.source,
+      status: "open",
+      expires_at: new Date(Date.now() + quoteTtlSeconds * 1000),
+      created_at: knex.fn.now(),
+    });
+
+    const quote: FxQuote = await knex("fx_quotes").where({ id: quoteId }).first();
+
+    logger.info(
+      `FX quote ${quoteId} for user ${userId}: ${source} ${fromCurrency} -> ${target} ${toCurrency} @ ${rate} (fee ${fee})`
+    );
+
+    return quote;
+  }
+
+  /**
+   * Execute an open quote across the user's two currency wallets
+   *
+   * @param userId - Quote owner
+   * @param quoteId - Quote to execute
+   * @param metadata - Optional metadata stored on the transactions
+   * @returns Executed quote, updated wallets and the posted transactions
+   *
+   * @throws AppError (403) if either wallet's status blocks the conversion
+   * @throws AppError (404) if the quote or either wallet does not exist
+   * @throws AppError (409) if the quote was already executed or has expired
+   * @throws AppError (503) if a fee is due and there is no revenue wallet in the source currency
+   * @throws AppError (422) if the source wallet cannot cover the amount plus fee
+   * @throws LimitExceededError (422) if the target wallet would exceed its maximum balance
+   */
+  static async convert(
+    userId: string,
+    quoteId: string,
+    metadata?: any
+  ): Promise<ConversionResult> {
+    const reference = WalletService.generateReference("FX", userId);
+
+    return withTransaction(async (trx) => {
+      const quote: FxQuote | undefined = await trx("fx_quotes")
+        .where({ id: quoteId, user_id: userId })
+        .forUpdate()
+        .first();
+
+      if (!quote) {
+        throw new AppError(404, `FX quote not found: ${quoteId}`);
+      }
+      if (quote.status === "executed") {
+        throw new AppError(409, `FX quote ${quoteId} has already been executed (${quote.reference})`);
+      }
+      if (new Date(quote.expires_at).getTime() <= Date.now()) {
+        throw new AppError(409, `FX quote ${quoteId} has expired; request a new quote`);
+      }
+
+      const { locked, revenueWallet } = await FeeService.lockWithRevenueWallet(
+        trx,
+        [userId],
+        quote.from_currency,
+        () => this.lockWallets(trx, userId, quote)
+      );
+      const { fromWallet, toWallet } = locked.get(userId)!;
+      WalletService.assertCanDebit(fromWallet);
+      WalletService.assertCanCredit(toWallet);
+
+      const source = Money.fromStorage(quote.source_amount_decimal, quote.from_currency);
+      const fee = Money.fromStorage(quote.fee_decimal, quote.from_currency);
+      const target = Money.fromStorage(quote.target_amount_decimal, quote.to_currency);
+      const debit = source.add(fee);
+
+      // Held funds cannot be converted
+      const available = WalletService.availableBalance(fromWallet);
+      if (available.lessThan(debit)) {
+        throw new AppError(
+          422,
+          `Insufficient funds. Available: ${available}, Required: ${debit}`
+        );
+      }
+
+      const fromBalance = Money.fromStorage(fromWallet.balance_decimal, fromWallet.currency);
+      const afterConversion = fromBalance.subtract(source);
+      const newFromBalance = afterConversion.subtract(fee);
+      const newToBalance = Money.fromStorage(toWallet.balance_decimal, toWallet.currency).add(target);
+
+      // The target wallet stays within its tier's maximum balance
+      await LimitService.assertCanReceive(trx, toWallet, target, newToBalance);
+
+      const legMetadata = {
+        ...(metadata ?? {}),
+        quote_id: quote.id,
+        from_currency: quote.from_currency,
+        to_currency: quote.to_currency,
+        rate: quote.rate,
+        mid_rate: quote.mid_rate,
+        spread_bps: quote.spread_bps,
+      };
+
+      // Insert transaction records BEFORE updating balances
+      const outId = newId();
+      const inId = newId();
+
+      await trx("transactions").insert({
+        id: outId,
+        wallet_id: fromWallet.id,
+        type: "conversion-out",
+        amount_decimal: source.toStorageString(),
+        balance_after: afterConversion.toStorageString(),
+        reference: `${reference}-OUT`,
+        metadata: JSON.stringify({ ...legMetadata, counter_amount: target.toStorageString() }),
+        created_at: trx.fn.now(),
+      });
+
+      const feeTxn = fee.isPositive()
+        ? await FeeService.collect(
+            trx,
+            fromWallet,
+            revenueWallet,
+            { operation: "fx_conversion", rule: null, fee },
+            newFromBalance,
+            reference,
+            { quote_id: quote.id, fee_type: "fx_conversion" }
+          )
+        : null;
+
+      await trx("transactions").insert({
+        id: inId,
+        wallet_id: toWallet.id,
+        type: "conversion-in",
+        amount_decimal: target.toStorageString(),
+        balance_after: newToBalance.toStorageString(),
+        reference: `${reference}-IN`,
+        metadata: JSON.stringify({ ...legMetadata, counter_amount: source.toStorageString() }),
+        created_at: trx.fn.now(),
+      });
+
+      // Ledger: each currency balances on its own through the FX position account
+      const legs: JournalLeg[] = [
+        { account: { walletId: fromWallet.id, currency: fromWallet.currency }, direction: "debit", amount: source },
+        { account: { system: "FX_POSITION", currency: quote.from_currency }, direction: "credit", amount: source },
+        { account: { system: "FX_POSITION", currency: quote.to_currency }, direction: "debit", amount: target },
+        { account: { walletId: toWallet.id, currency: toWallet.currency }, direction: "credit", amount: target },
+      ];
+
+      await LedgerService.postJournal(trx, {
+        reference,
+        description: `FX conversion ${quote.from_currency} -> ${quote.to_currency}`,
+        legs,
+        metadata: { quote_id: quote.id, rate: quote.rate, spread: quote.spread_decimal },
+      });
+      await LedgerService.assertWalletBalance(trx, fromWallet.id, newFromBalance);
+      await LedgerService.assertWalletBalance(trx, toWallet.id, newToBalance);
+
+      await trx("wallets")
+        .where({ id: fromWallet.id })
+        .update({ balance_decimal: newFromBalance.toStorageString(), updated_at: trx.fn.now() });
+      await trx("wallets")
+        .where({ id: toWallet.id })
+        .update({ balance_decimal: newToBalance.toStorageString(), updated_at: trx.fn.now() });
+
+      await trx("fx_quotes")
+        .where({ id: quote.id })
+        .update({
+          status: "executed",
+          reference,
+          from_wallet_id: fromWallet.id,
+          to_wallet_id: toWallet.id,
+          executed_at: trx.fn.now(),
+        });
+
+      const transactionIds = [outId, ...(feeTxn ? [feeTxn.id] : []), inId];
+      const [executedQuote, updatedFrom, updatedTo, transactions] = await Promise.all([
+        trx("fx_quotes").where({ id: quote.id }).first(),
+        trx("wallets").where({ id: fromWallet.id }).first(),
+        trx("wallets").where({ id: toWallet.id }).first(),
+        trx("transactions").whereIn("id", transactionIds),
+      ]);
+
+      logger.info(
+        `FX conversion ${reference}: -${debit} ${quote.from_currency} (wallet ${fromWallet.id}), +${target} ${quote.to_currency} (wallet ${toWallet.id})`
+      );
+
+      return {
+        reference,
+        quote: executedQuote,
+        fromWallet: updatedFrom,
+        toWallet: updatedTo,
+        transactions: transactionIds
+          .map((id) => (transactions as Transaction[]).find((txn) => txn.id === id))
+          .filter((txn): txn is Transaction => Boolean(txn)),
+      };
+    });
+  }
+
+  /**
+   * Lock the user's source and target wallets for a quote
+   *
+   * Wallets are locked in currency-code order so concurrent conversions by
+   * the same user always take the locks in the same order.
+   *
+   * @param trx - Knex transaction
+   * @param userId - Wallet owner
+   * @param quote - Quote being executed
+   * @returns Locked source and target wallets
+   * @throws AppError (404) if the user has no wallet in either currency
+   */
+  private static async lockWallets(
+    trx: Knex.Transaction,
+    userId: string,
+    quote: FxQuote
+  ): Promise<{ fromWallet: Wallet; toWallet: Wallet }> {
+    const locked = new Map<string, Wallet>();
+
+    for (const currency of [quote.from_currency, quote.to_currency].sort()) {
+      const wallet = await WalletService.getWalletByUserId(userId, trx, true, { currency });
+
+      if (!wallet) {
+        throw new AppError(404, `No ${currency} wallet for user ${userId}; open one first`);
+      }
+
+      locked.set(currency, wallet);
+    }
+
+    return {
+      fromWallet: locked.get(quote.from_currency) as Wallet,
+      toWallet: locked.get(quote.to_currency) as Wallet,
+    };
+  }
+}
@@ -0,0 +1,516 @@
+/**
+ * Hold Service
+ *
+ * Reserves wallet funds without moving them (card authorizations, loan
+ * collateral). A hold reduces the wallet's available balance but not its
+ * ledger balance; money only moves when the hold is captured.
+ *
+ * Lifecycle of a hold:
+ * 1. create()  - reserves an amount of the available balance
+ * 2. capture() - debits the wallet for the full or a partial amount; any
+ *                remainder is released at the same time. A capture is a
+ *                withdrawal: it counts towards the tier's limits and is
+ *                charged the withdrawal fee
+ * 3. release() - gives the reserved amount back to the available balance
+ * 4. expire    - active holds past `expires_at` are released by expireDue()
+ *
+ * Every operation locks the wallet row, so `wallets.held_decimal` always
+ * equals the sum of the wallet's active holds.
+ *
+ * @module services/hold.service
+ */
+
+import { Knex } from "knex";
+import { knex, newId, withTransaction } from "../db";
+import { config } from "../config/env";
+import { logger } from "../utils/logger";
+import { AppError } from "../middlewares/error";
+import { Money } from "../utils/money";
+import { FeeBreakdown, FeeService } from "./fee.service";
+import { LedgerService } from "./ledger.service";
+import { LimitService } from "./limit.service";
+import { WalletService, Wallet, WalletSelector, Transaction } from "./wallet.service";
+
+/**
+ * Hold status values
+ */
+export type HoldStatus = "active" | "captured" | "released" | "expired";
+
+/**
+ * Wallet hold record
+ */
+export interface WalletHold {
+  id: string;
+  wallet_id: string;
+  amount_decimal: string;
+  captured_decimal: string | null;
+  status: HoldStatus;
+  reference: string;
+  capture_transaction_id: string | null;
+  expires_at: Date;
+  metadata: any;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Options for placing a hold
+ */
+export interface CreateHoldOptions {
+  /** Wallet to place the hold on (default: DEFAULT_CURRENCY wallet) */
+  wallet?: WalletSelector;
+  /** Seconds until the hold lapses (defaults to HOLD_DEFAULT_TTL_MINUTES) */
+  expiresInSeconds?: number;
+  metadata?: any;
+}
+
+/**
+ * Result of capturing a hold
+ */
+export interface CaptureHoldResult {
+  hold: WalletHold;
+  wallet: Wallet;
+  transaction: Transaction;
+  fee: FeeBreakdown;
+  feeTransaction: Transaction | null;
+}
+
+/**
+ * Maximum number of expired holds released per sweep
+ */
+const EXPIRY_BATCH_SIZE = 100;
+
+/**
+ * Hold service class
+ */
+export class HoldService {
+  /**
+   * Place a hold on a user's wallet
+   *
+   * @param userId - Wallet owner
+   * @param amount - Amount to reserve (decimal string or Money)
+   * @param options - Expiry and metadata
+   * @returns Created hold and the updated wallet
+   *
+   * @throws AppError (403) if the wallet is frozen, post-no-debit or closed
+   * @throws AppError (422) if the available balance is insufficient
+   */
+  static async create(
+    userId: string,
+    amount: string | Money,
+    options: CreateHoldOptions = {}
+  ): Promise<{ hold: WalletHold; wallet: Wallet }> {
+    const reference = WalletService.generateReference("HOLD", userId);
+    const ttlSeconds = options.expiresInSeconds ?? config.holds.defaultTtlMinutes * 60;
+
+    return withTransaction(async (trx) => {
+      const wallet = await WalletService.getWalletByUserId(userId, trx, true, options.wallet);
+
+      if (!wallet) {
+        throw new AppError(404, `Wallet not found for user: ${userId}`);
+      }
+      WalletService.assertCanDebit(wallet);
+
+      const money = WalletService.toMoney(amount, wallet.currency);
+      const available = WalletService.availableBalance(wallet);
+
+      if (available.lessThan(money)) {
+        throw new AppError(
+          422,
+          `Insufficient available balance. Available: ${available}, Required: ${money}`
+        );
+      }
+
+      const holdId = newId();
+      await trx("wallet_holds").insert({
+        id: holdId,
+        wallet_id: wallet.id,
+        amount_decimal: money.toStorageString(),
+        status: "active",
+        reference,
+        expires_at: new Date(Date.now() + ttlSeconds * 1000),
+        metadata: options.metadata ? JSON.stringify(options.metadata) : null,
+        created_at: trx.fn.now(),
+        updated_at: trx.fn.now(),
+      });
+
+      const held = Money.fromStorage(wallet.held_decimal, wallet.currency).add(money);
+      await trx("wallets")
+        .where({ id: wallet.id })
+        .update({
+          held_decimal: held.toStorageString(),
+          updated_at: trx.fn.now(),
+        });
+
+      const [hold, updatedWallet] = await Promise.all([
+        trx("wallet_holds").where({ id: holdId }).first(),
+        trx("wallets").where({ id: wallet.id }).first(),
+      ]);
+
+      logger.info(`Placed hold ${reference} on wallet ${wallet.id}: ${money} (held: ${held})`);
+
+      return { hold, wallet: updatedWallet };
+    });
+  }
+
+  /**
+   * Capture a hold, debiting the wallet
+   *
+   * Captures the full hold, or a smaller amount when given; the remainder is
+   * released. The debit is posted as a normal `debit` transaction with
+   * reference `<hold reference>-CAPTURE`, so it counts towards the daily and
+   * monthly limits like a withdrawal. The withdrawal fee is charged on top
+   * of the captured amount, from the available balance. A capture cannot be
+   * reversed by an admin; the hold would stay captured.
+   *
+   * @param userId - Wallet owner
+   * @param holdId - Hold to capture
+   * @param amount - Amount to capture (defaults to the full hold)
+   * @returns Captured hold, updated wallet, the debit transaction and the fee
+   *
+   * @throws AppError (403) if the wallet is frozen, post-no-debit or closed
+   * @throws AppError (404) if the hold does not exist on the user's wallet
+   * @throws AppError (409) if the hold is no longer active or has expired
+   * @throws AppError (422) if the amount exceeds the hold, or the fee the available balance
+   * @throws AppError (503) if a fee applies but there is no fee revenue wallet
+   * @throws LimitExceededError (403) if the capture exceeds the tier's limits
+   */
+  static async capture(
+    userId: string,
+    holdId: string,
+    amount?: string | Money
+  ): Promise<CaptureHoldResult> {
+    return withTransaction(async (trx) => {
+      const { hold, wallet, revenueWallet } = await this.lockHold(trx, userId, holdId, true);
+
+      // Left for expireDue() to settle; this transaction is rolled back
+      if (this.isPastExpiry(hold)) {
+        throw new AppError(409, `Hold ${hold.reference} has expired`);
+      }
+      WalletService.assertCanDebit(wallet);
+
+      const holdAmount = Money.fromStorage(hold.amount_decimal, wallet.currency);
+      const money = amount === undefined ? holdAmount : WalletService.toMoney(amount, wallet.currency);
+
+      if (money.greaterThan(holdAmount)) {
+        throw new AppError(
+          422,
+          `Capture amount ${money} exceeds hold amount ${holdAmount}`
+        );
+      }
+
+      // Enforce the tier's single, daily and monthly limits
+      await LimitService.assertCanSend(trx, wallet, money);
+
+      // Price the withdrawal fee (charged on top of the captured amount)
+      const fee = await FeeService.quote(
+        trx,
+        { operation: "withdraw", userId, currency: wallet.currency },
+        money
+      );
+
+      // The captured amount comes out of the hold; the fee must fit in the
+      // available balance
+      const available = WalletService.availableBalance(wallet);
+      if (available.add(holdAmount).lessThan(fee.total)) {
+        throw new AppError(
+          422,
+          `Insufficient funds for the capture fee. Available: ${available}, Fee: ${fee.fee}`
+        );
+      }
+
+      // Held funds are normally covered by the ledger balance, but an
+      // overridden reversal can take the balance below them
+      const balance = Money.fromStorage(wallet.balance_decimal, wallet.currency);
+      const newBalanceMoney = balance.subtract(fee.total);
+      if (newBalanceMoney.isNegative()) {
+        throw new AppError(
+          422,
+          `Capture would take wallet ${wallet.id} negative (balance: ${balance}, capture: ${fee.total})`
+        );
+      }
+      const newBalance = newBalanceMoney.toStorageString();
+      const reference = `${hold.reference}-CAPTURE`;
+      const transactionId = newId();
+
+      await trx("transactions").insert({
+        id: transactionId,
+        wallet_id: wallet.id,
+        type: "debit",
+        amount_decimal: money.toStorageString(),
+        balance_after: balance.subtract(money).toStorageString(),
+        reference,
+        metadata: JSON.stringify({ hold_id: hold.id, hold_reference: hold.reference }),
+        created_at: trx.fn.now(),
+      });
+
+      await LedgerService.postJournal(trx, {
+        reference,
+        description: "Hold capture",
+        legs: [
+          { account: { walletId: wallet.id, currency: wallet.currency }, direction: "debit", amount: money },
+          { account: { system: "PAYOUT_CLEARING", currency: wallet.currency }, direction: "credit", amount: money },
+        ],
+        metadata: { hold_id: hold.id },
+      });
+      const feeTransaction = fee.fee.isPositive()
+        ? await FeeService.collect(trx, wallet, revenueWallet, fee, newBalanceMoney, reference, {
+            hold_id: hold.id,
+          })
+        : null;
+      await LedgerService.assertWalletBalance(trx, wallet.id, newBalanceMoney);
+
+      const held = Money.fromStorage(wallet.held_decimal, wallet.currency).subtract(holdAmount);
+      await trx("wallets")
+        .where({ id: wallet.id })
+        .update({
+          balance_decimal: newBalance,
+          held_decimal: held.toStorageString(),
+          updated_at: trx.fn.now(),
+        });
+
+      await trx("wallet_holds")
+        .where({ id: hold.id })
+        .update({
+          status: "captured",
+          captured_decimal: money.toStorageString(),
+          capture_transaction_id: transactionId,
+          updated_at: trx.fn.now(),
+        });
+
+      const [updatedHold, updatedWallet, transaction] = await Promise.all([
+        trx("wallet_holds").where({ id: hold.id }).first(),
+        trx("wallets").where({ id: wallet.id }).first(),
+        trx("transactions").where({ id: transactionId }).first(),
+      ]);
+
+      logger.info(
+        `Captured hold ${hold.reference} on wallet ${wallet.id}: ${money} of ${holdAmount} (fee: ${fee.fee}, new balance: ${newBalance})`
+      );
+
+      return { hold: updatedHold, wallet: updatedWallet, transaction, fee, feeTransaction };
+    });
+  }
+
+  /**
+   * Release a hold, returning its amount to the available balance
+   *
+   * A hold that is already past its expiry is marked `expired` instead.
+   *
+   * @param userId - Wallet owner
+   * @param holdId - Hold to release
+   * @returns Released hold and the updated wallet
+   *
+   * @throws AppError (404) if the hold does not exist on the user's wallet
+   * @throws AppError (409) if the hold is no longer active
+   */
+  static async release(
+    userId: string,
+    holdId: string
+  ): Promise<{ hold: WalletHold; wallet: Wallet }> {
+    return withTransaction(async (trx) => {
+      const { hold, wallet } = await this.lockHold(trx, userId, holdId);
+
+      await this.settle(trx, hold, wallet, this.isPastExpiry(hold) ? "expired" : "released");
+
+      const [updatedHold, updatedWallet] = await Promise.all([
+        trx("wallet_holds").where({ id: hold.id }).first(),
+        trx("wallets").where({ id: wallet.id }).first(),
+      ]);
+
+      logger.info(`Released hold ${hold.reference} on wallet ${wallet.id}`);
+
+      return { hold: updatedHold, wallet: updatedWallet };
+    });
+  }
+
+  /**
+   * Expire active holds whose expiry has passed
+   *
+   * Each hold is settled in its own transaction so one busy wallet does not
+   * block the sweep. The hold's wallet is locked before the hold, like every
+   * other hold operation. Called periodically by the server.
+   *
+   * @param now - Reference time (defaults to the current time)
+   * @returns Number of holds expired
+   */
+  static async expireDue(now: Date = new Date()): Promise<number> {
+    const due: Array<{ id: string }> = await knex("wallet_holds")
+      .select("id")
+      .where({ status: "active" })
+      .where("expires_at", "<=", now)
+      .orderBy("expires_at", "asc")
+      .limit(EXPIRY_BATCH_SIZE);
+
+    let expired = 0;
+    for (const { id } of due) {
+      const settled = await withTransaction(async (trx) => {
+        const located: { wallet_id: string } | undefined = await trx("wallet_holds")
+          .select("wallet_id")
+          .where({ id })
+          .first();
+
+        if (!located) {
+          return false;
+        }
+
+        const wallet = await WalletService.lockWalletById(trx, located.wallet_id);
+        const hold: WalletHold = await trx("wallet_holds")
+          .where({ id })
+          .forUpdate()
+          .first();
+
+        // Captured or released since it was selected
+        if (hold.status !== "active") {
+          return false;
+        }
+
+        await this.settle(trx, hold, wallet, "expired");
+        return true;
+      });
+
+      if (settled) {
+        expired += 1;
+      }
+    }
+
+    if (expired > 0) {
+      logger.info(`Expired ${expired} wallet holds`);
+    }
+
+    return expired;
+  }
+
+  /**
+   * Get a hold on a user's wallet
+   *
+   * @param userId - Wallet owner
+   * @param holdId - Hold ID
+   * @returns Hold
+   *
+   * @throws AppError (404) if the hold does not exist on the user's wallet
+   */
+  static async getHold(userId: string, holdId: string): Promise<WalletHold> {
+    const hold = await knex("wallet_holds as h")
+      .join("wallets as w", "w.id", "h.wallet_id")
+      .where({ "h.id": holdId, "w.user_id": userId })
+      .select("h.*")
+      .first();
+
+    if (!hold) {
+      throw new AppError(404, `Hold not found: ${holdId}`);
+    }
+
+    return hold;
+  }
+
+  /**
+   * List holds on a user's wallet, newest first
+   *
+   * @param userId - Wallet owner
+   * @param status - Optional status filter
+   * @returns Holds
+   */
+  static async listHolds(userId: string, status?: HoldStatus): Promise<WalletHold[]> {
+    const query = knex("wallet_holds as h")
+      .join("wallets as w", "w.id", "h.wallet_id")
+      .where({ "w.user_id": userId })
+      .select("h.*")
+      .orderBy("h.created_at", "desc");
+
+    if (status) {
+      query.where("h.status", status);
+    }
+
+    return query;
+  }
+
+  /**
+   * Lock an active hold and its wallet
+   *
+   * The hold's wallet is found first and locked before the hold, matching
+   * the lock order of every other money path. A capture also locks the fee
+   * revenue wallet, in user_id order with the hold's wallet.
+   *
+   * @param trx - Knex transaction
+   * @param userId - Wallet owner
+   * @param holdId - Hold ID
+   * @param withRevenueWallet - Whether to lock the fee revenue wallet too
+   * @returns Locked hold, wallet and revenue wallet (null if not locked)
+   */
+  private static async lockHold(
+    trx: Knex.Transaction,
+    userId: string,
+    holdId: string,
+    withRevenueWallet = false
+  ): Promise<{ hold: WalletHold; wallet: Wallet; revenueWallet: Wallet | null }> {
+    const located: { wallet_id: string; currency: string } | undefined = await trx("wallet_holds as h")
+      .join("wallets as w", "w.id", "h.wallet_id")
+      .where({ "h.id": holdId, "w.user_id": userId })
+      .select("h.wallet_id", "w.currency")
+      .first();
+
+    if (!located) {
+      throw new AppError(404, `Hold not found: ${holdId}`);
+    }
+
+    const lockWallet = () => WalletService.lockWalletById(trx, located.wallet_id);
+    const { locked, revenueWallet } = withRevenueWallet
+      ? await FeeService.lockWithRevenueWallet(trx, [userId], located.currency, lockWallet)
+      : { locked: new Map([[userId, await lockWallet()]]), revenueWallet: null };
+    const wallet = locked.get(userId)!;
+    const hold: WalletHold = await trx("wallet_holds")
+      .where({ id: holdId })
+      .forUpdate()
+      .first();
+
+    if (hold.status !== "active") {
+      throw new AppError(409, `Hold ${hold.reference} is already ${hold.status}`);
+    }
+
+    return { hold, wallet, revenueWallet };
+  }
+
+  /**
+   * Close an active hold without moving money
+   *
+   * @param trx - Knex transaction
+   * @param hold - Locked active hold
+   * @param wallet - Locked wallet
+   * @param status - Final status
+   */
+  private static async settle(
+    trx: Knex.Transaction,
+    hold: WalletHold,
+    wallet: Wallet,
+    status: "released" | "expired"
+  ): Promise<void> {
+    const held = Money.fromStorage(wallet.held_decimal, wallet.currency).subtract(
+      Money.fromStorage(hold.amount_decimal, wallet.currency)
+    );
+
+    await trx("wallets")
+      .where({ id: wallet.id })
+      .update({
+        held_decimal: held.toStorageString(),
+        updated_at: trx.fn.now(),
+      });
+
+    await trx("wallet_holds")
+      .where({ id: hold.id })
+      .update({
+        status,
+        updated_at: trx.fn.now(),
+      });
+  }
+
+  /**
+   * Whether a hold's expiry has passed
+   *
+   * @param hold - Hold
+   * @returns True if the hold should no longer be usable
+   */
+  private static isPastExpiry(hold: WalletHold): boolean {
+    return new Date(hold.expires_at).getTime() <= Date.now();
+  }
+}
@@ -0,0 +1,244 @@
+/**
+ * Idempotency Service
+ *
+ * Stores client-supplied Idempotency-Key values with a fingerprint of the
+ * request and the first response, so that a retried request (e.g. after a
+ * mobile timeout) returns the original result instead of moving money twice.
+ *
+ * Lifecycle of a key:
+ * 1. begin()    - claims the key (unique per user) before the handler runs
+ * 2. complete() - stores the response once the handler succeeds
+ * 3. release()  - forgets the key if the handler failed, so it can be retried
+ *
+ * @module services/idempotency.service
+ */
+
+import { createHash } from "crypto";
+import { knex, newId } from "../db";
+import { config } from "../config/env";
+import { logger } from "../utils/logger";
+import { AppError } from "../middlewares/error";
+
+/**
+ * Idempotency key record
+ */
+interface IdempotencyRecord {
+  id: string;
+  user_id: string;
+  idempotency_key: string;
+  request_fingerprint: string;
+  response_status: number | null;
+  response_body: any;
+  created_at: Date;
+  expires_at: Date;
+}
+
+/**
+ * Result of claiming an idempotency key
+ */
+export type IdempotencyBeginResult =
+  | { status: "new"; recordId: string }
+  | { status: "replay"; responseStatus: number; responseBody: unknown };
+
+/**
+ * Idempotency service class
+ */
+export class IdempotencyService {
+  /**
+   * Build a deterministic fingerprint for a request
+   *
+   * Object keys are sorted so that semantically identical JSON bodies
+   * produce the same fingerprint regardless of key order.
+   *
+   * @param method - HTTP method
+   * @param path - Request path (without query string)
+   * @param body - Parsed request body
+   * @returns SHA-256 hex digest
+   */
+  static fingerprint(method: string, path: string, body: unknown): string {
+    const canonical = JSON.stringify(this.canonicalize(body ?? null));
+    return createHash("sha256")
+      .update(`${method.toUpperCase()} ${path}\n${canonical}`)
+      .digest("hex");
+  }
+
+  /**
+   * Recursively sort object keys for stable serialization
+   *
+   * @param value - Any JSON-compatible value
+   * @returns Value with sorted object keys
+   */
+  private static canonicalize(value: unknown): unknown {
+    if (Array.isArray(value)) {
+      return value.map((item) => this.canonicalize(item));
+    }
+    if (value && typeof value === "object") {
+      return Object.keys(value as Record<string, unknown>)
+        .sort()
+        .reduce<Record<string, unknown>>((acc, key) => {
+          acc[key] = this.canonicalize((value as Record<string, unknown>)[key]);
+          return acc;
+        }, {});
+    }
+    return value;
+  }
+
+  /**
+   * Find an existing key for a user
+   *
+   * @param userId - User ID
+   * @param key - Idempotency key
+   * @returns Record or null
+   */
+  private static async findKey(
+    userId: string,
+    key: string
+  ): Promise<IdempotencyRecord | null> {
+    const record = await knex("idempotency_keys")
+      .where({ user_id: userId, idempotency_key: key })
+      .first();
+
+    return record || null;
+  }
+
+  /**
+   * Decide what to do with a key that already exists
+   *
+   * @param record - Existing record
+   * @param fingerprint - Fingerprint of the incoming request
+   * @returns Replay result
+   * @throws AppError 422 if the key was used with a different request
+   * @throws AppError 409 if the original request is still in progress
+   */
+  private static resolveExisting(
+    record: IdempotencyRecord,
+    fingerprint: string
+  ): IdempotencyBeginResult {
+    if (record.request_fingerprint !== fingerprint) {
+      throw new AppError(
+        422,
+        "Idempotency-Key has already been used with a different request payload"
+      );
+    }
+
+    if (record.response_status === null) {
+      throw new AppError(
+        409,
+        "A request with this Idempotency-Key is still being processed"
+      );
+    }
+
+    const responseBody =
+      typeof record.response_body === "string"
+        ? JSON.parse(record.response_body)
+        : record.response_body;
+
+    return {
+      status: "replay",
+      responseStatus: record.response_status,
+      responseBody,
+    };
+  }
+
+  /**
+   * Claim an idempotency key before executing a request
+   *
+   * @param userId - Authenticated user ID (keys are scoped per user)
+   * @param key - Client-supplied Idempotency-Key
+   * @param fingerprint - Request fingerprint
+   * @returns "new" if the request should run, or the stored response to replay
+   * @throws AppError 422 on payload mismatch, 409 if still in progress
+   */
+  static async begin(
+    userId: string,
+    key: string,
+    fingerprint: string
+  ): Promise<IdempotencyBeginResult> {
+    const existing = await this.findKey(userId, key);
+
+    if (existing) {
+      if (new Date(existing.expires_at).getTime() > Date.now()) {
+        return this.resolveExisting(existing, fingerprint);
+      }
+
+      // Expired keys can be reused
+      await knex("idempotency_keys").where({ id: existing.id }).delete();
+      logger.debug(`Expired idempotency key reused by user ${userId}`);
+    }
+
+    const recordId = newId();
+    const expiresAt = new Date(
+      Date.now() + config.idempotency.keyTtlHours * 60 * 60 * 1000
+    );
+
+    try {
+      await knex("idempotency_keys").insert({
+        id: recordId,
+        user_id: userId,
+        idempotency_key: key,
+        request_fingerprint: fingerprint,
+        response_status: null,
+        response_body: null,
+        created_at: knex.fn.now(),
+        expires_at: expiresAt,
+      });
+    } catch (error) {
+      // A concurrent request claimed the same key first
+      if ((error as { code?: string }).code === "ER_DUP_ENTRY") {
+        const winner = await this.findKey(userId, key);
+        if (winner) {
+          return this.resolveExisting(winner, fingerprint);
+        }
+      }
+      throw error;
+    }
+
+    return { status: "new", recordId };
+  }
+
+  /**
+   * Store the first response for a claimed key
+   *
+   * @param recordId - Record ID returned by begin()
+   * @param responseStatus - HTTP status code
+   * @param responseBody - Response body
+   */
+  static async complete(
+    recordId: string,
+    responseStatus: number,
+    responseBody: unknown
+  ): Promise<void> {
+    await knex("idempotency_keys")
+      .where({ id: recordId })
+      .update({
+        response_status: responseStatus,
+        response_body: JSON.stringify(responseBody ?? null),
+      });
+  }
+
+  /**
+   * Forget a claimed key so the client can retry with it
+   *
+   * @param recordId - Record ID returned by begin()
+   */
+  static async release(recordId: string): Promise<void> {
+    await knex("idempotency_keys").where({ id: recordId }).delete();
+  }
+
+  /**
+   * Delete all expired keys
+   *
+   * @returns Number of deleted records
+   */
+  static async purgeExpired(): Promise<number> {
+    const deleted = await knex("idempotency_keys")
+      .where("expires_at", "<=", knex.fn.now())
+      .delete();
+
+    if (deleted > 0) {
+      logger.info(`Purged ${deleted} expired idempotency keys`);
+    }
+
+    return deleted;
+  }
+}
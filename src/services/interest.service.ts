@@ -0,0 +1,502 @@
+/**
+ * Interest Service
+ *
+ * Daily interest accrual on eligible wallets with monthly capitalization.
+ *
+ * How interest is earned:
+ * 1. accrueDue()      - for every finished UTC day, records the wallet's
+ *                       closing balance (from its ledger entries) and one
+ *                       day's interest on it in `interest_accruals`
+ * 2. capitalizeDue()  - once a month has ended, pays the month's accruals
+ *                       into the wallet as a `credit` transaction with the
+ *                       reference `INTEREST-<wallet id>-<YYYY-MM>`
+ *
+ * Rounding: a day's interest is balance * rate / 10000 / 365, truncated
+ * at the sixth decimal. The month's accruals are summed exactly and only
+ * the total is truncated to the currency's precision when paid; the
+ * remainder is carried into the next month, so no fraction is ever lost
+ * or paid twice.
+ *
+ * Both steps are safe to rerun: a wallet-day is accrued at most once
+ * (unique wallet/day) and a wallet-month is paid at most once (unique
+ * wallet/period and transaction reference). Days the job missed are
+ * caught up from the wallet's last accrual, using the balance as it stood
+ * at the end of each of those days.
+ *
+ * @module services/interest.service
+ */
+
+import { knex, newId, withTransaction } from "../db";
+import { config } from "../config/env";
+import { logger } from "../utils/logger";
+import { Money } from "../utils/money";
+import { LedgerService } from "./ledger.service";
+import { WalletService, Wallet } from "./wallet.service";
+
+/**
+ * One day's interest on a wallet
+ */
+export interface InterestAccrual {
+  id: string;
+  wallet_id: string;
+  /** Day accrued (YYYY-MM-DD, UTC) */
+  accrual_date: string;
+  balance_decimal: string;
+  rate_bps: number;
+  amount_decimal: string;
+  capitalization_id: string | null;
+  created_at: Date;
+}
+
+/**
+ * One month's interest paid into a wallet
+ */
+export interface InterestCapitalization {
+  id: string;
+  wallet_id: string;
+  /** Month capitalized (YYYY-MM) */
+  period: string;
+  accrued_decimal: string;
+  carried_in_decimal: string;
+  paid_decimal: string;
+  carried_out_decimal: string;
+  credited_wallet_id: string;
+  transaction_id: string | null;
+  created_at: Date;
+}
+
+/**
+ * Wallet considered for accrual
+ */
+interface AccrualCandidate {
+  id: string;
+  currency: string;
+  created_at: Date;
+  /** When the wallet's savings pot was closed (pot wallets only) */
+  closed_at: Date | null;
+}
+
+/**
+ * Wallets accrued per page of the sweep
+ */
+const ACCRUAL_BATCH_SIZE = 200;
+
+/**
+ * Wallets capitalized per page of the sweep
+ */
+const CAPITALIZATION_BATCH_SIZE = 100;
+
+/**
+ * Day-count denominator (actual/365)
+ */
+const DAYS_IN_YEAR = 365;
+
+/**
+ * One day in milliseconds
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Midnight (UTC) at the start of a timestamp's day
+ */
+function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/**
+ * Day key (YYYY-MM-DD) of a UTC midnight
+ */
+function toDateKey(day: Date): string {
+  return day.toISOString().slice(0, 10);
+}
+
+/**
+ * Last day (YYYY-MM-DD) of a month (YYYY-MM)
+ */
+function lastDayOf(period: string): string {
+  const [year, month] = period.split("-").map(Number) as [number, number];
+  return toDateKey(new Date(Date.UTC(year, month, 0)));
+}
+
+/**
+ * Interest service class
+ */
+export class InterestService {
+  /**
+   * Accrue every finished day not yet accrued on each eligible wallet
+   *
+   * Eligible wallets are savings pots (INTEREST_ELIGIBLE_WALLETS=pots) or
+   * every user wallet except the fee revenue and escrow wallets (all). A
+   * wallet starts accruing on the day it was opened, or the first day the
+   * job ever accrued if that is later. A closed pot is accrued up to its
+   * closing day. Each wallet is handled on its own, so one failure does not
+   * hold up the rest. Does nothing while INTEREST_RATE_BPS is 0.
+   *
+   * @param now - Reference time (defaults to the current time)
+   * @returns Number of wallet-days accrued
+   */
+  static async accrueDue(now: Date = new Date()): Promise<number> {
+    const rateBps = config.interest.annualRateBps;
+
+    if (rateBps === 0) {
+      return 0;
+    }
+
+    const today = startOfUtcDay(now);
+    const first: { first_date: string | null } | undefined = await knex("interest_accruals")
+      .select(knex.raw("DATE_FORMAT(MIN(accrual_date), '%Y-%m-%d') as first_date"))
+      .first();
+    const firstDay = first?.first_date
+      ? new Date(`${first.first_date}T00:00:00Z`)
+      : new Date(today.getTime() - DAY_MS);
+
+    let accrued = 0;
+    let afterId = "";
+
+    for (;;) {
+      const wallets = await this.accrualCandidates(firstDay, afterId);
+
+      if (wallets.length === 0) {
+        break;
+      }
+
+      const lastDates: Array<{ wallet_id: string; last_date: string }> = await knex("interest_accruals")
+        .select("wallet_id", knex.raw("DATE_FORMAT(MAX(accrual_date), '%Y-%m-%d') as last_date"))
+        .whereIn(
+          "wallet_id",
+          wallets.map((wallet) => wallet.id)
+        )
+        .groupBy("wallet_id");
+      const lastDateOf = new Map(lastDates.map((row) => [row.wallet_id, row.last_date]));
+
+      for (const wallet of wallets) {
+        try {
+          const lastDate = lastDateOf.get(wallet.id);
+          const opened = startOfUtcDay(new Date(wallet.created_at));
+          const start = lastDate
+            ? new Date(new Date(`${lastDate}T00:00:00Z`).getTime() + DAY_MS)
+            : new Date(Math.max(opened.getTime(), firstDay.getTime()));
+          const end = wallet.closed_at
+            ? new Date(Math.min(today.getTime(), startOfUtcDay(new Date(wallet.closed_at)).getTime() + DAY_MS))
+            : today;
+
+          for (let day = start; day < end; day = new Date(day.getTime() + DAY_MS)) {
+            await this.accrueDay(wallet, day, rateBps);
+            accrued++;
+          }
+        } catch (error) {
+          logger.error(`Failed to accrue interest for wallet ${wallet.id}:`, error);
+        }
+      }
+
+      if (wallets.length < ACCRUAL_BATCH_SIZE) {
+        break;
+      }
+      afterId = wallets[wallets.length - 1]!.id;
+    }
+
+    if (accrued > 0) {
+      logger.info(`Accrued interest for ${accrued} wallet-days`);
+    }
+
+    return accrued;
+  }
+
+  /**
+   * Pay the accruals of every finished month into the wallets
+   *
+   * Months are paid oldest first and only once the wallet has been accrued
+   * to the end of the month (or to its closing day, for a closed pot). A
+   * closed pot's interest is paid into its main wallet; a frozen or closed
+   * wallet is paid once it can take credits again. Each wallet is
+   * capitalized in its own transaction, so one failure does not hold up
+   * the rest. Runs even while INTEREST_RATE_BPS is 0, so interest already
+   * accrued is still paid.
+   *
+   * @param now - Reference time (defaults to the current time)
+   * @returns Number of wallet-months capitalized
+   */
+  static async capitalizeDue(now: Date = new Date()): Promise<number> {
+    const monthStart = toDateKey(new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)));
+
+    let capitalized = 0;
+    let afterId = "";
+
+    for (;;) {
+      const due: Array<{ wallet_id: string }> = await knex("interest_accruals")
+        .distinct("wallet_id")
+        .where({ capitalization_id: null })
+        .where("accrual_date", "<", monthStart)
+        .where("wallet_id", ">", afterId)
+        .orderBy("wallet_id", "asc")
+        .limit(CAPITALIZATION_BATCH_SIZE);
+
+      for (const { wallet_id: walletId } of due) {
+        try {
+          capitalized += await this.capitalizeWallet(walletId, monthStart);
+        } catch (error) {
+          logger.error(`Failed to capitalize interest for wallet ${walletId}:`, error);
+        }
+      }
+
+      if (due.length < CAPITALIZATION_BATCH_SIZE) {
+        break;
+      }
+      afterId = due[due.length - 1]!.wallet_id;
+    }
+
+    if (capitalized > 0) {
+      logger.info(`Capitalized interest for ${capitalized} wallet-months`);
+    }
+
+    return capitalized;
+  }
+
+  /**
+   * Accrue finished days, then capitalize finished months
+   *
+   * Called periodically by the server.
+   *
+   * @param now - Reference time (defaults to the current time)
+   * @returns Wallet-days accrued and wallet-months capitalized
+   */
+  static async run(now: Date = new Date()): Promise<{ accrued: number; capitalized: number }> {
+    const accrued = await this.accrueDue(now);
+    const capitalized = await this.capitalizeDue(now);
+
+    return { accrued, capitalized };
+  }
+
+  /**
+   * One page of wallets that earn interest
+   *
+   * @param firstDay - First day the job ever accrued (closed pots before it are skipped)
+   * @param afterId - Last wallet ID of the previous page
+   * @returns Wallets ordered by ID
+   */
+  private static async accrualCandidates(firstDay: Date, afterId: string): Promise<AccrualCandidate[]> {
+    const query = knex("wallets as w")
+      .leftJoin("savings_pots as p", "p.wallet_id", "w.id")
+      .select("w.id", "w.currency", "w.created_at", "p.closed_at")
+      .where("w.id", ">", afterId)
+      .where((scope) =>
+        scope
+          .whereNull("p.id")
+          .orWhere("p.status", "active")
+          // Closed pots until they are accrued up to their closing day
+          .orWhere((closed) =>
+            closed
+              .where("p.closed_at", ">=", firstDay)
+              .whereNotExists(
+                knex("interest_accruals as a")
+                  .select(knex.raw("1"))
+                  .whereRaw("a.wallet_id = w.id")
+                  .whereRaw("a.accrual_date >= DATE(p.closed_at)")
+              )
+          )
+      )
+      .orderBy("w.id", "asc")
+      .limit(ACCRUAL_BATCH_SIZE);
+
+    if (config.interest.eligibleWallets === "pots") {
+      query.whereNotNull("w.parent_wallet_id");
+    } else {
+      const excluded = [config.fees.revenueUserId, config.escrow.userId].filter(
+        (userId): userId is string => Boolean(userId)
+      );
+      if (excluded.length > 0) {
+        query.whereNotIn("w.user_id", excluded);
+      }
+    }
+
+    return query;
+  }
+
+  /**
+   * Record one day's interest on a wallet (ignored if already recorded)
+   *
+   * @param wallet - Wallet accruing
+   * @param day - UTC midnight at the start of the day
+   * @param rateBps - Annual rate in basis points
+   */
+  private static async accrueDay(wallet: AccrualCandidate, day: Date, rateBps: number): Promise<void> {
+    const balance = await LedgerService.walletBalanceAt(
+      wallet.id,
+      wallet.currency,
+      new Date(day.getTime() + DAY_MS)
+    );
+    const amount = balance.isPositive()
+      ? balance.dailyInterest(rateBps, DAYS_IN_YEAR)
+      : Money.zero(wallet.currency);
+
+    await knex("interest_accruals")
+      .insert({
+        id: newId(),
+        wallet_id: wallet.id,
+        accrual_date: toDateKey(day),
+        balance_decimal: balance.toStorageString(),
+        rate_bps: rateBps,
+        amount_decimal: amount.toStorageString(),
+        capitalization_id: null,
+        created_at: knex.fn.now(),
+      })
+      .onConflict(["wallet_id", "accrual_date"])
+      .ignore();
+  }
+
+  /**
+   * Capitalize a wallet's finished months
+   *
+   * Locks the wallet's pot (if any) before the credited wallet, in the same
+   * order as savings pot moves.
+   *
+   * @param walletId - Wallet that accrued the interest
+   * @param monthStart - First day (YYYY-MM-DD) of the current month
+   * @returns Number of months capitalized
+   */
+  private static async capitalizeWallet(walletId: string, monthStart: string): Promise<number> {
+    return withTransaction(async (trx) => {
+      const pot: { parent_wallet_id: string; status: string; closed_at: Date | null } | undefined =
+        await trx("savings_pots").where({ wallet_id: walletId }).forUpdate().first();
+      const closedDay = pot?.status === "closed" && pot.closed_at
+        ? toDateKey(startOfUtcDay(new Date(pot.closed_at)))
+        : null;
+
+      // A closed pot's interest goes to the main wallet it belonged to
+      const wallet: Wallet = await WalletService.lockWalletById(
+        trx,
+        closedDay ? pot!.parent_wallet_id : walletId
+      );
+
+      // Paid once the wallet can take credits again
+      if (wallet.status === "frozen" || wallet.status === "closed") {
+        return 0;
+      }
+
+      const rows: Array<{ id: string; amount_decimal: string; period: string }> = await trx(
+        "interest_accruals"
+      )
+        .select("id", "amount_decimal", knex.raw("DATE_FORMAT(accrual_date, '%Y-%m') as period"))
+        .where({ wallet_id: walletId, capitalization_id: null })
+        .where("accrual_date", "<", monthStart)
+        .orderBy("accrual_date", "asc")
+        .forUpdate();
+
+      const covered: { last_date: string | null } | undefined = await trx("interest_accruals")
+        .select(knex.raw("DATE_FORMAT(MAX(accrual_date), '%Y-%m-%d') as last_date"))
+        .where({ wallet_id: walletId })
+        .first();
+      const lastDate = covered?.last_date ?? "";
+
+      const previous: InterestCapitalization | undefined = await trx("interest_capitalizations")
+        .where({ wallet_id: walletId })
+        .orderBy("period", "desc")
+        .first();
+
+      const periods = new Map<string, Array<{ id: string; amount_decimal: string }>>();
+      for (const row of rows) {
+        const periodRows = periods.get(row.period) ?? [];
+        periodRows.push(row);
+        periods.set(row.period, periodRows);
+      }
+
+      let carry = previous
+        ? Money.fromStorage(previous.carried_out_decimal, wallet.currency)
+        : Money.zero(wallet.currency);
+      let balance = Money.fromStorage(wallet.balance_decimal, wallet.currency);
+      let capitalized = 0;
+
+      for (const [period, periodRows] of periods) {
+        // Wait until every day of the month (up to a pot's closing day) is accrued
+        const accruedThrough =
+          closedDay && closedDay < lastDayOf(period) ? closedDay : lastDayOf(period);
+        if (lastDate < accruedThrough) {
+          break;
+        }
+
+        const accrued = periodRows.reduce(
+          (sum, row) => sum.add(Money.fromStorage(row.amount_decimal, wallet.currency)),
+          Money.zero(wallet.currency)
+        );
+        const total = accrued.add(carry);
+        const paid = total.toCurrencyPrecision();
+        const carriedOut = total.subtract(paid);
+
+        let transactionId: string | null = null;
+
+        if (paid.isPositive()) {
+          const reference = `INTEREST-${walletId}-${period}`;
+          balance = balance.add(paid);
+          transactionId = newId();
+
+          await trx("transactions").insert({
+            id: transactionId,
+            wallet_id: wallet.id,
+            type: "credit",
+            amount_decimal: paid.toStorageString(),
+            balance_after: balance.toStorageString(),
+            reference,
+            metadata: JSON.stringify({
+              interest: {
+                wallet_id: walletId,
+                period,
+                days: periodRows.length,
+                accrued: accrued.toStorageString(),
+                carried_in: carry.toStorageString(),
+                carried_out: carriedOut.toStorageString(),
+              },
+            }),
+            created_at: trx.fn.now(),
+          });
+
+          // Ledger: the platform's interest expense pays into the wallet
+          await LedgerService.postJournal(trx, {
+            reference,
+            description: "Interest capitalization",
+            legs: [
+              { account: { system: "INTEREST_EXPENSE", currency: wallet.currency }, direction: "debit", amount: paid },
+              { account: { walletId: wallet.id, currency: wallet.currency }, direction: "credit", amount: paid },
+            ],
+          });
+          await LedgerService.assertWalletBalance(trx, wallet.id, balance);
+
+          await trx("wallets")
+            .where({ id: wallet.id })
+            .update({
+              balance_decimal: balance.toStorageString(),
+              updated_at: trx.fn.now(),
+            });
+        }
+
+        const capitalizationId = newId();
+        await trx("interest_capitalizations").insert({
+          id: capitalizationId,
+          wallet_id: walletId,
+          period,
+          accrued_decimal: accrued.toStorageString(),
+          carried_in_decimal: carry.toStorageString(),
+          paid_decimal: paid.toStorageString(),
+          carried_out_decimal: carriedOut.toStorageString(),
+          credited_wallet_id: wallet.id,
+          transaction_id: transactionId,
+          created_at: trx.fn.now(),
+        });
+        await trx("interest_accruals")
+          .whereIn(
+            "id",
+            periodRows.map((row) => row.id)
+          )
+          .update({ capitalization_id: capitalizationId });
+
+        logger.info(
+          `Capitalized interest for wallet ${walletId} (${period}): +${paid} into ${wallet.id}, carried ${carriedOut}`
+        );
+
+        carry = carriedOut;
+        capitalized++;
+      }
+
+      return capitalized;
+    });
+  }
+}
@@ -0,0 +1,371 @@
+/**
+ * Karma Report Service
+ *
+ * Reports defaulting borrowers to the Adjutor Karma blacklist and removes
+ * them again once their debt is cleared.
+ *
+ * Reporting (by an admin): a disbursed loan with an installment still
+ * unpaid LOAN_PENALTY_GRACE_DAYS after its due date can be reported. The
+ * borrower's email and phone number (the identities the loan checks look
+ * up) are each added to Karma with:
+ * - amount_in_contention: everything still owed on the loan
+ * - default_date:         due date of the oldest unpaid installment
+ * - reason:               how much of it is overdue
+ *
+ * Removal: once the loan is repaid, every identity Karma accepted is
+ * removed, by an admin or by the collection worker (removeCleared).
+ *
+ * Every submission and Adjutor's response is logged to `adjutor_reports`,
+ * next to the `adjutor_checks` lookups; the loan application records when
+ * the borrower was reported and when the record was removed. Adjutor's
+ * mock/live mode applies as for lookups.
+ *
+ * @module services/karma-report.service
+ */
+
+import { Knex } from "knex";
+import { knex } from "../db";
+import { config } from "../config/env";
+import { logger } from "../utils/logger";
+import { AppError } from "../middlewares/error";
+import { Money } from "../utils/money";
+import {
+  AdjutorService,
+  IdentityType,
+  KarmaReportAction,
+  KarmaReportPayload,
+  KarmaSubmissionResult,
+} from "./adjutor.service";
+import { LoanService, LoanApplication } from "./loan.service";
+import { LoanRepaymentService, LoanSchedule } from "./loan-repayment.service";
+import { UserService, User } from "./user.service";
+
+/**
+ * Logged Karma submission
+ */
+export interface KarmaReport {
+  id: string;
+  user_id: string;
+  application_id: string;
+  action: KarmaReportAction;
+  identity_type: IdentityType;
+  identity: string;
+  amount_in_contention_decimal: string | null;
+  reason: string | null;
+  /** YYYY-MM-DD */
+  default_date: string | null;
+  request_payload: Record<string, unknown>;
+  raw_response: Record<string, unknown>;
+  succeeded: boolean;
+  submitted_by: string | null;
+  submitted_at: Date;
+}
+
+/**
+ * A loan's Karma state after a submission, with the submissions made
+ */
+export interface KarmaReportOutcome {
+  application: LoanApplication;
+  reports: KarmaReport[];
+}
+
+/**
+ * Repaid loans cleared per run of the worker
+ */
+const REMOVAL_BATCH_SIZE = 100;
+
+/**
+ * One day in milliseconds
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Karma type of a report
+ */
+const KARMA_TYPE = "Loan Default";
+
+/**
+ * Columns of a submission, with its default date as a YYYY-MM-DD string
+ */
+function reportColumns(db: Knex) {
+  return [
+    "id",
+    "user_id",
+    "application_id",
+    "action",
+    "identity_type",
+    "identity",
+    "amount_in_contention_decimal",
+    "reason",
+    db.raw("DATE_FORMAT(default_date, '%Y-%m-%d') as default_date"),
+    "request_payload",
+    "raw_response",
+    "succeeded",
+    "submitted_by",
+    "submitted_at",
+  ];
+}
+
+/**
+ * Karma report service class
+ */
+export class KarmaReportService {
+  /**
+   * Normalize a DB row into a KarmaReport
+   *
+   * @param row - Raw adjutor_reports row
+   * @returns Karma report
+   */
+  private static reportFromRow(row: any): KarmaReport {
+    const parse = (value: unknown) => (typeof value === "string" ? JSON.parse(value) : value);
+
+    return {
+      ...row,
+      request_payload: parse(row.request_payload),
+      raw_response: parse(row.raw_response),
+      succeeded: Boolean(row.succeeded),
+    };
+  }
+
+  /**
+   * Build the Karma records for an overdue loan, one per borrower identity
+   *
+   * @param application - Disbursed loan
+   * @param user - Borrower
+   * @param schedule - The loan's schedule
+   * @param now - Reference time
+   * @returns Payloads for the borrower's email and phone number
+   * @throws AppError (409) if no installment is overdue beyond the grace period
+   */
+  static buildPayloads(
+    application: LoanApplication,
+    user: User,
+    schedule: LoanSchedule,
+    now: Date = new Date()
+  ): Array<[KarmaReportPayload, IdentityType]> {
+    const cutoff = new Date(now.getTime() - config.loans.penaltyGraceDays * DAY_MS).toISOString().slice(0, 10);
+    const overdue = schedule.installments.filter(
+      (installment) => installment.status !== "paid" && installment.due_date < cutoff
+    );
+
+    if (overdue.length === 0) {
+      throw new AppError(
+        409,
+        `Loan ${application.id} has no installment overdue by more than ${config.loans.penaltyGraceDays} days`
+      );
+    }
+
+    const overdueAmount = overdue.reduce(
+      (total, installment) =>
+        total
+          .add(Money.fromStorage(installment.principal_decimal, application.currency))
+          .add(Money.fromStorage(installment.interest_decimal, application.currency))
+          .add(Money.fromStorage(installment.penalty_decimal, application.currency))
+          .subtract(Money.fromStorage(installment.paid_decimal, application.currency)),
+      Money.zero(application.currency)
+    );
+    const report = {
+      amount_in_contention: schedule.outstanding.toCurrencyString(),
+      reason: `Default on loan repayment: ${application.currency} ${overdueAmount.toCurrencyString()} overdue across ${overdue.length} installment(s)`,
+      default_date: overdue[0]!.due_date,
+      karma_type: KARMA_TYPE,
+    };
+
+    return [
+      [{ identity: user.email, identity_type: "EMAIL", ...report }, "email"],
+      [{ identity: user.phone, identity_type: "PHONE", ...report }, "phone"],
+    ];
+  }
+
+  /**
+   * Report the borrower of an overdue loan to Karma (admin)
+   *
+   * Failed submissions are logged too. The loan counts as reported if
+   * Karma accepted at least one identity.
+   *
+   * @param adminId - Acting admin
+   * @param applicationId - Overdue loan
+   * @param now - Reference time (defaults to the current time)
+   * @returns The loan and the submissions made
+   * @throws AppError (404) if the application does not exist
+   * @throws AppError (409) if the loan is not disbursed, already reported, or not overdue
+   * @throws AppError (502) if Adjutor accepted none of the submissions
+   */
+  static async report(adminId: string, applicationId: string, now: Date = new Date()): Promise<KarmaReportOutcome> {
+    const application = await LoanService.getApplicationById(applicationId);
+
+    if (application.status !== "disbursed") {
+      throw new AppError(409, `Only a disbursed loan can be reported (status: ${application.status})`);
+    }
+    if (application.karma_reported_at) {
+      throw new AppError(409, `Loan ${applicationId} has already been reported to Karma`);
+    }
+
+    const user = await UserService.getUserById(application.user_id);
+    const schedule = await LoanRepaymentService.getSchedule(application);
+    const payloads = this.buildPayloads(application, user, schedule, now);
+
+    const reports: KarmaReport[] = [];
+    for (const [payload, identityType] of payloads) {
+      const result = await AdjutorService.reportKarma(payload, identityType);
+      reports.push(await this.log(application, "add", payload, result, adminId));
+    }
+
+    if (!reports.some((report) => report.succeeded)) {
+      throw new AppError(502, "Adjutor Karma did not accept the report; try again later");
+    }
+
+    await knex("loan_applications")
+      .where({ id: applicationId, karma_reported_at: null })
+      .update({ karma_reported_at: now, updated_at: knex.fn.now() });
+
+    logger.info(`Reported loan ${applicationId} to Adjutor Karma`, { adminId });
+
+    return { application: await LoanService.getApplicationById(applicationId), reports };
+  }
+
+  /**
+   * Remove a repaid borrower's Karma records
+   *
+   * Removes each identity Karma accepted that has not been removed yet, so
+   * a partly failed removal can simply be retried.
+   *
+   * @param adminId - Acting admin (null for the worker)
+   * @param applicationId - Repaid loan
+   * @param now - Reference time (defaults to the current time)
+   * @returns The loan and the submissions made
+   * @throws AppError (404) if the application does not exist
+   * @throws AppError (409) if the loan is not repaid or has no Karma record to remove
+   * @throws AppError (502) if Adjutor did not remove every record
+   */
+  static async remove(
+    adminId: string | null,
+    applicationId: string,
+    now: Date = new Date()
+  ): Promise<KarmaReportOutcome> {
+    const application = await LoanService.getApplicationById(applicationId);
+
+    if (application.status !== "repaid") {
+      throw new AppError(409, `Karma records are removed once the loan is repaid (status: ${application.status})`);
+    }
+    if (!application.karma_reported_at || application.karma_removed_at) {
+      throw new AppError(409, `Loan ${applicationId} has no Karma record to remove`);
+    }
+
+    const submitted = await knex("adjutor_reports")
+      .select("action", "identity_type", "identity")
+      .where({ application_id: applicationId, succeeded: true })
+      .orderBy("submitted_at", "asc");
+    const listed = new Map<string, IdentityType>();
+    for (const row of submitted) {
+      if (row.action === "add") {
+        listed.set(row.identity, row.identity_type);
+      } else {
+        listed.delete(row.identity);
+      }
+    }
+
+    const reports: KarmaReport[] = [];
+    for (const [identity, identityType] of listed) {
+      const result = await AdjutorService.removeKarma(identity, identityType);
+      reports.push(await this.log(application, "remove", { identity }, result, adminId));
+    }
+
+    if (!reports.every((report) => report.succeeded)) {
+      throw new AppError(502, "Adjutor Karma did not remove every record; try again later");
+    }
+
+    await knex("loan_applications")
+      .where({ id: applicationId, karma_removed_at: null })
+      .update({ karma_removed_at: now, updated_at: knex.fn.now() });
+
+    logger.info(`Removed loan ${applicationId} from Adjutor Karma`, { adminId });
+
+    return { application: await LoanService.getApplicationById(applicationId), reports };
+  }
+
+  /**
+   * Remove the Karma records of every reported loan that has been repaid
+   *
+   * Called periodically by the server after collecting repayments. A loan
+   * whose removal fails stays reported and is tried again on the next run.
+   *
+   * @param now - Reference time (defaults to the current time)
+   * @returns Number of loans cleared
+   */
+  static async removeCleared(now: Date = new Date()): Promise<number> {
+    const repaid: Array<{ id: string }> = await knex("loan_applications")
+      .select("id")
+      .where({ status: "repaid", karma_removed_at: null })
+      .whereNotNull("karma_reported_at")
+      .orderBy("repaid_at", "asc")
+      .limit(REMOVAL_BATCH_SIZE);
+
+    let cleared = 0;
+    for (const { id } of repaid) {
+      try {
+        await this.remove(null, id, now);
+        cleared++;
+      } catch (error) {
+        logger.error(`Failed to remove loan ${id} from Adjutor Karma:`, error);
+      }
+    }
+
+    if (cleared > 0) {
+      logger.info(`Removed ${cleared} repaid loans from Adjutor Karma`);
+    }
+
+    return cleared;
+  }
+
+  /**
+   * List a loan's Karma submissions, oldest first
+   *
+   * @param applicationId - Loan application
+   * @returns Submissions
+   * @throws AppError (404) if the application does not exist
+   */
+  static async listReports(applicationId: string): Promise<KarmaReport[]> {
+    await LoanService.getApplicationById(applicationId);
+
+    const rows = await knex("adjutor_reports")
+      .select(reportColumns(knex))
+      .where({ application_id: applicationId })
+      .orderBy("submitted_at", "asc");
+
+    return rows.map((row: any) => this.reportFromRow(row));
+  }
+
+  /**
+   * Log a submission and return it as stored
+   */
+  private static async log(
+    application: LoanApplication,
+    action: KarmaReportAction,
+    payload: KarmaReportPayload | { identity: string },
+    result: KarmaSubmissionResult,
+    adminId: string | null
+  ): Promise<KarmaReport> {
+    const id = await AdjutorService.logReport(application.user_id, application.id, action, payload, result, adminId);
+    const report = "amount_in_contention" in payload ? payload : null;
+
+    return {
+      id,
+      user_id: application.user_id,
+      application_id: application.id,
+      action,
+      identity_type: result.identityType,
+      identity: result.identity,
+      amount_in_contention_decimal: report
+        ? Money.fromStorage(report.amount_in_contention, application.currency).toStorageString()
+        : null,
+      reason: report?.reason ?? null,
+      default_date: report?.default_date ?? null,
+      request_payload: { ...payload },
+      raw_response: { ...result.rawResponse },
+      succeeded: result.succeeded,
+      submitted_by: adminId,
+      submitted_at: result.submittedAt,
+    };
+  }
+}
@@ -0,0 +1,464 @@
+/**
+ * Ledger Service
+ *
+ * Double-entry ledger underneath the wallets table.
+ *
+ * Every money movement posts a journal made of debit and credit legs whose
+ * totals are equal per currency. Wallets are mirrored by credit-normal
+ * liability accounts (money the platform owes the customer); money entering
+ * or leaving the platform goes through system accounts such as funding
+ * clearing, payout clearing and fees.
+ *
+ * The `transactions` table stays the customer-facing view; the ledger is
+ * the proof that money was neither created nor destroyed.
+ *
+ * @module services/ledger.service
+ */
+
+import { Knex } from "knex";
+import { knex, newId } from "../db";
+import { logger } from "../utils/logger";
+import { Money } from "../utils/money";
+
+/**
+ * Side of a ledger entry
+ */
+export type EntryDirection = "debit" | "credit";
+
+/**
+ * System accounts (one per currency)
+ */
+export type SystemAccountName =
+  | "FUNDING_CLEARING"
+  | "PAYOUT_CLEARING"
+  | "FEES"
+  | "OPENING_BALANCES"
+  | "FX_POSITION"
+  | "INTEREST_EXPENSE";
+
+/**
+ * Display name and normal balance of each system account
+ */
+const SYSTEM_ACCOUNTS: Record<
+  SystemAccountName,
+  { name: string; normalBalance: EntryDirection }
+> = {
+  FUNDING_CLEARING: { name: "Funding clearing", normalBalance: "debit" },
+  PAYOUT_CLEARING: { name: "Payout clearing", normalBalance: "credit" },
+  FEES: { name: "Fee revenue", normalBalance: "credit" },
+  OPENING_BALANCES: { name: "Opening balances", normalBalance: "debit" },
+  FX_POSITION: { name: "FX position", normalBalance: "debit" },
+  INTEREST_EXPENSE: { name: "Interest expense", normalBalance: "debit" },
+};
+
+/**
+ * Ledger account data interface
+ */
+export interface LedgerAccount {
+  id: string;
+  code: string;
+  name: string;
+  type: "wallet" | "system";
+  wallet_id: string | null;
+  currency: string;
+  normal_balance: EntryDirection;
+  balance_decimal: string;
+  created_at: Date;
+}
+
+/**
+ * Reference to a ledger account, resolved (and created if needed) on posting
+ */
+export type LedgerAccountRef =
+  | { walletId: string; currency: string }
+  | { system: SystemAccountName; currency: string };
+
+/**
+ * One debit or credit leg of a journal
+ */
+export interface JournalLeg {
+  account: LedgerAccountRef;
+  direction: EntryDirection;
+  amount: Money;
+}
+
+/**
+ * Journal to post
+ */
+export interface JournalInput {
+  /** Unique reference (normally the wallet operation reference) */
+  reference: string;
+  description: string;
+  legs: JournalLeg[];
+  metadata?: any;
+}
+
+/**
+ * Result of comparing a wallet with its ledger account
+ */
+export interface WalletLedgerCheck {
+  walletId: string;
+  currency: string;
+  walletBalance: string;
+  ledgerBalance: string;
+  balanced: boolean;
+}
+
+/**
+ * Ledger service class
+ */
+export class LedgerService {
+  /**
+   * Build the unique code for an account reference
+   *
+   * @param ref - Account reference
+   * @returns Account code, e.g. "WALLET:<walletId>" or "FEES:NGN"
+   */
+  private static accountCode(ref: LedgerAccountRef): string {
+    return "walletId" in ref ? `WALLET:${ref.walletId}` : `${ref.system}:${ref.currency}`;
+  }
+
+  /**
+   * Resolve an account reference to an account, creating it on first use
+   *
+   * Wallet accounts are only touched while their wallet row is locked, and
+   * system accounts are created with INSERT IGNORE, so concurrent first
+   * postings cannot create duplicates.
+   *
+   * @param trx - Knex transaction
+   * @param ref - Account reference
+   * @returns Ledger account
+   */
+  private static async resolveAccount(
+    trx: Knex.Transaction,
+    ref: LedgerAccountRef
+  ): Promise<LedgerAccount> {
+    const code = this.accountCode(ref);
+    const existing = await trx("ledger_accounts").where({ code }).first();
+
+    if (existing) {
+      if (existing.currency !== ref.currency) {
+        throw new Error(
+          `Ledger account ${code} is ${existing.currency}, cannot post ${ref.currency}`
+        );
+      }
+      return existing;
+    }
+
+    const isWallet = "walletId" in ref;
+    const system = isWallet ? null : SYSTEM_ACCOUNTS[ref.system];
+
+    await trx("ledger_accounts")
+      .insert({
+        id: newId(),
+        code,
+        name: isWallet
+          ? `Wallet ${ref.walletId}`
+          : `${system!.name} (${ref.currency})`,
+        type: isWallet ? "wallet" : "system",
+        wallet_id: isWallet ? ref.walletId : null,
+        currency: ref.currency,
+        normal_balance: isWallet ? "credit" : system!.normalBalance,
+        balance_decimal: "0.000000",
+        created_at: trx.fn.now(),
+      })
+      .onConflict("code")
+      .ignore();
+
+    const account = await trx("ledger_accounts").where({ code }).first();
+
+    if (!account) {
+      throw new Error(`Failed to create ledger account ${code}`);
+    }
+
+    return account;
+  }
+
+  /**
+   * Ensure a journal is balanced before anything is written
+   *
+   * @param journal - Journal to validate
+   * @throws Error if the journal has fewer than two legs, a non-positive leg,
+   *   or debits and credits that differ in any currency
+   */
+  private static assertBalanced(journal: JournalInput): void {
+    if (journal.legs.length < 2) {
+      throw new Error(`Journal ${journal.reference} must have at least two legs`);
+    }
+
+    const totals = new Map<string, { debit: Money; credit: Money }>();
+
+    for (const leg of journal.legs) {
+      if (!leg.amount.isPositive()) {
+        throw new Error(`Journal ${journal.reference} has a non-positive leg`);
+      }
+      if (leg.amount.currency !== leg.account.currency) {
+        throw new Error(
+          `Journal ${journal.reference} posts ${leg.amount.currency} to a ${leg.account.currency} account`
+        );
+      }
+
+      const currency = leg.amount.currency;
+      const total = totals.get(currency) ?? {
+        debit: Money.zero(currency),
+        credit: Money.zero(currency),
+      };
+      total[leg.direction] = total[leg.direction].add(leg.amount);
+      totals.set(currency, total);
+    }
+
+    for (const [currency, total] of totals) {
+      if (!total.debit.equals(total.credit)) {
+        throw new Error(
+          `Unbalanced journal ${journal.reference} (${currency}): debits ${total.debit}, credits ${total.credit}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Post a balanced journal
+   *
+   * Must be called inside the same DB transaction as the wallet update it
+   * describes, so the ledger and the wallets commit or roll back together.
+   *
+   * @param trx - Knex transaction
+   * @param journal - Journal reference, description and legs
+   * @returns Journal ID
+   * @throws Error if the journal is unbalanced
+   *
+   * @example
+   * ```typescript
+   * await LedgerService.postJournal(trx, {
+   *   reference: "FUND-user-123-1699564800000-A1B2C3D4",
+   *   description: "Wallet funding",
+   *   legs: [
+   *     { account: { system: "FUNDING_CLEARING", currency: "NGN" }, direction: "debit", amount },
+   *     { account: { walletId: wallet.id, currency: "NGN" }, direction: "credit", amount },
+   *   ],
+   * });
+   * ```
+   */
+  static async postJournal(trx: Knex.Transaction, journal: JournalInput): Promise<string> {
+    this.assertBalanced(journal);
+
+    const journalId = newId();
+
+    await trx("journal_entries").insert({
+      id: journalId,
+      reference: journal.reference,
+      description: journal.description,
+      metadata: journal.metadata ? JSON.stringify(journal.metadata) : null,
+      created_at: trx.fn.now(),
+    });
+
+    for (const leg of journal.legs) {
+      const account = await this.resolveAccount(trx, leg.account);
+      const amountDecimal = leg.amount.toStorageString();
+
+      await trx("ledger_entries").insert({
+        id: newId(),
+        journal_id: journalId,
+        account_id: account.id,
+        direction: leg.direction,
+        amount_decimal: amountDecimal,
+        created_at: trx.fn.now(),
+      });
+
+      // Wallet accounts keep a running (credit-normal) balance so every
+      // posting can be checked against the wallet in O(1)
+      if (account.type === "wallet") {
+        const operator = leg.direction === "credit" ? "+" : "-";
+        await trx("ledger_accounts")
+          .where({ id: account.id })
+          .update({
+            balance_decimal: trx.raw(`balance_decimal ${operator} ?`, [amountDecimal]),
+          });
+      }
+    }
+
+    logger.debug(`Posted journal ${journal.reference} (${journal.legs.length} legs)`);
+
+    return journalId;
+  }
+
+  /**
+   * Check a wallet's new balance against its ledger account
+   *
+   * Called after posting, before the wallet update is committed. A mismatch
+   * throws and rolls the whole DB transaction back.
+   *
+   * @param trx - Knex transaction
+   * @param walletId - Wallet ID
+   * @param expectedBalance - Balance about to be written to the wallet
+   * @throws Error if the ledger disagrees with the wallet
+   */
+  static async assertWalletBalance(
+    trx: Knex.Transaction,
+    walletId: string,
+    expectedBalance: Money
+  ): Promise<void> {
+    const account = await trx("ledger_accounts").where({ wallet_id: walletId }).first();
+    const ledgerBalance = account
+      ? Money.fromStorage(account.balance_decimal, account.currency)
+      : Money.zero(expectedBalance.currency);
+
+    if (!ledgerBalance.equals(expectedBalance)) {
+      logger.error(
+        `Ledger mismatch for wallet ${walletId}: wallet ${expectedBalance}, ledger ${ledgerBalance}`
+      );
+      throw new Error(`Ledger mismatch for wallet ${walletId}`);
+    }
+  }
+
+  /**
+   * Derive an account balance from its entries (ignores the running balance)
+   *
+   * @param accountId - Ledger account ID
+   * @param currency - Account currency
+   * @param normalBalance - Side that increases the account
+   * @param trx - Optional Knex transaction
+   * @param before - Only count entries posted before this time
+   * @returns Balance as Money (positive when on the normal side)
+   */
+  private static async deriveBalance(
+    accountId: string,
+    currency: string,
+    normalBalance: EntryDirection,
+    trx?: Knex.Transaction,
+    before?: Date
+  ): Promise<Money> {
+    const query = (trx || knex)("ledger_entries")
+      .select("direction")
+      .sum({ total: "amount_decimal" })
+      .where({ account_id: accountId });
+
+    if (before) {
+      query.where("created_at", "<", before);
+    }
+
+    const rows: Array<{ direction: EntryDirection; total: string | null }> =
+      await query.groupBy("direction");
+
+    let debits = Money.zero(currency);
+    let credits = Money.zero(currency);
+
+    for (const row of rows) {
+      const total = Money.fromStorage(row.total ?? "0", currency);
+      if (row.direction === "debit") {
+        debits = debits.add(total);
+      } else {
+        credits = credits.add(total);
+      }
+    }
+
+    return normalBalance === "credit" ? credits.subtract(debits) : debits.subtract(credits);
+  }
+
+  /**
+   * A wallet's balance as it stood at a point in time
+   *
+   * Derived from the wallet's ledger entries posted before `before`, so it
+   * does not depend on when it is asked (used for end-of-day balances).
+   *
+   * @param walletId - Wallet ID
+   * @param currency - Wallet currency
+   * @param before - Point in time (exclusive)
+   * @param trx - Optional Knex transaction
+   * @returns Balance as Money (zero if the wallet has no ledger account yet)
+   */
+  static async walletBalanceAt(
+    walletId: string,
+    currency: string,
+    before: Date,
+    trx?: Knex.Transaction
+  ): Promise<Money> {
+    const account: LedgerAccount | undefined = await (trx || knex)("ledger_accounts")
+      .where({ wallet_id: walletId })
+      .first();
+
+    if (!account) {
+      return Money.zero(currency);
+    }
+
+    return this.deriveBalance(account.id, account.currency, account.normal_balance, trx, before);
+  }
+
+  /**
+   * Compare a wallet's balance with the balance derived from ledger entries
+   *
+   * @param walletId - Wallet ID
+   * @param trx - Optional Knex transaction (for a consistent snapshot)
+   * @returns Both balances and whether they agree
+   * @throws Error if the wallet does not exist
+   */
+  static async verifyWallet(
+    walletId: string,
+    trx?: Knex.Transaction
+  ): Promise<WalletLedgerCheck> {
+    const db = trx || knex;
+    const wallet = await db("wallets").where({ id: walletId }).first();
+
+    if (!wallet) {
+      throw new Error(`Wallet not found: ${walletId}`);
+    }
+
+    const walletBalance = Money.fromStorage(wallet.balance_decimal, wallet.currency);
+    const account: LedgerAccount | undefined = await db("ledger_accounts")
+      .where({ wallet_id: walletId })
+      .first();
+
+    const ledgerBalance = account
+      ? await this.deriveBalance(account.id, account.currency, account.normal_balance, trx)
+      : Money.zero(wallet.currency);
+
+    return {
+      walletId,
+      currency: wallet.currency,
+      walletBalance: walletBalance.toStorageString(),
+      ledgerBalance: ledgerBalance.toStorageString(),
+      balanced: walletBalance.equals(ledgerBalance),
+    };
+  }
+
+  /**
+   * Total debits and credits across the whole ledger, per currency
+   *
+   * In a healthy ledger debits equal credits in every currency.
+   *
+   * @returns Trial balance per currency
+   */
+  static async getTrialBalance(): Promise<
+    Array<{ currency: string; debits: string; credits: string; balanced: boolean }>
+  > {
+    const rows: Array<{ currency: string; direction: EntryDirection; total: string | null }> =
+      await knex("ledger_entries")
+        .join("ledger_accounts", "ledger_entries.account_id", "ledger_accounts.id")
+        .select("ledger_accounts.currency as currency", "ledger_entries.direction as direction")
+        .sum({ total: "ledger_entries.amount_decimal" })
+        .groupBy("ledger_accounts.currency", "ledger_entries.direction");
+
+    const totals = new Map<string, { debits: Money; credits: Money }>();
+
+    for (const row of rows) {
+      const total = totals.get(row.currency) ?? {
+        debits: Money.zero(row.currency),
+        credits: Money.zero(row.currency),
+      };
+      const amount = Money.fromStorage(row.total ?? "0", row.currency);
+      if (row.direction === "debit") {
+        total.debits = total.debits.add(amount);
+      } else {
+        total.credits = total.credits.add(amount);
+      }
+      totals.set(row.currency, total);
+    }
+
+    return [...totals.entries()].map(([currency, total]) => ({
+      currency,
+      debits: total.debits.toStorageString(),
+      credits: total.credits.toStorageString(),
+      balanced: total.debits.equals(total.credits),
+    }));
+  }
+}
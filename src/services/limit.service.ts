@@ -0,0 +1,450 @@
+/**
+ * Limit Service
+ *
+ * Enforces per-tier transaction limits (tier_limits) and manages them.
+ *
+ * Each user tier (users.tier) has, per currency:
+ * - max_single: largest single withdrawal or transfer
+ * - daily / monthly: cumulative withdrawals and outgoing transfers (debit and
+ *   transfer-out transactions, fees excluded) since the start of the UTC day
+ *   or month
+ * - max_balance: highest balance a wallet may reach when credited
+ *
+ * A null limit, or no row for the tier and currency, is unlimited. Checks
+ * run inside the operation's DB transaction after the wallet is locked, so
+ * concurrent operations on the same wallet cannot both pass against the same
+ * usage. The platform's own users, fee revenue (FEE_REVENUE_USER_ID) and
+ * escrow (ESCROW_USER_ID), are exempt.
+ *
+ * Outflow breaches are 403s; a balance that would exceed max_balance is a
+ * 422. Both are LimitExceededErrors naming the limit.
+ *
+ * @module services/limit.service
+ */
+
+import { Knex } from "knex";
+import { knex, newId } from "../db";
+import { config } from "../config/env";
+import { UserTier } from "../config/userTiers";
+import { logger } from "../utils/logger";
+import { AppError, LimitBreach, LimitExceededError } from "../middlewares/error";
+import { Money } from "../utils/money";
+import { Wallet, WalletSelector, WalletService } from "./wallet.service";
+
+/**
+ * Limits of a tier in a currency
+ */
+export interface TierLimit {
+  id: string;
+  tier: UserTier;
+  currency: string;
+  max_single_decimal: string | null;
+  daily_limit_decimal: string | null;
+  monthly_limit_decimal: string | null;
+  max_balance_decimal: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * New limits for a tier and currency (null = unlimited)
+ */
+export interface TierLimitInput {
+  maxSingle: string | null;
+  dailyLimit: string | null;
+  monthlyLimit: string | null;
+  maxBalance: string | null;
+}
+
+/**
+ * Tier limit list filters
+ */
+export interface TierLimitFilters {
+  tier?: UserTier;
+  currency?: string;
+}
+
+/**
+ * A wallet's limits and how much of them is used
+ */
+export interface LimitUsage {
+  tier: UserTier;
+  currency: string;
+  limits: {
+    max_single: string | null;
+    daily: string | null;
+    monthly: string | null;
+    max_balance: string | null;
+  };
+  used: {
+    daily: string;
+    monthly: string;
+    balance: string;
+  };
+  /** What can still be sent today / this month (null = unlimited) */
+  remaining: {
+    daily: string | null;
+    monthly: string | null;
+  };
+}
+
+/**
+ * Transaction types that count towards the daily and monthly limits
+ *
+ * Hold captures are posted as `debit` transactions, so they count like
+ * withdrawals.
+ */
+const OUTFLOW_TYPES = ["debit", "transfer-out"];
+
+/**
+ * Limit service class
+ */
+export class LimitService {
+  /**
+   * Find the limits that apply to a user in a currency
+   *
+   * @param db - Knex instance or transaction
+   * @param userId - User ID
+   * @param currency - Wallet currency
+   * @returns The user's tier and its limits (null = unlimited)
+   * @throws AppError 404 if the user does not exist
+   */
+  static async getLimitsFor(
+    db: Knex | Knex.Transaction,
+    userId: string,
+    currency: string
+  ): Promise<{ tier: UserTier; limit: TierLimit | null }> {
+    const user: { tier: UserTier } | undefined = await db("users")
+      .select("tier")
+      .where({ id: userId })
+      .first();
+
+    if (!user) {
+      throw new AppError(404, `User not found: ${userId}`);
+    }
+
+    const limit = await db("tier_limits").where({ tier: user.tier, currency }).first();
+
+    return { tier: user.tier, limit: limit ?? null };
+  }
+
+  /**
+   * Start of the current UTC day and month
+   *
+   * @param now - Current time
+   * @returns Period start dates
+   */
+  static periodStarts(now: Date = new Date()): { day: Date; month: Date } {
+    return {
+      day: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())),
+      month: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+    };
+  }
+
+  /**
+   * Sum a wallet's withdrawals and outgoing transfers since a point in time
+   *
+   * Moves into a savings pot (references starting `POT-`) stay with the user
+   * and do not count, nor do loan repayments the platform collects
+   * (references starting `LOAN-`).
+   *
+   * @param db - Knex instance or transaction
+   * @param wallet - Wallet
+   * @param since - Start of the period
+   * @returns Total outflow
+   */
+  static async outflowSince(
+    db: Knex | Knex.Transaction,
+    wallet: Wallet,
+    since: Date
+  ): Promise<Money> {
+    const row = await db("transactions")
+      .where({ wallet_id: wallet.id })
+      .whereIn("type", OUTFLOW_TYPES)
+      .where("reference", "not like", "POT-%")
+      .where("reference", "not like", "LOAN-%")
+      .where("created_at", ">=", since)
+      .sum({ total: "amount_decimal" })
+      .first();
+
+    return row?.total ? Money.fromStorage(String(row.total), wallet.currency) : Money.zero(wallet.currency);
+  }
+
+  /**
+   * Check a withdrawal or outgoing transfer against the sender's limits
+   *
+   * @param trx - Knex transaction (wallet must be locked)
+   * @param wallet - Locked sender wallet
+   * @param amount - Amount being sent (fee excluded)
+   * @throws LimitExceededError 403 naming the breached limit
+   */
+  static async assertCanSend(trx: Knex.Transaction, wallet: Wallet, amount: Money): Promise<void> {
+    if (this.isExempt(wallet)) {
+      return;
+    }
+
+    const { tier, limit } = await this.getLimitsFor(trx, wallet.user_id, wallet.currency);
+    if (!limit) {
+      return;
+    }
+
+    const breach = (name: LimitBreach["limit"], max: Money, used?: Money): LimitBreach => ({
+      limit: name,
+      tier,
+      currency: wallet.currency,
+      max: max.toStorageString(),
+      ...(used ? { used: used.toStorageString() } : {}),
+      requested: amount.toStorageString(),
+    });
+
+    if (limit.max_single_decimal) {
+      const max = Money.fromStorage(limit.max_single_decimal, wallet.currency);
+      if (amount.greaterThan(max)) {
+        throw new LimitExceededError(
+          403,
+          `Amount exceeds the ${tier} single transaction limit of ${max} ${wallet.currency}`,
+          breach("max_single", max)
+        );
+      }
+    }
+
+    const starts = this.periodStarts();
+    const periods: Array<["daily" | "monthly", string | null, Date]> = [
+      ["daily", limit.daily_limit_decimal, starts.day],
+      ["monthly", limit.monthly_limit_decimal, starts.month],
+    ];
+
+    for (const [name, value, since] of periods) {
+      if (!value) {
+        continue;
+      }
+
+      const max = Money.fromStorage(value, wallet.currency);
+      const used = await this.outflowSince(trx, wallet, since);
+      if (used.add(amount).greaterThan(max)) {
+        throw new LimitExceededError(
+          403,
+          `Amount exceeds the ${tier} ${name} limit of ${max} ${wallet.currency} (already used: ${used})`,
+          breach(name, max, used)
+        );
+      }
+    }
+  }
+
+  /**
+   * Check that a credit keeps a wallet within its maximum balance
+   *
+   * @param trx - Knex transaction (wallet must be locked)
+   * @param wallet - Locked wallet being credited
+   * @param amount - Amount being credited
+   * @param newBalance - Balance after the credit
+   * @param recipient - Whether the wallet belongs to someone other than the
+   *   caller (the recipient's balance is not disclosed)
+   * @throws LimitExceededError 422 if max_balance would be exceeded
+   */
+  static async assertCanReceive(
+    trx: Knex.Transaction,
+    wallet: Wallet,
+    amount: Money,
+    newBalance: Money,
+    recipient: boolean = false
+  ): Promise<void> {
+    if (this.isExempt(wallet)) {
+      return;
+    }
+
+    const { tier, limit } = await this.getLimitsFor(trx, wallet.user_id, wallet.currency);
+    if (!limit?.max_balance_decimal) {
+      return;
+    }
+
+    const max = Money.fromStorage(limit.max_balance_decimal, wallet.currency);
+    if (!newBalance.greaterThan(max)) {
+      return;
+    }
+
+    const current = newBalance.subtract(amount);
+    throw new LimitExceededError(
+      422,
+      recipient
+        ? `The recipient's wallet cannot receive this amount (maximum balance limit)`
+        : `Balance would exceed the ${tier} maximum balance of ${max} ${wallet.currency}`,
+      {
+        limit: "max_balance",
+        tier,
+        currency: wallet.currency,
+        max: max.toStorageString(),
+        ...(recipient ? {} : { used: current.toStorageString() }),
+        requested: amount.toStorageString(),
+      }
+    );
+  }
+
+  /**
+   * Get a wallet's limits and current usage
+   *
+   * @param userId - User ID
+   * @param selector - Wallet ID or currency (default: DEFAULT_CURRENCY wallet)
+   * @returns Limits, usage and remaining allowance
+   * @throws AppError 404 if the user or wallet does not exist
+   */
+  static async getUsage(userId: string, selector: WalletSelector = {}): Promise<LimitUsage> {
+    const wallet = await WalletService.getWalletByUserId(userId, undefined, false, selector);
+
+    if (!wallet) {
+      throw new AppError(404, `Wallet not found for user: ${userId}`);
+    }
+
+    const { tier, limit } = await this.getLimitsFor(knex, userId, wallet.currency);
+    const periods = this.periodStarts();
+    const [daily, monthly] = await Promise.all([
+      this.outflowSince(knex, wallet, periods.day),
+      this.outflowSince(knex, wallet, periods.month),
+    ]);
+
+    const remaining = (value: string | null | undefined, used: Money): string | null => {
+      if (!value) {
+        return null;
+      }
+      const max = Money.fromStorage(value, wallet.currency);
+      return used.lessThan(max) ? max.subtract(used).toStorageString() : Money.zero(wallet.currency).toStorageString();
+    };
+
+    return {
+      tier,
+      currency: wallet.currency,
+      limits: {
+        max_single: limit?.max_single_decimal ?? null,
+        daily: limit?.daily_limit_decimal ?? null,
+        monthly: limit?.monthly_limit_decimal ?? null,
+        max_balance: limit?.max_balance_decimal ?? null,
+      },
+      used: {
+        daily: daily.toStorageString(),
+        monthly: monthly.toStorageString(),
+        balance: wallet.balance_decimal,
+      },
+      remaining: {
+        daily: remaining(limit?.daily_limit_decimal, daily),
+        monthly: remaining(limit?.monthly_limit_decimal, monthly),
+      },
+    };
+  }
+
+  /**
+   * List tier limits
+   *
+   * @param filters - Optional tier and currency filters
+   * @returns Limits ordered by currency and tier
+   */
+  static async listLimits(filters: TierLimitFilters = {}): Promise<TierLimit[]> {
+    const query = knex("tier_limits");
+
+    if (filters.tier) {
+      query.where("tier", filters.tier);
+    }
+    if (filters.currency) {
+      query.where("currency", filters.currency);
+    }
+
+    return query.orderBy("currency", "asc").orderBy("tier", "asc");
+  }
+
+  /**
+   * Whether a wallet belongs to a platform user that limits do not apply to
+   *
+   * @param wallet - Wallet
+   * @returns True for the fee revenue and escrow users' wallets
+   */
+  private static isExempt(wallet: Wallet): boolean {
+    return wallet.user_id === config.fees.revenueUserId || wallet.user_id === config.escrow.userId;
+  }
+
+  /**
+   * Parse a configured limit in its currency
+   *
+   * @param value - Decimal string or null (unlimited)
+   * @param currency - Limit currency
+   * @param field - Field name for error messages
+   * @returns Money value or null
+   * @throws AppError 400 if the amount is invalid for the currency
+   */
+  private static parseLimit(value: string | null, currency: string, field: string): Money | null {
+    if (value === null) {
+      return null;
+    }
+
+    try {
+      return Money.parse(value, currency);
+    } catch (error) {
+      throw new AppError(400, `${field}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Set the limits of a tier in a currency (replacing any existing limits)
+   *
+   * @param tier - User tier
+   * @param currency - Currency
+   * @param input - New limits (null = unlimited)
+   * @returns Saved limits
+   * @throws AppError 400 if a limit is invalid or they are inconsistent
+   */
+  static async setLimit(tier: UserTier, currency: string, input: TierLimitInput): Promise<TierLimit> {
+    const maxSingle = this.parseLimit(input.maxSingle, currency, "maxSingle");
+    const daily = this.parseLimit(input.dailyLimit, currency, "dailyLimit");
+    const monthly = this.parseLimit(input.monthlyLimit, currency, "monthlyLimit");
+    const maxBalance = this.parseLimit(input.maxBalance, currency, "maxBalance");
+
+    if (maxSingle && daily && maxSingle.greaterThan(daily)) {
+      throw new AppError(400, "maxSingle must not exceed dailyLimit");
+    }
+    if (daily && monthly && daily.greaterThan(monthly)) {
+      throw new AppError(400, "dailyLimit must not exceed monthlyLimit");
+    }
+
+    const values = {
+      max_single_decimal: maxSingle ? maxSingle.toStorageString() : null,
+      daily_limit_decimal: daily ? daily.toStorageString() : null,
+      monthly_limit_decimal: monthly ? monthly.toStorageString() : null,
+      max_balance_decimal: maxBalance ? maxBalance.toStorageString() : null,
+    };
+
+    await knex("tier_limits")
+      .insert({ id: newId(), tier, currency, ...values })
+      .onConflict(["tier", "currency"])
+      .merge({ ...values, updated_at: knex.fn.now() });
+
+    logger.info(`Set ${tier} ${currency} limits: ${JSON.stringify(values)}`);
+
+    return knex("tier_limits").where({ tier, currency }).first();
+  }
+
+  /**
+   * Move a user to another tier
+   *
+   * @param userId - User ID
+   * @param tier - New tier
+   * @returns The user's previous and new tier
+   * @throws AppError 404 if the user does not exist
+   */
+  static async setUserTier(
+    userId: string,
+    tier: UserTier
+  ): Promise<{ userId: string; previousTier: UserTier; tier: UserTier }> {
+    const user: { tier: UserTier } | undefined = await knex("users")
+      .select("tier")
+      .where({ id: userId })
+      .first();
+
+    if (!user) {
+      throw new AppError(404, `User not found: ${userId}`);
+    }
+
+    await knex("users").where({ id: userId }).update({ tier, updated_at: knex.fn.now() });
+
+    logger.info(`Moved user ${userId} from ${user.tier} to ${tier}`);
+
+    return { userId, previousTier: user.tier, tier };
+  }
+}
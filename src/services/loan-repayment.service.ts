@@ -0,0 +1,541 @@
+/**
+ * Loan Repayment Service
+ *
+ * Repayment schedules for disbursed loans and the worker that collects them.
+ *
+ * Schedules (drawn up when a loan is disbursed): one installment a month
+ * for the loan's tenor, due on the day of the month the loan was paid out
+ * (or the month's last day). Principal and interest are split by the loan's
+ * repayment method:
+ * - flat:             equal principal parts; each month's interest is the
+ *                     monthly rate on the original amount
+ * - reducing_balance: level installments (annuity); each month's interest
+ *                     is the monthly rate on the principal still owed
+ * Amounts are truncated to the currency's precision; the last installment
+ * repays whatever principal is left, so the parts always add up.
+ *
+ * Collection (collectDue, run periodically by the server):
+ * 1. installments past their due date are marked overdue; once
+ *    LOAN_PENALTY_GRACE_DAYS have passed, each finished day adds a late
+ *    penalty of `late_penalty_bps` of the unpaid principal and interest
+ * 2. everything due is debited from the loan's wallet, oldest installment
+ *    first, like a withdrawal but without fees or limits. When the
+ *    available balance is short, what there is is collected and the rest
+ *    is tried again on the next run
+ * 3. once every installment is paid the loan is marked repaid
+ *
+ * Each loan is collected in its own DB transaction with the wallet locked,
+ * so a run can be repeated safely and one failure does not hold up the
+ * rest. Every method that depends on the date takes `now`, so schedules,
+ * penalties and collections can be driven by a controlled clock.
+ *
+ * @module services/loan-repayment.service
+ */
+
+import { Knex } from "knex";
+import { knex, newId, withTransaction } from "../db";
+import { config } from "../config/env";
+import { logger } from "../utils/logger";
+import { AppError } from "../middlewares/error";
+import { Money } from "../utils/money";
+import { WalletService } from "./wallet.service";
+import type { LoanApplication, LoanRepaymentMethod } from "./loan.service";
+
+/**
+ * Installment status values
+ */
+export type LoanInstallmentStatus = "pending" | "overdue" | "paid";
+
+/**
+ * Loan installment record
+ */
+export interface LoanInstallment {
+  id: string;
+  application_id: string;
+  sequence: number;
+  /** Day the installment falls due (YYYY-MM-DD, UTC) */
+  due_date: string;
+  principal_decimal: string;
+  interest_decimal: string;
+  penalty_decimal: string;
+  paid_decimal: string;
+  status: LoanInstallmentStatus;
+  /** Last day late penalties were accrued for (YYYY-MM-DD) */
+  penalty_accrued_to: string | null;
+  paid_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Amount collected towards one installment
+ */
+export interface LoanRepayment {
+  id: string;
+  application_id: string;
+  installment_id: string;
+  transaction_id: string;
+  amount_decimal: string;
+  created_at: Date;
+}
+
+/**
+ * Installment of a schedule before it is stored
+ */
+export interface ScheduledInstallment {
+  sequence: number;
+  /** YYYY-MM-DD */
+  due_date: string;
+  principal: Money;
+  interest: Money;
+}
+
+/**
+ * A loan's schedule with its totals
+ */
+export interface LoanSchedule {
+  installments: LoanInstallment[];
+  principal: Money;
+  interest: Money;
+  penalty: Money;
+  paid: Money;
+  outstanding: Money;
+}
+
+/**
+ * Loans collected per page of the sweep
+ */
+const COLLECTION_BATCH_SIZE = 100;
+
+/**
+ * One day in milliseconds
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Midnight (UTC) at the start of a timestamp's day
+ */
+function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/**
+ * Day key (YYYY-MM-DD) of a UTC midnight
+ */
+function toDateKey(day: Date): string {
+  return day.toISOString().slice(0, 10);
+}
+
+/**
+ * UTC midnight of a day key
+ */
+function fromDateKey(key: string): Date {
+  return new Date(`${key}T00:00:00Z`);
+}
+
+/**
+ * The same day some months later, or that month's last day if it is shorter
+ */
+function addMonths(day: Date, months: number): Date {
+  const target = new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth() + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(day.getUTCDate(), lastDay));
+  return target;
+}
+
+/**
+ * Columns of an installment, with its dates as YYYY-MM-DD strings
+ */
+function installmentColumns(db: Knex | Knex.Transaction) {
+  return [
+    "id",
+    "application_id",
+    "sequence",
+    db.raw("DATE_FORMAT(due_date, '%Y-%m-%d') as due_date"),
+    "principal_decimal",
+    "interest_decimal",
+    "penalty_decimal",
+    "paid_decimal",
+    "status",
+    db.raw("DATE_FORMAT(penalty_accrued_to, '%Y-%m-%d') as penalty_accrued_to"),
+    "paid_at",
+    "created_at",
+    "updated_at",
+  ];
+}
+
+/**
+ * Loan repayment service class
+ */
+export class LoanRepaymentService {
+  /**
+   * Work out a loan's installments
+   *
+   * @param principal - Amount borrowed
+   * @param annualBps - Annual interest rate in basis points
+   * @param tenorMonths - Number of monthly installments
+   * @param method - How principal and interest are split
+   * @param start - Day the loan was paid out; installment n is due n months later
+   * @returns Installments in order
+   *
+   * @example
+   * ```typescript
+   * LoanRepaymentService.buildSchedule(Money.parse("30000", "NGN"), 1200, 3, "flat", new Date("2024-01-31"));
+   * // due 2024-02-29, 2024-03-31, 2024-04-30; 10000 principal and 300 interest each
+   * ```
+   */
+  static buildSchedule(
+    principal: Money,
+    annualBps: number,
+    tenorMonths: number,
+    method: LoanRepaymentMethod,
+    start: Date
+  ): ScheduledInstallment[] {
+    const firstDay = startOfUtcDay(start);
+    const payment =
+      method === "flat" ? principal.divide(tenorMonths) : principal.annuityPayment(annualBps, tenorMonths);
+    const installments: ScheduledInstallment[] = [];
+    let balance = principal;
+
+    for (let sequence = 1; sequence <= tenorMonths; sequence++) {
+      const interest =
+        method === "flat" ? principal.monthlyInterest(annualBps) : balance.monthlyInterest(annualBps);
+      const principalPart =
+        sequence === tenorMonths ? balance : method === "flat" ? payment : payment.subtract(interest);
+
+      installments.push({
+        sequence,
+        due_date: toDateKey(addMonths(firstDay, sequence)),
+        principal: principalPart,
+        interest,
+      });
+      balance = balance.subtract(principalPart);
+    }
+
+    return installments;
+  }
+
+  /**
+   * Store the schedule of a loan being disbursed
+   *
+   * @param trx - Knex transaction marking the loan disbursed
+   * @param application - Loan application
+   * @param start - Day the loan was paid out
+   * @returns Stored installments
+   */
+  static async createSchedule(
+    trx: Knex.Transaction,
+    application: LoanApplication,
+    start: Date
+  ): Promise<ScheduledInstallment[]> {
+    const installments = this.buildSchedule(
+      Money.fromStorage(application.amount_decimal, application.currency),
+      application.interest_rate_bps,
+      application.tenor_months,
+      application.repayment_method,
+      start
+    );
+
+    await trx("loan_installments").insert(
+      installments.map((installment) => ({
+        id: newId(),
+        application_id: application.id,
+        sequence: installment.sequence,
+        due_date: installment.due_date,
+        principal_decimal: installment.principal.toStorageString(),
+        interest_decimal: installment.interest.toStorageString(),
+        penalty_decimal: "0",
+        paid_decimal: "0",
+        status: "pending",
+        created_at: trx.fn.now(),
+        updated_at: trx.fn.now(),
+      }))
+    );
+
+    logger.info(
+      `Scheduled ${installments.length} ${application.repayment_method} installments for loan ${application.id}`
+    );
+
+    return installments;
+  }
+
+  /**
+   * Get a loan's schedule with its totals
+   *
+   * @param application - Loan application (ownership already checked)
+   * @returns Installments in order, what they add up to and what is still owed
+   */
+  static async getSchedule(application: LoanApplication): Promise<LoanSchedule> {
+    const rows = await knex("loan_installments")
+      .select(installmentColumns(knex))
+      .where({ application_id: application.id })
+      .orderBy("sequence", "asc");
+    const installments: LoanInstallment[] = rows;
+
+    const sum = (column: keyof LoanInstallment) =>
+      installments.reduce(
+        (total, installment) => total.add(Money.fromStorage(installment[column] as string, application.currency)),
+        Money.zero(application.currency)
+      );
+    const principal = sum("principal_decimal");
+    const interest = sum("interest_decimal");
+    const penalty = sum("penalty_decimal");
+    const paid = sum("paid_decimal");
+
+    return {
+      installments,
+      principal,
+      interest,
+      penalty,
+      paid,
+      outstanding: principal.add(interest).add(penalty).subtract(paid),
+    };
+  }
+
+  /**
+   * List the amounts collected towards a loan, newest first
+   *
+   * @param applicationId - Loan application
+   * @returns Repayments
+   */
+  static async listRepayments(applicationId: string): Promise<LoanRepayment[]> {
+    return knex("loan_repayments")
+      .where({ application_id: applicationId })
+      .orderBy("created_at", "desc");
+  }
+
+  /**
+   * Accrue late penalties on, and collect, every loan with installments due
+   *
+   * Called periodically by the server. Each loan is handled in its own
+   * transaction, so one failure does not hold up the rest.
+   *
+   * @param now - Reference time (defaults to the current time)
+   * @returns Number of loans money was collected from
+   */
+  static async collectDue(now: Date = new Date()): Promise<number> {
+    const today = startOfUtcDay(now);
+
+    let collected = 0;
+    let afterId = "";
+
+    for (;;) {
+      const due: Array<{ application_id: string }> = await knex("loan_installments")
+        .distinct("application_id")
+        .whereIn("status", ["pending", "overdue"])
+        .where("due_date", "<=", toDateKey(today))
+        .where("application_id", ">", afterId)
+        .orderBy("application_id", "asc")
+        .limit(COLLECTION_BATCH_SIZE);
+
+      for (const { application_id: applicationId } of due) {
+        try {
+          if (await this.collectLoan(applicationId, today)) {
+            collected++;
+          }
+        } catch (error) {
+          logger.error(`Failed to collect loan ${applicationId}:`, error);
+        }
+      }
+
+      if (due.length < COLLECTION_BATCH_SIZE) {
+        break;
+      }
+      afterId = due[due.length - 1]!.application_id;
+    }
+
+    if (collected > 0) {
+      logger.info(`Collected repayments from ${collected} loans`);
+    }
+
+    return collected;
+  }
+
+  /**
+   * Accrue penalties on a loan's overdue installments and collect what is due
+   *
+   * @param applicationId - Disbursed loan
+   * @param today - UTC midnight of the current day
+   * @returns Whether anything was collected
+   */
+  private static async collectLoan(applicationId: string, today: Date): Promise<boolean> {
+    return withTransaction(async (trx) => {
+      const application: LoanApplication | undefined = await trx("loan_applications")
+        .where({ id: applicationId })
+        .first();
+
+      if (!application || application.status !== "disbursed") {
+        return false;
+      }
+
+      const wallet = await WalletService.getWalletByUserId(application.user_id, trx, true, {
+        walletId: application.wallet_id,
+      });
+      if (!wallet) {
+        throw new Error(`Wallet ${application.wallet_id} of loan ${application.id} not found`);
+      }
+
+      const installments: LoanInstallment[] = await trx("loan_installments")
+        .select(installmentColumns(trx))
+        .where({ application_id: application.id })
+        .orderBy("sequence", "asc")
+        .forUpdate();
+
+      const currency = application.currency;
+      const owed = new Map<string, Money>();
+
+      for (const installment of installments) {
+        if (installment.status === "paid" || fromDateKey(installment.due_date) > today) {
+          continue;
+        }
+
+        const penalty = await this.accruePenalty(trx, application, installment, today);
+        owed.set(
+          installment.id,
+          Money.fromStorage(installment.principal_decimal, currency)
+            .add(Money.fromStorage(installment.interest_decimal, currency))
+            .add(penalty)
+            .subtract(Money.fromStorage(installment.paid_decimal, currency))
+        );
+      }
+
+      const due = [...owed.values()].reduce((total, amount) => total.add(amount), Money.zero(currency));
+
+      try {
+        WalletService.assertCanDebit(wallet);
+      } catch (error) {
+        if (error instanceof AppError) {
+          logger.warn(`Loan ${application.id} not collected: ${error.message}`);
+          return false;
+        }
+        throw error;
+      }
+
+      const available = WalletService.availableBalance(wallet).toCurrencyPrecision();
+      const amount = available.lessThan(due) ? available : due;
+
+      if (!amount.isPositive()) {
+        return false;
+      }
+
+      const previous = await trx("loan_repayments")
+        .where({ application_id: application.id })
+        .countDistinct({ debits: "transaction_id" })
+        .first();
+      const reference = `LOAN-${application.id}-REPAY-${Number(previous?.debits ?? 0) + 1}`;
+      const { transaction } = await WalletService.debitWithin(
+        trx,
+        wallet,
+        amount,
+        { loan_application_id: application.id },
+        reference,
+        "Loan repayment"
+      );
+
+      // Oldest installment first
+      let remaining = amount;
+      for (const installment of installments) {
+        const outstanding = owed.get(installment.id);
+        if (!outstanding || !remaining.isPositive()) {
+          continue;
+        }
+
+        const applied = remaining.lessThan(outstanding) ? remaining : outstanding;
+        const paidInFull = applied.equals(outstanding);
+        remaining = remaining.subtract(applied);
+
+        await trx("loan_repayments").insert({
+          id: newId(),
+          application_id: application.id,
+          installment_id: installment.id,
+          transaction_id: transaction.id,
+          amount_decimal: applied.toStorageString(),
+          created_at: trx.fn.now(),
+        });
+        await trx("loan_installments")
+          .where({ id: installment.id })
+          .update({
+            paid_decimal: Money.fromStorage(installment.paid_decimal, currency).add(applied).toStorageString(),
+            ...(paidInFull ? { status: "paid", paid_at: trx.fn.now() } : {}),
+            updated_at: trx.fn.now(),
+          });
+
+        if (paidInFull) {
+          installment.status = "paid";
+        }
+      }
+
+      if (installments.every((installment) => installment.status === "paid")) {
+        await trx("loan_applications")
+          .where({ id: application.id })
+          .update({ status: "repaid", repaid_at: trx.fn.now(), updated_at: trx.fn.now() });
+        logger.info(`Loan ${application.id} repaid`);
+      }
+
+      logger.info(`Collected ${amount} of ${due} due on loan ${application.id} [ref: ${reference}]`);
+
+      return true;
+    });
+  }
+
+  /**
+   * Mark an installment overdue and add its late penalties up to yesterday
+   *
+   * Penalties accrue for each finished day more than LOAN_PENALTY_GRACE_DAYS
+   * after the due date, on the principal and interest still unpaid
+   * (collections pay principal and interest before penalties). Days already
+   * accrued are skipped, so repeated runs never charge a day twice.
+   *
+   * @param trx - Knex transaction (installment locked)
+   * @param application - Loan the installment belongs to
+   * @param installment - Unpaid installment due today or earlier
+   * @param today - UTC midnight of the current day
+   * @returns The installment's penalties after accrual
+   */
+  private static async accruePenalty(
+    trx: Knex.Transaction,
+    application: LoanApplication,
+    installment: LoanInstallment,
+    today: Date
+  ): Promise<Money> {
+    const currency = application.currency;
+    const penalty = Money.fromStorage(installment.penalty_decimal, currency);
+    const dueDate = fromDateKey(installment.due_date);
+
+    if (dueDate >= today) {
+      return penalty;
+    }
+
+    const firstPenaltyDay = new Date(dueDate.getTime() + (config.loans.penaltyGraceDays + 1) * DAY_MS);
+    const start = installment.penalty_accrued_to
+      ? new Date(Math.max(fromDateKey(installment.penalty_accrued_to).getTime() + DAY_MS, firstPenaltyDay.getTime()))
+      : firstPenaltyDay;
+    const days = Math.max(0, Math.round((today.getTime() - start.getTime()) / DAY_MS));
+
+    const unpaid = Money.fromStorage(installment.principal_decimal, currency)
+      .add(Money.fromStorage(installment.interest_decimal, currency))
+      .subtract(Money.fromStorage(installment.paid_decimal, currency));
+    const added =
+      days > 0 && unpaid.isPositive() ? unpaid.basisPoints(application.late_penalty_bps * days) : Money.zero(currency);
+    const total = penalty.add(added);
+
+    if (installment.status === "overdue" && days === 0) {
+      return total;
+    }
+
+    await trx("loan_installments")
+      .where({ id: installment.id })
+      .update({
+        status: "overdue",
+        penalty_decimal: total.toStorageString(),
+        ...(days > 0 ? { penalty_accrued_to: toDateKey(new Date(today.getTime() - DAY_MS)) } : {}),
+        updated_at: trx.fn.now(),
+      });
+
+    if (added.isPositive()) {
+      logger.info(`Late penalty of ${added} (${days} days) on installment ${installment.id} of loan ${application.id}`);
+    }
+
+    return total;
+  }
+}
@@ -0,0 +1,878 @@
+/**
+ * Loan Service
+ *
+ * Loan products and the applications made against them.
+ *
+ * Lifecycle of an application:
+ * 1. apply()     - the user applies for an amount within a product's range;
+ *                  the product's terms (tenor, rate, fee, repayment method
+ *                  and late penalty) are copied onto the application
+ * 2. checks      - run straight away: Adjutor Karma on the user's email and
+ *                  phone number, outstanding loans, and the credits into the
+ *                  disbursement wallet over the last LOAN_HISTORY_DAYS,
+ *                  plus a credit decision (CreditDecisionService) whose
+ *                  limit the amount must not exceed. Any failed check
+ *                  declines the application; a check that could not be
+ *                  made (Karma unavailable) or a referred credit decision
+ *                  refers it to an admin (review); otherwise it is approved
+ * 3. decide()    - an admin approves or declines a referred application
+ * 4. disburse()  - an approved application is paid into the user's wallet
+ *                  through WalletService.fund, less the processing fee, and
+ *                  its repayment schedule is drawn up
+ * 5. repayment   - installments are collected from the wallet by
+ *                  LoanRepaymentService; the last one marks the loan repaid
+ *
+ * Every check's outcome is stored in `decision_reasons`, together with any
+ * admin decision, and the credit decision is stored with its inputs in
+ * `credit_decisions`, so a decision can always be explained. Disbursements use
+ * the reference `LOAN-<id>-DISBURSE`, so a loan can never be paid out twice.
+ *
+ * @module services/loan.service
+ */
+
+import { Knex } from "knex";
+import { knex, newId, withTransaction } from "../db";
+import { config } from "../config/env";
+import { logger } from "../utils/logger";
+import { AppError } from "../middlewares/error";
+import { Money } from "../utils/money";
+import { AdjutorService } from "./adjutor.service";
+import { CreditDecisionService, CreditEvaluation, KarmaLookup } from "./credit-decision.service";
+import { LoanRepaymentService } from "./loan-repayment.service";
+import { UserService, User } from "./user.service";
+import { WalletService, Wallet, Transaction } from "./wallet.service";
+
+/**
+ * Loan application status values
+ */
+export type LoanApplicationStatus = "review" | "approved" | "declined" | "disbursed" | "repaid";
+
+/**
+ * How installments split principal and interest
+ *
+ * - flat: interest on the original amount for the whole tenor, spread evenly
+ * - reducing_balance: level installments (annuity) with interest on the
+ *   principal still owed each month
+ */
+export type LoanRepaymentMethod = "flat" | "reducing_balance";
+
+/**
+ * Outcome of a single check
+ */
+export type LoanCheckOutcome = "pass" | "fail" | "refer";
+
+/**
+ * Admin decision on a referred application
+ */
+export type LoanDecision = "approve" | "decline";
+
+/**
+ * Why an application was decided the way it was
+ */
+export interface LoanDecisionReason {
+  /** Machine-readable code (e.g. KARMA_LISTED) */
+  code: string;
+  outcome: LoanCheckOutcome;
+  message: string;
+}
+
+/**
+ * Loan product record
+ */
+export interface LoanProduct {
+  id: string;
+  name: string;
+  description: string | null;
+  currency: string;
+  min_amount_decimal: string;
+  max_amount_decimal: string;
+  tenor_months: number;
+  interest_rate_bps: number;
+  repayment_method: LoanRepaymentMethod;
+  /** Daily late penalty in basis points of an overdue installment's unpaid amount */
+  late_penalty_bps: number;
+  fee_flat_decimal: string;
+  fee_bps: number;
+  active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * New loan product (request body shape)
+ */
+export interface LoanProductInput {
+  name: string;
+  description?: string | null;
+  currency: string;
+  minAmount: string;
+  maxAmount: string;
+  tenorMonths: number;
+  /** Annual interest rate in basis points */
+  interestRateBps: number;
+  repaymentMethod?: LoanRepaymentMethod;
+  /** Daily late penalty in basis points of the overdue amount */
+  latePenaltyBps?: number;
+  /** Flat processing fee */
+  feeFlat?: string;
+  /** Processing fee in basis points of the amount */
+  feeBps?: number;
+  active?: boolean;
+}
+
+/**
+ * Loan product changes that do not affect pricing
+ */
+export interface LoanProductUpdate {
+  active?: boolean;
+  description?: string | null;
+}
+
+/**
+ * Loan application record
+ */
+export interface LoanApplication {
+  id: string;
+  user_id: string;
+  product_id: string;
+  wallet_id: string;
+  currency: string;
+  amount_decimal: string;
+  fee_decimal: string;
+  tenor_months: number;
+  interest_rate_bps: number;
+  repayment_method: LoanRepaymentMethod;
+  late_penalty_bps: number;
+  purpose: string | null;
+  status: LoanApplicationStatus;
+  decision_reasons: LoanDecisionReason[];
+  adjutor_check_id: string | null;
+  decided_by: string | null;
+  decided_at: Date | null;
+  disbursement_transaction_id: string | null;
+  disbursement_error: string | null;
+  disbursed_at: Date | null;
+  repaid_at: Date | null;
+  /** When the borrower was reported to Adjutor Karma */
+  karma_reported_at: Date | null;
+  /** When the Karma record was removed (after repayment) */
+  karma_removed_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Input for applying for a loan
+ */
+export interface LoanApplicationInput {
+  productId: string;
+  amount: string;
+  purpose?: string;
+}
+
+/**
+ * loan_products row as read from MySQL (booleans come back as 0/1)
+ */
+interface LoanProductRow extends Omit<LoanProduct, "active"> {
+  active: boolean | number;
+}
+
+/**
+ * loan_applications row as read from MySQL (JSON columns may come back as text)
+ */
+interface LoanApplicationRow extends Omit<LoanApplication, "decision_reasons"> {
+  decision_reasons: LoanDecisionReason[] | string;
+}
+
+/**
+ * Result of the automated checks
+ */
+interface LoanAssessment {
+  status: Exclude<LoanApplicationStatus, "disbursed" | "repaid">;
+  reasons: LoanDecisionReason[];
+  adjutorCheckId: string | null;
+  credit: CreditEvaluation;
+}
+
+/**
+ * Applications a user can have only one of at a time
+ */
+const OPEN_STATUSES: LoanApplicationStatus[] = ["review", "approved"];
+
+/**
+ * Loan service class
+ */
+export class LoanService {
+  /**
+   * Normalize a DB row into a LoanProduct
+   *
+   * @param row - Raw loan_products row
+   * @returns Loan product
+   */
+  private static productFromRow(row: LoanProductRow): LoanProduct {
+    return {
+      ...row,
+      active: Boolean(row.active),
+    };
+  }
+
+  /**
+   * Normalize a DB row into a LoanApplication
+   *
+   * @param row - Raw loan_applications row
+   * @returns Loan application
+   */
+  private static applicationFromRow(row: LoanApplicationRow): LoanApplication {
+    return {
+      ...row,
+      decision_reasons:
+        typeof row.decision_reasons === "string" ? JSON.parse(row.decision_reasons) : row.decision_reasons,
+    };
+  }
+
+  /**
+   * List loan products, by name
+   *
+   * @param active - Only active (true) or inactive (false) products; all when undefined
+   * @returns Loan products
+   */
+  static async listProducts(active?: boolean): Promise<LoanProduct[]> {
+    const query = knex("loan_products").orderBy("name", "asc");
+
+    if (active !== undefined) {
+      query.where({ active });
+    }
+
+    const rows: LoanProductRow[] = await query;
+    return rows.map((row) => this.productFromRow(row));
+  }
+
+  /**
+   * Get a loan product
+   *
+   * @param productId - Product ID
+   * @returns Loan product
+   * @throws AppError (404) if the product does not exist
+   */
+  static async getProduct(productId: string): Promise<LoanProduct> {
+    const row = await knex("loan_products").where({ id: productId }).first();
+
+    if (!row) {
+      throw new AppError(404, `Loan product not found: ${productId}`);
+    }
+
+    return this.productFromRow(row);
+  }
+
+  /**
+   * Add a loan product
+   *
+   * @param input - Product definition
+   * @returns Created product
+   *
+   * @throws AppError (400) if the amount range is invalid or the fee leaves nothing to disburse
+   * @throws AppError (409) if a product with the name exists
+   */
+  static async createProduct(input: LoanProductInput): Promise<LoanProduct> {
+    const minAmount = this.parseProductAmount(input.minAmount, input.currency, "minAmount");
+    const maxAmount = this.parseProductAmount(input.maxAmount, input.currency, "maxAmount");
+    const feeFlat = input.feeFlat ? this.parseProductAmount(input.feeFlat, input.currency, "feeFlat") : null;
+    const feeBps = input.feeBps ?? 0;
+
+    if (minAmount.greaterThan(maxAmount)) {
+      throw new AppError(400, "minAmount must not exceed maxAmount");
+    }
+
+    const minFee = (feeFlat ?? Money.zero(input.currency)).add(minAmount.basisPoints(feeBps));
+    if (!minFee.lessThan(minAmount)) {
+      throw new AppError(400, `The processing fee on ${minAmount} would leave nothing to disburse`);
+    }
+
+    const existing = await knex("loan_products").select("id").where({ name: input.name }).first();
+    if (existing) {
+      throw new AppError(409, `A loan product named "${input.name}" already exists`);
+    }
+
+    const id = newId();
+    await knex("loan_products").insert({
+      id,
+      name: input.name,
+      description: input.description ?? null,
+      currency: input.currency,
+      min_amount_decimal: minAmount.toStorageString(),
+      max_amount_decimal: maxAmount.toStorageString(),
+      tenor_months: input.tenorMonths,
+      interest_rate_bps: input.interestRateBps,
+      repayment_method: input.repaymentMethod ?? "reducing_balance",
+      late_penalty_bps: input.latePenaltyBps ?? 0,
+      fee_flat_decimal: feeFlat ? feeFlat.toStorageString() : "0",
+      fee_bps: feeBps,
+      active: input.active ?? true,
+    });
+
+    logger.info(`Created loan product ${id} (${input.name}): ${minAmount}-${maxAmount} over ${input.tenorMonths} months`);
+
+    return this.getProduct(id);
+  }
+
+  /**
+   * Activate, deactivate or describe a loan product
+   *
+   * Pricing cannot change; applications keep the terms they were made on,
+   * so reprice by adding a new product.
+   *
+   * @param productId - Product ID
+   * @param changes - Fields to change
+   * @returns Updated product
+   * @throws AppError (404) if the product does not exist
+   */
+  static async updateProduct(productId: string, changes: LoanProductUpdate): Promise<LoanProduct> {
+    await this.getProduct(productId);
+
+    const values = Object.fromEntries(
+      Object.entries(changes).filter(([, value]) => value !== undefined)
+    );
+
+    await knex("loan_products")
+      .where({ id: productId })
+      .update({ ...values, updated_at: knex.fn.now() });
+
+    logger.info(`Updated loan product ${productId}: ${Object.keys(values).join(", ")}`);
+
+    return this.getProduct(productId);
+  }
+
+  /**
+   * Parse a configured product amount in the product's currency
+   *
+   * @param value - Decimal string
+   * @param currency - Product currency
+   * @param field - Field name for error messages
+   * @returns Money value
+   * @throws AppError (400) if the amount is invalid for the currency
+   */
+  private static parseProductAmount(value: string, currency: string, field: string): Money {
+    try {
+      return Money.parse(value, currency);
+    } catch (error) {
+      throw new AppError(400, `${field}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Processing fee for an amount under a product
+   *
+   * @param product - Loan product
+   * @param amount - Amount borrowed
+   * @returns Flat fee plus the percentage part
+   */
+  static feeFor(product: Pick<LoanProduct, "currency" | "fee_flat_decimal" | "fee_bps">, amount: Money): Money {
+    return Money.fromStorage(product.fee_flat_decimal, product.currency).add(amount.basisPoints(product.fee_bps));
+  }
+
+  /**
+   * Apply for a loan
+   *
+   * The automated checks run straight away; an approved application is
+   * disbursed at once. If the disbursement fails the application stays
+   * approved with the error recorded, for an admin to retry.
+   *
+   * @param userId - Applicant
+   * @param input - Product, amount and purpose
+   * @param now - Current time (start of the wallet history window and of the schedule)
+   * @returns Application after the checks (and disbursement, if approved)
+   *
+   * @throws AppError (400) if the amount is outside the product's range
+   * @throws AppError (403) if the wallet cannot take credits (frozen or closed)
+   * @throws AppError (404) if the product does not exist or the user has no wallet in its currency
+   * @throws AppError (409) if the product is inactive or the user has an application in review or approved
+   */
+  static async apply(userId: string, input: LoanApplicationInput, now: Date = new Date()): Promise<LoanApplication> {
+    const product = await this.getProduct(input.productId);
+
+    if (!product.active) {
+      throw new AppError(409, `Loan product ${product.id} is not accepting applications`);
+    }
+
+    const amount = WalletService.toMoney(input.amount, product.currency);
+    const minAmount = Money.fromStorage(product.min_amount_decimal, product.currency);
+    const maxAmount = Money.fromStorage(product.max_amount_decimal, product.currency);
+    if (amount.lessThan(minAmount) || amount.greaterThan(maxAmount)) {
+      throw new AppError(400, `Amount must be between ${minAmount} and ${maxAmount}`);
+    }
+
+    const wallet = await WalletService.getWalletByUserId(userId, undefined, false, { currency: product.currency });
+    if (!wallet) {
+      throw new AppError(404, `You have no ${product.currency} wallet to receive the loan`);
+    }
+    WalletService.assertCanCredit(wallet);
+
+    await this.assertNoOpenApplication(knex, userId);
+
+    const user = await UserService.getUserById(userId);
+    const assessment = await this.assess(user, wallet, amount, now);
+
+    const id = newId();
+    await withTransaction(async (trx) => {
+      // Serialize a user's applications so two cannot both pass the open check
+      await trx("users").select("id").where({ id: userId }).forUpdate().first();
+      await this.assertNoOpenApplication(trx, userId);
+
+      await trx("loan_applications").insert({
+        id,
+        user_id: userId,
+        product_id: product.id,
+        wallet_id: wallet.id,
+        currency: product.currency,
+        amount_decimal: amount.toStorageString(),
+        fee_decimal: this.feeFor(product, amount).toStorageString(),
+        tenor_months: product.tenor_months,
+        interest_rate_bps: product.interest_rate_bps,
+        repayment_method: product.repayment_method,
+        late_penalty_bps: product.late_penalty_bps,
+        purpose: input.purpose ?? null,
+        status: assessment.status,
+        decision_reasons: JSON.stringify(assessment.reasons),
+        adjutor_check_id: assessment.adjutorCheckId,
+        decided_at: assessment.status === "review" ? null : trx.fn.now(),
+        created_at: trx.fn.now(),
+        updated_at: trx.fn.now(),
+      });
+      await CreditDecisionService.record(trx, assessment.credit, id);
+    });
+
+    logger.info(`Loan application ${id} by ${userId} for ${amount}: ${assessment.status}`);
+
+    if (assessment.status === "approved") {
+      return this.disburseQuietly(id, now);
+    }
+
+    return this.getApplicationById(id);
+  }
+
+  /**
+   * Approve or decline a referred application as an admin
+   *
+   * An approved application is disbursed at once; if that fails it stays
+   * approved with the error recorded.
+   *
+   * @param adminId - Admin making the decision
+   * @param applicationId - Application in review
+   * @param decision - approve or decline
+   * @param reason - Why, recorded with the check outcomes
+   * @param now - Current time (start of the schedule, if approved)
+   * @returns Decided application
+   *
+   * @throws AppError (404) if the application does not exist
+   * @throws AppError (409) if the application is not in review
+   */
+  static async decide(
+    adminId: string,
+    applicationId: string,
+    decision: LoanDecision,
+    reason: string,
+    now: Date = new Date()
+  ): Promise<LoanApplication> {
+    const status: LoanApplicationStatus = decision === "approve" ? "approved" : "declined";
+
+    await withTransaction(async (trx) => {
+      const row = await trx("loan_applications").where({ id: applicationId }).forUpdate().first();
+
+      if (!row) {
+        throw new AppError(404, `Loan application not found: ${applicationId}`);
+      }
+
+      const application = this.applicationFromRow(row);
+      if (application.status !== "review") {
+        throw new AppError(409, `Loan application ${application.id} is ${application.status}`);
+      }
+
+      const reasons: LoanDecisionReason[] = [
+        ...application.decision_reasons,
+        {
+          code: decision === "approve" ? "ADMIN_APPROVED" : "ADMIN_DECLINED",
+          outcome: decision === "approve" ? "pass" : "fail",
+          message: reason,
+        },
+      ];
+
+      await trx("loan_applications")
+        .where({ id: application.id })
+        .update({
+          status,
+          decision_reasons: JSON.stringify(reasons),
+          decided_by: adminId,
+          decided_at: trx.fn.now(),
+          updated_at: trx.fn.now(),
+        });
+    });
+
+    logger.info(`Loan application ${applicationId} ${status} by admin ${adminId}`);
+
+    if (status === "approved") {
+      return this.disburseQuietly(applicationId, now);
+    }
+
+    return this.getApplicationById(applicationId);
+  }
+
+  /**
+   * Pay an approved application into the applicant's wallet
+   *
+   * The wallet is credited with the amount less the processing fee, and
+   * the repayment schedule is drawn up from the day of the payout. A
+   * credit already posted under the application's reference (an earlier
+   * attempt that failed after paying) is reused rather than paid again.
+   *
+   * @param applicationId - Approved application
+   * @param now - Current time (start of the schedule)
+   * @returns Disbursed application
+   *
+   * @throws AppError (404) if the application does not exist
+   * @throws AppError (409) if the application is not approved
+   * @throws Same errors as WalletService.fund() (recorded in disbursement_error)
+   */
+  static async disburse(applicationId: string, now: Date = new Date()): Promise<LoanApplication> {
+    const application = await this.getApplicationById(applicationId);
+
+    if (application.status !== "approved") {
+      throw new AppError(409, `Loan application ${application.id} is ${application.status}`);
+    }
+
+    const reference = `LOAN-${application.id}-DISBURSE`;
+    const net = Money.fromStorage(application.amount_decimal, application.currency).subtract(
+      Money.fromStorage(application.fee_decimal, application.currency)
+    );
+
+    try {
+      const existing: Transaction | undefined = await knex("transactions").where({ reference }).first();
+      const transaction =
+        existing ??
+        (
+          await WalletService.fund(
+            application.user_id,
+            net,
+            { loan_application_id: application.id },
+            { walletId: application.wallet_id },
+            reference
+          )
+        ).transaction;
+
+      await withTransaction(async (trx) => {
+        const updated = await trx("loan_applications")
+          .where({ id: application.id, status: "approved" })
+          .update({
+            status: "disbursed",
+            disbursement_transaction_id: transaction.id,
+            disbursement_error: null,
+            disbursed_at: trx.fn.now(),
+            updated_at: trx.fn.now(),
+          });
+
+        // A concurrent retry that got here first has already drawn up the schedule
+        if (updated > 0) {
+          await LoanRepaymentService.createSchedule(trx, application, now);
+        }
+      });
+    } catch (error) {
+      const message = error instanceof AppError ? error.message : "Disbursement failed";
+      await knex("loan_applications")
+        .where({ id: application.id })
+        .update({ disbursement_error: message.slice(0, 255), updated_at: knex.fn.now() });
+
+      logger.error(`Failed to disburse loan application ${application.id}:`, error);
+      throw error;
+    }
+
+    logger.info(`Disbursed loan application ${application.id}: ${net} to wallet ${application.wallet_id}`);
+
+    return this.getApplicationById(application.id);
+  }
+
+  /**
+   * Get one of the user's applications
+   *
+   * @param userId - Applicant
+   * @param applicationId - Application ID
+   * @returns Application
+   *
+   * @throws AppError (404) if the application does not exist or is someone else's
+   */
+  static async getApplication(userId: string, applicationId: string): Promise<LoanApplication> {
+    const row = await knex("loan_applications").where({ id: applicationId, user_id: userId }).first();
+
+    if (!row) {
+      throw new AppError(404, `Loan application not found: ${applicationId}`);
+    }
+
+    return this.applicationFromRow(row);
+  }
+
+  /**
+   * Get any application (back office)
+   *
+   * @param applicationId - Application ID
+   * @returns Application
+   * @throws AppError (404) if the application does not exist
+   */
+  static async getApplicationById(applicationId: string): Promise<LoanApplication> {
+    const row = await knex("loan_applications").where({ id: applicationId }).first();
+
+    if (!row) {
+      throw new AppError(404, `Loan application not found: ${applicationId}`);
+    }
+
+    return this.applicationFromRow(row);
+  }
+
+  /**
+   * List the user's applications, newest first
+   *
+   * @param userId - Applicant
+   * @param status - Optional status filter
+   * @returns Applications
+   */
+  static async listApplications(userId: string, status?: LoanApplicationStatus): Promise<LoanApplication[]> {
+    const query = knex("loan_applications")
+      .where({ user_id: userId })
+      .orderBy("created_at", "desc");
+
+    if (status) {
+      query.where("status", status);
+    }
+
+    const rows: LoanApplicationRow[] = await query;
+    return rows.map((row) => this.applicationFromRow(row));
+  }
+
+  /**
+   * List all applications for the back office, newest first
+   *
+   * @param status - Optional status filter (e.g. `review`)
+   * @returns Applications
+   */
+  static async listAll(status?: LoanApplicationStatus): Promise<LoanApplication[]> {
+    const query = knex("loan_applications").orderBy("created_at", "desc");
+
+    if (status) {
+      query.where("status", status);
+    }
+
+    const rows: LoanApplicationRow[] = await query;
+    return rows.map((row) => this.applicationFromRow(row));
+  }
+
+  /**
+   * Disburse, leaving a failure recorded on the application instead of thrown
+   *
+   * @param applicationId - Approved application
+   * @param now - Current time (start of the schedule)
+   * @returns Application, disbursed or still approved with disbursement_error set
+   */
+  private static async disburseQuietly(applicationId: string, now: Date): Promise<LoanApplication> {
+    try {
+      return await this.disburse(applicationId, now);
+    } catch {
+      return this.getApplicationById(applicationId);
+    }
+  }
+
+  /**
+   * Reject a new application while another is in review or approved
+   *
+   * @param db - Knex instance or transaction
+   * @param userId - Applicant
+   * @throws AppError (409) if the user has an open application
+   */
+  private static async assertNoOpenApplication(db: Knex | Knex.Transaction, userId: string): Promise<void> {
+    const open = await db("loan_applications")
+      .select("id", "status")
+      .where({ user_id: userId })
+      .whereIn("status", OPEN_STATUSES)
+      .first();
+
+    if (open) {
+      throw new AppError(409, `Loan application ${open.id} is still ${open.status}`);
+    }
+  }
+
+  /**
+   * Run the automated checks on an application
+   *
+   * @param user - Applicant
+   * @param wallet - Wallet the loan would be paid into
+   * @param amount - Amount applied for
+   * @param now - Current time
+   * @returns Decision, the outcome of each check, the Karma check relied on and the credit decision
+   */
+  private static async assess(user: User, wallet: Wallet, amount: Money, now: Date): Promise<LoanAssessment> {
+    const karma = await this.checkKarma(user);
+    const credit = await CreditDecisionService.evaluate(user, wallet, karma.lookup, now);
+    const reasons: LoanDecisionReason[] = [
+      karma.reason,
+      await this.checkOutstandingLoans(user.id),
+      ...(await this.checkWalletHistory(wallet, amount, now)),
+      this.checkCreditDecision(credit, amount),
+    ];
+
+    const status = reasons.some((reason) => reason.outcome === "fail")
+      ? "declined"
+      : reasons.some((reason) => reason.outcome === "refer")
+        ? "review"
+        : "approved";
+
+    return { status, reasons, adjutorCheckId: karma.checkId, credit };
+  }
+
+  /**
+   * Check the user's email and phone number against Adjutor Karma
+   *
+   * Stops at the first listing. The check that decided the outcome is
+   * logged to `adjutor_checks` like the signup check.
+   *
+   * @param user - Applicant
+   * @returns Check outcome, the lookup, and the logged check's ID (null if logging failed)
+   */
+  private static async checkKarma(
+    user: User
+  ): Promise<{ reason: LoanDecisionReason; lookup: KarmaLookup; checkId: string | null }> {
+    const lookup = await CreditDecisionService.lookUpKarma(user);
+    const { result, unavailable } = lookup;
+
+    let checkId: string | null = null;
+    if (result) {
+      try {
+        checkId = await AdjutorService.logCheck(user.id, result.identityType, result.rawResponse, result.isFlagged);
+      } catch (error) {
+        logger.error("Failed to log Adjutor check", error);
+      }
+    }
+
+    if (result?.isFlagged) {
+      const data = result.rawResponse.data;
+      return {
+        reason: {
+          code: "KARMA_LISTED",
+          outcome: "fail",
+          message: `${result.identityType} is on the Karma blacklist (${data?.karma_type.karma ?? "unknown"}, ${data?.amount_in_contention ?? "unknown"} in contention)`,
+        },
+        lookup,
+        checkId,
+      };
+    }
+
+    if (unavailable) {
+      return {
+        reason: { code: "KARMA_UNAVAILABLE", outcome: "refer", message: "Adjutor Karma could not be checked" },
+        lookup,
+        checkId,
+      };
+    }
+
+    return {
+      reason: { code: "KARMA_CLEAR", outcome: "pass", message: "Email and phone number are not on the Karma blacklist" },
+      lookup,
+      checkId,
+    };
+  }
+
+  /**
+   * Check the credit decision and that the amount is within its limit
+   *
+   * A referred decision leaves the limit to the admin reviewing it.
+   *
+   * @param credit - Credit decision for the applicant
+   * @param amount - Amount applied for
+   * @returns Check outcome
+   */
+  private static checkCreditDecision(credit: CreditEvaluation, amount: Money): LoanDecisionReason {
+    const codes = credit.reasons.map((reason) => reason.code).join(", ") || "none";
+    const summary = `score ${credit.score} on scorecard ${credit.version}; reasons: ${codes}`;
+
+    if (credit.decision === "decline") {
+      return { code: "CREDIT_SCORE_DECLINED", outcome: "fail", message: `Credit decision declined (${summary})` };
+    }
+    if (credit.decision === "refer") {
+      return {
+        code: "CREDIT_SCORE_REFER",
+        outcome: "refer",
+        message: `Credit decision referred with a limit of ${credit.limit} (${summary})`,
+      };
+    }
+    if (amount.greaterThan(credit.limit)) {
+      return {
+        code: "CREDIT_LIMIT_EXCEEDED",
+        outcome: "fail",
+        message: `${amount} is above the credit limit of ${credit.limit} (${summary})`,
+      };
+    }
+
+    return {
+      code: "CREDIT_SCORE",
+      outcome: "pass",
+      message: `Credit decision approved with a limit of ${credit.limit} (${summary})`,
+    };
+  }
+
+  /**
+   * Check that the user has no loan paid out and not yet repaid
+   *
+   * @param userId - Applicant
+   * @returns Check outcome
+   */
+  private static async checkOutstandingLoans(userId: string): Promise<LoanDecisionReason> {
+    const outstanding = await knex("loan_applications")
+      .select("id")
+      .where({ user_id: userId, status: "disbursed" })
+      .first();
+
+    return outstanding
+      ? { code: "OUTSTANDING_LOAN", outcome: "fail", message: `Loan ${outstanding.id} is still outstanding` }
+      : { code: "NO_OUTSTANDING_LOAN", outcome: "pass", message: "No outstanding loans" };
+  }
+
+  /**
+   * Check the credits into the wallet over the last LOAN_HISTORY_DAYS
+   *
+   * Funding and incoming transfers count; earlier loan disbursements do not.
+   *
+   * @param wallet - Wallet the loan would be paid into
+   * @param amount - Amount applied for
+   * @param now - Current time
+   * @returns Outcomes of the credit count and inflow checks
+   */
+  private static async checkWalletHistory(wallet: Wallet, amount: Money, now: Date): Promise<LoanDecisionReason[]> {
+    const { historyDays, minCredits, minInflowPercent } = config.loans;
+    const since = new Date(now.getTime() - historyDays * 86400 * 1000);
+
+    const row = await knex("transactions")
+      .where({ wallet_id: wallet.id })
+      .whereIn("type", ["credit", "transfer-in"])
+      .where("created_at", ">=", since)
+      .whereNot("reference", "like", "LOAN-%")
+      .count({ credits: "*" })
+      .sum({ inflow: "amount_decimal" })
+      .first();
+
+    const credits = Number(row?.credits ?? 0);
+    const inflow = row?.inflow ? Money.fromStorage(String(row.inflow), wallet.currency) : Money.zero(wallet.currency);
+    const requiredInflow = amount.basisPoints(minInflowPercent * 100);
+
+    return [
+      credits >= minCredits
+        ? { code: "CREDIT_HISTORY", outcome: "pass", message: `${credits} credits in the last ${historyDays} days` }
+        : {
+            code: "THIN_CREDIT_HISTORY",
+            outcome: "fail",
+            message: `${credits} credits in the last ${historyDays} days; at least ${minCredits} needed`,
+          },
+      inflow.lessThan(requiredInflow)
+        ? {
+            code: "LOW_INFLOW",
+            outcome: "fail",
+            message: `${inflow} received in the last ${historyDays} days; at least ${requiredInflow} needed`,
+          }
+        : { code: "SUFFICIENT_INFLOW", outcome: "pass", message: `${inflow} received in the last ${historyDays} days` },
+    ];
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * Login Attempt Service
+ *
+ * Throttles password guessing. Every failed password login is recorded
+ * against the account tried and the IP address it came from. Once an
+ * account has LOGIN_ACCOUNT_ATTEMPT_LIMIT failures, or an address
+ * LOGIN_IP_ATTEMPT_LIMIT, within LOGIN_ATTEMPT_WINDOW_SECONDS, password
+ * logins for it are refused (even with the right password) until the
+ * window moves on.
+ *
+ * The account is the matching user's ID, or the email address or phone
+ * number tried when no user matches, so the limit behaves the same for
+ * unknown identifiers and does not reveal who has an account. A successful
+ * login clears the account's failures; an address's failures only age out.
+ *
+ * @module services/login-attempt.service
+ */
+
+import { knex, newId } from "../db";
+import { config } from "../config/env";
+import { logger } from "../utils/logger";
+import { AppError } from "../middlewares/error";
+
+/**
+ * Login attempt service class
+ */
+export class LoginAttemptService {
+  /**
+   * Refuse a password login while the account or address is throttled
+   *
+   * @param account - User ID, or the identifier tried when no user matches
+   * @param ipAddress - Address the login comes from (not checked if unknown)
+   * @param now - Current time (defaults to the current time)
+   * @throws AppError (429) if either has too many recent failures
+   */
+  static async assertAllowed(
+    account: string,
+    ipAddress: string | undefined,
+    now: Date = new Date()
+  ): Promise<void> {
+    const { loginAccountAttemptLimit, loginIpAttemptLimit } = config.auth;
+
+    const throttled =
+      (await this.failuresSince("account", account, now)) >= loginAccountAttemptLimit ||
+      (ipAddress !== undefined &&
+        (await this.failuresSince("ip_address", ipAddress, now)) >= loginIpAttemptLimit);
+
+    if (throttled) {
+      throw new AppError(429, "Too many failed login attempts; try again later");
+    }
+  }
+
+  /**
+   * Record a failed password login
+   *
+   * @param account - User ID, or the identifier tried when no user matches
+   * @param ipAddress - Address the login came from
+   * @param now - Current time (defaults to the current time)
+   */
+  static async recordFailure(
+    account: string,
+    ipAddress: string | undefined,
+    now: Date = new Date()
+  ): Promise<void> {
+    await knex("login_attempts").insert({
+      id: newId(),
+      account,
+      ip_address: ipAddress ?? null,
+      created_at: now,
+    });
+
+    logger.info(`Failed password login for ${account} from ${ipAddress ?? "unknown address"}`);
+  }
+
+  /**
+   * Forget an account's failures after a successful login
+   *
+   * @param account - User ID
+   */
+  static async clear(account: string): Promise<void> {
+    await knex("login_attempts").where({ account }).delete();
+  }
+
+  /**
+   * Delete failures older than the window
+   *
+   * @param now - Current time (defaults to the current time)
+   * @returns Number of deleted records
+   */
+  static async purgeExpired(now: Date = new Date()): Promise<number> {
+    const deleted = await knex("login_attempts")
+      .where("created_at", "<=", this.windowStart(now))
+      .delete();
+
+    if (deleted > 0) {
+      logger.info(`Purged ${deleted} expired failed login attempts`);
+    }
+
+    return deleted;
+  }
+
+  /**
+   * Count failures within the window
+   *
+   * @param column - `account` or `ip_address`
+   * @param value - Account or address
+   * @param now - Current time
+   * @returns Number of failures
+   */
+  private static async failuresSince(
+    column: "account" | "ip_address",
+    value: string,
+    now: Date
+  ): Promise<number> {
+    const row = await knex("login_attempts")
+      .where(column, value)
+      .where("created_at", ">", this.windowStart(now))
+      .count({ count: "*" })
+      .first();
+
+    return Number(row?.count ?? 0);
+  }
+
+  /**
+   * Start of the window the limits apply to
+   *
+   * @param now - Current time
+   * @returns Oldest time a failure still counts from
+   */
+  private static windowStart(now: Date): Date {
+    return new Date(now.getTime() - config.auth.loginAttemptWindowSeconds * 1000);
+  }
+}
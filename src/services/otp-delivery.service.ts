@@ -0,0 +1,148 @@
+/**
+ * OTP Delivery Service
+ *
+ * Sends login codes to users through a small delivery interface, so an
+ * email or SMS gateway can be plugged in without touching the login flow.
+ * Two stand-ins for local use ship with the service:
+ *
+ * - `console`: prints each code to the server console
+ * - `file`: appends each code as a JSON line to OTP_DELIVERY_FILE
+ *
+ * OTP_DELIVERY picks the adapter; tests (or a real gateway wired in at
+ * startup) can swap in their own with OtpDeliveryService.setDelivery().
+ * With OTP_DELIVERY=none (the only value allowed in production) there is
+ * no adapter until one is set, and one-time code login is unavailable.
+ *
+ * @module services/otp-delivery.service
+ */
+
+import { appendFile } from "fs/promises";
+import { config } from "../config/env";
+import { logger } from "../utils/logger";
+
+/**
+ * Channel a login code is sent over
+ */
+export type OtpChannel = "email" | "phone";
+
+/**
+ * A login code to deliver
+ */
+export interface OtpMessage {
+  channel: OtpChannel;
+  /** Email address or phone number */
+  destination: string;
+  code: string;
+  expiresAt: Date;
+}
+
+/**
+ * Delivers login codes
+ */
+export interface OtpDelivery {
+  /** Adapter name */
+  readonly name: string;
+
+  /**
+   * Send a code
+   *
+   * @param message - Code and where to send it
+   * @throws Error if the code could not be sent
+   */
+  deliver(message: OtpMessage): Promise<void>;
+}
+
+/**
+ * Prints codes to the server console
+ */
+export class ConsoleOtpDelivery implements OtpDelivery {
+  readonly name = "console";
+
+  async deliver(message: OtpMessage): Promise<void> {
+    console.log(
+      `🔑 Login code for ${message.channel} ${message.destination}: ${message.code} ` +
+        `(expires ${message.expiresAt.toISOString()})`
+    );
+  }
+}
+
+/**
+ * Appends codes to a file, one JSON object per line
+ */
+export class FileOtpDelivery implements OtpDelivery {
+  readonly name = "file";
+
+  /**
+   * @param file - Path of the file to append to (created if missing)
+   */
+  constructor(private readonly file: string) {}
+
+  async deliver(message: OtpMessage): Promise<void> {
+    const line = JSON.stringify({
+      channel: message.channel,
+      destination: message.destination,
+      code: message.code,
+      expires_at: message.expiresAt.toISOString(),
+      sent_at: new Date().toISOString(),
+    });
+
+    await appendFile(this.file, `${line}\n`, "utf8");
+  }
+}
+
+/**
+ * OTP delivery service class
+ */
+export class OtpDeliveryService {
+  private static delivery: OtpDelivery | null = null;
+
+  /**
+   * Get the configured adapter (created on first use)
+   *
+   * @returns Delivery adapter, or null if none is set and OTP_DELIVERY is none
+   */
+  static getDelivery(): OtpDelivery | null {
+    if (!this.delivery && config.auth.otpDelivery === "file") {
+      this.delivery = new FileOtpDelivery(config.auth.otpDeliveryFile);
+    } else if (!this.delivery && config.auth.otpDelivery === "console") {
+      logger.warn("OTP_DELIVERY is 'console': login codes are printed to the server console");
+      this.delivery = new ConsoleOtpDelivery();
+    }
+
+    return this.delivery;
+  }
+
+  /**
+   * Check whether login codes can be sent
+   *
+   * @returns true if an adapter is set or configured
+   */
+  static isAvailable(): boolean {
+    return this.getDelivery() !== null;
+  }
+
+  /**
+   * Replace the adapter (tests, or a real gateway wired in at startup)
+   *
+   * @param delivery - Adapter to use, or null to fall back to configuration
+   */
+  static setDelivery(delivery: OtpDelivery | null): void {
+    this.delivery = delivery;
+  }
+
+  /**
+   * Send a login code
+   *
+   * @param message - Code and where to send it
+   * @throws Error if there is no adapter or it could not send the code
+   */
+  static async send(message: OtpMessage): Promise<void> {
+    const delivery = this.getDelivery();
+
+    if (!delivery) {
+      throw new Error("No OTP delivery adapter is set");
+    }
+
+    return delivery.deliver(message);
+  }
+}
@@ -0,0 +1,181 @@
+/**
+ * OTP Service
+ *
+ * One-time login codes for passwordless login.
+ *
+ * - issue():  generates a random numeric code of OTP_LENGTH digits, stores
+ *             only its HMAC, and sends it through OtpDeliveryService. A new
+ *             code replaces any earlier one the user has not used. A user
+ *             can request OTP_REQUEST_LIMIT codes per
+ *             OTP_REQUEST_WINDOW_SECONDS, since every new code comes with
+ *             a fresh set of attempts.
+ * - verify(): checks a code against the user's current one. Each wrong
+ *             code counts against OTP_MAX_ATTEMPTS; once they are used up,
+ *             or after OTP_TTL_SECONDS, the code stops working and a new
+ *             one must be requested. A code can be used once.
+ *
+ * Attempts are claimed with a conditional update before the code is
+ * compared, so concurrent guesses cannot exceed the limit.
+ *
+ * @module services/otp.service
+ */
+
+import { createHmac, randomInt, timingSafeEqual } from "crypto";
+import { knex, newId } from "../db";
+import { config } from "../config/env";
+import { logger } from "../utils/logger";
+import { AppError } from "../middlewares/error";
+import { OtpDeliveryService, OtpChannel } from "./otp-delivery.service";
+
+/**
+ * Stored login code
+ */
+export interface LoginOtp {
+  id: string;
+  user_id: string;
+  channel: OtpChannel;
+  destination: string;
+  code_hash: string;
+  attempts: number;
+  expires_at: Date;
+  consumed_at: Date | null;
+  created_at: Date;
+}
+
+/**
+ * A code that has been sent
+ */
+export interface IssuedOtp {
+  id: string;
+  channel: OtpChannel;
+  expiresAt: Date;
+}
+
+/**
+ * HMAC of a code, bound to the stored code it belongs to
+ */
+function hashCode(otpId: string, code: string): string {
+  return createHmac("sha256", config.hmacSecret).update(`${otpId}:${code}`).digest("hex");
+}
+
+/**
+ * OTP service class
+ */
+export class OtpService {
+  /**
+   * Generate a random numeric code
+   *
+   * @returns Code of OTP_LENGTH digits (leading zeros kept)
+   */
+  static generateCode(): string {
+    return randomInt(0, 10 ** config.auth.otpLength)
+      .toString()
+      .padStart(config.auth.otpLength, "0");
+  }
+
+  /**
+   * Issue a login code and send it
+   *
+   * @param userId - User logging in
+   * @param channel - Channel to send it over
+   * @param destination - Email address or phone number
+   * @param now - Current time (defaults to the current time)
+   * @returns The code's ID, channel and expiry
+   * @throws AppError (429) if the user has requested too many codes recently
+   * @throws AppError (502) if the code could not be sent
+   */
+  static async issue(
+    userId: string,
+    channel: OtpChannel,
+    destination: string,
+    now: Date = new Date()
+  ): Promise<IssuedOtp> {
+    const id = newId();
+    const code = this.generateCode();
+    const expiresAt = new Date(now.getTime() + config.auth.otpTtlSeconds * 1000);
+    const windowStart = new Date(now.getTime() - config.auth.otpRequestWindowSeconds * 1000);
+
+    const recent = await knex("login_otps")
+      .where({ user_id: userId })
+      .where("created_at", ">", windowStart)
+      .count({ count: "*" })
+      .first();
+
+    if (Number(recent?.count ?? 0) >= config.auth.otpRequestLimit) {
+      throw new AppError(429, "Too many login codes requested; try again later");
+    }
+
+    // A new code replaces any earlier one
+    await knex("login_otps")
+      .where({ user_id: userId, consumed_at: null })
+      .where("expires_at", ">", now)
+      .update({ expires_at: now });
+
+    await knex("login_otps").insert({
+      id,
+      user_id: userId,
+      channel,
+      destination,
+      code_hash: hashCode(id, code),
+      attempts: 0,
+      expires_at: expiresAt,
+      consumed_at: null,
+      created_at: now,
+    });
+
+    try {
+      await OtpDeliveryService.send({ channel, destination, code, expiresAt });
+    } catch (error) {
+      logger.error(`Failed to send login code ${id}`, error);
+      throw new AppError(502, "The login code could not be sent; try again later");
+    }
+
+    logger.info(`Login code ${id} sent to user ${userId} by ${channel}`);
+
+    return { id, channel, expiresAt };
+  }
+
+  /**
+   * Check a login code and use it up
+   *
+   * @param userId - User logging in
+   * @param code - Code entered
+   * @param now - Current time (defaults to the current time)
+   * @throws AppError (401) if there is no current code or the code is wrong
+   * @throws AppError (429) if the code's attempts are used up
+   */
+  static async verify(userId: string, code: string, now: Date = new Date()): Promise<void> {
+    const otp: LoginOtp | undefined = await knex("login_otps")
+      .where({ user_id: userId, consumed_at: null })
+      .where("expires_at", ">", now)
+      .orderBy("created_at", "desc")
+      .first();
+
+    if (!otp) {
+      throw new AppError(401, "Invalid or expired code");
+    }
+
+    const claimed = await knex("login_otps")
+      .where({ id: otp.id, consumed_at: null })
+      .where("attempts", "<", config.auth.otpMaxAttempts)
+      .increment("attempts", 1);
+
+    if (!claimed) {
+      throw new AppError(429, "Too many wrong codes; request a new one");
+    }
+
+    const expected = Buffer.from(otp.code_hash, "hex");
+    const actual = Buffer.from(hashCode(otp.id, code), "hex");
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      throw new AppError(401, "Invalid or expired code");
+    }
+
+    const consumed = await knex("login_otps")
+      .where({ id: otp.id, consumed_at: null })
+      .update({ consumed_at: now });
+
+    if (!consumed) {
+      throw new AppError(401, "Invalid or expired code");
+    }
+  }
+}
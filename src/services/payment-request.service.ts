@@ -0,0 +1,442 @@
+/**
+ * Payment Request Service
+ *
+ * Request-to-pay between users: a requester asks a payer for an amount,
+ * and the payer settles it with an ordinary transfer or turns it down.
+ * This replaces the "request" keys clients used to put in transfer
+ * metadata; the transfer that pays a request carries its ID instead.
+ *
+ * Lifecycle of a request:
+ * 1. create()  - the requester asks the payer for an amount (pending)
+ * 2. accept()  - the payer pays it; the transfer is made in the same DB
+ *                transaction that marks the request `paid`
+ * 3. decline() - the payer turns it down
+ * 4. cancel()  - the requester withdraws it
+ * 5. expire    - pending requests past `expires_at` are expired by
+ *                expireDue()
+ *
+ * Only pending requests can change state. The paying transfer has the
+ * reference `PAYREQ-<request id>`, so a request can never be paid twice.
+ *
+ * @module services/payment-request.service
+ */
+
+import { Knex } from "knex";
+import { knex, newId, withTransaction } from "../db";
+import { config } from "../config/env";
+import { DEFAULT_CURRENCY } from "../config/currencies";
+import { FeeChannel } from "../config/fees";
+import { logger } from "../utils/logger";
+import { AppError } from "../middlewares/error";
+import { Money } from "../utils/money";
+import { UserService } from "./user.service";
+import { WalletService, TransferResult } from "./wallet.service";
+
+/**
+ * Payment request status values
+ */
+export type PaymentRequestStatus = "pending" | "paid" | "declined" | "expired" | "cancelled";
+
+/**
+ * Payment request record
+ */
+export interface PaymentRequest {
+  id: string;
+  requester_user_id: string;
+  payer_user_id: string;
+  currency: string;
+  amount_decimal: string;
+  note: string | null;
+  status: PaymentRequestStatus;
+  expires_at: Date;
+  transfer_id: string | null;
+  responded_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Input for creating a payment request
+ */
+export interface CreatePaymentRequestInput {
+  /** Payer's user ID */
+  payerUserId?: string;
+  /** Payer's email, phone number or handle (instead of payerUserId) */
+  payer?: string;
+  amount: string;
+  /** Currency of both wallets (default: DEFAULT_CURRENCY) */
+  currency?: string;
+  note?: string;
+  /** When the request lapses (default: PAYMENT_REQUEST_EXPIRY_HOURS from now) */
+  expiresAt?: string | Date;
+}
+
+/**
+ * Result of paying a request
+ */
+export interface AcceptPaymentRequestResult {
+  paymentRequest: PaymentRequest;
+  transfer: TransferResult;
+}
+
+/**
+ * Which side of a request a user is on
+ */
+export type PaymentRequestDirection = "incoming" | "outgoing";
+
+/**
+ * Maximum number of requests expired per sweep
+ */
+const EXPIRY_BATCH_SIZE = 100;
+
+/**
+ * Payment request service class
+ */
+export class PaymentRequestService {
+  /**
+   * Ask another user for money
+   *
+   * @param requesterId - User to be paid
+   * @param input - Payer, amount, note and expiry
+   * @param now - Current time
+   * @returns Created request
+   *
+   * @throws AppError (400) if the payer is the requester, or the amount or expiry is invalid
+   * @throws AppError (404) if the payer does not exist, or either user has no wallet in the currency
+   */
+  static async create(
+    requesterId: string,
+    input: CreatePaymentRequestInput,
+    now: Date = new Date()
+  ): Promise<PaymentRequest> {
+    const payerUserId = input.payerUserId ?? (await UserService.resolveRecipient(input.payer ?? "")).user.id;
+
+    if (payerUserId === requesterId) {
+      throw new AppError(400, "Cannot request money from yourself");
+    }
+
+    const currency = input.currency ?? DEFAULT_CURRENCY;
+    const money = WalletService.toMoney(input.amount, currency);
+    const expiresAt = this.resolveExpiry(input.expiresAt, now);
+
+    const [wallet, payerWallet] = await Promise.all([
+      WalletService.getWalletByUserId(requesterId, undefined, false, { currency }),
+      WalletService.getWalletByUserId(payerUserId, undefined, false, { currency }),
+    ]);
+
+    if (!wallet) {
+      throw new AppError(404, `Wallet not found for user: ${requesterId}`);
+    }
+    if (!payerWallet) {
+      throw new AppError(404, `Payer has no ${currency} wallet`);
+    }
+
+    const id = newId();
+    await knex("payment_requests").insert({
+      id,
+      requester_user_id: requesterId,
+      payer_user_id: payerUserId,
+      currency,
+      amount_decimal: money.toStorageString(),
+      note: input.note ?? null,
+      status: "pending",
+      expires_at: expiresAt,
+      created_at: knex.fn.now(),
+      updated_at: knex.fn.now(),
+    });
+
+    logger.info(`Payment request ${id} created: ${requesterId} asked ${payerUserId} for ${money}`);
+
+    return this.getRequest(requesterId, id);
+  }
+
+  /**
+   * Pay a request
+   *
+   * The transfer goes from the payer's to the requester's wallet in the
+   * request currency, with the usual fees and limits, and carries the
+   * request ID and note in its metadata.
+   *
+   * @param payerId - Paying user
+   * @param requestId - Request to pay
+   * @param channel - Channel the request came through (selects the fee rule)
+   * @returns Paid request and the transfer
+   *
+   * @throws AppError (404) if the user is not the payer of the request
+   * @throws AppError (409) if the request is no longer pending or has expired
+   * @throws Same errors as WalletService.transfer()
+   */
+  static async accept(
+    payerId: string,
+    requestId: string,
+    channel?: FeeChannel
+  ): Promise<AcceptPaymentRequestResult> {
+    return withTransaction(async (trx) => {
+      const request = await this.lockRequest(trx, requestId, { payer_user_id: payerId });
+
+      // Left for expireDue() to settle; this transaction is rolled back
+      if (this.isPastExpiry(request)) {
+        throw new AppError(409, `Payment request ${request.id} has expired`);
+      }
+
+      const transfer = await WalletService.transferWithin(
+        trx,
+        payerId,
+        request.requester_user_id,
+        Money.fromStorage(request.amount_decimal, request.currency),
+        { payment_request_id: request.id, note: request.note },
+        { currency: request.currency },
+        channel,
+        `PAYREQ-${request.id}`
+      );
+
+      await this.respond(trx, request.id, "paid", transfer.transfer.id);
+
+      logger.info(`Payment request ${request.id} paid by ${payerId} (${transfer.reference})`);
+
+      const paymentRequest = await trx("payment_requests").where({ id: request.id }).first();
+      return { paymentRequest, transfer };
+    });
+  }
+
+  /**
+   * Turn down a request
+   *
+   * A request that is already past its expiry is marked `expired` instead.
+   *
+   * @param payerId - User asked to pay
+   * @param requestId - Request to decline
+   * @returns Declined request
+   *
+   * @throws AppError (404) if the user is not the payer of the request
+   * @throws AppError (409) if the request is no longer pending
+   */
+  static async decline(payerId: string, requestId: string): Promise<PaymentRequest> {
+    return this.close(requestId, { payer_user_id: payerId }, "declined");
+  }
+
+  /**
+   * Withdraw a request
+   *
+   * A request that is already past its expiry is marked `expired` instead.
+   *
+   * @param requesterId - User who made the request
+   * @param requestId - Request to cancel
+   * @returns Cancelled request
+   *
+   * @throws AppError (404) if the user did not make the request
+   * @throws AppError (409) if the request is no longer pending
+   */
+  static async cancel(requesterId: string, requestId: string): Promise<PaymentRequest> {
+    return this.close(requestId, { requester_user_id: requesterId }, "cancelled");
+  }
+
+  /**
+   * Expire pending requests whose expiry has passed
+   *
+   * Called periodically by the server.
+   *
+   * @param now - Reference time (defaults to the current time)
+   * @returns Number of requests expired
+   */
+  static async expireDue(now: Date = new Date()): Promise<number> {
+    const due: Array<{ id: string }> = await knex("payment_requests")
+      .select("id")
+      .where({ status: "pending" })
+      .where("expires_at", "<=", now)
+      .orderBy("expires_at", "asc")
+      .limit(EXPIRY_BATCH_SIZE);
+
+    if (due.length === 0) {
+      return 0;
+    }
+
+    // The status check skips requests answered since they were selected
+    const expired: number = await knex("payment_requests")
+      .whereIn(
+        "id",
+        due.map(({ id }) => id)
+      )
+      .where({ status: "pending" })
+      .update({
+        status: "expired",
+        responded_at: now,
+        updated_at: knex.fn.now(),
+      });
+
+    if (expired > 0) {
+      logger.info(`Expired ${expired} payment requests`);
+    }
+
+    return expired;
+  }
+
+  /**
+   * Get a request the user made or was asked to pay
+   *
+   * @param userId - Requester or payer
+   * @param requestId - Request ID
+   * @returns Request
+   *
+   * @throws AppError (404) if the user is on neither side of the request
+   */
+  static async getRequest(userId: string, requestId: string): Promise<PaymentRequest> {
+    const request = await knex("payment_requests")
+      .where({ id: requestId })
+      .where((query) => {
+        query.where({ requester_user_id: userId }).orWhere({ payer_user_id: userId });
+      })
+      .first();
+
+    if (!request) {
+      throw new AppError(404, `Payment request not found: ${requestId}`);
+    }
+
+    return request;
+  }
+
+  /**
+   * List requests a user was asked to pay, or made, newest first
+   *
+   * @param userId - User
+   * @param direction - `incoming` (user is the payer) or `outgoing` (user is the requester)
+   * @param status - Optional status filter
+   * @returns Requests
+   */
+  static async listRequests(
+    userId: string,
+    direction: PaymentRequestDirection,
+    status?: PaymentRequestStatus
+  ): Promise<PaymentRequest[]> {
+    const column = direction === "incoming" ? "payer_user_id" : "requester_user_id";
+    const query = knex("payment_requests")
+      .where(column, userId)
+      .orderBy("created_at", "desc");
+
+    if (status) {
+      query.where("status", status);
+    }
+
+    return query;
+  }
+
+  /**
+   * Decline or cancel a pending request
+   *
+   * A request that is already past its expiry is marked `expired` instead.
+   *
+   * @param requestId - Request ID
+   * @param owner - Column identifying the user allowed to do this
+   * @param status - Final status
+   * @returns Updated request
+   */
+  private static async close(
+    requestId: string,
+    owner: Partial<Pick<PaymentRequest, "requester_user_id" | "payer_user_id">>,
+    status: "declined" | "cancelled"
+  ): Promise<PaymentRequest> {
+    return withTransaction(async (trx) => {
+      const request = await this.lockRequest(trx, requestId, owner);
+      const final = this.isPastExpiry(request) ? "expired" : status;
+
+      await this.respond(trx, request.id, final);
+
+      logger.info(`Payment request ${request.id} ${final}`);
+
+      return trx("payment_requests").where({ id: request.id }).first();
+    });
+  }
+
+  /**
+   * Lock a pending request belonging to a user
+   *
+   * @param trx - Knex transaction
+   * @param requestId - Request ID
+   * @param owner - Column identifying the user allowed to act on it
+   * @returns Locked request
+   *
+   * @throws AppError (404) if the user may not act on the request
+   * @throws AppError (409) if the request is no longer pending
+   */
+  private static async lockRequest(
+    trx: Knex.Transaction,
+    requestId: string,
+    owner: Partial<Pick<PaymentRequest, "requester_user_id" | "payer_user_id">>
+  ): Promise<PaymentRequest> {
+    const request: PaymentRequest | undefined = await trx("payment_requests")
+      .where({ id: requestId, ...owner })
+      .forUpdate()
+      .first();
+
+    if (!request) {
+      throw new AppError(404, `Payment request not found: ${requestId}`);
+    }
+
+    if (request.status !== "pending") {
+      throw new AppError(409, `Payment request ${request.id} is already ${request.status}`);
+    }
+
+    return request;
+  }
+
+  /**
+   * Move a locked pending request to its final status
+   *
+   * @param trx - Knex transaction
+   * @param requestId - Request ID
+   * @param status - Final status
+   * @param transferId - Paying transfer (paid only)
+   */
+  private static async respond(
+    trx: Knex.Transaction,
+    requestId: string,
+    status: Exclude<PaymentRequestStatus, "pending">,
+    transferId: string | null = null
+  ): Promise<void> {
+    await trx("payment_requests")
+      .where({ id: requestId })
+      .update({
+        status,
+        transfer_id: transferId,
+        responded_at: trx.fn.now(),
+        updated_at: trx.fn.now(),
+      });
+  }
+
+  /**
+   * Work out when a new request expires
+   *
+   * @param expiresAt - Requested expiry, if any
+   * @param now - Current time
+   * @returns Expiry time
+   *
+   * @throws AppError (400) if the expiry is not in the future or too far ahead
+   */
+  private static resolveExpiry(expiresAt: string | Date | undefined, now: Date): Date {
+    if (expiresAt === undefined) {
+      return new Date(now.getTime() + config.paymentRequests.defaultExpiryHours * 3600 * 1000);
+    }
+
+    const expiry = new Date(expiresAt);
+    if (Number.isNaN(expiry.getTime()) || expiry <= now) {
+      throw new AppError(400, "expiresAt must be in the future");
+    }
+
+    const maxDays = config.paymentRequests.maxExpiryDays;
+    if (expiry.getTime() > now.getTime() + maxDays * 86400 * 1000) {
+      throw new AppError(400, `expiresAt must be within ${maxDays} days`);
+    }
+
+    return expiry;
+  }
+
+  /**
+   * Whether a request's expiry has passed
+   *
+   * @param request - Request
+   * @returns True if the request can no longer be answered
+   */
+  private static isPastExpiry(request: PaymentRequest): boolean {
+    return new Date(request.expires_at).getTime() <= Date.now();
+  }
+}
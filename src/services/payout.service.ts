@@ -0,0 +1,674 @@
+/**
+ * Payout Service
+ *
+ * Bulk payouts: one wallet paying many recipients from a single JSON or
+ * CSV upload.
+ *
+ * Lifecycle of a batch:
+ * 1. validate - every row is checked before anything moves: recipient
+ *               format, amount, no self-payments, no duplicated recipients,
+ *               every recipient has a wallet in the currency, and the total
+ *               (amounts plus fees) fits the available balance. Any problem
+ *               rejects the whole upload with the list of bad rows.
+ * 2. record   - the batch and its rows are stored as `processing`/`pending`
+ * 3. execute  - `all_or_nothing`: every row is paid inside one DB
+ *               transaction; the first failure rolls the batch back
+ *               (`failed`, the failing row `failed`, the rest `skipped`).
+ *               `best_effort`: each row is its own transfer; failures are
+ *               recorded per row and the rest carry on.
+ *
+ * Each row is an ordinary transfer with reference `PAYOUT-<batch id>-<row>`,
+ * so fees and tier limits apply per row and a row can never be paid twice.
+ *
+ * @module services/payout.service
+ */
+
+import { Knex } from "knex";
+import { knex, newId, withTransaction } from "../db";
+import { config } from "../config/env";
+import { DEFAULT_CURRENCY } from "../config/currencies";
+import { FeeChannel } from "../config/fees";
+import { logger } from "../utils/logger";
+import { AppError, BatchValidationError, RowError } from "../middlewares/error";
+import { Money } from "../utils/money";
+import { parseCsv, toCsv } from "../utils/csv";
+import { FeeService } from "./fee.service";
+import { WalletService, Wallet, TransferResult } from "./wallet.service";
+
+/**
+ * Execution semantics of a batch
+ */
+export type PayoutMode = "all_or_nothing" | "best_effort";
+
+/**
+ * Batch status values
+ */
+export type PayoutBatchStatus = "processing" | "completed" | "partially_completed" | "failed";
+
+/**
+ * Row status values
+ */
+export type PayoutItemStatus = "pending" | "succeeded" | "failed" | "skipped";
+
+/**
+ * Payout batch record
+ */
+export interface PayoutBatch {
+  id: string;
+  user_id: string;
+  wallet_id: string;
+  currency: string;
+  channel: FeeChannel;
+  mode: PayoutMode;
+  status: PayoutBatchStatus;
+  item_count: number;
+  total_decimal: string;
+  succeeded_count: number;
+  failed_count: number;
+  paid_decimal: string;
+  fee_decimal: string;
+  error: string | null;
+  metadata: any;
+  created_at: Date;
+  updated_at: Date;
+  completed_at: Date | null;
+}
+
+/**
+ * Payout row record
+ */
+export interface PayoutItem {
+  id: string;
+  batch_id: string;
+  row_number: number;
+  recipient_user_id: string;
+  amount_decimal: string;
+  narration: string | null;
+  reference: string;
+  status: PayoutItemStatus;
+  transfer_id: string | null;
+  fee_decimal: string | null;
+  error: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * One recipient of a batch
+ */
+export interface PayoutRowInput {
+  recipientUserId: string;
+  amount: string;
+  narration?: string;
+}
+
+/**
+ * Input for creating a batch (rows as JSON `items` or as `csv` text)
+ */
+export interface CreatePayoutInput {
+  items?: PayoutRowInput[];
+  /** CSV with a header row: recipient_user_id, amount and optional narration */
+  csv?: string;
+  /** Wallet currency (default: DEFAULT_CURRENCY) */
+  currency?: string;
+  /** Execution semantics (default: all_or_nothing) */
+  mode?: PayoutMode;
+  channel?: FeeChannel;
+  metadata?: any;
+}
+
+/**
+ * Batch with its rows
+ */
+export interface PayoutBatchDetails {
+  batch: PayoutBatch;
+  items: PayoutItem[];
+}
+
+/**
+ * CSV columns accepted in an upload
+ */
+const CSV_COLUMNS = ["recipient_user_id", "amount", "narration"] as const;
+
+/**
+ * Longest narration or error kept on a row (column length)
+ */
+const MAX_TEXT_LENGTH = 255;
+
+/**
+ * UUID format of a recipient user ID
+ */
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Outcome of paying one row
+ */
+interface RowOutcome {
+  item: PayoutItem;
+  result?: TransferResult;
+  error?: string;
+}
+
+/**
+ * Payout service class
+ */
+export class PayoutService {
+  /**
+   * Validate, record and execute a payout batch
+   *
+   * @param userId - Sender
+   * @param input - Rows (JSON or CSV), currency, mode and channel
+   * @returns Batch with the outcome of every row
+   *
+   * @throws AppError (400) if the CSV is malformed or the batch is empty or too large
+   * @throws BatchValidationError (422) listing every invalid row
+   * @throws AppError (422) if the total does not fit the available balance
+   * @throws AppError (404) if the sender has no wallet in the currency
+   */
+  static async create(userId: string, input: CreatePayoutInput): Promise<PayoutBatchDetails> {
+    const currency = input.currency ?? DEFAULT_CURRENCY;
+    const mode = input.mode ?? "all_or_nothing";
+    const rows = input.csv !== undefined ? this.parseRows(input.csv) : input.items ?? [];
+
+    if (rows.length === 0) {
+      throw new AppError(400, "A payout batch needs at least one row");
+    }
+    if (rows.length > config.payouts.maxItems) {
+      throw new AppError(
+        400,
+        `A payout batch can have at most ${config.payouts.maxItems} rows (got ${rows.length})`
+      );
+    }
+
+    const wallet = await WalletService.getWalletByUserId(userId, undefined, false, { currency });
+    if (!wallet) {
+      throw new AppError(404, `Wallet not found for user: ${userId}`);
+    }
+
+    const amounts = await this.validateRows(userId, currency, rows);
+    const total = await this.assertAffordable(wallet, userId, amounts, input.channel);
+
+    const batchId = newId();
+    const items: PayoutItem[] = rows.map((row, index) => ({
+      id: newId(),
+      batch_id: batchId,
+      row_number: index + 1,
+      recipient_user_id: row.recipientUserId,
+      amount_decimal: amounts[index]!.toStorageString(),
+      narration: row.narration || null,
+      reference: `PAYOUT-${batchId}-${index + 1}`,
+      status: "pending",
+      transfer_id: null,
+      fee_decimal: null,
+      error: null,
+      created_at: new Date(),
+      updated_at: new Date(),
+    }));
+
+    await withTransaction(async (trx) => {
+      await trx("payout_batches").insert({
+        id: batchId,
+        user_id: userId,
+        wallet_id: wallet.id,
+        currency,
+        channel: input.channel ?? "api",
+        mode,
+        status: "processing",
+        item_count: items.length,
+        total_decimal: total.toStorageString(),
+        metadata: input.metadata ? JSON.stringify(input.metadata) : null,
+      });
+      await trx("payout_items").insert(
+        items.map(({ created_at: _created, updated_at: _updated, ...item }) => item)
+      );
+    });
+
+    logger.info(`Payout batch ${batchId} accepted: ${items.length} rows, ${total} ${currency} (${mode})`);
+
+    const batch = await this.getBatch(userId, batchId);
+    if (mode === "all_or_nothing") {
+      await this.executeAtomically(batch, items);
+    } else {
+      await this.executeEach(batch, items);
+    }
+
+    return this.getBatchDetails(userId, batchId);
+  }
+
+  /**
+   * Get a user's batch
+   *
+   * @param userId - Sender
+   * @param batchId - Batch ID
+   * @returns Batch
+   *
+   * @throws AppError (404) if the user has no such batch
+   */
+  static async getBatch(userId: string, batchId: string): Promise<PayoutBatch> {
+    const batch = await knex("payout_batches").where({ id: batchId, user_id: userId }).first();
+
+    if (!batch) {
+      throw new AppError(404, `Payout batch not found: ${batchId}`);
+    }
+
+    return batch;
+  }
+
+  /**
+   * Get a user's batch with its rows in upload order
+   *
+   * @param userId - Sender
+   * @param batchId - Batch ID
+   * @returns Batch and rows
+   *
+   * @throws AppError (404) if the user has no such batch
+   */
+  static async getBatchDetails(userId: string, batchId: string): Promise<PayoutBatchDetails> {
+    const batch = await this.getBatch(userId, batchId);
+    const items = await knex("payout_items")
+      .where({ batch_id: batch.id })
+      .orderBy("row_number", "asc");
+
+    return { batch, items };
+  }
+
+  /**
+   * List a user's batches, newest first
+   *
+   * @param userId - Sender
+   * @param status - Optional status filter
+   * @returns Batches (without rows)
+   */
+  static async listBatches(userId: string, status?: PayoutBatchStatus): Promise<PayoutBatch[]> {
+    const query = knex("payout_batches")
+      .where({ user_id: userId })
+      .orderBy("created_at", "desc");
+
+    if (status) {
+      query.where({ status });
+    }
+
+    return query;
+  }
+
+  /**
+   * Result file of a batch: one CSV line per row with its outcome
+   *
+   * @param userId - Sender
+   * @param batchId - Batch ID
+   * @returns CSV text
+   *
+   * @throws AppError (404) if the user has no such batch
+   */
+  static async resultsCsv(userId: string, batchId: string): Promise<string> {
+    const { batch, items } = await this.getBatchDetails(userId, batchId);
+
+    return toCsv([
+      ["row", "recipient_user_id", "amount", "currency", "narration", "status", "fee", "reference", "transfer_id", "error"],
+      ...items.map((item) => [
+        item.row_number,
+        item.recipient_user_id,
+        item.amount_decimal,
+        batch.currency,
+        item.narration,
+        item.status,
+        item.fee_decimal,
+        item.reference,
+        item.transfer_id,
+        item.error,
+      ]),
+    ]);
+  }
+
+  /**
+   * Read payout rows from CSV text
+   *
+   * The header row names the columns (any order, case-insensitive);
+   * recipient_user_id and amount are required, narration is optional.
+   *
+   * @param csv - CSV text
+   * @returns Rows
+   *
+   * @throws AppError (400) if the CSV or its header is malformed
+   */
+  static parseRows(csv: string): PayoutRowInput[] {
+    const [header, ...lines] = parseCsv(csv);
+
+    if (!header) {
+      throw new AppError(400, "Invalid CSV: the file is empty");
+    }
+
+    const columns = header.map((name) => name.trim().toLowerCase());
+    const unknown = columns.filter((name) => !(CSV_COLUMNS as readonly string[]).includes(name));
+    if (unknown.length > 0) {
+      throw new AppError(
+        400,
+        `Invalid CSV: unknown column(s) ${unknown.join(", ")}; expected ${CSV_COLUMNS.join(", ")}`
+      );
+    }
+
+    const recipientIndex = columns.indexOf("recipient_user_id");
+    const amountIndex = columns.indexOf("amount");
+    const narrationIndex = columns.indexOf("narration");
+    if (recipientIndex < 0 || amountIndex < 0) {
+      throw new AppError(400, "Invalid CSV: the header must include recipient_user_id and amount");
+    }
+
+    return lines.map((line) => ({
+      recipientUserId: (line[recipientIndex] ?? "").trim(),
+      amount: (line[amountIndex] ?? "").trim(),
+      narration: narrationIndex < 0 ? undefined : line[narrationIndex]?.trim() || undefined,
+    }));
+  }
+
+  /**
+   * Check every row and collect all problems
+   *
+   * @param userId - Sender
+   * @param currency - Batch currency
+   * @param rows - Rows to check
+   * @returns Parsed amounts, in row order
+   *
+   * @throws BatchValidationError (422) listing every invalid row
+   */
+  private static async validateRows(
+    userId: string,
+    currency: string,
+    rows: PayoutRowInput[]
+  ): Promise<Money[]> {
+    const errors: RowError[] = [];
+    const amounts: Money[] = [];
+    const firstRowOf = new Map<string, number>();
+
+    rows.forEach((row, index) => {
+      const rowNumber = index + 1;
+      const recipient = row.recipientUserId;
+
+      if (!UUID_PATTERN.test(recipient)) {
+        errors.push({ row: rowNumber, field: "recipient_user_id", message: "Must be a user ID (UUID)" });
+      } else if (recipient === userId) {
+        errors.push({ row: rowNumber, field: "recipient_user_id", message: "Cannot pay yourself" });
+      } else if (firstRowOf.has(recipient)) {
+        errors.push({
+          row: rowNumber,
+          field: "recipient_user_id",
+          message: `Duplicate of row ${firstRowOf.get(recipient)}`,
+        });
+      } else {
+        firstRowOf.set(recipient, rowNumber);
+      }
+
+      try {
+        amounts.push(Money.parse(row.amount, currency));
+      } catch (error) {
+        errors.push({ row: rowNumber, field: "amount", message: (error as Error).message });
+      }
+
+      if (row.narration && row.narration.length > MAX_TEXT_LENGTH) {
+        errors.push({
+          row: rowNumber,
+          field: "narration",
+          message: `Must be at most ${MAX_TEXT_LENGTH} characters`,
+        });
+      }
+    });
+
+    const recipients = [...firstRowOf.keys()];
+    if (recipients.length > 0) {
+      const found: Array<{ user_id: string }> = await knex("wallets")
+        .select("user_id")
+        .whereIn("user_id", recipients)
+        .where({ currency, parent_wallet_id: null });
+      const withWallet = new Set(found.map((wallet) => wallet.user_id));
+
+      for (const [recipient, rowNumber] of firstRowOf) {
+        if (!withWallet.has(recipient)) {
+          errors.push({
+            row: rowNumber,
+            field: "recipient_user_id",
+            message: `Recipient not found or has no ${currency} wallet`,
+          });
+        }
+      }
+    }
+
+    if (errors.length > 0) {
+      errors.sort((a, b) => a.row - b.row);
+      const invalidRows = new Set(errors.map((error) => error.row)).size;
+      throw new BatchValidationError(
+        422,
+        `Payout batch rejected: ${invalidRows} of ${rows.length} rows are invalid`,
+        errors
+      );
+    }
+
+    return amounts;
+  }
+
+  /**
+   * Check that the wallet can pay every row plus its fee
+   *
+   * @param wallet - Sender's wallet
+   * @param userId - Sender
+   * @param amounts - Row amounts
+   * @param channel - Channel used to price the fees
+   * @returns Sum of the row amounts
+   *
+   * @throws AppError (422) if amounts plus fees exceed the available balance
+   */
+  private static async assertAffordable(
+    wallet: Wallet,
+    userId: string,
+    amounts: Money[],
+    channel?: FeeChannel
+  ): Promise<Money> {
+    let total = Money.zero(wallet.currency);
+    let required = Money.zero(wallet.currency);
+
+    for (const amount of amounts) {
+      const fee = await FeeService.quote(
+        knex,
+        { operation: "transfer", userId, currency: wallet.currency, channel },
+        amount
+      );
+      total = total.add(amount);
+      required = required.add(fee.total);
+    }
+
+    const available = WalletService.availableBalance(wallet);
+    if (available.lessThan(required)) {
+      throw new AppError(
+        422,
+        `Insufficient funds for payout batch. Available: ${available}, Required: ${required} (amounts ${total} plus fees)`
+      );
+    }
+
+    return total;
+  }
+
+  /**
+   * Pay every row inside one DB transaction
+   *
+   * Every wallet involved, the fee revenue wallet included, is locked up
+   * front in user ID order (the order single transfers use), so the batch
+   * cannot deadlock with them.
+   *
+   * @param batch - Recorded batch
+   * @param items - Its rows, in order
+   */
+  private static async executeAtomically(batch: PayoutBatch, items: PayoutItem[]): Promise<void> {
+    // Row being paid when the transaction failed
+    let current = null as PayoutItem | null;
+
+    try {
+      await withTransaction(async (trx) => {
+        const userIds = [batch.user_id, ...items.map((item) => item.recipient_user_id)];
+        await FeeService.lockWithRevenueWallet(trx, userIds, batch.currency, (userId) =>
+          WalletService.getWalletByUserId(userId, trx, true, { currency: batch.currency })
+        );
+
+        const outcomes: RowOutcome[] = [];
+        for (const item of items) {
+          current = item;
+          const result = await this.payRow(trx, batch, item);
+          outcomes.push({ item, result });
+          await this.recordOutcome(trx, { item, result });
+        }
+
+        await this.finish(trx, batch, outcomes);
+      });
+    } catch (error) {
+      const message = this.errorMessage(error);
+      const failed = current;
+
+      // Everything above was rolled back; record why
+      await withTransaction(async (trx) => {
+        await trx("payout_items")
+          .where({ batch_id: batch.id })
+          .update({ status: "skipped", updated_at: trx.fn.now() });
+        if (failed) {
+          await this.recordOutcome(trx, { item: failed, error: message });
+        }
+        await trx("payout_batches")
+          .where({ id: batch.id })
+          .update({
+            status: "failed",
+            failed_count: items.length,
+            error: failed ? `Row ${failed.row_number}: ${message}`.slice(0, MAX_TEXT_LENGTH) : message,
+            completed_at: trx.fn.now(),
+            updated_at: trx.fn.now(),
+          });
+      });
+
+      logger.warn(`Payout batch ${batch.id} rolled back: ${message}`);
+    }
+  }
+
+  /**
+   * Pay each row in its own transfer, recording failures and carrying on
+   *
+   * @param batch - Recorded batch
+   * @param items - Its rows, in order
+   */
+  private static async executeEach(batch: PayoutBatch, items: PayoutItem[]): Promise<void> {
+    const outcomes: RowOutcome[] = [];
+
+    for (const item of items) {
+      let outcome: RowOutcome;
+      try {
+        const result = await withTransaction((trx) => this.payRow(trx, batch, item));
+        outcome = { item, result };
+      } catch (error) {
+        outcome = { item, error: this.errorMessage(error) };
+      }
+
+      outcomes.push(outcome);
+      await this.recordOutcome(knex, outcome);
+    }
+
+    await this.finish(knex, batch, outcomes);
+  }
+
+  /**
+   * Transfer one row's amount to its recipient
+   *
+   * @param trx - Knex transaction
+   * @param batch - Batch
+   * @param item - Row
+   * @returns Transfer result
+   */
+  private static payRow(
+    trx: Knex.Transaction,
+    batch: PayoutBatch,
+    item: PayoutItem
+  ): Promise<TransferResult> {
+    return WalletService.transferWithin(
+      trx,
+      batch.user_id,
+      item.recipient_user_id,
+      Money.fromStorage(item.amount_decimal, batch.currency),
+      {
+        ...(item.narration && { narration: item.narration }),
+        payout_batch_id: batch.id,
+        payout_row: item.row_number,
+      },
+      { currency: batch.currency },
+      batch.channel,
+      item.reference
+    );
+  }
+
+  /**
+   * Store the outcome of a row
+   *
+   * @param db - Knex instance or transaction
+   * @param outcome - Row and its transfer or error
+   */
+  private static async recordOutcome(db: Knex | Knex.Transaction, outcome: RowOutcome): Promise<void> {
+    await db("payout_items")
+      .where({ id: outcome.item.id })
+      .update(
+        outcome.result
+          ? {
+              status: "succeeded",
+              transfer_id: outcome.result.transfer.id,
+              fee_decimal: outcome.result.fee.fee.toStorageString(),
+              updated_at: db.fn.now(),
+            }
+          : { status: "failed", error: outcome.error, updated_at: db.fn.now() }
+      );
+  }
+
+  /**
+   * Store a batch's summary once every row has an outcome
+   *
+   * @param db - Knex instance or transaction
+   * @param batch - Batch
+   * @param outcomes - Outcome of every row
+   */
+  private static async finish(
+    db: Knex | Knex.Transaction,
+    batch: PayoutBatch,
+    outcomes: RowOutcome[]
+  ): Promise<void> {
+    let paid = Money.zero(batch.currency);
+    let fees = Money.zero(batch.currency);
+    let succeeded = 0;
+
+    for (const { result } of outcomes) {
+      if (result) {
+        succeeded += 1;
+        paid = paid.add(result.fee.amount);
+        fees = fees.add(result.fee.fee);
+      }
+    }
+
+    const failed = outcomes.length - succeeded;
+    const status: PayoutBatchStatus =
+      failed === 0 ? "completed" : succeeded === 0 ? "failed" : "partially_completed";
+
+    await db("payout_batches")
+      .where({ id: batch.id })
+      .update({
+        status,
+        succeeded_count: succeeded,
+        failed_count: failed,
+        paid_decimal: paid.toStorageString(),
+        fee_decimal: fees.toStorageString(),
+        completed_at: db.fn.now(),
+        updated_at: db.fn.now(),
+      });
+
+    logger.info(`Payout batch ${batch.id} ${status}: ${succeeded} paid, ${failed} failed`);
+  }
+
+  /**
+   * Error message short enough to store
+   *
+   * @param error - Thrown value
+   * @returns Message
+   */
+  private static errorMessage(error: unknown): string {
+    return (error instanceof Error ? error.message : String(error)).slice(0, MAX_TEXT_LENGTH);
+  }
+}
@@ -0,0 +1,483 @@
+/**
+ * Reconciliation Service
+ *
+ * Walks every wallet and transfer and checks that the books agree:
+ * 1. wallet_balance - `balance_decimal` equals the sum of the wallet's transactions
+ * 2. balance_chain  - each transaction's `balance_after` follows from the previous one
+ * 3. transfer_legs  - every transfer has matching `-OUT` and `-IN` transactions
+ * 4. ledger         - the wallet agrees with its double-entry ledger account
+ *
+ * Mismatches are written to `reconciliation_discrepancies` against a
+ * `reconciliation_runs` row. Intended to run nightly (CLI or scheduler).
+ *
+ * @module services/reconciliation.service
+ */
+
+import { Knex } from "knex";
+import { knex, newId, withTransaction } from "../db";
+import { logger } from "../utils/logger";
+import { AppError } from "../middlewares/error";
+import { Money } from "../utils/money";
+import { DEFAULT_CURRENCY } from "../config/currencies";
+import { LedgerService } from "./ledger.service";
+import type { Transaction } from "./wallet.service";
+
+/**
+ * Reconciliation check names
+ */
+export type ReconciliationCheck = "wallet_balance" | "balance_chain" | "transfer_legs" | "ledger";
+
+/**
+ * Discrepancy found by a check (before it is stored)
+ */
+export interface Discrepancy {
+  check_type: ReconciliationCheck;
+  wallet_id?: string | null;
+  transfer_id?: string | null;
+  transaction_id?: string | null;
+  expected?: string | null;
+  actual?: string | null;
+  message: string;
+}
+
+/**
+ * Reconciliation run record
+ */
+export interface ReconciliationRun {
+  id: string;
+  status: "running" | "completed" | "failed";
+  triggered_by: string;
+  wallets_checked: number;
+  transfers_checked: number;
+  discrepancy_count: number;
+  error: string | null;
+  started_at: Date;
+  finished_at: Date | null;
+}
+
+/**
+ * Stored discrepancy record
+ */
+export interface ReconciliationDiscrepancy extends Required<Discrepancy> {
+  id: string;
+  run_id: string;
+  created_at: Date;
+}
+
+/**
+ * Transaction columns needed by the wallet checks
+ */
+type ChainRow = Pick<
+  Transaction,
+  "id" | "type" | "amount_decimal" | "balance_after" | "reference" | "created_at"
+> & {
+  /** Type of the reversed transaction (reversal rows only) */
+  reversed_type?: Transaction["type"] | null;
+};
+
+/**
+ * Transaction types that increase a wallet balance
+ */
+const CREDIT_TYPES: ReadonlySet<Transaction["type"]> = new Set([
+  "credit",
+  "transfer-in",
+  "conversion-in",
+  "fee-income",
+]);
+
+/**
+ * Wallets and transfers are read in pages of this size
+ */
+const PAGE_SIZE = 200;
+
+/**
+ * A "running" run older than this is considered abandoned (e.g. process crash)
+ */
+const STALE_RUN_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * Reconciliation service class
+ */
+export class ReconciliationService {
+  /**
+   * Signed effect of a transaction on its wallet balance
+   *
+   * A reversal has the opposite effect of the transaction it reverses.
+   *
+   * @param row - Transaction row
+   * @param currency - Wallet currency
+   * @returns Positive for credits, negative for debits
+   */
+  private static signedAmount(row: ChainRow, currency: string): Money {
+    const amount = Money.fromStorage(row.amount_decimal, currency);
+    const increases =
+      row.type === "reversal"
+        ? !CREDIT_TYPES.has(row.reversed_type as Transaction["type"])
+        : CREDIT_TYPES.has(row.type);
+    return increases ? amount : Money.zero(currency).subtract(amount);
+  }
+
+  /**
+   * Check that balance_after chains correctly through a wallet's transactions
+   *
+   * `created_at` has one-second precision, so rows written in the same
+   * second cannot be ordered by timestamp alone. Within such a group the
+   * row that continues the chain is picked first; only rows that fit no
+   * ordering are reported.
+   *
+   * @param rows - Wallet transactions ordered by created_at ascending
+   * @param currency - Wallet currency
+   * @param walletId - Wallet ID (for discrepancy records)
+   * @returns Discrepancies and the sum of all signed amounts
+   */
+  static checkBalanceChain(
+    rows: ChainRow[],
+    currency: string,
+    walletId: string
+  ): { discrepancies: Discrepancy[]; total: Money } {
+    const discrepancies: Discrepancy[] = [];
+    let previous = Money.zero(currency);
+    let total = Money.zero(currency);
+    let index = 0;
+
+    while (index < rows.length) {
+      // Collect the group of rows sharing this timestamp
+      const groupTime = new Date(rows[index]!.created_at).getTime();
+      const group: ChainRow[] = [];
+      while (index < rows.length && new Date(rows[index]!.created_at).getTime() === groupTime) {
+        group.push(rows[index]!);
+        index++;
+      }
+
+      while (group.length > 0) {
+        const nextIndex = group.findIndex((row) =>
+          previous
+            .add(this.signedAmount(row, currency))
+            .equals(Money.fromStorage(row.balance_after, currency))
+        );
+        const row = group.splice(nextIndex === -1 ? 0 : nextIndex, 1)[0]!;
+        const signed = this.signedAmount(row, currency);
+        const expected = previous.add(signed);
+        const actual = Money.fromStorage(row.balance_after, currency);
+
+        if (nextIndex === -1) {
+          discrepancies.push({
+            check_type: "balance_chain",
+            wallet_id: walletId,
+            transaction_id: row.id,
+            expected: expected.toStorageString(),
+            actual: actual.toStorageString(),
+            message: `Transaction ${row.reference} balance_after does not follow from the previous balance`,
+          });
+        }
+
+        total = total.add(signed);
+        // Continue from the recorded balance so one bad row is reported once
+        previous = actual;
+      }
+    }
+
+    return { discrepancies, total };
+  }
+
+  /**
+   * Run the wallet checks for one wallet inside a consistent read snapshot
+   *
+   * @param wallet - Wallet row
+   * @returns Discrepancies found
+   */
+  private static async checkWallet(wallet: {
+    id: string;
+    currency: string;
+  }): Promise<Discrepancy[]> {
+    return withTransaction(async (trx: Knex.Transaction) => {
+      const current = await trx("wallets").where({ id: wallet.id }).first();
+
+      if (!current) {
+        return [];
+      }
+
+      const rows: ChainRow[] = await trx("transactions as t")
+        .leftJoin("transactions as reversed", "reversed.id", "t.reversal_of")
+        .select(
+          "t.id",
+          "t.type",
+          "t.amount_decimal",
+          "t.balance_after",
+          "t.reference",
+          "t.created_at",
+          "reversed.type as reversed_type"
+        )
+        .where("t.wallet_id", wallet.id)
+        .orderBy([
+          { column: "t.created_at", order: "asc" },
+          { column: "t.id", order: "asc" },
+        ]);
+
+      const { discrepancies, total } = this.checkBalanceChain(rows, wallet.currency, wallet.id);
+      const balance = Money.fromStorage(current.balance_decimal, wallet.currency);
+
+      if (!balance.equals(total)) {
+        discrepancies.push({
+          check_type: "wallet_balance",
+          wallet_id: wallet.id,
+          expected: total.toStorageString(),
+          actual: balance.toStorageString(),
+          message: `Wallet balance does not equal the sum of its ${rows.length} transactions`,
+        });
+      }
+
+      const ledger = await LedgerService.verifyWallet(wallet.id, trx);
+
+      if (!ledger.balanced) {
+        discrepancies.push({
+          check_type: "ledger",
+          wallet_id: wallet.id,
+          expected: ledger.ledgerBalance,
+          actual: ledger.walletBalance,
+          message: "Wallet balance does not equal its ledger account balance",
+        });
+      }
+
+      return discrepancies;
+    });
+  }
+
+  /**
+   * Check that a page of transfers have matching -OUT and -IN transactions
+   *
+   * @param transfers - Transfer rows
+   * @returns Discrepancies found
+   */
+  static async checkTransferLegs(
+    transfers: Array<{
+      id: string;
+      from_wallet_id: string;
+      to_wallet_id: string;
+      amount_decimal: string;
+      reference: string;
+    }>
+  ): Promise<Discrepancy[]> {
+    if (transfers.length === 0) {
+      return [];
+    }
+
+    const legs: Array<Pick<Transaction, "id" | "wallet_id" | "type" | "amount_decimal" | "reference">> =
+      await knex("transactions")
+        .select("id", "wallet_id", "type", "amount_decimal", "reference")
+        .whereIn(
+          "reference",
+          transfers.flatMap((transfer) => [`${transfer.reference}-OUT`, `${transfer.reference}-IN`])
+        );
+
+    const byReference = new Map(legs.map((leg) => [leg.reference, leg]));
+    const discrepancies: Discrepancy[] = [];
+
+    for (const transfer of transfers) {
+      const expectations = [
+        { suffix: "-OUT", walletId: transfer.from_wallet_id, type: "transfer-out" },
+        { suffix: "-IN", walletId: transfer.to_wallet_id, type: "transfer-in" },
+      ] as const;
+
+      for (const { suffix, walletId, type } of expectations) {
+        const reference = `${transfer.reference}${suffix}`;
+        const leg = byReference.get(reference);
+
+        if (!leg) {
+          discrepancies.push({
+            check_type: "transfer_legs",
+            wallet_id: walletId,
+            transfer_id: transfer.id,
+            message: `Transfer ${transfer.reference} has no ${reference} transaction`,
+          });
+          continue;
+        }
+
+        // Compare exact units so "10.50" and "10.500000" agree (currency is irrelevant here)
+        const sameAmount = Money.fromStorage(leg.amount_decimal, DEFAULT_CURRENCY).equals(
+          Money.fromStorage(transfer.amount_decimal, DEFAULT_CURRENCY)
+        );
+
+        if (leg.wallet_id !== walletId || leg.type !== type || !sameAmount) {
+          discrepancies.push({
+            check_type: "transfer_legs",
+            wallet_id: walletId,
+            transfer_id: transfer.id,
+            transaction_id: leg.id,
+            expected: `${type} ${transfer.amount_decimal} on ${walletId}`,
+            actual: `${leg.type} ${leg.amount_decimal} on ${leg.wallet_id}`,
+            message: `Transaction ${reference} does not match transfer ${transfer.reference}`,
+          });
+        }
+      }
+    }
+
+    return discrepancies;
+  }
+
+  /**
+   * Store discrepancies for a run
+   *
+   * @param runId - Run ID
+   * @param discrepancies - Discrepancies to store
+   */
+  private static async recordDiscrepancies(
+    runId: string,
+    discrepancies: Discrepancy[]
+  ): Promise<void> {
+    if (discrepancies.length === 0) {
+      return;
+    }
+
+    await knex("reconciliation_discrepancies").insert(
+      discrepancies.map((discrepancy) => ({
+        id: newId(),
+        run_id: runId,
+        check_type: discrepancy.check_type,
+        wallet_id: discrepancy.wallet_id ?? null,
+        transfer_id: discrepancy.transfer_id ?? null,
+        transaction_id: discrepancy.transaction_id ?? null,
+        expected: discrepancy.expected ?? null,
+        actual: discrepancy.actual ?? null,
+        message: discrepancy.message.slice(0, 500),
+        created_at: knex.fn.now(),
+      }))
+    );
+
+    for (const discrepancy of discrepancies) {
+      logger.warn(`Reconciliation discrepancy [${discrepancy.check_type}]: ${discrepancy.message}`);
+    }
+  }
+
+  /**
+   * Run a full reconciliation
+   *
+   * @param triggeredBy - Who started the run (cli, schedule, or admin:<userId>)
+   * @returns Finished run record
+   * @throws AppError (409) if another run is already in progress
+   */
+  static async run(triggeredBy: string): Promise<ReconciliationRun> {
+    const active = await knex("reconciliation_runs")
+      .where({ status: "running" })
+      .where("started_at", ">", new Date(Date.now() - STALE_RUN_MS))
+      .first();
+
+    if (active) {
+      throw new AppError(409, `Reconciliation run ${active.id} is already in progress`);
+    }
+
+    const runId = newId();
+    await knex("reconciliation_runs").insert({
+      id: runId,
+      status: "running",
+      triggered_by: triggeredBy,
+      started_at: knex.fn.now(),
+    });
+
+    logger.info(`Reconciliation run ${runId} started (${triggeredBy})`);
+
+    let walletsChecked = 0;
+    let transfersChecked = 0;
+    let discrepancyCount = 0;
+
+    try {
+      // Wallet checks, paged by wallet ID
+      let lastWalletId = "";
+      for (;;) {
+        const wallets: Array<{ id: string; currency: string }> = await knex("wallets")
+          .select("id", "currency")
+          .where("id", ">", lastWalletId)
+          .orderBy("id", "asc")
+          .limit(PAGE_SIZE);
+
+        for (const wallet of wallets) {
+          const discrepancies = await this.checkWallet(wallet);
+          await this.recordDiscrepancies(runId, discrepancies);
+          discrepancyCount += discrepancies.length;
+          walletsChecked++;
+        }
+
+        if (wallets.length < PAGE_SIZE) break;
+        lastWalletId = wallets[wallets.length - 1]!.id;
+      }
+
+      // Transfer leg checks, paged by transfer ID (failed transfers move no money)
+      let lastTransferId = "";
+      for (;;) {
+        const transfers = await knex("transfers")
+          .select("id", "from_wallet_id", "to_wallet_id", "amount_decimal", "reference")
+          .where("id", ">", lastTransferId)
+          .whereNot({ status: "failed" })
+          .orderBy("id", "asc")
+          .limit(PAGE_SIZE);
+
+        const discrepancies = await this.checkTransferLegs(transfers);
+        await this.recordDiscrepancies(runId, discrepancies);
+        discrepancyCount += discrepancies.length;
+        transfersChecked += transfers.length;
+
+        if (transfers.length < PAGE_SIZE) break;
+        lastTransferId = transfers[transfers.length - 1]!.id;
+      }
+
+      await knex("reconciliation_runs").where({ id: runId }).update({
+        status: "completed",
+        wallets_checked: walletsChecked,
+        transfers_checked: transfersChecked,
+        discrepancy_count: discrepancyCount,
+        finished_at: knex.fn.now(),
+      });
+
+      logger.info(
+        `Reconciliation run ${runId} completed: ${walletsChecked} wallets, ${transfersChecked} transfers, ${discrepancyCount} discrepancies`
+      );
+    } catch (error) {
+      await knex("reconciliation_runs").where({ id: runId }).update({
+        status: "failed",
+        wallets_checked: walletsChecked,
+        transfers_checked: transfersChecked,
+        discrepancy_count: discrepancyCount,
+        error: (error instanceof Error ? error.message : String(error)).slice(0, 500),
+        finished_at: knex.fn.now(),
+      });
+
+      logger.error(`Reconciliation run ${runId} failed`, error);
+      throw error;
+    }
+
+    return knex("reconciliation_runs").where({ id: runId }).first();
+  }
+
+  /**
+   * List recent runs, newest first
+   *
+   * @param limit - Maximum number of runs (default 20)
+   * @returns Runs
+   */
+  static async listRuns(limit: number = 20): Promise<ReconciliationRun[]> {
+    return knex("reconciliation_runs").orderBy("started_at", "desc").limit(limit);
+  }
+
+  /**
+   * Get a run with its discrepancies
+   *
+   * @param runId - Run ID
+   * @returns Run and discrepancies
+   * @throws AppError (404) if the run does not exist
+   */
+  static async getRun(
+    runId: string
+  ): Promise<{ run: ReconciliationRun; discrepancies: ReconciliationDiscrepancy[] }> {
+    const run = await knex("reconciliation_runs").where({ id: runId }).first();
+
+    if (!run) {
+      throw new AppError(404, `Reconciliation run not found: ${runId}`);
+    }
+
+    const discrepancies = await knex("reconciliation_discrepancies")
+      .where({ run_id: runId })
+      .orderBy("created_at", "asc");
+
+    return { run, discrepancies };
+  }
+}
@@ -0,0 +1,456 @@
+/**
+ * Savings Pot Service
+ *
+ * Named pots ("School fees") a user sets money aside in, with an optional
+ * target amount and lock date. Each pot is a sub-wallet: a `wallets` row
+ * whose `parent_wallet_id` is the user's main wallet in the same currency.
+ * Sub-wallets are invisible to the ordinary wallet lookups, so the only way
+ * in or out of a pot is through this service.
+ *
+ * Moves between the main wallet and a pot are internal transfers
+ * (WalletService.moveWithin) with `POT-` references: no fees, and they do
+ * not count towards the tier's outflow limits.
+ *
+ * Lifecycle of a pot:
+ * 1. create()   - opens the sub-wallet (active)
+ * 2. deposit()  - main wallet -> pot
+ * 3. withdraw() - pot -> main wallet; before `locked_until` this needs a
+ *                 `pot_early_withdrawal` fee rule, whose fee is the penalty
+ *                 and is taken from the pot on top of the amount
+ * 4. close()    - an empty pot is closed (closed)
+ *
+ * @module services/savings-pot.service
+ */
+
+import { Knex } from "knex";
+import { knex, newId, withTransaction } from "../db";
+import { DEFAULT_CURRENCY } from "../config/currencies";
+import { FeeChannel } from "../config/fees";
+import { logger } from "../utils/logger";
+import { AppError } from "../middlewares/error";
+import { Money } from "../utils/money";
+import { FeeService, FeeBreakdown } from "./fee.service";
+import { LedgerService } from "./ledger.service";
+import { WalletService, Wallet, Transaction, TransferResult } from "./wallet.service";
+
+/**
+ * Savings pot status values
+ */
+export type SavingsPotStatus = "active" | "closed";
+
+/**
+ * Savings pot record
+ */
+export interface SavingsPot {
+  id: string;
+  user_id: string;
+  wallet_id: string;
+  parent_wallet_id: string;
+  name: string;
+  target_decimal: string | null;
+  locked_until: Date | null;
+  status: SavingsPotStatus;
+  created_at: Date;
+  updated_at: Date;
+  closed_at: Date | null;
+}
+
+/**
+ * Savings pot with its sub-wallet's balance
+ */
+export interface SavingsPotWithBalance extends SavingsPot {
+  balance_decimal: string;
+  currency: string;
+}
+
+/**
+ * Input for opening a savings pot
+ */
+export interface CreateSavingsPotInput {
+  name: string;
+  /** Currency of the main wallet the pot belongs to (default: DEFAULT_CURRENCY) */
+  currency?: string;
+  /** Savings goal */
+  targetAmount?: string;
+  /** Withdrawals before this time need a penalty rule */
+  lockedUntil?: string | Date;
+}
+
+/**
+ * Result of moving money into or out of a pot
+ */
+export interface PotMoveResult {
+  pot: SavingsPotWithBalance;
+  /** Main wallet after the move */
+  wallet: Wallet;
+  transfer: Omit<TransferResult, "fee" | "feeTransaction">;
+}
+
+/**
+ * Result of a withdrawal from a pot
+ */
+export interface PotWithdrawalResult extends PotMoveResult {
+  /** Early withdrawal penalty (null when the pot is unlocked) */
+  penalty: FeeBreakdown | null;
+  penaltyTransaction: Transaction | null;
+}
+
+/**
+ * Savings pot service class
+ */
+export class SavingsPotService {
+  /**
+   * Open a savings pot under one of the user's main wallets
+   *
+   * @param userId - Pot owner
+   * @param input - Name, currency, target and lock date
+   * @param now - Current time
+   * @returns Created pot (zero balance)
+   *
+   * @throws AppError (400) if the target is invalid or the lock date is not in the future
+   * @throws AppError (404) if the user has no wallet in the currency
+   * @throws AppError (409) if the user already has an active pot with that name
+   */
+  static async create(
+    userId: string,
+    input: CreateSavingsPotInput,
+    now: Date = new Date()
+  ): Promise<SavingsPotWithBalance> {
+    const currency = input.currency ?? DEFAULT_CURRENCY;
+    const target =
+      input.targetAmount !== undefined ? WalletService.toMoney(input.targetAmount, currency) : null;
+    const lockedUntil = input.lockedUntil !== undefined ? new Date(input.lockedUntil) : null;
+
+    if (lockedUntil && (isNaN(lockedUntil.getTime()) || lockedUntil.getTime() <= now.getTime())) {
+      throw new AppError(400, "lockedUntil must be a future date");
+    }
+
+    return withTransaction(async (trx) => {
+      // Lock the main wallet so two concurrent creates cannot both pass the name check
+      const parent = await WalletService.getWalletByUserId(userId, trx, true, { currency });
+
+      if (!parent) {
+        throw new AppError(404, `Wallet not found for user ${userId} (${currency})`);
+      }
+
+      const existing = await trx("savings_pots")
+        .where({ user_id: userId, name: input.name, status: "active" })
+        .first();
+
+      if (existing) {
+        throw new AppError(409, `You already have a savings pot named "${input.name}"`);
+      }
+
+      const wallet = await WalletService.createWallet(userId, trx, currency, parent.id);
+
+      const id = newId();
+      await trx("savings_pots").insert({
+        id,
+        user_id: userId,
+        wallet_id: wallet.id,
+        parent_wallet_id: parent.id,
+        name: input.name,
+        target_decimal: target ? target.toStorageString() : null,
+        locked_until: lockedUntil,
+        status: "active",
+        created_at: trx.fn.now(),
+        updated_at: trx.fn.now(),
+      });
+
+      logger.info(`Savings pot ${id} opened for user ${userId} (${currency})`);
+
+      return this.withBalance(trx, id);
+    });
+  }
+
+  /**
+   * List a user's savings pots, oldest first
+   *
+   * @param userId - Pot owner
+   * @param status - Optional status filter
+   * @returns Pots with their balances
+   */
+  static async listPots(userId: string, status?: SavingsPotStatus): Promise<SavingsPotWithBalance[]> {
+    const query = this.potsWithBalance(knex)
+      .where("savings_pots.user_id", userId)
+      .orderBy("savings_pots.created_at", "asc");
+
+    if (status) {
+      query.where("savings_pots.status", status);
+    }
+
+    return query;
+  }
+
+  /**
+   * Get one of a user's savings pots
+   *
+   * @param userId - Pot owner
+   * @param potId - Pot ID
+   * @returns Pot with its balance
+   *
+   * @throws AppError (404) if the user has no such pot
+   */
+  static async getPot(userId: string, potId: string): Promise<SavingsPotWithBalance> {
+    const pot: SavingsPotWithBalance | undefined = await this.potsWithBalance(knex)
+      .where({ "savings_pots.id": potId, "savings_pots.user_id": userId })
+      .first();
+
+    if (!pot) {
+      throw new AppError(404, `Savings pot not found: ${potId}`);
+    }
+
+    return pot;
+  }
+
+  /**
+   * Move money from the main wallet into a pot
+   *
+   * @param userId - Pot owner
+   * @param potId - Pot to fund
+   * @param amount - Amount to set aside
+   * @returns Updated pot, main wallet and the internal transfer
+   *
+   * @throws AppError (400) if the amount is invalid
+   * @throws AppError (404) if the user has no such pot
+   * @throws AppError (409) if the pot is closed
+   * @throws AppError (422) if the main wallet's available balance is insufficient
+   */
+  static async deposit(userId: string, potId: string, amount: string): Promise<PotMoveResult> {
+    return withTransaction(async (trx) => {
+      const { pot, parent, wallet } = await this.lockPot(trx, userId, potId);
+      const money = WalletService.toMoney(amount, parent.currency);
+
+      const available = WalletService.availableBalance(parent);
+      if (available.lessThan(money)) {
+        throw new AppError(422, `Insufficient funds. Available: ${available}, Required: ${money}`);
+      }
+
+      const transfer = await WalletService.moveWithin(
+        trx,
+        parent,
+        wallet,
+        money,
+        { savings_pot_id: pot.id },
+        WalletService.generateReference("POT", userId),
+        "Savings pot deposit"
+      );
+
+      logger.info(`Savings pot ${pot.id}: +${money.toStorageString()}`);
+
+      return { pot: await this.withBalance(trx, pot.id), wallet: transfer.fromWallet, transfer };
+    });
+  }
+
+  /**
+   * Move money from a pot back to the main wallet
+   *
+   * Before `locked_until` the withdrawal is priced with the
+   * `pot_early_withdrawal` fee rule; the penalty is paid from the pot on top
+   * of the amount. Without a matching rule a locked pot cannot be withdrawn
+   * from.
+   *
+   * @param userId - Pot owner
+   * @param potId - Pot to withdraw from
+   * @param amount - Amount to return to the main wallet
+   * @param channel - Channel the request came through (selects the penalty rule)
+   * @param now - Current time
+   * @returns Updated pot, main wallet, the internal transfer and any penalty
+   *
+   * @throws AppError (400) if the amount is invalid
+   * @throws AppError (403) if the pot is locked and no penalty rule applies
+   * @throws AppError (404) if the user has no such pot
+   * @throws AppError (409) if the pot is closed
+   * @throws AppError (422) if the pot cannot cover the amount plus penalty
+   */
+  static async withdraw(
+    userId: string,
+    potId: string,
+    amount: string,
+    channel?: FeeChannel,
+    now: Date = new Date()
+  ): Promise<PotWithdrawalResult> {
+    return withTransaction(async (trx) => {
+      const { pot, parent, wallet, revenueWallet } = await this.lockPot(trx, userId, potId, now);
+      const money = WalletService.toMoney(amount, wallet.currency);
+
+      let penalty: FeeBreakdown | null = null;
+      if (pot.locked_until && this.isLocked(pot, now)) {
+        penalty = await FeeService.quote(
+          trx,
+          { operation: "pot_early_withdrawal", userId, currency: wallet.currency, channel },
+          money
+        );
+
+        if (!penalty.rule) {
+          throw new AppError(
+            403,
+            `Savings pot is locked until ${new Date(pot.locked_until).toISOString()}`
+          );
+        }
+      }
+
+      const required = penalty ? penalty.total : money;
+      const available = WalletService.availableBalance(wallet);
+      if (available.lessThan(required)) {
+        throw new AppError(422, `Insufficient funds. Available: ${available}, Required: ${required}`);
+      }
+
+      const reference = WalletService.generateReference("POT", userId);
+      const transfer = await WalletService.moveWithin(
+        trx,
+        wallet,
+        parent,
+        money,
+        { savings_pot_id: pot.id },
+        reference,
+        "Savings pot withdrawal"
+      );
+
+      let penaltyTransaction: Transaction | null = null;
+      if (penalty && penalty.fee.isPositive()) {
+        const potWallet = transfer.fromWallet;
+        const balanceAfter = Money.fromStorage(potWallet.balance_decimal, potWallet.currency).subtract(
+          penalty.fee
+        );
+
+        penaltyTransaction = await FeeService.collect(trx, potWallet, revenueWallet, penalty, balanceAfter, reference, {
+          savings_pot_id: pot.id,
+        });
+        await LedgerService.assertWalletBalance(trx, potWallet.id, balanceAfter);
+        await trx("wallets")
+          .where({ id: potWallet.id })
+          .update({ balance_decimal: balanceAfter.toStorageString(), updated_at: trx.fn.now() });
+      }
+
+      logger.info(
+        `Savings pot ${pot.id}: -${money.toStorageString()} (penalty: ${penalty?.fee ?? "none"}) [ref: ${reference}]`
+      );
+
+      return {
+        pot: await this.withBalance(trx, pot.id),
+        wallet: transfer.toWallet,
+        transfer,
+        penalty,
+        penaltyTransaction,
+      };
+    });
+  }
+
+  /**
+   * Close an empty pot
+   *
+   * @param userId - Pot owner
+   * @param potId - Pot to close
+   * @returns Closed pot
+   *
+   * @throws AppError (404) if the user has no such pot
+   * @throws AppError (409) if the pot is already closed or still holds money
+   */
+  static async close(userId: string, potId: string): Promise<SavingsPotWithBalance> {
+    return withTransaction(async (trx) => {
+      const { pot, wallet } = await this.lockPot(trx, userId, potId);
+
+      if (!Money.fromStorage(wallet.balance_decimal, wallet.currency).isZero()) {
+        throw new AppError(409, `Savings pot ${pot.id} still holds ${wallet.balance_decimal}; withdraw it first`);
+      }
+
+      await trx("savings_pots")
+        .where({ id: pot.id })
+        .update({ status: "closed", closed_at: trx.fn.now(), updated_at: trx.fn.now() });
+
+      logger.info(`Savings pot ${pot.id} closed`);
+
+      return this.withBalance(trx, pot.id);
+    });
+  }
+
+  /**
+   * Pots joined to their sub-wallet balances
+   *
+   * @param db - Knex instance or transaction
+   * @returns Query builder
+   */
+  private static potsWithBalance(db: Knex | Knex.Transaction): Knex.QueryBuilder {
+    return db("savings_pots")
+      .join("wallets", "wallets.id", "savings_pots.wallet_id")
+      .select("savings_pots.*", "wallets.balance_decimal", "wallets.currency");
+  }
+
+  /**
+   * Re-read a pot with its balance inside a transaction
+   *
+   * @param trx - Knex transaction
+   * @param potId - Pot ID
+   * @returns Pot with its balance
+   */
+  private static async withBalance(trx: Knex.Transaction, potId: string): Promise<SavingsPotWithBalance> {
+    return this.potsWithBalance(trx).where("savings_pots.id", potId).first();
+  }
+
+  /**
+   * Whether a pot is still locked
+   *
+   * @param pot - Pot
+   * @param now - Current time
+   * @returns True before `locked_until`
+   */
+  private static isLocked(pot: SavingsPot, now: Date): boolean {
+    return Boolean(pot.locked_until && new Date(pot.locked_until).getTime() > now.getTime());
+  }
+
+  /**
+   * Lock an active pot with its main wallet and sub-wallet
+   *
+   * The main wallet is locked before the sub-wallet, in every operation.
+   * When a withdrawal at `penaltyAt` would pay an early withdrawal penalty,
+   * the fee revenue wallet is locked too, in user_id order.
+   *
+   * @param trx - Knex transaction
+   * @param userId - Pot owner
+   * @param potId - Pot ID
+   * @param penaltyAt - Time of a withdrawal from the pot
+   * @returns Locked pot, main wallet, sub-wallet and revenue wallet (if locked)
+   *
+   * @throws AppError (404) if the user has no such pot
+   * @throws AppError (409) if the pot is closed
+   */
+  private static async lockPot(
+    trx: Knex.Transaction,
+    userId: string,
+    potId: string,
+    penaltyAt?: Date
+  ): Promise<{ pot: SavingsPot; parent: Wallet; wallet: Wallet; revenueWallet: Wallet | null }> {
+    const pot: SavingsPot | undefined = await trx("savings_pots")
+      .where({ id: potId, user_id: userId })
+      .forUpdate()
+      .first();
+
+    if (!pot) {
+      throw new AppError(404, `Savings pot not found: ${potId}`);
+    }
+
+    if (pot.status !== "active") {
+      throw new AppError(409, `Savings pot ${pot.id} is ${pot.status}`);
+    }
+
+    const lockWallets = async () => ({
+      parent: await WalletService.lockWalletById(trx, pot.parent_wallet_id),
+      wallet: await WalletService.lockWalletById(trx, pot.wallet_id),
+    });
+
+    if (!penaltyAt || !this.isLocked(pot, penaltyAt)) {
+      return { pot, ...(await lockWallets()), revenueWallet: null };
+    }
+
+    const main = await WalletService.getWalletByUserId(userId, trx, false, { walletId: pot.parent_wallet_id });
+    const { locked, revenueWallet } = await FeeService.lockWithRevenueWallet(
+      trx,
+      [userId],
+      main?.currency ?? DEFAULT_CURRENCY,
+      lockWallets
+    );
+
+    return { pot, ...locked.get(userId)!, revenueWallet };
+  }
+}
@@ -0,0 +1,596 @@
+/**
+ * Scheduled Transfer Service
+ *
+ * Standing orders between two users: a transfer set up once and executed
+ * by the server on a future date, or repeatedly on a recurrence rule (see
+ * utils/recurrence) until an end date or a maximum number of runs.
+ *
+ * Execution:
+ * - runDue() is called periodically and executes every active schedule
+ *   whose next occurrence (or pending retry) is due
+ * - each occurrence is sent through WalletService.transfer with the
+ *   reference `SCHED-<schedule id>-<occurrence>`, so an occurrence can
+ *   never be paid twice, even if the worker stops between the transfer
+ *   and recording the run
+ * - failures that may succeed later (insufficient funds, provider or
+ *   database errors) are retried after SCHEDULED_TRANSFER_RETRY_MINUTES,
+ *   up to SCHEDULED_TRANSFER_MAX_ATTEMPTS; rejections such as a limit
+ *   breach fail the occurrence straight away
+ * - a one-off schedule whose occurrence failed ends as `failed`; a
+ *   recurring schedule skips to its next occurrence
+ *
+ * Occurrences missed while a schedule was paused (or the worker was down)
+ * are skipped, not caught up.
+ *
+ * @module services/scheduled-transfer.service
+ */
+
+import { Knex } from "knex";
+import { knex, newId, withTransaction } from "../db";
+import { config } from "../config/env";
+import { DEFAULT_CURRENCY } from "../config/currencies";
+import { FeeChannel } from "../config/fees";
+import { logger } from "../utils/logger";
+import { Money } from "../utils/money";
+import { AppError } from "../middlewares/error";
+import { nextOccurrence, parseRecurrence } from "../utils/recurrence";
+import { WalletService } from "./wallet.service";
+
+/**
+ * Schedule status values
+ */
+export type ScheduledTransferStatus = "active" | "paused" | "completed" | "cancelled" | "failed";
+
+/**
+ * Scheduled transfer record
+ */
+export interface ScheduledTransfer {
+  id: string;
+  user_id: string;
+  recipient_user_id: string;
+  currency: string;
+  amount_decimal: string;
+  channel: FeeChannel;
+  recurrence: string | null;
+  start_at: Date;
+  end_at: Date | null;
+  max_runs: number | null;
+  next_run_at: Date | null;
+  retry_at: Date | null;
+  run_count: number;
+  attempt_count: number;
+  last_run_at: Date | null;
+  last_error: string | null;
+  status: ScheduledTransferStatus;
+  metadata: any;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Record of one execution attempt
+ */
+export interface ScheduledTransferRun {
+  id: string;
+  schedule_id: string;
+  occurrence: number;
+  attempt: number;
+  scheduled_for: Date;
+  status: "succeeded" | "failed";
+  reference: string;
+  transfer_id: string | null;
+  error: string | null;
+  retry_at: Date | null;
+  created_at: Date;
+}
+
+/**
+ * Input for creating a scheduled transfer
+ */
+export interface CreateScheduledTransferInput {
+  recipientUserId: string;
+  amount: string;
+  /** Currency of both wallets (default: DEFAULT_CURRENCY) */
+  currency?: string;
+  /** First (or only) occurrence; must be in the future */
+  startAt: string | Date;
+  /** RRULE subset; omitted for a one-off transfer */
+  recurrence?: string | null;
+  endAt?: string | Date | null;
+  maxRuns?: number | null;
+  channel?: FeeChannel;
+  metadata?: any;
+}
+
+/**
+ * Outcome of executing one due schedule
+ */
+export interface ScheduledRunResult {
+  scheduleId: string;
+  occurrence: number;
+  attempt: number;
+  status: "succeeded" | "failed";
+  transferId: string | null;
+  error: string | null;
+  retryAt: Date | null;
+}
+
+/**
+ * Maximum schedules executed per sweep
+ */
+const SWEEP_BATCH_SIZE = 100;
+
+/**
+ * Longest error message kept on a run (column length)
+ */
+const MAX_ERROR_LENGTH = 255;
+
+/**
+ * Scheduled transfer service class
+ */
+export class ScheduledTransferService {
+  /**
+   * Create a scheduled transfer
+   *
+   * @param userId - Sender
+   * @param input - Recipient, amount and timing
+   * @param now - Current time
+   * @returns Created schedule
+   *
+   * @throws AppError (400) if the amount, timing or recurrence is invalid
+   * @throws AppError (404) if either user has no wallet in the currency
+   */
+  static async create(
+    userId: string,
+    input: CreateScheduledTransferInput,
+    now: Date = new Date()
+  ): Promise<ScheduledTransfer> {
+    if (input.recipientUserId === userId) {
+      throw new AppError(400, "Cannot schedule a transfer to yourself");
+    }
+
+    const currency = input.currency ?? DEFAULT_CURRENCY;
+    const money = WalletService.toMoney(input.amount, currency);
+
+    const startAt = new Date(input.startAt);
+    if (startAt <= now) {
+      throw new AppError(400, "startAt must be in the future");
+    }
+
+    const recurrence = input.recurrence ?? null;
+    if (recurrence) {
+      parseRecurrence(recurrence);
+    } else if (input.endAt || input.maxRuns) {
+      throw new AppError(400, "endAt and maxRuns only apply to recurring transfers");
+    }
+
+    const endAt = input.endAt ? new Date(input.endAt) : null;
+    if (endAt && endAt <= startAt) {
+      throw new AppError(400, "endAt must be after startAt");
+    }
+
+    const [wallet, recipientWallet] = await Promise.all([
+      WalletService.getWalletByUserId(userId, undefined, false, { currency }),
+      WalletService.getWalletByUserId(input.recipientUserId, undefined, false, { currency }),
+    ]);
+
+    if (!wallet) {
+      throw new AppError(404, `Wallet not found for user: ${userId}`);
+    }
+    if (!recipientWallet) {
+      throw new AppError(404, `Recipient has no ${currency} wallet`);
+    }
+
+    const id = newId();
+    await knex("scheduled_transfers").insert({
+      id,
+      user_id: userId,
+      recipient_user_id: input.recipientUserId,
+      currency,
+      amount_decimal: money.toStorageString(),
+      channel: input.channel ?? "api",
+      recurrence,
+      start_at: startAt,
+      end_at: endAt,
+      max_runs: input.maxRuns ?? null,
+      next_run_at: startAt,
+      status: "active",
+      metadata: input.metadata ? JSON.stringify(input.metadata) : null,
+    });
+
+    logger.info(`Scheduled transfer ${id} created for user ${userId}`);
+
+    return this.getSchedule(userId, id);
+  }
+
+  /**
+   * Get a user's scheduled transfer
+   *
+   * @param userId - Sender
+   * @param scheduleId - Schedule ID
+   * @returns Schedule
+   *
+   * @throws AppError (404) if the user has no such schedule
+   */
+  static async getSchedule(userId: string, scheduleId: string): Promise<ScheduledTransfer> {
+    const schedule = await knex("scheduled_transfers")
+      .where({ id: scheduleId, user_id: userId })
+      .first();
+
+    if (!schedule) {
+      throw new AppError(404, `Scheduled transfer not found: ${scheduleId}`);
+    }
+
+    return schedule;
+  }
+
+  /**
+   * List a user's scheduled transfers, newest first
+   *
+   * @param userId - Sender
+   * @param status - Optional status filter
+   * @returns Schedules
+   */
+  static async listSchedules(
+    userId: string,
+    status?: ScheduledTransferStatus
+  ): Promise<ScheduledTransfer[]> {
+    const query = knex("scheduled_transfers")
+      .where({ user_id: userId })
+      .orderBy("created_at", "desc");
+
+    if (status) {
+      query.where({ status });
+    }
+
+    return query;
+  }
+
+  /**
+   * Execution history of a schedule, latest attempt first
+   *
+   * @param scheduleId - Schedule ID
+   * @returns Runs
+   */
+  static async listRuns(scheduleId: string): Promise<ScheduledTransferRun[]> {
+    return knex("scheduled_transfer_runs")
+      .where({ schedule_id: scheduleId })
+      .orderBy([
+        { column: "occurrence", order: "desc" },
+        { column: "attempt", order: "desc" },
+      ]);
+  }
+
+  /**
+   * Pause an active schedule
+   *
+   * @param userId - Sender
+   * @param scheduleId - Schedule ID
+   * @returns Updated schedule
+   *
+   * @throws AppError (404) if the user has no such schedule
+   * @throws AppError (409) if the schedule is not active
+   */
+  static async pause(userId: string, scheduleId: string): Promise<ScheduledTransfer> {
+    return withTransaction(async (trx) => {
+      const schedule = await this.lockSchedule(trx, userId, scheduleId);
+
+      if (schedule.status !== "active") {
+        throw new AppError(409, `Scheduled transfer is ${schedule.status}, not active`);
+      }
+
+      return this.update(trx, schedule, { status: "paused" });
+    });
+  }
+
+  /**
+   * Resume a paused schedule
+   *
+   * A recurring schedule continues with its next occurrence after now;
+   * occurrences that fell due while it was paused are skipped. A one-off
+   * schedule whose date has passed runs on the next sweep.
+   *
+   * @param userId - Sender
+   * @param scheduleId - Schedule ID
+   * @param now - Current time
+   * @returns Updated schedule (completed if the series ended while paused)
+   *
+   * @throws AppError (404) if the user has no such schedule
+   * @throws AppError (409) if the schedule is not paused
+   */
+  static async resume(
+    userId: string,
+    scheduleId: string,
+    now: Date = new Date()
+  ): Promise<ScheduledTransfer> {
+    return withTransaction(async (trx) => {
+      const schedule = await this.lockSchedule(trx, userId, scheduleId);
+
+      if (schedule.status !== "paused") {
+        throw new AppError(409, `Scheduled transfer is ${schedule.status}, not paused`);
+      }
+
+      // A pending retry, or an occurrence still in the future, is kept as is
+      const nextRunAt = schedule.next_run_at ? new Date(schedule.next_run_at) : null;
+      if (!schedule.recurrence || schedule.retry_at || (nextRunAt && nextRunAt > now)) {
+        return this.update(trx, schedule, { status: "active" });
+      }
+
+      return this.update(trx, schedule, this.nextAfter(schedule, schedule.run_count, now));
+    });
+  }
+
+  /**
+   * Cancel an active or paused schedule
+   *
+   * @param userId - Sender
+   * @param scheduleId - Schedule ID
+   * @returns Updated schedule
+   *
+   * @throws AppError (404) if the user has no such schedule
+   * @throws AppError (409) if the schedule has already ended
+   */
+  static async cancel(userId: string, scheduleId: string): Promise<ScheduledTransfer> {
+    return withTransaction(async (trx) => {
+      const schedule = await this.lockSchedule(trx, userId, scheduleId);
+
+      if (schedule.status !== "active" && schedule.status !== "paused") {
+        throw new AppError(409, `Scheduled transfer is already ${schedule.status}`);
+      }
+
+      return this.update(trx, schedule, {
+        status: "cancelled",
+        next_run_at: null,
+        retry_at: null,
+      });
+    });
+  }
+
+  /**
+   * Execute every schedule that is due
+   *
+   * Called periodically by the server. A schedule that errors unexpectedly
+   * is logged and left for the next sweep.
+   *
+   * @param now - Current time
+   * @returns Outcomes of the executed schedules
+   */
+  static async runDue(now: Date = new Date()): Promise<ScheduledRunResult[]> {
+    const due: Array<{ id: string }> = await knex("scheduled_transfers")
+      .select("id")
+      .where({ status: "active" })
+      .where((query) =>
+        query
+          .where((pending) => pending.whereNull("retry_at").where("next_run_at", "<=", now))
+          .orWhere("retry_at", "<=", now)
+      )
+      .orderBy("next_run_at", "asc")
+      .limit(SWEEP_BATCH_SIZE);
+
+    const results: ScheduledRunResult[] = [];
+    for (const { id } of due) {
+      try {
+        const result = await this.execute(id, now);
+        if (result) {
+          results.push(result);
+        }
+      } catch (error) {
+        logger.error(`Scheduled transfer ${id} could not be executed`, error);
+      }
+    }
+
+    if (results.length > 0) {
+      const failed = results.filter((result) => result.status === "failed").length;
+      logger.info(`Executed ${results.length} scheduled transfers (${failed} failed)`);
+    }
+
+    return results;
+  }
+
+  /**
+   * Execute one due schedule
+   *
+   * The schedule row stays locked until the run is recorded, so concurrent
+   * sweeps cannot execute the same occurrence. The transfer itself commits
+   * in its own transaction; its per-occurrence reference makes a repeat
+   * after a crash detectable.
+   *
+   * @param scheduleId - Schedule ID
+   * @param now - Current time
+   * @returns Outcome, or null if the schedule is no longer due
+   */
+  static async execute(scheduleId: string, now: Date = new Date()): Promise<ScheduledRunResult | null> {
+    return withTransaction(async (trx) => {
+      const schedule: ScheduledTransfer | undefined = await trx("scheduled_transfers")
+        .where({ id: scheduleId })
+        .forUpdate()
+        .first();
+
+      // Paused, cancelled or run by another sweep since it was selected
+      const dueAt = schedule?.retry_at ?? schedule?.next_run_at;
+      if (!schedule || schedule.status !== "active" || !dueAt || new Date(dueAt) > now) {
+        return null;
+      }
+
+      const occurrence = schedule.run_count + 1;
+      const attempt = schedule.attempt_count + 1;
+      const reference = `SCHED-${schedule.id}-${occurrence}`;
+
+      let transferId: string | null = null;
+      let error: string | null = null;
+      let retryable = false;
+
+      const existing = await trx("transfers").where({ reference }).first();
+      if (existing) {
+        // Paid by an earlier attempt whose run was never recorded
+        transferId = existing.id;
+      } else {
+        try {
+          const result = await WalletService.transfer(
+            schedule.user_id,
+            schedule.recipient_user_id,
+            Money.fromStorage(schedule.amount_decimal, schedule.currency),
+            { ...schedule.metadata, scheduled_transfer_id: schedule.id, occurrence },
+            { currency: schedule.currency },
+            schedule.channel,
+            reference
+          );
+          transferId = result.transfer.id;
+        } catch (err) {
+          error = (err instanceof Error ? err.message : String(err)).slice(0, MAX_ERROR_LENGTH);
+          retryable = this.isRetryable(err);
+        }
+      }
+
+      const retryAt =
+        error && retryable && attempt < config.scheduledTransfers.maxAttempts
+          ? new Date(now.getTime() + config.scheduledTransfers.retryMinutes * 60 * 1000)
+          : null;
+
+      await trx("scheduled_transfer_runs").insert({
+        id: newId(),
+        schedule_id: schedule.id,
+        occurrence,
+        attempt,
+        scheduled_for: schedule.next_run_at,
+        status: error ? "failed" : "succeeded",
+        reference,
+        transfer_id: transferId,
+        error,
+        retry_at: retryAt,
+      });
+
+      if (retryAt) {
+        await this.update(trx, schedule, {
+          retry_at: retryAt,
+          attempt_count: attempt,
+          last_run_at: now,
+          last_error: error,
+        });
+      } else {
+        // The occurrence is settled; move on to the next one
+        const next =
+          error && !schedule.recurrence
+            ? { status: "failed" as const, next_run_at: null }
+            : this.nextAfter(schedule, occurrence, now);
+
+        await this.update(trx, schedule, {
+          ...next,
+          run_count: occurrence,
+          attempt_count: 0,
+          retry_at: null,
+          last_run_at: now,
+          last_error: error,
+        });
+      }
+
+      if (error) {
+        logger.warn(
+          `Scheduled transfer ${schedule.id} occurrence ${occurrence} attempt ${attempt} failed: ${error}`
+        );
+      }
+
+      return {
+        scheduleId: schedule.id,
+        occurrence,
+        attempt,
+        status: error ? "failed" : "succeeded",
+        transferId,
+        error,
+        retryAt,
+      };
+    });
+  }
+
+  /**
+   * Whether a failed transfer may succeed if attempted again
+   *
+   * Client errors (limits, missing wallets) will fail the same way;
+   * everything else, including insufficient funds, may clear up.
+   *
+   * @param error - Error thrown by the transfer
+   * @returns True if the occurrence should be retried
+   */
+  private static isRetryable(error: unknown): boolean {
+    return !(error instanceof AppError && error.statusCode < 500);
+  }
+
+  /**
+   * Next occurrence of a series once `runCount` occurrences have settled
+   *
+   * @param schedule - Schedule
+   * @param runCount - Occurrences settled
+   * @param now - Current time; earlier occurrences are skipped
+   * @returns Fields for an active schedule, or a completed one if the series ended
+   */
+  private static nextAfter(
+    schedule: ScheduledTransfer,
+    runCount: number,
+    now: Date
+  ): { status: ScheduledTransferStatus; next_run_at: Date | null } {
+    const completed = { status: "completed" as const, next_run_at: null };
+
+    if (!schedule.recurrence || (schedule.max_runs && runCount >= schedule.max_runs)) {
+      return completed;
+    }
+
+    const next = nextOccurrence(
+      parseRecurrence(schedule.recurrence),
+      new Date(schedule.start_at),
+      now
+    );
+
+    if (schedule.end_at && next > new Date(schedule.end_at)) {
+      return completed;
+    }
+
+    return { status: "active", next_run_at: next };
+  }
+
+  /**
+   * Lock a user's schedule
+   *
+   * @param trx - Knex transaction
+   * @param userId - Sender
+   * @param scheduleId - Schedule ID
+   * @returns Locked schedule
+   *
+   * @throws AppError (404) if the user has no such schedule
+   */
+  private static async lockSchedule(
+    trx: Knex.Transaction,
+    userId: string,
+    scheduleId: string
+  ): Promise<ScheduledTransfer> {
+    const schedule = await trx("scheduled_transfers")
+      .where({ id: scheduleId, user_id: userId })
+      .forUpdate()
+      .first();
+
+    if (!schedule) {
+      throw new AppError(404, `Scheduled transfer not found: ${scheduleId}`);
+    }
+
+    return schedule;
+  }
+
+  /**
+   * Update a locked schedule
+   *
+   * @param trx - Knex transaction
+   * @param schedule - Locked schedule
+   * @param changes - Columns to change
+   * @returns Updated schedule
+   */
+  private static async update(
+    trx: Knex.Transaction,
+    schedule: ScheduledTransfer,
+    changes: Partial<ScheduledTransfer>
+  ): Promise<ScheduledTransfer> {
+    await trx("scheduled_transfers")
+      .where({ id: schedule.id })
+      .update({ ...changes, updated_at: trx.fn.now() });
+
+    return { ...schedule, ...changes };
+  }
+}
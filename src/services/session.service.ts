@@ -0,0 +1,274 @@
+/**
+ * Session Service
+ *
+ * Server-side sessions behind short-lived access tokens.
+ *
+ * - start():   begins a session family at login and issues its first
+ *              access token and refresh token
+ * - refresh(): exchanges a refresh token for a new pair. Each refresh
+ *              token works once; using a rotated one again means it
+ *              leaked, so the whole family is revoked
+ * - revoke():  ends the family a refresh token belongs to (logout)
+ * - isActive(): whether access tokens issued to a family still work
+ *
+ * Refresh tokens are random and stored only as an HMAC, one row per
+ * token in `sessions`. Access tokens name their family (see utils/token)
+ * and last ACCESS_TOKEN_TTL_SECONDS; refresh tokens last
+ * REFRESH_TOKEN_TTL_DAYS.
+ *
+ * @module services/session.service
+ */
+
+import { createHmac, randomBytes } from "crypto";
+import { Knex } from "knex";
+import { knex, newId, withTransaction } from "../db";
+import { config } from "../config/env";
+import { generateToken } from "../utils/token";
+import { logger } from "../utils/logger";
+import { AppError } from "../middlewares/error";
+
+/**
+ * Why a session family was ended
+ */
+export type SessionRevokedReason = "logout" | "reuse_detected" | "account_disabled";
+
+/**
+ * Stored refresh token
+ */
+export interface Session {
+  id: string;
+  family_id: string;
+  user_id: string;
+  refresh_token_hash: string;
+  expires_at: Date;
+  rotated_at: Date | null;
+  revoked_at: Date | null;
+  revoked_reason: SessionRevokedReason | null;
+  created_at: Date;
+}
+
+/**
+ * Tokens issued to a session
+ */
+export interface SessionTokens {
+  userId: string;
+  /** Session family */
+  sessionId: string;
+  /** Access token */
+  token: string;
+  tokenExpiresAt: Date;
+  refreshToken: string;
+  refreshTokenExpiresAt: Date;
+}
+
+/**
+ * HMAC of a refresh token
+ */
+function hashRefreshToken(refreshToken: string): string {
+  return createHmac("sha256", config.hmacSecret).update(refreshToken).digest("hex");
+}
+
+/**
+ * Session service class
+ */
+export class SessionService {
+  /**
+   * Start a session family for a user who has logged in
+   *
+   * @param userId - Authenticated user
+   * @param now - Current time (defaults to the current time)
+   * @returns Access token and refresh token
+   */
+  static async start(userId: string, now: Date = new Date()): Promise<SessionTokens> {
+    const tokens = await this.issue(knex, userId, newId(), now);
+
+    logger.info(`Session ${tokens.sessionId} started for user ${userId}`);
+
+    return tokens;
+  }
+
+  /**
+   * Exchange a refresh token for a new access token and refresh token
+   *
+   * @param refreshToken - Refresh token from the last login or refresh
+   * @param now - Current time (defaults to the current time)
+   * @returns New tokens for the same session family
+   * @throws AppError (401) if the token is unknown, expired, already used or revoked
+   *         (an already used token also revokes its family)
+   */
+  static async refresh(refreshToken: string, now: Date = new Date()): Promise<SessionTokens> {
+    const session: Session | undefined = await knex("sessions")
+      .where({ refresh_token_hash: hashRefreshToken(refreshToken) })
+      .first();
+
+    if (!session) {
+      throw new AppError(401, "Invalid refresh token");
+    }
+
+    if (session.revoked_at) {
+      throw new AppError(401, "Session has been revoked");
+    }
+
+    if (session.rotated_at) {
+      await this.revokeReused(session, now);
+    }
+
+    if (new Date(session.expires_at).getTime() <= now.getTime()) {
+      throw new AppError(401, "Refresh token has expired");
+    }
+
+    const tokens = await withTransaction(async (trx) => {
+      // Claim the token; a concurrent refresh with the same token loses
+      const claimed = await trx("sessions")
+        .where({ id: session.id, rotated_at: null, revoked_at: null })
+        .update({ rotated_at: now });
+
+      if (!claimed) {
+        return null;
+      }
+
+      return this.issue(trx, session.user_id, session.family_id, now);
+    });
+
+    if (!tokens) {
+      return this.revokeReused(session, now);
+    }
+
+    return tokens;
+  }
+
+  /**
+   * End the session family a refresh token belongs to (logout)
+   *
+   * @param refreshToken - Refresh token of the session
+   * @param now - Current time (defaults to the current time)
+   * @returns true if a session was ended, false if the token is unknown or already revoked
+   */
+  static async revoke(refreshToken: string, now: Date = new Date()): Promise<boolean> {
+    const session: Session | undefined = await knex("sessions")
+      .where({ refresh_token_hash: hashRefreshToken(refreshToken) })
+      .first();
+
+    if (!session) {
+      return false;
+    }
+
+    const revoked = await this.revokeFamily(session.family_id, "logout", now);
+
+    if (revoked > 0) {
+      logger.info(`Session ${session.family_id} of user ${session.user_id} logged out`);
+    }
+
+    return revoked > 0;
+  }
+
+  /**
+   * End a session family
+   *
+   * @param familyId - Session family
+   * @param reason - Why it is ended
+   * @param now - Current time (defaults to the current time)
+   * @returns Number of refresh tokens revoked (0 if already revoked)
+   */
+  static async revokeFamily(
+    familyId: string,
+    reason: SessionRevokedReason,
+    now: Date = new Date()
+  ): Promise<number> {
+    return knex("sessions")
+      .where({ family_id: familyId, revoked_at: null })
+      .update({ revoked_at: now, revoked_reason: reason });
+  }
+
+  /**
+   * Check whether access tokens issued to a session family still work
+   *
+   * @param familyId - Session family named in the access token
+   * @returns false once the family is revoked (or its tokens are purged)
+   */
+  static async isActive(familyId: string): Promise<boolean> {
+    const session = await knex("sessions")
+      .where({ family_id: familyId, revoked_at: null })
+      .first("id");
+
+    return Boolean(session);
+  }
+
+  /**
+   * Delete all expired refresh tokens
+   *
+   * Rotated tokens are kept until they expire so reuse can be detected.
+   *
+   * @returns Number of deleted records
+   */
+  static async purgeExpired(): Promise<number> {
+    const deleted = await knex("sessions")
+      .where("expires_at", "<=", knex.fn.now())
+      .delete();
+
+    if (deleted > 0) {
+      logger.info(`Purged ${deleted} expired refresh tokens`);
+    }
+
+    return deleted;
+  }
+
+  /**
+   * Revoke the family of a refresh token that was used twice
+   *
+   * @param session - Reused refresh token
+   * @param now - Current time
+   * @throws AppError (401) always
+   */
+  private static async revokeReused(session: Session, now: Date): Promise<never> {
+    await this.revokeFamily(session.family_id, "reuse_detected", now);
+
+    logger.warn(
+      `Refresh token ${session.id} of session ${session.family_id} was reused; ` +
+        `session revoked for user ${session.user_id}`
+    );
+
+    throw new AppError(401, "Refresh token has already been used; the session has been revoked");
+  }
+
+  /**
+   * Store a new refresh token for a session family and sign an access token
+   *
+   * @param db - Knex instance or transaction
+   * @param userId - User the session belongs to
+   * @param familyId - Session family
+   * @param now - Current time
+   * @returns Tokens issued
+   */
+  private static async issue(
+    db: Knex | Knex.Transaction,
+    userId: string,
+    familyId: string,
+    now: Date
+  ): Promise<SessionTokens> {
+    const refreshToken = randomBytes(32).toString("base64url");
+    const refreshTokenExpiresAt = new Date(now.getTime() + config.auth.refreshTokenTtlDays * 86400 * 1000);
+    const tokenExpiresAt = new Date(now.getTime() + config.auth.accessTokenTtlSeconds * 1000);
+
+    await db("sessions").insert({
+      id: newId(),
+      family_id: familyId,
+      user_id: userId,
+      refresh_token_hash: hashRefreshToken(refreshToken),
+      expires_at: refreshTokenExpiresAt,
+      rotated_at: null,
+      revoked_at: null,
+      revoked_reason: null,
+      created_at: now,
+    });
+
+    return {
+      userId,
+      sessionId: familyId,
+      token: generateToken(userId, familyId, tokenExpiresAt),
+      tokenExpiresAt,
+      refreshToken,
+      refreshTokenExpiresAt,
+    };
+  }
+}
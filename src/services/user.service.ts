@@ -6,7 +6,10 @@
  * @module services/user.service
  */
 
+import { Knex } from "knex";
 import { knex } from "../db";
+import { UserTier } from "../config/userTiers";
+import { AppError } from "../middlewares/error";
 
 /**
  * User data interface
@@ -16,11 +19,32 @@ export interface User {
   name: string;
   email: string;
   phone: string;
+  handle: string | null;
   status: "active" | "blocked" | "blacklisted";
+  role: "user" | "admin";
+  tier: UserTier;
   created_at: Date;
   updated_at: Date;
 }
 
+/**
+ * Kind of identifier a sender can address a transfer to
+ */
+export type RecipientIdentifierType = "email" | "phone" | "handle";
+
+/**
+ * User found from a recipient identifier
+ */
+export interface ResolvedRecipient {
+  user: User;
+  type: RecipientIdentifierType;
+}
+
+/**
+ * Handle format (stored without the leading @)
+ */
+const HANDLE_PATTERN = /^[a-z][a-z0-9_]{2,29}$/;
+
 /**
  * User service class
  */
@@ -93,5 +117,146 @@ export class UserService {
     const user = await this.getUserByPhone(phone);
     return user !== null;
   }
+
+  /**
+   * Normalise a handle for storage and lookup (lowercase, no leading @)
+   * 
+   * @param handle - Handle as typed, e.g. "@Ada_Pays"
+   * @returns Normalised handle, e.g. "ada_pays"
+   */
+  static normalizeHandle(handle: string): string {
+    return handle.trim().replace(/^@/, "").toLowerCase();
+  }
+
+  /**
+   * Get user by handle
+   * 
+   * @param handle - Handle, with or without the leading @
+   * @returns User data or null
+   */
+  static async getUserByHandle(handle: string): Promise<User | null> {
+    const user = await knex("users")
+      .where({ handle: this.normalizeHandle(handle) })
+      .first();
+
+    return user || null;
+  }
+
+  /**
+   * Set or change a user's handle
+   * 
+   * @param userId - User UUID
+   * @param handle - New handle, with or without the leading @
+   * @returns Updated user
+   * 
+   * @throws AppError (400) if the handle format is invalid
+   * @throws AppError (409) if another user has the handle
+   */
+  static async setHandle(userId: string, handle: string): Promise<User> {
+    const normalized = this.normalizeHandle(handle);
+
+    if (!HANDLE_PATTERN.test(normalized)) {
+      throw new AppError(
+        400,
+        "Handle must be 3-30 characters: a letter followed by letters, digits or underscores"
+      );
+    }
+
+    const owner = await this.getUserByHandle(normalized);
+    if (owner && owner.id !== userId) {
+      throw new AppError(409, `Handle @${normalized} is already taken`);
+    }
+
+    await knex("users")
+      .where({ id: userId })
+      .update({ handle: normalized, updated_at: knex.fn.now() });
+
+    return this.getUserById(userId);
+  }
+
+  /**
+   * Work out what kind of identifier a sender typed
+   * 
+   * An address with an @ after its first character is an email, digits
+   * (optionally with a leading + and spaces or dashes) are a phone number,
+   * anything else is a handle.
+   * 
+   * @param identifier - Email, phone number or handle
+   * @returns Identifier type
+   */
+  static identifierType(identifier: string): RecipientIdentifierType {
+    const value = identifier.trim();
+
+    if (value.indexOf("@") > 0) {
+      return "email";
+    }
+    if (/^\+?[\d\s-]+$/.test(value)) {
+      return "phone";
+    }
+    return "handle";
+  }
+
+  /**
+   * Find the user a transfer is addressed to and check they can receive it
+   * 
+   * @param identifier - Email, phone number or handle
+   * @returns Recipient and how they were found
+   * 
+   * @throws AppError (404) if no user matches
+   * @throws AppError (422) if the user is blocked or blacklisted
+   */
+  static async resolveRecipient(identifier: string): Promise<ResolvedRecipient> {
+    const type = this.identifierType(identifier);
+    const value = identifier.trim();
+
+    const user =
+      type === "email"
+        ? await this.getUserByEmail(value)
+        : type === "phone"
+          ? await this.getUserByPhone(value.replace(/[\s-]/g, ""))
+          : await this.getUserByHandle(value);
+
+    if (!user) {
+      throw new AppError(404, `No user found with ${type} ${value}`);
+    }
+    this.assertActiveRecipient(user);
+
+    return { user, type };
+  }
+
+  /**
+   * Check that a user can receive a transfer
+   * 
+   * @param db - Knex instance or transaction
+   * @param userId - Recipient user ID
+   * 
+   * @throws AppError (404) if the user does not exist
+   * @throws AppError (422) if the user is blocked or blacklisted
+   */
+  static async assertCanReceive(db: Knex | Knex.Transaction, userId: string): Promise<void> {
+    const user: Pick<User, "id" | "status"> | undefined = await db("users")
+      .select("id", "status")
+      .where({ id: userId })
+      .first();
+
+    if (!user) {
+      throw new AppError(404, `Recipient not found: ${userId}`);
+    }
+    this.assertActiveRecipient(user);
+  }
+
+  /**
+   * Reject blocked and blacklisted recipients
+   * 
+   * The reason is not disclosed to the sender.
+   * 
+   * @param user - Recipient
+   * @throws AppError (422) if the user is not active
+   */
+  private static assertActiveRecipient(user: Pick<User, "status">): void {
+    if (user.status !== "active") {
+      throw new AppError(422, "Recipient cannot receive transfers");
+    }
+  }
 }
 
@@ -0,0 +1,154 @@
+/**
+ * Wallet Status Service
+ *
+ * Compliance restrictions on a single wallet, without blocking the user:
+ *
+ * - active         - no restriction
+ * - frozen         - no money in or out
+ * - post_no_debit  - money can come in but not go out (PND)
+ * - closed         - retired for good; only an empty wallet (no balance,
+ *                    holds or savings pot funds) can be closed
+ *
+ * Every change is made by an admin with a reason and recorded in
+ * `wallet_status_history`. The restrictions themselves are enforced
+ * wherever money moves (WalletService.assertCanDebit / assertCanCredit).
+ *
+ * @module services/wallet-status.service
+ */
+
+import { knex, newId, withTransaction } from "../db";
+import { logger } from "../utils/logger";
+import { AppError } from "../middlewares/error";
+import { Money } from "../utils/money";
+import { Wallet, WalletStatus } from "./wallet.service";
+
+/**
+ * Wallet status change record
+ */
+export interface WalletStatusChange {
+  id: string;
+  wallet_id: string;
+  from_status: WalletStatus;
+  to_status: WalletStatus;
+  reason: string;
+  changed_by: string;
+  created_at: Date;
+}
+
+/**
+ * Result of a status change
+ */
+export interface WalletStatusResult {
+  wallet: Wallet;
+  change: WalletStatusChange;
+}
+
+/**
+ * Wallet status service class
+ */
+export class WalletStatusService {
+  /**
+   * Change a wallet's status
+   *
+   * @param walletId - Wallet ID
+   * @param status - New status
+   * @param reason - Why the status is being changed
+   * @param changedBy - Admin making the change
+   * @returns Updated wallet and the recorded change
+   *
+   * @throws AppError (400) if no reason is given
+   * @throws AppError (404) if the wallet does not exist
+   * @throws AppError (409) if the wallet already has the status, is closed,
+   *   or (when closing) still holds funds
+   */
+  static async setStatus(
+    walletId: string,
+    status: WalletStatus,
+    reason: string,
+    changedBy: string
+  ): Promise<WalletStatusResult> {
+    if (!reason || reason.trim().length === 0) {
+      throw new AppError(400, "Status change reason is required");
+    }
+
+    return withTransaction(async (trx) => {
+      const wallet: Wallet | undefined = await trx("wallets")
+        .where({ id: walletId })
+        .forUpdate()
+        .first();
+
+      if (!wallet) {
+        throw new AppError(404, `Wallet not found: ${walletId}`);
+      }
+      if (wallet.status === "closed") {
+        throw new AppError(409, `Wallet ${walletId} is closed and cannot be reopened`);
+      }
+      if (wallet.status === status) {
+        throw new AppError(409, `Wallet ${walletId} is already ${status}`);
+      }
+
+      if (status === "closed") {
+        const balance = Money.fromStorage(wallet.balance_decimal, wallet.currency);
+        if (!balance.isZero()) {
+          throw new AppError(409, `Wallet ${walletId} still holds ${balance}; move the funds out before closing it`);
+        }
+        if (!Money.fromStorage(wallet.held_decimal, wallet.currency).isZero()) {
+          throw new AppError(409, `Wallet ${walletId} has active holds; release them before closing it`);
+        }
+
+        // Savings pots hang off a main wallet, so they must be emptied first
+        const row = await trx("wallets")
+          .where({ parent_wallet_id: walletId })
+          .sum({ total: "balance_decimal" })
+          .first();
+        const pots = row?.total ? Money.fromStorage(String(row.total), wallet.currency) : Money.zero(wallet.currency);
+        if (!pots.isZero()) {
+          throw new AppError(409, `Wallet ${walletId} has ${pots} in savings pots; empty them before closing it`);
+        }
+      }
+
+      await trx("wallets").where({ id: walletId }).update({ status, updated_at: trx.fn.now() });
+
+      const changeId = newId();
+      await trx("wallet_status_history").insert({
+        id: changeId,
+        wallet_id: walletId,
+        from_status: wallet.status,
+        to_status: status,
+        reason: reason.trim(),
+        changed_by: changedBy,
+        created_at: trx.fn.now(),
+      });
+
+      const [updatedWallet, change] = await Promise.all([
+        trx("wallets").where({ id: walletId }).first(),
+        trx("wallet_status_history").where({ id: changeId }).first(),
+      ]);
+
+      logger.info(`Wallet ${walletId} moved from ${wallet.status} to ${status} by ${changedBy}: ${reason.trim()}`);
+
+      return { wallet: updatedWallet, change };
+    });
+  }
+
+  /**
+   * A wallet's status changes, newest first
+   *
+   * @param walletId - Wallet ID
+   * @returns Status changes
+   *
+   * @throws AppError (404) if the wallet does not exist
+   */
+  static async listHistory(walletId: string): Promise<WalletStatusChange[]> {
+    const wallet = await knex("wallets").select("id").where({ id: walletId }).first();
+
+    if (!wallet) {
+      throw new AppError(404, `Wallet not found: ${walletId}`);
+    }
+
+    return knex("wallet_status_history")
+      .where({ wallet_id: walletId })
+      .orderBy("created_at", "desc")
+      .orderBy("id", "desc");
+  }
+}
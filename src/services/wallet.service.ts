@@ -4,12 +4,28 @@
  * Handles wallet operations with transaction safety.
  * All money operations must use MySQL transactions with row-level locking.
  * 
+ * A user may hold one wallet per supported currency. Operations address a
+ * wallet by ID or by currency (see WalletSelector); without either they use
+ * the user's DEFAULT_CURRENCY wallet.
+ * 
  * Key principles:
- * - Use DECIMAL for all amounts (no floating point)
+ * - Use DECIMAL for all amounts and Money (BigInt) for all arithmetic (no floating point)
  * - Lock wallets with SELECT FOR UPDATE
  * - Order locks by wallet ID to prevent deadlocks
  * - Use unique references for idempotency
  * - Insert transaction log before updating balance
+ * - Post a balanced ledger journal in the same DB transaction
+ * 
+ * Withdrawals and transfers are priced by FeeService; a fee is debited on
+ * top of the amount and collected into the revenue wallet in the same DB
+ * transaction.
+ * 
+ * Every credit, withdrawal and transfer is checked against the user's tier
+ * limits (LimitService) after the wallets are locked.
+ * 
+ * Every movement also respects the wallet's status: frozen and closed
+ * wallets take no debits or credits, post-no-debit wallets take credits
+ * only (see WalletStatusService for changing it).
  * 
  * @module services/wallet.service
  */
@@ -18,29 +34,88 @@ import { Knex } from "knex";
 import { randomBytes } from "crypto";
 import { knex, newId, withTransaction } from "../db";
 import { logger } from "../utils/logger";
+import { AppError } from "../middlewares/error";
+import { Money } from "../utils/money";
+import { DEFAULT_CURRENCY, isSupportedCurrency } from "../config/currencies";
+import { FeeChannel } from "../config/fees";
+import { LedgerService } from "./ledger.service";
+import { FeeService, FeeBreakdown } from "./fee.service";
+import { LimitService } from "./limit.service";
+import { UserService } from "./user.service";
+
+/**
+ * Wallet status
+ * 
+ * - active: no restriction
+ * - frozen: no money in or out
+ * - post_no_debit: money can come in but not go out
+ * - closed: emptied and retired; no money in or out
+ */
+export type WalletStatus = "active" | "frozen" | "post_no_debit" | "closed";
 
 /**
  * Wallet data interface
+ * 
+ * `balance_decimal` is the ledger balance; `held_decimal` is the part of it
+ * reserved by active holds (see HoldService). `parent_wallet_id` is set on
+ * savings pot sub-wallets (see SavingsPotService) and null on main wallets.
  */
-interface Wallet {
+export interface Wallet {
   id: string;
   user_id: string;
+  parent_wallet_id: string | null;
   balance_decimal: string;
+  held_decimal: string;
   currency: string;
+  status: WalletStatus;
   created_at: Date;
   updated_at: Date;
 }
 
+/**
+ * Identifies one of a user's wallets
+ * 
+ * `walletId` takes precedence; otherwise the wallet in `currency` (default
+ * DEFAULT_CURRENCY) is used.
+ */
+export interface WalletSelector {
+  walletId?: string;
+  currency?: string;
+}
+
+/**
+ * Wallet selection for a transfer
+ * 
+ * `currency` selects the same-currency wallet on both sides; wallet IDs
+ * select each side explicitly.
+ */
+export interface TransferWalletSelector {
+  currency?: string;
+  fromWalletId?: string;
+  toWalletId?: string;
+}
+
 /**
  * Transaction data interface
  */
-interface Transaction {
+export interface Transaction {
   id: string;
   wallet_id: string;
-  type: "credit" | "debit" | "transfer-in" | "transfer-out";
+  type:
+    | "credit"
+    | "debit"
+    | "transfer-in"
+    | "transfer-out"
+    | "reversal"
+    | "conversion-out"
+    | "conversion-in"
+    | "fee-income"
+    | "fee";
   amount_decimal: string;
   balance_after: string;
   reference: string;
+  /** Transaction reversed by this row (reversal type only) */
+  reversal_of?: string | null;
   metadata: any;
   created_at: Date;
 }
@@ -48,16 +123,98 @@ interface Transaction {
 /**
  * Transfer data interface
  */
-interface Transfer {
+export interface Transfer {
   id: string;
   from_wallet_id: string;
   to_wallet_id: string;
   amount_decimal: string;
-  status: "pending" | "completed" | "failed";
+  status: "pending" | "completed" | "failed" | "reversed";
   reference: string;
   created_at: Date;
 }
 
+/**
+ * Result of a completed transfer
+ */
+export interface TransferResult {
+  transfer: Transfer;
+  fromWallet: Wallet;
+  toWallet: Wallet;
+  transactions: Transaction[];
+  reference: string;
+  fee: FeeBreakdown;
+  feeTransaction: Transaction | null;
+}
+
+/**
+ * Transaction history filters and pagination options
+ */
+export interface TransactionHistoryOptions {
+  /** Page size (1-100, default 20) */
+  limit?: number;
+  /** Opaque cursor returned as `nextCursor` by the previous page */
+  cursor?: string;
+  /** Only include these transaction types */
+  types?: Transaction["type"][];
+  /** Inclusive lower bound on created_at */
+  from?: Date;
+  /** Exclusive upper bound on created_at */
+  to?: Date;
+  /** Inclusive minimum amount (decimal string) */
+  minAmount?: string;
+  /** Inclusive maximum amount (decimal string) */
+  maxAmount?: string;
+  /** Only include references starting with this prefix */
+  referencePrefix?: string;
+}
+
+/**
+ * Page of transaction history
+ */
+export interface TransactionHistoryPage {
+  transactions: Transaction[];
+  /** Cursor for the next page, or null when this is the last page */
+  nextCursor: string | null;
+}
+
+/**
+ * Options for reversing a transaction or transfer
+ */
+export interface ReversalOptions {
+  /** Let the reversal take a wallet below zero (explicit admin override) */
+  allowNegativeBalance?: boolean;
+  /** ID of the staff user performing the reversal (recorded in metadata) */
+  reversedBy?: string;
+}
+
+/**
+ * Result of a reversal
+ */
+export interface ReversalResult {
+  /** Reference of the reversal (transfer reversals suffix it with -OUT/-IN) */
+  reference: string;
+  /** Compensating transactions that were posted */
+  transactions: Transaction[];
+  /** Reversed transfer, if the target was a transfer */
+  transfer: Transfer | null;
+}
+
+/**
+ * How each restricted status reads in error messages
+ */
+const STATUS_LABELS: Record<WalletStatus, string> = {
+  active: "active",
+  frozen: "frozen",
+  post_no_debit: "post-no-debit",
+  closed: "closed",
+};
+
+/**
+ * Transaction history page size bounds
+ */
+const DEFAULT_HISTORY_LIMIT = 20;
+const MAX_HISTORY_LIMIT = 100;
+
 /**
  * Wallet service class
  */
@@ -76,8 +233,8 @@ export class WalletService {
    * // Returns: "FUND-user-123-1699564800000-A1B2C3D4"
    * ```
    */
-  private static generateReference(
-    type: 'FUND' | 'WITHDRAW' | 'TRANSFER',
+  static generateReference(
+    type: 'FUND' | 'WITHDRAW' | 'TRANSFER' | 'REVERSAL' | 'HOLD' | 'FX' | 'POT',
     userId: string
   ): string {
     const timestamp = Date.now();
@@ -86,22 +243,56 @@ export class WalletService {
     return `${type}-${userIdShort}-${timestamp}-${random}`;
   }
 
+  /**
+   * Normalise an amount argument to Money
+   * 
+   * Client amounts arrive as decimal strings and are validated for the
+   * currency's scale; internal callers may pass Money directly.
+   * 
+   * @param amount - Decimal string or Money
+   * @param currency - Currency the amount is expressed in
+   * @returns Money value
+   * @throws AppError if the amount is malformed, not positive, or too precise
+   */
+  static toMoney(amount: string | Money, currency: string): Money {
+    if (amount instanceof Money) {
+      if (!amount.isPositive()) {
+        throw new AppError(400, "Amount must be positive");
+      }
+      if (amount.currency !== currency) {
+        throw new AppError(422, `Amount is in ${amount.currency} but the wallet is in ${currency}`);
+      }
+      return amount;
+    }
+
+    return Money.parse(amount, currency);
+  }
+
   /**
    * Create a new wallet for a user
-   * Should be called within a transaction during user creation
+   * Called within the signup transaction (default currency), by openWallet
+   * and by SavingsPotService (sub-wallets)
    * 
    * @param userId - User ID
    * @param trx - Knex transaction
+   * @param currency - Wallet currency (default DEFAULT_CURRENCY)
+   * @param parentWalletId - Main wallet, when creating a savings pot sub-wallet
    * @returns Created wallet
    */
-  static async createWallet(userId: string, trx: Knex.Transaction): Promise<Wallet> {
+  static async createWallet(
+    userId: string,
+    trx: Knex.Transaction,
+    currency: string = DEFAULT_CURRENCY,
+    parentWalletId: string | null = null
+  ): Promise<Wallet> {
     const walletId = newId();
 
     await trx("wallets").insert({
       id: walletId,
       user_id: userId,
+      parent_wallet_id: parentWalletId,
       balance_decimal: "0.000000",
-      currency: "NGN",
+      currency,
       created_at: trx.fn.now(),
       updated_at: trx.fn.now(),
     });
@@ -113,25 +304,84 @@ export class WalletService {
       throw new Error("Failed to create wallet");
     }
 
-    logger.info(`Created wallet ${walletId} for user ${userId}`);
+    logger.info(`Created ${currency} wallet ${walletId} for user ${userId}`);
     return wallet;
   }
 
   /**
-   * Get wallet by user ID with optional locking
+   * Open an additional wallet for a user in another currency
+   * 
+   * @param userId - User ID
+   * @param currency - ISO currency code
+   * @returns Created wallet
+   * 
+   * @throws AppError (400) if the currency is not supported
+   * @throws AppError (404) if the user does not exist
+   * @throws AppError (409) if the user already has a wallet in that currency
+   */
+  static async openWallet(userId: string, currency: string): Promise<Wallet> {
+    if (!isSupportedCurrency(currency)) {
+      throw new AppError(400, `Unsupported currency: ${currency}`);
+    }
+
+    return withTransaction(async (trx) => {
+      // Lock the user row so two concurrent opens cannot both pass the check
+      const user = await trx("users").where({ id: userId }).forUpdate().first();
+
+      if (!user) {
+        throw new AppError(404, `User not found: ${userId}`);
+      }
+
+      const existing = await trx("wallets")
+        .where({ user_id: userId, currency, parent_wallet_id: null })
+        .first();
+
+      if (existing) {
+        throw new AppError(409, `User already has a ${currency} wallet`);
+      }
+
+      return this.createWallet(userId, trx, currency);
+    });
+  }
+
+  /**
+   * List all of a user's wallets
+   * 
+   * Savings pot sub-wallets are not included (see SavingsPotService).
+   * 
+   * @param userId - User ID
+   * @returns Wallets ordered by creation time
+   */
+  static async listWallets(userId: string): Promise<Wallet[]> {
+    return knex("wallets")
+      .where({ user_id: userId, parent_wallet_id: null })
+      .orderBy("created_at", "asc");
+  }
+
+  /**
+   * Get one of a user's wallets with optional locking
+   * 
+   * Only main wallets match; savings pot sub-wallets are reached through
+   * SavingsPotService, so transfers and withdrawals cannot bypass a pot's lock.
    * 
    * @param userId - User ID
    * @param trx - Optional Knex transaction
    * @param forUpdate - Whether to lock the row (SELECT FOR UPDATE)
+   * @param selector - Wallet ID or currency (default: DEFAULT_CURRENCY wallet)
    * @returns Wallet or null
    */
-  private static async getWalletByUserId(
+  static async getWalletByUserId(
     userId: string,
     trx?: Knex.Transaction,
-    forUpdate: boolean = false
+    forUpdate: boolean = false,
+    selector: WalletSelector = {}
   ): Promise<Wallet | null> {
     const query = (trx || knex)("wallets")
-      .where({ user_id: userId })
+      .where(
+        selector.walletId
+          ? { user_id: userId, id: selector.walletId, parent_wallet_id: null }
+          : { user_id: userId, currency: selector.currency ?? DEFAULT_CURRENCY, parent_wallet_id: null }
+      )
       .first();
 
     if (forUpdate && trx) {
@@ -142,6 +392,88 @@ export class WalletService {
     return wallet || null;
   }
 
+  /**
+   * Currency of the wallet a selector picks
+   * 
+   * Reads a wallet chosen by ID without locking it; otherwise the selector's
+   * currency, or DEFAULT_CURRENCY.
+   * 
+   * @param trx - Knex transaction
+   * @param userId - Wallet owner
+   * @param selector - Wallet ID or currency
+   * @returns Currency code
+   */
+  private static async selectedCurrency(
+    trx: Knex.Transaction,
+    userId: string,
+    selector: WalletSelector
+  ): Promise<string> {
+    if (!selector.walletId) {
+      return selector.currency ?? DEFAULT_CURRENCY;
+    }
+
+    const wallet = await this.getWalletByUserId(userId, trx, false, { walletId: selector.walletId });
+    return wallet?.currency ?? DEFAULT_CURRENCY;
+  }
+
+  /**
+   * Error for a wallet lookup that found nothing
+   * 
+   * @param userId - User ID
+   * @param selector - Wallet selector that was used
+   * @returns AppError (404)
+   */
+  private static walletNotFound(userId: string, selector: WalletSelector = {}): AppError {
+    const which = selector.walletId ?? selector.currency ?? DEFAULT_CURRENCY;
+    return new AppError(404, `Wallet not found for user: ${userId} (${which})`);
+  }
+
+  /**
+   * Available balance of a wallet
+   * 
+   * The ledger balance less the funds reserved by active holds. Withdrawals,
+   * transfers and new holds are limited by this figure.
+   * 
+   * @param wallet - Wallet row
+   * @returns Available balance
+   */
+  static availableBalance(wallet: Wallet): Money {
+    return Money.fromStorage(wallet.balance_decimal, wallet.currency).subtract(
+      Money.fromStorage(wallet.held_decimal, wallet.currency)
+    );
+  }
+
+  /**
+   * Check that money can leave a wallet
+   * 
+   * Called on the locked wallet before any debit, transfer out or hold.
+   * 
+   * @param wallet - Wallet row
+   * @throws AppError (403) if the wallet is frozen, post-no-debit or closed
+   */
+  static assertCanDebit(wallet: Wallet): void {
+    if (wallet.status === "frozen" || wallet.status === "post_no_debit" || wallet.status === "closed") {
+      throw new AppError(403, `Wallet ${wallet.id} is ${STATUS_LABELS[wallet.status]}; debits are not allowed`);
+    }
+  }
+
+  /**
+   * Check that money can arrive in a wallet
+   * 
+   * A recipient's wallet status is not disclosed to the sender.
+   * 
+   * @param wallet - Wallet row
+   * @param recipient - Whether the wallet belongs to someone other than the caller
+   * @throws AppError (403) if the wallet is frozen or closed, or (422) for a recipient
+   */
+  static assertCanCredit(wallet: Wallet, recipient: boolean = false): void {
+    if (wallet.status === "frozen" || wallet.status === "closed") {
+      throw recipient
+        ? new AppError(422, "Recipient wallet cannot receive transfers")
+        : new AppError(403, `Wallet ${wallet.id} is ${STATUS_LABELS[wallet.status]}; credits are not allowed`);
+    }
+  }
+
   /**
    * Fund a wallet (credit)
    * 
@@ -149,17 +481,22 @@ export class WalletService {
    * Automatically generates a unique reference for idempotency.
    * 
    * @param userId - User ID
-   * @param amount - Amount to credit (must be positive)
+   * @param amount - Amount to credit as a decimal string or Money (must be positive)
    * @param metadata - Optional metadata
-   * @returns Updated wallet, transaction details, and generated reference
+   * @param selector - Wallet ID or currency (default: DEFAULT_CURRENCY wallet)
+   * @param reference - Transaction reference (default: generated; callers pass
+   *   their own to make a credit happen at most once)
+   * @returns Updated wallet, transaction details, and reference
    * 
    * @throws Error if amount is invalid or wallet not found
+   * @throws AppError (403) if the wallet is frozen or closed
+   * @throws LimitExceededError (422) if the tier's maximum balance would be exceeded
    * 
    * @example
    * ```typescript
    * const result = await WalletService.fund(
    *   "user-123",
-   *   10000.50,
+   *   "10000.50",
    *   { source: "bank_transfer" }
    * );
    * console.log(result.reference); // "FUND-user-123-1699564800000-A1B2C3D4"
@@ -168,32 +505,32 @@ export class WalletService {
    */
   static async fund(
     userId: string,
-    amount: number,
-    metadata?: any
+    amount: string | Money,
+    metadata?: any,
+    selector: WalletSelector = {},
+    reference: string = this.generateReference('FUND', userId)
   ): Promise<{ wallet: Wallet; transaction: Transaction; reference: string }> {
-    // Validate amount
-    if (amount <= 0) {
-      throw new Error("Amount must be positive");
-    }
-
-    // Convert to decimal string (6 decimal places)
-    const amountDecimal = amount.toFixed(6);
-
-    // Generate unique reference
-    const reference = this.generateReference('FUND', userId);
-
     return withTransaction(async (trx) => {
 
       // Lock wallet with SELECT FOR UPDATE
-      const wallet = await this.getWalletByUserId(userId, trx, true);
+      const wallet = await this.getWalletByUserId(userId, trx, true, selector);
       
       if (!wallet) {
-        throw new Error(`Wallet not found for user: ${userId}`);
+        throw this.walletNotFound(userId, selector);
       }
+      this.assertCanCredit(wallet);
+
+      // Validate amount (exact decimal, scale checked against the wallet currency)
+      const money = this.toMoney(amount, wallet.currency);
+      const amountDecimal = money.toStorageString();
 
       // Calculate new balance
-      const currentBalance = parseFloat(wallet.balance_decimal);
-      const newBalance = (currentBalance + amount).toFixed(6);
+      const currentBalance = Money.fromStorage(wallet.balance_decimal, wallet.currency);
+      const newBalanceMoney = currentBalance.add(money);
+      const newBalance = newBalanceMoney.toStorageString();
+
+      // Enforce the tier's maximum balance
+      await LimitService.assertCanReceive(trx, wallet, money, newBalanceMoney);
 
       // Insert transaction record BEFORE updating balance (fintech pattern)
       const transactionId = newId();
@@ -208,6 +545,17 @@ export class WalletService {
         created_at: trx.fn.now(),
       });
 
+      // Ledger: money arrives through funding clearing into the wallet
+      await LedgerService.postJournal(trx, {
+        reference,
+        description: "Wallet funding",
+        legs: [
+          { account: { system: "FUNDING_CLEARING", currency: wallet.currency }, direction: "debit", amount: money },
+          { account: { walletId: wallet.id, currency: wallet.currency }, direction: "credit", amount: money },
+        ],
+      });
+      await LedgerService.assertWalletBalance(trx, wallet.id, newBalanceMoney);
+
       // Update wallet balance
       await trx("wallets")
         .where({ id: wallet.id })
@@ -232,21 +580,25 @@ export class WalletService {
    * Withdraw from a wallet (debit)
    * 
    * Removes money from a user's wallet in a transaction-safe manner.
-   * Validates sufficient balance before withdrawal.
+   * Validates sufficient balance (amount plus fee) before withdrawal.
    * Automatically generates a unique reference for idempotency.
    * 
    * @param userId - User ID
-   * @param amount - Amount to debit (must be positive)
+   * @param amount - Amount to debit as a decimal string or Money (must be positive)
    * @param metadata - Optional metadata
-   * @returns Updated wallet, transaction details, and generated reference
+   * @param selector - Wallet ID or currency (default: DEFAULT_CURRENCY wallet)
+   * @param channel - Channel the request came through (selects the fee rule)
+   * @returns Updated wallet, transaction details, fee, and generated reference
    * 
    * @throws Error if amount is invalid, insufficient funds, or wallet not found
+   * @throws AppError (403) if the wallet is frozen, post-no-debit or closed
+   * @throws LimitExceededError (403) if a tier limit would be exceeded
    * 
    * @example
    * ```typescript
    * const result = await WalletService.withdraw(
    *   "user-123",
-   *   5000.00,
+   *   "5000.00",
    *   { destination: "bank_account" }
    * );
    * console.log(result.reference); // "WITHDRAW-user-123-1699564800000-A1B2C3D4"
@@ -254,37 +606,63 @@ export class WalletService {
    */
   static async withdraw(
     userId: string,
-    amount: number,
-    metadata?: any
-  ): Promise<{ wallet: Wallet; transaction: Transaction; reference: string }> {
-    // Validate amount
-    if (amount <= 0) {
-      throw new Error("Amount must be positive");
-    }
-
-    const amountDecimal = amount.toFixed(6);
-
+    amount: string | Money,
+    metadata?: any,
+    selector: WalletSelector = {},
+    channel?: FeeChannel
+  ): Promise<{
+    wallet: Wallet;
+    transaction: Transaction;
+    reference: string;
+    fee: FeeBreakdown;
+    feeTransaction: Transaction | null;
+  }> {
     // Generate unique reference
     const reference = this.generateReference('WITHDRAW', userId);
 
     return withTransaction(async (trx) => {
-      // Lock wallet with SELECT FOR UPDATE
-      const wallet = await this.getWalletByUserId(userId, trx, true);
+      // Lock wallet with SELECT FOR UPDATE (and the fee revenue wallet, in user_id order)
+      const currency = await this.selectedCurrency(trx, userId, selector);
+      const { locked, revenueWallet } = await FeeService.lockWithRevenueWallet(
+        trx,
+        [userId],
+        currency,
+        (id) => this.getWalletByUserId(id, trx, true, selector)
+      );
+      const wallet = locked.get(userId);
       
       if (!wallet) {
-        throw new Error(`Wallet not found for user: ${userId}`);
+        throw this.walletNotFound(userId, selector);
       }
+      this.assertCanDebit(wallet);
+
+      // Validate amount (exact decimal, scale checked against the wallet currency)
+      const money = this.toMoney(amount, wallet.currency);
+      const amountDecimal = money.toStorageString();
 
-      // Check sufficient balance
-      const currentBalance = parseFloat(wallet.balance_decimal);
-      if (currentBalance < amount) {
+      // Enforce the tier's single, daily and monthly limits
+      await LimitService.assertCanSend(trx, wallet, money);
+
+      // Price the fee (charged on top of the amount)
+      const fee = await FeeService.quote(
+        trx,
+        { operation: "withdraw", userId, currency: wallet.currency, channel },
+        money
+      );
+
+      // Check sufficient available balance (held funds cannot be withdrawn)
+      const currentBalance = Money.fromStorage(wallet.balance_decimal, wallet.currency);
+      const available = this.availableBalance(wallet);
+      if (available.lessThan(fee.total)) {
         throw new Error(
-          `Insufficient funds. Balance: ${currentBalance}, Required: ${amount}`
+          `Insufficient funds. Available: ${available}, Required: ${fee.total}`
         );
       }
 
-      // Calculate new balance
-      const newBalance = (currentBalance - amount).toFixed(6);
+      // Calculate new balances (after the amount, then after the fee)
+      const debitBalance = currentBalance.subtract(money).toStorageString();
+      const newBalanceMoney = currentBalance.subtract(fee.total);
+      const newBalance = newBalanceMoney.toStorageString();
 
       // Insert transaction record
       const transactionId = newId();
@@ -293,12 +671,26 @@ export class WalletService {
         wallet_id: wallet.id,
         type: "debit",
         amount_decimal: amountDecimal,
-        balance_after: newBalance,
+        balance_after: debitBalance,
         reference,
         metadata: metadata ? JSON.stringify(metadata) : null,
         created_at: trx.fn.now(),
       });
 
+      // Ledger: money leaves the wallet through payout clearing
+      await LedgerService.postJournal(trx, {
+        reference,
+        description: "Wallet withdrawal",
+        legs: [
+          { account: { walletId: wallet.id, currency: wallet.currency }, direction: "debit", amount: money },
+          { account: { system: "PAYOUT_CLEARING", currency: wallet.currency }, direction: "credit", amount: money },
+        ],
+      });
+      const feeTransaction = fee.fee.isPositive()
+        ? await FeeService.collect(trx, wallet, revenueWallet, fee, newBalanceMoney, reference, metadata)
+        : null;
+      await LedgerService.assertWalletBalance(trx, wallet.id, newBalanceMoney);
+
       // Update wallet balance
       await trx("wallets")
         .where({ id: wallet.id })
@@ -313,9 +705,9 @@ export class WalletService {
         trx("transactions").where({ id: transactionId }).first(),
       ]);
 
-      logger.info(`Withdrew from wallet ${wallet.id}: -${amountDecimal} (new balance: ${newBalance}) [ref: ${reference}]`);
+      logger.info(`Withdrew from wallet ${wallet.id}: -${amountDecimal} (fee: ${fee.fee}, new balance: ${newBalance}) [ref: ${reference}]`);
 
-      return { wallet: updatedWallet, transaction, reference };
+      return { wallet: updatedWallet, transaction, reference, fee, feeTransaction };
     });
   }
 
@@ -327,20 +719,35 @@ export class WalletService {
    * Creates a transfer record and two transaction records (debit + credit).
    * Automatically generates a unique reference for idempotency.
    * 
+   * Both wallets must share a currency; moving money between currencies
+   * requires an explicit conversion.
+   * 
+   * The sender pays any fee on top of the amount; the recipient receives
+   * the full amount.
+   * 
    * @param fromUserId - Source user ID
    * @param toUserId - Destination user ID
-   * @param amount - Amount to transfer (must be positive)
+   * @param amount - Amount to transfer as a decimal string or Money (must be positive)
    * @param metadata - Optional metadata
-   * @returns Transfer details with both wallets and generated reference
+   * @param selector - Currency and/or wallet IDs (default: DEFAULT_CURRENCY wallets)
+   * @param channel - Channel the request came through (selects the fee rule)
+   * @param reference - Transfer reference (default: generated); callers that
+   *   retry pass a stable one so a retry cannot transfer twice
+   * @returns Transfer details with both wallets, fee, and reference
    * 
    * @throws Error if amount is invalid, insufficient funds, or wallets not found
+   * @throws AppError (403) if the source wallet is frozen, post-no-debit or closed
+   * @throws AppError (422) if the wallets are in different currencies, or
+   *   the recipient (or their wallet) is blocked, blacklisted, frozen or closed
+   * @throws LimitExceededError (403) if the sender's limits, or (422) the
+   *   recipient's maximum balance, would be exceeded
    * 
    * @example
    * ```typescript
    * const result = await WalletService.transfer(
    *   "user-123",
    *   "user-456",
-   *   1000.00,
+   *   "1000.00",
    *   { description: "Payment for services" }
    * );
    * console.log(result.reference); // "TRANSFER-user-123-1699564800000-A1B2C3D4"
@@ -349,204 +756,999 @@ export class WalletService {
   static async transfer(
     fromUserId: string,
     toUserId: string,
-    amount: number,
-    metadata?: any
-  ): Promise<{
-    transfer: Transfer;
-    fromWallet: Wallet;
-    toWallet: Wallet;
-    transactions: Transaction[];
-    reference: string;
-  }> {
-    // Validate amount
-    if (amount <= 0) {
-      throw new Error("Amount must be positive");
-    }
+    amount: string | Money,
+    metadata?: any,
+    selector: TransferWalletSelector = {},
+    channel?: FeeChannel,
+    reference: string = this.generateReference('TRANSFER', fromUserId)
+  ): Promise<TransferResult> {
+    return withTransaction((trx) =>
+      this.transferWithin(trx, fromUserId, toUserId, amount, metadata, selector, channel, reference)
+    );
+  }
 
+  /**
+   * Transfer funds inside the caller's DB transaction
+   *
+   * Same as transfer(), for callers that make several transfers atomically
+   * (bulk payouts). The caller owns the transaction: nothing is committed,
+   * and a throw leaves the rollback to the caller.
+   *
+   * @param trx - Knex transaction
+   * @param fromUserId - Source user ID
+   * @param toUserId - Destination user ID
+   * @param amount - Amount to transfer as a decimal string or Money (must be positive)
+   * @param metadata - Optional metadata
+   * @param selector - Currency and/or wallet IDs (default: DEFAULT_CURRENCY wallets)
+   * @param channel - Channel the request came through (selects the fee rule)
+   * @param reference - Transfer reference
+   * @returns Transfer details with both wallets, fee, and reference
+   *
+   * @throws Same errors as transfer()
+   */
+  static async transferWithin(
+    trx: Knex.Transaction,
+    fromUserId: string,
+    toUserId: string,
+    amount: string | Money,
+    metadata: any,
+    selector: TransferWalletSelector,
+    channel: FeeChannel | undefined,
+    reference: string
+  ): Promise<TransferResult> {
     // Prevent self-transfer
     if (fromUserId === toUserId) {
       throw new Error("Cannot transfer to yourself");
     }
 
-    const amountDecimal = amount.toFixed(6);
+    // Blocked and blacklisted users cannot receive funds
+    await UserService.assertCanReceive(trx, toUserId);
+
+    // A source wallet ID alone implies the currency of the recipient's wallet
+    const sourceCurrency = await this.selectedCurrency(trx, fromUserId, {
+      walletId: selector.fromWalletId,
+      currency: selector.currency,
+    });
+    const currency =
+      selector.currency ?? (selector.fromWalletId && !selector.toWalletId ? sourceCurrency : undefined);
+
+    const fromSelector: WalletSelector = { walletId: selector.fromWalletId, currency };
+    const toSelector: WalletSelector = { walletId: selector.toWalletId, currency };
+
+    // Lock both wallets (and the fee revenue wallet) in ascending order by
+    // user_id to prevent deadlocks
+    const selectorFor = (userId: string) => (userId === fromUserId ? fromSelector : toSelector);
+    const { locked, revenueWallet } = await FeeService.lockWithRevenueWallet(
+      trx,
+      [fromUserId, toUserId],
+      sourceCurrency,
+      (userId) => this.getWalletByUserId(userId, trx, true, selectorFor(userId))
+    );
+
+    // Map wallets back to source/destination
+    const fromWallet = locked.get(fromUserId);
+    const toWallet = locked.get(toUserId);
+
+    if (!fromWallet) {
+      throw new AppError(404, `Source wallet not found for user: ${fromUserId}`);
+    }
+    if (!toWallet) {
+      throw new AppError(404, `Destination wallet not found for user: ${toUserId}`);
+    }
+
+    if (fromWallet.currency !== toWallet.currency) {
+      throw new AppError(
+        422,
+        `Cannot transfer from a ${fromWallet.currency} wallet to a ${toWallet.currency} wallet; convert the funds first`
+      );
+    }
+
+    this.assertCanDebit(fromWallet);
+    this.assertCanCredit(toWallet, true);
+
+    // Validate amount (exact decimal, scale checked against the wallet currency)
+    const money = this.toMoney(amount, fromWallet.currency);
+    const amountDecimal = money.toStorageString();
+
+    // Enforce the sender's tier limits
+    await LimitService.assertCanSend(trx, fromWallet, money);
+
+    // Price the fee (paid by the sender on top of the amount)
+    const fee = await FeeService.quote(
+      trx,
+      {
+        operation: "transfer",
+        userId: fromUserId,
+        currency: fromWallet.currency,
+        channel,
+        counterpartyId: toUserId,
+      },
+      money
+    );
+
+    // Check sufficient available balance (held funds cannot be transferred)
+    const fromBalance = Money.fromStorage(fromWallet.balance_decimal, fromWallet.currency);
+    const fromAvailable = this.availableBalance(fromWallet);
+    if (fromAvailable.lessThan(fee.total)) {
+      throw new Error(
+        `Insufficient funds. Available: ${fromAvailable}, Required: ${fee.total}`
+      );
+    }
+
+    // Calculate new balances (sender: after the amount, then after the fee)
+    const debitFromBalance = fromBalance.subtract(money).toStorageString();
+    const newFromBalanceMoney = fromBalance.subtract(fee.total);
+    const newFromBalance = newFromBalanceMoney.toStorageString();
+    const toBalance = Money.fromStorage(toWallet.balance_decimal, toWallet.currency);
+    const newToBalanceMoney = toBalance.add(money);
+    const newToBalance = newToBalanceMoney.toStorageString();
+
+    // Enforce the recipient's maximum balance
+    await LimitService.assertCanReceive(trx, toWallet, money, newToBalanceMoney, true);
+
+    // Create transfer record
+    const transferId = newId();
+    await trx("transfers").insert({
+      id: transferId,
+      from_wallet_id: fromWallet.id,
+      to_wallet_id: toWallet.id,
+      amount_decimal: amountDecimal,
+      status: "pending",
+      reference,
+      created_at: trx.fn.now(),
+    });
+
+    // Insert transaction records (debit from source, credit to destination)
+    // Use unique references for each transaction to avoid duplicate key error
+    const debitTxnId = newId();
+    const creditTxnId = newId();
+    const debitReference = `${reference}-OUT`;
+    const creditReference = `${reference}-IN`;
+
+    await Promise.all([
+      trx("transactions").insert({
+        id: debitTxnId,
+        wallet_id: fromWallet.id,
+        type: "transfer-out",
+        amount_decimal: amountDecimal,
+        balance_after: debitFromBalance,
+        reference: debitReference,
+        metadata: metadata ? JSON.stringify({ ...metadata, transfer_id: transferId }) : JSON.stringify({ transfer_id: transferId }),
+        created_at: trx.fn.now(),
+      }),
+      trx("transactions").insert({
+        id: creditTxnId,
+        wallet_id: toWallet.id,
+        type: "transfer-in",
+        amount_decimal: amountDecimal,
+        balance_after: newToBalance,
+        reference: creditReference,
+        metadata: metadata ? JSON.stringify({ ...metadata, transfer_id: transferId }) : JSON.stringify({ transfer_id: transferId }),
+        created_at: trx.fn.now(),
+      }),
+    ]);
+
+    // Ledger: wallet-to-wallet move, no system account involved
+    await LedgerService.postJournal(trx, {
+      reference,
+      description: "Wallet transfer",
+      legs: [
+        { account: { walletId: fromWallet.id, currency: fromWallet.currency }, direction: "debit", amount: money },
+        { account: { walletId: toWallet.id, currency: toWallet.currency }, direction: "credit", amount: money },
+      ],
+      metadata: { transfer_id: transferId },
+    });
+    const feeTransaction = fee.fee.isPositive()
+      ? await FeeService.collect(trx, fromWallet, revenueWallet, fee, newFromBalanceMoney, reference, {
+          ...metadata,
+          transfer_id: transferId,
+        })
+      : null;
+    await Promise.all([
+      LedgerService.assertWalletBalance(trx, fromWallet.id, newFromBalanceMoney),
+      LedgerService.assertWalletBalance(trx, toWallet.id, newToBalanceMoney),
+    ]);
+
+    // Update both wallet balances
+    await Promise.all([
+      trx("wallets")
+        .where({ id: fromWallet.id })
+        .update({
+          balance_decimal: newFromBalance,
+          updated_at: trx.fn.now(),
+        }),
+      trx("wallets")
+        .where({ id: toWallet.id })
+        .update({
+          balance_decimal: newToBalance,
+          updated_at: trx.fn.now(),
+        }),
+    ]);
+
+    // Update transfer status to completed
+    await trx("transfers")
+      .where({ id: transferId })
+      .update({ status: "completed" });
+
+    // Fetch updated records
+    const [transfer, updatedFromWallet, updatedToWallet, transactions] = await Promise.all([
+      trx("transfers").where({ id: transferId }).first(),
+      trx("wallets").where({ id: fromWallet.id }).first(),
+      trx("wallets").where({ id: toWallet.id }).first(),
+      trx("transactions")
+        .whereIn("reference", [debitReference, creditReference])
+        .orderBy("created_at", "asc"),
+    ]);
+
+    logger.info(
+      `Transfer completed: ${fromWallet.id} -> ${toWallet.id}, Amount: ${amountDecimal}, Fee: ${fee.fee} [ref: ${reference}]`
+    );
+
+    return {
+      transfer,
+      fromWallet: updatedFromWallet,
+      toWallet: updatedToWallet,
+      transactions,
+      reference,
+      fee,
+      feeTransaction,
+    };
+  }
+
+  /**
+   * Lock a wallet by ID (SELECT FOR UPDATE)
+   * 
+   * @param trx - Knex transaction
+   * @param walletId - Wallet ID
+   * @returns Locked wallet
+   * @throws Error if wallet not found
+   */
+  static async lockWalletById(trx: Knex.Transaction, walletId: string): Promise<Wallet> {
+    const wallet = await trx("wallets").where({ id: walletId }).forUpdate().first();
+
+    if (!wallet) {
+      throw new Error(`Wallet not found: ${walletId}`);
+    }
+
+    return wallet;
+  }
+
+  /**
+   * Move funds between two locked wallets without fees or limits
+   *
+   * For money the platform already holds on a user's behalf (escrow): the
+   * fees and tier limits were applied when it came in. Writes the same
+   * `transfers` row, -OUT/-IN transactions and journal as transfer(), so
+   * history and reconciliation treat it as an ordinary transfer.
+   *
+   * @param trx - Knex transaction
+   * @param fromWallet - Locked source wallet
+   * @param toWallet - Locked destination wallet (same currency)
+   * @param money - Amount to move
+   * @param metadata - Metadata for both transactions
+   * @param reference - Transfer reference
+   * @param description - Journal description
+   * @returns Transfer, both updated wallets and the two transactions
+   *
+   * @throws Error if the source wallet's available balance is insufficient
+   * @throws AppError (403) if either wallet's status blocks the move
+   */
+  static async moveWithin(
+    trx: Knex.Transaction,
+    fromWallet: Wallet,
+    toWallet: Wallet,
+    money: Money,
+    metadata: Record<string, unknown>,
+    reference: string,
+    description: string
+  ): Promise<Omit<TransferResult, "fee" | "feeTransaction">> {
+    this.assertCanDebit(fromWallet);
+    this.assertCanCredit(toWallet);
+
+    const fromAvailable = this.availableBalance(fromWallet);
+    if (fromAvailable.lessThan(money)) {
+      throw new Error(`Insufficient funds. Available: ${fromAvailable}, Required: ${money}`);
+    }
+
+    const amountDecimal = money.toStorageString();
+    const newFromBalance = Money.fromStorage(fromWallet.balance_decimal, fromWallet.currency).subtract(money);
+    const newToBalance = Money.fromStorage(toWallet.balance_decimal, toWallet.currency).add(money);
+
+    const transferId = newId();
+    await trx("transfers").insert({
+      id: transferId,
+      from_wallet_id: fromWallet.id,
+      to_wallet_id: toWallet.id,
+      amount_decimal: amountDecimal,
+      status: "completed",
+      reference,
+      created_at: trx.fn.now(),
+    });
+
+    const debitReference = `${reference}-OUT`;
+    const creditReference = `${reference}-IN`;
+    const legMetadata = JSON.stringify({ ...metadata, transfer_id: transferId });
+
+    await Promise.all([
+      trx("transactions").insert({
+        id: newId(),
+        wallet_id: fromWallet.id,
+        type: "transfer-out",
+        amount_decimal: amountDecimal,
+        balance_after: newFromBalance.toStorageString(),
+        reference: debitReference,
+        metadata: legMetadata,
+        created_at: trx.fn.now(),
+      }),
+      trx("transactions").insert({
+        id: newId(),
+        wallet_id: toWallet.id,
+        type: "transfer-in",
+        amount_decimal: amountDecimal,
+        balance_after: newToBalance.toStorageString(),
+        reference: creditReference,
+        metadata: legMetadata,
+        created_at: trx.fn.now(),
+      }),
+    ]);
+
+    await LedgerService.postJournal(trx, {
+      reference,
+      description,
+      legs: [
+        { account: { walletId: fromWallet.id, currency: fromWallet.currency }, direction: "debit", amount: money },
+        { account: { walletId: toWallet.id, currency: toWallet.currency }, direction: "credit", amount: money },
+      ],
+      metadata: { transfer_id: transferId },
+    });
+    await Promise.all([
+      LedgerService.assertWalletBalance(trx, fromWallet.id, newFromBalance),
+      LedgerService.assertWalletBalance(trx, toWallet.id, newToBalance),
+    ]);
+
+    await Promise.all([
+      trx("wallets")
+        .where({ id: fromWallet.id })
+        .update({ balance_decimal: newFromBalance.toStorageString(), updated_at: trx.fn.now() }),
+      trx("wallets")
+        .where({ id: toWallet.id })
+        .update({ balance_decimal: newToBalance.toStorageString(), updated_at: trx.fn.now() }),
+    ]);
+
+    const [transfer, updatedFromWallet, updatedToWallet, transactions] = await Promise.all([
+      trx("transfers").where({ id: transferId }).first(),
+      trx("wallets").where({ id: fromWallet.id }).first(),
+      trx("wallets").where({ id: toWallet.id }).first(),
+      trx("transactions")
+        .whereIn("reference", [debitReference, creditReference])
+        .orderBy("created_at", "asc"),
+    ]);
+
+    logger.info(
+      `Funds moved: ${fromWallet.id} -> ${toWallet.id}, Amount: ${amountDecimal} [ref: ${reference}]`
+    );
+
+    return {
+      transfer,
+      fromWallet: updatedFromWallet,
+      toWallet: updatedToWallet,
+      transactions,
+      reference,
+    };
+  }
+
+  /**
+   * Debit a locked wallet without fees or limits
+   *
+   * For money the user owes the platform (loan repayments): writes the same
+   * `debit` transaction and journal as withdraw(), but the amount is a
+   * collection rather than a payout the user chose, so no fee is charged
+   * and the tier limits do not apply.
+   *
+   * @param trx - Knex transaction
+   * @param wallet - Locked wallet
+   * @param money - Amount to debit
+   * @param metadata - Transaction metadata
+   * @param reference - Transaction reference
+   * @param description - Journal description
+   * @returns Updated wallet and the debit transaction
+   *
+   * @throws Error if the wallet's available balance is insufficient
+   * @throws AppError (403) if the wallet is frozen, post-no-debit or closed
+   */
+  static async debitWithin(
+    trx: Knex.Transaction,
+    wallet: Wallet,
+    money: Money,
+    metadata: Record<string, unknown>,
+    reference: string,
+    description: string
+  ): Promise<{ wallet: Wallet; transaction: Transaction }> {
+    this.assertCanDebit(wallet);
+
+    const available = this.availableBalance(wallet);
+    if (available.lessThan(money)) {
+      throw new Error(`Insufficient funds. Available: ${available}, Required: ${money}`);
+    }
+
+    const newBalance = Money.fromStorage(wallet.balance_decimal, wallet.currency).subtract(money);
+    const transactionId = newId();
 
-    // Generate unique reference for this transfer
-    const reference = this.generateReference('TRANSFER', fromUserId);
+    await trx("transactions").insert({
+      id: transactionId,
+      wallet_id: wallet.id,
+      type: "debit",
+      amount_decimal: money.toStorageString(),
+      balance_after: newBalance.toStorageString(),
+      reference,
+      metadata: JSON.stringify(metadata),
+      created_at: trx.fn.now(),
+    });
+
+    await LedgerService.postJournal(trx, {
+      reference,
+      description,
+      legs: [
+        { account: { walletId: wallet.id, currency: wallet.currency }, direction: "debit", amount: money },
+        { account: { system: "PAYOUT_CLEARING", currency: wallet.currency }, direction: "credit", amount: money },
+      ],
+    });
+    await LedgerService.assertWalletBalance(trx, wallet.id, newBalance);
+
+    await trx("wallets")
+      .where({ id: wallet.id })
+      .update({ balance_decimal: newBalance.toStorageString(), updated_at: trx.fn.now() });
+
+    const [updatedWallet, transaction] = await Promise.all([
+      trx("wallets").where({ id: wallet.id }).first(),
+      trx("transactions").where({ id: transactionId }).first(),
+    ]);
+
+    logger.info(`Debited wallet ${wallet.id}: -${money} (new balance: ${newBalance}) [ref: ${reference}]`);
+
+    return { wallet: updatedWallet, transaction };
+  }
+
+  /**
+   * Reverse a transaction or a transfer
+   * 
+   * Posts compensating `reversal` transactions linked to the originals via
+   * `reversal_of`; the original rows are never modified. A transfer (given
+   * by its reference, or by either of its -OUT/-IN transactions) is reversed
+   * as a whole and moves to status `reversed`.
+   * 
+   * A transaction can only be reversed once (also enforced by a unique
+   * index), reversals, escrow transfers, savings pot moves, loan
+   * disbursements and repayments, interest payments and hold captures
+   * cannot be reversed, and a reversal that would take a wallet's available balance
+   * (balance less holds) below zero is refused unless `allowNegativeBalance`
+   * is set.
+   * 
+   * @param target - Transaction ID or transfer reference
+   * @param reason - Why the reversal is being made (recorded in metadata)
+   * @param options - Negative balance override and acting staff user
+   * @returns Reversal reference, compensating transactions and reversed transfer
+   * 
+   * @throws AppError 404 if nothing matches the target
+   * @throws AppError 403 if a wallet's status blocks the reversal
+   * @throws AppError 409 if the target was already reversed
+   * @throws AppError 422 if the reversal would take a wallet negative
+   * 
+   * @example
+   * ```typescript
+   * await WalletService.reverse(
+   *   "TRANSFER-user-123-1699564800000-A1B2C3D4",
+   *   "Sent to the wrong recipient",
+   *   { reversedBy: adminId }
+   * );
+   * ```
+   */
+  static async reverse(
+    target: string,
+    reason: string,
+    options: ReversalOptions = {}
+  ): Promise<ReversalResult> {
+    if (!reason || reason.trim().length === 0) {
+      throw new AppError(400, "Reversal reason is required");
+    }
+
+    const reference = this.generateReference('REVERSAL', options.reversedBy ?? "system");
+    const metadata = { reason: reason.trim(), reversed_by: options.reversedBy ?? null };
 
     return withTransaction(async (trx) => {
-      // Lock both wallets in ascending order by user_id to prevent deadlocks
-      const lockOrder: [string, string] = fromUserId < toUserId 
-        ? [fromUserId, toUserId] 
-        : [toUserId, fromUserId];
-
-      const [firstWallet, secondWallet] = await Promise.all([
-        this.getWalletByUserId(lockOrder[0], trx, true),
-        this.getWalletByUserId(lockOrder[1], trx, true),
-      ]);
+      // A transfer reference reverses the whole transfer
+      let transfer: Transfer | undefined = await trx("transfers")
+        .where({ reference: target })
+        .forUpdate()
+        .first();
+
+      if (transfer) {
+        return this.reverseTransfer(trx, transfer, reference, metadata, options);
+      }
 
-      // Map wallets back to source/destination
-      const fromWallet = fromUserId === lockOrder[0] ? firstWallet : secondWallet;
-      const toWallet = toUserId === lockOrder[0] ? firstWallet : secondWallet;
+      const original: Transaction | undefined = await trx("transactions")
+        .where({ id: target })
+        .first();
 
-      if (!fromWallet) {
-        throw new Error(`Source wallet not found for user: ${fromUserId}`);
+      if (!original) {
+        throw new AppError(404, `No transaction or transfer found for: ${target}`);
       }
-      if (!toWallet) {
-        throw new Error(`Destination wallet not found for user: ${toUserId}`);
+
+      if (original.type === "reversal") {
+        throw new AppError(400, "A reversal cannot itself be reversed");
       }
 
-      // Check sufficient balance
-      const fromBalance = parseFloat(fromWallet.balance_decimal);
-      if (fromBalance < amount) {
-        throw new Error(
-          `Insufficient funds. Balance: ${fromBalance}, Required: ${amount}`
-        );
+      // Both sides of a conversion moved at a quoted rate; undo it with a new conversion
+      if (original.type === "conversion-out" || original.type === "conversion-in") {
+        throw new AppError(400, "Conversion legs cannot be reversed; convert the funds back instead");
       }
 
-      // Calculate new balances
-      const newFromBalance = (fromBalance - amount).toFixed(6);
-      const toBalance = parseFloat(toWallet.balance_decimal);
-      const newToBalance = (toBalance + amount).toFixed(6);
-
-      // Create transfer record
-      const transferId = newId();
-      await trx("transfers").insert({
-        id: transferId,
-        from_wallet_id: fromWallet.id,
-        to_wallet_id: toWallet.id,
+      // Fees stay with the operation they were charged on
+      if (original.type === "fee" || original.type === "fee-income") {
+        throw new AppError(400, "Fee transactions cannot be reversed");
+      }
+
+      // Transfer legs are reversed together, through their transfer
+      if (original.type === "transfer-in" || original.type === "transfer-out") {
+        const transferReference = original.reference.replace(/-(OUT|IN)$/, "");
+        transfer = await trx("transfers")
+          .where({ reference: transferReference })
+          .forUpdate()
+          .first();
+
+        if (!transfer) {
+          throw new Error(`Transfer not found for transaction: ${original.id}`);
+        }
+
+        return this.reverseTransfer(trx, transfer, reference, metadata, options);
+      }
+
+      return this.reverseTransaction(trx, original, reference, metadata, options);
+    });
+  }
+
+  /**
+   * Reverse a single fund (credit) or withdrawal (debit)
+   * 
+   * @param trx - Knex transaction
+   * @param original - Transaction to reverse
+   * @param reference - Reversal reference
+   * @param metadata - Reason and acting user
+   * @param options - Reversal options
+   * @returns Reversal result
+   */
+  private static async reverseTransaction(
+    trx: Knex.Transaction,
+    original: Transaction,
+    reference: string,
+    metadata: Record<string, unknown>,
+    options: ReversalOptions
+  ): Promise<ReversalResult> {
+    // Disbursements and repayments are tracked by the loan's schedule
+    if (original.reference.startsWith("LOAN-")) {
+      throw new AppError(400, "Loan disbursements and repayments cannot be reversed; they are settled through the loan");
+    }
+
+    // A wallet-month of interest is paid once, and its accruals are settled by this credit
+    if (original.reference.startsWith("INTEREST-")) {
+      throw new AppError(400, "Interest payments cannot be reversed; each month's interest is paid only once");
+    }
+
+    // The hold stays captured, so returning the money would leave it inconsistent
+    if (original.reference.startsWith("HOLD-") && original.reference.endsWith("-CAPTURE")) {
+      throw new AppError(400, "Hold captures cannot be reversed; fund the wallet to refund a capture instead");
+    }
+
+    const wallet = await this.lockWalletById(trx, original.wallet_id);
+
+    const existing = await trx("transactions").where({ reversal_of: original.id }).first();
+    if (existing) {
+      throw new AppError(409, `Transaction ${original.id} has already been reversed (${existing.reference})`);
+    }
+
+    // Reversing a credit takes the money back; reversing a debit returns it
+    const money = Money.fromStorage(original.amount_decimal, wallet.currency);
+    const currentBalance = Money.fromStorage(wallet.balance_decimal, wallet.currency);
+    const debitsWallet = original.type === "credit";
+    const newBalanceMoney = debitsWallet ? currentBalance.subtract(money) : currentBalance.add(money);
+
+    if (debitsWallet) {
+      this.assertCanDebit(wallet);
+    } else {
+      this.assertCanCredit(wallet);
+    }
+
+    // Funds reserved by holds must stay covered so they can still be captured
+    const held = Money.fromStorage(wallet.held_decimal, wallet.currency);
+    if (newBalanceMoney.subtract(held).isNegative() && !options.allowNegativeBalance) {
+      throw new AppError(
+        422,
+        `Reversal would take wallet ${wallet.id} negative (available: ${currentBalance.subtract(held)}, reversal: ${money}). Set allowNegativeBalance to override`
+      );
+    }
+
+    const newBalance = newBalanceMoney.toStorageString();
+    const transactionId = newId();
+
+    await trx("transactions").insert({
+      id: transactionId,
+      wallet_id: wallet.id,
+      type: "reversal",
+      amount_decimal: money.toStorageString(),
+      balance_after: newBalance,
+      reference,
+      reversal_of: original.id,
+      metadata: JSON.stringify({ ...metadata, original_reference: original.reference }),
+      created_at: trx.fn.now(),
+    });
+
+    // Ledger: mirror the original journal
+    const walletAccount = { walletId: wallet.id, currency: wallet.currency };
+    await LedgerService.postJournal(trx, {
+      reference,
+      description: `Reversal of ${original.reference}`,
+      legs: debitsWallet
+        ? [
+            { account: walletAccount, direction: "debit", amount: money },
+            { account: { system: "FUNDING_CLEARING", currency: wallet.currency }, direction: "credit", amount: money },
+          ]
+        : [
+            { account: { system: "PAYOUT_CLEARING", currency: wallet.currency }, direction: "debit", amount: money },
+            { account: walletAccount, direction: "credit", amount: money },
+          ],
+      metadata: { reversal_of: original.id },
+    });
+    await LedgerService.assertWalletBalance(trx, wallet.id, newBalanceMoney);
+
+    await trx("wallets")
+      .where({ id: wallet.id })
+      .update({
+        balance_decimal: newBalance,
+        updated_at: trx.fn.now(),
+      });
+
+    const transaction = await trx("transactions").where({ id: transactionId }).first();
+
+    logger.info(
+      `Reversed transaction ${original.reference} on wallet ${wallet.id}: ${debitsWallet ? "-" : "+"}${money} (new balance: ${newBalance}) [ref: ${reference}]`
+    );
+
+    return { reference, transactions: [transaction], transfer: null };
+  }
+
+  /**
+   * Reverse a completed transfer (recipient pays back the sender)
+   * 
+   * @param trx - Knex transaction
+   * @param transfer - Locked transfer row
+   * @param reference - Reversal reference
+   * @param metadata - Reason and acting user
+   * @param options - Reversal options
+   * @returns Reversal result
+   */
+  private static async reverseTransfer(
+    trx: Knex.Transaction,
+    transfer: Transfer,
+    reference: string,
+    metadata: Record<string, unknown>,
+    options: ReversalOptions
+  ): Promise<ReversalResult> {
+    if (transfer.status === "reversed") {
+      throw new AppError(409, `Transfer ${transfer.reference} has already been reversed`);
+    }
+
+    // Escrow funds move with the escrow's status; refund or resolve the escrow instead
+    if (transfer.reference.startsWith("ESCROW-")) {
+      throw new AppError(400, "Escrow transfers cannot be reversed; refund or resolve the escrow instead");
+    }
+
+    // Pot moves stay with the user and may carry a penalty; move the money back instead
+    if (transfer.reference.startsWith("POT-")) {
+      throw new AppError(400, "Savings pot moves cannot be reversed; deposit or withdraw the funds instead");
+    }
+    if (transfer.status !== "completed") {
+      throw new AppError(400, `Only completed transfers can be reversed (status: ${transfer.status})`);
+    }
+
+    const legs: Transaction[] = await trx("transactions").whereIn("reference", [
+      `${transfer.reference}-OUT`,
+      `${transfer.reference}-IN`,
+    ]);
+    const outLeg = legs.find((leg) => leg.type === "transfer-out");
+    const inLeg = legs.find((leg) => leg.type === "transfer-in");
+
+    if (!outLeg || !inLeg) {
+      throw new Error(`Transfer ${transfer.reference} is missing its transactions`);
+    }
+
+    // Lock both wallets in ascending order by user_id (same order as transfer)
+    const owners: Array<{ id: string; user_id: string }> = await trx("wallets")
+      .select("id", "user_id")
+      .whereIn("id", [transfer.from_wallet_id, transfer.to_wallet_id]);
+    owners.sort((a, b) => (a.user_id < b.user_id ? -1 : a.user_id > b.user_id ? 1 : 0));
+
+    const locked: Wallet[] = [];
+    for (const owner of owners) {
+      locked.push(await this.lockWalletById(trx, owner.id));
+    }
+
+    const fromWallet = locked.find((wallet) => wallet.id === transfer.from_wallet_id);
+    const toWallet = locked.find((wallet) => wallet.id === transfer.to_wallet_id);
+
+    if (!fromWallet || !toWallet) {
+      throw new Error(`Wallets not found for transfer: ${transfer.reference}`);
+    }
+
+    // The recipient pays the sender back
+    this.assertCanDebit(toWallet);
+    this.assertCanCredit(fromWallet);
+
+    const money = Money.fromStorage(transfer.amount_decimal, toWallet.currency);
+    const toAvailable = this.availableBalance(toWallet);
+    const newToBalanceMoney = Money.fromStorage(toWallet.balance_decimal, toWallet.currency).subtract(money);
+
+    // Funds reserved by holds must stay covered so they can still be captured
+    if (toAvailable.subtract(money).isNegative() && !options.allowNegativeBalance) {
+      throw new AppError(
+        422,
+        `Reversal would take wallet ${toWallet.id} negative (available: ${toAvailable}, reversal: ${money}). Set allowNegativeBalance to override`
+      );
+    }
+
+    const newFromBalanceMoney = Money.fromStorage(fromWallet.balance_decimal, fromWallet.currency).add(money);
+    const newToBalance = newToBalanceMoney.toStorageString();
+    const newFromBalance = newFromBalanceMoney.toStorageString();
+    const amountDecimal = money.toStorageString();
+    const debitReference = `${reference}-OUT`;
+    const creditReference = `${reference}-IN`;
+    const legMetadata = JSON.stringify({
+      ...metadata,
+      transfer_id: transfer.id,
+      original_reference: transfer.reference,
+    });
+
+    await Promise.all([
+      trx("transactions").insert({
+        id: newId(),
+        wallet_id: toWallet.id,
+        type: "reversal",
         amount_decimal: amountDecimal,
-        status: "pending",
-        reference,
+        balance_after: newToBalance,
+        reference: debitReference,
+        reversal_of: inLeg.id,
+        metadata: legMetadata,
         created_at: trx.fn.now(),
-      });
+      }),
+      trx("transactions").insert({
+        id: newId(),
+        wallet_id: fromWallet.id,
+        type: "reversal",
+        amount_decimal: amountDecimal,
+        balance_after: newFromBalance,
+        reference: creditReference,
+        reversal_of: outLeg.id,
+        metadata: legMetadata,
+        created_at: trx.fn.now(),
+      }),
+    ]);
+
+    // Ledger: mirror the transfer journal
+    await LedgerService.postJournal(trx, {
+      reference,
+      description: `Reversal of ${transfer.reference}`,
+      legs: [
+        { account: { walletId: toWallet.id, currency: toWallet.currency }, direction: "debit", amount: money },
+        { account: { walletId: fromWallet.id, currency: fromWallet.currency }, direction: "credit", amount: money },
+      ],
+      metadata: { transfer_id: transfer.id },
+    });
+    await Promise.all([
+      LedgerService.assertWalletBalance(trx, toWallet.id, newToBalanceMoney),
+      LedgerService.assertWalletBalance(trx, fromWallet.id, newFromBalanceMoney),
+    ]);
 
-      // Insert transaction records (debit from source, credit to destination)
-      // Use unique references for each transaction to avoid duplicate key error
-      const debitTxnId = newId();
-      const creditTxnId = newId();
-      const debitReference = `${reference}-OUT`;
-      const creditReference = `${reference}-IN`;
-
-      await Promise.all([
-        trx("transactions").insert({
-          id: debitTxnId,
-          wallet_id: fromWallet.id,
-          type: "transfer-out",
-          amount_decimal: amountDecimal,
-          balance_after: newFromBalance,
-          reference: debitReference,
-          metadata: metadata ? JSON.stringify({ ...metadata, transfer_id: transferId }) : JSON.stringify({ transfer_id: transferId }),
-          created_at: trx.fn.now(),
+    await Promise.all([
+      trx("wallets")
+        .where({ id: toWallet.id })
+        .update({
+          balance_decimal: newToBalance,
+          updated_at: trx.fn.now(),
         }),
-        trx("transactions").insert({
-          id: creditTxnId,
-          wallet_id: toWallet.id,
-          type: "transfer-in",
-          amount_decimal: amountDecimal,
-          balance_after: newToBalance,
-          reference: creditReference,
-          metadata: metadata ? JSON.stringify({ ...metadata, transfer_id: transferId }) : JSON.stringify({ transfer_id: transferId }),
-          created_at: trx.fn.now(),
+      trx("wallets")
+        .where({ id: fromWallet.id })
+        .update({
+          balance_decimal: newFromBalance,
+          updated_at: trx.fn.now(),
         }),
-      ]);
+    ]);
 
-      // Update both wallet balances
-      await Promise.all([
-        trx("wallets")
-          .where({ id: fromWallet.id })
-          .update({
-            balance_decimal: newFromBalance,
-            updated_at: trx.fn.now(),
-          }),
-        trx("wallets")
-          .where({ id: toWallet.id })
-          .update({
-            balance_decimal: newToBalance,
-            updated_at: trx.fn.now(),
-          }),
-      ]);
+    await trx("transfers")
+      .where({ id: transfer.id })
+      .update({ status: "reversed" });
 
-      // Update transfer status to completed
-      await trx("transfers")
-        .where({ id: transferId })
-        .update({ status: "completed" });
-
-      // Fetch updated records
-      const [transfer, updatedFromWallet, updatedToWallet, transactions] = await Promise.all([
-        trx("transfers").where({ id: transferId }).first(),
-        trx("wallets").where({ id: fromWallet.id }).first(),
-        trx("wallets").where({ id: toWallet.id }).first(),
-        trx("transactions")
-          .whereIn("reference", [debitReference, creditReference])
-          .orderBy("created_at", "asc"),
-      ]);
+    const [updatedTransfer, transactions] = await Promise.all([
+      trx("transfers").where({ id: transfer.id }).first(),
+      trx("transactions")
+        .whereIn("reference", [debitReference, creditReference])
+        .orderBy("created_at", "asc"),
+    ]);
 
-      logger.info(
-        `Transfer completed: ${fromWallet.id} -> ${toWallet.id}, Amount: ${amountDecimal} [ref: ${reference}]`
-      );
+    logger.info(
+      `Reversed transfer ${transfer.reference}: ${toWallet.id} -> ${fromWallet.id}, Amount: ${amountDecimal} [ref: ${reference}]`
+    );
 
-      return {
-        transfer,
-        fromWallet: updatedFromWallet,
-        toWallet: updatedToWallet,
-        transactions,
-        reference,
-      };
-    });
+    return { reference, transactions, transfer: updatedTransfer };
   }
 
   /**
    * Get wallet balance
    * 
+   * `pots` is the combined balance of the wallet's savings pots and `total`
+   * the main balance plus the pots.
+   * 
    * @param userId - User ID
-   * @returns Current balance and wallet info
+   * @param selector - Wallet ID or currency (default: DEFAULT_CURRENCY wallet)
+   * @returns Ledger balance, available balance, held amount, pot totals and wallet info
    * 
-   * @throws Error if wallet not found
+   * @throws AppError (404) if wallet not found
    */
-  static async getBalance(userId: string): Promise<{
+  static async getBalance(userId: string, selector: WalletSelector = {}): Promise<{
     balance: string;
+    available: string;
+    held: string;
+    pots: string;
+    total: string;
     currency: string;
     wallet: Wallet;
   }> {
-    const wallet = await this.getWalletByUserId(userId);
+    const wallet = await this.getWalletByUserId(userId, undefined, false, selector);
 
     if (!wallet) {
-      throw new Error(`Wallet not found for user: ${userId}`);
+      throw this.walletNotFound(userId, selector);
     }
 
+    // Closed pots are empty, so every sub-wallet can be summed
+    const row = await knex("wallets")
+      .where({ parent_wallet_id: wallet.id })
+      .sum({ total: "balance_decimal" })
+      .first();
+    const pots = row?.total ? Money.fromStorage(String(row.total), wallet.currency) : Money.zero(wallet.currency);
+
     return {
       balance: wallet.balance_decimal,
+      available: this.availableBalance(wallet).toStorageString(),
+      held: wallet.held_decimal,
+      pots: pots.toStorageString(),
+      total: Money.fromStorage(wallet.balance_decimal, wallet.currency).add(pots).toStorageString(),
       currency: wallet.currency,
       wallet,
     };
   }
 
+  /**
+   * Encode a keyset pagination cursor
+   * 
+   * The cursor captures the (created_at, id) position of the last row on a
+   * page so the next page can resume strictly after it.
+   * 
+   * @param transaction - Last transaction on the current page
+   * @returns Opaque base64url cursor string
+   */
+  private static encodeCursor(transaction: Transaction): string {
+    const createdAt = new Date(transaction.created_at).toISOString();
+    return Buffer.from(JSON.stringify({ c: createdAt, i: transaction.id })).toString("base64url");
+  }
+
+  /**
+   * Decode a keyset pagination cursor
+   * 
+   * @param cursor - Cursor returned by a previous page
+   * @returns Decoded position
+   * @throws AppError (400) if the cursor is malformed
+   */
+  private static decodeCursor(cursor: string): { createdAt: Date; id: string } {
+    try {
+      const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+      const createdAt = new Date(decoded.c);
+
+      if (typeof decoded.i !== "string" || isNaN(createdAt.getTime())) {
+        throw new Error("Malformed cursor");
+      }
+
+      return { createdAt, id: decoded.i };
+    } catch {
+      throw new AppError(400, "Invalid pagination cursor");
+    }
+  }
+
   /**
    * Get transaction history for a wallet
    * 
+   * Uses keyset pagination on (created_at, id) so pages stay stable while
+   * new transactions are being written. Results are ordered newest first.
+   * 
    * @param userId - User ID
-   * @param limit - Max number of transactions to return
-   * @param offset - Offset for pagination
-   * @returns Array of transactions
+   * @param options - Page size, cursor and filters
+   * @param selector - Wallet ID or currency (default: DEFAULT_CURRENCY wallet)
+   * @returns Page of transactions and the cursor for the next page
+   * 
+   * @throws AppError (404) if wallet not found
+   * 
+   * @example
+   * ```typescript
+   * const page = await WalletService.getTransactionHistory("user-123", {
+   *   limit: 20,
+   *   types: ["credit", "transfer-in"],
+   *   referencePrefix: "FUND-",
+   * });
+   * const next = await WalletService.getTransactionHistory("user-123", {
+   *   limit: 20,
+   *   cursor: page.nextCursor ?? undefined,
+   * });
+   * ```
    */
   static async getTransactionHistory(
     userId: string,
-    limit: number = 50,
-    offset: number = 0
-  ): Promise<Transaction[]> {
-    const wallet = await this.getWalletByUserId(userId);
+    options: TransactionHistoryOptions = {},
+    selector: WalletSelector = {}
+  ): Promise<TransactionHistoryPage> {
+    const wallet = await this.getWalletByUserId(userId, undefined, false, selector);
 
     if (!wallet) {
-      throw new Error(`Wallet not found for user: ${userId}`);
+      throw this.walletNotFound(userId, selector);
     }
 
-    const transactions = await knex("transactions")
-      .where({ wallet_id: wallet.id })
-      .orderBy("created_at", "desc")
-      .limit(limit)
-      .offset(offset);
+    const limit = Math.min(
+      Math.max(options.limit ?? DEFAULT_HISTORY_LIMIT, 1),
+      MAX_HISTORY_LIMIT
+    );
 
-    return transactions;
+    const query = knex("transactions").where({ wallet_id: wallet.id });
+
+    if (options.types && options.types.length > 0) {
+      query.whereIn("type", options.types);
+    }
+    if (options.from) {
+      query.where("created_at", ">=", options.from);
+    }
+    if (options.to) {
+      query.where("created_at", "<", options.to);
+    }
+    if (options.minAmount !== undefined) {
+      query.where("amount_decimal", ">=", options.minAmount);
+    }
+    if (options.maxAmount !== undefined) {
+      query.where("amount_decimal", "<=", options.maxAmount);
+    }
+    if (options.referencePrefix) {
+      // Escape LIKE wildcards so the prefix is matched literally
+      const escaped = options.referencePrefix.replace(/[\\%_]/g, "\\$&");
+      query.where("reference", "like", `${escaped}%`);
+    }
+    if (options.cursor) {
+      const { createdAt, id } = this.decodeCursor(options.cursor);
+      query.where((builder) => {
+        builder
+          .where("created_at", "<", createdAt)
+          .orWhere((tie) => tie.where("created_at", "=", createdAt).andWhere("id", "<", id));
+      });
+    }
+
+    // Fetch one extra row to know whether another page exists
+    const rows: Transaction[] = await query
+      .orderBy([
+        { column: "created_at", order: "desc" },
+        { column: "id", order: "desc" },
+      ])
+      .limit(limit + 1);
+
+    const hasMore = rows.length > limit;
+    const transactions = hasMore ? rows.slice(0, limit) : rows;
+    const last = transactions[transactions.length - 1];
+
+    return {
+      transactions,
+      nextCursor: hasMore && last ? this.encodeCursor(last) : null,
+    };
   }
 }
-
@@ -0,0 +1,118 @@
+/**
+ * CSV Utility
+ *
+ * Minimal RFC 4180 reading and writing for batch uploads and result
+ * downloads: comma-separated fields, optional double quotes (with `""`
+ * for a literal quote), and LF or CRLF line endings.
+ *
+ * @module utils/csv
+ */
+
+import { AppError } from "../middlewares/error";
+
+/**
+ * Value that can be written to a CSV cell
+ */
+export type CsvValue = string | number | null | undefined;
+
+/**
+ * Parse CSV text into rows of fields
+ *
+ * Blank lines are skipped; fields are not trimmed.
+ *
+ * @param text - CSV text
+ * @returns Rows of fields
+ * @throws AppError (400) if a quoted field is not closed
+ *
+ * @example
+ * ```typescript
+ * parseCsv('a,"b,c"\n1,2'); // [["a", "b,c"], ["1", "2"]]
+ * ```
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  let i = 0;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== "") {
+      rows.push(row);
+    }
+    row = [];
+    field = "";
+  };
+
+  // Ignore a byte order mark left by spreadsheet exports
+  if (text.charCodeAt(0) === 0xfeff) {
+    i = 1;
+  }
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new AppError(400, `Invalid CSV: unterminated quoted field on line ${rows.length + 1}`);
+  }
+
+  endRow();
+  return rows;
+}
+
+/**
+ * Format one CSV cell
+ *
+ * Quotes cells containing separators, quotes or line breaks, and prefixes
+ * cells that a spreadsheet would run as a formula (=, +, -, @) with a quote.
+ *
+ * @param value - Cell value
+ * @returns Escaped cell
+ */
+function formatCell(value: CsvValue): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+
+  let cell = String(value);
+  if (typeof value === "string" && /^[=+\-@]/.test(cell)) {
+    cell = `'${cell}`;
+  }
+
+  return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+}
+
+/**
+ * Write rows as CSV text (CRLF line endings)
+ *
+ * @param rows - Rows of cells, header first
+ * @returns CSV text
+ */
+export function toCsv(rows: CsvValue[][]): string {
+  return rows.map((row) => row.map(formatCell).join(",")).join("\r\n") + "\r\n";
+}
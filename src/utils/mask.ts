@@ -0,0 +1,31 @@
+/**
+ * Masking Utility
+ *
+ * Partially hides personal data shown to other users, e.g. the recipient
+ * name a sender confirms before a transfer.
+ *
+ * @module utils/mask
+ */
+
+/**
+ * Mask a person's name, keeping the first letter of each word
+ *
+ * @param name - Full name
+ * @returns Masked name
+ *
+ * @example
+ * ```typescript
+ * maskName("John Doe"); // "J*** D**"
+ * ```
+ */
+export function maskName(name: string): string {
+  return name
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) => {
+      const letters = Array.from(word);
+      return letters[0] + "*".repeat(Math.max(letters.length - 1, 2));
+    })
+    .join(" ");
+}
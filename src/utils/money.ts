@@ -0,0 +1,401 @@
+/**
+ * Money Utility
+ *
+ * Exact decimal money arithmetic backed by BigInt minor units.
+ *
+ * Every amount is held as an integer number of micro-units (10^-6), which
+ * matches the DECIMAL(20,6) columns used for balances and transactions.
+ * No value ever passes through a JavaScript float, so balances cannot drift.
+ *
+ * @module utils/money
+ */
+
+import { getCurrency } from "../config/currencies";
+import { AppError } from "../middlewares/error";
+
+/**
+ * Fractional digits stored in the database (DECIMAL(20,6))
+ */
+export const STORAGE_SCALE = 6;
+
+/**
+ * 10^STORAGE_SCALE as a BigInt
+ */
+const SCALE_FACTOR = 10n ** BigInt(STORAGE_SCALE);
+
+/**
+ * Plain decimal string: optional sign, digits, optional fraction
+ */
+const DECIMAL_PATTERN = /^(-)?(\d+)(?:\.(\d+))?$/;
+
+/**
+ * Exchange rate: positive decimal with up to 12 fractional digits
+ */
+const RATE_PATTERN = /^(\d+)(?:\.(\d{1,12}))?$/;
+
+/**
+ * Immutable money value
+ */
+export class Money {
+  private constructor(
+    /** Amount in micro-units (10^-6 of the major unit) */
+    public readonly units: bigint,
+    /** ISO currency code */
+    public readonly currency: string
+  ) {}
+
+  /**
+   * Convert a decimal string to micro-units
+   *
+   * @param value - Decimal string
+   * @returns Micro-units, or null if the string is malformed or too precise
+   */
+  private static toUnits(value: string): bigint | null {
+    const match = DECIMAL_PATTERN.exec(value.trim());
+
+    if (!match) {
+      return null;
+    }
+
+    const [, sign, whole = "0", fraction = ""] = match;
+
+    if (fraction.length > STORAGE_SCALE) {
+      return null;
+    }
+
+    const units =
+      BigInt(whole) * SCALE_FACTOR + BigInt(fraction.padEnd(STORAGE_SCALE, "0"));
+
+    return sign ? -units : units;
+  }
+
+  /**
+   * Parse a client-supplied amount
+   *
+   * The amount must be a positive decimal string with no more fractional
+   * digits than the currency allows (e.g. 2 for NGN).
+   *
+   * @param value - Amount as a decimal string (e.g. "1500.50")
+   * @param currency - ISO currency code
+   * @returns Money value
+   * @throws AppError (400) if the amount is malformed, not positive, or too precise
+   *
+   * @example
+   * ```typescript
+   * const amount = Money.parse("1500.50", "NGN");
+   * amount.toStorageString(); // "1500.500000"
+   * ```
+   */
+  static parse(value: string, currency: string): Money {
+    const match = typeof value === "string" ? DECIMAL_PATTERN.exec(value.trim()) : null;
+
+    if (!match) {
+      throw new AppError(400, "Amount must be a decimal string (e.g. \"1500.50\")");
+    }
+
+    const { decimals } = getCurrency(currency);
+    const fraction = match[3] ?? "";
+
+    if (fraction.length > decimals) {
+      throw new AppError(
+        400,
+        `Amount cannot have more than ${decimals} decimal places for ${currency}`
+      );
+    }
+
+    const units = this.toUnits(value) as bigint;
+
+    if (units <= 0n) {
+      throw new AppError(400, "Amount must be positive");
+    }
+
+    return new Money(units, currency);
+  }
+
+  /**
+   * Read an amount stored in a DECIMAL(20,6) column
+   *
+   * @param value - Decimal string from the database
+   * @param currency - ISO currency code
+   * @returns Money value
+   * @throws Error if the stored value is not a valid decimal
+   */
+  static fromStorage(value: string | number, currency: string): Money {
+    const units = this.toUnits(String(value));
+
+    if (units === null) {
+      throw new Error(`Invalid stored amount: ${value}`);
+    }
+
+    return new Money(units, currency);
+  }
+
+  /**
+   * Zero amount in a currency
+   *
+   * @param currency - ISO currency code
+   * @returns Zero money value
+   */
+  static zero(currency: string): Money {
+    return new Money(0n, currency);
+  }
+
+  /**
+   * Ensure two values share a currency before combining them
+   */
+  private assertSameCurrency(other: Money): void {
+    if (other.currency !== this.currency) {
+      throw new Error(
+        `Currency mismatch: cannot combine ${this.currency} with ${other.currency}`
+      );
+    }
+  }
+
+  /**
+   * Add another amount
+   */
+  add(other: Money): Money {
+    this.assertSameCurrency(other);
+    return new Money(this.units + other.units, this.currency);
+  }
+
+  /**
+   * Subtract another amount
+   */
+  subtract(other: Money): Money {
+    this.assertSameCurrency(other);
+    return new Money(this.units - other.units, this.currency);
+  }
+
+  /**
+   * Compare with another amount
+   *
+   * @returns -1 if less, 0 if equal, 1 if greater
+   */
+  compare(other: Money): -1 | 0 | 1 {
+    this.assertSameCurrency(other);
+    if (this.units < other.units) return -1;
+    if (this.units > other.units) return 1;
+    return 0;
+  }
+
+  /** True if this amount is less than `other` */
+  lessThan(other: Money): boolean {
+    return this.compare(other) < 0;
+  }
+
+  /** True if this amount is greater than `other` */
+  greaterThan(other: Money): boolean {
+    return this.compare(other) > 0;
+  }
+
+  /** True if both amounts are equal */
+  equals(other: Money): boolean {
+    return this.compare(other) === 0;
+  }
+
+  /** True if the amount is zero */
+  isZero(): boolean {
+    return this.units === 0n;
+  }
+
+  /** True if the amount is above zero */
+  isPositive(): boolean {
+    return this.units > 0n;
+  }
+
+  /** True if the amount is below zero */
+  isNegative(): boolean {
+    return this.units < 0n;
+  }
+
+  /**
+   * Drop fractional digits beyond what the currency allows
+   *
+   * @param decimals - Fractional digits to keep
+   * @returns Truncated value (rounded toward zero)
+   */
+  private truncate(decimals: number): Money {
+    const step = 10n ** BigInt(STORAGE_SCALE - decimals);
+    return new Money((this.units / step) * step, this.currency);
+  }
+
+  /**
+   * Convert into another currency at an exchange rate
+   *
+   * The result is truncated to the target currency's precision, so a
+   * conversion never credits more than the rate allows.
+   *
+   * @param rate - Units of `currency` per unit of this currency (decimal string)
+   * @param currency - Target ISO currency code
+   * @returns Converted amount
+   * @throws Error if the rate is malformed
+   *
+   * @example
+   * ```typescript
+   * Money.parse("10.00", "USD").convert("1498.5", "NGN").toStorageString(); // "14985.000000"
+   * ```
+   */
+  convert(rate: string, currency: string): Money {
+    const match = RATE_PATTERN.exec(rate);
+
+    if (!match) {
+      throw new Error(`Invalid exchange rate: ${rate}`);
+    }
+
+    const [, whole = "0", fraction = ""] = match;
+    const numerator = BigInt(whole + fraction);
+    const units = (this.units * numerator) / 10n ** BigInt(fraction.length);
+
+    return new Money(units, currency).truncate(getCurrency(currency).decimals);
+  }
+
+  /**
+   * Take a share of this amount expressed in basis points (1/100 of a percent)
+   *
+   * The result is truncated to the currency's precision.
+   *
+   * @param bps - Basis points (e.g. 50 for 0.5%)
+   * @returns Share of the amount
+   */
+  basisPoints(bps: number): Money {
+    const units = (this.units * BigInt(bps)) / 10000n;
+    return new Money(units, this.currency).truncate(getCurrency(this.currency).decimals);
+  }
+
+  /**
+   * One day's simple interest on this amount at an annual rate
+   *
+   * Uses an actual/365 day count. The result keeps full storage precision
+   * (truncated at the sixth decimal), so daily accruals can be summed and
+   * only the total is cut down to the currency's precision when paid.
+   *
+   * @param annualBps - Annual rate in basis points (e.g. 500 for 5%)
+   * @param daysInYear - Day-count denominator (default 365)
+   * @returns Interest for one day
+   *
+   * @example
+   * ```typescript
+   * Money.parse("100000", "NGN").dailyInterest(500).toStorageString(); // "13.698630"
+   * ```
+   */
+  dailyInterest(annualBps: number, daysInYear = 365): Money {
+    const units = (this.units * BigInt(annualBps)) / (10000n * BigInt(daysInYear));
+    return new Money(units, this.currency);
+  }
+
+  /**
+   * One month's simple interest on this amount at an annual rate
+   *
+   * The result is truncated to the currency's precision.
+   *
+   * @param annualBps - Annual rate in basis points (e.g. 3000 for 30%)
+   * @returns Interest for one month (a twelfth of a year)
+   */
+  monthlyInterest(annualBps: number): Money {
+    const units = (this.units * BigInt(annualBps)) / (10000n * 12n);
+    return new Money(units, this.currency).truncate(getCurrency(this.currency).decimals);
+  }
+
+  /**
+   * Divide into equal parts
+   *
+   * The result is truncated to the currency's precision, so `parts` of it
+   * never add up to more than this amount.
+   *
+   * @param parts - Number of parts (positive integer)
+   * @returns One part
+   */
+  divide(parts: number): Money {
+    return new Money(this.units / BigInt(parts), this.currency).truncate(getCurrency(this.currency).decimals);
+  }
+
+  /**
+   * Level monthly payment that repays this amount with interest on the
+   * reducing balance (annuity)
+   *
+   * payment = P * r / (1 - (1 + r)^-n), with r the monthly rate, worked in
+   * 18-digit fixed point and truncated to the currency's precision. At a
+   * zero rate the amount is simply divided into `months` parts.
+   *
+   * @param annualBps - Annual rate in basis points
+   * @param months - Number of monthly payments (positive integer)
+   * @returns Monthly payment
+   *
+   * @example
+   * ```typescript
+   * Money.parse("120000", "NGN").annuityPayment(1200, 12).toStorageString(); // "10661.850000"
+   * ```
+   */
+  annuityPayment(annualBps: number, months: number): Money {
+    if (annualBps === 0) {
+      return this.divide(months);
+    }
+
+    const one = 10n ** 18n;
+    const rate = (BigInt(annualBps) * one) / (10000n * 12n);
+    let growth = one;
+    for (let month = 0; month < months; month++) {
+      growth = (growth * (one + rate)) / one;
+    }
+
+    const units = (this.units * rate * growth) / (one * (growth - one));
+    return new Money(units, this.currency).truncate(getCurrency(this.currency).decimals);
+  }
+
+  /**
+   * Truncate to the currency's precision (e.g. 2 decimals for NGN)
+   *
+   * @returns Payable part of the amount (rounded toward zero)
+   */
+  toCurrencyPrecision(): Money {
+    return this.truncate(getCurrency(this.currency).decimals);
+  }
+
+  /**
+   * Format with a fixed number of fractional digits (truncating extra digits)
+   */
+  private format(scale: number): string {
+    const negative = this.units < 0n;
+    const abs = negative ? -this.units : this.units;
+    const whole = abs / SCALE_FACTOR;
+    const fraction = (abs % SCALE_FACTOR)
+      .toString()
+      .padStart(STORAGE_SCALE, "0")
+      .slice(0, scale);
+
+    return `${negative ? "-" : ""}${whole}${scale > 0 ? `.${fraction}` : ""}`;
+  }
+
+  /**
+   * Format with the currency's fractional digits (truncating extra digits)
+   *
+   * @example "1500.50" for NGN
+   */
+  toCurrencyString(): string {
+    return this.format(getCurrency(this.currency).decimals);
+  }
+
+  /**
+   * Format for DECIMAL(20,6) storage
+   *
+   * @example "1500.500000"
+   */
+  toStorageString(): string {
+    return this.format(STORAGE_SCALE);
+  }
+
+  /**
+   * Format at full storage precision (used in logs and messages)
+   */
+  toString(): string {
+    return this.toStorageString();
+  }
+
+  /**
+   * JSON representation (decimal string, never a float)
+   */
+  toJSON(): string {
+    return this.toStorageString();
+  }
+}
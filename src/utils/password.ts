@@ -0,0 +1,91 @@
+/**
+ * Password Utility
+ *
+ * Password hashing with scrypt, a memory-hard key derivation function, under
+ * a random salt per password. The stored form carries its own cost
+ * parameters, so they can be raised later without invalidating older hashes:
+ *
+ *   scrypt$<N>$<r>$<p>$<salt, base64>$<hash, base64>
+ *
+ * @module utils/password
+ */
+
+import { randomBytes, scrypt, timingSafeEqual, ScryptOptions } from "crypto";
+
+/**
+ * CPU/memory cost (N), block size (r) and parallelization (p) for new hashes
+ *
+ * N = 2^14 with r = 8 uses 16 MiB per hash.
+ */
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+
+/**
+ * Derived key length in bytes
+ */
+const KEY_LENGTH = 64;
+
+/**
+ * Salt length in bytes
+ */
+const SALT_LENGTH = 16;
+
+/**
+ * Run scrypt without blocking the event loop
+ */
+function deriveKey(password: string, salt: Buffer, keyLength: number, options: ScryptOptions): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, keyLength, { ...options, maxmem: 256 * options.N! * options.r! }, (error, key) =>
+      error ? reject(error) : resolve(key)
+    );
+  });
+}
+
+/**
+ * Hash a password for storage
+ *
+ * @param password - Plain-text password
+ * @returns Encoded scrypt hash
+ *
+ * @example
+ * ```typescript
+ * const stored = await hashPassword("correct horse battery staple");
+ * // "scrypt$16384$8$1$<salt>$<hash>"
+ * ```
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const { N, r, p } = SCRYPT_PARAMS;
+  const salt = randomBytes(SALT_LENGTH);
+  const key = await deriveKey(password, salt, KEY_LENGTH, { N, r, p });
+
+  return ["scrypt", N, r, p, salt.toString("base64"), key.toString("base64")].join("$");
+}
+
+/**
+ * Check a password against a stored hash
+ *
+ * Uses the parameters recorded in the hash and a timing-safe comparison.
+ *
+ * @param password - Plain-text password
+ * @param stored - Encoded scrypt hash
+ * @returns true if the password matches; false if not, or if the hash is malformed
+ */
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const parts = stored.split("$");
+  if (parts.length !== 6 || parts[0] !== "scrypt") {
+    return false;
+  }
+
+  const [N, r, p] = parts.slice(1, 4).map((value) => parseInt(value, 10));
+  if (!N || !r || !p) {
+    return false;
+  }
+
+  const salt = Buffer.from(parts[4]!, "base64");
+  const expected = Buffer.from(parts[5]!, "base64");
+  if (expected.length === 0) {
+    return false;
+  }
+
+  const key = await deriveKey(password, salt, expected.length, { N, r, p });
+  return timingSafeEqual(key, expected);
+}
@@ -0,0 +1,174 @@
+/**
+ * Recurrence Utility
+ *
+ * Parses a small subset of iCalendar RRULE syntax and computes occurrence
+ * times, for standing orders such as "rent on the 1st of every month".
+ *
+ * Supported parts (separated by `;`, optional `RRULE:` prefix):
+ * - FREQ=DAILY | WEEKLY | MONTHLY (required)
+ * - INTERVAL=n: every n days/weeks/months (default 1)
+ * - BYDAY=MO,TU,...: weekdays of a WEEKLY rule (default: the start's weekday)
+ * - BYMONTHDAY=d: day of a MONTHLY rule, 1-31 (default: the start's day);
+ *   months without that day use their last day
+ *
+ * Occurrences are anchored to the schedule's start: every occurrence has the
+ * start's UTC time of day, and none falls before the start. The end of a
+ * series (UNTIL / COUNT) is stored separately, so those parts are rejected.
+ *
+ * @module utils/recurrence
+ */
+
+import { AppError } from "../middlewares/error";
+
+/**
+ * Recurrence frequencies
+ */
+export const recurrenceFrequencies = ["DAILY", "WEEKLY", "MONTHLY"] as const;
+export type RecurrenceFrequency = (typeof recurrenceFrequencies)[number];
+
+/**
+ * Parsed recurrence rule
+ */
+export interface Recurrence {
+  freq: RecurrenceFrequency;
+  interval: number;
+  /** Weekdays of a weekly rule, 0 = Monday ... 6 = Sunday, ascending (null = start's weekday) */
+  byDay: number[] | null;
+  /** Day of the month of a monthly rule (null = start's day) */
+  byMonthDay: number | null;
+}
+
+/**
+ * RRULE weekday codes, Monday first
+ */
+const WEEKDAYS = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"];
+
+/**
+ * Milliseconds in a day
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parse a recurrence rule
+ *
+ * @param rule - Rule such as "FREQ=MONTHLY;BYMONTHDAY=1"
+ * @returns Parsed recurrence
+ * @throws AppError (400) if the rule is malformed or uses unsupported parts
+ */
+export function parseRecurrence(rule: string): Recurrence {
+  const invalid = (reason: string) => new AppError(400, `Invalid recurrence "${rule}": ${reason}`);
+  const parts = new Map<string, string>();
+
+  for (const part of rule.trim().replace(/^RRULE:/i, "").split(";")) {
+    const [key, value, ...rest] = part.split("=");
+    if (!key || !value || rest.length > 0) {
+      throw invalid(`malformed part "${part}"`);
+    }
+    parts.set(key.trim().toUpperCase(), value.trim().toUpperCase());
+  }
+
+  for (const key of parts.keys()) {
+    if (!["FREQ", "INTERVAL", "BYDAY", "BYMONTHDAY"].includes(key)) {
+      throw invalid(`${key} is not supported (use FREQ, INTERVAL, BYDAY, BYMONTHDAY; set endAt or maxRuns to end the series)`);
+    }
+  }
+
+  const freq = parts.get("FREQ") as RecurrenceFrequency | undefined;
+  if (!freq || !recurrenceFrequencies.includes(freq)) {
+    throw invalid(`FREQ must be one of ${recurrenceFrequencies.join(", ")}`);
+  }
+
+  const intervalValue = parts.get("INTERVAL") ?? "1";
+  const interval = Number(intervalValue);
+  if (!/^\d+$/.test(intervalValue) || interval < 1 || interval > 366) {
+    throw invalid("INTERVAL must be a whole number from 1 to 366");
+  }
+
+  let byDay: number[] | null = null;
+  const byDayValue = parts.get("BYDAY");
+  if (byDayValue !== undefined) {
+    if (freq !== "WEEKLY") {
+      throw invalid("BYDAY only applies to WEEKLY rules");
+    }
+    const days = byDayValue.split(",").map((code) => WEEKDAYS.indexOf(code.trim()));
+    if (days.some((day) => day < 0)) {
+      throw invalid(`BYDAY must list weekdays (${WEEKDAYS.join(", ")})`);
+    }
+    byDay = [...new Set(days)].sort((a, b) => a - b);
+  }
+
+  let byMonthDay: number | null = null;
+  const byMonthDayValue = parts.get("BYMONTHDAY");
+  if (byMonthDayValue !== undefined) {
+    if (freq !== "MONTHLY") {
+      throw invalid("BYMONTHDAY only applies to MONTHLY rules");
+    }
+    byMonthDay = Number(byMonthDayValue);
+    if (!/^\d+$/.test(byMonthDayValue) || byMonthDay < 1 || byMonthDay > 31) {
+      throw invalid("BYMONTHDAY must be a day from 1 to 31");
+    }
+  }
+
+  return { freq, interval, byDay, byMonthDay };
+}
+
+/**
+ * Weekday of a date in UTC, 0 = Monday ... 6 = Sunday
+ *
+ * @param date - Date
+ * @returns Weekday index
+ */
+function weekdayOf(date: Date): number {
+  return (date.getUTCDay() + 6) % 7;
+}
+
+/**
+ * Find the first occurrence after a point in time
+ *
+ * @param recurrence - Parsed rule
+ * @param start - Start of the series (its first possible occurrence)
+ * @param after - Occurrences at or before this time are skipped
+ * @returns Next occurrence (never before `start`)
+ */
+export function nextOccurrence(recurrence: Recurrence, start: Date, after: Date): Date {
+  const startMs = start.getTime();
+  const afterMs = after.getTime();
+  const timeOfDay = ((startMs % DAY_MS) + DAY_MS) % DAY_MS;
+  const startDay = startMs - timeOfDay;
+  const isNext = (time: number) => time >= startMs && time > afterMs;
+
+  if (recurrence.freq === "DAILY") {
+    const step = recurrence.interval * DAY_MS;
+    const steps = Math.max(0, Math.floor((afterMs - startMs) / step) + 1);
+    return new Date(startMs + steps * step);
+  }
+
+  if (recurrence.freq === "WEEKLY") {
+    const days = recurrence.byDay ?? [weekdayOf(start)];
+    const weekStart = startDay - weekdayOf(start) * DAY_MS;
+    const period = recurrence.interval * 7 * DAY_MS;
+
+    for (let week = Math.max(0, Math.floor((afterMs - weekStart) / period)); ; week++) {
+      for (const day of days) {
+        const time = weekStart + week * period + day * DAY_MS + timeOfDay;
+        if (isNext(time)) {
+          return new Date(time);
+        }
+      }
+    }
+  }
+
+  const day = recurrence.byMonthDay ?? start.getUTCDate();
+  const year = start.getUTCFullYear();
+  const month = start.getUTCMonth();
+  const monthsAfter = (after.getUTCFullYear() - year) * 12 + after.getUTCMonth() - month;
+
+  for (let step = Math.max(0, Math.floor(monthsAfter / recurrence.interval)); ; step++) {
+    const target = month + step * recurrence.interval;
+    const daysInMonth = new Date(Date.UTC(year, target + 1, 0)).getUTCDate();
+    const time = Date.UTC(year, target, Math.min(day, daysInMonth)) + timeOfDay;
+    if (isNext(time)) {
+      return new Date(time);
+    }
+  }
+}
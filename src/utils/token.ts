@@ -1,12 +1,16 @@
 /**
  * Token Utility
  * 
- * HMAC-based token generation and validation for faux authentication.
+ * HMAC-based access token generation and validation.
+ * 
+ * Access tokens are short-lived and name the session they were issued to,
+ * so they stop working when they expire or when the session is revoked
+ * (the auth middleware checks the session; see SessionService).
  * 
  * @module utils/token
  */
 
-import { createHmac, randomBytes } from "crypto";
+import { createHmac, timingSafeEqual } from "crypto";
 import { config } from "../config/env";
 
 /**
@@ -14,35 +18,42 @@ import { config } from "../config/env";
  */
 export interface TokenPayload {
   userId: string;
-  nonce: string;
+  /** Session family the token was issued to */
+  sessionId: string;
+  expiresAt: Date;
 }
 
 /**
- * Generate an authentication token
+ * UUID format (user and session IDs)
+ */
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Generate an access token
  * 
- * Format: candidate:<userId>:<nonce>:<signature>
+ * Format: candidate:<userId>:<sessionId>:<expiresAt>:<signature>
  * 
  * The token consists of:
  * 1. Prefix "candidate"
  * 2. User UUID
- * 3. Random nonce (16 bytes hex)
- * 4. HMAC-SHA256 signature of the above
+ * 3. Session UUID
+ * 4. Expiry (Unix time in seconds)
+ * 5. HMAC-SHA256 signature of the above
  * 
  * @param userId - User UUID
+ * @param sessionId - Session the token is issued to
+ * @param expiresAt - When the token stops working
  * @returns Signed token string
  * 
  * @example
  * ```typescript
- * const token = generateToken("123e4567-e89b-12d3-a456-426614174000");
- * // Returns: "candidate:123e4567-e89b-12d3-a456-426614174000:a1b2c3d4...:signature..."
+ * const token = generateToken(userId, sessionId, new Date(Date.now() + 15 * 60 * 1000));
+ * // Returns: "candidate:123e4567-...:9b2f61c0-...:1709283600:signature..."
  * ```
  */
-export function generateToken(userId: string): string {
-  // Generate random nonce (16 bytes = 32 hex characters)
-  const nonce = randomBytes(16).toString("hex");
-  
-  // Create payload: candidate:<userId>:<nonce>
-  const payload = `candidate:${userId}:${nonce}`;
+export function generateToken(userId: string, sessionId: string, expiresAt: Date): string {
+  // Create payload: candidate:<userId>:<sessionId>:<expiresAt>
+  const payload = `candidate:${userId}:${sessionId}:${Math.floor(expiresAt.getTime() / 1000)}`;
   
   // Sign payload with HMAC-SHA256
   const signature = createSignature(payload);
@@ -52,13 +63,15 @@ export function generateToken(userId: string): string {
 }
 
 /**
- * Verify and decode an authentication token
+ * Verify and decode an access token
  * 
- * Validates the token signature and extracts the user ID.
+ * Validates the token signature and expiry and extracts the user and
+ * session IDs. Does not check whether the session is still active.
  * 
  * @param token - Token string to verify
+ * @param now - Current time (defaults to the current time)
  * @returns Decoded token payload
- * @throws Error if token is invalid or signature doesn't match
+ * @throws Error if token is invalid, signature doesn't match or the token has expired
  * 
  * @example
  * ```typescript
@@ -66,19 +79,19 @@ export function generateToken(userId: string): string {
  * console.log(payload.userId); // "123e4567-e89b-12d3-a456-426614174000"
  * ```
  */
-export function verifyToken(token: string): TokenPayload {
-  // Parse token format: candidate:<userId>:<nonce>:<signature>
+export function verifyToken(token: string, now: Date = new Date()): TokenPayload {
+  // Parse token format: candidate:<userId>:<sessionId>:<expiresAt>:<signature>
   const parts = token.split(":");
   
   // Validate token format
-  if (parts.length !== 4) {
+  if (parts.length !== 5) {
     throw new Error("Invalid token format");
   }
   
-  const [prefix, userId, nonce, providedSignature] = parts;
+  const [prefix, userId, sessionId, expiresAt, providedSignature] = parts;
   
   // Validate all parts exist
-  if (!prefix || !userId || !nonce || !providedSignature) {
+  if (!prefix || !userId || !sessionId || !expiresAt || !providedSignature) {
     throw new Error("Invalid token format: missing required parts");
   }
   
@@ -87,25 +100,40 @@ export function verifyToken(token: string): TokenPayload {
     throw new Error("Invalid token prefix");
   }
   
-  // Validate userId format (basic UUID check)
-  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+  // Validate userId and sessionId format (basic UUID check)
   if (!uuidRegex.test(userId)) {
     throw new Error("Invalid user ID format");
   }
   
+  if (!uuidRegex.test(sessionId)) {
+    throw new Error("Invalid session ID format");
+  }
+  
+  if (!/^\d{1,12}$/.test(expiresAt)) {
+    throw new Error("Invalid token expiry");
+  }
+  
   // Recreate payload and signature
-  const payload = `candidate:${userId}:${nonce}`;
-  const expectedSignature = createSignature(payload);
+  const payload = `candidate:${userId}:${sessionId}:${expiresAt}`;
+  const expected = Buffer.from(createSignature(payload), "hex");
+  const provided = Buffer.from(providedSignature, "hex");
   
   // Compare signatures (timing-safe comparison)
-  if (expectedSignature !== providedSignature) {
+  if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
     throw new Error("Invalid token signature");
   }
   
+  const expiry = new Date(Number(expiresAt) * 1000);
+  
+  if (expiry.getTime() <= now.getTime()) {
+    throw new Error("Token has expired");
+  }
+  
   // Return decoded payload
   return {
     userId,
-    nonce,
+    sessionId,
+    expiresAt: expiry,
   };
 }
 
@@ -122,4 +150,3 @@ function createSignature(data: string): string {
     .update(data)
     .digest("hex");
 }
-
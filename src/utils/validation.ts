@@ -7,6 +7,11 @@
  */
 
 import { z } from "zod";
+import { Money } from "./money";
+import { DEFAULT_CURRENCY, currencyCodes, isSupportedCurrency } from "../config/currencies";
+import { feeChannels, feeOperations, feeTypes } from "../config/fees";
+import { userTiers } from "../config/userTiers";
+import { creditScorecardVersions } from "../config/creditScorecards";
 
 /**
  * UUID validation schema
@@ -36,12 +41,67 @@ const phoneSchema = z
   .regex(/^\+?[1-9]\d{1,14}$/, "Invalid phone number format");
 
 /**
- * Amount validation schema (positive decimal)
+ * Password validation schema (set at signup)
+ */
+const passwordSchema = z
+  .string()
+  .min(8, "Password must be at least 8 characters")
+  .max(128, "Password must be at most 128 characters");
+
+/**
+ * Handle validation schema (optional leading @, stored lowercase)
+ */
+const handleSchema = z
+  .string()
+  .trim()
+  .regex(
+    /^@?[A-Za-z][A-Za-z0-9_]{2,29}$/,
+    "Handle must be 3-30 characters: a letter followed by letters, digits or underscores"
+  );
+
+/**
+ * Recipient identifier schema (email, phone number or handle)
+ */
+const recipientIdentifierSchema = z
+  .string()
+  .trim()
+  .min(1, "Recipient is required")
+  .max(150, "Recipient must be at most 150 characters");
+
+/**
+ * Amount validation schema (positive decimal string)
+ * 
+ * Amounts are sent as strings so they never pass through a JS float.
+ * Scale is checked against the wallet currency by the service (Money.parse).
  */
 const amountSchema = z
-  .number()
-  .positive("Amount must be positive")
-  .finite("Amount must be a finite number");
+  .string({
+    invalid_type_error: "Amount must be a decimal string (e.g. \"1500.50\")",
+  })
+  .regex(/^\d{1,14}(\.\d{1,6})?$/, "Amount must be a decimal string (e.g. \"1500.50\")")
+  .refine((value) => /[1-9]/.test(value), "Amount must be positive");
+
+/**
+ * Supported currency code schema
+ */
+const currencySchema = z
+  .string()
+  .refine(isSupportedCurrency, `Currency must be one of: ${currencyCodes.join(", ")}`);
+
+/**
+ * Optional wallet selector fields (a wallet ID or a currency)
+ *
+ * Without either, the user's DEFAULT_CURRENCY wallet is used.
+ */
+const walletSelectorFields = {
+  walletId: uuidSchema.optional(),
+  currency: currencySchema.optional(),
+};
+
+/**
+ * Request channel schema (selects the fee rule; default "api")
+ */
+const channelSchema = z.enum(feeChannels);
 
 // ==================== Auth Schemas ====================
 
@@ -54,6 +114,7 @@ export const signupSchema = z.object({
     email: emailSchema,
     phone: phoneSchema,
     bvn: bvnSchema,
+    password: passwordSchema,
   }),
 });
 
@@ -65,12 +126,51 @@ export const loginSchema = z.object({
     .object({
       email: emailSchema.optional(),
       phone: phoneSchema.optional(),
+      password: z.string().min(1, "Password is required").max(128),
+    })
+    .refine((data) => data.email || data.phone, {
+      message: "Either email or phone is required",
+    }),
+});
+
+/**
+ * Login code request schema
+ */
+export const requestOtpSchema = z.object({
+  body: z
+    .object({
+      email: emailSchema.optional(),
+      phone: phoneSchema.optional(),
+    })
+    .refine((data) => data.email || data.phone, {
+      message: "Either email or phone is required",
+    }),
+});
+
+/**
+ * Login code verification schema
+ */
+export const verifyOtpSchema = z.object({
+  body: z
+    .object({
+      email: emailSchema.optional(),
+      phone: phoneSchema.optional(),
+      code: z.string().regex(/^\d{4,10}$/, "Code must be 4-10 digits"),
     })
     .refine((data) => data.email || data.phone, {
       message: "Either email or phone is required",
     }),
 });
 
+/**
+ * Refresh token schema (token refresh and logout)
+ */
+export const refreshTokenSchema = z.object({
+  body: z.object({
+    refreshToken: z.string().min(1, "Refresh token is required").max(200),
+  }),
+});
+
 // ==================== User Schemas ====================
 
 /**
@@ -82,6 +182,18 @@ export const getUserSchema = z.object({
   }),
 });
 
+/**
+ * Set handle schema
+ */
+export const setHandleSchema = z.object({
+  params: z.object({
+    id: uuidSchema,
+  }),
+  body: z.object({
+    handle: handleSchema,
+  }),
+});
+
 // ==================== Wallet Schemas ====================
 
 /**
@@ -95,6 +207,7 @@ export const fundWalletSchema = z.object({
   body: z.object({
     amount: amountSchema,
     metadata: z.record(z.any()).optional(),
+    ...walletSelectorFields,
   }),
 });
 
@@ -109,6 +222,8 @@ export const withdrawWalletSchema = z.object({
   body: z.object({
     amount: amountSchema,
     metadata: z.record(z.any()).optional(),
+    channel: channelSchema.optional(),
+    ...walletSelectorFields,
   }),
 });
 
@@ -119,14 +234,31 @@ export const withdrawWalletSchema = z.object({
 export const transferSchema = z.object({
   body: z.object({
     fromUserId: uuidSchema,
-    toUserId: uuidSchema,
+    toUserId: uuidSchema.optional(),
+    recipient: recipientIdentifierSchema.optional(),
     amount: amountSchema,
     metadata: z.record(z.any()).optional(),
+    currency: currencySchema.optional(),
+    fromWalletId: uuidSchema.optional(),
+    toWalletId: uuidSchema.optional(),
+    channel: channelSchema.optional(),
+  }).refine((data) => (data.toUserId === undefined) !== (data.recipient === undefined), {
+    message: "Provide either toUserId or recipient (email, phone or handle)",
+    path: ["toUserId"],
   }).refine((data) => data.fromUserId !== data.toUserId, {
     message: "Cannot transfer to yourself",
   }),
 });
 
+/**
+ * Recipient lookup schema (transfer preview)
+ */
+export const lookupRecipientSchema = z.object({
+  query: z.object({
+    identifier: recipientIdentifierSchema,
+  }),
+});
+
 /**
  * Get wallet balance schema
  */
@@ -134,17 +266,958 @@ export const getBalanceSchema = z.object({
   params: z.object({
     userId: uuidSchema,
   }),
+  query: z.object(walletSelectorFields),
 });
 
-// ==================== Adjutor Schemas ====================
+/**
+ * List a user's wallets schema
+ */
+export const listWalletsSchema = z.object({
+  params: z.object({
+    userId: uuidSchema,
+  }),
+});
 
 /**
- * Check Karma schema
+ * Open a wallet in another currency schema
  */
-export const checkKarmaSchema = z.object({
+export const openWalletSchema = z.object({
   params: z.object({
-    identityType: z.enum(["bvn", "email", "phone"]),
-    identity: z.string().min(1, "Identity is required"),
+    userId: uuidSchema,
+  }),
+  body: z.object({
+    currency: currencySchema,
+  }),
+});
+
+/**
+ * Transaction types that can be used to filter history
+ */
+export const transactionTypes = [
+  "credit",
+  "debit",
+  "transfer-in",
+  "transfer-out",
+  "reversal",
+  "conversion-out",
+  "conversion-in",
+  "fee",
+  "fee-income",
+] as const;
+
+/**
+ * Non-negative decimal string (query string amounts)
+ */
+const decimalStringSchema = z
+  .string()
+  .regex(/^\d+(\.\d{1,6})?$/, "Must be a decimal number with at most 6 decimal places");
+
+/**
+ * ISO 8601 date/time string
+ */
+const isoDateSchema = z
+  .string()
+  .refine((value) => !isNaN(Date.parse(value)), "Must be a valid ISO 8601 date");
+
+/**
+ * Transaction history schema
+ * Cursor-based pagination with optional filters (all query values are strings)
+ */
+export const transactionHistorySchema = z.object({
+  params: z.object({
+    userId: uuidSchema,
+  }),
+  query: z
+    .object({
+      limit: z
+        .string()
+        .regex(/^\d+$/, "Limit must be a whole number")
+        .refine((value) => {
+          const limit = parseInt(value, 10);
+          return limit >= 1 && limit <= 100;
+        }, "Limit must be between 1 and 100")
+        .optional(),
+      cursor: z.string().min(1).max(500).optional(),
+      type: z
+        .string()
+        .refine(
+          (value) =>
+            value
+              .split(",")
+              .every((type) => (transactionTypes as readonly string[]).includes(type.trim())),
+          `Type must be a comma-separated list of: ${transactionTypes.join(", ")}`
+        )
+        .optional(),
+      from: isoDateSchema.optional(),
+      to: isoDateSchema.optional(),
+      minAmount: decimalStringSchema.optional(),
+      maxAmount: decimalStringSchema.optional(),
+      reference: z.string().min(1).max(80).optional(),
+      ...walletSelectorFields,
+    })
+    .refine(
+      (data) => !data.from || !data.to || Date.parse(data.from) < Date.parse(data.to),
+      { message: "'from' must be earlier than 'to'", path: ["from"] }
+    )
+    .refine(
+      (data) =>
+        !data.minAmount ||
+        !data.maxAmount ||
+        !Money.fromStorage(data.minAmount, DEFAULT_CURRENCY).greaterThan(
+          Money.fromStorage(data.maxAmount, DEFAULT_CURRENCY)
+        ),
+      { message: "'minAmount' must not exceed 'maxAmount'", path: ["minAmount"] }
+    ),
+});
+
+// ==================== Hold Schemas ====================
+
+/**
+ * Hold statuses that can be used to filter the hold list
+ */
+export const holdStatuses = ["active", "captured", "released", "expired"] as const;
+
+/**
+ * Place a hold schema
+ */
+export const createHoldSchema = z.object({
+  params: z.object({
+    userId: uuidSchema,
+  }),
+  body: z.object({
+    amount: amountSchema,
+    expiresInSeconds: z
+      .number()
+      .int("expiresInSeconds must be a whole number")
+      .min(60, "expiresInSeconds must be at least 60")
+      .max(30 * 24 * 60 * 60, "expiresInSeconds must be at most 30 days")
+      .optional(),
+    metadata: z.record(z.any()).optional(),
+    ...walletSelectorFields,
+  }),
+});
+
+/**
+ * List holds schema
+ */
+export const listHoldsSchema = z.object({
+  params: z.object({
+    userId: uuidSchema,
+  }),
+  query: z.object({
+    status: z.enum(holdStatuses).optional(),
+  }),
+});
+
+/**
+ * Get or release a hold schema
+ */
+export const holdParamsSchema = z.object({
+  params: z.object({
+    userId: uuidSchema,
+    holdId: uuidSchema,
+  }),
+});
+
+/**
+ * Capture a hold schema
+ * Amount defaults to the full hold
+ */
+export const captureHoldSchema = z.object({
+  params: z.object({
+    userId: uuidSchema,
+    holdId: uuidSchema,
+  }),
+  body: z.object({
+    amount: amountSchema.optional(),
+  }),
+});
+
+// ==================== FX Schemas ====================
+
+/**
+ * Create an FX quote schema
+ */
+export const createFxQuoteSchema = z.object({
+  body: z
+    .object({
+      userId: uuidSchema,
+      fromCurrency: currencySchema,
+      toCurrency: currencySchema,
+      amount: amountSchema,
+    })
+    .refine((data) => data.fromCurrency !== data.toCurrency, {
+      message: "Cannot convert a currency to itself",
+      path: ["toCurrency"],
+    }),
+});
+
+/**
+ * Execute an FX quote schema
+ */
+export const convertSchema = z.object({
+  body: z.object({
+    userId: uuidSchema,
+    quoteId: uuidSchema,
+    metadata: z.record(z.any()).optional(),
+  }),
+});
+
+// ==================== Fee Schemas ====================
+
+/**
+ * Simulate a fee schema
+ */
+export const simulateFeeSchema = z.object({
+  body: z.object({
+    userId: uuidSchema,
+    operation: z.enum(feeOperations),
+    amount: amountSchema,
+    currency: currencySchema.optional(),
+    channel: channelSchema.optional(),
+  }),
+});
+
+// ==================== Limit Schemas ====================
+
+/**
+ * Get a wallet's limits and usage schema
+ */
+export const getLimitsSchema = z.object({
+  params: z.object({
+    userId: uuidSchema,
+  }),
+  query: z.object(walletSelectorFields),
+});
+
+// ==================== Scheduled Transfer Schemas ====================
+
+/**
+ * Scheduled transfer statuses that can be used to filter the list
+ */
+export const scheduledTransferStatuses = [
+  "active",
+  "paused",
+  "completed",
+  "cancelled",
+  "failed",
+] as const;
+
+/**
+ * ISO 8601 timestamp schema (with an offset or Z)
+ */
+const timestampSchema = z.string().datetime({
+  offset: true,
+  message: "Must be an ISO 8601 timestamp (e.g. \"2024-02-01T09:00:00Z\")",
+});
+
+/**
+ * Create a scheduled transfer schema
+ * Recurrence, endAt and maxRuns are checked further by the service
+ */
+export const createScheduledTransferSchema = z.object({
+  params: z.object({
+    userId: uuidSchema,
+  }),
+  body: z
+    .object({
+      recipientUserId: uuidSchema,
+      amount: amountSchema,
+      currency: currencySchema.optional(),
+      startAt: timestampSchema,
+      recurrence: z.string().min(1).max(255).optional(),
+      endAt: timestampSchema.optional(),
+      maxRuns: z
+        .number()
+        .int("maxRuns must be a whole number")
+        .min(1, "maxRuns must be at least 1")
+        .max(10000, "maxRuns must be at most 10000")
+        .optional(),
+      channel: channelSchema.optional(),
+      metadata: z.record(z.any()).optional(),
+    })
+    .refine((data) => data.recurrence || (!data.endAt && !data.maxRuns), {
+      message: "endAt and maxRuns only apply to recurring transfers",
+      path: ["recurrence"],
+    }),
+});
+
+/**
+ * List scheduled transfers schema
+ */
+export const listScheduledTransfersSchema = z.object({
+  params: z.object({
+    userId: uuidSchema,
+  }),
+  query: z.object({
+    status: z.enum(scheduledTransferStatuses).optional(),
+  }),
+});
+
+/**
+ * Get, pause, resume or cancel a scheduled transfer schema
+ */
+export const scheduledTransferParamsSchema = z.object({
+  params: z.object({
+    userId: uuidSchema,
+    scheduleId: uuidSchema,
+  }),
+});
+
+// ==================== Payout Schemas ====================
+
+/**
+ * Payout execution modes
+ */
+export const payoutModes = ["all_or_nothing", "best_effort"] as const;
+
+/**
+ * Payout batch statuses that can be used to filter the list
+ */
+export const payoutBatchStatuses = [
+  "processing",
+  "completed",
+  "partially_completed",
+  "failed",
+] as const;
+
+/**
+ * Create a payout batch schema
+ * Rows come as JSON `items` or as `csv` text; the service checks CSV rows,
+ * duplicates, recipients and the balance for both
+ */
+export const createPayoutSchema = z.object({
+  params: z.object({
+    userId: uuidSchema,
+  }),
+  body: z
+    .object({
+      items: z
+        .array(
+          z.object({
+            recipientUserId: uuidSchema,
+            amount: amountSchema,
+            narration: z.string().max(255, "narration must be at most 255 characters").optional(),
+          })
+        )
+        .min(1, "items must have at least one row")
+        .optional(),
+      csv: z.string().min(1, "csv must not be empty").optional(),
+      currency: currencySchema.optional(),
+      mode: z.enum(payoutModes).optional(),
+      channel: channelSchema.optional(),
+      metadata: z.record(z.any()).optional(),
+    })
+    .refine((data) => (data.items === undefined) !== (data.csv === undefined), {
+      message: "Provide either items or csv",
+      path: ["items"],
+    }),
+});
+
+/**
+ * List payout batches schema
+ */
+export const listPayoutsSchema = z.object({
+  params: z.object({
+    userId: uuidSchema,
+  }),
+  query: z.object({
+    status: z.enum(payoutBatchStatuses).optional(),
+  }),
+});
+
+/**
+ * Get a payout batch or its result file schema
+ */
+export const payoutParamsSchema = z.object({
+  params: z.object({
+    userId: uuidSchema,
+    batchId: uuidSchema,
   }),
 });
 
+// ==================== Payment Request Schemas ====================
+
+/**
+ * Payment request statuses that can be used to filter the lists
+ */
+export const paymentRequestStatuses = [
+  "pending",
+  "paid",
+  "declined",
+  "expired",
+  "cancelled",
+] as const;
+
+/**
+ * Create a payment request schema
+ * The payer is a user ID or an email, phone number or handle; the expiry
+ * window is checked by the service
+ */
+export const createPaymentRequestSchema = z.object({
+  body: z
+    .object({
+      payerUserId: uuidSchema.optional(),
+      payer: recipientIdentifierSchema.optional(),
+      amount: amountSchema,
+      currency: currencySchema.optional(),
+      note: z.string().trim().max(255, "note must be at most 255 characters").optional(),
+      expiresAt: timestampSchema.optional(),
+    })
+    .refine((data) => (data.payerUserId === undefined) !== (data.payer === undefined), {
+      message: "Provide either payerUserId or payer (email, phone or handle)",
+      path: ["payerUserId"],
+    }),
+});
+
+/**
+ * List incoming or outgoing payment requests schema
+ */
+export const listPaymentRequestsSchema = z.object({
+  query: z.object({
+    status: z.enum(paymentRequestStatuses).optional(),
+  }),
+});
+
+/**
+ * Get, decline or cancel a payment request schema
+ */
+export const paymentRequestParamsSchema = z.object({
+  params: z.object({
+    requestId: uuidSchema,
+  }),
+});
+
+/**
+ * Accept (pay) a payment request schema
+ */
+export const acceptPaymentRequestSchema = z.object({
+  params: z.object({
+    requestId: uuidSchema,
+  }),
+  body: z.object({
+    channel: channelSchema.optional(),
+  }),
+});
+
+// ==================== Escrow Schemas ====================
+
+/**
+ * Escrow statuses that can be used to filter the lists
+ */
+export const escrowStatuses = ["funded", "disputed", "released", "refunded", "split"] as const;
+
+/**
+ * Reason recorded in an escrow's audit trail
+ */
+const escrowReasonSchema = z.string().trim().min(1).max(255, "reason must be at most 255 characters");
+
+/**
+ * Fund an escrow schema
+ * The beneficiary is a user ID or an email, phone number or handle; the
+ * timeout window is checked by the service
+ */
+export const createEscrowSchema = z.object({
+  body: z
+    .object({
+      beneficiaryUserId: uuidSchema.optional(),
+      beneficiary: recipientIdentifierSchema.optional(),
+      amount: amountSchema,
+      currency: currencySchema.optional(),
+      description: z.string().trim().max(255, "description must be at most 255 characters").optional(),
+      expiresAt: timestampSchema.optional(),
+      channel: channelSchema.optional(),
+      metadata: z.record(z.any()).optional(),
+    })
+    .refine((data) => (data.beneficiaryUserId === undefined) !== (data.beneficiary === undefined), {
+      message: "Provide either beneficiaryUserId or beneficiary (email, phone or handle)",
+      path: ["beneficiaryUserId"],
+    }),
+});
+
+/**
+ * List the user's escrows schema
+ */
+export const listEscrowsSchema = z.object({
+  query: z.object({
+    role: z.enum(["payer", "beneficiary"]).optional(),
+    status: z.enum(escrowStatuses).optional(),
+  }),
+});
+
+/**
+ * List all escrows schema (admin)
+ */
+export const adminListEscrowsSchema = z.object({
+  query: z.object({
+    status: z.enum(escrowStatuses).optional(),
+  }),
+});
+
+/**
+ * Get an escrow schema
+ */
+export const escrowParamsSchema = z.object({
+  params: z.object({
+    escrowId: uuidSchema,
+  }),
+});
+
+/**
+ * Release or refund an escrow schema
+ */
+export const settleEscrowSchema = z.object({
+  params: z.object({
+    escrowId: uuidSchema,
+  }),
+  body: z.object({
+    reason: escrowReasonSchema.optional(),
+  }),
+});
+
+/**
+ * Dispute an escrow schema
+ */
+export const disputeEscrowSchema = z.object({
+  params: z.object({
+    escrowId: uuidSchema,
+  }),
+  body: z.object({
+    reason: escrowReasonSchema,
+  }),
+});
+
+/**
+ * Resolve an escrow schema (admin)
+ * A split needs the beneficiary's share; the service checks it is less
+ * than the escrowed amount
+ */
+export const resolveEscrowSchema = z.object({
+  params: z.object({
+    escrowId: uuidSchema,
+  }),
+  body: z
+    .object({
+      outcome: z.enum(["release", "refund", "split"]),
+      beneficiaryAmount: amountSchema.optional(),
+      reason: escrowReasonSchema.optional(),
+    })
+    .refine((data) => (data.outcome === "split") === (data.beneficiaryAmount !== undefined), {
+      message: "beneficiaryAmount is required for a split and only allowed for a split",
+      path: ["beneficiaryAmount"],
+    }),
+});
+
+// ==================== Savings Pot Schemas ====================
+
+/**
+ * Savings pot statuses that can be used to filter the list
+ */
+export const savingsPotStatuses = ["active", "closed"] as const;
+
+/**
+ * Open a savings pot schema
+ * The lock date is checked against the current time by the service
+ */
+export const createSavingsPotSchema = z.object({
+  params: z.object({
+    userId: uuidSchema,
+  }),
+  body: z.object({
+    name: z.string().trim().min(1, "name is required").max(100, "name must be at most 100 characters"),
+    currency: currencySchema.optional(),
+    targetAmount: amountSchema.optional(),
+    lockedUntil: timestampSchema.optional(),
+  }),
+});
+
+/**
+ * List savings pots schema
+ */
+export const listSavingsPotsSchema = z.object({
+  params: z.object({
+    userId: uuidSchema,
+  }),
+  query: z.object({
+    status: z.enum(savingsPotStatuses).optional(),
+  }),
+});
+
+/**
+ * Get or close a savings pot schema
+ */
+export const savingsPotParamsSchema = z.object({
+  params: z.object({
+    userId: uuidSchema,
+    potId: uuidSchema,
+  }),
+});
+
+/**
+ * Deposit into a savings pot schema
+ */
+export const depositSavingsPotSchema = z.object({
+  params: z.object({
+    userId: uuidSchema,
+    potId: uuidSchema,
+  }),
+  body: z.object({
+    amount: amountSchema,
+  }),
+});
+
+/**
+ * Withdraw from a savings pot schema
+ */
+export const withdrawSavingsPotSchema = z.object({
+  params: z.object({
+    userId: uuidSchema,
+    potId: uuidSchema,
+  }),
+  body: z.object({
+    amount: amountSchema,
+    channel: channelSchema.optional(),
+  }),
+});
+
+// ==================== Loan Schemas ====================
+
+/**
+ * Loan application statuses that can be used to filter the lists
+ */
+export const loanApplicationStatuses = ["review", "approved", "declined", "disbursed", "repaid"] as const;
+
+/**
+ * How a loan product's installments split principal and interest
+ */
+export const loanRepaymentMethods = ["flat", "reducing_balance"] as const;
+
+/**
+ * Apply for a loan schema
+ * The amount is checked against the product's range by the service
+ */
+export const applyForLoanSchema = z.object({
+  body: z.object({
+    productId: uuidSchema,
+    amount: amountSchema,
+    purpose: z.string().trim().max(255, "purpose must be at most 255 characters").optional(),
+  }),
+});
+
+/**
+ * List the user's loan applications schema
+ */
+export const listLoanApplicationsSchema = z.object({
+  query: z.object({
+    status: z.enum(loanApplicationStatuses).optional(),
+  }),
+});
+
+/**
+ * Get a loan application (or its repayment schedule) schema
+ */
+export const loanApplicationParamsSchema = z.object({
+  params: z.object({
+    applicationId: uuidSchema,
+  }),
+});
+
+// ==================== Adjutor Schemas ====================
+
+/**
+ * Check Karma schema
+ */
+export const checkKarmaSchema = z.object({
+  params: z.object({
+    identityType: z.enum(["bvn", "email", "phone"]),
+    identity: z.string().min(1, "Identity is required"),
+  }),
+});
+
+
+// ==================== Admin Schemas ====================
+
+/**
+ * List reconciliation runs schema
+ */
+export const listReconciliationRunsSchema = z.object({
+  query: z.object({
+    limit: z
+      .string()
+      .regex(/^\d+$/, "Limit must be a whole number")
+      .refine((value) => {
+        const limit = parseInt(value, 10);
+        return limit >= 1 && limit <= 100;
+      }, "Limit must be between 1 and 100")
+      .optional(),
+  }),
+});
+
+/**
+ * Get reconciliation run schema
+ */
+export const getReconciliationRunSchema = z.object({
+  params: z.object({
+    runId: uuidSchema,
+  }),
+});
+
+/**
+ * Fee amount in a rule (scale is checked against the rule currency by FeeService)
+ */
+const feeAmountSchema = z
+  .string()
+  .regex(/^\d{1,14}(\.\d{1,6})?$/, "Must be a decimal string (e.g. \"10.50\")");
+
+/**
+ * Basis points schema (1 bp = 0.01%)
+ */
+const bpsSchema = z.number().int().min(1).max(10000);
+
+/**
+ * List fee rules schema
+ */
+export const listFeeRulesSchema = z.object({
+  query: z.object({
+    operation: z.enum(feeOperations).optional(),
+    currency: currencySchema.optional(),
+    active: z.enum(["true", "false"]).optional(),
+  }),
+});
+
+/**
+ * Create fee rule schema
+ * Pricing fields are checked against feeType by FeeService
+ */
+export const createFeeRuleSchema = z.object({
+  body: z.object({
+    operation: z.enum(feeOperations),
+    currency: currencySchema,
+    channel: channelSchema.nullable().optional(),
+    userTier: z.enum(userTiers).nullable().optional(),
+    feeType: z.enum(feeTypes),
+    flatFee: feeAmountSchema.optional(),
+    percentageBps: bpsSchema.optional(),
+    tiers: z
+      .array(
+        z.object({
+          upTo: feeAmountSchema.nullable(),
+          flatFee: feeAmountSchema.optional(),
+          bps: bpsSchema.optional(),
+        })
+      )
+      .min(1)
+      .max(20)
+      .optional(),
+    minFee: feeAmountSchema.optional(),
+    maxFee: feeAmountSchema.optional(),
+    priority: z.number().int().min(0).max(1000).optional(),
+    active: z.boolean().optional(),
+    description: z.string().trim().max(255).optional(),
+  }),
+});
+
+/**
+ * Update fee rule schema
+ * Only non-pricing fields can change; reprice by adding a new rule
+ */
+export const updateFeeRuleSchema = z.object({
+  params: z.object({
+    ruleId: uuidSchema,
+  }),
+  body: z
+    .object({
+      active: z.boolean().optional(),
+      priority: z.number().int().min(0).max(1000).optional(),
+      description: z.string().trim().max(255).nullable().optional(),
+    })
+    .refine((data) => Object.keys(data).length > 0, {
+      message: "Provide at least one of: active, priority, description",
+    }),
+});
+
+/**
+ * Reversal schema
+ * Target is a transaction ID or a transfer reference
+ */
+export const reversalSchema = z.object({
+  body: z.object({
+    target: z.string().min(1, "Target is required").max(80),
+    reason: z.string().trim().min(3, "Reason must be at least 3 characters").max(255),
+    allowNegativeBalance: z.boolean().optional(),
+  }),
+});
+
+/**
+ * Tier limit amount (scale is checked against the currency by LimitService)
+ */
+const limitAmountSchema = z
+  .string()
+  .regex(/^\d{1,14}(\.\d{1,6})?$/, "Must be a decimal string (e.g. \"50000.00\")");
+
+/**
+ * List tier limits schema
+ */
+export const listTierLimitsSchema = z.object({
+  query: z.object({
+    tier: z.enum(userTiers).optional(),
+    currency: currencySchema.optional(),
+  }),
+});
+
+/**
+ * Set tier limits schema
+ * Every limit must be given; null means unlimited
+ */
+export const setTierLimitSchema = z.object({
+  params: z.object({
+    tier: z.enum(userTiers),
+    currency: currencySchema,
+  }),
+  body: z.object({
+    maxSingle: limitAmountSchema.nullable(),
+    dailyLimit: limitAmountSchema.nullable(),
+    monthlyLimit: limitAmountSchema.nullable(),
+    maxBalance: limitAmountSchema.nullable(),
+  }),
+});
+
+/**
+ * Set a user's tier schema
+ */
+export const setUserTierSchema = z.object({
+  params: z.object({
+    userId: uuidSchema,
+  }),
+  body: z.object({
+    tier: z.enum(userTiers),
+  }),
+});
+
+/**
+ * Wallet statuses an admin can set
+ */
+export const walletStatuses = ["active", "frozen", "post_no_debit", "closed"] as const;
+
+/**
+ * Change a wallet's status schema
+ */
+export const setWalletStatusSchema = z.object({
+  params: z.object({
+    walletId: uuidSchema,
+  }),
+  body: z.object({
+    status: z.enum(walletStatuses),
+    reason: z.string().trim().min(3, "Reason must be at least 3 characters").max(500),
+  }),
+});
+
+/**
+ * Wallet status history schema
+ */
+export const walletStatusHistorySchema = z.object({
+  params: z.object({
+    walletId: uuidSchema,
+  }),
+});
+
+/**
+ * List loan products schema (admin)
+ */
+export const listLoanProductsSchema = z.object({
+  query: z.object({
+    active: z.enum(["true", "false"]).optional(),
+  }),
+});
+
+/**
+ * Create loan product schema
+ * The amount range and fee are checked against each other by LoanService
+ */
+export const createLoanProductSchema = z.object({
+  body: z.object({
+    name: z.string().trim().min(1, "name is required").max(100, "name must be at most 100 characters"),
+    description: z.string().trim().max(255).optional(),
+    currency: currencySchema,
+    minAmount: amountSchema,
+    maxAmount: amountSchema,
+    tenorMonths: z.number().int().min(1).max(60),
+    interestRateBps: z.number().int().min(0).max(100000),
+    repaymentMethod: z.enum(loanRepaymentMethods).optional(),
+    latePenaltyBps: z.number().int().min(0).max(1000).optional(),
+    feeFlat: amountSchema.optional(),
+    feeBps: z.number().int().min(0).max(5000).optional(),
+    active: z.boolean().optional(),
+  }),
+});
+
+/**
+ * Update loan product schema
+ * Only non-pricing fields can change; reprice by adding a new product
+ */
+export const updateLoanProductSchema = z.object({
+  params: z.object({
+    productId: uuidSchema,
+  }),
+  body: z
+    .object({
+      active: z.boolean().optional(),
+      description: z.string().trim().max(255).nullable().optional(),
+    })
+    .refine((data) => Object.keys(data).length > 0, {
+      message: "Provide at least one of: active, description",
+    }),
+});
+
+/**
+ * List all loan applications schema (admin)
+ */
+export const adminListLoanApplicationsSchema = z.object({
+  query: z.object({
+    status: z.enum(loanApplicationStatuses).optional(),
+  }),
+});
+
+/**
+ * Decide a referred loan application schema (admin)
+ */
+export const decideLoanApplicationSchema = z.object({
+  params: z.object({
+    applicationId: uuidSchema,
+  }),
+  body: z.object({
+    decision: z.enum(["approve", "decline"]),
+    reason: z
+      .string()
+      .trim()
+      .min(3, "reason must be at least 3 characters")
+      .max(255, "reason must be at most 255 characters"),
+  }),
+});
+
+/**
+ * Score a user without storing the decision schema (admin)
+ */
+export const creditDecisionDryRunSchema = z.object({
+  body: z.object({
+    userId: uuidSchema,
+    currency: currencySchema.optional(),
+    version: z
+      .string()
+      .refine(
+        (version) => creditScorecardVersions.includes(version),
+        `version must be one of: ${creditScorecardVersions.join(", ")}`
+      )
+      .optional(),
+  }),
+});
+
+/**
+ * List stored credit decisions schema (admin)
+ */
+export const listCreditDecisionsSchema = z.object({
+  query: z.object({
+    userId: uuidSchema.optional(),
+    applicationId: uuidSchema.optional(),
+  }),
+});
@@ -0,0 +1,109 @@
+/**
+ * Query Mocks
+ *
+ * Chainable stand-ins for Knex query builders, shared by the service tests.
+ *
+ * - mockQuery():  one query builder. Filter, join, aggregate and lock
+ *                 methods return the builder; `first` resolves undefined
+ *                 until a test queues a row; `insert` and `update` resolve
+ *                 like MySQL does. Awaiting the builder itself resolves the
+ *                 next row set pushed onto `results` (an empty list once
+ *                 they run out).
+ * - mockTables(): one builder per table, and a `db` function routing
+ *                 `db(table)` to them. Wire `db` in as `knex` or as the
+ *                 transaction handed to withTransaction().
+ *
+ * @example
+ * ```typescript
+ * const { tables, db } = mockTables("wallets", "transactions");
+ * vi.mocked(withTransaction).mockImplementation((callback: any) => callback(db));
+ * tables.wallets.first.mockResolvedValueOnce(wallet);
+ * tables.transactions.results.push([transaction]);
+ * ```
+ */
+
+import { vi, Mock } from "vitest";
+
+/**
+ * Builder methods that return the builder
+ */
+const CHAIN_METHODS = [
+  "select",
+  "distinct",
+  "join",
+  "leftJoin",
+  "where",
+  "whereIn",
+  "whereNot",
+  "whereNotIn",
+  "whereNull",
+  "whereNotNull",
+  "whereNotExists",
+  "whereRaw",
+  "orWhere",
+  "orWhereNull",
+  "count",
+  "countDistinct",
+  "sum",
+  "groupBy",
+  "orderBy",
+  "orderByRaw",
+  "limit",
+  "forUpdate",
+  "onConflict",
+] as const;
+
+/**
+ * Mocked query builder
+ */
+export type QueryMock = Record<(typeof CHAIN_METHODS)[number], Mock> & {
+  /** Row sets resolved by awaiting the builder, in order */
+  results: unknown[];
+  first: Mock;
+  insert: Mock;
+  update: Mock;
+  delete: Mock;
+  merge: Mock;
+  ignore: Mock;
+  then: (resolve: (value: unknown) => unknown, reject?: (reason: unknown) => unknown) => Promise<unknown>;
+};
+
+/**
+ * Build a chainable query builder mock
+ *
+ * @returns Query mock
+ */
+export const mockQuery = (): QueryMock => {
+  const query: any = {
+    results: [],
+    first: vi.fn(),
+    update: vi.fn().mockResolvedValue(1),
+    delete: vi.fn().mockResolvedValue(0),
+    merge: vi.fn().mockResolvedValue([1]),
+    ignore: vi.fn().mockResolvedValue([1]),
+    then: (resolve: any, reject: any) => Promise.resolve(query.results.shift() ?? []).then(resolve, reject),
+  };
+
+  for (const method of CHAIN_METHODS) {
+    query[method] = vi.fn().mockReturnValue(query);
+  }
+
+  // Resolves like MySQL, or goes on to `.onConflict().merge()` / `.ignore()`
+  query.insert = vi.fn(() => Object.assign(Promise.resolve([1]), { onConflict: query.onConflict }));
+
+  return query;
+};
+
+/**
+ * Build one query builder mock per table
+ *
+ * @param names - Tables the code under test reads or writes
+ * @returns Mocks by table, and a Knex stand-in that routes to them
+ */
+export const mockTables = <T extends string>(...names: T[]) => {
+  const tables = Object.fromEntries(names.map((name) => [name, mockQuery()])) as Record<T, QueryMock>;
+  const db = vi.fn((table: T) => tables[table]) as any;
+  db.fn = { now: () => new Date() };
+
+  return { tables, db };
+};
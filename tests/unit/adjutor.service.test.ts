@@ -5,8 +5,10 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { AxiosError } from "axios";
 import { AdjutorService } from "../../src/services/adjutor.service";
 import { knex } from "../../src/db";
+import { config } from "../../src/config/env";
 
 // Mock the database
 vi.mock("../../src/db", () => ({
@@ -134,5 +136,121 @@ describe("AdjutorService", () => {
       expect(mockInsert).toHaveBeenCalled();
     });
   });
-});
 
+  describe("reportKarma / removeKarma", () => {
+    const payload = {
+      identity: "ada@example.com",
+      identity_type: "EMAIL",
+      amount_in_contention: "35013.71",
+      reason: "Default on loan repayment",
+      default_date: "2024-04-01",
+      karma_type: "Loan Default",
+    };
+
+    afterEach(() => {
+      config.adjutor.mode = "mock";
+      vi.restoreAllMocks();
+    });
+
+    it("should accept a report in mock mode without calling Adjutor", async () => {
+      const result = await AdjutorService.reportKarma(payload, "email");
+
+      expect(result.succeeded).toBe(true);
+      expect(result.identity).toBe("ada@example.com");
+      expect(result.rawResponse.data?.amount_in_contention).toBe("35013.71");
+      expect(result.rawResponse.data?.karma_type.karma).toBe("Loan Default");
+    });
+
+    it("should accept a removal in mock mode", async () => {
+      const result = await AdjutorService.removeKarma("+2348012345678", "phone");
+
+      expect(result.succeeded).toBe(true);
+      expect(result.identityType).toBe("phone");
+    });
+
+    it("should post the report to Adjutor in live mode", async () => {
+      config.adjutor.mode = "live";
+      const post = vi.fn().mockResolvedValue({ data: { status: "success", message: "Karma record added" } });
+      vi.spyOn(AdjutorService as any, "getAxiosInstance").mockReturnValue({ post });
+
+      const result = await AdjutorService.reportKarma(payload, "email");
+
+      expect(post).toHaveBeenCalledWith("/v2/verification/karma", payload);
+      expect(result.succeeded).toBe(true);
+    });
+
+    it("should return an unsuccessful result when Adjutor rejects the report", async () => {
+      config.adjutor.mode = "live";
+      const error = new AxiosError("Request failed", "ERR_BAD_REQUEST", { method: "post" } as any, null, {
+        status: 422,
+        data: { message: "Invalid default date" },
+      } as any);
+      vi.spyOn(AdjutorService as any, "getAxiosInstance").mockReturnValue({ post: vi.fn().mockRejectedValue(error) });
+
+      const result = await AdjutorService.reportKarma(payload, "email");
+
+      expect(result.succeeded).toBe(false);
+      expect(result.rawResponse).toEqual({ status: "error", message: "Invalid default date" });
+    });
+
+    it("should treat a missing record as removed", async () => {
+      config.adjutor.mode = "live";
+      const error = new AxiosError("Not found", "ERR_BAD_REQUEST", { method: "delete" } as any, null, {
+        status: 404,
+        data: {},
+      } as any);
+      const remove = vi.fn().mockRejectedValue(error);
+      vi.spyOn(AdjutorService as any, "getAxiosInstance").mockReturnValue({ delete: remove });
+
+      const result = await AdjutorService.removeKarma("ada@example.com", "email");
+
+      expect(remove).toHaveBeenCalledWith("/v2/verification/karma/ada%40example.com");
+      expect(result.succeeded).toBe(true);
+    });
+  });
+
+  describe("logReport", () => {
+    it("should log a report with what was sent and received", async () => {
+      const mockInsert = vi.fn().mockResolvedValue([1]);
+      vi.mocked(knex).mockImplementation((() => ({ insert: mockInsert })) as any);
+      const payload = {
+        identity: "ada@example.com",
+        identity_type: "EMAIL",
+        amount_in_contention: "35013.71",
+        reason: "Default on loan repayment",
+        default_date: "2024-04-01",
+        karma_type: "Loan Default",
+      };
+      const result = await AdjutorService.reportKarma(payload, "email");
+
+      await AdjutorService.logReport("user-123", "loan-1", "add", payload, result, "admin-1");
+
+      expect(knex).toHaveBeenCalledWith("adjutor_reports");
+      expect(mockInsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          application_id: "loan-1",
+          action: "add",
+          identity_type: "email",
+          identity: "ada@example.com",
+          amount_in_contention_decimal: "35013.71",
+          default_date: "2024-04-01",
+          request_payload: JSON.stringify(payload),
+          succeeded: true,
+          submitted_by: "admin-1",
+        })
+      );
+    });
+
+    it("should leave the report fields empty for a removal", async () => {
+      const mockInsert = vi.fn().mockResolvedValue([1]);
+      vi.mocked(knex).mockImplementation((() => ({ insert: mockInsert })) as any);
+      const result = await AdjutorService.removeKarma("ada@example.com", "email");
+
+      await AdjutorService.logReport("user-123", "loan-1", "remove", { identity: "ada@example.com" }, result, null);
+
+      expect(mockInsert).toHaveBeenCalledWith(
+        expect.objectContaining({ action: "remove", amount_in_contention_decimal: null, submitted_by: null })
+      );
+    });
+  });
+});
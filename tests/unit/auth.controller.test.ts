@@ -14,6 +14,10 @@ vi.mock("../../src/services/auth.service", () => ({
   AuthService: {
     createUser: vi.fn(),
     loginUser: vi.fn(),
+    requestLoginOtp: vi.fn(),
+    loginWithOtp: vi.fn(),
+    refreshSession: vi.fn(),
+    logout: vi.fn(),
   },
 }));
 
@@ -22,6 +26,21 @@ describe("AuthController", () => {
   let mockRes: Partial<Response>;
   let mockNext: NextFunction;
 
+  const tokenExpiresAt = new Date("2024-03-01T09:15:00.000Z");
+  const refreshTokenExpiresAt = new Date("2024-03-31T09:00:00.000Z");
+  const sessionFields = (token: string) => ({
+    token,
+    tokenExpiresAt,
+    refreshToken: "refresh-token",
+    refreshTokenExpiresAt,
+  });
+  const sessionResponse = (token: string) => ({
+    token,
+    token_expires_at: tokenExpiresAt,
+    refresh_token: "refresh-token",
+    refresh_token_expires_at: refreshTokenExpiresAt,
+  });
+
   beforeEach(() => {
     vi.clearAllMocks();
 
@@ -56,11 +75,12 @@ describe("AuthController", () => {
         email: "[email protected]",
         phone: "+2348012345678",
         bvn: "22212345678",
+        password: "correct horse battery staple",
       };
 
       vi.mocked(AuthService.createUser).mockResolvedValue({
         user: mockUser,
-        token: mockToken,
+        ...sessionFields(mockToken),
       });
 
       await AuthController.signup(
@@ -82,7 +102,7 @@ describe("AuthController", () => {
               phone: mockUser.phone,
               status: mockUser.status,
             }),
-            token: mockToken,
+            ...sessionResponse(mockToken),
           },
         })
       );
@@ -94,6 +114,7 @@ describe("AuthController", () => {
         email: "[email protected]",
         phone: "+2348012345678",
         bvn: "12345678901", // blacklisted
+        password: "correct horse battery staple",
       };
 
       const error = new Error("User is blacklisted");
@@ -126,11 +147,13 @@ describe("AuthController", () => {
       mockReq.body = {
         email: "[email protected]",
         phone: "+2348012345678",
+        password: "correct horse battery staple",
       };
+      Object.assign(mockReq, { ip: "203.0.113.7" });
 
       vi.mocked(AuthService.loginUser).mockResolvedValue({
         user: mockUser,
-        token: mockToken,
+        ...sessionFields(mockToken),
       });
 
       await AuthController.login(
@@ -139,6 +162,14 @@ describe("AuthController", () => {
         mockNext
       );
 
+      expect(AuthService.loginUser).toHaveBeenCalledWith(
+        {
+          email: "[email protected]",
+          phone: "+2348012345678",
+          password: "correct horse battery staple",
+        },
+        "203.0.113.7"
+      );
       expect(mockRes.status).toHaveBeenCalledWith(200);
       expect(mockRes.json).toHaveBeenCalledWith(
         expect.objectContaining({
@@ -152,7 +183,7 @@ describe("AuthController", () => {
               phone: mockUser.phone,
               status: mockUser.status,
             }),
-            token: mockToken,
+            ...sessionResponse(mockToken),
           },
         })
       );
@@ -162,6 +193,7 @@ describe("AuthController", () => {
       mockReq.body = {
         email: "[email protected]",
         phone: "+2348099999999",
+        password: "wrong password",
       };
 
       const error = new Error("Invalid credentials");
@@ -176,5 +208,127 @@ describe("AuthController", () => {
       expect(mockNext).toHaveBeenCalledWith(error);
     });
   });
-});
 
+  describe("requestOtp", () => {
+    it("should return the channel and lifetime of the code", async () => {
+      mockReq.body = { email: "[email protected]" };
+      vi.mocked(AuthService.requestLoginOtp).mockResolvedValue({ channel: "email", expiresInSeconds: 300 });
+
+      await AuthController.requestOtp(
+        mockReq as Request,
+        mockRes as Response,
+        mockNext
+      );
+
+      expect(AuthService.requestLoginOtp).toHaveBeenCalledWith({ email: "[email protected]", phone: undefined });
+      expect(mockRes.status).toHaveBeenCalledWith(200);
+      expect(mockRes.json).toHaveBeenCalledWith({
+        success: true,
+        message: "If an account matches, a login code has been sent",
+        data: { channel: "email", expires_in_seconds: 300 },
+      });
+    });
+  });
+
+  describe("verifyOtp", () => {
+    it("should login user with a code and return 200", async () => {
+      const mockUser = {
+        id: "test-user-id",
+        name: "John Doe",
+        email: "[email protected]",
+        phone: "+2348012345678",
+        status: "active",
+        created_at: new Date(),
+        updated_at: new Date(),
+      };
+
+      mockReq.body = { phone: "+2348012345678", code: "123456" };
+      vi.mocked(AuthService.loginWithOtp).mockResolvedValue({ user: mockUser as any, ...sessionFields("test-token-789") });
+
+      await AuthController.verifyOtp(
+        mockReq as Request,
+        mockRes as Response,
+        mockNext
+      );
+
+      expect(AuthService.loginWithOtp).toHaveBeenCalledWith({
+        email: undefined,
+        phone: "+2348012345678",
+        code: "123456",
+      });
+      expect(mockRes.status).toHaveBeenCalledWith(200);
+      expect(mockRes.json).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: "Login successful",
+          data: expect.objectContaining({ token: "test-token-789" }),
+        })
+      );
+    });
+
+    it("should handle rejected codes", async () => {
+      mockReq.body = { email: "[email protected]", code: "000000" };
+      const error = new Error("Invalid or expired code");
+      vi.mocked(AuthService.loginWithOtp).mockRejectedValue(error);
+
+      await AuthController.verifyOtp(
+        mockReq as Request,
+        mockRes as Response,
+        mockNext
+      );
+
+      expect(mockNext).toHaveBeenCalledWith(error);
+    });
+  });
+
+  describe("refresh", () => {
+    it("should return new tokens", async () => {
+      mockReq.body = { refreshToken: "old-refresh-token" };
+      vi.mocked(AuthService.refreshSession).mockResolvedValue(sessionFields("new-access-token"));
+
+      await AuthController.refresh(
+        mockReq as Request,
+        mockRes as Response,
+        mockNext
+      );
+
+      expect(AuthService.refreshSession).toHaveBeenCalledWith("old-refresh-token");
+      expect(mockRes.status).toHaveBeenCalledWith(200);
+      expect(mockRes.json).toHaveBeenCalledWith({
+        success: true,
+        message: "Token refreshed",
+        data: sessionResponse("new-access-token"),
+      });
+    });
+
+    it("should handle rejected refresh tokens", async () => {
+      mockReq.body = { refreshToken: "used-refresh-token" };
+      const error = new Error("Refresh token has already been used; the session has been revoked");
+      vi.mocked(AuthService.refreshSession).mockRejectedValue(error);
+
+      await AuthController.refresh(
+        mockReq as Request,
+        mockRes as Response,
+        mockNext
+      );
+
+      expect(mockNext).toHaveBeenCalledWith(error);
+    });
+  });
+
+  describe("logout", () => {
+    it("should end the session and return 200", async () => {
+      mockReq.body = { refreshToken: "refresh-token" };
+      vi.mocked(AuthService.logout).mockResolvedValue(undefined);
+
+      await AuthController.logout(
+        mockReq as Request,
+        mockRes as Response,
+        mockNext
+      );
+
+      expect(AuthService.logout).toHaveBeenCalledWith("refresh-token");
+      expect(mockRes.status).toHaveBeenCalledWith(200);
+      expect(mockRes.json).toHaveBeenCalledWith({ success: true, message: "Logged out" });
+    });
+  });
+});
@@ -1,14 +1,21 @@
 /**
  * Auth Service Tests
  * 
- * Unit tests for authentication service (signup, login).
+ * Unit tests for authentication service (signup, password login, one-time code login,
+ * token refresh, logout).
  */
 
-import { describe, it, expect, vi, beforeEach } from "vitest";
+import { describe, it, expect, vi, beforeAll, beforeEach } from "vitest";
 import { AuthService } from "../../src/services/auth.service";
 import { AdjutorService } from "../../src/services/adjutor.service";
+import { OtpService } from "../../src/services/otp.service";
+import { LoginAttemptService } from "../../src/services/login-attempt.service";
+import { OtpDeliveryService } from "../../src/services/otp-delivery.service";
+import { SessionService } from "../../src/services/session.service";
+import { UserService } from "../../src/services/user.service";
 import { knex } from "../../src/db";
 import { AppError } from "../../src/middlewares/error";
+import { hashPassword, verifyPassword } from "../../src/utils/password";
 
 // Mock dependencies
 // Hoisted callable transaction for withTransaction
@@ -38,8 +45,18 @@ vi.mock("../../src/services/adjutor.service", () => ({
 }));
 
 describe("AuthService", () => {
+  const sessionTokens = {
+    userId: "test-user-id",
+    sessionId: "session-1",
+    token: "access-token",
+    tokenExpiresAt: new Date("2024-03-01T09:15:00.000Z"),
+    refreshToken: "refresh-token",
+    refreshTokenExpiresAt: new Date("2024-03-31T09:00:00.000Z"),
+  };
+
   beforeEach(() => {
     vi.clearAllMocks();
+    vi.spyOn(SessionService, "start").mockResolvedValue(sessionTokens);
   });
 
   describe("createUser (signup)", () => {
@@ -48,6 +65,7 @@ describe("AuthService", () => {
       email: "[email protected]",
       phone: "+2348012345678",
       bvn: "22212345678",
+      password: "correct horse battery staple",
     };
 
     it("should create user with valid data", async () => {
@@ -109,7 +127,9 @@ describe("AuthService", () => {
 
       expect(result.user.email).toBe(validSignupData.email);
       expect(result.user.name).toBe(validSignupData.name);
-      expect(result.token).toBeDefined();
+      expect(result.token).toBe("access-token");
+      expect(result.refreshToken).toBe("refresh-token");
+      expect(SessionService.start).toHaveBeenCalledWith("test-user-id");
       expect(AdjutorService.checkKarma).toHaveBeenCalledWith(validSignupData.bvn, "bvn");
       expect(AdjutorService.checkKarma).toHaveBeenCalledWith(validSignupData.email, "email");
       expect(AdjutorService.checkKarma).toHaveBeenCalledWith(validSignupData.phone, "phone");
@@ -246,8 +266,39 @@ describe("AuthService", () => {
 
       await AuthService.createUser(validSignupData);
 
-      // Should have called transaction-insert twice (user + wallet)
-      expect(mockInsertTrx).toHaveBeenCalledTimes(2);
+      // Should have called transaction-insert three times (user + credentials + wallet)
+      expect(mockInsertTrx).toHaveBeenCalledTimes(3);
+    });
+
+    it("should store an scrypt hash of the password, not the password", async () => {
+      vi.mocked(AdjutorService.checkKarma).mockResolvedValue({
+        isFlagged: false,
+        identity: validSignupData.bvn,
+        identityType: "bvn",
+        rawResponse: { status: "success", message: "No record found" },
+        checkedAt: new Date(),
+      });
+
+      vi.mocked(knex).mockImplementation((() => ({
+        where: vi.fn().mockReturnThis(),
+        first: vi.fn().mockResolvedValue(null),
+      })) as any);
+
+      const trxQuery = mockTrx();
+      trxQuery.first
+        .mockResolvedValueOnce({ id: "test-user-id", status: "active" })
+        .mockResolvedValueOnce({ id: "test-wallet-id", user_id: "test-user-id", currency: "NGN" });
+
+      await AuthService.createUser(validSignupData);
+
+      expect(mockTrx).toHaveBeenCalledWith("user_credentials");
+      const credential = trxQuery.insert.mock.calls
+        .map((call: any[]) => call[0])
+        .find((row: any) => row.password_hash);
+      expect(credential.user_id).toBe("test-user-id");
+      expect(credential.password_hash).toMatch(/^scrypt\$/);
+      expect(credential.password_hash).not.toContain(validSignupData.password);
+      expect(await verifyPassword(validSignupData.password, credential.password_hash)).toBe(true);
     });
   });
 
@@ -255,104 +306,325 @@ describe("AuthService", () => {
     const validLoginData = {
       email: "[email protected]",
       phone: "+2348012345678",
+      password: "correct horse battery staple",
     };
 
-    it("should login user with valid credentials", async () => {
-      const mockUser = {
-        id: "test-user-id",
-        name: "John Doe",
-        email: validLoginData.email,
-        phone: validLoginData.phone,
-        status: "active",
-        created_at: new Date(),
-        updated_at: new Date(),
-      };
+    let passwordHash: string;
 
-      const mockKnexFn = vi.fn(() => ({
+    beforeAll(async () => {
+      passwordHash = await hashPassword(validLoginData.password);
+    });
+
+    const userWithStatus = (status: string) => ({
+      id: "test-user-id",
+      name: "John Doe",
+      email: validLoginData.email,
+      phone: validLoginData.phone,
+      status,
+      created_at: new Date(),
+      updated_at: new Date(),
+    });
+
+    /**
+     * Mock the users and user_credentials lookups
+     */
+    const mockLookups = (user: any, credential: any) => {
+      vi.mocked(knex).mockImplementation(((table: string) => ({
         where: vi.fn().mockReturnThis(),
-        first: vi.fn().mockResolvedValue(mockUser),
-      }));
+        first: vi.fn().mockResolvedValue(table === "user_credentials" ? credential : user),
+      })) as any);
+    };
 
-      vi.mocked(knex).mockImplementation(mockKnexFn as any);
+    beforeEach(() => {
+      vi.spyOn(LoginAttemptService, "assertAllowed").mockResolvedValue(undefined);
+      vi.spyOn(LoginAttemptService, "recordFailure").mockResolvedValue(undefined);
+      vi.spyOn(LoginAttemptService, "clear").mockResolvedValue(undefined);
+    });
+
+    it("should login user with valid credentials", async () => {
+      mockLookups(userWithStatus("active"), { user_id: "test-user-id", password_hash: passwordHash });
 
       const result = await AuthService.loginUser(validLoginData);
 
       expect(result.user.email).toBe(validLoginData.email);
-      expect(result.token).toBeDefined();
+      expect(result).toMatchObject({
+        token: "access-token",
+        tokenExpiresAt: sessionTokens.tokenExpiresAt,
+        refreshToken: "refresh-token",
+        refreshTokenExpiresAt: sessionTokens.refreshTokenExpiresAt,
+      });
     });
 
     it("should reject invalid credentials with 401", async () => {
-      const mockKnexFn = vi.fn(() => ({
-        where: vi.fn().mockReturnThis(),
-        first: vi.fn().mockResolvedValue(null),
-      }));
+      mockLookups(null, null);
 
-      vi.mocked(knex).mockImplementation(mockKnexFn as any);
+      await expect(
+        AuthService.loginUser(validLoginData)
+      ).rejects.toThrow("Invalid credentials");
+    });
+
+    it("should reject a wrong password with 401", async () => {
+      mockLookups(userWithStatus("active"), { user_id: "test-user-id", password_hash: passwordHash });
+
+      const error = await AuthService.loginUser({ ...validLoginData, password: "wrong password" }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.statusCode).toBe(401);
+      expect(error.message).toBe("Invalid credentials");
+    });
+
+    it("should reject a user without a password with 401", async () => {
+      mockLookups(userWithStatus("active"), undefined);
 
       await expect(
         AuthService.loginUser(validLoginData)
       ).rejects.toThrow("Invalid credentials");
     });
 
-    it("should reject blocked user with 403", async () => {
-      const mockUser = {
-        id: "test-user-id",
-        name: "John Doe",
-        email: validLoginData.email,
-        phone: validLoginData.phone,
-        status: "blocked",
-        created_at: new Date(),
-        updated_at: new Date(),
-      };
+    it("should not reveal the account status before the password is checked", async () => {
+      mockLookups(userWithStatus("blocked"), { user_id: "test-user-id", password_hash: passwordHash });
 
-      const mockKnexFn = vi.fn(() => ({
-        where: vi.fn().mockReturnThis(),
-        first: vi.fn().mockResolvedValue(mockUser),
-      }));
+      await expect(
+        AuthService.loginUser({ ...validLoginData, password: "wrong password" })
+      ).rejects.toThrow("Invalid credentials");
+    });
 
-      vi.mocked(knex).mockImplementation(mockKnexFn as any);
+    it("should reject blocked user with 403", async () => {
+      mockLookups(userWithStatus("blocked"), { user_id: "test-user-id", password_hash: passwordHash });
 
       await expect(
         AuthService.loginUser(validLoginData)
       ).rejects.toThrow("Account is blocked. Please contact support.");
+      expect(SessionService.start).not.toHaveBeenCalled();
     });
 
     it("should reject blacklisted user with 403", async () => {
-      const mockUser = {
-        id: "test-user-id",
-        name: "John Doe",
-        email: validLoginData.email,
-        phone: validLoginData.phone,
-        status: "blacklisted",
-        created_at: new Date(),
-        updated_at: new Date(),
-      };
-
-      const mockKnexFn = vi.fn(() => ({
-        where: vi.fn().mockReturnThis(),
-        first: vi.fn().mockResolvedValue(mockUser),
-      }));
-
-      vi.mocked(knex).mockImplementation(mockKnexFn as any);
+      mockLookups(userWithStatus("blacklisted"), { user_id: "test-user-id", password_hash: passwordHash });
 
       await expect(
         AuthService.loginUser(validLoginData)
       ).rejects.toThrow("Account is blacklisted and cannot access services.");
     });
 
-    it("should reject login with missing credentials", async () => {
-      const mockKnexFn = vi.fn(() => ({
-        where: vi.fn().mockReturnThis(),
-        first: vi.fn().mockResolvedValue(null),
-      }));
+    it("should record a wrong password against the account and address", async () => {
+      mockLookups(userWithStatus("active"), { user_id: "test-user-id", password_hash: passwordHash });
 
-      vi.mocked(knex).mockImplementation(mockKnexFn as any);
+      await AuthService.loginUser({ ...validLoginData, password: "wrong password" }, "203.0.113.7").catch(() => {});
+
+      expect(LoginAttemptService.recordFailure).toHaveBeenCalledWith("test-user-id", "203.0.113.7");
+      expect(LoginAttemptService.clear).not.toHaveBeenCalled();
+    });
+
+    it("should throttle an unknown email by the email tried", async () => {
+      mockLookups(null, null);
+
+      await AuthService.loginUser(validLoginData, "203.0.113.7").catch(() => {});
+
+      expect(LoginAttemptService.assertAllowed).toHaveBeenCalledWith(`email:${validLoginData.email}`, "203.0.113.7");
+      expect(LoginAttemptService.recordFailure).toHaveBeenCalledWith(`email:${validLoginData.email}`, "203.0.113.7");
+    });
+
+    it("should refuse a throttled account before checking the password", async () => {
+      mockLookups(userWithStatus("active"), { user_id: "test-user-id", password_hash: passwordHash });
+      vi.mocked(LoginAttemptService.assertAllowed).mockRejectedValueOnce(
+        new AppError(429, "Too many failed login attempts; try again later")
+      );
+
+      const error = await AuthService.loginUser(validLoginData, "203.0.113.7").catch((e) => e);
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.statusCode).toBe(429);
+      expect(LoginAttemptService.recordFailure).not.toHaveBeenCalled();
+      expect(SessionService.start).not.toHaveBeenCalled();
+    });
+
+    it("should clear the account's failures after a successful login", async () => {
+      mockLookups(userWithStatus("active"), { user_id: "test-user-id", password_hash: passwordHash });
+
+      await AuthService.loginUser(validLoginData, "203.0.113.7");
+
+      expect(LoginAttemptService.clear).toHaveBeenCalledWith("test-user-id");
+      expect(LoginAttemptService.recordFailure).not.toHaveBeenCalled();
+    });
+
+    it("should reject login with missing credentials", async () => {
+      mockLookups(null, null);
 
       // Should throw because no user found (credentials don't match)
       await expect(
-        AuthService.loginUser({ email: "", phone: "" })
+        AuthService.loginUser({ email: "", phone: "", password: "" })
       ).rejects.toThrow();
     });
   });
-});
 
+  describe("requestLoginOtp", () => {
+    const mockUser = (user: any) => {
+      vi.mocked(knex).mockImplementation((() => ({
+        where: vi.fn().mockReturnThis(),
+        first: vi.fn().mockResolvedValue(user),
+      })) as any);
+    };
+
+    beforeEach(() => {
+      vi.spyOn(OtpService, "issue").mockResolvedValue({
+        id: "otp-1",
+        channel: "email",
+        expiresAt: new Date(),
+      });
+    });
+
+    it("should send a code to the email address of an active user", async () => {
+      mockUser({ id: "test-user-id", email: "[email protected]", phone: "+2348012345678", status: "active" });
+
+      const result = await AuthService.requestLoginOtp({ email: "[email protected]" });
+
+      expect(OtpService.issue).toHaveBeenCalledWith("test-user-id", "email", "[email protected]");
+      expect(result).toEqual({ channel: "email", expiresInSeconds: 300 });
+    });
+
+    it("should send a code to the phone number when no email is given", async () => {
+      mockUser({ id: "test-user-id", email: "[email protected]", phone: "+2348012345678", status: "active" });
+
+      const result = await AuthService.requestLoginOtp({ phone: "+2348012345678" });
+
+      expect(OtpService.issue).toHaveBeenCalledWith("test-user-id", "phone", "+2348012345678");
+      expect(result.channel).toBe("phone");
+    });
+
+    it("should answer the same without sending for an unknown user", async () => {
+      mockUser(null);
+
+      const result = await AuthService.requestLoginOtp({ email: "[email protected]" });
+
+      expect(OtpService.issue).not.toHaveBeenCalled();
+      expect(result).toEqual({ channel: "email", expiresInSeconds: 300 });
+    });
+
+    it("should not send a code to a blocked user", async () => {
+      mockUser({ id: "test-user-id", email: "[email protected]", phone: "+2348012345678", status: "blocked" });
+
+      await AuthService.requestLoginOtp({ email: "[email protected]" });
+
+      expect(OtpService.issue).not.toHaveBeenCalled();
+    });
+
+    it("should require an email or phone number", async () => {
+      await expect(AuthService.requestLoginOtp({})).rejects.toThrow("Email or phone number is required");
+    });
+
+    it("should be unavailable without a delivery adapter", async () => {
+      vi.spyOn(OtpDeliveryService, "isAvailable").mockReturnValueOnce(false);
+
+      const error = await AuthService.requestLoginOtp({ email: "[email protected]" }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.statusCode).toBe(503);
+      expect(OtpService.issue).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("loginWithOtp", () => {
+    const mockUser = (user: any) => {
+      vi.mocked(knex).mockImplementation((() => ({
+        where: vi.fn().mockReturnThis(),
+        first: vi.fn().mockResolvedValue(user),
+      })) as any);
+    };
+
+    it("should issue a token for a valid code", async () => {
+      mockUser({ id: "test-user-id", email: "[email protected]", status: "active" });
+      vi.spyOn(OtpService, "verify").mockResolvedValue(undefined);
+
+      const result = await AuthService.loginWithOtp({ email: "[email protected]", code: "123456" });
+
+      expect(OtpService.verify).toHaveBeenCalledWith("test-user-id", "123456");
+      expect(result.user.id).toBe("test-user-id");
+      expect(result.token).toBeDefined();
+    });
+
+    it("should be unavailable without a delivery adapter", async () => {
+      vi.spyOn(OtpDeliveryService, "isAvailable").mockReturnValueOnce(false);
+      vi.spyOn(OtpService, "verify");
+
+      const error = await AuthService.loginWithOtp({ email: "[email protected]", code: "123456" }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.statusCode).toBe(503);
+      expect(OtpService.verify).not.toHaveBeenCalled();
+    });
+
+    it("should reject an unknown user like a wrong code", async () => {
+      mockUser(null);
+      vi.spyOn(OtpService, "verify");
+
+      await expect(
+        AuthService.loginWithOtp({ email: "[email protected]", code: "123456" })
+      ).rejects.toThrow("Invalid or expired code");
+      expect(OtpService.verify).not.toHaveBeenCalled();
+    });
+
+    it("should pass on a rejected code", async () => {
+      mockUser({ id: "test-user-id", status: "active" });
+      vi.spyOn(OtpService, "verify").mockRejectedValue(new AppError(429, "Too many wrong codes; request a new one"));
+
+      await expect(
+        AuthService.loginWithOtp({ phone: "+2348012345678", code: "123456" })
+      ).rejects.toThrow("Too many wrong codes; request a new one");
+    });
+
+    it("should reject a blocked user after a valid code", async () => {
+      mockUser({ id: "test-user-id", status: "blocked" });
+      vi.spyOn(OtpService, "verify").mockResolvedValue(undefined);
+
+      await expect(
+        AuthService.loginWithOtp({ email: "[email protected]", code: "123456" })
+      ).rejects.toThrow("Account is blocked. Please contact support.");
+    });
+  });
+
+  describe("refreshSession", () => {
+    beforeEach(() => {
+      vi.spyOn(SessionService, "refresh").mockResolvedValue(sessionTokens);
+      vi.spyOn(SessionService, "revokeFamily").mockResolvedValue(1);
+    });
+
+    it("should return the rotated tokens for an active user", async () => {
+      vi.spyOn(UserService, "getUserById").mockResolvedValue({ id: "test-user-id", status: "active" } as any);
+
+      const result = await AuthService.refreshSession("old-refresh-token");
+
+      expect(SessionService.refresh).toHaveBeenCalledWith("old-refresh-token");
+      expect(result).toEqual({
+        token: "access-token",
+        tokenExpiresAt: sessionTokens.tokenExpiresAt,
+        refreshToken: "refresh-token",
+        refreshTokenExpiresAt: sessionTokens.refreshTokenExpiresAt,
+      });
+      expect(SessionService.revokeFamily).not.toHaveBeenCalled();
+    });
+
+    it("should revoke the session of a blocked user", async () => {
+      vi.spyOn(UserService, "getUserById").mockResolvedValue({ id: "test-user-id", status: "blocked" } as any);
+
+      await expect(
+        AuthService.refreshSession("old-refresh-token")
+      ).rejects.toThrow("Account is blocked. Please contact support.");
+      expect(SessionService.revokeFamily).toHaveBeenCalledWith("session-1", "account_disabled");
+    });
+
+    it("should pass on a rejected refresh token", async () => {
+      vi.mocked(SessionService.refresh).mockRejectedValue(new AppError(401, "Invalid refresh token"));
+
+      await expect(AuthService.refreshSession("unknown")).rejects.toThrow("Invalid refresh token");
+    });
+  });
+
+  describe("logout", () => {
+    it("should revoke the session of the refresh token", async () => {
+      vi.spyOn(SessionService, "revoke").mockResolvedValue(false);
+
+      await expect(AuthService.logout("refresh-token")).resolves.toBeUndefined();
+      expect(SessionService.revoke).toHaveBeenCalledWith("refresh-token");
+    });
+  });
+});
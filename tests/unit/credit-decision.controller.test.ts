@@ -0,0 +1,153 @@
+/**
+ * Credit Decision Controller Tests
+ *
+ * Unit tests for the admin credit decision dry run and listing endpoints.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Request, Response, NextFunction } from "express";
+import { CreditDecisionController } from "../../src/controllers/credit-decision.controller";
+import { CreditDecisionService } from "../../src/services/credit-decision.service";
+import { AppError } from "../../src/middlewares/error";
+import { Money } from "../../src/utils/money";
+
+// Mock CreditDecisionService
+vi.mock("../../src/services/credit-decision.service", () => ({
+  CreditDecisionService: {
+    dryRun: vi.fn(),
+    list: vi.fn(),
+  },
+}));
+
+describe("CreditDecisionController", () => {
+  let mockReq: Partial<Request>;
+  let mockRes: Partial<Response>;
+  let mockNext: NextFunction;
+
+  const inputs = {
+    as_of: "2024-03-01T09:00:00.000Z",
+    history_days: 90,
+    factors: {} as any,
+    karma: { listed: false, unavailable: false, identity_type: null, karma_type: null, amount_in_contention: null },
+    inflow: "240000.000000",
+    outflow: "177000.000000",
+    monthly_inflow: "80000.000000",
+  };
+  const reasons = [{ code: "ACCOUNT_MATURE", points: 60, message: "Account opened 180 or more days ago" }];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockReq = {
+      params: {},
+      query: {},
+      body: {},
+      user: { id: "admin-123" },
+    };
+
+    mockRes = {
+      status: vi.fn().mockReturnThis(),
+      json: vi.fn(),
+    };
+
+    mockNext = vi.fn();
+  });
+
+  describe("dryRun", () => {
+    it("should score the user in the default currency and return the evaluation", async () => {
+      mockReq.body = { userId: "user-123" };
+      vi.mocked(CreditDecisionService.dryRun).mockResolvedValue({
+        userId: "user-123",
+        walletId: "wallet-123",
+        currency: "NGN",
+        version: "2024-01",
+        inputs,
+        score: 680,
+        decision: "approve",
+        limit: Money.parse("80000", "NGN"),
+        reasons,
+      });
+
+      await CreditDecisionController.dryRun(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(CreditDecisionService.dryRun).toHaveBeenCalledWith("user-123", "NGN", undefined);
+      expect(mockRes.status).toHaveBeenCalledWith(200);
+      expect(mockRes.json).toHaveBeenCalledWith({
+        success: true,
+        message: "Credit decision evaluated (not stored)",
+        data: {
+          evaluation: {
+            user_id: "user-123",
+            wallet_id: "wallet-123",
+            currency: "NGN",
+            scorecard_version: "2024-01",
+            score: 680,
+            decision: "approve",
+            limit: "80000.000000",
+            reasons,
+            inputs,
+          },
+        },
+      });
+    });
+
+    it("should pass the currency and scorecard version through", async () => {
+      mockReq.body = { userId: "user-123", currency: "USD", version: "2024-01" };
+      vi.mocked(CreditDecisionService.dryRun).mockRejectedValue(new AppError(404, "User user-123 has no USD wallet"));
+
+      await CreditDecisionController.dryRun(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(CreditDecisionService.dryRun).toHaveBeenCalledWith("user-123", "USD", "2024-01");
+      expect(mockNext).toHaveBeenCalledWith(expect.any(AppError));
+    });
+  });
+
+  describe("list", () => {
+    it("should list stored decisions with the given filters", async () => {
+      const createdAt = new Date("2024-03-01T09:00:00.000Z");
+      mockReq.query = { applicationId: "loan-1" };
+      vi.mocked(CreditDecisionService.list).mockResolvedValue([
+        {
+          id: "decision-1",
+          user_id: "user-123",
+          wallet_id: "wallet-123",
+          application_id: "loan-1",
+          currency: "NGN",
+          scorecard_version: "2024-01",
+          inputs,
+          score: 680,
+          decision: "approve",
+          limit_decimal: "80000.000000",
+          reasons,
+          created_at: createdAt,
+        },
+      ]);
+
+      await CreditDecisionController.list(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(CreditDecisionService.list).toHaveBeenCalledWith({ userId: undefined, applicationId: "loan-1" });
+      expect(mockRes.status).toHaveBeenCalledWith(200);
+      expect(mockRes.json).toHaveBeenCalledWith({
+        success: true,
+        data: {
+          decisions: [
+            {
+              id: "decision-1",
+              user_id: "user-123",
+              wallet_id: "wallet-123",
+              application_id: "loan-1",
+              currency: "NGN",
+              scorecard_version: "2024-01",
+              score: 680,
+              decision: "approve",
+              limit: "80000.000000",
+              reasons,
+              inputs,
+              created_at: createdAt,
+            },
+          ],
+        },
+      });
+    });
+  });
+});
@@ -0,0 +1,397 @@
+/**
+ * Credit Decision Service Tests
+ *
+ * Unit tests for the credit decisioning engine: scoring against a
+ * scorecard, gathering the inputs, storing and listing decisions.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { CreditDecisionService, CreditFactors } from "../../src/services/credit-decision.service";
+import { AdjutorService } from "../../src/services/adjutor.service";
+import { UserService } from "../../src/services/user.service";
+import { WalletService } from "../../src/services/wallet.service";
+import { getCreditScorecard } from "../../src/config/creditScorecards";
+import { knex } from "../../src/db";
+import { Money } from "../../src/utils/money";
+import { AppError } from "../../src/middlewares/error";
+import { mockTables } from "../helpers/query-mock";
+
+// Mock the database
+vi.mock("../../src/db", () => {
+  const knexMock = vi.fn() as any;
+  knexMock.fn = { now: () => new Date() };
+  knexMock.raw = vi.fn((sql: string) => sql);
+  return {
+    knex: knexMock,
+    newId: vi.fn(() => "decision-1"),
+    withTransaction: vi.fn(),
+  };
+});
+
+vi.mock("../../src/services/adjutor.service", () => ({
+  AdjutorService: {
+    checkKarma: vi.fn(),
+  },
+}));
+
+vi.mock("../../src/services/user.service", () => ({
+  UserService: {
+    getUserById: vi.fn(),
+  },
+}));
+
+/**
+ * Route knex to per-table query mocks
+ */
+const mockDb = () => {
+  const { tables, db } = mockTables("transactions", "loan_applications", "loan_installments", "credit_decisions");
+  vi.mocked(knex).mockImplementation(db);
+  return tables;
+};
+
+const now = new Date("2024-03-01T09:00:00.000Z");
+
+const user = {
+  id: "user-123",
+  name: "Ada Obi",
+  email: "ada@example.com",
+  phone: "+2348012345678",
+  handle: null,
+  status: "active" as const,
+  role: "user" as const,
+  tier: "tier_1" as const,
+  created_at: new Date("2023-07-01T09:00:00.000Z"),
+  updated_at: now,
+};
+
+const wallet = {
+  id: "wallet-123",
+  user_id: "user-123",
+  balance_decimal: "20000.000000",
+  held_decimal: "0.000000",
+  currency: "NGN",
+  status: "active" as const,
+  created_at: now,
+  updated_at: now,
+};
+
+const clean = (identity: string, identityType: "email" | "phone") => ({
+  isFlagged: false,
+  identity,
+  identityType,
+  rawResponse: { status: "success", message: "No record found" },
+  checkedAt: now,
+});
+
+const listed = (karmaType: string, amountInContention: string) => ({
+  isFlagged: true,
+  identity: user.email,
+  identityType: "email" as const,
+  rawResponse: {
+    status: "success",
+    message: "Successful",
+    data: {
+      karma_identity: user.email,
+      amount_in_contention: amountInContention,
+      reason: null,
+      default_date: "2023-05-01",
+      karma_type: { karma: karmaType },
+      karma_identity_type: { identity_type: "EMAIL" },
+      reporting_entity: { name: "Lender", email: "risk@lender.example" },
+    },
+  },
+  checkedAt: now,
+});
+
+/** Factors of an established user with nothing against them */
+const factors = (overrides: Partial<CreditFactors> = {}): CreditFactors => ({
+  account_age_days: 244,
+  credit_count: 12,
+  inflow_outflow_percent: 135,
+  repaid_loans: 0,
+  open_loans: 0,
+  late_installments: 0,
+  overdue_installments: 0,
+  karma_listed: 0,
+  karma_unavailable: 0,
+  karma_amount_in_contention: 0,
+  ...overrides,
+});
+
+const ngn = (value: string) => Money.parse(value, "NGN");
+
+/** Queue a wallet's flows, loans and installments for evaluate() */
+const queueHistory = (tables: Record<string, any>) => {
+  tables["transactions"].results.push([
+    { type: "credit", count: 8, amount: "200000.000000" },
+    { type: "transfer-in", count: 4, amount: "40000.000000" },
+    { type: "debit", count: 5, amount: "150000.000000" },
+    { type: "transfer-out", count: 2, amount: "27000.000000" },
+  ]);
+  tables["loan_applications"].results.push([{ status: "repaid", count: 1 }]);
+  tables["loan_installments"].first.mockResolvedValueOnce({ late: "1", overdue: "0" });
+};
+
+describe("CreditDecisionService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(UserService.getUserById).mockResolvedValue(user);
+    vi.mocked(AdjutorService.checkKarma).mockImplementation(async (identity, type) =>
+      clean(identity, type as "email" | "phone")
+    );
+  });
+
+  describe("score", () => {
+    const scorecard = getCreditScorecard("2024-01");
+
+    it("should add the points of every rule that fires and grant the limit of the band reached", () => {
+      const outcome = CreditDecisionService.score(scorecard, factors(), null, ngn("80000"));
+
+      expect(outcome.reasons.map((reason) => [reason.code, reason.points])).toEqual([
+        ["ACCOUNT_MATURE", 60],
+        ["REGULAR_CREDITS", 60],
+        ["POSITIVE_CASH_FLOW", 50],
+      ]);
+      expect(outcome.score).toBe(670);
+      expect(outcome.decision).toBe("approve");
+      expect(outcome.limit.toStorageString()).toBe("80000.000000");
+    });
+
+    it("should cap the limit per currency", () => {
+      const outcome = CreditDecisionService.score(scorecard, factors({ repaid_loans: 3 }), null, ngn("1000000"));
+
+      expect(outcome.score).toBe(750);
+      expect(outcome.limit.toStorageString()).toBe("500000.000000");
+    });
+
+    it("should decline on a declining rule whatever the score", () => {
+      const outcome = CreditDecisionService.score(
+        scorecard,
+        factors({ karma_listed: 1, karma_amount_in_contention: 2000, repaid_loans: 3 }),
+        "Fraud Attempt",
+        ngn("80000")
+      );
+
+      expect(outcome.reasons.map((reason) => reason.code)).toContain("KARMA_FRAUD");
+      expect(outcome.decision).toBe("decline");
+      expect(outcome.limit.isZero()).toBe(true);
+    });
+
+    it("should only fire a Karma type rule for a matching type", () => {
+      const outcome = CreditDecisionService.score(
+        scorecard,
+        factors({ karma_listed: 1, karma_amount_in_contention: 2000 }),
+        "Loan Default",
+        ngn("80000")
+      );
+
+      expect(outcome.reasons.map((reason) => reason.code)).not.toContain("KARMA_FRAUD");
+      expect(outcome.score).toBe(520);
+      expect(outcome.decision).toBe("refer");
+      expect(outcome.limit.isZero()).toBe(true);
+    });
+
+    it("should refer on a referring rule and keep the limit for the admin", () => {
+      const outcome = CreditDecisionService.score(scorecard, factors({ karma_unavailable: 1 }), null, ngn("80000"));
+
+      expect(outcome.decision).toBe("refer");
+      expect(outcome.limit.toStorageString()).toBe("80000.000000");
+    });
+
+    it("should decline a score below the refer threshold", () => {
+      const outcome = CreditDecisionService.score(
+        scorecard,
+        factors({ account_age_days: 5, credit_count: 1, inflow_outflow_percent: 0 }),
+        null,
+        ngn("0.01")
+      );
+
+      expect(outcome.score).toBe(350);
+      expect(outcome.decision).toBe("decline");
+    });
+  });
+
+  describe("lookUpKarma", () => {
+    it("should stop at the first listing", async () => {
+      vi.mocked(AdjutorService.checkKarma).mockResolvedValueOnce(listed("Loan Default", "5000.00"));
+
+      const lookup = await CreditDecisionService.lookUpKarma(user);
+
+      expect(AdjutorService.checkKarma).toHaveBeenCalledTimes(1);
+      expect(lookup).toMatchObject({ result: { isFlagged: true }, unavailable: false });
+    });
+
+    it("should report Karma unavailable when a check fails", async () => {
+      vi.mocked(AdjutorService.checkKarma).mockResolvedValueOnce({
+        ...clean(user.email, "email"),
+        rawResponse: { status: "error", message: "Adjutor check failed, proceeding with caution" },
+      });
+
+      const lookup = await CreditDecisionService.lookUpKarma(user);
+
+      expect(AdjutorService.checkKarma).toHaveBeenCalledTimes(1);
+      expect(lookup.unavailable).toBe(true);
+    });
+
+    it("should check both identities when neither is listed", async () => {
+      const lookup = await CreditDecisionService.lookUpKarma(user);
+
+      expect(AdjutorService.checkKarma).toHaveBeenCalledWith(user.email, "email");
+      expect(AdjutorService.checkKarma).toHaveBeenCalledWith(user.phone, "phone");
+      expect(lookup).toMatchObject({ result: { identityType: "phone" }, unavailable: false });
+    });
+  });
+
+  describe("evaluate", () => {
+    it("should gather the factors from the wallet history and earlier loans", async () => {
+      const tables = mockDb();
+      queueHistory(tables);
+
+      const evaluation = await CreditDecisionService.evaluate(
+        user,
+        wallet,
+        { result: clean(user.phone, "phone"), unavailable: false },
+        now
+      );
+
+      expect(tables["transactions"].where).toHaveBeenCalledWith({ wallet_id: "wallet-123" });
+      expect(tables["transactions"].where).toHaveBeenCalledWith(
+        "created_at",
+        ">=",
+        new Date("2023-12-02T09:00:00.000Z")
+      );
+      expect(tables["transactions"].whereNot).toHaveBeenCalledWith("reference", "like", "LOAN-%");
+      expect(evaluation.inputs).toMatchObject({
+        as_of: "2024-03-01T09:00:00.000Z",
+        history_days: 90,
+        factors: factors({ repaid_loans: 1, late_installments: 1 }),
+        karma: { listed: false, unavailable: false, karma_type: null },
+        inflow: "240000.000000",
+        outflow: "177000.000000",
+        monthly_inflow: "80000.000000",
+      });
+      expect(evaluation).toMatchObject({ version: "2024-01", score: 680, decision: "approve", currency: "NGN" });
+      expect(evaluation.limit.toStorageString()).toBe("80000.000000");
+    });
+
+    it("should score a Karma listing by its type and amount in contention", async () => {
+      const tables = mockDb();
+      queueHistory(tables);
+
+      const evaluation = await CreditDecisionService.evaluate(
+        user,
+        wallet,
+        { result: listed("Loan Default", "75000.50"), unavailable: false },
+        now
+      );
+
+      expect(evaluation.inputs.factors).toMatchObject({ karma_listed: 1, karma_amount_in_contention: 75000 });
+      expect(evaluation.inputs.karma).toEqual({
+        listed: true,
+        unavailable: false,
+        identity_type: "email",
+        karma_type: "Loan Default",
+        amount_in_contention: "75000.50",
+      });
+      expect(evaluation.reasons.map((reason) => reason.code)).toContain("KARMA_LARGE_DEFAULT");
+      expect(evaluation.decision).toBe("decline");
+    });
+
+    it("should treat a wallet with inflow and no outflow as the factor's ceiling", async () => {
+      const tables = mockDb();
+      tables["transactions"].results.push([{ type: "credit", count: 2, amount: "1000.000000" }]);
+      tables["loan_installments"].first.mockResolvedValueOnce({ late: 0, overdue: 0 });
+
+      const evaluation = await CreditDecisionService.evaluate(user, wallet, { result: null, unavailable: false }, now);
+
+      expect(evaluation.inputs.factors.inflow_outflow_percent).toBe(1000);
+    });
+
+    it("should reject an unknown scorecard version", async () => {
+      mockDb();
+
+      await expect(
+        CreditDecisionService.evaluate(user, wallet, { result: null, unavailable: false }, now, "1999-01")
+      ).rejects.toThrow("Unknown credit scorecard version: 1999-01");
+    });
+  });
+
+  describe("record", () => {
+    it("should store the decision with its inputs and reasons", async () => {
+      const tables = mockDb();
+      queueHistory(tables);
+      const evaluation = await CreditDecisionService.evaluate(
+        user,
+        wallet,
+        { result: clean(user.phone, "phone"), unavailable: false },
+        now
+      );
+
+      const id = await CreditDecisionService.record(knex, evaluation, "loan-1");
+
+      expect(id).toBe("decision-1");
+      const row = tables["credit_decisions"].insert.mock.calls[0][0];
+      expect(row).toMatchObject({
+        id: "decision-1",
+        user_id: "user-123",
+        wallet_id: "wallet-123",
+        application_id: "loan-1",
+        currency: "NGN",
+        scorecard_version: "2024-01",
+        score: 680,
+        decision: "approve",
+        limit_decimal: "80000.000000",
+      });
+      expect(JSON.parse(row.inputs)).toEqual(evaluation.inputs);
+      expect(JSON.parse(row.reasons)).toEqual(evaluation.reasons);
+    });
+  });
+
+  describe("dryRun", () => {
+    it("should score the user's wallet in the currency without storing anything", async () => {
+      const tables = mockDb();
+      queueHistory(tables);
+      vi.spyOn(WalletService, "getWalletByUserId").mockResolvedValue(wallet);
+
+      const evaluation = await CreditDecisionService.dryRun("user-123", "NGN", "2024-01", now);
+
+      expect(WalletService.getWalletByUserId).toHaveBeenCalledWith("user-123", undefined, false, { currency: "NGN" });
+      expect(AdjutorService.checkKarma).toHaveBeenCalledTimes(2);
+      expect(evaluation.score).toBe(680);
+      expect(tables["credit_decisions"].insert).not.toHaveBeenCalled();
+    });
+
+    it("should return 404 when the user has no wallet in the currency", async () => {
+      mockDb();
+      vi.spyOn(WalletService, "getWalletByUserId").mockResolvedValue(null);
+
+      const error = await CreditDecisionService.dryRun("user-123", "USD", undefined, now).catch((e) => e);
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.statusCode).toBe(404);
+    });
+  });
+
+  describe("list", () => {
+    it("should filter stored decisions and parse their JSON columns", async () => {
+      const tables = mockDb();
+      tables["credit_decisions"].results.push([
+        {
+          id: "decision-1",
+          user_id: "user-123",
+          application_id: "loan-1",
+          inputs: JSON.stringify({ history_days: 90 }),
+          reasons: JSON.stringify([{ code: "ACCOUNT_MATURE", points: 60, message: "ok" }]),
+        },
+      ]);
+
+      const decisions = await CreditDecisionService.list({ userId: "user-123", applicationId: "loan-1" });
+
+      expect(tables["credit_decisions"].orderBy).toHaveBeenCalledWith("created_at", "desc");
+      expect(tables["credit_decisions"].where).toHaveBeenCalledWith("user_id", "user-123");
+      expect(tables["credit_decisions"].where).toHaveBeenCalledWith("application_id", "loan-1");
+      expect(decisions[0]?.inputs).toEqual({ history_days: 90 });
+      expect(decisions[0]?.reasons[0]?.code).toBe("ACCOUNT_MATURE");
+    });
+  });
+});
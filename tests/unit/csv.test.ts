@@ -0,0 +1,90 @@
+/**
+ * CSV Utility Tests
+ *
+ * Unit tests for parsing uploads and writing result files.
+ */
+
+import { describe, it, expect } from "vitest";
+import { parseCsv, toCsv } from "../../src/utils/csv";
+
+describe("CSV", () => {
+  describe("parseCsv", () => {
+    it("should split rows and fields", () => {
+      expect(parseCsv("a,b,c\n1,2,3")).toEqual([
+        ["a", "b", "c"],
+        ["1", "2", "3"],
+      ]);
+    });
+
+    it("should accept CRLF line endings and a trailing newline", () => {
+      expect(parseCsv("a,b\r\n1,2\r\n")).toEqual([
+        ["a", "b"],
+        ["1", "2"],
+      ]);
+    });
+
+    it("should read quoted fields with separators, line breaks and escaped quotes", () => {
+      expect(parseCsv('name,note\n"Doe, Jane","said ""hi""\nthen left"')).toEqual([
+        ["name", "note"],
+        ["Doe, Jane", 'said "hi"\nthen left'],
+      ]);
+    });
+
+    it("should keep empty fields", () => {
+      expect(parseCsv("a,,c\n,,")).toEqual([
+        ["a", "", "c"],
+        ["", "", ""],
+      ]);
+    });
+
+    it("should skip blank lines and a byte order mark", () => {
+      expect(parseCsv("﻿a,b\n\n1,2\n\n")).toEqual([
+        ["a", "b"],
+        ["1", "2"],
+      ]);
+    });
+
+    it("should return no rows for empty text", () => {
+      expect(parseCsv("")).toEqual([]);
+    });
+
+    it("should reject an unterminated quoted field", () => {
+      expect(() => parseCsv('a,b\n1,"2')).toThrow(
+        "Invalid CSV: unterminated quoted field on line 2"
+      );
+    });
+  });
+
+  describe("toCsv", () => {
+    it("should write rows with CRLF line endings", () => {
+      expect(toCsv([["a", "b"], [1, "x"]])).toBe("a,b\r\n1,x\r\n");
+    });
+
+    it("should write null and undefined as empty cells", () => {
+      expect(toCsv([["a", null, undefined, "d"]])).toBe("a,,,d\r\n");
+    });
+
+    it("should quote cells with separators, quotes or line breaks", () => {
+      expect(toCsv([["Doe, Jane", 'say "hi"', "two\nlines"]])).toBe(
+        '"Doe, Jane","say ""hi""","two\nlines"\r\n'
+      );
+    });
+
+    it("should neutralise text a spreadsheet would run as a formula", () => {
+      expect(toCsv([["=SUM(A1:A2)", "@cmd", "+1", "-1"]])).toBe("'=SUM(A1:A2),'@cmd,'+1,'-1\r\n");
+    });
+
+    it("should leave negative numbers alone", () => {
+      expect(toCsv([[-5]])).toBe("-5\r\n");
+    });
+
+    it("should round-trip through parseCsv", () => {
+      const rows = [
+        ["row", "narration"],
+        ["1", 'Rent, "March"'],
+      ];
+
+      expect(parseCsv(toCsv(rows))).toEqual(rows);
+    });
+  });
+});
@@ -0,0 +1,277 @@
+/**
+ * Escrow Controller Tests
+ *
+ * Unit tests for escrow endpoints.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Request, Response, NextFunction } from "express";
+import { EscrowController } from "../../src/controllers/escrow.controller";
+import { EscrowService } from "../../src/services/escrow.service";
+import { AppError } from "../../src/middlewares/error";
+import { Money } from "../../src/utils/money";
+
+// Mock EscrowService
+vi.mock("../../src/services/escrow.service", () => ({
+  EscrowService: {
+    create: vi.fn(),
+    listEscrows: vi.fn(),
+    listAll: vi.fn(),
+    getEscrow: vi.fn(),
+    release: vi.fn(),
+    refund: vi.fn(),
+    dispute: vi.fn(),
+    resolve: vi.fn(),
+  },
+}));
+
+describe("EscrowController", () => {
+  let mockReq: Partial<Request>;
+  let mockRes: Partial<Response>;
+  let mockNext: NextFunction;
+
+  const escrow = {
+    id: "escrow-1",
+    payer_user_id: "user-123",
+    beneficiary_user_id: "user-456",
+    currency: "NGN",
+    amount_decimal: "50000.000000",
+    released_decimal: null,
+    refunded_decimal: null,
+    description: "Used laptop",
+    status: "funded" as const,
+    expires_at: new Date(),
+    funding_transfer_id: "transfer-1",
+    release_transfer_id: null,
+    refund_transfer_id: null,
+    metadata: null,
+    created_at: new Date(),
+    updated_at: new Date(),
+    settled_at: null,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockReq = {
+      params: {},
+      query: {},
+      body: {},
+      user: { id: "user-123" },
+    };
+
+    mockRes = {
+      status: vi.fn().mockReturnThis(),
+      json: vi.fn(),
+    };
+
+    mockNext = vi.fn();
+  });
+
+  describe("create", () => {
+    it("should fund the escrow for the authenticated user and return 201", async () => {
+      mockReq.body = { beneficiary: "@janedoe", amount: "50000", channel: "web" };
+      vi.mocked(EscrowService.create).mockResolvedValue({
+        escrow,
+        transfer: {
+          transfer: { id: "transfer-1", amount_decimal: "50000.000000" },
+          fromWallet: { currency: "NGN", balance_decimal: "50000.000000" },
+          reference: "ESCROW-escrow-1-FUND",
+          fee: {
+            operation: "transfer",
+            channel: "web",
+            tier: "tier_1",
+            rule: null,
+            amount: Money.parse("50000", "NGN"),
+            flat: Money.zero("NGN"),
+            percentage: Money.zero("NGN"),
+            band: null,
+            adjustment: null,
+            fee: Money.zero("NGN"),
+            total: Money.parse("50000", "NGN"),
+          },
+          feeTransaction: null,
+        } as any,
+      });
+
+      await EscrowController.create(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(EscrowService.create).toHaveBeenCalledWith(
+        "user-123",
+        {
+          beneficiaryUserId: undefined,
+          beneficiary: "@janedoe",
+          amount: "50000",
+          currency: undefined,
+          description: undefined,
+          expiresAt: undefined,
+          metadata: undefined,
+        },
+        "web"
+      );
+      expect(mockRes.status).toHaveBeenCalledWith(201);
+      expect(mockRes.json).toHaveBeenCalledWith({
+        success: true,
+        message: "Escrow funded successfully",
+        data: {
+          escrow: expect.objectContaining({ id: "escrow-1", amount: "50000.000000", status: "funded" }),
+          transfer: expect.objectContaining({
+            id: "transfer-1",
+            reference: "ESCROW-escrow-1-FUND",
+            from_balance: "50000.000000",
+            fee: expect.objectContaining({ amount: "0.000000", transaction_id: null }),
+          }),
+        },
+      });
+    });
+
+    it("should pass service errors to next", async () => {
+      const error = new AppError(503, "Escrow wallet is not configured (set ESCROW_USER_ID)");
+      vi.mocked(EscrowService.create).mockRejectedValue(error);
+
+      await EscrowController.create(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith(error);
+    });
+  });
+
+  describe("list", () => {
+    it("should list the escrows the user funded by default", async () => {
+      vi.mocked(EscrowService.listEscrows).mockResolvedValue([escrow]);
+
+      await EscrowController.list(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(EscrowService.listEscrows).toHaveBeenCalledWith("user-123", "payer", undefined);
+      expect(mockRes.json).toHaveBeenCalledWith({
+        success: true,
+        data: { escrows: [expect.objectContaining({ id: "escrow-1" })] },
+      });
+    });
+
+    it("should list escrows the user is the beneficiary of", async () => {
+      mockReq.query = { role: "beneficiary", status: "disputed" };
+      vi.mocked(EscrowService.listEscrows).mockResolvedValue([]);
+
+      await EscrowController.list(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(EscrowService.listEscrows).toHaveBeenCalledWith("user-123", "beneficiary", "disputed");
+    });
+  });
+
+  describe("get", () => {
+    it("should return the escrow with its audit trail", async () => {
+      mockReq.params = { escrowId: "escrow-1" };
+      vi.mocked(EscrowService.getEscrow).mockResolvedValue({
+        escrow,
+        events: [
+          {
+            id: "event-1",
+            escrow_id: "escrow-1",
+            from_status: null,
+            to_status: "funded",
+            actor_type: "payer",
+            actor_user_id: "user-123",
+            reason: null,
+            created_at: new Date(),
+          },
+        ],
+      });
+
+      await EscrowController.get(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(EscrowService.getEscrow).toHaveBeenCalledWith("user-123", "escrow-1");
+      expect(mockRes.json).toHaveBeenCalledWith({
+        success: true,
+        data: {
+          escrow: expect.objectContaining({ id: "escrow-1" }),
+          events: [
+            expect.objectContaining({ from_status: null, to_status: "funded", actor_type: "payer" }),
+          ],
+        },
+      });
+    });
+  });
+
+  describe("release, refund and dispute", () => {
+    it("should release the escrow with the payer's note", async () => {
+      mockReq.params = { escrowId: "escrow-1" };
+      mockReq.body = { reason: "Item received" };
+      vi.mocked(EscrowService.release).mockResolvedValue({ ...escrow, status: "released" });
+
+      await EscrowController.release(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(EscrowService.release).toHaveBeenCalledWith("user-123", "escrow-1", "Item received");
+      expect(mockRes.json).toHaveBeenCalledWith(
+        expect.objectContaining({ message: "Escrow released successfully" })
+      );
+    });
+
+    it("should refund the escrow for the beneficiary", async () => {
+      mockReq.params = { escrowId: "escrow-1" };
+      mockReq.user = { id: "user-456" } as any;
+      vi.mocked(EscrowService.refund).mockResolvedValue({ ...escrow, status: "refunded" });
+
+      await EscrowController.refund(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(EscrowService.refund).toHaveBeenCalledWith("user-456", "escrow-1", undefined);
+      expect(mockRes.json).toHaveBeenCalledWith(
+        expect.objectContaining({ message: "Escrow refunded successfully" })
+      );
+    });
+
+    it("should pass a dispute on a settled escrow to next", async () => {
+      mockReq.params = { escrowId: "escrow-1" };
+      mockReq.body = { reason: "Item not as described" };
+      const error = new AppError(409, "Escrow escrow-1 is released");
+      vi.mocked(EscrowService.dispute).mockRejectedValue(error);
+
+      await EscrowController.dispute(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(EscrowService.dispute).toHaveBeenCalledWith("user-123", "escrow-1", "Item not as described");
+      expect(mockNext).toHaveBeenCalledWith(error);
+    });
+  });
+
+  describe("admin", () => {
+    it("should list escrows by status", async () => {
+      mockReq.query = { status: "disputed" };
+      vi.mocked(EscrowService.listAll).mockResolvedValue([{ ...escrow, status: "disputed" }]);
+
+      await EscrowController.listAll(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(EscrowService.listAll).toHaveBeenCalledWith("disputed");
+      expect(mockRes.status).toHaveBeenCalledWith(200);
+    });
+
+    it("should resolve an escrow as the admin and report the outcome", async () => {
+      mockReq.params = { escrowId: "escrow-1" };
+      mockReq.user = { id: "admin-1" } as any;
+      mockReq.body = { outcome: "split", beneficiaryAmount: "30000", reason: "Partial delivery" };
+      vi.mocked(EscrowService.resolve).mockResolvedValue({
+        ...escrow,
+        status: "split",
+        released_decimal: "30000.000000",
+        refunded_decimal: "20000.000000",
+      });
+
+      await EscrowController.resolve(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(EscrowService.resolve).toHaveBeenCalledWith("admin-1", "escrow-1", {
+        outcome: "split",
+        beneficiaryAmount: "30000",
+        reason: "Partial delivery",
+      });
+      expect(mockRes.json).toHaveBeenCalledWith({
+        success: true,
+        message: "Escrow split",
+        data: {
+          escrow: expect.objectContaining({
+            status: "split",
+            released_amount: "30000.000000",
+            refunded_amount: "20000.000000",
+          }),
+        },
+      });
+    });
+  });
+});
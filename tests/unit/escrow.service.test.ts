@@ -0,0 +1,486 @@
+/**
+ * Escrow Service Tests
+ *
+ * Unit tests for funding, releasing, refunding, disputing, resolving and
+ * timing out escrows.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { EscrowService, Escrow } from "../../src/services/escrow.service";
+import { WalletService } from "../../src/services/wallet.service";
+import { UserService } from "../../src/services/user.service";
+import { knex, withTransaction } from "../../src/db";
+import { config } from "../../src/config/env";
+import { AppError } from "../../src/middlewares/error";
+import { Money } from "../../src/utils/money";
+import { mockTables } from "../helpers/query-mock";
+
+// Mock the database
+vi.mock("../../src/db", () => {
+  const knexMock = vi.fn() as any;
+  knexMock.fn = { now: () => new Date() };
+  return {
+    knex: knexMock,
+    newId: vi.fn(() => "escrow-1"),
+    withTransaction: vi.fn(),
+  };
+});
+
+/**
+ * Route the transaction to per-table query mocks
+ */
+const mockDb = () => {
+  const { tables, db: trx } = mockTables("escrows", "escrow_events");
+  vi.mocked(withTransaction).mockImplementation((callback: any) => callback(trx));
+  return { tables, trx };
+};
+
+const now = new Date("2024-02-01T09:00:00.000Z");
+
+const funded: Escrow = {
+  id: "escrow-1",
+  payer_user_id: "user-123",
+  beneficiary_user_id: "user-456",
+  currency: "NGN",
+  amount_decimal: "50000.000000",
+  released_decimal: null,
+  refunded_decimal: null,
+  description: "Used laptop",
+  status: "funded",
+  expires_at: new Date(Date.now() + 86400 * 1000),
+  funding_transfer_id: "transfer-1",
+  release_transfer_id: null,
+  refund_transfer_id: null,
+  metadata: null,
+  created_at: new Date(),
+  updated_at: new Date(),
+  settled_at: null,
+};
+
+const walletFor = (userId: string) => ({
+  id: `wallet-${userId}`,
+  user_id: userId,
+  balance_decimal: "100000.000000",
+  held_decimal: "0.000000",
+  currency: "NGN",
+  created_at: now,
+  updated_at: now,
+});
+
+describe("EscrowService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(knex).mockReset();
+    config.escrow.userId = "escrow-user";
+    vi.spyOn(UserService, "assertCanReceive").mockResolvedValue();
+    vi.spyOn(WalletService, "getWalletByUserId").mockImplementation(
+      async (userId: string) => walletFor(userId)
+    );
+    vi.spyOn(WalletService, "transferWithin").mockResolvedValue({
+      transfer: { id: "transfer-1" },
+      reference: "ESCROW-escrow-1-FUND",
+    } as any);
+    vi.spyOn(WalletService, "moveWithin").mockImplementation(
+      async (_trx, from, _to, _money, _metadata, reference) =>
+        ({
+          transfer: { id: `transfer-${reference}` },
+          fromWallet: { ...from, balance_decimal: "0.000000" },
+        }) as any
+    );
+  });
+
+  afterEach(() => {
+    config.escrow.userId = undefined;
+    vi.restoreAllMocks();
+  });
+
+  describe("create", () => {
+    it("should move the funds into escrow and record who funded it", async () => {
+      const { tables } = mockDb();
+      tables.escrows.first.mockResolvedValue(funded);
+
+      const result = await EscrowService.create(
+        "user-123",
+        { beneficiaryUserId: "user-456", amount: "50000", description: "Used laptop" },
+        "mobile",
+        now
+      );
+
+      expect(UserService.assertCanReceive).toHaveBeenCalledWith(expect.anything(), "user-456");
+      expect(WalletService.transferWithin).toHaveBeenCalledWith(
+        expect.anything(),
+        "user-123",
+        "escrow-user",
+        Money.parse("50000", "NGN"),
+        { escrow_id: "escrow-1", description: "Used laptop" },
+        { currency: "NGN" },
+        "mobile",
+        "ESCROW-escrow-1-FUND"
+      );
+      expect(tables.escrows.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          id: "escrow-1",
+          payer_user_id: "user-123",
+          beneficiary_user_id: "user-456",
+          amount_decimal: "50000.000000",
+          status: "funded",
+          expires_at: new Date("2024-02-15T09:00:00.000Z"),
+          funding_transfer_id: "transfer-1",
+        })
+      );
+      expect(tables.escrow_events.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          escrow_id: "escrow-1",
+          from_status: null,
+          to_status: "funded",
+          actor_type: "payer",
+          actor_user_id: "user-123",
+        })
+      );
+      expect(result.escrow).toBe(funded);
+    });
+
+    it("should resolve the beneficiary from an email, phone number or handle", async () => {
+      const { tables } = mockDb();
+      tables.escrows.first.mockResolvedValue(funded);
+      vi.spyOn(UserService, "resolveRecipient").mockResolvedValue({
+        user: { id: "user-456" },
+        type: "handle",
+      } as any);
+
+      await EscrowService.create("user-123", { beneficiary: "@janedoe", amount: "50000" }, undefined, now);
+
+      expect(UserService.resolveRecipient).toHaveBeenCalledWith("@janedoe");
+      expect(tables.escrows.insert).toHaveBeenCalledWith(
+        expect.objectContaining({ beneficiary_user_id: "user-456" })
+      );
+    });
+
+    it("should reject an escrow with yourself", async () => {
+      await expect(
+        EscrowService.create("user-123", { beneficiaryUserId: "user-123", amount: "100" }, undefined, now)
+      ).rejects.toThrow(new AppError(400, "Cannot open an escrow with yourself"));
+    });
+
+    it("should reject a timeout beyond the maximum", async () => {
+      await expect(
+        EscrowService.create(
+          "user-123",
+          { beneficiaryUserId: "user-456", amount: "100", expiresAt: "2025-01-01T00:00:00Z" },
+          undefined,
+          now
+        )
+      ).rejects.toThrow(new AppError(400, "expiresAt must be within 90 days"));
+    });
+
+    it("should fail with 503 when no escrow user is configured", async () => {
+      config.escrow.userId = undefined;
+
+      await expect(
+        EscrowService.create("user-123", { beneficiaryUserId: "user-456", amount: "100" }, undefined, now)
+      ).rejects.toMatchObject({ statusCode: 503 });
+      expect(WalletService.transferWithin).not.toHaveBeenCalled();
+    });
+
+    it("should reject a beneficiary without a wallet in the currency", async () => {
+      mockDb();
+      vi.mocked(WalletService.getWalletByUserId).mockImplementation(async (userId: string) =>
+        userId === "user-456" ? null : walletFor(userId)
+      );
+
+      await expect(
+        EscrowService.create(
+          "user-123",
+          { beneficiaryUserId: "user-456", amount: "100", currency: "USD" },
+          undefined,
+          now
+        )
+      ).rejects.toThrow(new AppError(404, "Beneficiary has no USD wallet"));
+      expect(WalletService.transferWithin).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("release", () => {
+    it("should pay the full amount to the beneficiary", async () => {
+      const { tables } = mockDb();
+      tables.escrows.first
+        .mockResolvedValueOnce(funded)
+        .mockResolvedValueOnce({ ...funded, status: "released" });
+
+      const result = await EscrowService.release("user-123", "escrow-1", "Item received");
+
+      expect(tables.escrows.where).toHaveBeenCalledWith({ id: "escrow-1", payer_user_id: "user-123" });
+      expect(WalletService.getWalletByUserId).toHaveBeenCalledWith("escrow-user", expect.anything(), true, {
+        currency: "NGN",
+      });
+      expect(WalletService.moveWithin).toHaveBeenCalledTimes(1);
+      expect(WalletService.moveWithin).toHaveBeenCalledWith(
+        expect.anything(),
+        walletFor("escrow-user"),
+        walletFor("user-456"),
+        Money.parse("50000", "NGN"),
+        { escrow_id: "escrow-1" },
+        "ESCROW-escrow-1-RELEASE",
+        "Escrow escrow-1 released"
+      );
+      expect(tables.escrows.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: "released",
+          released_decimal: "50000.000000",
+          refunded_decimal: "0.000000",
+          release_transfer_id: "transfer-ESCROW-escrow-1-RELEASE",
+          refund_transfer_id: null,
+        })
+      );
+      expect(tables.escrow_events.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          from_status: "funded",
+          to_status: "released",
+          actor_type: "payer",
+          actor_user_id: "user-123",
+          reason: "Item received",
+        })
+      );
+      expect(result.status).toBe("released");
+    });
+
+    it("should leave a disputed escrow for an admin", async () => {
+      const { tables } = mockDb();
+      tables.escrows.first.mockResolvedValue({ ...funded, status: "disputed" });
+
+      await expect(EscrowService.release("user-123", "escrow-1")).rejects.toThrow(
+        new AppError(409, "Escrow escrow-1 is disputed")
+      );
+      expect(WalletService.moveWithin).not.toHaveBeenCalled();
+    });
+
+    it("should not let anyone but the payer release", async () => {
+      const { tables } = mockDb();
+      tables.escrows.first.mockResolvedValue(undefined);
+
+      await expect(EscrowService.release("user-456", "escrow-1")).rejects.toThrow(
+        new AppError(404, "Escrow not found: escrow-1")
+      );
+    });
+
+    it("should not pay a beneficiary who can no longer receive funds", async () => {
+      const { tables } = mockDb();
+      tables.escrows.first.mockResolvedValue(funded);
+      vi.mocked(UserService.assertCanReceive).mockRejectedValue(
+        new AppError(422, "Recipient cannot receive transfers")
+      );
+
+      await expect(EscrowService.release("user-123", "escrow-1")).rejects.toMatchObject({
+        statusCode: 422,
+      });
+      expect(WalletService.moveWithin).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("refund", () => {
+    it("should return the funds to the payer when the beneficiary backs out", async () => {
+      const { tables } = mockDb();
+      tables.escrows.first
+        .mockResolvedValueOnce(funded)
+        .mockResolvedValueOnce({ ...funded, status: "refunded" });
+
+      await EscrowService.refund("user-456", "escrow-1");
+
+      expect(tables.escrows.where).toHaveBeenCalledWith({ id: "escrow-1", beneficiary_user_id: "user-456" });
+      expect(WalletService.moveWithin).toHaveBeenCalledWith(
+        expect.anything(),
+        walletFor("escrow-user"),
+        walletFor("user-123"),
+        Money.parse("50000", "NGN"),
+        { escrow_id: "escrow-1" },
+        "ESCROW-escrow-1-REFUND",
+        "Escrow escrow-1 refunded"
+      );
+      expect(tables.escrows.update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: "refunded", refunded_decimal: "50000.000000" })
+      );
+      expect(tables.escrow_events.insert).toHaveBeenCalledWith(
+        expect.objectContaining({ actor_type: "beneficiary", actor_user_id: "user-456" })
+      );
+    });
+  });
+
+  describe("dispute", () => {
+    it("should freeze the escrow and record which party disputed it", async () => {
+      const { tables } = mockDb();
+      tables.escrows.first
+        .mockResolvedValueOnce(funded)
+        .mockResolvedValueOnce({ ...funded, status: "disputed" });
+
+      await EscrowService.dispute("user-456", "escrow-1", "Payer will not confirm delivery");
+
+      expect(tables.escrows.update).toHaveBeenCalledWith(expect.objectContaining({ status: "disputed" }));
+      expect(tables.escrow_events.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          from_status: "funded",
+          to_status: "disputed",
+          actor_type: "beneficiary",
+          actor_user_id: "user-456",
+          reason: "Payer will not confirm delivery",
+        })
+      );
+      expect(WalletService.moveWithin).not.toHaveBeenCalled();
+    });
+
+    it("should hide the escrow from users who are not a party to it", async () => {
+      const { tables } = mockDb();
+      tables.escrows.first.mockResolvedValue(funded);
+
+      await expect(EscrowService.dispute("user-789", "escrow-1", "Hmm")).rejects.toThrow(
+        new AppError(404, "Escrow not found: escrow-1")
+      );
+    });
+
+    it("should reject a dispute after the timeout", async () => {
+      const { tables } = mockDb();
+      tables.escrows.first.mockResolvedValue({ ...funded, expires_at: new Date(Date.now() - 1000) });
+
+      await expect(EscrowService.dispute("user-123", "escrow-1", "Too late")).rejects.toThrow(
+        new AppError(409, "Escrow escrow-1 has expired")
+      );
+      expect(tables.escrows.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("resolve", () => {
+    it("should split a disputed escrow between the parties", async () => {
+      const { tables } = mockDb();
+      tables.escrows.first
+        .mockResolvedValueOnce({ ...funded, status: "disputed" })
+        .mockResolvedValueOnce({ ...funded, status: "split" });
+
+      await EscrowService.resolve("admin-1", "escrow-1", {
+        outcome: "split",
+        beneficiaryAmount: "30000",
+        reason: "Partial delivery",
+      });
+
+      expect(WalletService.moveWithin).toHaveBeenNthCalledWith(
+        1,
+        expect.anything(),
+        walletFor("escrow-user"),
+        walletFor("user-456"),
+        Money.parse("30000", "NGN"),
+        { escrow_id: "escrow-1" },
+        "ESCROW-escrow-1-RELEASE",
+        "Escrow escrow-1 released"
+      );
+      // The refund starts from the escrow wallet as the release left it
+      expect(WalletService.moveWithin).toHaveBeenNthCalledWith(
+        2,
+        expect.anything(),
+        { ...walletFor("escrow-user"), balance_decimal: "0.000000" },
+        walletFor("user-123"),
+        Money.parse("20000", "NGN"),
+        { escrow_id: "escrow-1" },
+        "ESCROW-escrow-1-REFUND",
+        "Escrow escrow-1 refunded"
+      );
+      expect(tables.escrows.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: "split",
+          released_decimal: "30000.000000",
+          refunded_decimal: "20000.000000",
+        })
+      );
+      expect(tables.escrow_events.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          from_status: "disputed",
+          to_status: "split",
+          actor_type: "admin",
+          actor_user_id: "admin-1",
+          reason: "Partial delivery",
+        })
+      );
+    });
+
+    it("should reject a split that gives the beneficiary everything", async () => {
+      const { tables } = mockDb();
+      tables.escrows.first.mockResolvedValue({ ...funded, status: "disputed" });
+
+      await expect(
+        EscrowService.resolve("admin-1", "escrow-1", { outcome: "split", beneficiaryAmount: "50000" })
+      ).rejects.toThrow(new AppError(400, "beneficiaryAmount must be less than the escrowed 50000.000000"));
+      expect(WalletService.moveWithin).not.toHaveBeenCalled();
+    });
+
+    it("should not settle an escrow twice", async () => {
+      const { tables } = mockDb();
+      tables.escrows.first.mockResolvedValue({ ...funded, status: "released" });
+
+      await expect(
+        EscrowService.resolve("admin-1", "escrow-1", { outcome: "refund" })
+      ).rejects.toThrow(new AppError(409, "Escrow escrow-1 is released"));
+    });
+  });
+
+  describe("refundExpired", () => {
+    it("should refund timed-out escrows as the system and carry on after a failure", async () => {
+      const query = {
+        select: vi.fn().mockReturnThis(),
+        where: vi.fn().mockReturnThis(),
+        orderBy: vi.fn().mockReturnThis(),
+        limit: vi.fn().mockResolvedValue([{ id: "escrow-1" }, { id: "escrow-2" }, { id: "escrow-3" }]),
+      };
+      vi.mocked(knex).mockReturnValue(query as any);
+      const { tables } = mockDb();
+      tables.escrows.first
+        .mockResolvedValueOnce(funded)
+        // Released since it was selected
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce({ ...funded, id: "escrow-3" });
+      vi.mocked(WalletService.moveWithin).mockRejectedValueOnce(new Error("Insufficient funds"));
+
+      const refunded = await EscrowService.refundExpired(now);
+
+      expect(query.where).toHaveBeenCalledWith("expires_at", "<=", now);
+      expect(WalletService.moveWithin).toHaveBeenCalledTimes(2);
+      expect(refunded).toBe(1);
+      expect(tables.escrow_events.insert).toHaveBeenCalledTimes(1);
+      expect(tables.escrow_events.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          escrow_id: "escrow-3",
+          to_status: "refunded",
+          actor_type: "system",
+          actor_user_id: null,
+          reason: "Escrow timed out",
+        })
+      );
+    });
+  });
+
+  describe("getEscrow", () => {
+    it("should return the escrow with its audit trail", async () => {
+      const events = [{ id: "event-1", to_status: "funded" }];
+      vi.mocked(knex)
+        .mockReturnValueOnce({
+          where: vi.fn().mockReturnThis(),
+          first: vi.fn().mockResolvedValue(funded),
+        } as any)
+        .mockReturnValueOnce({
+          where: vi.fn().mockReturnThis(),
+          orderBy: vi.fn().mockResolvedValue(events),
+        } as any);
+
+      const result = await EscrowService.getEscrow("user-456", "escrow-1");
+
+      expect(result).toEqual({ escrow: funded, events });
+    });
+
+    it("should hide escrows the user is not a party to", async () => {
+      vi.mocked(knex).mockReturnValue({
+        where: vi.fn().mockReturnThis(),
+        first: vi.fn().mockResolvedValue(undefined),
+      } as any);
+
+      await expect(EscrowService.getEscrow("user-789", "escrow-1")).rejects.toThrow(
+        new AppError(404, "Escrow not found: escrow-1")
+      );
+    });
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Fee Controller Tests
+ *
+ * Unit tests for fee simulation and fee rule management endpoints.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Request, Response, NextFunction } from "express";
+import { FeeController } from "../../src/controllers/fee.controller";
+import { FeeService } from "../../src/services/fee.service";
+import { AppError } from "../../src/middlewares/error";
+import { Money } from "../../src/utils/money";
+
+// Mock FeeService
+vi.mock("../../src/services/fee.service", () => ({
+  FeeService: {
+    simulate: vi.fn(),
+    listRules: vi.fn(),
+    createRule: vi.fn(),
+    updateRule: vi.fn(),
+  },
+}));
+
+describe("FeeController", () => {
+  let mockReq: Partial<Request>;
+  let mockRes: Partial<Response>;
+  let mockNext: NextFunction;
+
+  const rule = {
+    id: "rule-123",
+    operation: "withdraw" as const,
+    currency: "NGN",
+    channel: null,
+    user_tier: null,
+    fee_type: "percentage" as const,
+    flat_fee_decimal: "10.000000",
+    percentage_bps: 50,
+    tiers: null,
+    min_fee_decimal: null,
+    max_fee_decimal: null,
+    priority: 0,
+    active: true,
+    description: null,
+    created_at: new Date(),
+    updated_at: new Date(),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockReq = {
+      params: {},
+      query: {},
+      body: {},
+      user: { id: "user-123" },
+    };
+
+    mockRes = {
+      status: vi.fn().mockReturnThis(),
+      json: vi.fn(),
+    };
+
+    mockNext = vi.fn();
+  });
+
+  describe("simulate", () => {
+    it("should return the fee breakdown without moving money", async () => {
+      mockReq.body = { userId: "user-123", operation: "withdraw", amount: "5000" };
+      vi.mocked(FeeService.simulate).mockResolvedValue({
+        operation: "withdraw",
+        channel: "api",
+        tier: "tier_1",
+        rule,
+        amount: Money.parse("5000", "NGN"),
+        flat: Money.parse("10", "NGN"),
+        percentage: Money.parse("25", "NGN"),
+        band: null,
+        adjustment: null,
+        fee: Money.parse("35", "NGN"),
+        total: Money.parse("5035", "NGN"),
+      });
+
+      await FeeController.simulate(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(FeeService.simulate).toHaveBeenCalledWith("user-123", "withdraw", "5000", "NGN", undefined);
+      expect(mockRes.status).toHaveBeenCalledWith(200);
+      expect(mockRes.json).toHaveBeenCalledWith({
+        success: true,
+        message: "Fee calculated successfully",
+        data: {
+          operation: "withdraw",
+          currency: "NGN",
+          amount: "5000.000000",
+          fee: {
+            amount: "35.000000",
+            total_debit: "5035.000000",
+            rule_id: "rule-123",
+            fee_type: "percentage",
+            channel: "api",
+            tier: "tier_1",
+            breakdown: {
+              flat: "10.000000",
+              percentage: "25.000000",
+              percentage_bps: 50,
+              band: null,
+              adjustment: null,
+            },
+          },
+        },
+      });
+    });
+
+    it("should return 403 when simulating for another user", async () => {
+      mockReq.body = { userId: "user-456", operation: "transfer", amount: "100" };
+
+      await FeeController.simulate(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockRes.status).toHaveBeenCalledWith(403);
+      expect(FeeService.simulate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("listRules", () => {
+    it("should pass the filters with active as a boolean", async () => {
+      mockReq.query = { operation: "withdraw", active: "false" };
+      vi.mocked(FeeService.listRules).mockResolvedValue([rule]);
+
+      await FeeController.listRules(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(FeeService.listRules).toHaveBeenCalledWith({
+        operation: "withdraw",
+        currency: undefined,
+        active: false,
+      });
+      expect(mockRes.json).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { rules: [rule] } })
+      );
+    });
+  });
+
+  describe("createRule", () => {
+    it("should create the rule and return 201", async () => {
+      mockReq.body = { operation: "withdraw", currency: "NGN", feeType: "percentage", percentageBps: 50 };
+      vi.mocked(FeeService.createRule).mockResolvedValue(rule);
+
+      await FeeController.createRule(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(FeeService.createRule).toHaveBeenCalledWith(mockReq.body);
+      expect(mockRes.status).toHaveBeenCalledWith(201);
+    });
+
+    it("should pass pricing errors to the error handler", async () => {
+      const error = new AppError(400, "A flat rule needs flatFee");
+      vi.mocked(FeeService.createRule).mockRejectedValue(error);
+
+      await FeeController.createRule(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith(error);
+    });
+  });
+
+  describe("updateRule", () => {
+    it("should only pass the non-pricing fields", async () => {
+      mockReq.params = { ruleId: "rule-123" };
+      mockReq.body = { active: false, flatFee: "99" };
+      vi.mocked(FeeService.updateRule).mockResolvedValue({ ...rule, active: false });
+
+      await FeeController.updateRule(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(FeeService.updateRule).toHaveBeenCalledWith("rule-123", {
+        active: false,
+        priority: undefined,
+        description: undefined,
+      });
+      expect(mockRes.status).toHaveBeenCalledWith(200);
+    });
+  });
+});
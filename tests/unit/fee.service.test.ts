@@ -0,0 +1,469 @@
+/**
+ * Fee Service Tests
+ *
+ * Unit tests for fee rule pricing, selection, collection and management.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { FeeService, FeeRule, FeeBreakdown } from "../../src/services/fee.service";
+import { LedgerService } from "../../src/services/ledger.service";
+import { knex } from "../../src/db";
+import { config } from "../../src/config/env";
+import { AppError } from "../../src/middlewares/error";
+import { Money } from "../../src/utils/money";
+import { mockTables } from "../helpers/query-mock";
+
+// Mock the database
+vi.mock("../../src/db", () => {
+  const knexMock = vi.fn() as any;
+  knexMock.fn = { now: () => new Date() };
+  return {
+    knex: knexMock,
+    newId: vi.fn(() => "rule-123"),
+    withTransaction: vi.fn(),
+  };
+});
+
+vi.mock("../../src/services/ledger.service", () => ({
+  LedgerService: {
+    postJournal: vi.fn().mockResolvedValue("journal-123"),
+    assertWalletBalance: vi.fn().mockResolvedValue(undefined),
+  },
+}));
+
+/**
+ * Build per-table query mocks for the tables fees touch
+ */
+const mockDb = () => mockTables("users", "fee_rules", "wallets", "transactions");
+
+const baseRule: FeeRule = {
+  id: "rule-123",
+  operation: "withdraw",
+  currency: "NGN",
+  channel: null,
+  user_tier: null,
+  fee_type: "flat",
+  flat_fee_decimal: "50.000000",
+  percentage_bps: null,
+  tiers: null,
+  min_fee_decimal: null,
+  max_fee_decimal: null,
+  priority: 0,
+  active: true,
+  description: null,
+  created_at: new Date(),
+  updated_at: new Date(),
+};
+
+const ngn = (value: string) => Money.parse(value, "NGN");
+
+describe("FeeService", () => {
+  const originalFees = { ...config.fees };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(knex).mockReset();
+  });
+
+  afterEach(() => {
+    Object.assign(config.fees, originalFees);
+  });
+
+  describe("calculate", () => {
+    it("should charge nothing without a rule", () => {
+      const result = FeeService.calculate(null, ngn("1000"));
+
+      expect(result.fee.isZero()).toBe(true);
+    });
+
+    it("should charge a flat fee", () => {
+      const result = FeeService.calculate(baseRule, ngn("1000"));
+
+      expect(result.fee.toStorageString()).toBe("50.000000");
+    });
+
+    it("should add the fixed part to a percentage fee and apply the cap", () => {
+      const rule: FeeRule = {
+        ...baseRule,
+        fee_type: "percentage",
+        flat_fee_decimal: "10.000000",
+        percentage_bps: 150,
+        max_fee_decimal: "2000.000000",
+      };
+
+      expect(FeeService.calculate(rule, ngn("1000")).fee.toStorageString()).toBe("25.000000");
+
+      const capped = FeeService.calculate(rule, ngn("500000"));
+      expect(capped.percentage.toStorageString()).toBe("7500.000000");
+      expect(capped.fee.toStorageString()).toBe("2000.000000");
+      expect(capped.adjustment).toBe("max");
+    });
+
+    it("should raise a small fee to the minimum", () => {
+      const rule: FeeRule = {
+        ...baseRule,
+        fee_type: "percentage",
+        flat_fee_decimal: null,
+        percentage_bps: 50,
+        min_fee_decimal: "20.000000",
+      };
+
+      const result = FeeService.calculate(rule, ngn("100"));
+
+      expect(result.fee.toStorageString()).toBe("20.000000");
+      expect(result.adjustment).toBe("min");
+    });
+
+    it("should price a tiered rule from the band the amount falls in", () => {
+      const rule: FeeRule = {
+        ...baseRule,
+        fee_type: "tiered",
+        flat_fee_decimal: null,
+        tiers: [
+          { up_to: "5000.000000", flat_fee: "10.000000" },
+          { up_to: "50000.000000", flat_fee: "25.000000" },
+          { up_to: null, flat_fee: "25.000000", bps: 10 },
+        ],
+      };
+
+      expect(FeeService.calculate(rule, ngn("5000")).fee.toStorageString()).toBe("10.000000");
+      expect(FeeService.calculate(rule, ngn("5000.01")).fee.toStorageString()).toBe("25.000000");
+
+      const top = FeeService.calculate(rule, ngn("100000"));
+      expect(top.band?.up_to).toBeNull();
+      expect(top.fee.toStorageString()).toBe("125.000000");
+    });
+  });
+
+  describe("quote", () => {
+    it("should pick the rule for the payer's tier and channel", async () => {
+      const { db, tables } = mockDb();
+      tables.users.first.mockResolvedValueOnce({ tier: "tier_2" });
+      tables.fee_rules.first.mockResolvedValueOnce({ ...baseRule, active: 1, tiers: null });
+
+      const result = await FeeService.quote(
+        db,
+        { operation: "withdraw", userId: "user-123", currency: "NGN", channel: "ussd" },
+        ngn("1000")
+      );
+
+      expect(tables.fee_rules.where).toHaveBeenCalledWith({
+        operation: "withdraw",
+        currency: "NGN",
+        active: true,
+      });
+      const [channelFilter, tierFilter] = tables.fee_rules.where.mock.calls.slice(1).map((call) => call[0]);
+      const nested = { where: vi.fn().mockReturnThis(), orWhereNull: vi.fn().mockReturnThis() };
+      channelFilter(nested);
+      tierFilter(nested);
+      expect(nested.where.mock.calls).toEqual([
+        ["channel", "ussd"],
+        ["user_tier", "tier_2"],
+      ]);
+      expect(result.tier).toBe("tier_2");
+      expect(result.rule?.active).toBe(true);
+      expect(result.fee.toStorageString()).toBe("50.000000");
+      expect(result.total.toStorageString()).toBe("1050.000000");
+    });
+
+    it("should default the channel to api", async () => {
+      const { db, tables } = mockDb();
+      tables.users.first.mockResolvedValueOnce({ tier: "tier_1" });
+      tables.fee_rules.first.mockResolvedValueOnce(undefined);
+
+      const result = await FeeService.quote(
+        db,
+        { operation: "transfer", userId: "user-123", currency: "NGN" },
+        ngn("1000")
+      );
+
+      expect(result.channel).toBe("api");
+      expect(result.rule).toBeNull();
+      expect(result.total.toStorageString()).toBe("1000.000000");
+    });
+
+    it("should not charge transfers to the revenue user", async () => {
+      config.fees.revenueUserId = "revenue-user";
+      const { db, tables } = mockDb();
+      tables.users.first.mockResolvedValueOnce({ tier: "tier_1" });
+
+      const result = await FeeService.quote(
+        db,
+        { operation: "transfer", userId: "user-123", currency: "NGN", counterpartyId: "revenue-user" },
+        ngn("1000")
+      );
+
+      expect(result.fee.isZero()).toBe(true);
+      expect(tables.fee_rules.first).not.toHaveBeenCalled();
+    });
+
+    it("should reject an unknown payer", async () => {
+      const { db, tables } = mockDb();
+      tables.users.first.mockResolvedValueOnce(undefined);
+
+      const error = await FeeService.quote(
+        db,
+        { operation: "withdraw", userId: "missing", currency: "NGN" },
+        ngn("1000")
+      ).catch((e) => e);
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.statusCode).toBe(404);
+    });
+  });
+
+  describe("collect", () => {
+    const payer = {
+      id: "wallet-payer",
+      user_id: "user-123",
+      balance_decimal: "1000.000000",
+      held_decimal: "0.000000",
+      currency: "NGN",
+      created_at: new Date(),
+      updated_at: new Date(),
+    };
+
+    const breakdown: FeeBreakdown = {
+      operation: "withdraw",
+      channel: "api",
+      tier: "tier_1",
+      rule: baseRule,
+      amount: ngn("200"),
+      flat: ngn("50"),
+      percentage: Money.zero("NGN"),
+      band: null,
+      adjustment: null,
+      fee: ngn("50"),
+      total: ngn("250"),
+    };
+
+    const revenueWallet = {
+      ...payer,
+      id: "wallet-revenue",
+      user_id: "revenue-user",
+      balance_decimal: "100.000000",
+    };
+
+    it("should move the fee from the payer to the revenue wallet", async () => {
+      config.fees.revenueUserId = "revenue-user";
+      const { db, tables } = mockDb();
+      tables.transactions.first.mockResolvedValueOnce({ id: "rule-123", type: "fee" });
+
+      const transaction = await FeeService.collect(
+        db,
+        payer,
+        revenueWallet,
+        breakdown,
+        ngn("750"),
+        "WITHDRAW-user-123-1-A",
+        { source: "app" }
+      );
+
+      expect(tables.wallets.forUpdate).not.toHaveBeenCalled();
+      expect(tables.transactions.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          wallet_id: "wallet-payer",
+          type: "fee",
+          amount_decimal: "50.000000",
+          balance_after: "750.000000",
+          reference: "WITHDRAW-user-123-1-A-FEE",
+        })
+      );
+      expect(tables.transactions.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          wallet_id: "wallet-revenue",
+          type: "fee-income",
+          balance_after: "150.000000",
+          reference: "WITHDRAW-user-123-1-A-FEE-IN",
+        })
+      );
+      const metadata = JSON.parse(tables.transactions.insert.mock.calls[0]![0].metadata);
+      expect(metadata).toEqual({ source: "app", fee_for: "WITHDRAW-user-123-1-A", fee_rule_id: "rule-123" });
+
+      const journal = vi.mocked(LedgerService.postJournal).mock.calls[0]![1];
+      expect(journal.reference).toBe("WITHDRAW-user-123-1-A-FEE");
+      expect(journal.legs.map((leg) => [leg.account, leg.direction, leg.amount.toStorageString()])).toEqual([
+        [{ walletId: "wallet-payer", currency: "NGN" }, "debit", "50.000000"],
+        [{ walletId: "wallet-revenue", currency: "NGN" }, "credit", "50.000000"],
+      ]);
+      expect(tables.wallets.update).toHaveBeenCalledWith(
+        expect.objectContaining({ balance_decimal: "150.000000" })
+      );
+      expect(transaction.type).toBe("fee");
+    });
+
+    it("should fail when no revenue user is configured", async () => {
+      config.fees.revenueUserId = undefined;
+      const { db, tables } = mockDb();
+
+      const error = await FeeService.collect(db, payer, null, breakdown, ngn("750"), "REF").catch((e) => e);
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.statusCode).toBe(503);
+      expect(tables.transactions.insert).not.toHaveBeenCalled();
+    });
+
+    it("should fail when the revenue user has no wallet in the currency", async () => {
+      config.fees.revenueUserId = "revenue-user";
+      const { db } = mockDb();
+
+      const error = await FeeService.collect(db, payer, null, breakdown, ngn("750"), "REF").catch((e) => e);
+
+      expect(error.statusCode).toBe(503);
+      expect(error.message).toContain("No NGN fee revenue wallet");
+    });
+  });
+
+  describe("lockWithRevenueWallet", () => {
+    /**
+     * Lock callback that records the order users were locked in
+     */
+    const recordLocks = () => {
+      const order: string[] = [];
+      const lockUser = vi.fn(async (userId: string) => {
+        order.push(userId);
+        return `wallet-of-${userId}`;
+      });
+      return { order, lockUser };
+    };
+
+    it("should lock the revenue wallet in user_id order among the parties", async () => {
+      config.fees.revenueUserId = "user-b";
+      const { db, tables } = mockDb();
+      const { order, lockUser } = recordLocks();
+      tables.wallets.first.mockImplementationOnce(async () => {
+        order.push("user-b");
+        return { id: "wallet-revenue", user_id: "user-b", currency: "NGN" };
+      });
+
+      const { locked, revenueWallet } = await FeeService.lockWithRevenueWallet(
+        db,
+        ["user-c", "user-a"],
+        "NGN",
+        lockUser
+      );
+
+      expect(order).toEqual(["user-a", "user-b", "user-c"]);
+      expect(tables.wallets.where).toHaveBeenCalledWith({ user_id: "user-b", currency: "NGN", parent_wallet_id: null });
+      expect(tables.wallets.forUpdate).toHaveBeenCalled();
+      expect(locked.get("user-a")).toBe("wallet-of-user-a");
+      expect(locked.get("user-c")).toBe("wallet-of-user-c");
+      expect(revenueWallet?.id).toBe("wallet-revenue");
+    });
+
+    it("should not lock the revenue wallet again when the revenue user is a party to the transfer", async () => {
+      config.fees.revenueUserId = "user-a";
+      const { db, tables } = mockDb();
+      const { order, lockUser } = recordLocks();
+
+      const { locked, revenueWallet } = await FeeService.lockWithRevenueWallet(
+        db,
+        ["user-c", "user-a"],
+        "NGN",
+        lockUser
+      );
+
+      expect(order).toEqual(["user-a", "user-c"]);
+      expect(tables.wallets.forUpdate).not.toHaveBeenCalled();
+      expect(locked.get("user-a")).toBe("wallet-of-user-a");
+      expect(revenueWallet).toBeNull();
+    });
+
+    it("should only lock the parties when no revenue user is configured", async () => {
+      config.fees.revenueUserId = undefined;
+      const { db, tables } = mockDb();
+      const { order, lockUser } = recordLocks();
+
+      const { revenueWallet } = await FeeService.lockWithRevenueWallet(db, ["user-b", "user-a"], "NGN", lockUser);
+
+      expect(order).toEqual(["user-a", "user-b"]);
+      expect(tables.wallets.first).not.toHaveBeenCalled();
+      expect(revenueWallet).toBeNull();
+    });
+  });
+
+  describe("createRule", () => {
+    it("should store a tiered rule with normalised bands", async () => {
+      const { db, tables } = mockDb();
+      vi.mocked(knex).mockImplementation(db);
+      tables.fee_rules.first.mockResolvedValueOnce({ ...baseRule, fee_type: "tiered" });
+
+      await FeeService.createRule({
+        operation: "transfer",
+        currency: "NGN",
+        feeType: "tiered",
+        tiers: [
+          { upTo: "5000", flatFee: "10" },
+          { upTo: null, bps: 25 },
+        ],
+      });
+
+      const row = tables.fee_rules.insert.mock.calls[0]![0];
+      expect(row).toMatchObject({
+        id: "rule-123",
+        operation: "transfer",
+        fee_type: "tiered",
+        channel: null,
+        user_tier: null,
+        flat_fee_decimal: null,
+        priority: 0,
+        active: true,
+      });
+      expect(JSON.parse(row.tiers)).toEqual([
+        { up_to: "5000.000000", flat_fee: "10.000000" },
+        { up_to: null, bps: 25 },
+      ]);
+    });
+
+    it.each([
+      [{ feeType: "flat" }, "A flat rule needs flatFee"],
+      [{ feeType: "percentage", flatFee: "10" }, "A percentage rule needs percentageBps"],
+      [{ feeType: "flat", flatFee: "10", percentageBps: 20 }, "percentageBps only applies"],
+      [{ feeType: "flat", flatFee: "10.001" }, "flatFee: Amount cannot have more than 2 decimal places"],
+      [{ feeType: "flat", flatFee: "10", minFee: "50", maxFee: "20" }, "minFee must not exceed maxFee"],
+      [
+        { feeType: "tiered", tiers: [{ upTo: "100", flatFee: "1" }, { upTo: "50", flatFee: "2" }] },
+        "Only the last band",
+      ],
+      [
+        { feeType: "tiered", tiers: [{ upTo: "100", flatFee: "1" }, { upTo: "50", flatFee: "2" }, { upTo: null, bps: 5 }] },
+        "ascending upTo order",
+      ],
+    ] as const)("should reject %o", async (fields, message) => {
+      const error = await FeeService.createRule({
+        operation: "withdraw",
+        currency: "NGN",
+        ...(fields as any),
+      }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.statusCode).toBe(400);
+      expect(error.message).toContain(message);
+      expect(knex).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("updateRule", () => {
+    it("should only change the fields given", async () => {
+      const { db, tables } = mockDb();
+      vi.mocked(knex).mockImplementation(db);
+      tables.fee_rules.first.mockResolvedValueOnce(baseRule).mockResolvedValueOnce({ ...baseRule, active: 0 });
+
+      const rule = await FeeService.updateRule("rule-123", { active: false, priority: undefined });
+
+      expect(tables.fee_rules.update).toHaveBeenCalledWith({ active: false, updated_at: expect.any(Date) });
+      expect(rule.active).toBe(false);
+    });
+
+    it("should reject an unknown rule", async () => {
+      const { db, tables } = mockDb();
+      vi.mocked(knex).mockImplementation(db);
+      tables.fee_rules.first.mockResolvedValueOnce(undefined);
+
+      const error = await FeeService.updateRule("missing", { active: false }).catch((e) => e);
+
+      expect(error.statusCode).toBe(404);
+      expect(tables.fee_rules.update).not.toHaveBeenCalled();
+    });
+  });
+});
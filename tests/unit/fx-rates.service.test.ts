@@ -0,0 +1,85 @@
+/**
+ * FX Rates Service Tests
+ *
+ * Unit tests for the static and database rates providers.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, writeFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  StaticFxRatesProvider,
+  DbFxRatesProvider,
+  FxRatesService,
+} from "../../src/services/fx-rates.service";
+import { knex } from "../../src/db";
+
+// Mock the database
+vi.mock("../../src/db", () => ({
+  knex: vi.fn(),
+}));
+
+describe("FxRatesService", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    dir = mkdtempSync(join(tmpdir(), "fx-rates-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+    FxRatesService.setProvider(null);
+  });
+
+  describe("StaticFxRatesProvider", () => {
+    it("should serve the built-in rates by default", async () => {
+      const provider = new StaticFxRatesProvider();
+
+      await expect(provider.getRate("USD", "NGN")).resolves.toEqual({
+        base: "USD",
+        quote: "NGN",
+        rate: "1500.000000",
+        source: "static",
+      });
+      await expect(provider.getRate("NGN", "XYZ")).resolves.toBeNull();
+    });
+
+    it("should load rates from a JSON file", async () => {
+      const file = join(dir, "rates.json");
+      writeFileSync(file, JSON.stringify({ "USD/NGN": "1612.25" }));
+
+      const provider = new StaticFxRatesProvider(file);
+
+      await expect(provider.getRate("USD", "NGN")).resolves.toMatchObject({
+        rate: "1612.25",
+        source: "static-file",
+      });
+      // The file replaces the defaults entirely
+      await expect(provider.getRate("GHS", "NGN")).resolves.toBeNull();
+    });
+
+    it("should refuse a file with a non-decimal rate", () => {
+      const file = join(dir, "rates.json");
+      writeFileSync(file, JSON.stringify({ "USD/NGN": 1612.25 }));
+
+      expect(() => new StaticFxRatesProvider(file)).toThrow("Invalid FX rate for USD/NGN");
+    });
+  });
+
+  describe("DbFxRatesProvider", () => {
+    it("should read the pair from fx_rates", async () => {
+      const query = {
+        where: vi.fn().mockReturnThis(),
+        first: vi.fn().mockResolvedValue({ rate: "0.000666666667" }),
+      };
+      vi.mocked(knex).mockReturnValue(query as any);
+
+      const rate = await new DbFxRatesProvider().getRate("NGN", "USD");
+
+      expect(query.where).toHaveBeenCalledWith({ base_currency: "NGN", quote_currency: "USD" });
+      expect(rate).toEqual({ base: "NGN", quote: "USD", rate: "0.000666666667", source: "db" });
+    });
+  });
+});
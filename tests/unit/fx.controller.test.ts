@@ -0,0 +1,143 @@
+/**
+ * FX Controller Tests
+ *
+ * Unit tests for currency conversion endpoints.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Request, Response, NextFunction } from "express";
+import { FxController } from "../../src/controllers/fx.controller";
+import { FxService } from "../../src/services/fx.service";
+
+// Mock FxService
+vi.mock("../../src/services/fx.service", () => ({
+  FxService: {
+    createQuote: vi.fn(),
+    convert: vi.fn(),
+  },
+}));
+
+describe("FxController", () => {
+  let mockReq: Partial<Request>;
+  let mockRes: Partial<Response>;
+  let mockNext: NextFunction;
+
+  const quote = {
+    id: "quote-123",
+    user_id: "user-123",
+    from_currency: "USD",
+    to_currency: "NGN",
+    source_amount_decimal: "100.000000",
+    fee_decimal: "0.000000",
+    mid_rate: "1500.000000000000",
+    rate: "1492.500000000000",
+    spread_bps: 50,
+    spread_decimal: "750.000000",
+    target_amount_decimal: "149250.000000",
+    rate_source: "static",
+    status: "open" as const,
+    reference: null,
+    from_wallet_id: null,
+    to_wallet_id: null,
+    expires_at: new Date(),
+    executed_at: null,
+    created_at: new Date(),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockReq = {
+      params: {},
+      query: {},
+      body: {},
+      user: { id: "user-123" },
+    };
+
+    mockRes = {
+      status: vi.fn().mockReturnThis(),
+      json: vi.fn(),
+    };
+
+    mockNext = vi.fn();
+  });
+
+  describe("createQuote", () => {
+    it("should return the quote with rate, spread and fee", async () => {
+      mockReq.body = { userId: "user-123", fromCurrency: "USD", toCurrency: "NGN", amount: "100" };
+      vi.mocked(FxService.createQuote).mockResolvedValue(quote);
+
+      await FxController.createQuote(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(FxService.createQuote).toHaveBeenCalledWith("user-123", "USD", "NGN", "100");
+      expect(mockRes.status).toHaveBeenCalledWith(201);
+      expect(mockRes.json).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: {
+            quote: expect.objectContaining({
+              id: "quote-123",
+              amount: "100.000000",
+              fee: "0.000000",
+              rate: "1492.500000000000",
+              spread: "750.000000",
+              converted_amount: "149250.000000",
+            }),
+          },
+        })
+      );
+    });
+
+    it("should reject quotes for another user", async () => {
+      mockReq.body = { userId: "user-456", fromCurrency: "USD", toCurrency: "NGN", amount: "100" };
+
+      await FxController.createQuote(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockRes.status).toHaveBeenCalledWith(403);
+      expect(FxService.createQuote).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("convert", () => {
+    it("should return both wallets and every conversion leg", async () => {
+      mockReq.body = { userId: "user-123", quoteId: "quote-123" };
+      vi.mocked(FxService.convert).mockResolvedValue({
+        reference: "FX-user-123-1-ABC",
+        quote: { ...quote, status: "executed", reference: "FX-user-123-1-ABC" },
+        fromWallet: { id: "wallet-usd", currency: "USD", balance_decimal: "0.000000" } as any,
+        toWallet: { id: "wallet-ngn", currency: "NGN", balance_decimal: "149250.000000" } as any,
+        transactions: [
+          { id: "txn-1", wallet_id: "wallet-usd", type: "conversion-out", amount_decimal: "100.000000", balance_after: "0.000000", reference: "FX-user-123-1-ABC-OUT" },
+          { id: "txn-2", wallet_id: "wallet-ngn", type: "conversion-in", amount_decimal: "149250.000000", balance_after: "149250.000000", reference: "FX-user-123-1-ABC-IN" },
+        ] as any,
+      });
+
+      await FxController.convert(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(FxService.convert).toHaveBeenCalledWith("user-123", "quote-123", undefined);
+      expect(mockRes.status).toHaveBeenCalledWith(200);
+      expect(mockRes.json).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            reference: "FX-user-123-1-ABC",
+            from_wallet: { id: "wallet-usd", currency: "USD", balance: "0.000000" },
+            to_wallet: { id: "wallet-ngn", currency: "NGN", balance: "149250.000000" },
+            transactions: [
+              expect.objectContaining({ type: "conversion-out" }),
+              expect.objectContaining({ type: "conversion-in" }),
+            ],
+          }),
+        })
+      );
+    });
+
+    it("should pass service errors to next", async () => {
+      mockReq.body = { userId: "user-123", quoteId: "quote-123" };
+      const error = new Error("FX quote quote-123 has expired; request a new quote");
+      vi.mocked(FxService.convert).mockRejectedValue(error);
+
+      await FxController.convert(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith(error);
+    });
+  });
+});
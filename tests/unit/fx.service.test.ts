@@ -0,0 +1,371 @@
+/**
+ * FX Service Tests
+ *
+ * Unit tests for quoting and executing currency conversions.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { FxService, FxQuote } from "../../src/services/fx.service";
+import { FxRatesService, FxRatesProvider } from "../../src/services/fx-rates.service";
+import { WalletService } from "../../src/services/wallet.service";
+import { LedgerService } from "../../src/services/ledger.service";
+import { LimitService } from "../../src/services/limit.service";
+import { knex, withTransaction } from "../../src/db";
+import { config } from "../../src/config/env";
+import { AppError } from "../../src/middlewares/error";
+import { mockTables } from "../helpers/query-mock";
+
+// Mock the database
+vi.mock("../../src/db", () => {
+  const knexMock = vi.fn() as any;
+  knexMock.fn = { now: () => new Date() };
+  return {
+    knex: knexMock,
+    newId: vi.fn(() => "quote-123"),
+    withTransaction: vi.fn(),
+  };
+});
+
+vi.mock("../../src/services/ledger.service", () => ({
+  LedgerService: {
+    postJournal: vi.fn().mockResolvedValue("journal-123"),
+    assertWalletBalance: vi.fn().mockResolvedValue(undefined),
+  },
+}));
+
+vi.mock("../../src/services/limit.service", () => ({
+  LimitService: {
+    assertCanReceive: vi.fn(),
+  },
+}));
+
+/**
+ * Provider with fixed rates
+ */
+const fixedRates: FxRatesProvider = {
+  name: "test",
+  getRate: async (base, quote) =>
+    base === "USD" && quote === "NGN" ? { base, quote, rate: "1500.000000", source: "test" } : null,
+};
+
+/**
+ * Route the transaction to per-table query mocks
+ */
+const mockDb = () => {
+  const { tables, db } = mockTables("wallets", "fx_quotes", "transactions");
+  vi.mocked(withTransaction).mockImplementation((callback: any) => callback(db));
+  return tables;
+};
+
+describe("FxService", () => {
+  const usdWallet = {
+    id: "wallet-usd",
+    user_id: "user-123",
+    balance_decimal: "150.000000",
+    held_decimal: "20.000000",
+    currency: "USD",
+    created_at: new Date(),
+    updated_at: new Date(),
+  };
+
+  const ngnWallet = {
+    ...usdWallet,
+    id: "wallet-ngn",
+    balance_decimal: "1000.000000",
+    held_decimal: "0.000000",
+    currency: "NGN",
+  };
+
+  const openQuote: FxQuote = {
+    id: "quote-123",
+    user_id: "user-123",
+    from_currency: "USD",
+    to_currency: "NGN",
+    source_amount_decimal: "100.000000",
+    fee_decimal: "1.000000",
+    mid_rate: "1500.000000000000",
+    rate: "1492.500000000000",
+    spread_bps: 50,
+    spread_decimal: "750.000000",
+    target_amount_decimal: "149250.000000",
+    rate_source: "test",
+    status: "open",
+    reference: null,
+    from_wallet_id: null,
+    to_wallet_id: null,
+    expires_at: new Date(Date.now() + 60_000),
+    executed_at: null,
+    created_at: new Date(),
+  };
+
+  const revenueWallet = {
+    ...usdWallet,
+    id: "wallet-revenue",
+    user_id: "revenue-user",
+    balance_decimal: "10.000000",
+    held_decimal: "0.000000",
+  };
+
+  const originalFx = { ...config.fx };
+  const originalFees = { ...config.fees };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    FxRatesService.setProvider(fixedRates);
+    vi.spyOn(WalletService, "getWalletByUserId").mockImplementation(
+      async (_userId, _trx, _forUpdate, selector) =>
+        selector?.currency === "USD" ? usdWallet : selector?.currency === "NGN" ? ngnWallet : null
+    );
+  });
+
+  afterEach(() => {
+    FxRatesService.setProvider(null);
+    Object.assign(config.fx, originalFx);
+    Object.assign(config.fees, originalFees);
+  });
+
+  describe("createQuote", () => {
+    it("should price the conversion with spread and fee", async () => {
+      Object.assign(config.fx, { spreadBps: 50, feeBps: 100 });
+      const query = {
+        insert: vi.fn().mockResolvedValue([1]),
+        where: vi.fn().mockReturnThis(),
+        first: vi.fn().mockResolvedValue(openQuote),
+      };
+      vi.mocked(knex).mockReturnValue(query as any);
+
+      await FxService.createQuote("user-123", "USD", "NGN", "100.00");
+
+      expect(query.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          user_id: "user-123",
+          source_amount_decimal: "100.000000",
+          fee_decimal: "1.000000",
+          mid_rate: "1500.000000",
+          rate: "1492.500000000000",
+          spread_bps: 50,
+          spread_decimal: "750.000000",
+          target_amount_decimal: "149250.000000",
+          rate_source: "test",
+          status: "open",
+        })
+      );
+    });
+
+    it("should not charge the fee revenue user a conversion fee", async () => {
+      Object.assign(config.fx, { spreadBps: 50, feeBps: 100 });
+      config.fees.revenueUserId = "user-123";
+      const query = {
+        insert: vi.fn().mockResolvedValue([1]),
+        where: vi.fn().mockReturnThis(),
+        first: vi.fn().mockResolvedValue(openQuote),
+      };
+      vi.mocked(knex).mockReturnValue(query as any);
+
+      await FxService.createQuote("user-123", "USD", "NGN", "100.00");
+
+      expect(query.insert).toHaveBeenCalledWith(
+        expect.objectContaining({ fee_decimal: "0.000000", target_amount_decimal: "149250.000000" })
+      );
+    });
+
+    it("should reject pairs the provider does not quote", async () => {
+      const error = await FxService.createQuote("user-123", "GHS", "USD", "10").catch((e) => e);
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.statusCode).toBe(422);
+      expect(knex).not.toHaveBeenCalled();
+    });
+
+    it("should reject converting a currency to itself", async () => {
+      await expect(FxService.createQuote("user-123", "NGN", "NGN", "10")).rejects.toThrow(
+        "Cannot convert a currency to itself"
+      );
+    });
+  });
+
+  describe("convert", () => {
+    beforeEach(() => {
+      config.fees.revenueUserId = "revenue-user";
+    });
+
+    /**
+     * Route the transaction to per-table query mocks, with the revenue
+     * wallet returned by the first wallets lock
+     */
+    const mockConvertDb = () => {
+      const tables = mockDb();
+      tables.wallets.first.mockResolvedValueOnce(revenueWallet);
+      tables.transactions.first.mockResolvedValue({ id: "fee-txn" });
+      return tables;
+    };
+
+    it("should debit amount plus fee and credit the converted amount", async () => {
+      const tables = mockConvertDb();
+      tables.fx_quotes.first
+        .mockResolvedValueOnce(openQuote)
+        .mockResolvedValueOnce({ ...openQuote, status: "executed" });
+      tables.wallets.first
+        .mockResolvedValueOnce({ ...usdWallet, balance_decimal: "49.000000" })
+        .mockResolvedValueOnce({ ...ngnWallet, balance_decimal: "150250.000000" });
+      tables.transactions.whereIn.mockResolvedValueOnce([]);
+
+      const result = await FxService.convert("user-123", "quote-123");
+
+      expect(tables.transactions.insert).toHaveBeenCalledTimes(4);
+      expect(tables.transactions.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          wallet_id: "wallet-usd",
+          type: "conversion-out",
+          amount_decimal: "100.000000",
+          balance_after: "50.000000",
+          reference: expect.stringMatching(/^FX-.*-OUT$/),
+        })
+      );
+      expect(tables.transactions.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          wallet_id: "wallet-usd",
+          type: "fee",
+          amount_decimal: "1.000000",
+          balance_after: "49.000000",
+          reference: expect.stringMatching(/^FX-.*-FEE$/),
+        })
+      );
+      expect(tables.transactions.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          wallet_id: "wallet-revenue",
+          type: "fee-income",
+          amount_decimal: "1.000000",
+          balance_after: "11.000000",
+        })
+      );
+      expect(tables.transactions.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          wallet_id: "wallet-ngn",
+          type: "conversion-in",
+          amount_decimal: "149250.000000",
+          balance_after: "150250.000000",
+        })
+      );
+      expect(tables.fx_quotes.update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: "executed", from_wallet_id: "wallet-usd", to_wallet_id: "wallet-ngn" })
+      );
+      expect(result.quote.status).toBe("executed");
+    });
+
+    it("should post a journal that balances in each currency", async () => {
+      const tables = mockConvertDb();
+      tables.fx_quotes.first.mockResolvedValueOnce(openQuote);
+      tables.transactions.whereIn.mockResolvedValueOnce([]);
+
+      await FxService.convert("user-123", "quote-123");
+
+      const summaries = vi.mocked(LedgerService.postJournal).mock.calls.map(([, journal]) =>
+        journal.legs.map(
+          (leg) => `${leg.direction} ${"walletId" in leg.account ? leg.account.walletId : leg.account.system} ${leg.amount}`
+        )
+      );
+      expect(summaries).toEqual([
+        ["debit wallet-usd 1.000000", "credit wallet-revenue 1.000000"],
+        [
+          "debit wallet-usd 100.000000",
+          "credit FX_POSITION 100.000000",
+          "debit FX_POSITION 149250.000000",
+          "credit wallet-ngn 149250.000000",
+        ],
+      ]);
+    });
+
+    it("should refuse a charged conversion without a revenue wallet in the source currency", async () => {
+      const tables = mockDb();
+      tables.fx_quotes.first.mockResolvedValueOnce(openQuote);
+
+      const error = await FxService.convert("user-123", "quote-123").catch((e) => e);
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.statusCode).toBe(503);
+      expect(tables.wallets.update).not.toHaveBeenCalled();
+    });
+
+    it("should check the target wallet against its maximum balance", async () => {
+      const tables = mockConvertDb();
+      tables.fx_quotes.first.mockResolvedValueOnce(openQuote);
+      vi.mocked(LimitService.assertCanReceive).mockRejectedValueOnce(
+        new AppError(422, "Balance would exceed the tier_1 maximum balance")
+      );
+
+      const error = await FxService.convert("user-123", "quote-123").catch((e) => e);
+
+      expect(error.statusCode).toBe(422);
+      const [, wallet, amount, newBalance] = vi.mocked(LimitService.assertCanReceive).mock.calls[0]!;
+      expect(wallet.id).toBe("wallet-ngn");
+      expect(amount.toStorageString()).toBe("149250.000000");
+      expect(newBalance.toStorageString()).toBe("150250.000000");
+      expect(tables.transactions.insert).not.toHaveBeenCalled();
+    });
+
+    it("should lock the wallets in currency order", async () => {
+      const tables = mockConvertDb();
+      tables.fx_quotes.first.mockResolvedValueOnce(openQuote);
+      tables.transactions.whereIn.mockResolvedValueOnce([]);
+
+      await FxService.convert("user-123", "quote-123");
+
+      const currencies = vi
+        .mocked(WalletService.getWalletByUserId)
+        .mock.calls.map((call) => call[3]?.currency);
+      expect(currencies).toEqual(["NGN", "USD"]);
+    });
+
+    it("should reject when held funds leave too little available", async () => {
+      const tables = mockConvertDb();
+      // 150 balance - 20 held = 130 available; 139 + 1 fee = 140 required
+      tables.fx_quotes.first.mockResolvedValueOnce({
+        ...openQuote,
+        source_amount_decimal: "139.000000",
+      });
+
+      const error = await FxService.convert("user-123", "quote-123").catch((e) => e);
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.statusCode).toBe(422);
+      expect(error.message).toContain("Available: 130.000000, Required: 140.000000");
+      expect(tables.transactions.insert).not.toHaveBeenCalled();
+    });
+
+    it("should reject an expired quote", async () => {
+      const tables = mockConvertDb();
+      tables.fx_quotes.first.mockResolvedValueOnce({
+        ...openQuote,
+        expires_at: new Date(Date.now() - 1000),
+      });
+
+      const error = await FxService.convert("user-123", "quote-123").catch((e) => e);
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.statusCode).toBe(409);
+      expect(error.message).toContain("expired");
+    });
+
+    it("should reject a quote that was already executed", async () => {
+      const tables = mockConvertDb();
+      tables.fx_quotes.first.mockResolvedValueOnce({ ...openQuote, status: "executed" });
+
+      const error = await FxService.convert("user-123", "quote-123").catch((e) => e);
+
+      expect(error.statusCode).toBe(409);
+      expect(tables.wallets.update).not.toHaveBeenCalled();
+    });
+
+    it("should require a wallet in the target currency", async () => {
+      const tables = mockConvertDb();
+      tables.fx_quotes.first.mockResolvedValueOnce({ ...openQuote, to_currency: "GHS" });
+
+      const error = await FxService.convert("user-123", "quote-123").catch((e) => e);
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.statusCode).toBe(404);
+      expect(error.message).toContain("No GHS wallet");
+    });
+  });
+});
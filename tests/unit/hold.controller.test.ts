@@ -0,0 +1,178 @@
+/**
+ * Hold Controller Tests
+ *
+ * Unit tests for wallet hold endpoints.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Request, Response, NextFunction } from "express";
+import { HoldController } from "../../src/controllers/hold.controller";
+import { HoldService } from "../../src/services/hold.service";
+import { Money } from "../../src/utils/money";
+
+// Mock HoldService
+vi.mock("../../src/services/hold.service", () => ({
+  HoldService: {
+    create: vi.fn(),
+    listHolds: vi.fn(),
+    getHold: vi.fn(),
+    capture: vi.fn(),
+    release: vi.fn(),
+  },
+}));
+
+describe("HoldController", () => {
+  let mockReq: Partial<Request>;
+  let mockRes: Partial<Response>;
+  let mockNext: NextFunction;
+
+  const hold = {
+    id: "hold-123",
+    wallet_id: "wallet-123",
+    amount_decimal: "200.000000",
+    captured_decimal: null,
+    status: "active" as const,
+    reference: "HOLD-user-123-1-ABC",
+    capture_transaction_id: null,
+    expires_at: new Date(),
+    metadata: null,
+    created_at: new Date(),
+    updated_at: new Date(),
+  };
+
+  const wallet = {
+    id: "wallet-123",
+    user_id: "user-123",
+    balance_decimal: "1000.000000",
+    held_decimal: "200.000000",
+    currency: "NGN",
+    created_at: new Date(),
+    updated_at: new Date(),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockReq = {
+      params: { userId: "user-123" },
+      query: {},
+      body: {},
+      user: { id: "user-123" },
+    };
+
+    mockRes = {
+      status: vi.fn().mockReturnThis(),
+      json: vi.fn(),
+    };
+
+    mockNext = vi.fn();
+  });
+
+  describe("create", () => {
+    it("should place a hold and return both balances", async () => {
+      mockReq.body = { amount: "200", expiresInSeconds: 3600 };
+      vi.mocked(HoldService.create).mockResolvedValue({ hold, wallet });
+
+      await HoldController.create(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(HoldService.create).toHaveBeenCalledWith("user-123", "200", {
+        expiresInSeconds: 3600,
+        metadata: undefined,
+        wallet: { walletId: undefined, currency: undefined },
+      });
+      expect(mockRes.status).toHaveBeenCalledWith(201);
+      expect(mockRes.json).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            hold: expect.objectContaining({ id: "hold-123", amount: "200.000000" }),
+            balance: "1000.000000",
+            available_balance: "800.000000",
+            held_balance: "200.000000",
+          }),
+        })
+      );
+    });
+
+    it("should reject holds on another user's wallet", async () => {
+      mockReq.user = { id: "user-456" };
+
+      await HoldController.create(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockRes.status).toHaveBeenCalledWith(403);
+      expect(HoldService.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("list", () => {
+    it("should pass the status filter", async () => {
+      mockReq.query = { status: "active" };
+      vi.mocked(HoldService.listHolds).mockResolvedValue([hold]);
+
+      await HoldController.list(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(HoldService.listHolds).toHaveBeenCalledWith("user-123", "active");
+      expect(mockRes.status).toHaveBeenCalledWith(200);
+    });
+  });
+
+  describe("capture", () => {
+    it("should capture a partial amount", async () => {
+      mockReq.params = { userId: "user-123", holdId: "hold-123" };
+      mockReq.body = { amount: "150" };
+      vi.mocked(HoldService.capture).mockResolvedValue({
+        hold: { ...hold, status: "captured", captured_decimal: "150.000000" },
+        wallet: { ...wallet, balance_decimal: "850.000000", held_decimal: "0.000000" },
+        transaction: {
+          id: "txn-1",
+          wallet_id: "wallet-123",
+          type: "debit",
+          amount_decimal: "150.000000",
+          balance_after: "850.000000",
+          reference: "HOLD-user-123-1-ABC-CAPTURE",
+          status: "completed",
+          metadata: null,
+          created_at: new Date(),
+        },
+        fee: {
+          operation: "withdraw",
+          channel: "api",
+          tier: "tier_1",
+          rule: null,
+          amount: Money.parse("150", "NGN"),
+          flat: Money.zero("NGN"),
+          percentage: Money.zero("NGN"),
+          band: null,
+          adjustment: null,
+          fee: Money.zero("NGN"),
+          total: Money.parse("150", "NGN"),
+        },
+        feeTransaction: null,
+      });
+
+      await HoldController.capture(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(HoldService.capture).toHaveBeenCalledWith("user-123", "hold-123", "150");
+      expect(mockRes.json).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            available_balance: "850.000000",
+            transaction: expect.objectContaining({ amount: "150.000000" }),
+            fee: expect.objectContaining({ amount: "0.000000", transaction_id: null }),
+          }),
+        })
+      );
+    });
+  });
+
+  describe("release", () => {
+    it("should pass service errors to next", async () => {
+      mockReq.params = { userId: "user-123", holdId: "hold-123" };
+      const error = new Error("Hold already captured");
+      vi.mocked(HoldService.release).mockRejectedValue(error);
+
+      await HoldController.release(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith(error);
+    });
+  });
+});
@@ -0,0 +1,424 @@
+/**
+ * Hold Service Tests
+ *
+ * Unit tests for placing, capturing, releasing and expiring wallet holds.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { HoldService } from "../../src/services/hold.service";
+import { WalletService } from "../../src/services/wallet.service";
+import { LedgerService } from "../../src/services/ledger.service";
+import { FeeService, FeeBreakdown } from "../../src/services/fee.service";
+import { LimitService } from "../../src/services/limit.service";
+import { knex, withTransaction } from "../../src/db";
+import { config } from "../../src/config/env";
+import { AppError, LimitExceededError } from "../../src/middlewares/error";
+import { Money } from "../../src/utils/money";
+import { mockTables } from "../helpers/query-mock";
+
+// Mock the database
+vi.mock("../../src/db", () => {
+  const knexMock = vi.fn() as any;
+  knexMock.fn = { now: () => new Date() };
+  return {
+    knex: knexMock,
+    newId: vi.fn(() => "hold-123"),
+    withTransaction: vi.fn(),
+  };
+});
+
+vi.mock("../../src/services/ledger.service", () => ({
+  LedgerService: {
+    postJournal: vi.fn().mockResolvedValue("journal-123"),
+    assertWalletBalance: vi.fn().mockResolvedValue(undefined),
+  },
+}));
+
+vi.mock("../../src/services/fee.service", async (importOriginal) => {
+  const { FeeService: actual } = await importOriginal<typeof import("../../src/services/fee.service")>();
+  return {
+    FeeService: {
+      quote: vi.fn(),
+      collect: vi.fn(),
+      lockWithRevenueWallet: actual.lockWithRevenueWallet,
+    },
+  };
+});
+
+vi.mock("../../src/services/limit.service", () => ({
+  LimitService: {
+    assertCanSend: vi.fn(),
+  },
+}));
+
+/**
+ * Fee breakdown charging `fee` on top of `amount`
+ */
+const feeOf = (amount: Money, fee: string): FeeBreakdown => {
+  const feeMoney = fee === "0" ? Money.zero(amount.currency) : Money.parse(fee, amount.currency);
+  return {
+    operation: "withdraw",
+    channel: "api",
+    tier: "tier_1",
+    rule: null,
+    amount,
+    flat: feeMoney,
+    percentage: Money.zero(amount.currency),
+    band: null,
+    adjustment: null,
+    fee: feeMoney,
+    total: amount.add(feeMoney),
+  };
+};
+
+/**
+ * Route the transaction to per-table query mocks
+ */
+const mockDb = () => {
+  const { tables, db } = mockTables("wallets", "wallet_holds", "transactions", "wallet_holds as h");
+  // lockHold locates the hold through its owner's wallet first
+  tables["wallet_holds as h"].first.mockResolvedValue({ wallet_id: "wallet-123", currency: "NGN" });
+  vi.mocked(withTransaction).mockImplementation((callback: any) => callback(db));
+  return tables;
+};
+
+describe("HoldService", () => {
+  const wallet = {
+    id: "wallet-123",
+    user_id: "user-123",
+    balance_decimal: "1000.000000",
+    held_decimal: "300.000000",
+    currency: "NGN",
+    created_at: new Date(),
+    updated_at: new Date(),
+  };
+
+  const activeHold = {
+    id: "hold-123",
+    wallet_id: "wallet-123",
+    amount_decimal: "200.000000",
+    captured_decimal: null,
+    status: "active" as const,
+    reference: "HOLD-user-123-1-ABC",
+    capture_transaction_id: null,
+    expires_at: new Date(Date.now() + 60_000),
+    metadata: null,
+    created_at: new Date(),
+    updated_at: new Date(),
+  };
+
+  const originalFees = { ...config.fees };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(WalletService, "getWalletByUserId").mockResolvedValue(wallet);
+    vi.spyOn(WalletService, "lockWalletById").mockResolvedValue(wallet);
+    vi.mocked(FeeService.quote).mockImplementation(async (_db, _context, amount) => feeOf(amount, "0"));
+  });
+
+  afterEach(() => {
+    Object.assign(config.fees, originalFees);
+  });
+
+  describe("create", () => {
+    it("should reserve funds from the available balance", async () => {
+      const tables = mockDb();
+      tables.wallet_holds.first.mockResolvedValueOnce(activeHold);
+      tables.wallets.first.mockResolvedValueOnce({ ...wallet, held_decimal: "500.000000" });
+
+      const result = await HoldService.create("user-123", "200", { expiresInSeconds: 600 });
+
+      expect(tables.wallet_holds.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          wallet_id: "wallet-123",
+          amount_decimal: "200.000000",
+          status: "active",
+          reference: expect.stringMatching(/^HOLD-user-123-/),
+        })
+      );
+      expect(tables.wallets.update).toHaveBeenCalledWith(
+        expect.objectContaining({ held_decimal: "500.000000" })
+      );
+      expect(result.wallet.held_decimal).toBe("500.000000");
+      // No money moves when a hold is placed
+      expect(tables.transactions.insert).not.toHaveBeenCalled();
+      expect(LedgerService.postJournal).not.toHaveBeenCalled();
+    });
+
+    it("should place the hold on the selected currency wallet", async () => {
+      const usdWallet = { ...wallet, id: "wallet-usd", currency: "USD", held_decimal: "0.000000" };
+      vi.mocked(WalletService.getWalletByUserId).mockResolvedValueOnce(usdWallet);
+      const tables = mockDb();
+      tables.wallet_holds.first.mockResolvedValueOnce({ ...activeHold, wallet_id: "wallet-usd" });
+      tables.wallets.first.mockResolvedValueOnce(usdWallet);
+
+      await HoldService.create("user-123", "20", { wallet: { currency: "USD" } });
+
+      expect(WalletService.getWalletByUserId).toHaveBeenCalledWith(
+        "user-123",
+        expect.anything(),
+        true,
+        { currency: "USD" }
+      );
+      expect(tables.wallet_holds.insert).toHaveBeenCalledWith(
+        expect.objectContaining({ wallet_id: "wallet-usd", amount_decimal: "20.000000" })
+      );
+    });
+
+    it("should reject holds larger than the available balance", async () => {
+      const tables = mockDb();
+
+      const error = await HoldService.create("user-123", "800").catch((e) => e);
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.statusCode).toBe(422);
+      expect(error.message).toContain("Available: 700.000000");
+      expect(tables.wallet_holds.insert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("capture", () => {
+    it("should debit the full hold by default", async () => {
+      const tables = mockDb();
+      tables.wallet_holds.first
+        .mockResolvedValueOnce(activeHold)
+        .mockResolvedValueOnce({ ...activeHold, status: "captured" });
+      tables.wallets.first.mockResolvedValueOnce({ ...wallet, balance_decimal: "800.000000" });
+      tables.transactions.first.mockResolvedValueOnce({ id: "hold-123", type: "debit" });
+
+      await HoldService.capture("user-123", "hold-123");
+
+      expect(tables.transactions.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: "debit",
+          amount_decimal: "200.000000",
+          balance_after: "800.000000",
+          reference: "HOLD-user-123-1-ABC-CAPTURE",
+        })
+      );
+      expect(tables.wallets.update).toHaveBeenCalledWith(
+        expect.objectContaining({ balance_decimal: "800.000000", held_decimal: "100.000000" })
+      );
+      expect(LedgerService.assertWalletBalance).toHaveBeenCalled();
+    });
+
+    it("should release the remainder of a partial capture", async () => {
+      const tables = mockDb();
+      tables.wallet_holds.first
+        .mockResolvedValueOnce(activeHold)
+        .mockResolvedValueOnce({ ...activeHold, status: "captured" });
+      tables.wallets.first.mockResolvedValueOnce(wallet);
+      tables.transactions.first.mockResolvedValueOnce({ id: "hold-123" });
+
+      await HoldService.capture("user-123", "hold-123", "150");
+
+      expect(tables.wallets.update).toHaveBeenCalledWith(
+        expect.objectContaining({ balance_decimal: "850.000000", held_decimal: "100.000000" })
+      );
+      expect(tables.wallet_holds.update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: "captured", captured_decimal: "150.000000" })
+      );
+    });
+
+    it("should enforce the tier limits on the captured amount", async () => {
+      const tables = mockDb();
+      tables.wallet_holds.first.mockResolvedValueOnce(activeHold);
+      vi.mocked(LimitService.assertCanSend).mockRejectedValueOnce(
+        new LimitExceededError(403, "Amount exceeds the tier_1 daily limit", {
+          limit: "daily",
+          tier: "tier_1",
+          currency: "NGN",
+          max: "100.000000",
+          used: "0.000000",
+          requested: "150.000000",
+        })
+      );
+
+      const error = await HoldService.capture("user-123", "hold-123", "150").catch((e) => e);
+
+      expect(error).toBeInstanceOf(LimitExceededError);
+      expect(error.statusCode).toBe(403);
+      const [, limitedWallet, amount] = vi.mocked(LimitService.assertCanSend).mock.calls[0]!;
+      expect(limitedWallet.id).toBe("wallet-123");
+      expect(amount.toStorageString()).toBe("150.000000");
+      expect(tables.transactions.insert).not.toHaveBeenCalled();
+    });
+
+    it("should charge the withdrawal fee into the revenue wallet", async () => {
+      config.fees.revenueUserId = "revenue-user";
+      const revenueWallet = { ...wallet, id: "wallet-revenue", user_id: "revenue-user", held_decimal: "0.000000" };
+      vi.mocked(FeeService.quote).mockImplementationOnce(async (_db, _context, amount) => feeOf(amount, "25"));
+      vi.mocked(FeeService.collect).mockResolvedValueOnce({ id: "fee-txn" } as any);
+      const tables = mockDb();
+      tables.wallet_holds.first
+        .mockResolvedValueOnce(activeHold)
+        .mockResolvedValueOnce({ ...activeHold, status: "captured" });
+      tables.wallets.first
+        .mockResolvedValueOnce(revenueWallet) // locked before user-123
+        .mockResolvedValueOnce({ ...wallet, balance_decimal: "775.000000" });
+      tables.transactions.first.mockResolvedValueOnce({ id: "hold-123", type: "debit" });
+
+      const result = await HoldService.capture("user-123", "hold-123");
+
+      expect(FeeService.quote).toHaveBeenCalledWith(
+        expect.anything(),
+        { operation: "withdraw", userId: "user-123", currency: "NGN" },
+        expect.anything()
+      );
+      expect(tables.transactions.insert).toHaveBeenCalledWith(
+        expect.objectContaining({ type: "debit", amount_decimal: "200.000000", balance_after: "800.000000" })
+      );
+      const [, payer, collectedInto, fee, balanceAfter, reference] = vi.mocked(FeeService.collect).mock.calls[0]!;
+      expect(payer.id).toBe("wallet-123");
+      expect(collectedInto?.id).toBe("wallet-revenue");
+      expect(fee.fee.toStorageString()).toBe("25.000000");
+      expect(balanceAfter.toStorageString()).toBe("775.000000");
+      expect(reference).toBe("HOLD-user-123-1-ABC-CAPTURE");
+      expect(tables.wallets.update).toHaveBeenCalledWith(
+        expect.objectContaining({ balance_decimal: "775.000000", held_decimal: "100.000000" })
+      );
+      expect(result.feeTransaction?.id).toBe("fee-txn");
+    });
+
+    it("should reject a capture whose fee the available balance cannot cover", async () => {
+      vi.mocked(FeeService.quote).mockImplementationOnce(async (_db, _context, amount) => feeOf(amount, "1"));
+      const tables = mockDb();
+      tables.wallet_holds.first.mockResolvedValueOnce(activeHold);
+      // Everything above the hold is reserved by other holds
+      vi.mocked(WalletService.lockWalletById).mockResolvedValueOnce({ ...wallet, held_decimal: "1000.000000" });
+
+      const error = await HoldService.capture("user-123", "hold-123").catch((e) => e);
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.statusCode).toBe(422);
+      expect(error.message).toContain("capture fee");
+      expect(tables.transactions.insert).not.toHaveBeenCalled();
+      expect(FeeService.collect).not.toHaveBeenCalled();
+    });
+
+    it("should reject capturing more than the hold", async () => {
+      const tables = mockDb();
+      tables.wallet_holds.first.mockResolvedValueOnce(activeHold);
+
+      const error = await HoldService.capture("user-123", "hold-123", "250").catch((e) => e);
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.statusCode).toBe(422);
+    });
+
+    it("should reject a capture the wallet balance no longer covers", async () => {
+      const tables = mockDb();
+      tables.wallet_holds.first.mockResolvedValueOnce(activeHold);
+      // An overridden reversal left the balance below the held funds
+      vi.mocked(WalletService.lockWalletById).mockResolvedValueOnce({ ...wallet, balance_decimal: "150.000000" });
+
+      const error = await HoldService.capture("user-123", "hold-123").catch((e) => e);
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.statusCode).toBe(422);
+      expect(tables.transactions.insert).not.toHaveBeenCalled();
+    });
+
+    it("should reject an expired hold", async () => {
+      const tables = mockDb();
+      tables.wallet_holds.first.mockResolvedValueOnce({
+        ...activeHold,
+        expires_at: new Date(Date.now() - 1000),
+      });
+
+      const error = await HoldService.capture("user-123", "hold-123").catch((e) => e);
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.statusCode).toBe(409);
+      expect(tables.transactions.insert).not.toHaveBeenCalled();
+    });
+
+    it("should reject a hold that is no longer active", async () => {
+      const tables = mockDb();
+      tables.wallet_holds.first.mockResolvedValueOnce({ ...activeHold, status: "released" });
+
+      await expect(HoldService.capture("user-123", "hold-123")).rejects.toThrow(
+        "is already released"
+      );
+    });
+
+    it("should return 404 for a hold on another wallet", async () => {
+      const tables = mockDb();
+      tables["wallet_holds as h"].first.mockResolvedValueOnce(undefined);
+
+      const error = await HoldService.capture("user-123", "hold-999").catch((e) => e);
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.statusCode).toBe(404);
+    });
+  });
+
+  describe("release", () => {
+    it("should return the held amount to the available balance", async () => {
+      const tables = mockDb();
+      tables.wallet_holds.first
+        .mockResolvedValueOnce(activeHold)
+        .mockResolvedValueOnce({ ...activeHold, status: "released" });
+      tables.wallets.first.mockResolvedValueOnce({ ...wallet, held_decimal: "100.000000" });
+
+      const result = await HoldService.release("user-123", "hold-123");
+
+      expect(tables.wallets.update).toHaveBeenCalledWith(
+        expect.objectContaining({ held_decimal: "100.000000" })
+      );
+      expect(tables.wallet_holds.update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: "released" })
+      );
+      expect(result.hold.status).toBe("released");
+      expect(tables.transactions.insert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("expireDue", () => {
+    it("should expire holds that are still active", async () => {
+      vi.mocked(knex).mockReturnValueOnce({
+        select: vi.fn().mockReturnThis(),
+        where: vi.fn().mockReturnThis(),
+        orderBy: vi.fn().mockReturnThis(),
+        limit: vi.fn().mockResolvedValue([{ id: "hold-1" }, { id: "hold-2" }]),
+      } as any);
+      const tables = mockDb();
+      tables.wallet_holds.first
+        .mockResolvedValueOnce({ wallet_id: "wallet-123" })
+        .mockResolvedValueOnce(activeHold)
+        .mockResolvedValueOnce({ wallet_id: "wallet-123" })
+        .mockResolvedValueOnce({ ...activeHold, status: "captured" }); // captured meanwhile
+
+      const expired = await HoldService.expireDue();
+
+      expect(expired).toBe(1);
+      expect(tables.wallet_holds.update).toHaveBeenCalledTimes(1);
+      expect(tables.wallet_holds.update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: "expired" })
+      );
+      expect(tables.wallets.update).toHaveBeenCalledWith(
+        expect.objectContaining({ held_decimal: "100.000000" })
+      );
+    });
+
+    it("should lock the wallet before the hold", async () => {
+      vi.mocked(knex).mockReturnValueOnce({
+        select: vi.fn().mockReturnThis(),
+        where: vi.fn().mockReturnThis(),
+        orderBy: vi.fn().mockReturnThis(),
+        limit: vi.fn().mockResolvedValue([{ id: "hold-123" }]),
+      } as any);
+      const tables = mockDb();
+      tables.wallet_holds.first
+        .mockResolvedValueOnce({ wallet_id: "wallet-123" })
+        .mockResolvedValueOnce(activeHold);
+
+      await HoldService.expireDue();
+
+      expect(WalletService.lockWalletById).toHaveBeenCalledWith(expect.anything(), "wallet-123");
+      const [walletLock] = vi.mocked(WalletService.lockWalletById).mock.invocationCallOrder;
+      const [holdLock] = tables.wallet_holds.forUpdate.mock.invocationCallOrder;
+      expect(walletLock).toBeLessThan(holdLock!);
+    });
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Idempotency Service Tests
+ * 
+ * Unit tests for Idempotency-Key storage, replay and mismatch detection.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { IdempotencyService } from "../../src/services/idempotency.service";
+import { knex } from "../../src/db";
+import { mockQuery } from "../helpers/query-mock";
+import { AppError } from "../../src/middlewares/error";
+
+// Mock the database
+vi.mock("../../src/db", () => {
+  const knexMock = vi.fn() as any;
+  knexMock.fn = { now: () => new Date() };
+  return {
+    knex: knexMock,
+    newId: vi.fn(() => "record-123"),
+  };
+});
+
+describe("IdempotencyService", () => {
+  const fingerprint = IdempotencyService.fingerprint("POST", "/api/v1/wallets/u/fund", {
+    amount: 500,
+    metadata: { a: 1, b: 2 },
+  });
+
+  // Query mock that resolves lookups to `existing` and records writes
+  const mockDb = (existing: any) => {
+    const query = mockQuery();
+    query.first.mockResolvedValue(existing);
+    query.delete.mockResolvedValue(1);
+    vi.mocked(knex).mockReturnValue(query as any);
+    return query;
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("fingerprint", () => {
+    it("should ignore object key order", () => {
+      const reordered = IdempotencyService.fingerprint("post", "/api/v1/wallets/u/fund", {
+        metadata: { b: 2, a: 1 },
+        amount: 500,
+      });
+
+      expect(reordered).toBe(fingerprint);
+    });
+
+    it("should differ when the body differs", () => {
+      const other = IdempotencyService.fingerprint("POST", "/api/v1/wallets/u/fund", {
+        amount: 501,
+      });
+
+      expect(other).not.toBe(fingerprint);
+    });
+  });
+
+  describe("begin", () => {
+    it("should claim an unseen key", async () => {
+      const query = mockDb(undefined);
+
+      const result = await IdempotencyService.begin("user-123", "key-1", fingerprint);
+
+      expect(result).toEqual({ status: "new", recordId: "record-123" });
+      expect(query.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          user_id: "user-123",
+          idempotency_key: "key-1",
+          request_fingerprint: fingerprint,
+        })
+      );
+    });
+
+    it("should return the stored response for a matching replay", async () => {
+      mockDb({
+        id: "record-1",
+        request_fingerprint: fingerprint,
+        response_status: 200,
+        response_body: JSON.stringify({ success: true }),
+        expires_at: new Date(Date.now() + 60_000),
+      });
+
+      const result = await IdempotencyService.begin("user-123", "key-1", fingerprint);
+
+      expect(result).toEqual({
+        status: "replay",
+        responseStatus: 200,
+        responseBody: { success: true },
+      });
+    });
+
+    it("should reject a replay with a different body with 422", async () => {
+      mockDb({
+        id: "record-1",
+        request_fingerprint: "different",
+        response_status: 200,
+        response_body: {},
+        expires_at: new Date(Date.now() + 60_000),
+      });
+
+      const promise = IdempotencyService.begin("user-123", "key-1", fingerprint);
+
+      await expect(promise).rejects.toBeInstanceOf(AppError);
+      await expect(promise).rejects.toMatchObject({ statusCode: 422 });
+    });
+
+    it("should return 409 while the original request is in progress", async () => {
+      mockDb({
+        id: "record-1",
+        request_fingerprint: fingerprint,
+        response_status: null,
+        response_body: null,
+        expires_at: new Date(Date.now() + 60_000),
+      });
+
+      await expect(
+        IdempotencyService.begin("user-123", "key-1", fingerprint)
+      ).rejects.toMatchObject({ statusCode: 409 });
+    });
+
+    it("should allow an expired key to be reused", async () => {
+      const query = mockDb({
+        id: "record-old",
+        request_fingerprint: "different",
+        response_status: 200,
+        response_body: {},
+        expires_at: new Date(Date.now() - 60_000),
+      });
+
+      const result = await IdempotencyService.begin("user-123", "key-1", fingerprint);
+
+      expect(query.delete).toHaveBeenCalled();
+      expect(result.status).toBe("new");
+    });
+  });
+
+  describe("complete", () => {
+    it("should store the response status and body", async () => {
+      const query = mockDb(undefined);
+
+      await IdempotencyService.complete("record-1", 200, { success: true });
+
+      expect(query.update).toHaveBeenCalledWith({
+        response_status: 200,
+        response_body: JSON.stringify({ success: true }),
+      });
+    });
+  });
+});
@@ -0,0 +1,330 @@
+/**
+ * Interest Service Tests
+ *
+ * Unit tests for daily interest accrual and monthly capitalization.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { InterestService } from "../../src/services/interest.service";
+import { WalletService } from "../../src/services/wallet.service";
+import { LedgerService } from "../../src/services/ledger.service";
+import { knex, withTransaction } from "../../src/db";
+import { config } from "../../src/config/env";
+import { Money } from "../../src/utils/money";
+import { mockTables } from "../helpers/query-mock";
+
+// Mock the database
+vi.mock("../../src/db", () => {
+  let counter = 0;
+  const knexMock = vi.fn() as any;
+  knexMock.fn = { now: () => new Date() };
+  knexMock.raw = vi.fn((sql: string) => sql);
+  return {
+    knex: knexMock,
+    newId: vi.fn(() => `id-${++counter}`),
+    withTransaction: vi.fn(),
+  };
+});
+
+/**
+ * Route knex and transactions to per-table query mocks: each awaited query
+ * or first() on a table takes the next queued result for that table;
+ * inserts and updates are recorded
+ */
+const mockDb = (results: Record<string, any[]>) => {
+  const inserts: Record<string, any[]> = {};
+  const updates: Array<{ table: string; values: any }> = [];
+  const { tables, db } = mockTables(
+    "wallets",
+    "wallets as w",
+    "savings_pots",
+    "transactions",
+    "interest_accruals",
+    "interest_accruals as a",
+    "interest_capitalizations"
+  );
+
+  for (const [table, query] of Object.entries(tables)) {
+    query.results.push(...(results[table] ?? []));
+    query.first.mockImplementation(async () => query.results.shift());
+    const insert = query.insert.getMockImplementation()!;
+    query.insert.mockImplementation((row: any) => {
+      (inserts[table] ??= []).push(row);
+      return insert(row);
+    });
+    query.update.mockImplementation(async (values: any) => {
+      updates.push({ table, values });
+      return 1;
+    });
+  }
+
+  vi.mocked(knex).mockImplementation(db);
+  vi.mocked(withTransaction).mockImplementation((callback: any) => callback(db));
+
+  return { inserts, updates };
+};
+
+const potWallet = {
+  id: "wallet-pot",
+  user_id: "user-123",
+  parent_wallet_id: "wallet-main",
+  balance_decimal: "20000.000000",
+  held_decimal: "0.000000",
+  currency: "NGN",
+  created_at: new Date("2024-01-01T08:00:00.000Z"),
+  updated_at: new Date("2024-01-01T08:00:00.000Z"),
+};
+
+const mainWallet = { ...potWallet, id: "wallet-main", parent_wallet_id: null, balance_decimal: "5000.000000" };
+
+const ngn = (value: string) => Money.fromStorage(value, "NGN");
+
+describe("InterestService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    config.interest.annualRateBps = 500;
+    config.interest.eligibleWallets = "pots";
+    vi.spyOn(WalletService, "lockWalletById").mockImplementation(async (_trx, id: string) =>
+      id === "wallet-main" ? mainWallet : potWallet
+    );
+    vi.spyOn(LedgerService, "postJournal").mockResolvedValue("journal-1");
+    vi.spyOn(LedgerService, "assertWalletBalance").mockResolvedValue();
+  });
+
+  afterEach(() => {
+    config.interest.annualRateBps = 0;
+    vi.restoreAllMocks();
+  });
+
+  describe("accrueDue", () => {
+    it("should do nothing while the rate is zero", async () => {
+      config.interest.annualRateBps = 0;
+      const { inserts } = mockDb({});
+
+      const accrued = await InterestService.accrueDue(new Date("2024-03-05T10:00:00.000Z"));
+
+      expect(accrued).toBe(0);
+      expect(knex).not.toHaveBeenCalled();
+      expect(inserts).toEqual({});
+    });
+
+    it("should catch up every missed day from the end-of-day balance", async () => {
+      const { inserts } = mockDb({
+        interest_accruals: [
+          { first_date: "2024-01-02" },
+          [{ wallet_id: "wallet-pot", last_date: "2024-03-02" }],
+        ],
+        "wallets as w": [[{ id: "wallet-pot", currency: "NGN", created_at: potWallet.created_at, closed_at: null }]],
+      });
+      vi.spyOn(LedgerService, "walletBalanceAt")
+        .mockResolvedValueOnce(ngn("100000.000000"))
+        .mockResolvedValueOnce(ngn("0.000000"));
+
+      const accrued = await InterestService.accrueDue(new Date("2024-03-05T10:00:00.000Z"));
+
+      expect(accrued).toBe(2);
+      expect(LedgerService.walletBalanceAt).toHaveBeenNthCalledWith(
+        1,
+        "wallet-pot",
+        "NGN",
+        new Date("2024-03-04T00:00:00.000Z")
+      );
+      expect(LedgerService.walletBalanceAt).toHaveBeenNthCalledWith(
+        2,
+        "wallet-pot",
+        "NGN",
+        new Date("2024-03-05T00:00:00.000Z")
+      );
+      expect(inserts["interest_accruals"]).toEqual([
+        expect.objectContaining({
+          wallet_id: "wallet-pot",
+          accrual_date: "2024-03-03",
+          balance_decimal: "100000.000000",
+          rate_bps: 500,
+          // 100000 * 5% / 365 = 13.698630136... truncated
+          amount_decimal: "13.698630",
+        }),
+        expect.objectContaining({
+          accrual_date: "2024-03-04",
+          balance_decimal: "0.000000",
+          amount_decimal: "0.000000",
+        }),
+      ]);
+    });
+
+    it("should start a wallet's first accrual no earlier than the job's first day", async () => {
+      const { inserts } = mockDb({
+        interest_accruals: [{ first_date: null }, []],
+        "wallets as w": [[{ id: "wallet-pot", currency: "NGN", created_at: potWallet.created_at, closed_at: null }]],
+      });
+      vi.spyOn(LedgerService, "walletBalanceAt").mockResolvedValue(ngn("36500.000000"));
+
+      const accrued = await InterestService.accrueDue(new Date("2024-03-05T10:00:00.000Z"));
+
+      expect(accrued).toBe(1);
+      expect(inserts["interest_accruals"]).toEqual([
+        expect.objectContaining({ accrual_date: "2024-03-04", amount_decimal: "5.000000" }),
+      ]);
+    });
+
+    it("should accrue a closed pot only up to its closing day", async () => {
+      const { inserts } = mockDb({
+        interest_accruals: [
+          { first_date: "2024-01-02" },
+          [{ wallet_id: "wallet-pot", last_date: "2024-03-01" }],
+        ],
+        "wallets as w": [
+          [
+            {
+              id: "wallet-pot",
+              currency: "NGN",
+              created_at: potWallet.created_at,
+              closed_at: new Date("2024-03-03T12:00:00.000Z"),
+            },
+          ],
+        ],
+      });
+      vi.spyOn(LedgerService, "walletBalanceAt").mockResolvedValue(ngn("0.000000"));
+
+      await InterestService.accrueDue(new Date("2024-03-05T10:00:00.000Z"));
+
+      expect(inserts["interest_accruals"]!.map((row) => row.accrual_date)).toEqual(["2024-03-02", "2024-03-03"]);
+    });
+
+    it("should keep going when one wallet fails", async () => {
+      const { inserts } = mockDb({
+        interest_accruals: [{ first_date: "2024-03-04" }, []],
+        "wallets as w": [
+          [
+            { id: "wallet-a", currency: "NGN", created_at: potWallet.created_at, closed_at: null },
+            { id: "wallet-b", currency: "NGN", created_at: potWallet.created_at, closed_at: null },
+          ],
+        ],
+      });
+      vi.spyOn(LedgerService, "walletBalanceAt")
+        .mockRejectedValueOnce(new Error("boom"))
+        .mockResolvedValueOnce(ngn("1000.000000"));
+
+      const accrued = await InterestService.accrueDue(new Date("2024-03-05T10:00:00.000Z"));
+
+      expect(accrued).toBe(1);
+      expect(inserts["interest_accruals"]).toEqual([expect.objectContaining({ wallet_id: "wallet-b" })]);
+    });
+  });
+
+  describe("capitalizeDue", () => {
+    const marchRows = [
+      { id: "acc-1", amount_decimal: "1.234567", period: "2024-03" },
+      { id: "acc-2", amount_decimal: "2.000000", period: "2024-03" },
+      { id: "acc-3", amount_decimal: "0.765432", period: "2024-03" },
+    ];
+
+    it("should pay the month truncated to the currency's precision and carry the rest", async () => {
+      const { inserts, updates } = mockDb({
+        interest_accruals: [[{ wallet_id: "wallet-pot" }], marchRows, { last_date: "2024-04-01" }],
+        savings_pots: [{ parent_wallet_id: "wallet-main", status: "active", closed_at: null }],
+        interest_capitalizations: [{ carried_out_decimal: "0.004000" }],
+      });
+
+      const capitalized = await InterestService.capitalizeDue(new Date("2024-04-02T10:00:00.000Z"));
+
+      expect(capitalized).toBe(1);
+      // 3.999999 accrued + 0.004000 carried in = 4.003999 -> pay 4.00, carry 0.003999
+      expect(inserts["transactions"]).toEqual([
+        expect.objectContaining({
+          wallet_id: "wallet-pot",
+          type: "credit",
+          amount_decimal: "4.000000",
+          balance_after: "20004.000000",
+          reference: "INTEREST-wallet-pot-2024-03",
+        }),
+      ]);
+      expect(LedgerService.postJournal).toHaveBeenCalledWith(expect.anything(), {
+        reference: "INTEREST-wallet-pot-2024-03",
+        description: "Interest capitalization",
+        legs: [
+          { account: { system: "INTEREST_EXPENSE", currency: "NGN" }, direction: "debit", amount: ngn("4.000000") },
+          { account: { walletId: "wallet-pot", currency: "NGN" }, direction: "credit", amount: ngn("4.000000") },
+        ],
+      });
+      expect(LedgerService.assertWalletBalance).toHaveBeenCalledWith(
+        expect.anything(),
+        "wallet-pot",
+        ngn("20004.000000")
+      );
+      expect(inserts["interest_capitalizations"]).toEqual([
+        expect.objectContaining({
+          wallet_id: "wallet-pot",
+          period: "2024-03",
+          accrued_decimal: "3.999999",
+          carried_in_decimal: "0.004000",
+          paid_decimal: "4.000000",
+          carried_out_decimal: "0.003999",
+          credited_wallet_id: "wallet-pot",
+          transaction_id: inserts["transactions"]![0].id,
+        }),
+      ]);
+      expect(updates).toContainEqual({ table: "wallets", values: expect.objectContaining({ balance_decimal: "20004.000000" }) });
+      expect(updates).toContainEqual({
+        table: "interest_accruals",
+        values: { capitalization_id: inserts["interest_capitalizations"]![0].id },
+      });
+    });
+
+    it("should record a month too small to pay without a transaction", async () => {
+      const { inserts } = mockDb({
+        interest_accruals: [
+          [{ wallet_id: "wallet-pot" }],
+          [{ id: "acc-1", amount_decimal: "0.004000", period: "2024-03" }],
+          { last_date: "2024-04-01" },
+        ],
+        savings_pots: [undefined],
+        interest_capitalizations: [undefined],
+      });
+
+      await InterestService.capitalizeDue(new Date("2024-04-02T10:00:00.000Z"));
+
+      expect(inserts["transactions"]).toBeUndefined();
+      expect(inserts["interest_capitalizations"]).toEqual([
+        expect.objectContaining({ paid_decimal: "0.000000", carried_out_decimal: "0.004000", transaction_id: null }),
+      ]);
+    });
+
+    it("should wait until every day of the month is accrued", async () => {
+      const { inserts } = mockDb({
+        interest_accruals: [[{ wallet_id: "wallet-pot" }], marchRows, { last_date: "2024-03-30" }],
+        savings_pots: [{ parent_wallet_id: "wallet-main", status: "active", closed_at: null }],
+        interest_capitalizations: [undefined],
+      });
+
+      const capitalized = await InterestService.capitalizeDue(new Date("2024-04-02T10:00:00.000Z"));
+
+      expect(capitalized).toBe(0);
+      expect(inserts).toEqual({});
+    });
+
+    it("should pay a closed pot's interest into its main wallet", async () => {
+      const { inserts } = mockDb({
+        interest_accruals: [[{ wallet_id: "wallet-pot" }], marchRows, { last_date: "2024-03-10" }],
+        savings_pots: [{ parent_wallet_id: "wallet-main", status: "closed", closed_at: new Date("2024-03-10T15:00:00.000Z") }],
+        interest_capitalizations: [undefined],
+      });
+
+      const capitalized = await InterestService.capitalizeDue(new Date("2024-04-02T10:00:00.000Z"));
+
+      expect(capitalized).toBe(1);
+      expect(WalletService.lockWalletById).toHaveBeenCalledWith(expect.anything(), "wallet-main");
+      expect(inserts["transactions"]).toEqual([
+        expect.objectContaining({
+          wallet_id: "wallet-main",
+          amount_decimal: "3.990000",
+          balance_after: "5003.990000",
+          reference: "INTEREST-wallet-pot-2024-03",
+        }),
+      ]);
+      expect(inserts["interest_capitalizations"]).toEqual([
+        expect.objectContaining({ wallet_id: "wallet-pot", credited_wallet_id: "wallet-main" }),
+      ]);
+    });
+  });
+});
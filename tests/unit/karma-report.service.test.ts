@@ -0,0 +1,343 @@
+/**
+ * Karma Report Service Tests
+ *
+ * Unit tests for reporting defaulting borrowers to Adjutor Karma and
+ * removing them once their loan is repaid.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { KarmaReportService } from "../../src/services/karma-report.service";
+import { AdjutorService } from "../../src/services/adjutor.service";
+import { LoanService } from "../../src/services/loan.service";
+import { LoanRepaymentService } from "../../src/services/loan-repayment.service";
+import { UserService } from "../../src/services/user.service";
+import { knex } from "../../src/db";
+import { config } from "../../src/config/env";
+import { Money } from "../../src/utils/money";
+import { AppError } from "../../src/middlewares/error";
+import { mockTables } from "../helpers/query-mock";
+
+// Mock the database
+vi.mock("../../src/db", () => {
+  const knexMock = vi.fn() as any;
+  knexMock.fn = { now: () => new Date() };
+  knexMock.raw = vi.fn((sql: string) => sql);
+  return {
+    knex: knexMock,
+    newId: vi.fn(() => "report-1"),
+    withTransaction: vi.fn(),
+  };
+});
+
+vi.mock("../../src/services/loan.service", () => ({
+  LoanService: {
+    getApplicationById: vi.fn(),
+  },
+}));
+
+vi.mock("../../src/services/loan-repayment.service", () => ({
+  LoanRepaymentService: {
+    getSchedule: vi.fn(),
+  },
+}));
+
+vi.mock("../../src/services/user.service", () => ({
+  UserService: {
+    getUserById: vi.fn(),
+  },
+}));
+
+/**
+ * Route knex to per-table query mocks
+ */
+const mockDb = () => {
+  const { tables, db } = mockTables("loan_applications", "adjutor_reports");
+  vi.mocked(knex).mockImplementation(db);
+  return tables;
+};
+
+const ngn = (value: string) => Money.fromStorage(value, "NGN");
+
+const application = (overrides: Record<string, unknown> = {}) =>
+  ({
+    id: "loan-1",
+    user_id: "user-123",
+    wallet_id: "wallet-123",
+    currency: "NGN",
+    status: "disbursed",
+    karma_reported_at: null,
+    karma_removed_at: null,
+    ...overrides,
+  }) as any;
+
+const installment = (sequence: number, overrides: Record<string, unknown> = {}) => ({
+  id: `installment-${sequence}`,
+  application_id: "loan-1",
+  sequence,
+  due_date: ["2024-04-01", "2024-05-01", "2024-06-01"][sequence - 1],
+  principal_decimal: ["16256.850000", "16663.280000", "17079.870000"][sequence - 1],
+  interest_decimal: ["1250.000000", "843.570000", "426.990000"][sequence - 1],
+  penalty_decimal: "0.000000",
+  paid_decimal: "0.000000",
+  status: "pending",
+  penalty_accrued_to: null,
+  paid_at: null,
+  ...overrides,
+});
+
+const schedule = {
+  installments: [
+    installment(1, { status: "overdue", penalty_decimal: "87.530000" }),
+    installment(2),
+    installment(3),
+  ],
+  principal: ngn("50000"),
+  interest: ngn("2520.56"),
+  penalty: ngn("87.53"),
+  paid: ngn("0"),
+  outstanding: ngn("52608.09"),
+} as any;
+
+const user = { id: "user-123", email: "ada@example.com", phone: "+2348012345678" } as any;
+
+const submission = (identity: string, identityType: "email" | "phone", succeeded = true) => ({
+  succeeded,
+  identity,
+  identityType,
+  rawResponse: succeeded
+    ? { status: "success", message: "Karma record added" }
+    : { status: "error", message: "Service unavailable" },
+  submittedAt: new Date(),
+});
+
+describe("KarmaReportService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    config.loans = {
+      historyDays: 90,
+      minCredits: 3,
+      minInflowPercent: 100,
+      penaltyGraceDays: 3,
+      collectionSweepSeconds: 3600,
+    };
+    vi.spyOn(AdjutorService, "logReport").mockResolvedValue("report-1");
+    vi.spyOn(AdjutorService, "reportKarma").mockImplementation(async (payload, identityType) =>
+      submission(payload.identity, identityType)
+    );
+    vi.spyOn(AdjutorService, "removeKarma").mockImplementation(async (identity, identityType) =>
+      submission(identity, identityType)
+    );
+  });
+
+  describe("buildPayloads", () => {
+    it("should report what is owed from the oldest unpaid installment, for each identity", () => {
+      const payloads = KarmaReportService.buildPayloads(
+        application(),
+        user,
+        schedule,
+        new Date("2024-04-10T08:00:00Z")
+      );
+
+      expect(payloads).toEqual([
+        [
+          {
+            identity: "ada@example.com",
+            identity_type: "EMAIL",
+            amount_in_contention: "52608.09",
+            reason: "Default on loan repayment: NGN 17594.38 overdue across 1 installment(s)",
+            default_date: "2024-04-01",
+            karma_type: "Loan Default",
+          },
+          "email",
+        ],
+        [expect.objectContaining({ identity: "+2348012345678", identity_type: "PHONE" }), "phone"],
+      ]);
+    });
+
+    it("should not report a loan still within the grace period", () => {
+      expect(() =>
+        KarmaReportService.buildPayloads(application(), user, schedule, new Date("2024-04-04T08:00:00Z"))
+      ).toThrow("no installment overdue by more than 3 days");
+    });
+  });
+
+  describe("report", () => {
+    it("should submit and log each identity, then mark the loan reported", async () => {
+      const tables = mockDb();
+      vi.mocked(LoanService.getApplicationById)
+        .mockResolvedValueOnce(application())
+        .mockResolvedValueOnce(application({ karma_reported_at: new Date() }));
+      vi.mocked(UserService.getUserById).mockResolvedValue(user);
+      vi.mocked(LoanRepaymentService.getSchedule).mockResolvedValue(schedule);
+      const now = new Date("2024-04-10T08:00:00Z");
+
+      const outcome = await KarmaReportService.report("admin-1", "loan-1", now);
+
+      expect(AdjutorService.reportKarma).toHaveBeenCalledTimes(2);
+      expect(AdjutorService.logReport).toHaveBeenCalledWith(
+        "user-123",
+        "loan-1",
+        "add",
+        expect.objectContaining({ identity: "ada@example.com" }),
+        expect.objectContaining({ succeeded: true }),
+        "admin-1"
+      );
+      expect(tables["loan_applications"].where).toHaveBeenCalledWith({ id: "loan-1", karma_reported_at: null });
+      expect(tables["loan_applications"].update).toHaveBeenCalledWith(
+        expect.objectContaining({ karma_reported_at: now })
+      );
+      expect(outcome.reports.map((report) => [report.identity, report.amount_in_contention_decimal])).toEqual([
+        ["ada@example.com", "52608.090000"],
+        ["+2348012345678", "52608.090000"],
+      ]);
+    });
+
+    it("should count the loan as reported when only one identity is accepted", async () => {
+      const tables = mockDb();
+      vi.mocked(LoanService.getApplicationById).mockResolvedValue(application());
+      vi.mocked(UserService.getUserById).mockResolvedValue(user);
+      vi.mocked(LoanRepaymentService.getSchedule).mockResolvedValue(schedule);
+      vi.mocked(AdjutorService.reportKarma).mockResolvedValueOnce(submission("ada@example.com", "email", false));
+
+      const outcome = await KarmaReportService.report("admin-1", "loan-1", new Date("2024-04-10T08:00:00Z"));
+
+      expect(outcome.reports.map((report) => report.succeeded)).toEqual([false, true]);
+      expect(tables["loan_applications"].update).toHaveBeenCalled();
+    });
+
+    it("should fail without marking the loan when Adjutor accepts nothing", async () => {
+      const tables = mockDb();
+      vi.mocked(LoanService.getApplicationById).mockResolvedValue(application());
+      vi.mocked(UserService.getUserById).mockResolvedValue(user);
+      vi.mocked(LoanRepaymentService.getSchedule).mockResolvedValue(schedule);
+      vi.mocked(AdjutorService.reportKarma).mockImplementation(async (payload, identityType) =>
+        submission(payload.identity, identityType, false)
+      );
+
+      await expect(
+        KarmaReportService.report("admin-1", "loan-1", new Date("2024-04-10T08:00:00Z"))
+      ).rejects.toMatchObject({ statusCode: 502 });
+      expect(AdjutorService.logReport).toHaveBeenCalledTimes(2);
+      expect(tables["loan_applications"].update).not.toHaveBeenCalled();
+    });
+
+    it("should only report a disbursed loan", async () => {
+      mockDb();
+      vi.mocked(LoanService.getApplicationById).mockResolvedValue(application({ status: "repaid" }));
+
+      await expect(KarmaReportService.report("admin-1", "loan-1")).rejects.toThrow(AppError);
+      expect(AdjutorService.reportKarma).not.toHaveBeenCalled();
+    });
+
+    it("should not report a loan twice", async () => {
+      mockDb();
+      vi.mocked(LoanService.getApplicationById).mockResolvedValue(application({ karma_reported_at: new Date() }));
+
+      await expect(KarmaReportService.report("admin-1", "loan-1")).rejects.toMatchObject({ statusCode: 409 });
+      expect(AdjutorService.reportKarma).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("remove", () => {
+    const reported = { status: "repaid", karma_reported_at: new Date("2024-04-10T08:00:00Z") };
+
+    it("should remove each accepted identity not removed yet, then mark the loan", async () => {
+      const tables = mockDb();
+      tables["adjutor_reports"].results.push([
+        { action: "add", identity_type: "email", identity: "ada@example.com" },
+        { action: "add", identity_type: "phone", identity: "+2348012345678" },
+        { action: "remove", identity_type: "phone", identity: "+2348012345678" },
+      ]);
+      vi.mocked(LoanService.getApplicationById).mockResolvedValue(application(reported));
+
+      const outcome = await KarmaReportService.remove(null, "loan-1", new Date("2024-07-01T08:00:00Z"));
+
+      expect(tables["adjutor_reports"].where).toHaveBeenCalledWith({ application_id: "loan-1", succeeded: true });
+      expect(AdjutorService.removeKarma).toHaveBeenCalledTimes(1);
+      expect(AdjutorService.removeKarma).toHaveBeenCalledWith("ada@example.com", "email");
+      expect(AdjutorService.logReport).toHaveBeenCalledWith(
+        "user-123",
+        "loan-1",
+        "remove",
+        { identity: "ada@example.com" },
+        expect.objectContaining({ succeeded: true }),
+        null
+      );
+      expect(tables["loan_applications"].update).toHaveBeenCalledWith(
+        expect.objectContaining({ karma_removed_at: new Date("2024-07-01T08:00:00Z") })
+      );
+      expect(outcome.reports).toHaveLength(1);
+    });
+
+    it("should leave the loan reported when a removal fails", async () => {
+      const tables = mockDb();
+      tables["adjutor_reports"].results.push([
+        { action: "add", identity_type: "email", identity: "ada@example.com" },
+      ]);
+      vi.mocked(LoanService.getApplicationById).mockResolvedValue(application(reported));
+      vi.mocked(AdjutorService.removeKarma).mockResolvedValueOnce(submission("ada@example.com", "email", false));
+
+      await expect(KarmaReportService.remove("admin-1", "loan-1")).rejects.toMatchObject({ statusCode: 502 });
+      expect(tables["loan_applications"].update).not.toHaveBeenCalled();
+    });
+
+    it("should wait until the loan is repaid", async () => {
+      mockDb();
+      vi.mocked(LoanService.getApplicationById).mockResolvedValue(
+        application({ karma_reported_at: new Date() })
+      );
+
+      await expect(KarmaReportService.remove("admin-1", "loan-1")).rejects.toMatchObject({ statusCode: 409 });
+      expect(AdjutorService.removeKarma).not.toHaveBeenCalled();
+    });
+
+    it("should refuse a loan that was never reported", async () => {
+      mockDb();
+      vi.mocked(LoanService.getApplicationById).mockResolvedValue(application({ status: "repaid" }));
+
+      await expect(KarmaReportService.remove("admin-1", "loan-1")).rejects.toMatchObject({ statusCode: 409 });
+    });
+  });
+
+  describe("removeCleared", () => {
+    it("should clear every reported loan that has been repaid, carrying on past failures", async () => {
+      const tables = mockDb();
+      tables["loan_applications"].results.push([{ id: "loan-0" }, { id: "loan-1" }]);
+      tables["adjutor_reports"].results.push([{ action: "add", identity_type: "email", identity: "ada@example.com" }]);
+      vi.mocked(LoanService.getApplicationById)
+        .mockRejectedValueOnce(new Error("Lock wait timeout"))
+        .mockResolvedValue(application({ status: "repaid", karma_reported_at: new Date() }));
+
+      const cleared = await KarmaReportService.removeCleared(new Date("2024-07-01T08:00:00Z"));
+
+      expect(tables["loan_applications"].where).toHaveBeenCalledWith({ status: "repaid", karma_removed_at: null });
+      expect(tables["loan_applications"].whereNotNull).toHaveBeenCalledWith("karma_reported_at");
+      expect(cleared).toBe(1);
+    });
+  });
+
+  describe("listReports", () => {
+    it("should return a loan's submissions with their JSON parsed", async () => {
+      const tables = mockDb();
+      tables["adjutor_reports"].results.push([
+        {
+          id: "report-1",
+          action: "add",
+          identity: "ada@example.com",
+          request_payload: '{"identity":"ada@example.com"}',
+          raw_response: '{"status":"success"}',
+          succeeded: 1,
+        },
+      ]);
+      vi.mocked(LoanService.getApplicationById).mockResolvedValue(application());
+
+      const reports = await KarmaReportService.listReports("loan-1");
+
+      expect(reports[0]).toMatchObject({
+        request_payload: { identity: "ada@example.com" },
+        raw_response: { status: "success" },
+        succeeded: true,
+      });
+    });
+  });
+});
@@ -0,0 +1,277 @@
+/**
+ * Ledger Service Tests
+ *
+ * Unit tests for balanced journal posting and wallet/ledger checks.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { LedgerService } from "../../src/services/ledger.service";
+import { knex } from "../../src/db";
+import { Money } from "../../src/utils/money";
+
+// Mock the database
+vi.mock("../../src/db", () => {
+  let counter = 0;
+  const knexMock = vi.fn() as any;
+  knexMock.fn = { now: () => new Date() };
+  return {
+    knex: knexMock,
+    newId: vi.fn(() => `id-${++counter}`),
+  };
+});
+
+/**
+ * Minimal in-memory transaction: ledger_accounts lookups by code/wallet_id,
+ * inserts and updates recorded per table
+ */
+const createTrx = (accounts: any[] = []) => {
+  const inserts: Record<string, any[]> = {};
+  const updates: Array<{ where: any; values: any }> = [];
+
+  const trx = vi.fn((table: string) => {
+    let criteria: any = {};
+    const builder: any = {
+      where: vi.fn((where: any) => {
+        criteria = where;
+        return builder;
+      }),
+      first: vi.fn(async () =>
+        accounts.find((account) =>
+          Object.entries(criteria).every(([key, value]) => account[key] === value)
+        )
+      ),
+      insert: vi.fn((row: any) => {
+        (inserts[table] ??= []).push(row);
+        if (table === "ledger_accounts") {
+          accounts.push(row);
+        }
+        const result: any = Promise.resolve([1]);
+        result.onConflict = () => ({ ignore: () => Promise.resolve([1]) });
+        return result;
+      }),
+      update: vi.fn(async (values: any) => {
+        updates.push({ where: criteria, values });
+        return 1;
+      }),
+    };
+    return builder;
+  }) as any;
+  trx.fn = { now: () => new Date() };
+  trx.raw = vi.fn((sql: string, bindings: any[]) => ({ sql, bindings }));
+
+  return { trx, inserts, updates, accounts };
+};
+
+const ngn = (value: string) => Money.fromStorage(value, "NGN");
+
+describe("LedgerService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("postJournal", () => {
+    it("should post balanced legs and create accounts on first use", async () => {
+      const { trx, inserts, updates } = createTrx();
+
+      await LedgerService.postJournal(trx, {
+        reference: "FUND-user-123-1-A",
+        description: "Wallet funding",
+        legs: [
+          { account: { system: "FUNDING_CLEARING", currency: "NGN" }, direction: "debit", amount: ngn("500") },
+          { account: { walletId: "wallet-123", currency: "NGN" }, direction: "credit", amount: ngn("500") },
+        ],
+      });
+
+      expect(inserts["journal_entries"]).toHaveLength(1);
+      expect(inserts["journal_entries"]![0].reference).toBe("FUND-user-123-1-A");
+      expect(inserts["ledger_accounts"]!.map((account) => account.code)).toEqual([
+        "FUNDING_CLEARING:NGN",
+        "WALLET:wallet-123",
+      ]);
+      expect(
+        inserts["ledger_entries"]!.map((entry) => [entry.direction, entry.amount_decimal])
+      ).toEqual([
+        ["debit", "500.000000"],
+        ["credit", "500.000000"],
+      ]);
+
+      // Only the wallet account keeps a running balance
+      expect(updates).toHaveLength(1);
+      expect(updates[0]!.values.balance_decimal).toEqual({
+        sql: "balance_decimal + ?",
+        bindings: ["500.000000"],
+      });
+    });
+
+    it("should reuse existing accounts", async () => {
+      const { trx, inserts } = createTrx([
+        { id: "acc-1", code: "WALLET:wallet-a", type: "wallet", wallet_id: "wallet-a", currency: "NGN" },
+        { id: "acc-2", code: "WALLET:wallet-b", type: "wallet", wallet_id: "wallet-b", currency: "NGN" },
+      ]);
+
+      await LedgerService.postJournal(trx, {
+        reference: "TRANSFER-1",
+        description: "Wallet transfer",
+        legs: [
+          { account: { walletId: "wallet-a", currency: "NGN" }, direction: "debit", amount: ngn("10") },
+          { account: { walletId: "wallet-b", currency: "NGN" }, direction: "credit", amount: ngn("10") },
+        ],
+      });
+
+      expect(inserts["ledger_accounts"]).toBeUndefined();
+      expect(inserts["ledger_entries"]!.map((entry) => entry.account_id)).toEqual([
+        "acc-1",
+        "acc-2",
+      ]);
+    });
+
+    it("should reject unbalanced journals before writing anything", async () => {
+      const { trx, inserts } = createTrx();
+
+      await expect(
+        LedgerService.postJournal(trx, {
+          reference: "BAD-1",
+          description: "Broken",
+          legs: [
+            { account: { system: "FUNDING_CLEARING", currency: "NGN" }, direction: "debit", amount: ngn("500") },
+            { account: { walletId: "wallet-123", currency: "NGN" }, direction: "credit", amount: ngn("499.99") },
+          ],
+        })
+      ).rejects.toThrow("Unbalanced journal BAD-1");
+
+      expect(inserts).toEqual({});
+    });
+
+    it("should reject journals with a single leg", async () => {
+      const { trx } = createTrx();
+
+      await expect(
+        LedgerService.postJournal(trx, {
+          reference: "BAD-2",
+          description: "Broken",
+          legs: [
+            { account: { walletId: "wallet-123", currency: "NGN" }, direction: "credit", amount: ngn("1") },
+          ],
+        })
+      ).rejects.toThrow("at least two legs");
+    });
+  });
+
+  describe("assertWalletBalance", () => {
+    it("should pass when the ledger matches the wallet", async () => {
+      const { trx } = createTrx([
+        { id: "acc-1", wallet_id: "wallet-123", currency: "NGN", balance_decimal: "600.000000" },
+      ]);
+
+      await expect(
+        LedgerService.assertWalletBalance(trx, "wallet-123", ngn("600"))
+      ).resolves.toBeUndefined();
+    });
+
+    it("should throw when the ledger disagrees with the wallet", async () => {
+      const { trx } = createTrx([
+        { id: "acc-1", wallet_id: "wallet-123", currency: "NGN", balance_decimal: "599.990000" },
+      ]);
+
+      await expect(
+        LedgerService.assertWalletBalance(trx, "wallet-123", ngn("600"))
+      ).rejects.toThrow("Ledger mismatch for wallet wallet-123");
+    });
+  });
+
+  describe("verifyWallet", () => {
+    it("should derive the balance from entries and compare with the wallet", async () => {
+      const walletQuery = {
+        where: vi.fn().mockReturnThis(),
+        first: vi.fn().mockResolvedValue({ id: "wallet-123", balance_decimal: "250.000000", currency: "NGN" }),
+      };
+      const accountQuery = {
+        where: vi.fn().mockReturnThis(),
+        first: vi.fn().mockResolvedValue({ id: "acc-1", currency: "NGN", normal_balance: "credit" }),
+      };
+      const entriesQuery = {
+        select: vi.fn().mockReturnThis(),
+        sum: vi.fn().mockReturnThis(),
+        where: vi.fn().mockReturnThis(),
+        groupBy: vi.fn().mockResolvedValue([
+          { direction: "credit", total: "300.000000" },
+          { direction: "debit", total: "50.000000" },
+        ]),
+      };
+      vi.mocked(knex)
+        .mockReturnValueOnce(walletQuery as any)
+        .mockReturnValueOnce(accountQuery as any)
+        .mockReturnValueOnce(entriesQuery as any);
+
+      const result = await LedgerService.verifyWallet("wallet-123");
+
+      expect(result).toEqual({
+        walletId: "wallet-123",
+        currency: "NGN",
+        walletBalance: "250.000000",
+        ledgerBalance: "250.000000",
+        balanced: true,
+      });
+    });
+  });
+
+  describe("walletBalanceAt", () => {
+    it("should only count entries posted before the given time", async () => {
+      const before = new Date("2024-03-02T00:00:00Z");
+      const accountQuery = {
+        where: vi.fn().mockReturnThis(),
+        first: vi.fn().mockResolvedValue({ id: "acc-1", currency: "NGN", normal_balance: "credit" }),
+      };
+      const entriesQuery = {
+        select: vi.fn().mockReturnThis(),
+        sum: vi.fn().mockReturnThis(),
+        where: vi.fn().mockReturnThis(),
+        groupBy: vi.fn().mockResolvedValue([
+          { direction: "credit", total: "1000.000000" },
+          { direction: "debit", total: "400.000000" },
+        ]),
+      };
+      vi.mocked(knex)
+        .mockReturnValueOnce(accountQuery as any)
+        .mockReturnValueOnce(entriesQuery as any);
+
+      const balance = await LedgerService.walletBalanceAt("wallet-123", "NGN", before);
+
+      expect(entriesQuery.where).toHaveBeenCalledWith("created_at", "<", before);
+      expect(balance.toStorageString()).toBe("600.000000");
+    });
+
+    it("should be zero for a wallet without a ledger account", async () => {
+      vi.mocked(knex).mockReturnValueOnce({
+        where: vi.fn().mockReturnThis(),
+        first: vi.fn().mockResolvedValue(undefined),
+      } as any);
+
+      const balance = await LedgerService.walletBalanceAt("wallet-123", "USD", new Date());
+
+      expect(balance.isZero()).toBe(true);
+      expect(balance.currency).toBe("USD");
+    });
+  });
+
+  describe("getTrialBalance", () => {
+    it("should report whether debits equal credits per currency", async () => {
+      const query = {
+        join: vi.fn().mockReturnThis(),
+        select: vi.fn().mockReturnThis(),
+        sum: vi.fn().mockReturnThis(),
+        groupBy: vi.fn().mockResolvedValue([
+          { currency: "NGN", direction: "debit", total: "1000.000000" },
+          { currency: "NGN", direction: "credit", total: "1000.000000" },
+        ]),
+      };
+      vi.mocked(knex).mockReturnValueOnce(query as any);
+
+      const result = await LedgerService.getTrialBalance();
+
+      expect(result).toEqual([
+        { currency: "NGN", debits: "1000.000000", credits: "1000.000000", balanced: true },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Limit Controller Tests
+ *
+ * Unit tests for wallet limit usage and tier limit management endpoints.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Request, Response, NextFunction } from "express";
+import { LimitController } from "../../src/controllers/limit.controller";
+import { LimitService } from "../../src/services/limit.service";
+import { AppError } from "../../src/middlewares/error";
+
+// Mock LimitService
+vi.mock("../../src/services/limit.service", () => ({
+  LimitService: {
+    getUsage: vi.fn(),
+    listLimits: vi.fn(),
+    setLimit: vi.fn(),
+    setUserTier: vi.fn(),
+  },
+}));
+
+describe("LimitController", () => {
+  let mockReq: Partial<Request>;
+  let mockRes: Partial<Response>;
+  let mockNext: NextFunction;
+
+  const limit = {
+    id: "limit-123",
+    tier: "tier_2" as const,
+    currency: "NGN",
+    max_single_decimal: "200000.000000",
+    daily_limit_decimal: "200000.000000",
+    monthly_limit_decimal: "1000000.000000",
+    max_balance_decimal: null,
+    created_at: new Date(),
+    updated_at: new Date(),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockReq = {
+      params: {},
+      query: {},
+      body: {},
+      user: { id: "user-123" },
+    };
+
+    mockRes = {
+      status: vi.fn().mockReturnThis(),
+      json: vi.fn(),
+    };
+
+    mockNext = vi.fn();
+  });
+
+  describe("getUsage", () => {
+    it("should return the wallet's limits and usage", async () => {
+      const usage = {
+        tier: "tier_1" as const,
+        currency: "USD",
+        limits: { max_single: "100.000000", daily: "100.000000", monthly: "500.000000", max_balance: "500.000000" },
+        used: { daily: "0.000000", monthly: "0.000000", balance: "50.000000" },
+        remaining: { daily: "100.000000", monthly: "500.000000" },
+      };
+      mockReq.params = { userId: "user-123" };
+      mockReq.query = { currency: "USD" };
+      vi.mocked(LimitService.getUsage).mockResolvedValue(usage);
+
+      await LimitController.getUsage(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(LimitService.getUsage).toHaveBeenCalledWith("user-123", { walletId: undefined, currency: "USD" });
+      expect(mockRes.status).toHaveBeenCalledWith(200);
+      expect(mockRes.json).toHaveBeenCalledWith({ success: true, data: usage });
+    });
+
+    it("should return 403 for another user's wallet", async () => {
+      mockReq.params = { userId: "user-456" };
+
+      await LimitController.getUsage(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockRes.status).toHaveBeenCalledWith(403);
+      expect(LimitService.getUsage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("listLimits", () => {
+    it("should pass the filters", async () => {
+      mockReq.query = { tier: "tier_2" };
+      vi.mocked(LimitService.listLimits).mockResolvedValue([limit]);
+
+      await LimitController.listLimits(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(LimitService.listLimits).toHaveBeenCalledWith({ tier: "tier_2", currency: undefined });
+      expect(mockRes.json).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { limits: [limit] } })
+      );
+    });
+  });
+
+  describe("setLimit", () => {
+    it("should save the limits from the path and body", async () => {
+      mockReq.params = { tier: "tier_2", currency: "NGN" };
+      mockReq.body = {
+        maxSingle: "200000.00",
+        dailyLimit: "200000.00",
+        monthlyLimit: "1000000.00",
+        maxBalance: null,
+        extra: "ignored",
+      };
+      vi.mocked(LimitService.setLimit).mockResolvedValue(limit);
+
+      await LimitController.setLimit(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(LimitService.setLimit).toHaveBeenCalledWith("tier_2", "NGN", {
+        maxSingle: "200000.00",
+        dailyLimit: "200000.00",
+        monthlyLimit: "1000000.00",
+        maxBalance: null,
+      });
+      expect(mockRes.status).toHaveBeenCalledWith(200);
+    });
+
+    it("should pass inconsistent limits to the error handler", async () => {
+      mockReq.params = { tier: "tier_2", currency: "NGN" };
+      const error = new AppError(400, "maxSingle must not exceed dailyLimit");
+      vi.mocked(LimitService.setLimit).mockRejectedValue(error);
+
+      await LimitController.setLimit(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith(error);
+    });
+  });
+
+  describe("setUserTier", () => {
+    it("should move the user to the new tier", async () => {
+      mockReq.params = { userId: "user-456" };
+      mockReq.body = { tier: "tier_2" };
+      vi.mocked(LimitService.setUserTier).mockResolvedValue({
+        userId: "user-456",
+        previousTier: "tier_1",
+        tier: "tier_2",
+      });
+
+      await LimitController.setUserTier(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(LimitService.setUserTier).toHaveBeenCalledWith("user-456", "tier_2");
+      expect(mockRes.json).toHaveBeenCalledWith({
+        success: true,
+        message: "User tier updated successfully",
+        data: { user_id: "user-456", previous_tier: "tier_1", tier: "tier_2" },
+      });
+    });
+  });
+});
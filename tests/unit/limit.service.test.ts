@@ -0,0 +1,333 @@
+/**
+ * Limit Service Tests
+ *
+ * Unit tests for tier limit enforcement and management.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { LimitService, TierLimit } from "../../src/services/limit.service";
+import { WalletService, Wallet } from "../../src/services/wallet.service";
+import { knex } from "../../src/db";
+import { config } from "../../src/config/env";
+import { AppError, LimitExceededError } from "../../src/middlewares/error";
+import { Money } from "../../src/utils/money";
+import { mockTables } from "../helpers/query-mock";
+
+// Mock the database
+vi.mock("../../src/db", () => {
+  const knexMock = vi.fn() as any;
+  knexMock.fn = { now: () => new Date() };
+  return {
+    knex: knexMock,
+    newId: vi.fn(() => "limit-123"),
+    withTransaction: vi.fn(),
+  };
+});
+
+vi.mock("../../src/services/wallet.service", () => ({
+  WalletService: {
+    getWalletByUserId: vi.fn(),
+  },
+}));
+
+/**
+ * Build per-table query mocks for the tables limits touch
+ */
+const mockDb = () => mockTables("users", "tier_limits", "transactions");
+
+const wallet: Wallet = {
+  id: "wallet-123",
+  user_id: "user-123",
+  balance_decimal: "20000.000000",
+  held_decimal: "0.000000",
+  currency: "NGN",
+  created_at: new Date(),
+  updated_at: new Date(),
+};
+
+const tier1: TierLimit = {
+  id: "limit-123",
+  tier: "tier_1",
+  currency: "NGN",
+  max_single_decimal: "50000.000000",
+  daily_limit_decimal: "50000.000000",
+  monthly_limit_decimal: "300000.000000",
+  max_balance_decimal: "300000.000000",
+  created_at: new Date(),
+  updated_at: new Date(),
+};
+
+const ngn = (value: string) => Money.parse(value, "NGN");
+
+describe("LimitService", () => {
+  const originalFees = { ...config.fees };
+  const originalEscrow = { ...config.escrow };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(knex).mockReset();
+  });
+
+  afterEach(() => {
+    Object.assign(config.fees, originalFees);
+    Object.assign(config.escrow, originalEscrow);
+  });
+
+  describe("periodStarts", () => {
+    it("should return the start of the UTC day and month", () => {
+      const starts = LimitService.periodStarts(new Date("2024-03-15T23:30:00.000Z"));
+
+      expect(starts.day.toISOString()).toBe("2024-03-15T00:00:00.000Z");
+      expect(starts.month.toISOString()).toBe("2024-03-01T00:00:00.000Z");
+    });
+  });
+
+  describe("assertCanSend", () => {
+    it("should allow anything when the tier has no limits for the currency", async () => {
+      const { db, tables } = mockDb();
+      tables.users.first.mockResolvedValueOnce({ tier: "tier_1" });
+      tables.tier_limits.first.mockResolvedValueOnce(undefined);
+
+      await expect(LimitService.assertCanSend(db, wallet, ngn("1000000"))).resolves.toBeUndefined();
+      expect(tables.transactions.sum).not.toHaveBeenCalled();
+    });
+
+    it("should exempt the fee revenue user", async () => {
+      config.fees.revenueUserId = "user-123";
+      const { db } = mockDb();
+
+      await LimitService.assertCanSend(db, wallet, ngn("1000000"));
+
+      expect(db).not.toHaveBeenCalled();
+    });
+
+    it("should exempt the escrow user", async () => {
+      config.escrow.userId = "user-123";
+      const { db } = mockDb();
+
+      await LimitService.assertCanSend(db, wallet, ngn("1000000"));
+
+      expect(db).not.toHaveBeenCalled();
+    });
+
+    it("should reject an amount above the single transaction limit with 403", async () => {
+      const { db, tables } = mockDb();
+      tables.users.first.mockResolvedValueOnce({ tier: "tier_1" });
+      tables.tier_limits.first.mockResolvedValueOnce(tier1);
+
+      const error = await LimitService.assertCanSend(db, wallet, ngn("50000.01")).catch((e) => e);
+
+      expect(error).toBeInstanceOf(LimitExceededError);
+      expect(error.statusCode).toBe(403);
+      expect(error.breach).toEqual({
+        limit: "max_single",
+        tier: "tier_1",
+        currency: "NGN",
+        max: "50000.000000",
+        requested: "50000.010000",
+      });
+    });
+
+    it("should add today's outflows to the amount for the daily limit", async () => {
+      const { db, tables } = mockDb();
+      tables.users.first.mockResolvedValueOnce({ tier: "tier_1" });
+      tables.tier_limits.first.mockResolvedValueOnce(tier1);
+      tables.transactions.first.mockResolvedValueOnce({ total: "45000.000000" });
+
+      const error = await LimitService.assertCanSend(db, wallet, ngn("5000.01")).catch((e) => e);
+
+      expect(error).toBeInstanceOf(LimitExceededError);
+      expect(error.breach).toEqual(
+        expect.objectContaining({ limit: "daily", used: "45000.000000", requested: "5000.010000" })
+      );
+      expect(tables.transactions.whereIn).toHaveBeenCalledWith("type", ["debit", "transfer-out"]);
+      expect(tables.transactions.where).toHaveBeenCalledWith("reference", "not like", "POT-%");
+      expect(tables.transactions.where).toHaveBeenCalledWith("reference", "not like", "LOAN-%");
+    });
+
+    it("should check the month's outflows once the daily limit passes", async () => {
+      const { db, tables } = mockDb();
+      tables.users.first.mockResolvedValueOnce({ tier: "tier_1" });
+      tables.tier_limits.first.mockResolvedValueOnce(tier1);
+      tables.transactions.first
+        .mockResolvedValueOnce({ total: null })
+        .mockResolvedValueOnce({ total: "290000.000000" });
+
+      const error = await LimitService.assertCanSend(db, wallet, ngn("20000")).catch((e) => e);
+
+      expect(error.statusCode).toBe(403);
+      expect(error.breach.limit).toBe("monthly");
+      expect(error.message).toContain("tier_1 monthly limit");
+    });
+
+    it("should allow an amount that exactly reaches the limits", async () => {
+      const { db, tables } = mockDb();
+      tables.users.first.mockResolvedValueOnce({ tier: "tier_1" });
+      tables.tier_limits.first.mockResolvedValueOnce(tier1);
+      tables.transactions.first
+        .mockResolvedValueOnce({ total: "30000.000000" })
+        .mockResolvedValueOnce({ total: "30000.000000" });
+
+      await expect(LimitService.assertCanSend(db, wallet, ngn("20000"))).resolves.toBeUndefined();
+    });
+  });
+
+  describe("assertCanReceive", () => {
+    it("should reject a balance above the maximum with 422", async () => {
+      const { db, tables } = mockDb();
+      tables.users.first.mockResolvedValueOnce({ tier: "tier_1" });
+      tables.tier_limits.first.mockResolvedValueOnce(tier1);
+
+      const error = await LimitService.assertCanReceive(
+        db,
+        wallet,
+        ngn("290000"),
+        ngn("310000")
+      ).catch((e) => e);
+
+      expect(error).toBeInstanceOf(LimitExceededError);
+      expect(error.statusCode).toBe(422);
+      expect(error.breach).toEqual({
+        limit: "max_balance",
+        tier: "tier_1",
+        currency: "NGN",
+        max: "300000.000000",
+        used: "20000.000000",
+        requested: "290000.000000",
+      });
+    });
+
+    it("should not disclose a recipient's balance", async () => {
+      const { db, tables } = mockDb();
+      tables.users.first.mockResolvedValueOnce({ tier: "tier_1" });
+      tables.tier_limits.first.mockResolvedValueOnce(tier1);
+
+      const error = await LimitService.assertCanReceive(
+        db,
+        wallet,
+        ngn("290000"),
+        ngn("310000"),
+        true
+      ).catch((e) => e);
+
+      expect(error.breach.used).toBeUndefined();
+      expect(error.message).not.toContain("20000");
+    });
+
+    it("should allow any balance without a maximum", async () => {
+      const { db, tables } = mockDb();
+      tables.users.first.mockResolvedValueOnce({ tier: "tier_3" });
+      tables.tier_limits.first.mockResolvedValueOnce({ ...tier1, tier: "tier_3", max_balance_decimal: null });
+
+      await expect(
+        LimitService.assertCanReceive(db, wallet, ngn("9000000"), ngn("9020000"))
+      ).resolves.toBeUndefined();
+    });
+
+    it("should return 404 for an unknown user", async () => {
+      const { db, tables } = mockDb();
+      tables.users.first.mockResolvedValueOnce(undefined);
+
+      const error = await LimitService.assertCanReceive(db, wallet, ngn("1"), ngn("1")).catch((e) => e);
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.statusCode).toBe(404);
+    });
+  });
+
+  describe("getUsage", () => {
+    it("should report usage and what remains", async () => {
+      const { db, tables } = mockDb();
+      vi.mocked(knex).mockImplementation(db);
+      vi.mocked(WalletService.getWalletByUserId).mockResolvedValueOnce(wallet);
+      tables.users.first.mockResolvedValueOnce({ tier: "tier_1" });
+      tables.tier_limits.first.mockResolvedValueOnce(tier1);
+      tables.transactions.first
+        .mockResolvedValueOnce({ total: "12000.000000" })
+        .mockResolvedValueOnce({ total: "80000.000000" });
+
+      const usage = await LimitService.getUsage("user-123", { currency: "NGN" });
+
+      expect(usage).toEqual({
+        tier: "tier_1",
+        currency: "NGN",
+        limits: {
+          max_single: "50000.000000",
+          daily: "50000.000000",
+          monthly: "300000.000000",
+          max_balance: "300000.000000",
+        },
+        used: { daily: "12000.000000", monthly: "80000.000000", balance: "20000.000000" },
+        remaining: { daily: "38000.000000", monthly: "220000.000000" },
+      });
+    });
+  });
+
+  describe("setLimit", () => {
+    const input = {
+      maxSingle: "200000.00",
+      dailyLimit: "200000.00",
+      monthlyLimit: "1000000.00",
+      maxBalance: null,
+    };
+
+    it("should upsert the limits for the tier and currency", async () => {
+      const { db, tables } = mockDb();
+      vi.mocked(knex).mockImplementation(db);
+      tables.tier_limits.first.mockResolvedValueOnce({ ...tier1, tier: "tier_2" });
+
+      await LimitService.setLimit("tier_2", "NGN", input);
+
+      expect(tables.tier_limits.insert).toHaveBeenCalledWith({
+        id: "limit-123",
+        tier: "tier_2",
+        currency: "NGN",
+        max_single_decimal: "200000.000000",
+        daily_limit_decimal: "200000.000000",
+        monthly_limit_decimal: "1000000.000000",
+        max_balance_decimal: null,
+      });
+      expect(tables.tier_limits.onConflict).toHaveBeenCalledWith(["tier", "currency"]);
+      expect(tables.tier_limits.merge).toHaveBeenCalledWith(
+        expect.objectContaining({ max_balance_decimal: null, updated_at: expect.any(Date) })
+      );
+    });
+
+    it.each([
+      [{ ...input, maxSingle: "300000.00" }, "maxSingle must not exceed dailyLimit"],
+      [{ ...input, monthlyLimit: "100000.00" }, "dailyLimit must not exceed monthlyLimit"],
+      [{ ...input, maxBalance: "10.001" }, "maxBalance"],
+    ])("should reject inconsistent or invalid limits %#", async (limits, message) => {
+      const error = await LimitService.setLimit("tier_2", "NGN", limits).catch((e) => e);
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.statusCode).toBe(400);
+      expect(error.message).toContain(message);
+      expect(knex).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("setUserTier", () => {
+    it("should move the user and report the previous tier", async () => {
+      const { db, tables } = mockDb();
+      vi.mocked(knex).mockImplementation(db);
+      tables.users.first.mockResolvedValueOnce({ tier: "tier_1" });
+
+      const result = await LimitService.setUserTier("user-123", "tier_2");
+
+      expect(result).toEqual({ userId: "user-123", previousTier: "tier_1", tier: "tier_2" });
+      expect(tables.users.update).toHaveBeenCalledWith(expect.objectContaining({ tier: "tier_2" }));
+    });
+
+    it("should return 404 for an unknown user", async () => {
+      const { db, tables } = mockDb();
+      vi.mocked(knex).mockImplementation(db);
+      tables.users.first.mockResolvedValueOnce(undefined);
+
+      const error = await LimitService.setUserTier("missing", "tier_2").catch((e) => e);
+
+      expect(error.statusCode).toBe(404);
+      expect(tables.users.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,321 @@
+/**
+ * Loan Repayment Service Tests
+ *
+ * Unit tests for repayment schedules, late penalties and the collection
+ * worker, driven by a fixed clock.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { LoanRepaymentService } from "../../src/services/loan-repayment.service";
+import { WalletService } from "../../src/services/wallet.service";
+import { knex, withTransaction } from "../../src/db";
+import { config } from "../../src/config/env";
+import { Money } from "../../src/utils/money";
+import { mockTables } from "../helpers/query-mock";
+
+// Mock the database
+vi.mock("../../src/db", () => {
+  const knexMock = vi.fn() as any;
+  knexMock.fn = { now: () => new Date() };
+  knexMock.raw = vi.fn((sql: string) => sql);
+  return {
+    knex: knexMock,
+    newId: vi.fn(() => "repayment-1"),
+    withTransaction: vi.fn(),
+  };
+});
+
+/**
+ * Route knex to per-table query mocks; transactions run on knex itself
+ */
+const mockDb = () => {
+  const { tables, db } = mockTables("loan_applications", "loan_installments", "loan_repayments");
+  vi.mocked(knex).mockImplementation(db);
+  vi.mocked(withTransaction).mockImplementation((callback: any) => callback(knex));
+  return tables;
+};
+
+const application = {
+  id: "loan-1",
+  user_id: "user-123",
+  wallet_id: "wallet-123",
+  currency: "NGN",
+  amount_decimal: "50000.000000",
+  tenor_months: 3,
+  interest_rate_bps: 3000,
+  repayment_method: "reducing_balance",
+  late_penalty_bps: 10,
+  status: "disbursed",
+};
+
+const wallet = (balance: string, status: "active" | "frozen" = "active") => ({
+  id: "wallet-123",
+  user_id: "user-123",
+  balance_decimal: balance,
+  held_decimal: "0.000000",
+  currency: "NGN",
+  status,
+  created_at: new Date(),
+  updated_at: new Date(),
+});
+
+const installment = (sequence: number, overrides: Record<string, unknown> = {}) => ({
+  id: `installment-${sequence}`,
+  application_id: "loan-1",
+  sequence,
+  due_date: ["2024-04-01", "2024-05-01", "2024-06-01"][sequence - 1],
+  principal_decimal: ["16256.850000", "16663.280000", "17079.870000"][sequence - 1],
+  interest_decimal: ["1250.000000", "843.570000", "426.990000"][sequence - 1],
+  penalty_decimal: "0.000000",
+  paid_decimal: "0.000000",
+  status: "pending",
+  penalty_accrued_to: null,
+  paid_at: null,
+  ...overrides,
+});
+
+describe("LoanRepaymentService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    config.loans = {
+      historyDays: 90,
+      minCredits: 3,
+      minInflowPercent: 100,
+      penaltyGraceDays: 3,
+      collectionSweepSeconds: 3600,
+    };
+    vi.spyOn(WalletService, "debitWithin").mockResolvedValue({
+      wallet: wallet("0.000000") as any,
+      transaction: { id: "txn-1" } as any,
+    });
+  });
+
+  describe("buildSchedule", () => {
+    it("should split a reducing-balance loan into level installments", () => {
+      const schedule = LoanRepaymentService.buildSchedule(
+        Money.parse("50000", "NGN"),
+        3000,
+        3,
+        "reducing_balance",
+        new Date("2024-03-01T10:00:00Z")
+      );
+
+      expect(
+        schedule.map((row) => [row.due_date, row.principal.toStorageString(), row.interest.toStorageString()])
+      ).toEqual([
+        ["2024-04-01", "16256.850000", "1250.000000"],
+        ["2024-05-01", "16663.280000", "843.570000"],
+        ["2024-06-01", "17079.870000", "426.990000"],
+      ]);
+      const principal = schedule.reduce((total, row) => total.add(row.principal), Money.zero("NGN"));
+      expect(principal.toStorageString()).toBe("50000.000000");
+    });
+
+    it("should charge flat interest on the original amount, the last installment taking the remainder", () => {
+      const schedule = LoanRepaymentService.buildSchedule(
+        Money.parse("50000", "NGN"),
+        3000,
+        3,
+        "flat",
+        new Date("2024-03-01T10:00:00Z")
+      );
+
+      expect(schedule.map((row) => [row.principal.toStorageString(), row.interest.toStorageString()])).toEqual([
+        ["16666.660000", "1250.000000"],
+        ["16666.660000", "1250.000000"],
+        ["16666.680000", "1250.000000"],
+      ]);
+    });
+
+    it("should fall due on the last day of shorter months", () => {
+      const schedule = LoanRepaymentService.buildSchedule(
+        Money.parse("30000", "NGN"),
+        1200,
+        3,
+        "flat",
+        new Date("2024-01-31T23:00:00Z")
+      );
+
+      expect(schedule.map((row) => row.due_date)).toEqual(["2024-02-29", "2024-03-31", "2024-04-30"]);
+    });
+  });
+
+  describe("getSchedule", () => {
+    it("should add up what is owed and what has been paid", async () => {
+      const tables = mockDb();
+      tables["loan_installments"].results.push([
+        installment(1, { status: "paid", paid_decimal: "17506.850000" }),
+        installment(2, { status: "overdue", penalty_decimal: "87.530000", paid_decimal: "1000.000000" }),
+        installment(3),
+      ]);
+
+      const schedule = await LoanRepaymentService.getSchedule(application as any);
+
+      expect(tables["loan_installments"].where).toHaveBeenCalledWith({ application_id: "loan-1" });
+      expect(schedule.principal.toStorageString()).toBe("50000.000000");
+      expect(schedule.interest.toStorageString()).toBe("2520.560000");
+      expect(schedule.penalty.toStorageString()).toBe("87.530000");
+      expect(schedule.paid.toStorageString()).toBe("18506.850000");
+      expect(schedule.outstanding.toStorageString()).toBe("34101.240000");
+    });
+  });
+
+  describe("collectDue", () => {
+    it("should collect a due installment in full from the loan's wallet", async () => {
+      const tables = mockDb();
+      tables["loan_installments"].results.push(
+        [{ application_id: "loan-1" }],
+        [installment(1), installment(2), installment(3)]
+      );
+      tables["loan_applications"].first.mockResolvedValueOnce(application);
+      tables["loan_repayments"].first.mockResolvedValueOnce({ debits: 0 });
+      vi.spyOn(WalletService, "getWalletByUserId").mockResolvedValueOnce(wallet("20000.000000"));
+
+      const collected = await LoanRepaymentService.collectDue(new Date("2024-04-01T08:00:00Z"));
+
+      expect(collected).toBe(1);
+      expect(tables["loan_installments"].where).toHaveBeenCalledWith("due_date", "<=", "2024-04-01");
+      expect(WalletService.getWalletByUserId).toHaveBeenCalledWith("user-123", knex, true, { walletId: "wallet-123" });
+      expect(WalletService.debitWithin).toHaveBeenCalledWith(
+        knex,
+        expect.objectContaining({ id: "wallet-123" }),
+        Money.parse("17506.85", "NGN"),
+        { loan_application_id: "loan-1" },
+        "LOAN-loan-1-REPAY-1",
+        "Loan repayment"
+      );
+      expect(tables["loan_repayments"].insert).toHaveBeenCalledWith(
+        expect.objectContaining({ installment_id: "installment-1", transaction_id: "txn-1", amount_decimal: "17506.850000" })
+      );
+      expect(tables["loan_installments"].update).toHaveBeenCalledWith(
+        expect.objectContaining({ paid_decimal: "17506.850000", status: "paid" })
+      );
+      expect(tables["loan_applications"].update).not.toHaveBeenCalled();
+    });
+
+    it("should collect what is available when the balance is short", async () => {
+      const tables = mockDb();
+      tables["loan_installments"].results.push(
+        [{ application_id: "loan-1" }],
+        [installment(1), installment(2), installment(3)]
+      );
+      tables["loan_applications"].first.mockResolvedValueOnce(application);
+      tables["loan_repayments"].first.mockResolvedValueOnce({ debits: 2 });
+      vi.spyOn(WalletService, "getWalletByUserId").mockResolvedValueOnce(wallet("5000.004000"));
+
+      await LoanRepaymentService.collectDue(new Date("2024-04-01T08:00:00Z"));
+
+      expect(vi.mocked(WalletService.debitWithin).mock.calls[0]![2].toStorageString()).toBe("5000.000000");
+      expect(vi.mocked(WalletService.debitWithin).mock.calls[0]![4]).toBe("LOAN-loan-1-REPAY-3");
+      const update = tables["loan_installments"].update.mock.calls[0][0];
+      expect(update.paid_decimal).toBe("5000.000000");
+      expect(update).not.toHaveProperty("status");
+    });
+
+    it("should accrue late penalties for each day past the grace period before collecting", async () => {
+      const tables = mockDb();
+      tables["loan_installments"].results.push(
+        [{ application_id: "loan-1" }],
+        [installment(1), installment(2), installment(3)]
+      );
+      tables["loan_applications"].first.mockResolvedValueOnce(application);
+      vi.spyOn(WalletService, "getWalletByUserId").mockResolvedValueOnce(wallet("0.000000"));
+
+      const collected = await LoanRepaymentService.collectDue(new Date("2024-04-10T08:00:00Z"));
+
+      // Due 1 April, 3 days' grace: 5 to 9 April at 10 bps a day on 17506.85
+      expect(tables["loan_installments"].update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: "overdue", penalty_decimal: "87.530000", penalty_accrued_to: "2024-04-09" })
+      );
+      expect(collected).toBe(0);
+      expect(WalletService.debitWithin).not.toHaveBeenCalled();
+    });
+
+    it("should not charge a day's penalty twice", async () => {
+      const tables = mockDb();
+      tables["loan_installments"].results.push(
+        [{ application_id: "loan-1" }],
+        [
+          installment(1, { status: "overdue", penalty_decimal: "87.530000", penalty_accrued_to: "2024-04-09" }),
+          installment(2),
+          installment(3),
+        ]
+      );
+      tables["loan_applications"].first.mockResolvedValueOnce(application);
+      tables["loan_repayments"].first.mockResolvedValueOnce({ debits: 0 });
+      vi.spyOn(WalletService, "getWalletByUserId").mockResolvedValueOnce(wallet("20000.000000"));
+
+      await LoanRepaymentService.collectDue(new Date("2024-04-10T20:00:00Z"));
+
+      expect(vi.mocked(WalletService.debitWithin).mock.calls[0]![2].toStorageString()).toBe("17594.380000");
+      expect(tables["loan_installments"].update).toHaveBeenCalledTimes(1);
+      expect(tables["loan_installments"].update).toHaveBeenCalledWith(expect.objectContaining({ status: "paid" }));
+    });
+
+    it("should mark the loan repaid once the last installment is paid", async () => {
+      const tables = mockDb();
+      tables["loan_installments"].results.push(
+        [{ application_id: "loan-1" }],
+        [
+          installment(1, { status: "paid", paid_decimal: "17506.850000" }),
+          installment(2, { status: "paid", paid_decimal: "17506.850000" }),
+          installment(3),
+        ]
+      );
+      tables["loan_applications"].first.mockResolvedValueOnce(application);
+      tables["loan_repayments"].first.mockResolvedValueOnce({ debits: 2 });
+      vi.spyOn(WalletService, "getWalletByUserId").mockResolvedValueOnce(wallet("20000.000000"));
+
+      await LoanRepaymentService.collectDue(new Date("2024-06-01T08:00:00Z"));
+
+      expect(vi.mocked(WalletService.debitWithin).mock.calls[0]![2].toStorageString()).toBe("17506.860000");
+      expect(tables["loan_applications"].update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: "repaid" })
+      );
+    });
+
+    it("should leave a wallet that cannot be debited for a later run", async () => {
+      const tables = mockDb();
+      tables["loan_installments"].results.push(
+        [{ application_id: "loan-1" }],
+        [installment(1), installment(2), installment(3)]
+      );
+      tables["loan_applications"].first.mockResolvedValueOnce(application);
+      vi.spyOn(WalletService, "getWalletByUserId").mockResolvedValueOnce(wallet("20000.000000", "frozen"));
+
+      const collected = await LoanRepaymentService.collectDue(new Date("2024-04-01T08:00:00Z"));
+
+      expect(collected).toBe(0);
+      expect(WalletService.debitWithin).not.toHaveBeenCalled();
+    });
+
+    it("should carry on with other loans when one fails", async () => {
+      const tables = mockDb();
+      tables["loan_installments"].results.push(
+        [{ application_id: "loan-0" }, { application_id: "loan-1" }],
+        [installment(1), installment(2), installment(3)]
+      );
+      tables["loan_applications"].first
+        .mockRejectedValueOnce(new Error("Lock wait timeout"))
+        .mockResolvedValueOnce(application);
+      tables["loan_repayments"].first.mockResolvedValueOnce({ debits: 0 });
+      vi.spyOn(WalletService, "getWalletByUserId").mockResolvedValueOnce(wallet("20000.000000"));
+
+      const collected = await LoanRepaymentService.collectDue(new Date("2024-04-01T08:00:00Z"));
+
+      expect(collected).toBe(1);
+    });
+
+    it("should skip a loan that is no longer disbursed", async () => {
+      const tables = mockDb();
+      tables["loan_installments"].results.push([{ application_id: "loan-1" }]);
+      tables["loan_applications"].first.mockResolvedValueOnce({ ...application, status: "repaid" });
+      const getWallet = vi.spyOn(WalletService, "getWalletByUserId");
+
+      const collected = await LoanRepaymentService.collectDue(new Date("2024-04-01T08:00:00Z"));
+
+      expect(collected).toBe(0);
+      expect(getWallet).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,342 @@
+/**
+ * Loan Controller Tests
+ *
+ * Unit tests for the loan endpoints and the admin loan endpoints.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Request, Response, NextFunction } from "express";
+import { LoanController } from "../../src/controllers/loan.controller";
+import { LoanService } from "../../src/services/loan.service";
+import { LoanRepaymentService } from "../../src/services/loan-repayment.service";
+import { KarmaReportService } from "../../src/services/karma-report.service";
+import { Money } from "../../src/utils/money";
+import { AppError } from "../../src/middlewares/error";
+
+// Mock LoanService
+vi.mock("../../src/services/loan.service", () => ({
+  LoanService: {
+    listProducts: vi.fn(),
+    createProduct: vi.fn(),
+    updateProduct: vi.fn(),
+    apply: vi.fn(),
+    listApplications: vi.fn(),
+    getApplication: vi.fn(),
+    listAll: vi.fn(),
+    decide: vi.fn(),
+    disburse: vi.fn(),
+  },
+}));
+
+// Mock LoanRepaymentService
+vi.mock("../../src/services/loan-repayment.service", () => ({
+  LoanRepaymentService: {
+    getSchedule: vi.fn(),
+  },
+}));
+
+// Mock KarmaReportService
+vi.mock("../../src/services/karma-report.service", () => ({
+  KarmaReportService: {
+    listReports: vi.fn(),
+    report: vi.fn(),
+    remove: vi.fn(),
+  },
+}));
+
+describe("LoanController", () => {
+  let mockReq: Partial<Request>;
+  let mockRes: Partial<Response>;
+  let mockNext: NextFunction;
+
+  const product = {
+    id: "product-1",
+    name: "Salary Advance",
+    description: null,
+    currency: "NGN",
+    min_amount_decimal: "10000.000000",
+    max_amount_decimal: "500000.000000",
+    tenor_months: 3,
+    interest_rate_bps: 3000,
+    repayment_method: "reducing_balance" as const,
+    late_penalty_bps: 10,
+    fee_flat_decimal: "500.000000",
+    fee_bps: 100,
+    active: true,
+    created_at: new Date(),
+    updated_at: new Date(),
+  };
+
+  const application = {
+    id: "loan-1",
+    user_id: "user-123",
+    product_id: "product-1",
+    wallet_id: "wallet-123",
+    currency: "NGN",
+    amount_decimal: "50000.000000",
+    fee_decimal: "1000.000000",
+    tenor_months: 3,
+    interest_rate_bps: 3000,
+    repayment_method: "reducing_balance" as const,
+    late_penalty_bps: 10,
+    purpose: null,
+    status: "disbursed" as const,
+    decision_reasons: [{ code: "KARMA_CLEAR", outcome: "pass" as const, message: "No Karma record" }],
+    adjutor_check_id: "check-1",
+    decided_by: null,
+    decided_at: new Date(),
+    disbursement_transaction_id: "txn-1",
+    disbursement_error: null,
+    disbursed_at: new Date(),
+    repaid_at: null,
+    karma_reported_at: null,
+    karma_removed_at: null,
+    created_at: new Date(),
+    updated_at: new Date(),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockReq = {
+      params: {},
+      query: {},
+      body: {},
+      user: { id: "user-123" },
+    };
+
+    mockRes = {
+      status: vi.fn().mockReturnThis(),
+      json: vi.fn(),
+    };
+
+    mockNext = vi.fn();
+  });
+
+  describe("listProducts", () => {
+    it("should only list active products", async () => {
+      vi.mocked(LoanService.listProducts).mockResolvedValue([product]);
+
+      await LoanController.listProducts(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(LoanService.listProducts).toHaveBeenCalledWith(true);
+      expect(mockRes.json).toHaveBeenCalledWith({
+        success: true,
+        data: {
+          products: [expect.objectContaining({ min_amount: "10000.000000", fee_flat: "500.000000" })],
+        },
+      });
+    });
+  });
+
+  describe("apply", () => {
+    it("should apply for the authenticated user and show the amount paid out", async () => {
+      mockReq.body = { productId: "product-1", amount: "50000", purpose: "Rent" };
+      vi.mocked(LoanService.apply).mockResolvedValue(application);
+
+      await LoanController.apply(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(LoanService.apply).toHaveBeenCalledWith("user-123", {
+        productId: "product-1",
+        amount: "50000",
+        purpose: "Rent",
+      });
+      expect(mockRes.status).toHaveBeenCalledWith(201);
+      const body = vi.mocked(mockRes.json!).mock.calls[0]![0];
+      expect(body.data.application).toMatchObject({
+        amount: "50000.000000",
+        fee: "1000.000000",
+        disbursement_amount: "49000.000000",
+        status: "disbursed",
+      });
+      expect(body.data.application).not.toHaveProperty("adjutor_check_id");
+    });
+
+    it("should pass service errors to next", async () => {
+      mockReq.body = { productId: "product-1", amount: "50000" };
+      const error = new AppError(409, "Loan application loan-0 is still review");
+      vi.mocked(LoanService.apply).mockRejectedValue(error);
+
+      await LoanController.apply(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith(error);
+    });
+  });
+
+  describe("getApplication", () => {
+    it("should scope the lookup to the authenticated user", async () => {
+      mockReq.params = { applicationId: "loan-1" };
+      vi.mocked(LoanService.getApplication).mockResolvedValue(application);
+
+      await LoanController.getApplication(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(LoanService.getApplication).toHaveBeenCalledWith("user-123", "loan-1");
+      expect(mockRes.status).toHaveBeenCalledWith(200);
+    });
+  });
+
+  describe("getSchedule", () => {
+    it("should return the schedule of the user's own loan", async () => {
+      mockReq.params = { applicationId: "loan-1" };
+      const ngn = (value: string) => Money.fromStorage(value, "NGN");
+      vi.mocked(LoanService.getApplication).mockResolvedValue(application);
+      vi.mocked(LoanRepaymentService.getSchedule).mockResolvedValue({
+        installments: [
+          {
+            id: "installment-1",
+            application_id: "loan-1",
+            sequence: 1,
+            due_date: "2024-04-01",
+            principal_decimal: "16256.850000",
+            interest_decimal: "1250.000000",
+            penalty_decimal: "87.530000",
+            paid_decimal: "5000.000000",
+            status: "overdue",
+            penalty_accrued_to: "2024-04-09",
+            paid_at: null,
+            created_at: new Date(),
+            updated_at: new Date(),
+          },
+        ],
+        principal: ngn("16256.85"),
+        interest: ngn("1250"),
+        penalty: ngn("87.53"),
+        paid: ngn("5000"),
+        outstanding: ngn("12594.38"),
+      });
+
+      await LoanController.getSchedule(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(LoanService.getApplication).toHaveBeenCalledWith("user-123", "loan-1");
+      expect(LoanRepaymentService.getSchedule).toHaveBeenCalledWith(application);
+      const body = vi.mocked(mockRes.json!).mock.calls[0]![0];
+      expect(body.data.schedule.outstanding).toBe("12594.380000");
+      expect(body.data.schedule.installments[0]).toMatchObject({
+        due_date: "2024-04-01",
+        amount_due: "17594.380000",
+        outstanding: "12594.380000",
+        status: "overdue",
+      });
+    });
+
+    it("should not look up a schedule for someone else's loan", async () => {
+      mockReq.params = { applicationId: "loan-2" };
+      const error = new AppError(404, "Loan application not found");
+      vi.mocked(LoanService.getApplication).mockRejectedValue(error);
+
+      await LoanController.getSchedule(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(LoanRepaymentService.getSchedule).not.toHaveBeenCalled();
+      expect(mockNext).toHaveBeenCalledWith(error);
+    });
+  });
+
+  describe("adminListProducts", () => {
+    it("should filter on the active query parameter", async () => {
+      mockReq.query = { active: "false" };
+      vi.mocked(LoanService.listProducts).mockResolvedValue([]);
+
+      await LoanController.adminListProducts(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(LoanService.listProducts).toHaveBeenCalledWith(false);
+    });
+
+    it("should list every product without a filter", async () => {
+      vi.mocked(LoanService.listProducts).mockResolvedValue([]);
+
+      await LoanController.adminListProducts(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(LoanService.listProducts).toHaveBeenCalledWith(undefined);
+    });
+  });
+
+  describe("decide", () => {
+    it("should decide as the acting admin", async () => {
+      mockReq.user = { id: "admin-1" };
+      mockReq.params = { applicationId: "loan-1" };
+      mockReq.body = { decision: "approve", reason: "Karma checked manually" };
+      vi.mocked(LoanService.decide).mockResolvedValue(application);
+
+      await LoanController.decide(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(LoanService.decide).toHaveBeenCalledWith("admin-1", "loan-1", "approve", "Karma checked manually");
+      expect(mockRes.json).toHaveBeenCalledWith(
+        expect.objectContaining({ message: "Loan application decided" })
+      );
+    });
+  });
+
+  describe("disburse", () => {
+    it("should pass a rejected retry to next", async () => {
+      mockReq.params = { applicationId: "loan-1" };
+      const error = new AppError(409, "Loan application loan-1 is disbursed");
+      vi.mocked(LoanService.disburse).mockRejectedValue(error);
+
+      await LoanController.disburse(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith(error);
+      expect(mockRes.status).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Karma reports", () => {
+    const report = {
+      id: "report-1",
+      user_id: "user-123",
+      application_id: "loan-1",
+      action: "add" as const,
+      identity_type: "email" as const,
+      identity: "ada@example.com",
+      amount_in_contention_decimal: "35013.710000",
+      reason: "Default on loan repayment: NGN 17594.38 overdue across 1 installment(s)",
+      default_date: "2024-04-01",
+      request_payload: { identity: "ada@example.com" },
+      raw_response: { status: "success", message: "Karma record added" },
+      succeeded: true,
+      submitted_by: "admin-1",
+      submitted_at: new Date(),
+    };
+
+    it("should report the borrower as the acting admin", async () => {
+      mockReq.params = { applicationId: "loan-1" };
+      mockReq.user = { id: "admin-1" } as any;
+      vi.mocked(KarmaReportService.report).mockResolvedValue({
+        application: { ...application, karma_reported_at: new Date() },
+        reports: [report],
+      });
+
+      await LoanController.reportToKarma(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(KarmaReportService.report).toHaveBeenCalledWith("admin-1", "loan-1");
+      expect(mockRes.status).toHaveBeenCalledWith(201);
+      const body = vi.mocked(mockRes.json!).mock.calls[0]![0];
+      expect(body.data.reports[0]).toMatchObject({
+        action: "add",
+        amount_in_contention: "35013.710000",
+        default_date: "2024-04-01",
+        response: { status: "success", message: "Karma record added" },
+      });
+      expect(body.data.application.karma_reported_at).toBeInstanceOf(Date);
+    });
+
+    it("should pass a refused removal to the error handler", async () => {
+      mockReq.params = { applicationId: "loan-1" };
+      const error = new AppError(409, "Karma records are removed once the loan is repaid (status: disbursed)");
+      vi.mocked(KarmaReportService.remove).mockRejectedValue(error);
+
+      await LoanController.removeFromKarma(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith(error);
+    });
+
+    it("should list a loan's submissions", async () => {
+      mockReq.params = { applicationId: "loan-1" };
+      vi.mocked(KarmaReportService.listReports).mockResolvedValue([report]);
+
+      await LoanController.listKarmaReports(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(KarmaReportService.listReports).toHaveBeenCalledWith("loan-1");
+      expect(mockRes.status).toHaveBeenCalledWith(200);
+    });
+  });
+});
@@ -0,0 +1,669 @@
+/**
+ * Loan Service Tests
+ *
+ * Unit tests for loan products, applications, the automated checks,
+ * admin decisions and disbursement.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { LoanService } from "../../src/services/loan.service";
+import { AdjutorService } from "../../src/services/adjutor.service";
+import { CreditDecisionService, CreditEvaluation } from "../../src/services/credit-decision.service";
+import { UserService } from "../../src/services/user.service";
+import { WalletService } from "../../src/services/wallet.service";
+import { knex, withTransaction } from "../../src/db";
+import { config } from "../../src/config/env";
+import { AppError } from "../../src/middlewares/error";
+import { Money } from "../../src/utils/money";
+import { mockTables } from "../helpers/query-mock";
+
+// Mock the database
+vi.mock("../../src/db", () => {
+  const knexMock = vi.fn() as any;
+  knexMock.fn = { now: () => new Date() };
+  return {
+    knex: knexMock,
+    newId: vi.fn(() => "loan-1"),
+    withTransaction: vi.fn(),
+  };
+});
+
+vi.mock("../../src/services/adjutor.service", () => ({
+  AdjutorService: {
+    checkKarma: vi.fn(),
+    logCheck: vi.fn(),
+  },
+}));
+
+vi.mock("../../src/services/user.service", () => ({
+  UserService: {
+    getUserById: vi.fn(),
+  },
+}));
+
+/**
+ * Route knex to per-table query mocks; transactions run on knex itself
+ */
+const mockDb = () => {
+  const { tables, db } = mockTables(
+    "loan_products",
+    "loan_applications",
+    "transactions",
+    "users",
+    "loan_installments"
+  );
+  vi.mocked(knex).mockImplementation(db);
+  vi.mocked(withTransaction).mockImplementation((callback: any) => callback(knex));
+  return tables;
+};
+
+const now = new Date("2024-03-01T09:00:00.000Z");
+
+const product = {
+  id: "product-1",
+  name: "Salary Advance",
+  description: null,
+  currency: "NGN",
+  min_amount_decimal: "10000.000000",
+  max_amount_decimal: "500000.000000",
+  tenor_months: 3,
+  interest_rate_bps: 3000,
+  repayment_method: "reducing_balance",
+  late_penalty_bps: 10,
+  fee_flat_decimal: "500.000000",
+  fee_bps: 100,
+  active: 1,
+  created_at: now,
+  updated_at: now,
+};
+
+const user = {
+  id: "user-123",
+  name: "Ada Obi",
+  email: "ada@example.com",
+  phone: "+2348012345678",
+  handle: null,
+  status: "active" as const,
+  role: "user" as const,
+  tier: "tier_1" as const,
+  created_at: now,
+  updated_at: now,
+};
+
+const wallet = {
+  id: "wallet-123",
+  user_id: "user-123",
+  balance_decimal: "20000.000000",
+  held_decimal: "0.000000",
+  currency: "NGN",
+  status: "active" as const,
+  created_at: now,
+  updated_at: now,
+};
+
+const clean = (identity: string, identityType: "email" | "phone") => ({
+  isFlagged: false,
+  identity,
+  identityType,
+  rawResponse: { status: "success", message: "No record found" },
+  checkedAt: now,
+});
+
+const application = (overrides: Record<string, unknown> = {}) => ({
+  id: "loan-1",
+  user_id: "user-123",
+  product_id: "product-1",
+  wallet_id: "wallet-123",
+  currency: "NGN",
+  amount_decimal: "50000.000000",
+  fee_decimal: "1000.000000",
+  tenor_months: 3,
+  interest_rate_bps: 3000,
+  repayment_method: "reducing_balance",
+  late_penalty_bps: 10,
+  purpose: null,
+  status: "approved",
+  decision_reasons: JSON.stringify([{ code: "KARMA_CLEAR", outcome: "pass", message: "ok" }]),
+  adjutor_check_id: "check-1",
+  decided_by: null,
+  decided_at: now,
+  disbursement_transaction_id: null,
+  disbursement_error: null,
+  disbursed_at: null,
+  repaid_at: null,
+  karma_reported_at: null,
+  karma_removed_at: null,
+  created_at: now,
+  updated_at: now,
+  ...overrides,
+});
+
+const credit = (overrides: Partial<CreditEvaluation> = {}): CreditEvaluation => ({
+  userId: "user-123",
+  walletId: "wallet-123",
+  currency: "NGN",
+  version: "2024-01",
+  inputs: {} as CreditEvaluation["inputs"],
+  score: 650,
+  decision: "approve",
+  limit: Money.parse("80000", "NGN"),
+  reasons: [{ code: "POSITIVE_CASH_FLOW", points: 50, message: "Receives at least 20% more than spends" }],
+  ...overrides,
+});
+
+/** The row inserted into loan_applications */
+const inserted = (tables: Record<string, any>) => tables["loan_applications"].insert.mock.calls[0][0];
+
+describe("LoanService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    config.loans = {
+      historyDays: 90,
+      minCredits: 3,
+      minInflowPercent: 100,
+      penaltyGraceDays: 3,
+      collectionSweepSeconds: 3600,
+    };
+    vi.mocked(UserService.getUserById).mockResolvedValue(user);
+    vi.mocked(AdjutorService.checkKarma).mockImplementation(async (identity, type) =>
+      clean(identity, type as "email" | "phone")
+    );
+    vi.mocked(AdjutorService.logCheck).mockResolvedValue("check-1");
+    vi.spyOn(CreditDecisionService, "evaluate").mockResolvedValue(credit());
+    vi.spyOn(CreditDecisionService, "record").mockResolvedValue("decision-1");
+    vi.spyOn(WalletService, "getWalletByUserId").mockResolvedValue(wallet);
+    vi.spyOn(WalletService, "fund").mockResolvedValue({
+      wallet: { ...wallet, balance_decimal: "69000.000000" },
+      transaction: { id: "txn-1" } as any,
+      reference: "LOAN-loan-1-DISBURSE",
+    });
+  });
+
+  describe("apply", () => {
+    it("should approve an applicant who passes every check and pay out the amount less the fee", async () => {
+      const tables = mockDb();
+      tables["loan_products"].first.mockResolvedValueOnce(product);
+      tables["transactions"].first
+        .mockResolvedValueOnce({ credits: 4, inflow: "80000.000000" })
+        .mockResolvedValueOnce(undefined); // no earlier disbursement
+      tables["loan_applications"].first
+        .mockResolvedValueOnce(undefined) // no open application
+        .mockResolvedValueOnce(undefined) // no outstanding loan
+        .mockResolvedValueOnce(undefined) // no open application (locked)
+        .mockResolvedValueOnce(application())
+        .mockResolvedValueOnce(application({ status: "disbursed", disbursement_transaction_id: "txn-1" }));
+
+      const result = await LoanService.apply("user-123", { productId: "product-1", amount: "50000" }, now);
+
+      expect(inserted(tables)).toMatchObject({
+        id: "loan-1",
+        wallet_id: "wallet-123",
+        amount_decimal: "50000.000000",
+        fee_decimal: "1000.000000",
+        tenor_months: 3,
+        interest_rate_bps: 3000,
+        repayment_method: "reducing_balance",
+        late_penalty_bps: 10,
+        status: "approved",
+        adjutor_check_id: "check-1",
+      });
+      expect(JSON.parse(inserted(tables).decision_reasons).map((reason: any) => reason.code)).toEqual([
+        "KARMA_CLEAR",
+        "NO_OUTSTANDING_LOAN",
+        "CREDIT_HISTORY",
+        "SUFFICIENT_INFLOW",
+        "CREDIT_SCORE",
+      ]);
+      expect(CreditDecisionService.record).toHaveBeenCalledWith(knex, credit(), "loan-1");
+      expect(tables["users"].forUpdate).toHaveBeenCalled();
+      expect(WalletService.fund).toHaveBeenCalledWith(
+        "user-123",
+        Money.parse("49000", "NGN"),
+        { loan_application_id: "loan-1" },
+        { walletId: "wallet-123" },
+        "LOAN-loan-1-DISBURSE"
+      );
+      expect(tables["loan_applications"].update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: "disbursed", disbursement_transaction_id: "txn-1" })
+      );
+      const installments = tables["loan_installments"].insert.mock.calls[0][0];
+      expect(installments.map((row: any) => [row.sequence, row.due_date, row.principal_decimal])).toEqual([
+        [1, "2024-04-01", "16256.850000"],
+        [2, "2024-05-01", "16663.280000"],
+        [3, "2024-06-01", "17079.870000"],
+      ]);
+      expect(result.status).toBe("disbursed");
+      expect(result.decision_reasons[0]?.code).toBe("KARMA_CLEAR");
+    });
+
+    it("should check the wallet's credits over the history window, leaving out earlier loans", async () => {
+      const tables = mockDb();
+      tables["loan_products"].first.mockResolvedValueOnce(product);
+      tables["transactions"].first.mockResolvedValueOnce({ credits: 0, inflow: null });
+      tables["loan_applications"].first
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce(application({ status: "declined" }));
+
+      await LoanService.apply("user-123", { productId: "product-1", amount: "50000" }, now);
+
+      expect(tables["transactions"].where).toHaveBeenCalledWith({ wallet_id: "wallet-123" });
+      expect(tables["transactions"].whereIn).toHaveBeenCalledWith("type", ["credit", "transfer-in"]);
+      expect(tables["transactions"].where).toHaveBeenCalledWith(
+        "created_at",
+        ">=",
+        new Date("2023-12-02T09:00:00.000Z")
+      );
+      expect(tables["transactions"].whereNot).toHaveBeenCalledWith("reference", "like", "LOAN-%");
+    });
+
+    it("should decline an applicant on the Karma blacklist without checking further identities", async () => {
+      const tables = mockDb();
+      tables["loan_products"].first.mockResolvedValueOnce(product);
+      tables["transactions"].first.mockResolvedValueOnce({ credits: 4, inflow: "80000.000000" });
+      tables["loan_applications"].first
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce(application({ status: "declined" }));
+      vi.mocked(AdjutorService.checkKarma).mockResolvedValueOnce({
+        isFlagged: true,
+        identity: user.email,
+        identityType: "email",
+        rawResponse: {
+          status: "success",
+          message: "Successful",
+          data: {
+            karma_identity: user.email,
+            amount_in_contention: "50000.00",
+            reason: null,
+            default_date: "2023-05-01",
+            karma_type: { karma: "Loan Default" },
+            karma_identity_type: { identity_type: "EMAIL" },
+            reporting_entity: { name: "Lender", email: "risk@lender.example" },
+          },
+        },
+        checkedAt: now,
+      });
+
+      await LoanService.apply("user-123", { productId: "product-1", amount: "50000" }, now);
+
+      expect(AdjutorService.checkKarma).toHaveBeenCalledTimes(1);
+      expect(AdjutorService.logCheck).toHaveBeenCalledWith("user-123", "email", expect.anything(), true);
+      expect(inserted(tables).status).toBe("declined");
+      expect(JSON.parse(inserted(tables).decision_reasons)[0]).toEqual({
+        code: "KARMA_LISTED",
+        outcome: "fail",
+        message: "email is on the Karma blacklist (Loan Default, 50000.00 in contention)",
+      });
+      expect(WalletService.fund).not.toHaveBeenCalled();
+    });
+
+    it("should refer an application to an admin when Karma cannot be checked", async () => {
+      const tables = mockDb();
+      tables["loan_products"].first.mockResolvedValueOnce(product);
+      tables["transactions"].first.mockResolvedValueOnce({ credits: 4, inflow: "80000.000000" });
+      tables["loan_applications"].first
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce(application({ status: "review" }));
+      vi.mocked(AdjutorService.checkKarma).mockResolvedValueOnce({
+        ...clean(user.email, "email"),
+        rawResponse: { status: "error", message: "Adjutor check failed, proceeding with caution" },
+      });
+
+      await LoanService.apply("user-123", { productId: "product-1", amount: "50000" }, now);
+
+      expect(inserted(tables)).toMatchObject({ status: "review", decided_at: null });
+      expect(JSON.parse(inserted(tables).decision_reasons)[0].code).toBe("KARMA_UNAVAILABLE");
+      expect(WalletService.fund).not.toHaveBeenCalled();
+    });
+
+    it("should decline a wallet with too few credits or too little inflow", async () => {
+      const tables = mockDb();
+      tables["loan_products"].first.mockResolvedValueOnce(product);
+      tables["transactions"].first.mockResolvedValueOnce({ credits: 2, inflow: "25000.000000" });
+      tables["loan_applications"].first
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce(application({ status: "declined" }));
+
+      await LoanService.apply("user-123", { productId: "product-1", amount: "50000" }, now);
+
+      const reasons = JSON.parse(inserted(tables).decision_reasons);
+      expect(inserted(tables).status).toBe("declined");
+      expect(reasons.slice(2, 4)).toEqual([
+        { code: "THIN_CREDIT_HISTORY", outcome: "fail", message: "2 credits in the last 90 days; at least 3 needed" },
+        {
+          code: "LOW_INFLOW",
+          outcome: "fail",
+          message: "25000.000000 received in the last 90 days; at least 50000.000000 needed",
+        },
+      ]);
+    });
+
+    it("should decline a user with a loan still outstanding", async () => {
+      const tables = mockDb();
+      tables["loan_products"].first.mockResolvedValueOnce(product);
+      tables["transactions"].first.mockResolvedValueOnce({ credits: 4, inflow: "80000.000000" });
+      tables["loan_applications"].first
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce({ id: "loan-0" })
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce(application({ status: "declined" }));
+
+      await LoanService.apply("user-123", { productId: "product-1", amount: "50000" }, now);
+
+      expect(inserted(tables).status).toBe("declined");
+      expect(JSON.parse(inserted(tables).decision_reasons)[1]).toEqual({
+        code: "OUTSTANDING_LOAN",
+        outcome: "fail",
+        message: "Loan loan-0 is still outstanding",
+      });
+    });
+
+    it("should score the applicant with the Karma lookup the check relied on", async () => {
+      const tables = mockDb();
+      tables["loan_products"].first.mockResolvedValueOnce(product);
+      tables["transactions"].first.mockResolvedValueOnce({ credits: 4, inflow: "80000.000000" });
+      tables["loan_applications"].first
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce(application({ status: "review" }));
+      vi.mocked(AdjutorService.checkKarma).mockResolvedValueOnce({
+        ...clean(user.email, "email"),
+        rawResponse: { status: "error", message: "Adjutor check failed, proceeding with caution" },
+      });
+
+      await LoanService.apply("user-123", { productId: "product-1", amount: "50000" }, now);
+
+      expect(CreditDecisionService.evaluate).toHaveBeenCalledWith(
+        user,
+        wallet,
+        { result: expect.objectContaining({ identityType: "email" }), unavailable: true },
+        now
+      );
+    });
+
+    it("should decline an application the credit decision declines", async () => {
+      const tables = mockDb();
+      tables["loan_products"].first.mockResolvedValueOnce(product);
+      tables["transactions"].first.mockResolvedValueOnce({ credits: 4, inflow: "80000.000000" });
+      tables["loan_applications"].first
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce(application({ status: "declined" }));
+      vi.mocked(CreditDecisionService.evaluate).mockResolvedValueOnce(
+        credit({
+          score: 450,
+          decision: "decline",
+          limit: Money.zero("NGN"),
+          reasons: [{ code: "ACCOUNT_NEW", points: -50, message: "Account opened less than 30 days ago" }],
+        })
+      );
+
+      await LoanService.apply("user-123", { productId: "product-1", amount: "50000" }, now);
+
+      expect(inserted(tables).status).toBe("declined");
+      expect(JSON.parse(inserted(tables).decision_reasons)[4]).toEqual({
+        code: "CREDIT_SCORE_DECLINED",
+        outcome: "fail",
+        message: "Credit decision declined (score 450 on scorecard 2024-01; reasons: ACCOUNT_NEW)",
+      });
+      expect(CreditDecisionService.record).toHaveBeenCalledWith(knex, expect.objectContaining({ score: 450 }), "loan-1");
+    });
+
+    it("should decline an amount above the credit limit", async () => {
+      const tables = mockDb();
+      tables["loan_products"].first.mockResolvedValueOnce(product);
+      tables["transactions"].first.mockResolvedValueOnce({ credits: 4, inflow: "80000.000000" });
+      tables["loan_applications"].first
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce(application({ status: "declined" }));
+      vi.mocked(CreditDecisionService.evaluate).mockResolvedValueOnce(credit({ limit: Money.parse("40000", "NGN") }));
+
+      await LoanService.apply("user-123", { productId: "product-1", amount: "50000" }, now);
+
+      expect(inserted(tables).status).toBe("declined");
+      expect(JSON.parse(inserted(tables).decision_reasons)[4]).toMatchObject({
+        code: "CREDIT_LIMIT_EXCEEDED",
+        outcome: "fail",
+      });
+    });
+
+    it("should refer an application the credit decision refers", async () => {
+      const tables = mockDb();
+      tables["loan_products"].first.mockResolvedValueOnce(product);
+      tables["transactions"].first.mockResolvedValueOnce({ credits: 4, inflow: "80000.000000" });
+      tables["loan_applications"].first
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce(application({ status: "review" }));
+      vi.mocked(CreditDecisionService.evaluate).mockResolvedValueOnce(
+        credit({ score: 550, decision: "refer", limit: Money.zero("NGN"), reasons: [] })
+      );
+
+      await LoanService.apply("user-123", { productId: "product-1", amount: "50000" }, now);
+
+      expect(inserted(tables).status).toBe("review");
+      expect(JSON.parse(inserted(tables).decision_reasons)[4]).toEqual({
+        code: "CREDIT_SCORE_REFER",
+        outcome: "refer",
+        message: "Credit decision referred with a limit of 0.000000 (score 550 on scorecard 2024-01; reasons: none)",
+      });
+      expect(WalletService.fund).not.toHaveBeenCalled();
+    });
+
+    it("should keep an approved application when the payout fails, with the error recorded", async () => {
+      const tables = mockDb();
+      tables["loan_products"].first.mockResolvedValueOnce(product);
+      tables["transactions"].first
+        .mockResolvedValueOnce({ credits: 4, inflow: "80000.000000" })
+        .mockResolvedValueOnce(undefined);
+      tables["loan_applications"].first
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce(application())
+        .mockResolvedValueOnce(application({ disbursement_error: "Maximum balance exceeded" }));
+      vi.mocked(WalletService.fund).mockRejectedValueOnce(new AppError(422, "Maximum balance exceeded"));
+
+      const result = await LoanService.apply("user-123", { productId: "product-1", amount: "50000" }, now);
+
+      expect(tables["loan_applications"].update).toHaveBeenCalledWith(
+        expect.objectContaining({ disbursement_error: "Maximum balance exceeded" })
+      );
+      expect(result.status).toBe("approved");
+      expect(result.disbursement_error).toBe("Maximum balance exceeded");
+    });
+
+    it("should reject an amount outside the product's range before any check", async () => {
+      const tables = mockDb();
+      tables["loan_products"].first.mockResolvedValueOnce(product);
+
+      await expect(
+        LoanService.apply("user-123", { productId: "product-1", amount: "600000" }, now)
+      ).rejects.toMatchObject({ statusCode: 400, message: "Amount must be between 10000.000000 and 500000.000000" });
+      expect(AdjutorService.checkKarma).not.toHaveBeenCalled();
+    });
+
+    it("should reject an inactive product", async () => {
+      const tables = mockDb();
+      tables["loan_products"].first.mockResolvedValueOnce({ ...product, active: 0 });
+
+      await expect(
+        LoanService.apply("user-123", { productId: "product-1", amount: "50000" }, now)
+      ).rejects.toMatchObject({ statusCode: 409 });
+    });
+
+    it("should reject a second application while one is in review", async () => {
+      const tables = mockDb();
+      tables["loan_products"].first.mockResolvedValueOnce(product);
+      tables["loan_applications"].first.mockResolvedValueOnce({ id: "loan-0", status: "review" });
+
+      await expect(
+        LoanService.apply("user-123", { productId: "product-1", amount: "50000" }, now)
+      ).rejects.toThrow("Loan application loan-0 is still review");
+      expect(AdjutorService.checkKarma).not.toHaveBeenCalled();
+    });
+
+    it("should return 404 when the user has no wallet in the product currency", async () => {
+      const tables = mockDb();
+      tables["loan_products"].first.mockResolvedValueOnce(product);
+      vi.mocked(WalletService.getWalletByUserId).mockResolvedValueOnce(null);
+
+      await expect(
+        LoanService.apply("user-123", { productId: "product-1", amount: "50000" }, now)
+      ).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+
+  describe("decide", () => {
+    it("should decline a referred application with the admin's reason", async () => {
+      const tables = mockDb();
+      tables["loan_applications"].first
+        .mockResolvedValueOnce(application({ status: "review", decided_at: null }))
+        .mockResolvedValueOnce(application({ status: "declined" }));
+
+      const result = await LoanService.decide("admin-1", "loan-1", "decline", "Income could not be verified");
+
+      const update = tables["loan_applications"].update.mock.calls[0][0];
+      expect(update).toMatchObject({ status: "declined", decided_by: "admin-1" });
+      expect(JSON.parse(update.decision_reasons).at(-1)).toEqual({
+        code: "ADMIN_DECLINED",
+        outcome: "fail",
+        message: "Income could not be verified",
+      });
+      expect(result.status).toBe("declined");
+      expect(WalletService.fund).not.toHaveBeenCalled();
+    });
+
+    it("should disburse an application the admin approves", async () => {
+      const tables = mockDb();
+      tables["loan_applications"].first
+        .mockResolvedValueOnce(application({ status: "review", decided_at: null }))
+        .mockResolvedValueOnce(application())
+        .mockResolvedValueOnce(application({ status: "disbursed" }));
+      tables["transactions"].first.mockResolvedValueOnce(undefined);
+
+      const result = await LoanService.decide("admin-1", "loan-1", "approve", "Karma checked manually");
+
+      expect(WalletService.fund).toHaveBeenCalled();
+      expect(result.status).toBe("disbursed");
+    });
+
+    it("should only decide applications in review", async () => {
+      const tables = mockDb();
+      tables["loan_applications"].first.mockResolvedValueOnce(application({ status: "declined" }));
+
+      await expect(
+        LoanService.decide("admin-1", "loan-1", "approve", "Second look")
+      ).rejects.toMatchObject({ statusCode: 409 });
+    });
+  });
+
+  describe("disburse", () => {
+    it("should reuse a credit already posted under the loan's reference", async () => {
+      const tables = mockDb();
+      tables["loan_applications"].first
+        .mockResolvedValueOnce(application({ disbursement_error: "Lock wait timeout" }))
+        .mockResolvedValueOnce(application({ status: "disbursed", disbursement_transaction_id: "txn-0" }));
+      tables["transactions"].first.mockResolvedValueOnce({ id: "txn-0", reference: "LOAN-loan-1-DISBURSE" });
+
+      await LoanService.disburse("loan-1");
+
+      expect(tables["transactions"].where).toHaveBeenCalledWith({ reference: "LOAN-loan-1-DISBURSE" });
+      expect(WalletService.fund).not.toHaveBeenCalled();
+      expect(tables["loan_applications"].update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: "disbursed", disbursement_transaction_id: "txn-0", disbursement_error: null })
+      );
+      expect(tables["loan_installments"].insert).toHaveBeenCalled();
+    });
+
+    it("should not draw up a second schedule when another attempt disbursed first", async () => {
+      const tables = mockDb();
+      tables["loan_applications"].first
+        .mockResolvedValueOnce(application())
+        .mockResolvedValueOnce(application({ status: "disbursed" }));
+      tables["transactions"].first.mockResolvedValueOnce({ id: "txn-0" });
+      tables["loan_applications"].update.mockResolvedValueOnce(0);
+
+      await LoanService.disburse("loan-1");
+
+      expect(tables["loan_installments"].insert).not.toHaveBeenCalled();
+    });
+
+    it("should only disburse approved applications", async () => {
+      const tables = mockDb();
+      tables["loan_applications"].first.mockResolvedValueOnce(application({ status: "disbursed" }));
+
+      await expect(LoanService.disburse("loan-1")).rejects.toMatchObject({ statusCode: 409 });
+    });
+  });
+
+  describe("createProduct", () => {
+    const input = {
+      name: "Salary Advance",
+      currency: "NGN",
+      minAmount: "10000",
+      maxAmount: "500000",
+      tenorMonths: 3,
+      interestRateBps: 3000,
+      feeFlat: "500",
+      feeBps: 100,
+    };
+
+    it("should add a product", async () => {
+      const tables = mockDb();
+      tables["loan_products"].first
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce(product);
+
+      const result = await LoanService.createProduct(input);
+
+      expect(tables["loan_products"].insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          min_amount_decimal: "10000.000000",
+          max_amount_decimal: "500000.000000",
+          fee_flat_decimal: "500.000000",
+          fee_bps: 100,
+          repayment_method: "reducing_balance",
+          late_penalty_bps: 0,
+          active: true,
+        })
+      );
+      expect(result.active).toBe(true);
+    });
+
+    it("should reject a minimum above the maximum", async () => {
+      mockDb();
+
+      await expect(
+        LoanService.createProduct({ ...input, minAmount: "600000" })
+      ).rejects.toThrow("minAmount must not exceed maxAmount");
+    });
+
+    it("should reject a fee that leaves nothing to pay out on the minimum", async () => {
+      mockDb();
+
+      await expect(
+        LoanService.createProduct({ ...input, feeFlat: "10000" })
+      ).rejects.toMatchObject({ statusCode: 400 });
+    });
+
+    it("should reject a duplicate name", async () => {
+      const tables = mockDb();
+      tables["loan_products"].first.mockResolvedValueOnce({ id: "product-1" });
+
+      await expect(LoanService.createProduct(input)).rejects.toMatchObject({ statusCode: 409 });
+    });
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Login Attempt Service Tests
+ *
+ * Unit tests for throttling failed password logins.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { LoginAttemptService } from "../../src/services/login-attempt.service";
+import { knex } from "../../src/db";
+import { mockQuery } from "../helpers/query-mock";
+import { AppError } from "../../src/middlewares/error";
+
+// Mock the database
+vi.mock("../../src/db", () => {
+  const knexMock = vi.fn() as any;
+  knexMock.fn = { now: () => new Date() };
+  return {
+    knex: knexMock,
+    newId: vi.fn(() => "attempt-123"),
+  };
+});
+
+describe("LoginAttemptService", () => {
+  const now = new Date("2024-03-01T09:00:00.000Z");
+
+  // Query mock whose failure counts resolve in order (account, then address)
+  const mockDb = (...counts: number[]) => {
+    const query = mockQuery();
+    for (const count of counts) {
+      query.first.mockResolvedValueOnce({ count });
+    }
+    vi.mocked(knex).mockReturnValue(query as any);
+    return query;
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("assertAllowed", () => {
+    it("should allow an account and address under their limits", async () => {
+      const query = mockDb(4, 19);
+
+      await LoginAttemptService.assertAllowed("user-123", "203.0.113.7", now);
+
+      expect(query.where).toHaveBeenCalledWith("account", "user-123");
+      expect(query.where).toHaveBeenCalledWith("ip_address", "203.0.113.7");
+      expect(query.where).toHaveBeenCalledWith("created_at", ">", new Date("2024-03-01T08:45:00.000Z"));
+    });
+
+    it("should refuse an account with too many recent failures", async () => {
+      const query = mockDb(5);
+
+      const error = await LoginAttemptService.assertAllowed("user-123", "203.0.113.7", now).catch((e) => e);
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.statusCode).toBe(429);
+      expect(query.where).not.toHaveBeenCalledWith("ip_address", "203.0.113.7");
+    });
+
+    it("should refuse an address with too many recent failures", async () => {
+      mockDb(0, 20);
+
+      const error = await LoginAttemptService.assertAllowed("user-456", "203.0.113.7", now).catch((e) => e);
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.statusCode).toBe(429);
+      expect(error.message).toBe("Too many failed login attempts; try again later");
+    });
+
+    it("should only check the account when the address is unknown", async () => {
+      const query = mockDb(0);
+
+      await LoginAttemptService.assertAllowed("email:jane@example.com", undefined, now);
+
+      expect(query.first).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("recordFailure", () => {
+    it("should store the account and address", async () => {
+      const query = mockDb();
+
+      await LoginAttemptService.recordFailure("user-123", "203.0.113.7", now);
+
+      expect(knex).toHaveBeenCalledWith("login_attempts");
+      expect(query.insert).toHaveBeenCalledWith({
+        id: "attempt-123",
+        account: "user-123",
+        ip_address: "203.0.113.7",
+        created_at: now,
+      });
+    });
+  });
+
+  describe("clear", () => {
+    it("should delete the account's failures", async () => {
+      const query = mockDb();
+
+      await LoginAttemptService.clear("user-123");
+
+      expect(query.where).toHaveBeenCalledWith({ account: "user-123" });
+      expect(query.delete).toHaveBeenCalled();
+    });
+  });
+
+  describe("purgeExpired", () => {
+    it("should delete failures older than the window", async () => {
+      const query = mockDb();
+      query.delete.mockResolvedValueOnce(3);
+
+      const deleted = await LoginAttemptService.purgeExpired(now);
+
+      expect(deleted).toBe(3);
+      expect(query.where).toHaveBeenCalledWith("created_at", "<=", new Date("2024-03-01T08:45:00.000Z"));
+    });
+  });
+});
@@ -0,0 +1,26 @@
+/**
+ * Masking Utility Tests
+ *
+ * Unit tests for masking names shown to other users.
+ */
+
+import { describe, it, expect } from "vitest";
+import { maskName } from "../../src/utils/mask";
+
+describe("maskName", () => {
+  it("should keep the first letter of each word", () => {
+    expect(maskName("John Doe")).toBe("J*** D**");
+  });
+
+  it("should not reveal the length of short words", () => {
+    expect(maskName("Al B")).toBe("A** B**");
+  });
+
+  it("should collapse extra whitespace", () => {
+    expect(maskName("  Ada   Lovelace ")).toBe("A** L*******");
+  });
+
+  it("should handle accented letters as single characters", () => {
+    expect(maskName("Chiọma Ébùn")).toBe("C***** É***");
+  });
+});
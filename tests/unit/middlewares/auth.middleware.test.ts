@@ -6,12 +6,28 @@
 
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { Request, Response, NextFunction } from "express";
-import { authMiddleware } from "../../../src/middlewares/auth";
+import { authMiddleware, adminMiddleware } from "../../../src/middlewares/auth";
 import * as tokenUtils from "../../../src/utils/token";
+import { UserService } from "../../../src/services/user.service";
+import { SessionService } from "../../../src/services/session.service";
 
 // Mock token utilities
 vi.mock("../../../src/utils/token");
 
+// Mock session lookups
+vi.mock("../../../src/services/session.service", () => ({
+  SessionService: {
+    isActive: vi.fn(),
+  },
+}));
+
+// Mock user lookups for the admin check
+vi.mock("../../../src/services/user.service", () => ({
+  UserService: {
+    getUserById: vi.fn(),
+  },
+}));
+
 describe("authMiddleware", () => {
   let mockReq: Partial<Request>;
   let mockRes: Partial<Response>;
@@ -30,16 +46,18 @@ describe("authMiddleware", () => {
     };
 
     mockNext = vi.fn();
+    vi.mocked(SessionService.isActive).mockResolvedValue(true);
   });
 
   it("should pass valid Bearer token", async () => {
     mockReq.headers = {
-      authorization: "Bearer candidate:user-123:nonce:signature",
+      authorization: "Bearer candidate:user-123:session-123:1709284500:signature",
     };
 
     vi.mocked(tokenUtils.verifyToken).mockReturnValue({
       userId: "user-123",
-      nonce: "nonce",
+      sessionId: "session-123",
+      expiresAt: new Date(Date.now() + 60000),
     });
 
     await authMiddleware(
@@ -49,10 +67,87 @@ describe("authMiddleware", () => {
     );
 
     expect(mockReq.user).toEqual({ id: "user-123" });
+    expect(SessionService.isActive).toHaveBeenCalledWith("session-123");
     expect(mockNext).toHaveBeenCalled();
     expect(mockRes.status).not.toHaveBeenCalled();
   });
 
+  it("should return 401 when the token has expired", async () => {
+    mockReq.headers = {
+      authorization: "Bearer candidate:user-123:session-123:1709284500:signature",
+    };
+
+    vi.mocked(tokenUtils.verifyToken).mockImplementation(() => {
+      throw new Error("Token has expired");
+    });
+
+    await authMiddleware(
+      mockReq as Request,
+      mockRes as Response,
+      mockNext
+    );
+
+    expect(mockRes.status).toHaveBeenCalledWith(401);
+    expect(mockRes.json).toHaveBeenCalledWith({
+      success: false,
+      error: "Unauthorized",
+      message: "Token has expired",
+    });
+    expect(SessionService.isActive).not.toHaveBeenCalled();
+    expect(mockNext).not.toHaveBeenCalled();
+  });
+
+  it("should return 401 when the session has been revoked", async () => {
+    mockReq.headers = {
+      authorization: "Bearer candidate:user-123:session-123:1709284500:signature",
+    };
+
+    vi.mocked(tokenUtils.verifyToken).mockReturnValue({
+      userId: "user-123",
+      sessionId: "session-123",
+      expiresAt: new Date(Date.now() + 60000),
+    });
+    vi.mocked(SessionService.isActive).mockResolvedValue(false);
+
+    await authMiddleware(
+      mockReq as Request,
+      mockRes as Response,
+      mockNext
+    );
+
+    expect(mockRes.status).toHaveBeenCalledWith(401);
+    expect(mockRes.json).toHaveBeenCalledWith({
+      success: false,
+      error: "Unauthorized",
+      message: "Session has been revoked",
+    });
+    expect(mockReq.user).toBeUndefined();
+    expect(mockNext).not.toHaveBeenCalled();
+  });
+
+  it("should pass session lookup failures to the error handler", async () => {
+    mockReq.headers = {
+      authorization: "Bearer candidate:user-123:session-123:1709284500:signature",
+    };
+
+    vi.mocked(tokenUtils.verifyToken).mockReturnValue({
+      userId: "user-123",
+      sessionId: "session-123",
+      expiresAt: new Date(Date.now() + 60000),
+    });
+    const error = new Error("Connection lost");
+    vi.mocked(SessionService.isActive).mockRejectedValue(error);
+
+    await authMiddleware(
+      mockReq as Request,
+      mockRes as Response,
+      mockNext
+    );
+
+    expect(mockNext).toHaveBeenCalledWith(error);
+    expect(mockRes.status).not.toHaveBeenCalled();
+  });
+
   it("should return 401 when Authorization header is missing", async () => {
     mockReq.headers = {};
 
@@ -111,7 +206,7 @@ describe("authMiddleware", () => {
 
   it("should return 401 when token signature is invalid", async () => {
     mockReq.headers = {
-      authorization: "Bearer candidate:user-123:nonce:invalid-signature",
+      authorization: "Bearer candidate:user-123:session-123:1709284500:invalid-signature",
     };
 
     vi.mocked(tokenUtils.verifyToken).mockImplementation(() => {
@@ -157,12 +252,13 @@ describe("authMiddleware", () => {
 
   it("should attach user ID to request", async () => {
     mockReq.headers = {
-      authorization: "Bearer candidate:user-456:nonce:signature",
+      authorization: "Bearer candidate:user-456:session-123:1709284500:signature",
     };
 
     vi.mocked(tokenUtils.verifyToken).mockReturnValue({
       userId: "user-456",
-      nonce: "nonce",
+      sessionId: "session-123",
+      expiresAt: new Date(Date.now() + 60000),
     });
 
     await authMiddleware(
@@ -178,11 +274,12 @@ describe("authMiddleware", () => {
   it("should handle multiple consecutive calls independently", async () => {
     // First call with valid token
     mockReq.headers = {
-      authorization: "Bearer candidate:user-111:nonce:sig1",
+      authorization: "Bearer candidate:user-111:session-123:1709284500:sig1",
     };
     vi.mocked(tokenUtils.verifyToken).mockReturnValue({
       userId: "user-111",
-      nonce: "nonce",
+      sessionId: "session-123",
+      expiresAt: new Date(Date.now() + 60000),
     });
 
     await authMiddleware(mockReq as Request, mockRes as Response, mockNext);
@@ -198,3 +295,50 @@ describe("authMiddleware", () => {
   });
 });
 
+describe("adminMiddleware", () => {
+  let mockReq: Partial<Request>;
+  let mockRes: Partial<Response>;
+  let mockNext: NextFunction;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockReq = {
+      user: { id: "user-123" },
+    };
+
+    mockRes = {
+      status: vi.fn().mockReturnThis(),
+      json: vi.fn(),
+    };
+
+    mockNext = vi.fn();
+  });
+
+  it("should allow admins", async () => {
+    vi.mocked(UserService.getUserById).mockResolvedValue({ id: "user-123", role: "admin" } as any);
+
+    await adminMiddleware(mockReq as Request, mockRes as Response, mockNext);
+
+    expect(mockNext).toHaveBeenCalledWith();
+    expect(mockRes.status).not.toHaveBeenCalled();
+  });
+
+  it("should reject non-admin users with 403", async () => {
+    vi.mocked(UserService.getUserById).mockResolvedValue({ id: "user-123", role: "user" } as any);
+
+    await adminMiddleware(mockReq as Request, mockRes as Response, mockNext);
+
+    expect(mockRes.status).toHaveBeenCalledWith(403);
+    expect(mockNext).not.toHaveBeenCalled();
+  });
+
+  it("should reject unauthenticated requests with 401", async () => {
+    mockReq.user = undefined;
+
+    await adminMiddleware(mockReq as Request, mockRes as Response, mockNext);
+
+    expect(mockRes.status).toHaveBeenCalledWith(401);
+    expect(UserService.getUserById).not.toHaveBeenCalled();
+  });
+});
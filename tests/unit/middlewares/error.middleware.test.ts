@@ -6,7 +6,12 @@
 
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { Request, Response, NextFunction } from "express";
-import { AppError, errorHandler } from "../../../src/middlewares/error";
+import {
+  AppError,
+  BatchValidationError,
+  LimitExceededError,
+  errorHandler,
+} from "../../../src/middlewares/error";
 
 // Mock config
 vi.mock("../../../src/config/env", () => ({
@@ -129,6 +134,18 @@ describe("errorHandler", () => {
     );
   });
 
+  it("should map 429 to Too Many Requests", () => {
+    const error = new AppError(429, "Too many wrong codes; request a new one");
+
+    errorHandler(error, mockReq as Request, mockRes as Response, mockNext);
+
+    expect(mockRes.json).toHaveBeenCalledWith(
+      expect.objectContaining({
+        error: "Too Many Requests",
+      })
+    );
+  });
+
   it("should default to Error for unknown status codes", () => {
     const error = new AppError(418, "I'm a teapot");
 
@@ -141,6 +158,46 @@ describe("errorHandler", () => {
     );
   });
 
+  it("should include the breached limit for LimitExceededError", () => {
+    const breach = {
+      limit: "daily" as const,
+      tier: "tier_1",
+      currency: "NGN",
+      max: "50000.000000",
+      used: "45000.000000",
+      requested: "10000.000000",
+    };
+    const error = new LimitExceededError(403, "Daily limit exceeded", breach);
+
+    errorHandler(error, mockReq as Request, mockRes as Response, mockNext);
+
+    expect(mockRes.status).toHaveBeenCalledWith(403);
+    expect(mockRes.json).toHaveBeenCalledWith({
+      success: false,
+      error: "Forbidden",
+      message: "Daily limit exceeded",
+      limit: breach,
+    });
+  });
+
+  it("should include the invalid rows for BatchValidationError", () => {
+    const rows = [
+      { row: 2, field: "amount", message: "Amount must be positive" },
+      { row: 3, field: "recipient_user_id", message: "Duplicate of row 1" },
+    ];
+    const error = new BatchValidationError(422, "Payout batch rejected: 2 of 3 rows are invalid", rows);
+
+    errorHandler(error, mockReq as Request, mockRes as Response, mockNext);
+
+    expect(mockRes.status).toHaveBeenCalledWith(422);
+    expect(mockRes.json).toHaveBeenCalledWith({
+      success: false,
+      error: "Validation Error",
+      message: "Payout batch rejected: 2 of 3 rows are invalid",
+      rows,
+    });
+  });
+
   it("should handle standard Error with 500 status", () => {
     const error = new Error("Something went wrong");
 
@@ -0,0 +1,140 @@
+/**
+ * Idempotency Middleware Tests
+ * 
+ * Unit tests for Idempotency-Key handling on money-moving endpoints.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Request, Response, NextFunction } from "express";
+import { idempotencyMiddleware } from "../../../src/middlewares/idempotency";
+import { IdempotencyService } from "../../../src/services/idempotency.service";
+
+// Mock IdempotencyService (keep the real fingerprint implementation)
+vi.mock("../../../src/services/idempotency.service", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../../../src/services/idempotency.service")>();
+  return {
+    IdempotencyService: {
+      fingerprint: actual.IdempotencyService.fingerprint.bind(actual.IdempotencyService),
+      begin: vi.fn(),
+      complete: vi.fn().mockResolvedValue(undefined),
+      release: vi.fn().mockResolvedValue(undefined),
+    },
+  };
+});
+
+describe("idempotencyMiddleware", () => {
+  let mockReq: Partial<Request>;
+  let mockRes: Partial<Response> & { statusCode: number };
+  let mockNext: NextFunction;
+  let sentJson: ReturnType<typeof vi.fn>;
+
+  const withKey = (key: string | undefined) => {
+    mockReq.header = vi.fn((name: string) =>
+      name.toLowerCase() === "idempotency-key" ? key : undefined
+    ) as any;
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    sentJson = vi.fn();
+    mockReq = {
+      method: "POST",
+      baseUrl: "/api/v1/wallets",
+      path: "/user-123/fund",
+      body: { amount: 500 },
+      user: { id: "user-123" },
+    };
+    mockRes = {
+      statusCode: 200,
+      status: vi.fn(function (this: any, code: number) {
+        this.statusCode = code;
+        return this;
+      }),
+      json: sentJson,
+      setHeader: vi.fn(),
+    } as any;
+    mockNext = vi.fn();
+  });
+
+  const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+  it("should pass through when no Idempotency-Key header is sent", async () => {
+    withKey(undefined);
+
+    await idempotencyMiddleware(mockReq as Request, mockRes as Response, mockNext);
+
+    expect(mockNext).toHaveBeenCalledWith();
+    expect(IdempotencyService.begin).not.toHaveBeenCalled();
+  });
+
+  it("should reject an oversized key", async () => {
+    withKey("k".repeat(256));
+
+    await idempotencyMiddleware(mockReq as Request, mockRes as Response, mockNext);
+
+    expect(mockRes.status).toHaveBeenCalledWith(400);
+    expect(mockNext).not.toHaveBeenCalled();
+  });
+
+  it("should replay the stored response for a repeated key", async () => {
+    withKey("key-1");
+    const stored = { success: true, data: { reference: "FUND-1" } };
+    vi.mocked(IdempotencyService.begin).mockResolvedValue({
+      status: "replay",
+      responseStatus: 200,
+      responseBody: stored,
+    });
+
+    await idempotencyMiddleware(mockReq as Request, mockRes as Response, mockNext);
+
+    expect(mockRes.setHeader).toHaveBeenCalledWith("Idempotent-Replayed", "true");
+    expect(mockRes.status).toHaveBeenCalledWith(200);
+    expect(sentJson).toHaveBeenCalledWith(stored);
+    expect(mockNext).not.toHaveBeenCalled();
+  });
+
+  it("should store the first successful response", async () => {
+    withKey("key-1");
+    vi.mocked(IdempotencyService.begin).mockResolvedValue({
+      status: "new",
+      recordId: "record-1",
+    });
+
+    await idempotencyMiddleware(mockReq as Request, mockRes as Response, mockNext);
+    expect(mockNext).toHaveBeenCalledWith();
+
+    const body = { success: true };
+    (mockRes as Response).status(200).json(body);
+    await flush();
+
+    expect(IdempotencyService.complete).toHaveBeenCalledWith("record-1", 200, body);
+    expect(sentJson).toHaveBeenCalledWith(body);
+  });
+
+  it("should release the key when the request fails", async () => {
+    withKey("key-1");
+    vi.mocked(IdempotencyService.begin).mockResolvedValue({
+      status: "new",
+      recordId: "record-1",
+    });
+
+    await idempotencyMiddleware(mockReq as Request, mockRes as Response, mockNext);
+
+    (mockRes as Response).status(500).json({ success: false });
+    await flush();
+
+    expect(IdempotencyService.release).toHaveBeenCalledWith("record-1");
+    expect(IdempotencyService.complete).not.toHaveBeenCalled();
+  });
+
+  it("should forward mismatch errors to the error handler", async () => {
+    withKey("key-1");
+    const error = new Error("Idempotency-Key has already been used with a different request payload");
+    vi.mocked(IdempotencyService.begin).mockRejectedValue(error);
+
+    await idempotencyMiddleware(mockReq as Request, mockRes as Response, mockNext);
+
+    expect(mockNext).toHaveBeenCalledWith(error);
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Money Utility Tests
+ * 
+ * Unit tests for exact decimal money parsing, arithmetic and formatting.
+ */
+
+import { describe, it, expect } from "vitest";
+import { Money } from "../../src/utils/money";
+
+describe("Money", () => {
+  describe("parse", () => {
+    it("should parse a decimal string within the currency scale", () => {
+      const amount = Money.parse("1500.50", "NGN");
+
+      expect(amount.toStorageString()).toBe("1500.500000");
+      expect(amount.currency).toBe("NGN");
+    });
+
+    it("should parse whole amounts", () => {
+      expect(Money.parse("42", "NGN").toStorageString()).toBe("42.000000");
+    });
+
+    it("should reject more decimal places than the currency allows", () => {
+      expect(() => Money.parse("10.123", "NGN")).toThrow(
+        "Amount cannot have more than 2 decimal places for NGN"
+      );
+    });
+
+    it("should reject zero and negative amounts", () => {
+      expect(() => Money.parse("0", "NGN")).toThrow("Amount must be positive");
+      expect(() => Money.parse("0.00", "NGN")).toThrow("Amount must be positive");
+      expect(() => Money.parse("-5", "NGN")).toThrow("Amount must be positive");
+    });
+
+    it("should reject malformed and non-string input", () => {
+      expect(() => Money.parse("1e5", "NGN")).toThrow("decimal string");
+      expect(() => Money.parse("abc", "NGN")).toThrow("decimal string");
+      expect(() => Money.parse(100 as any, "NGN")).toThrow("decimal string");
+    });
+
+    it("should reject unsupported currencies", () => {
+      expect(() => Money.parse("10", "XYZ")).toThrow("Unsupported currency");
+    });
+  });
+
+  describe("arithmetic", () => {
+    it("should add and subtract without floating point drift", () => {
+      // 0.1 + 0.2 !== 0.3 in floating point
+      const sum = Money.fromStorage("0.100000", "NGN").add(Money.fromStorage("0.200000", "NGN"));
+      expect(sum.toStorageString()).toBe("0.300000");
+
+      const big = Money.fromStorage("99999999999999.990000", "NGN");
+      expect(big.add(Money.parse("0.01", "NGN")).toStorageString()).toBe(
+        "100000000000000.000000"
+      );
+      expect(big.subtract(Money.parse("0.99", "NGN")).toStorageString()).toBe(
+        "99999999999999.000000"
+      );
+    });
+
+    it("should compare amounts", () => {
+      const a = Money.fromStorage("100.000000", "NGN");
+      const b = Money.parse("100.01", "NGN");
+
+      expect(a.lessThan(b)).toBe(true);
+      expect(b.greaterThan(a)).toBe(true);
+      expect(a.equals(Money.parse("100", "NGN"))).toBe(true);
+    });
+
+    it("should format negative results", () => {
+      const result = Money.parse("1", "NGN").subtract(Money.parse("1.50", "NGN"));
+
+      expect(result.isNegative()).toBe(true);
+      expect(result.toStorageString()).toBe("-0.500000");
+    });
+
+    it("should refuse to combine different currencies", () => {
+      const ngn = Money.parse("1", "NGN");
+      const other = Money.zero("USD");
+
+      expect(() => ngn.add(other)).toThrow("Currency mismatch");
+    });
+  });
+
+  describe("conversion", () => {
+    it("should convert at a rate and truncate to the target precision", () => {
+      const usd = Money.parse("10.01", "USD");
+
+      const ngn = usd.convert("1498.123456", "NGN");
+
+      expect(ngn.currency).toBe("NGN");
+      // 10.01 * 1498.123456 = 14996.21578456 -> 14996.21
+      expect(ngn.toStorageString()).toBe("14996.210000");
+    });
+
+    it("should reject malformed rates", () => {
+      expect(() => Money.parse("1", "USD").convert("-1", "NGN")).toThrow("Invalid exchange rate");
+    });
+
+    it("should take basis points of an amount", () => {
+      const amount = Money.parse("1000.99", "NGN");
+
+      expect(amount.basisPoints(50).toStorageString()).toBe("5.000000");
+      expect(amount.basisPoints(0).isZero()).toBe(true);
+    });
+  });
+
+  describe("interest", () => {
+    it("should compute a day's interest at storage precision", () => {
+      const balance = Money.parse("100000", "NGN");
+
+      // 100000 * 5% / 365 = 13.698630136... -> 13.698630
+      expect(balance.dailyInterest(500).toStorageString()).toBe("13.698630");
+      expect(balance.dailyInterest(500, 366).toStorageString()).toBe("13.661202");
+      expect(balance.dailyInterest(0).isZero()).toBe(true);
+    });
+
+    it("should truncate to the currency's precision", () => {
+      expect(Money.fromStorage("13.698630", "NGN").toCurrencyPrecision().toStorageString()).toBe("13.690000");
+      expect(Money.fromStorage("0.009999", "USD").toCurrencyPrecision().isZero()).toBe(true);
+    });
+  });
+
+  describe("loan arithmetic", () => {
+    it("should compute a month's interest at an annual rate", () => {
+      // 50000 * 30% / 12 = 1250
+      expect(Money.parse("50000", "NGN").monthlyInterest(3000).toStorageString()).toBe("1250.000000");
+      expect(Money.parse("100", "NGN").monthlyInterest(1000).toStorageString()).toBe("0.830000");
+    });
+
+    it("should divide into equal parts without exceeding the whole", () => {
+      expect(Money.parse("100", "NGN").divide(3).toStorageString()).toBe("33.330000");
+      expect(Money.parse("90", "USD").divide(3).toStorageString()).toBe("30.000000");
+    });
+
+    it("should compute a level annuity payment", () => {
+      // 120000 at 1% a month over 12 months
+      expect(Money.parse("120000", "NGN").annuityPayment(1200, 12).toStorageString()).toBe("10661.850000");
+      expect(Money.parse("1000", "NGN").annuityPayment(0, 4).toStorageString()).toBe("250.000000");
+    });
+  });
+
+  describe("formatting", () => {
+    it("should format with the currency's fractional digits", () => {
+      expect(Money.parse("1500.5", "NGN").toCurrencyString()).toBe("1500.50");
+      expect(Money.fromStorage("13.698630", "NGN").toCurrencyString()).toBe("13.69");
+    });
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * OTP Delivery Service Tests
+ *
+ * Unit tests for the console and file login code adapters.
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  OtpDeliveryService,
+  ConsoleOtpDelivery,
+  FileOtpDelivery,
+} from "../../src/services/otp-delivery.service";
+import { config } from "../../src/config/env";
+
+describe("OtpDeliveryService", () => {
+  const message = {
+    channel: "email" as const,
+    destination: "[email protected]",
+    code: "048213",
+    expiresAt: new Date("2024-03-01T09:05:00.000Z"),
+  };
+
+  afterEach(() => {
+    OtpDeliveryService.setDelivery(null);
+    vi.restoreAllMocks();
+  });
+
+  it("should use the console adapter by default", () => {
+    expect(OtpDeliveryService.getDelivery()).toBeInstanceOf(ConsoleOtpDelivery);
+  });
+
+  it("should have no adapter when OTP_DELIVERY is none", async () => {
+    const otpDelivery = config.auth.otpDelivery;
+    config.auth.otpDelivery = "none";
+
+    try {
+      expect(OtpDeliveryService.getDelivery()).toBeNull();
+      expect(OtpDeliveryService.isAvailable()).toBe(false);
+      await expect(OtpDeliveryService.send(message)).rejects.toThrow("No OTP delivery adapter is set");
+    } finally {
+      config.auth.otpDelivery = otpDelivery;
+    }
+  });
+
+  it("should print codes with the console adapter", async () => {
+    const log = vi.spyOn(console, "log").mockImplementation(() => undefined);
+
+    await new ConsoleOtpDelivery().deliver(message);
+
+    expect(log).toHaveBeenCalledWith(expect.stringContaining("048213"));
+    expect(log).toHaveBeenCalledWith(expect.stringContaining("[email protected]"));
+  });
+
+  it("should append one JSON line per code with the file adapter", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "otp-"));
+    const file = join(dir, "outbox.log");
+
+    try {
+      const delivery = new FileOtpDelivery(file);
+      await delivery.deliver(message);
+      await delivery.deliver({ ...message, channel: "phone", destination: "+2348012345678", code: "112233" });
+
+      const lines = (await readFile(file, "utf8")).trim().split("\n").map((line) => JSON.parse(line));
+      expect(lines).toHaveLength(2);
+      expect(lines[0]).toMatchObject({
+        channel: "email",
+        destination: "[email protected]",
+        code: "048213",
+        expires_at: "2024-03-01T09:05:00.000Z",
+      });
+      expect(lines[1]).toMatchObject({ channel: "phone", code: "112233" });
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("should send through an adapter set at runtime", async () => {
+    const deliver = vi.fn().mockResolvedValue(undefined);
+    OtpDeliveryService.setDelivery({ name: "gateway", deliver });
+
+    await OtpDeliveryService.send(message);
+
+    expect(deliver).toHaveBeenCalledWith(message);
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * OTP Service Tests
+ *
+ * Unit tests for issuing and checking one-time login codes.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { OtpService } from "../../src/services/otp.service";
+import { OtpDeliveryService, OtpDelivery, OtpMessage } from "../../src/services/otp-delivery.service";
+import { knex } from "../../src/db";
+import { mockQuery } from "../helpers/query-mock";
+import { AppError } from "../../src/middlewares/error";
+
+// Mock the database
+vi.mock("../../src/db", () => {
+  const knexMock = vi.fn() as any;
+  knexMock.fn = { now: () => new Date() };
+  return {
+    knex: knexMock,
+    newId: vi.fn(() => "otp-123"),
+  };
+});
+
+describe("OtpService", () => {
+  const now = new Date("2024-03-01T09:00:00.000Z");
+  let sent: OtpMessage[];
+
+  const delivery: OtpDelivery = {
+    name: "test",
+    deliver: vi.fn(async (message: OtpMessage) => {
+      sent.push(message);
+    }),
+  };
+
+  // Query mock that resolves lookups to `current` and records writes
+  const mockDb = (current: any, claimed = 1) => {
+    const query = Object.assign(mockQuery(), { increment: vi.fn().mockResolvedValue(claimed) });
+    query.first.mockResolvedValue(current);
+    vi.mocked(knex).mockReturnValue(query as any);
+    return query;
+  };
+
+  /**
+   * Issue a code and return the row that would have been stored, with the code sent
+   */
+  const issueCode = async () => {
+    const query = mockDb(undefined);
+    await OtpService.issue("user-123", "email", "[email protected]", now);
+    const row = query.insert.mock.calls[0]![0];
+    return { row: { ...row, attempts: 0 }, code: sent[0]!.code };
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    sent = [];
+    OtpDeliveryService.setDelivery(delivery);
+  });
+
+  afterEach(() => {
+    OtpDeliveryService.setDelivery(null);
+  });
+
+  describe("generateCode", () => {
+    it("should generate a numeric code of OTP_LENGTH digits", () => {
+      for (let i = 0; i < 20; i++) {
+        expect(OtpService.generateCode()).toMatch(/^\d{6}$/);
+      }
+    });
+  });
+
+  describe("issue", () => {
+    it("should store a hash of the code and send the code", async () => {
+      const query = mockDb(undefined);
+
+      const issued = await OtpService.issue("user-123", "email", "[email protected]", now);
+
+      expect(issued).toEqual({
+        id: "otp-123",
+        channel: "email",
+        expiresAt: new Date("2024-03-01T09:05:00.000Z"),
+      });
+      expect(sent).toHaveLength(1);
+      expect(sent[0]).toMatchObject({
+        channel: "email",
+        destination: "[email protected]",
+        expiresAt: issued.expiresAt,
+      });
+
+      const row = query.insert.mock.calls[0]![0];
+      expect(row).toMatchObject({
+        id: "otp-123",
+        user_id: "user-123",
+        channel: "email",
+        destination: "[email protected]",
+        attempts: 0,
+        expires_at: issued.expiresAt,
+        consumed_at: null,
+      });
+      expect(row.code_hash).toMatch(/^[0-9a-f]{64}$/);
+      expect(row.code_hash).not.toContain(sent[0]!.code);
+    });
+
+    it("should expire the user's earlier codes", async () => {
+      const query = mockDb(undefined);
+
+      await OtpService.issue("user-123", "phone", "+2348012345678", now);
+
+      expect(query.where).toHaveBeenCalledWith({ user_id: "user-123", consumed_at: null });
+      expect(query.update).toHaveBeenCalledWith({ expires_at: now });
+    });
+
+    it("should refuse once the user has requested too many codes", async () => {
+      const query = mockDb({ count: 5 });
+
+      const error = await OtpService.issue("user-123", "email", "[email protected]", now).catch((e) => e);
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.statusCode).toBe(429);
+      expect(query.where).toHaveBeenCalledWith("created_at", ">", new Date("2024-03-01T08:00:00.000Z"));
+      expect(query.insert).not.toHaveBeenCalled();
+      expect(sent).toHaveLength(0);
+    });
+
+    it("should fail with 502 when the code cannot be sent", async () => {
+      mockDb(undefined);
+      vi.mocked(delivery.deliver).mockRejectedValueOnce(new Error("gateway down"));
+
+      const error = await OtpService.issue("user-123", "email", "[email protected]", now).catch((e) => e);
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.statusCode).toBe(502);
+    });
+  });
+
+  describe("verify", () => {
+    it("should accept the right code and use it up", async () => {
+      const { row, code } = await issueCode();
+      const query = mockDb(row);
+
+      await OtpService.verify("user-123", code, now);
+
+      expect(query.increment).toHaveBeenCalledWith("attempts", 1);
+      expect(query.where).toHaveBeenCalledWith("attempts", "<", 5);
+      expect(query.update).toHaveBeenCalledWith({ consumed_at: now });
+    });
+
+    it("should reject a wrong code with 401 and count the attempt", async () => {
+      const { row, code } = await issueCode();
+      const query = mockDb(row);
+      const wrong = code === "000000" ? "000001" : "000000";
+
+      const error = await OtpService.verify("user-123", wrong, now).catch((e) => e);
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.statusCode).toBe(401);
+      expect(error.message).toBe("Invalid or expired code");
+      expect(query.increment).toHaveBeenCalledWith("attempts", 1);
+      expect(query.update).not.toHaveBeenCalled();
+    });
+
+    it("should reject with 401 when there is no current code", async () => {
+      mockDb(undefined);
+
+      await expect(OtpService.verify("user-123", "123456", now)).rejects.toThrow("Invalid or expired code");
+    });
+
+    it("should only look at unused, unexpired codes", async () => {
+      const query = mockDb(undefined);
+
+      await OtpService.verify("user-123", "123456", now).catch(() => undefined);
+
+      expect(query.where).toHaveBeenCalledWith({ user_id: "user-123", consumed_at: null });
+      expect(query.where).toHaveBeenCalledWith("expires_at", ">", now);
+      expect(query.orderBy).toHaveBeenCalledWith("created_at", "desc");
+    });
+
+    it("should reject with 429 once the attempts are used up, even with the right code", async () => {
+      const { row, code } = await issueCode();
+      const query = mockDb({ ...row, attempts: 5 }, 0);
+
+      const error = await OtpService.verify("user-123", code, now).catch((e) => e);
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.statusCode).toBe(429);
+      expect(query.update).not.toHaveBeenCalled();
+    });
+
+    it("should reject a code another request used first", async () => {
+      const { row, code } = await issueCode();
+      const query = mockDb(row);
+      query.update.mockResolvedValue(0);
+
+      await expect(OtpService.verify("user-123", code, now)).rejects.toThrow("Invalid or expired code");
+    });
+  });
+});
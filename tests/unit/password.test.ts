@@ -0,0 +1,48 @@
+/**
+ * Password Utility Tests
+ *
+ * Unit tests for scrypt password hashing and verification.
+ */
+
+import { describe, it, expect } from "vitest";
+import { hashPassword, verifyPassword } from "../../src/utils/password";
+
+describe("Password Utility", () => {
+  describe("hashPassword", () => {
+    it("should produce an scrypt hash with its parameters and salt", async () => {
+      const hash = await hashPassword("correct horse battery staple");
+
+      const parts = hash.split("$");
+      expect(parts).toHaveLength(6);
+      expect(parts.slice(0, 4)).toEqual(["scrypt", "16384", "8", "1"]);
+      expect(hash).not.toContain("correct horse battery staple");
+    });
+
+    it("should salt each hash", async () => {
+      const first = await hashPassword("correct horse battery staple");
+      const second = await hashPassword("correct horse battery staple");
+
+      expect(first).not.toBe(second);
+    });
+  });
+
+  describe("verifyPassword", () => {
+    it("should accept the right password", async () => {
+      const hash = await hashPassword("correct horse battery staple");
+
+      expect(await verifyPassword("correct horse battery staple", hash)).toBe(true);
+    });
+
+    it("should reject a wrong password", async () => {
+      const hash = await hashPassword("correct horse battery staple");
+
+      expect(await verifyPassword("Correct horse battery staple", hash)).toBe(false);
+    });
+
+    it("should reject a malformed hash", async () => {
+      expect(await verifyPassword("anything", "")).toBe(false);
+      expect(await verifyPassword("anything", "bcrypt$2b$10$abc")).toBe(false);
+      expect(await verifyPassword("anything", "scrypt$x$8$1$c2FsdA==$aGFzaA==")).toBe(false);
+    });
+  });
+});
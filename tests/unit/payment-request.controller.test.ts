@@ -0,0 +1,233 @@
+/**
+ * Payment Request Controller Tests
+ *
+ * Unit tests for payment request endpoints.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Request, Response, NextFunction } from "express";
+import { PaymentRequestController } from "../../src/controllers/payment-request.controller";
+import { PaymentRequestService } from "../../src/services/payment-request.service";
+import { AppError } from "../../src/middlewares/error";
+import { Money } from "../../src/utils/money";
+
+// Mock PaymentRequestService
+vi.mock("../../src/services/payment-request.service", () => ({
+  PaymentRequestService: {
+    create: vi.fn(),
+    listRequests: vi.fn(),
+    getRequest: vi.fn(),
+    accept: vi.fn(),
+    decline: vi.fn(),
+    cancel: vi.fn(),
+  },
+}));
+
+describe("PaymentRequestController", () => {
+  let mockReq: Partial<Request>;
+  let mockRes: Partial<Response>;
+  let mockNext: NextFunction;
+
+  const paymentRequest = {
+    id: "request-1",
+    requester_user_id: "user-456",
+    payer_user_id: "user-123",
+    currency: "NGN",
+    amount_decimal: "2500.000000",
+    note: "Dinner",
+    status: "pending" as const,
+    expires_at: new Date(),
+    transfer_id: null,
+    responded_at: null,
+    created_at: new Date(),
+    updated_at: new Date(),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockReq = {
+      params: {},
+      query: {},
+      body: {},
+      user: { id: "user-123" },
+    };
+
+    mockRes = {
+      status: vi.fn().mockReturnThis(),
+      json: vi.fn(),
+    };
+
+    mockNext = vi.fn();
+  });
+
+  describe("create", () => {
+    it("should create the request for the authenticated user and return 201", async () => {
+      mockReq.body = { payer: "@janedoe", amount: "2500", note: "Dinner" };
+      vi.mocked(PaymentRequestService.create).mockResolvedValue(paymentRequest);
+
+      await PaymentRequestController.create(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(PaymentRequestService.create).toHaveBeenCalledWith("user-123", {
+        payerUserId: undefined,
+        payer: "@janedoe",
+        amount: "2500",
+        currency: undefined,
+        note: "Dinner",
+        expiresAt: undefined,
+      });
+      expect(mockRes.status).toHaveBeenCalledWith(201);
+      expect(mockRes.json).toHaveBeenCalledWith({
+        success: true,
+        message: "Payment request sent successfully",
+        data: {
+          payment_request: expect.objectContaining({
+            id: "request-1",
+            amount: "2500.000000",
+            status: "pending",
+          }),
+        },
+      });
+    });
+
+    it("should pass service errors to next", async () => {
+      const error = new AppError(400, "Cannot request money from yourself");
+      vi.mocked(PaymentRequestService.create).mockRejectedValue(error);
+
+      await PaymentRequestController.create(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith(error);
+    });
+  });
+
+  describe("listIncoming and listOutgoing", () => {
+    it("should list requests the user was asked to pay", async () => {
+      mockReq.query = { status: "pending" };
+      vi.mocked(PaymentRequestService.listRequests).mockResolvedValue([paymentRequest]);
+
+      await PaymentRequestController.listIncoming(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(PaymentRequestService.listRequests).toHaveBeenCalledWith("user-123", "incoming", "pending");
+      expect(mockRes.status).toHaveBeenCalledWith(200);
+      expect(mockRes.json).toHaveBeenCalledWith({
+        success: true,
+        data: { payment_requests: [expect.objectContaining({ id: "request-1" })] },
+      });
+    });
+
+    it("should list requests the user made", async () => {
+      vi.mocked(PaymentRequestService.listRequests).mockResolvedValue([]);
+
+      await PaymentRequestController.listOutgoing(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(PaymentRequestService.listRequests).toHaveBeenCalledWith("user-123", "outgoing", undefined);
+      expect(mockRes.json).toHaveBeenCalledWith({
+        success: true,
+        data: { payment_requests: [] },
+      });
+    });
+  });
+
+  describe("get", () => {
+    it("should pass a request the user is not on to next", async () => {
+      mockReq.params = { requestId: "request-9" };
+      const error = new AppError(404, "Payment request not found: request-9");
+      vi.mocked(PaymentRequestService.getRequest).mockRejectedValue(error);
+
+      await PaymentRequestController.get(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(PaymentRequestService.getRequest).toHaveBeenCalledWith("user-123", "request-9");
+      expect(mockNext).toHaveBeenCalledWith(error);
+    });
+  });
+
+  describe("accept", () => {
+    it("should pay the request and return the transfer", async () => {
+      mockReq.params = { requestId: "request-1" };
+      mockReq.body = { channel: "mobile" };
+      vi.mocked(PaymentRequestService.accept).mockResolvedValue({
+        paymentRequest: { ...paymentRequest, status: "paid", transfer_id: "transfer-1" },
+        transfer: {
+          transfer: { id: "transfer-1", amount_decimal: "2500.000000" },
+          fromWallet: { currency: "NGN", balance_decimal: "7500.000000" },
+          reference: "PAYREQ-request-1",
+          fee: {
+            operation: "transfer",
+            channel: "mobile",
+            tier: "tier_1",
+            rule: null,
+            amount: Money.parse("2500", "NGN"),
+            flat: Money.zero("NGN"),
+            percentage: Money.zero("NGN"),
+            band: null,
+            adjustment: null,
+            fee: Money.zero("NGN"),
+            total: Money.parse("2500", "NGN"),
+          },
+          feeTransaction: null,
+        } as any,
+      });
+
+      await PaymentRequestController.accept(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(PaymentRequestService.accept).toHaveBeenCalledWith("user-123", "request-1", "mobile");
+      expect(mockRes.status).toHaveBeenCalledWith(200);
+      expect(mockRes.json).toHaveBeenCalledWith({
+        success: true,
+        message: "Payment request paid successfully",
+        data: {
+          payment_request: expect.objectContaining({ status: "paid", transfer_id: "transfer-1" }),
+          transfer: expect.objectContaining({
+            id: "transfer-1",
+            reference: "PAYREQ-request-1",
+            amount: "2500.000000",
+            from_balance: "7500.000000",
+            fee: expect.objectContaining({ amount: "0.000000", transaction_id: null }),
+          }),
+        },
+      });
+    });
+
+    it("should pass an expired request to next", async () => {
+      mockReq.params = { requestId: "request-1" };
+      const error = new AppError(409, "Payment request request-1 has expired");
+      vi.mocked(PaymentRequestService.accept).mockRejectedValue(error);
+
+      await PaymentRequestController.accept(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith(error);
+    });
+  });
+
+  describe("decline and cancel", () => {
+    it("should report the final status when declining", async () => {
+      mockReq.params = { requestId: "request-1" };
+      vi.mocked(PaymentRequestService.decline).mockResolvedValue({
+        ...paymentRequest,
+        status: "declined",
+      });
+
+      await PaymentRequestController.decline(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(PaymentRequestService.decline).toHaveBeenCalledWith("user-123", "request-1");
+      expect(mockRes.json).toHaveBeenCalledWith(
+        expect.objectContaining({ message: "Payment request declined" })
+      );
+    });
+
+    it("should report an expired request when cancelling too late", async () => {
+      mockReq.params = { requestId: "request-1" };
+      vi.mocked(PaymentRequestService.cancel).mockResolvedValue({
+        ...paymentRequest,
+        status: "expired",
+      });
+
+      await PaymentRequestController.cancel(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(PaymentRequestService.cancel).toHaveBeenCalledWith("user-123", "request-1");
+      expect(mockRes.json).toHaveBeenCalledWith(
+        expect.objectContaining({ message: "Payment request expired" })
+      );
+    });
+  });
+});
@@ -0,0 +1,385 @@
+/**
+ * Payment Request Service Tests
+ *
+ * Unit tests for creating, paying, declining, cancelling and expiring
+ * payment requests.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  PaymentRequestService,
+  PaymentRequest,
+} from "../../src/services/payment-request.service";
+import { WalletService } from "../../src/services/wallet.service";
+import { UserService } from "../../src/services/user.service";
+import { knex, withTransaction } from "../../src/db";
+import { AppError } from "../../src/middlewares/error";
+import { Money } from "../../src/utils/money";
+import { mockTables } from "../helpers/query-mock";
+
+// Mock the database
+vi.mock("../../src/db", () => {
+  const knexMock = vi.fn() as any;
+  knexMock.fn = { now: () => new Date() };
+  return {
+    knex: knexMock,
+    newId: vi.fn(() => "request-1"),
+    withTransaction: vi.fn(),
+  };
+});
+
+/**
+ * Route the transaction to per-table query mocks
+ */
+const mockDb = () => {
+  const { tables, db: trx } = mockTables("payment_requests");
+  vi.mocked(withTransaction).mockImplementation((callback: any) => callback(trx));
+  return { tables, trx };
+};
+
+const now = new Date("2024-02-01T09:00:00.000Z");
+
+const pending: PaymentRequest = {
+  id: "request-1",
+  requester_user_id: "user-123",
+  payer_user_id: "user-456",
+  currency: "NGN",
+  amount_decimal: "2500.000000",
+  note: "Dinner",
+  status: "pending",
+  expires_at: new Date(Date.now() + 3600 * 1000),
+  transfer_id: null,
+  responded_at: null,
+  created_at: new Date(),
+  updated_at: new Date(),
+};
+
+const wallet = {
+  id: "wallet-123",
+  user_id: "user-123",
+  balance_decimal: "10000.000000",
+  held_decimal: "0.000000",
+  currency: "NGN",
+  created_at: new Date(),
+  updated_at: new Date(),
+};
+
+describe("PaymentRequestService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(knex).mockReset();
+    vi.spyOn(WalletService, "getWalletByUserId").mockResolvedValue(wallet);
+    vi.spyOn(WalletService, "transferWithin").mockResolvedValue({
+      transfer: { id: "transfer-1" },
+      reference: "PAYREQ-request-1",
+    } as any);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe("create", () => {
+    const mockInsert = (created: PaymentRequest) => {
+      const query = {
+        insert: vi.fn().mockResolvedValue([1]),
+        where: vi.fn().mockReturnThis(),
+        first: vi.fn().mockResolvedValue(created),
+      };
+      vi.mocked(knex).mockReturnValue(query as any);
+      return query;
+    };
+
+    it("should store a pending request that expires after the default window", async () => {
+      const query = mockInsert(pending);
+
+      const result = await PaymentRequestService.create(
+        "user-123",
+        { payerUserId: "user-456", amount: "2500", note: "Dinner" },
+        now
+      );
+
+      expect(query.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          id: "request-1",
+          requester_user_id: "user-123",
+          payer_user_id: "user-456",
+          currency: "NGN",
+          amount_decimal: "2500.000000",
+          note: "Dinner",
+          status: "pending",
+          expires_at: new Date("2024-02-04T09:00:00.000Z"),
+        })
+      );
+      expect(WalletService.getWalletByUserId).toHaveBeenCalledWith("user-456", undefined, false, {
+        currency: "NGN",
+      });
+      expect(result).toBe(pending);
+    });
+
+    it("should resolve the payer from an email, phone number or handle", async () => {
+      const query = mockInsert(pending);
+      vi.spyOn(UserService, "resolveRecipient").mockResolvedValue({
+        user: { id: "user-456" },
+        type: "handle",
+      } as any);
+
+      await PaymentRequestService.create(
+        "user-123",
+        { payer: "@janedoe", amount: "2500", expiresAt: "2024-02-10T00:00:00Z" },
+        now
+      );
+
+      expect(UserService.resolveRecipient).toHaveBeenCalledWith("@janedoe");
+      expect(query.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          payer_user_id: "user-456",
+          expires_at: new Date("2024-02-10T00:00:00.000Z"),
+        })
+      );
+    });
+
+    it.each([
+      [{ payerUserId: "user-123", amount: "2500" }, "Cannot request money from yourself"],
+      [{ payerUserId: "user-456", amount: "25.001" }, "decimal places"],
+      [{ payerUserId: "user-456", amount: "2500", expiresAt: "2024-01-31T00:00:00Z" }, "expiresAt must be in the future"],
+      [{ payerUserId: "user-456", amount: "2500", expiresAt: "2024-04-01T00:00:00Z" }, "expiresAt must be within 30 days"],
+    ])("should reject invalid input %#", async (invalid, message) => {
+      const error = await PaymentRequestService.create("user-123", invalid, now).catch((e) => e);
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.statusCode).toBe(400);
+      expect(error.message).toContain(message);
+      expect(knex).not.toHaveBeenCalled();
+    });
+
+    it("should return 404 when the payer has no wallet in the currency", async () => {
+      vi.mocked(WalletService.getWalletByUserId)
+        .mockResolvedValueOnce(wallet)
+        .mockResolvedValueOnce(null);
+
+      const error = await PaymentRequestService.create(
+        "user-123",
+        { payerUserId: "user-456", amount: "20", currency: "USD" },
+        now
+      ).catch((e) => e);
+
+      expect(error.statusCode).toBe(404);
+      expect(error.message).toContain("Payer has no USD wallet");
+    });
+  });
+
+  describe("accept", () => {
+    it("should pay the requester and mark the request paid", async () => {
+      const { tables, trx } = mockDb();
+      tables.payment_requests.first
+        .mockResolvedValueOnce(pending)
+        .mockResolvedValueOnce({ ...pending, status: "paid", transfer_id: "transfer-1" });
+
+      const result = await PaymentRequestService.accept("user-456", "request-1", "mobile");
+
+      expect(tables.payment_requests.where).toHaveBeenCalledWith({
+        id: "request-1",
+        payer_user_id: "user-456",
+      });
+      expect(tables.payment_requests.forUpdate).toHaveBeenCalled();
+      expect(WalletService.transferWithin).toHaveBeenCalledWith(
+        trx,
+        "user-456",
+        "user-123",
+        Money.fromStorage("2500.000000", "NGN"),
+        { payment_request_id: "request-1", note: "Dinner" },
+        { currency: "NGN" },
+        "mobile",
+        "PAYREQ-request-1"
+      );
+      expect(tables.payment_requests.update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: "paid", transfer_id: "transfer-1" })
+      );
+      expect(result.paymentRequest.status).toBe("paid");
+      expect(result.transfer.reference).toBe("PAYREQ-request-1");
+    });
+
+    it("should return 404 when the user is not the payer", async () => {
+      const { tables } = mockDb();
+      tables.payment_requests.first.mockResolvedValueOnce(undefined);
+
+      const error = await PaymentRequestService.accept("user-123", "request-1").catch((e) => e);
+
+      expect(error.statusCode).toBe(404);
+      expect(WalletService.transferWithin).not.toHaveBeenCalled();
+    });
+
+    it("should reject a request that is no longer pending", async () => {
+      const { tables } = mockDb();
+      tables.payment_requests.first.mockResolvedValueOnce({ ...pending, status: "declined" });
+
+      const error = await PaymentRequestService.accept("user-456", "request-1").catch((e) => e);
+
+      expect(error.statusCode).toBe(409);
+      expect(error.message).toContain("is already declined");
+      expect(WalletService.transferWithin).not.toHaveBeenCalled();
+    });
+
+    it("should reject a request past its expiry", async () => {
+      const { tables } = mockDb();
+      tables.payment_requests.first.mockResolvedValueOnce({
+        ...pending,
+        expires_at: new Date(Date.now() - 1000),
+      });
+
+      const error = await PaymentRequestService.accept("user-456", "request-1").catch((e) => e);
+
+      expect(error.statusCode).toBe(409);
+      expect(error.message).toContain("has expired");
+      expect(WalletService.transferWithin).not.toHaveBeenCalled();
+    });
+
+    it("should leave the request pending when the transfer fails", async () => {
+      const { tables } = mockDb();
+      tables.payment_requests.first.mockResolvedValueOnce(pending);
+      vi.mocked(WalletService.transferWithin).mockRejectedValueOnce(
+        new AppError(422, "Insufficient funds")
+      );
+
+      const error = await PaymentRequestService.accept("user-456", "request-1").catch((e) => e);
+
+      expect(error.statusCode).toBe(422);
+      expect(tables.payment_requests.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("decline and cancel", () => {
+    it("should let the payer decline", async () => {
+      const { tables } = mockDb();
+      tables.payment_requests.first
+        .mockResolvedValueOnce(pending)
+        .mockResolvedValueOnce({ ...pending, status: "declined" });
+
+      const result = await PaymentRequestService.decline("user-456", "request-1");
+
+      expect(tables.payment_requests.where).toHaveBeenCalledWith({
+        id: "request-1",
+        payer_user_id: "user-456",
+      });
+      expect(tables.payment_requests.update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: "declined" })
+      );
+      expect(result.status).toBe("declined");
+    });
+
+    it("should let the requester cancel", async () => {
+      const { tables } = mockDb();
+      tables.payment_requests.first
+        .mockResolvedValueOnce(pending)
+        .mockResolvedValueOnce({ ...pending, status: "cancelled" });
+
+      await PaymentRequestService.cancel("user-123", "request-1");
+
+      expect(tables.payment_requests.where).toHaveBeenCalledWith({
+        id: "request-1",
+        requester_user_id: "user-123",
+      });
+      expect(tables.payment_requests.update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: "cancelled" })
+      );
+    });
+
+    it("should mark a request past its expiry as expired instead", async () => {
+      const { tables } = mockDb();
+      tables.payment_requests.first.mockResolvedValueOnce({
+        ...pending,
+        expires_at: new Date(Date.now() - 1000),
+      });
+
+      await PaymentRequestService.cancel("user-123", "request-1");
+
+      expect(tables.payment_requests.update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: "expired" })
+      );
+    });
+
+    it("should reject a request that is already paid", async () => {
+      const { tables } = mockDb();
+      tables.payment_requests.first.mockResolvedValueOnce({ ...pending, status: "paid" });
+
+      const error = await PaymentRequestService.cancel("user-123", "request-1").catch((e) => e);
+
+      expect(error.statusCode).toBe(409);
+      expect(tables.payment_requests.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("expireDue", () => {
+    it("should expire pending requests past their expiry", async () => {
+      const update = vi.fn().mockResolvedValue(1);
+      const select = {
+        select: vi.fn().mockReturnThis(),
+        where: vi.fn().mockReturnThis(),
+        orderBy: vi.fn().mockReturnThis(),
+        limit: vi.fn().mockResolvedValue([{ id: "request-1" }, { id: "request-2" }]),
+      };
+      const expire = {
+        whereIn: vi.fn().mockReturnThis(),
+        where: vi.fn().mockReturnThis(),
+        update,
+      };
+      vi.mocked(knex)
+        .mockReturnValueOnce(select as any)
+        .mockReturnValueOnce(expire as any);
+
+      const expired = await PaymentRequestService.expireDue(now);
+
+      // request-2 was answered after it was selected
+      expect(expired).toBe(1);
+      expect(expire.whereIn).toHaveBeenCalledWith("id", ["request-1", "request-2"]);
+      expect(expire.where).toHaveBeenCalledWith({ status: "pending" });
+      expect(update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: "expired", responded_at: now })
+      );
+    });
+
+    it("should do nothing when no request is due", async () => {
+      vi.mocked(knex).mockReturnValueOnce({
+        select: vi.fn().mockReturnThis(),
+        where: vi.fn().mockReturnThis(),
+        orderBy: vi.fn().mockReturnThis(),
+        limit: vi.fn().mockResolvedValue([]),
+      } as any);
+
+      expect(await PaymentRequestService.expireDue(now)).toBe(0);
+      expect(knex).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("listRequests", () => {
+    it("should filter incoming requests by payer and status", async () => {
+      const query = {
+        where: vi.fn().mockReturnThis(),
+        orderBy: vi.fn().mockReturnThis(),
+        then: (resolve: (rows: PaymentRequest[]) => void) => resolve([pending]),
+      };
+      vi.mocked(knex).mockReturnValue(query as any);
+
+      const requests = await PaymentRequestService.listRequests("user-456", "incoming", "pending");
+
+      expect(query.where).toHaveBeenCalledWith("payer_user_id", "user-456");
+      expect(query.where).toHaveBeenCalledWith("status", "pending");
+      expect(requests).toEqual([pending]);
+    });
+
+    it("should filter outgoing requests by requester", async () => {
+      const query = {
+        where: vi.fn().mockReturnThis(),
+        orderBy: vi.fn().mockReturnThis(),
+        then: (resolve: (rows: PaymentRequest[]) => void) => resolve([]),
+      };
+      vi.mocked(knex).mockReturnValue(query as any);
+
+      await PaymentRequestService.listRequests("user-123", "outgoing");
+
+      expect(query.where).toHaveBeenCalledWith("requester_user_id", "user-123");
+      expect(query.where).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * Payout Controller Tests
+ *
+ * Unit tests for bulk payout endpoints.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Request, Response, NextFunction } from "express";
+import { PayoutController } from "../../src/controllers/payout.controller";
+import { PayoutService } from "../../src/services/payout.service";
+import { AppError, BatchValidationError } from "../../src/middlewares/error";
+
+// Mock PayoutService
+vi.mock("../../src/services/payout.service", () => ({
+  PayoutService: {
+    create: vi.fn(),
+    listBatches: vi.fn(),
+    getBatchDetails: vi.fn(),
+    resultsCsv: vi.fn(),
+  },
+}));
+
+describe("PayoutController", () => {
+  let mockReq: Partial<Request>;
+  let mockRes: Partial<Response>;
+  let mockNext: NextFunction;
+
+  const batch = {
+    id: "batch-1",
+    user_id: "user-123",
+    wallet_id: "wallet-123",
+    currency: "NGN",
+    channel: "api" as const,
+    mode: "best_effort" as const,
+    status: "partially_completed" as const,
+    item_count: 2,
+    total_decimal: "3000.000000",
+    succeeded_count: 1,
+    failed_count: 1,
+    paid_decimal: "1000.000000",
+    fee_decimal: "10.000000",
+    error: null,
+    metadata: null,
+    created_at: new Date(),
+    updated_at: new Date(),
+    completed_at: new Date(),
+  };
+
+  const item = {
+    id: "item-1",
+    batch_id: "batch-1",
+    row_number: 1,
+    recipient_user_id: "user-456",
+    amount_decimal: "1000.000000",
+    narration: "March salary",
+    reference: "PAYOUT-batch-1-1",
+    status: "succeeded" as const,
+    transfer_id: "transfer-1",
+    fee_decimal: "10.000000",
+    error: null,
+    created_at: new Date(),
+    updated_at: new Date(),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockReq = {
+      params: { userId: "user-123" },
+      query: {},
+      body: {},
+      user: { id: "user-123" },
+    };
+
+    mockRes = {
+      status: vi.fn().mockReturnThis(),
+      json: vi.fn(),
+      send: vi.fn(),
+      setHeader: vi.fn(),
+    };
+
+    mockNext = vi.fn();
+  });
+
+  describe("create", () => {
+    it("should execute the batch and return 201 with every row", async () => {
+      mockReq.body = {
+        items: [{ recipientUserId: "user-456", amount: "1000" }],
+        mode: "best_effort",
+      };
+      vi.mocked(PayoutService.create).mockResolvedValue({ batch, items: [item] });
+
+      await PayoutController.create(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(PayoutService.create).toHaveBeenCalledWith(
+        "user-123",
+        expect.objectContaining({
+          items: [{ recipientUserId: "user-456", amount: "1000" }],
+          mode: "best_effort",
+        })
+      );
+      expect(mockRes.status).toHaveBeenCalledWith(201);
+      expect(mockRes.json).toHaveBeenCalledWith({
+        success: true,
+        message: "Payout batch partially completed",
+        data: {
+          batch: expect.objectContaining({
+            id: "batch-1",
+            status: "partially_completed",
+            total_amount: "3000.000000",
+            paid_amount: "1000.000000",
+            total_fee: "10.000000",
+          }),
+          items: [
+            expect.objectContaining({
+              row: 1,
+              recipient_user_id: "user-456",
+              amount: "1000.000000",
+              status: "succeeded",
+              transfer_id: "transfer-1",
+            }),
+          ],
+        },
+      });
+    });
+
+    it("should return 403 for another user's wallet", async () => {
+      mockReq.params = { userId: "user-456" };
+
+      await PayoutController.create(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockRes.status).toHaveBeenCalledWith(403);
+      expect(PayoutService.create).not.toHaveBeenCalled();
+    });
+
+    it("should pass row validation errors to next", async () => {
+      const error = new BatchValidationError(422, "Payout batch rejected: 1 of 1 rows are invalid", [
+        { row: 1, field: "recipient_user_id", message: "Cannot pay yourself" },
+      ]);
+      vi.mocked(PayoutService.create).mockRejectedValue(error);
+
+      await PayoutController.create(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith(error);
+    });
+  });
+
+  describe("list", () => {
+    it("should pass the status filter", async () => {
+      mockReq.query = { status: "failed" };
+      vi.mocked(PayoutService.listBatches).mockResolvedValue([batch]);
+
+      await PayoutController.list(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(PayoutService.listBatches).toHaveBeenCalledWith("user-123", "failed");
+      expect(mockRes.status).toHaveBeenCalledWith(200);
+      expect(mockRes.json).toHaveBeenCalledWith({
+        success: true,
+        data: { batches: [expect.objectContaining({ id: "batch-1" })] },
+      });
+    });
+
+    it("should return 403 for another user's batches", async () => {
+      mockReq.params = { userId: "user-456" };
+
+      await PayoutController.list(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockRes.status).toHaveBeenCalledWith(403);
+      expect(PayoutService.listBatches).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("get", () => {
+    it("should return the batch with its rows", async () => {
+      mockReq.params = { userId: "user-123", batchId: "batch-1" };
+      vi.mocked(PayoutService.getBatchDetails).mockResolvedValue({ batch, items: [item] });
+
+      await PayoutController.get(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(PayoutService.getBatchDetails).toHaveBeenCalledWith("user-123", "batch-1");
+      expect(mockRes.status).toHaveBeenCalledWith(200);
+    });
+
+    it("should pass a missing batch to next", async () => {
+      mockReq.params = { userId: "user-123", batchId: "batch-9" };
+      const error = new AppError(404, "Payout batch not found: batch-9");
+      vi.mocked(PayoutService.getBatchDetails).mockRejectedValue(error);
+
+      await PayoutController.get(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith(error);
+    });
+  });
+
+  describe("downloadResults", () => {
+    it("should send the result file as a CSV attachment", async () => {
+      mockReq.params = { userId: "user-123", batchId: "batch-1" };
+      vi.mocked(PayoutService.resultsCsv).mockResolvedValue("row,status\r\n1,succeeded\r\n");
+
+      await PayoutController.downloadResults(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(PayoutService.resultsCsv).toHaveBeenCalledWith("user-123", "batch-1");
+      expect(mockRes.setHeader).toHaveBeenCalledWith("Content-Type", "text/csv; charset=utf-8");
+      expect(mockRes.setHeader).toHaveBeenCalledWith(
+        "Content-Disposition",
+        'attachment; filename="payout-batch-1.csv"'
+      );
+      expect(mockRes.status).toHaveBeenCalledWith(200);
+      expect(mockRes.send).toHaveBeenCalledWith("row,status\r\n1,succeeded\r\n");
+    });
+
+    it("should return 403 for another user's batch", async () => {
+      mockReq.params = { userId: "user-456", batchId: "batch-1" };
+
+      await PayoutController.downloadResults(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockRes.status).toHaveBeenCalledWith(403);
+      expect(PayoutService.resultsCsv).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,442 @@
+/**
+ * Payout Service Tests
+ *
+ * Unit tests for validating, executing and reporting bulk payouts.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { PayoutService, PayoutBatch, PayoutItem } from "../../src/services/payout.service";
+import { WalletService } from "../../src/services/wallet.service";
+import { FeeService } from "../../src/services/fee.service";
+import { knex, withTransaction } from "../../src/db";
+import { config } from "../../src/config/env";
+import { AppError, BatchValidationError } from "../../src/middlewares/error";
+import { Money } from "../../src/utils/money";
+import { mockTables } from "../helpers/query-mock";
+
+// Mock the database
+vi.mock("../../src/db", () => {
+  const knexMock = vi.fn() as any;
+  knexMock.fn = { now: () => new Date() };
+  let id = 0;
+  return {
+    knex: knexMock,
+    newId: vi.fn(() => `id-${++id}`),
+    withTransaction: vi.fn(),
+  };
+});
+
+const SENDER = "11111111-1111-4111-8111-111111111111";
+const ALICE = "22222222-2222-4222-8222-222222222222";
+const BOB = "33333333-3333-4333-8333-333333333333";
+const CAROL = "44444444-4444-4444-8444-444444444444";
+
+const wallet = {
+  id: "wallet-123",
+  user_id: SENDER,
+  balance_decimal: "10000.000000",
+  held_decimal: "0.000000",
+  currency: "NGN",
+  created_at: new Date(),
+  updated_at: new Date(),
+};
+
+const batch: PayoutBatch = {
+  id: "batch-1",
+  user_id: SENDER,
+  wallet_id: "wallet-123",
+  currency: "NGN",
+  channel: "api",
+  mode: "all_or_nothing",
+  status: "processing",
+  item_count: 2,
+  total_decimal: "3000.000000",
+  succeeded_count: 0,
+  failed_count: 0,
+  paid_decimal: "0.000000",
+  fee_decimal: "0.000000",
+  error: null,
+  metadata: null,
+  created_at: new Date(),
+  updated_at: new Date(),
+  completed_at: null,
+};
+
+const item: PayoutItem = {
+  id: "item-1",
+  batch_id: "batch-1",
+  row_number: 1,
+  recipient_user_id: ALICE,
+  amount_decimal: "1000.000000",
+  narration: "March salary",
+  reference: "PAYOUT-batch-1-1",
+  status: "succeeded",
+  transfer_id: "transfer-1",
+  fee_decimal: "10.000000",
+  error: null,
+  created_at: new Date(),
+  updated_at: new Date(),
+};
+
+/**
+ * Route knex and transactions to per-table query mocks
+ *
+ * @param recipients - User IDs that hold a wallet in the currency
+ */
+const mockDb = (recipients: string[] = [ALICE, BOB, CAROL]) => {
+  const { tables, db } = mockTables("wallets", "payout_batches", "payout_items");
+  tables.wallets.where.mockResolvedValue(recipients.map((user_id) => ({ user_id })));
+  tables.payout_batches.first.mockResolvedValue(batch);
+  tables.payout_items.orderBy.mockResolvedValue([item]);
+
+  vi.mocked(knex).mockImplementation(db);
+  vi.mocked(withTransaction).mockImplementation((callback: any) => callback(db));
+  return tables;
+};
+
+/**
+ * Transfer result for a row, charging a flat 10 NGN fee
+ */
+const transferResult = (amount: string, id: string) =>
+  ({
+    transfer: { id },
+    fee: { amount: Money.fromStorage(amount, "NGN"), fee: Money.parse("10", "NGN") },
+  }) as any;
+
+describe("PayoutService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(knex).mockReset();
+    vi.spyOn(WalletService, "getWalletByUserId").mockResolvedValue(wallet);
+    vi.spyOn(FeeService, "quote").mockImplementation(async (_db, _context, amount) => {
+      const fee = Money.parse("10", "NGN");
+      return { amount, fee, total: amount.add(fee) } as any;
+    });
+    vi.spyOn(WalletService, "transferWithin").mockImplementation(
+      async (_trx, _from, _to, amount, _metadata, _selector, _channel, reference) =>
+        transferResult(amount, `transfer-for-${reference}`)
+    );
+  });
+
+  describe("parseRows", () => {
+    it("should read columns by header name in any order", () => {
+      const rows = PayoutService.parseRows(
+        `Amount,narration,RECIPIENT_USER_ID\n2500.00,"Rent, March",${ALICE}\n100,,${BOB}\n`
+      );
+
+      expect(rows).toEqual([
+        { recipientUserId: ALICE, amount: "2500.00", narration: "Rent, March" },
+        { recipientUserId: BOB, amount: "100", narration: undefined },
+      ]);
+    });
+
+    it("should allow the narration column to be left out", () => {
+      expect(PayoutService.parseRows(`recipient_user_id,amount\n${ALICE},5`)).toEqual([
+        { recipientUserId: ALICE, amount: "5", narration: undefined },
+      ]);
+    });
+
+    it.each([
+      ["", "Invalid CSV: the file is empty"],
+      [`recipient,amount\n${ALICE},5`, "Invalid CSV: unknown column(s) recipient"],
+      ["amount,narration\n5,x", "Invalid CSV: the header must include recipient_user_id and amount"],
+    ])("should reject a malformed upload (%#)", (csv, message) => {
+      expect(() => PayoutService.parseRows(csv)).toThrow(message);
+    });
+  });
+
+  describe("create", () => {
+    const items = [
+      { recipientUserId: ALICE, amount: "1000", narration: "March salary" },
+      { recipientUserId: BOB, amount: "2000" },
+    ];
+
+    it("should record the batch and pay every row in one transaction (all_or_nothing)", async () => {
+      const tables = mockDb();
+
+      const result = await PayoutService.create(SENDER, { items });
+
+      expect(tables.payout_batches.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          user_id: SENDER,
+          wallet_id: "wallet-123",
+          currency: "NGN",
+          channel: "api",
+          mode: "all_or_nothing",
+          status: "processing",
+          item_count: 2,
+          total_decimal: "3000.000000",
+        })
+      );
+      const inserted = tables.payout_items.insert.mock.calls[0]![0];
+      expect(inserted).toHaveLength(2);
+      expect(inserted[0]).toMatchObject({
+        row_number: 1,
+        recipient_user_id: ALICE,
+        amount_decimal: "1000.000000",
+        narration: "March salary",
+        status: "pending",
+      });
+      expect(inserted[0].reference).toBe(`PAYOUT-${inserted[0].batch_id}-1`);
+      expect(inserted[1]).toMatchObject({ row_number: 2, narration: null });
+
+      expect(WalletService.transferWithin).toHaveBeenCalledTimes(2);
+      expect(WalletService.transferWithin).toHaveBeenCalledWith(
+        expect.anything(),
+        SENDER,
+        ALICE,
+        Money.fromStorage("1000.000000", "NGN"),
+        { narration: "March salary", payout_batch_id: "batch-1", payout_row: 1 },
+        { currency: "NGN" },
+        "api",
+        inserted[0].reference
+      );
+      expect(tables.payout_batches.update).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          status: "completed",
+          succeeded_count: 2,
+          failed_count: 0,
+          paid_decimal: "3000.000000",
+          fee_decimal: "20.000000",
+        })
+      );
+      expect(result).toEqual({ batch, items: [item] });
+    });
+
+    it("should lock every wallet in user ID order before paying (all_or_nothing)", async () => {
+      mockDb();
+
+      await PayoutService.create(SENDER, {
+        items: [
+          { recipientUserId: CAROL, amount: "10" },
+          { recipientUserId: ALICE, amount: "10" },
+        ],
+      });
+
+      const locked = vi
+        .mocked(WalletService.getWalletByUserId)
+        .mock.calls.filter((call) => call[2] === true)
+        .map((call) => call[0]);
+      expect(locked).toEqual([SENDER, ALICE, CAROL]);
+    });
+
+    it("should roll back and mark the failing row when any row fails (all_or_nothing)", async () => {
+      const tables = mockDb();
+      vi.mocked(WalletService.transferWithin)
+        .mockResolvedValueOnce(transferResult("1000", "transfer-1"))
+        .mockRejectedValueOnce(new AppError(403, "Amount exceeds the tier_1 daily limit"));
+
+      await PayoutService.create(SENDER, { items });
+
+      expect(tables.payout_items.update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: "skipped" })
+      );
+      expect(tables.payout_items.update).toHaveBeenLastCalledWith(
+        expect.objectContaining({ status: "failed", error: "Amount exceeds the tier_1 daily limit" })
+      );
+      expect(tables.payout_batches.update).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          status: "failed",
+          failed_count: 2,
+          error: "Row 2: Amount exceeds the tier_1 daily limit",
+        })
+      );
+    });
+
+    it("should pay rows independently and record failures (best_effort)", async () => {
+      const tables = mockDb();
+      vi.mocked(WalletService.transferWithin)
+        .mockRejectedValueOnce(new AppError(403, "Amount exceeds the tier_1 daily limit"))
+        .mockResolvedValueOnce(transferResult("2000", "transfer-2"));
+
+      await PayoutService.create(SENDER, { items, mode: "best_effort" });
+
+      expect(withTransaction).toHaveBeenCalledTimes(3);
+      expect(tables.payout_items.update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: "failed", error: "Amount exceeds the tier_1 daily limit" })
+      );
+      expect(tables.payout_items.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: "succeeded",
+          transfer_id: "transfer-2",
+          fee_decimal: "10.000000",
+        })
+      );
+      expect(tables.payout_batches.update).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          status: "partially_completed",
+          succeeded_count: 1,
+          failed_count: 1,
+          paid_decimal: "2000.000000",
+          fee_decimal: "10.000000",
+        })
+      );
+    });
+
+    it("should mark a best_effort batch failed when no row is paid", async () => {
+      const tables = mockDb();
+      vi.mocked(WalletService.transferWithin).mockRejectedValue(new Error("Deadlock"));
+
+      await PayoutService.create(SENDER, { items, mode: "best_effort" });
+
+      expect(tables.payout_batches.update).toHaveBeenLastCalledWith(
+        expect.objectContaining({ status: "failed", succeeded_count: 0, failed_count: 2 })
+      );
+    });
+
+    it("should accept rows as CSV", async () => {
+      const tables = mockDb();
+
+      await PayoutService.create(SENDER, {
+        csv: `recipient_user_id,amount,narration\n${ALICE},1000,Bonus\n`,
+      });
+
+      expect(tables.payout_items.insert.mock.calls[0]![0]).toEqual([
+        expect.objectContaining({ recipient_user_id: ALICE, amount_decimal: "1000.000000", narration: "Bonus" }),
+      ]);
+    });
+
+    it("should report every invalid row at once", async () => {
+      const tables = mockDb([ALICE]);
+
+      const error = await PayoutService.create(SENDER, {
+        items: [
+          { recipientUserId: ALICE, amount: "100" },
+          { recipientUserId: "not-a-user", amount: "0" },
+          { recipientUserId: ALICE, amount: "100" },
+          { recipientUserId: SENDER, amount: "100" },
+          { recipientUserId: BOB, amount: "10.123", narration: "x".repeat(256) },
+        ],
+      }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(BatchValidationError);
+      expect(error.statusCode).toBe(422);
+      expect(error.message).toBe("Payout batch rejected: 4 of 5 rows are invalid");
+      expect(error.rows).toEqual([
+        { row: 2, field: "recipient_user_id", message: "Must be a user ID (UUID)" },
+        { row: 2, field: "amount", message: "Amount must be positive" },
+        { row: 3, field: "recipient_user_id", message: "Duplicate of row 1" },
+        { row: 4, field: "recipient_user_id", message: "Cannot pay yourself" },
+        { row: 5, field: "amount", message: "Amount cannot have more than 2 decimal places for NGN" },
+        { row: 5, field: "narration", message: "Must be at most 255 characters" },
+        { row: 5, field: "recipient_user_id", message: "Recipient not found or has no NGN wallet" },
+      ]);
+      expect(tables.wallets.whereIn).toHaveBeenCalledWith("user_id", [ALICE, BOB]);
+      expect(tables.payout_batches.insert).not.toHaveBeenCalled();
+      expect(WalletService.transferWithin).not.toHaveBeenCalled();
+    });
+
+    it("should reject a batch whose amounts plus fees exceed the available balance", async () => {
+      const tables = mockDb();
+
+      await expect(
+        PayoutService.create(SENDER, {
+          items: [
+            { recipientUserId: ALICE, amount: "5000" },
+            { recipientUserId: BOB, amount: "4990" },
+          ],
+        })
+      ).rejects.toThrow(
+        "Insufficient funds for payout batch. Available: 10000.000000, Required: 10010.000000 (amounts 9990.000000 plus fees)"
+      );
+      expect(tables.payout_batches.insert).not.toHaveBeenCalled();
+    });
+
+    it("should reject an empty batch", async () => {
+      await expect(PayoutService.create(SENDER, { items: [] })).rejects.toThrow(
+        "A payout batch needs at least one row"
+      );
+      await expect(PayoutService.create(SENDER, { csv: "recipient_user_id,amount\n" })).rejects.toThrow(
+        "A payout batch needs at least one row"
+      );
+    });
+
+    describe("with a row limit", () => {
+      const maxItems = config.payouts.maxItems;
+
+      beforeEach(() => {
+        config.payouts.maxItems = 1;
+      });
+
+      afterEach(() => {
+        config.payouts.maxItems = maxItems;
+      });
+
+      it("should reject a batch with too many rows", async () => {
+        await expect(PayoutService.create(SENDER, { items })).rejects.toThrow(
+          "A payout batch can have at most 1 rows (got 2)"
+        );
+      });
+    });
+
+    it("should throw 404 if the sender has no wallet in the currency", async () => {
+      vi.mocked(WalletService.getWalletByUserId).mockResolvedValueOnce(undefined);
+
+      await expect(PayoutService.create(SENDER, { items, currency: "USD" })).rejects.toMatchObject({
+        statusCode: 404,
+      });
+      expect(WalletService.getWalletByUserId).toHaveBeenCalledWith(SENDER, undefined, false, {
+        currency: "USD",
+      });
+    });
+  });
+
+  describe("getBatch", () => {
+    it("should throw 404 for another user's or a missing batch", async () => {
+      const tables = mockDb();
+      tables.payout_batches.first.mockResolvedValueOnce(undefined);
+
+      await expect(PayoutService.getBatch(SENDER, "batch-9")).rejects.toThrow(
+        "Payout batch not found: batch-9"
+      );
+      expect(tables.payout_batches.where).toHaveBeenCalledWith({ id: "batch-9", user_id: SENDER });
+    });
+  });
+
+  describe("listBatches", () => {
+    it("should filter by status when given", async () => {
+      const query = {
+        where: vi.fn().mockReturnThis(),
+        orderBy: vi.fn().mockReturnThis(),
+        then: (resolve: (value: PayoutBatch[]) => void) => resolve([batch]),
+      };
+      vi.mocked(knex).mockReturnValue(query as any);
+
+      const batches = await PayoutService.listBatches(SENDER, "failed");
+
+      expect(query.where).toHaveBeenCalledWith({ user_id: SENDER });
+      expect(query.where).toHaveBeenCalledWith({ status: "failed" });
+      expect(query.orderBy).toHaveBeenCalledWith("created_at", "desc");
+      expect(batches).toEqual([batch]);
+    });
+  });
+
+  describe("resultsCsv", () => {
+    it("should write one line per row with its outcome", async () => {
+      const tables = mockDb();
+      tables.payout_items.orderBy.mockResolvedValueOnce([
+        item,
+        {
+          ...item,
+          row_number: 2,
+          recipient_user_id: BOB,
+          narration: null,
+          status: "failed",
+          transfer_id: null,
+          fee_decimal: null,
+          reference: "PAYOUT-batch-1-2",
+          error: "Insufficient funds, try later",
+        },
+      ]);
+
+      const csv = await PayoutService.resultsCsv(SENDER, "batch-1");
+
+      expect(csv.split("\r\n")).toEqual([
+        "row,recipient_user_id,amount,currency,narration,status,fee,reference,transfer_id,error",
+        `1,${ALICE},1000.000000,NGN,March salary,succeeded,10.000000,PAYOUT-batch-1-1,transfer-1,`,
+        `2,${BOB},1000.000000,NGN,,failed,,PAYOUT-batch-1-2,,"Insufficient funds, try later"`,
+        "",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Reconciliation Controller Tests
+ *
+ * Unit tests for admin reconciliation endpoints.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Request, Response, NextFunction } from "express";
+import { ReconciliationController } from "../../src/controllers/reconciliation.controller";
+import { ReconciliationService } from "../../src/services/reconciliation.service";
+
+// Mock ReconciliationService
+vi.mock("../../src/services/reconciliation.service", () => ({
+  ReconciliationService: {
+    run: vi.fn(),
+    listRuns: vi.fn(),
+    getRun: vi.fn(),
+  },
+}));
+
+describe("ReconciliationController", () => {
+  let mockReq: Partial<Request>;
+  let mockRes: Partial<Response>;
+  let mockNext: NextFunction;
+
+  const mockRun = {
+    id: "run-123",
+    status: "completed" as const,
+    triggered_by: "admin:admin-1",
+    wallets_checked: 10,
+    transfers_checked: 4,
+    discrepancy_count: 2,
+    error: null,
+    started_at: new Date(),
+    finished_at: new Date(),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockReq = {
+      params: {},
+      query: {},
+      user: { id: "admin-1" },
+    };
+
+    mockRes = {
+      status: vi.fn().mockReturnThis(),
+      json: vi.fn(),
+    };
+
+    mockNext = vi.fn();
+  });
+
+  describe("createRun", () => {
+    it("should run reconciliation attributed to the admin", async () => {
+      vi.mocked(ReconciliationService.run).mockResolvedValue(mockRun);
+
+      await ReconciliationController.createRun(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(ReconciliationService.run).toHaveBeenCalledWith("admin:admin-1");
+      expect(mockRes.status).toHaveBeenCalledWith(201);
+      expect(mockRes.json).toHaveBeenCalledWith({
+        success: true,
+        message: "Reconciliation completed with 2 discrepancies",
+        data: { run: mockRun },
+      });
+    });
+
+    it("should pass service errors to next", async () => {
+      const error = new Error("Already running");
+      vi.mocked(ReconciliationService.run).mockRejectedValue(error);
+
+      await ReconciliationController.createRun(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith(error);
+    });
+  });
+
+  describe("listRuns", () => {
+    it("should parse the limit query parameter", async () => {
+      mockReq.query = { limit: "5" };
+      vi.mocked(ReconciliationService.listRuns).mockResolvedValue([mockRun]);
+
+      await ReconciliationController.listRuns(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(ReconciliationService.listRuns).toHaveBeenCalledWith(5);
+      expect(mockRes.status).toHaveBeenCalledWith(200);
+    });
+  });
+
+  describe("getRun", () => {
+    it("should return the run with its discrepancies", async () => {
+      mockReq.params = { runId: "run-123" };
+      vi.mocked(ReconciliationService.getRun).mockResolvedValue({
+        run: mockRun,
+        discrepancies: [],
+      });
+
+      await ReconciliationController.getRun(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockRes.json).toHaveBeenCalledWith({
+        success: true,
+        data: { run: mockRun, discrepancies: [] },
+      });
+    });
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Reconciliation Service Tests
+ *
+ * Unit tests for the balance chain, transfer leg and run bookkeeping checks.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { ReconciliationService } from "../../src/services/reconciliation.service";
+import { knex } from "../../src/db";
+import { AppError } from "../../src/middlewares/error";
+
+// Mock the database
+vi.mock("../../src/db", () => {
+  const knexMock = vi.fn() as any;
+  knexMock.fn = { now: () => new Date() };
+  return {
+    knex: knexMock,
+    newId: vi.fn(() => "run-123"),
+    withTransaction: vi.fn(),
+  };
+});
+
+vi.mock("../../src/services/ledger.service", () => ({
+  LedgerService: {
+    verifyWallet: vi.fn(),
+  },
+}));
+
+const at = (second: number) => new Date(Date.UTC(2024, 0, 1, 0, 0, second));
+
+const row = (
+  id: string,
+  type: "credit" | "debit" | "transfer-in" | "transfer-out",
+  amount: string,
+  balanceAfter: string,
+  createdAt: Date
+) => ({
+  id,
+  type,
+  amount_decimal: amount,
+  balance_after: balanceAfter,
+  reference: `REF-${id}`,
+  created_at: createdAt,
+});
+
+describe("ReconciliationService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("checkBalanceChain", () => {
+    it("should accept a correct chain and return the signed total", () => {
+      const { discrepancies, total } = ReconciliationService.checkBalanceChain(
+        [
+          row("t1", "credit", "1000.000000", "1000.000000", at(1)),
+          row("t2", "transfer-out", "250.500000", "749.500000", at(2)),
+          row("t3", "debit", "49.500000", "700.000000", at(3)),
+          row("t4", "transfer-in", "0.010000", "700.010000", at(4)),
+        ],
+        "NGN",
+        "wallet-1"
+      );
+
+      expect(discrepancies).toEqual([]);
+      expect(total.toStorageString()).toBe("700.010000");
+    });
+
+    it("should reorder rows written in the same second", () => {
+      // Ordered by id, t2 sorts before t1 although t1 happened first
+      const { discrepancies } = ReconciliationService.checkBalanceChain(
+        [
+          row("t2", "debit", "100.000000", "400.000000", at(1)),
+          row("t1", "credit", "500.000000", "500.000000", at(1)),
+        ],
+        "NGN",
+        "wallet-1"
+      );
+
+      expect(discrepancies).toEqual([]);
+    });
+
+    it("should report a broken link once and continue from the recorded balance", () => {
+      const { discrepancies, total } = ReconciliationService.checkBalanceChain(
+        [
+          row("t1", "credit", "1000.000000", "1000.000000", at(1)),
+          row("t2", "debit", "100.000000", "950.000000", at(2)),
+          row("t3", "debit", "50.000000", "900.000000", at(3)),
+        ],
+        "NGN",
+        "wallet-1"
+      );
+
+      expect(discrepancies).toHaveLength(1);
+      expect(discrepancies[0]).toMatchObject({
+        check_type: "balance_chain",
+        wallet_id: "wallet-1",
+        transaction_id: "t2",
+        expected: "900.000000",
+        actual: "950.000000",
+      });
+      expect(total.toStorageString()).toBe("850.000000");
+    });
+  });
+
+  describe("checkTransferLegs", () => {
+    const transfer = {
+      id: "transfer-1",
+      from_wallet_id: "wallet-a",
+      to_wallet_id: "wallet-b",
+      amount_decimal: "300.000000",
+      reference: "TRANSFER-1",
+    };
+
+    const mockLegs = (legs: any[]) => {
+      const query = {
+        select: vi.fn().mockReturnThis(),
+        whereIn: vi.fn().mockResolvedValue(legs),
+      };
+      vi.mocked(knex).mockReturnValueOnce(query as any);
+      return query;
+    };
+
+    it("should accept matching -OUT and -IN legs", async () => {
+      const query = mockLegs([
+        { id: "t1", wallet_id: "wallet-a", type: "transfer-out", amount_decimal: "300.00", reference: "TRANSFER-1-OUT" },
+        { id: "t2", wallet_id: "wallet-b", type: "transfer-in", amount_decimal: "300.000000", reference: "TRANSFER-1-IN" },
+      ]);
+
+      const discrepancies = await ReconciliationService.checkTransferLegs([transfer]);
+
+      expect(discrepancies).toEqual([]);
+      expect(query.whereIn).toHaveBeenCalledWith("reference", ["TRANSFER-1-OUT", "TRANSFER-1-IN"]);
+    });
+
+    it("should report a missing leg", async () => {
+      mockLegs([
+        { id: "t1", wallet_id: "wallet-a", type: "transfer-out", amount_decimal: "300.000000", reference: "TRANSFER-1-OUT" },
+      ]);
+
+      const discrepancies = await ReconciliationService.checkTransferLegs([transfer]);
+
+      expect(discrepancies).toHaveLength(1);
+      expect(discrepancies[0]).toMatchObject({
+        check_type: "transfer_legs",
+        transfer_id: "transfer-1",
+        wallet_id: "wallet-b",
+      });
+      expect(discrepancies[0]!.message).toContain("TRANSFER-1-IN");
+    });
+
+    it("should report a leg with the wrong amount", async () => {
+      mockLegs([
+        { id: "t1", wallet_id: "wallet-a", type: "transfer-out", amount_decimal: "300.000000", reference: "TRANSFER-1-OUT" },
+        { id: "t2", wallet_id: "wallet-b", type: "transfer-in", amount_decimal: "299.990000", reference: "TRANSFER-1-IN" },
+      ]);
+
+      const discrepancies = await ReconciliationService.checkTransferLegs([transfer]);
+
+      expect(discrepancies).toHaveLength(1);
+      expect(discrepancies[0]!.transaction_id).toBe("t2");
+    });
+
+    it("should not query when there are no transfers", async () => {
+      await expect(ReconciliationService.checkTransferLegs([])).resolves.toEqual([]);
+      expect(knex).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("run", () => {
+    it("should refuse to start while another run is in progress", async () => {
+      const query = {
+        where: vi.fn().mockReturnThis(),
+        first: vi.fn().mockResolvedValue({ id: "run-active", status: "running" }),
+      };
+      vi.mocked(knex).mockReturnValue(query as any);
+
+      const error = await ReconciliationService.run("cli").catch((e) => e);
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.statusCode).toBe(409);
+    });
+  });
+
+  describe("getRun", () => {
+    it("should throw 404 for an unknown run", async () => {
+      const query = {
+        where: vi.fn().mockReturnThis(),
+        first: vi.fn().mockResolvedValue(undefined),
+      };
+      vi.mocked(knex).mockReturnValue(query as any);
+
+      await expect(ReconciliationService.getRun("missing")).rejects.toThrow(
+        "Reconciliation run not found: missing"
+      );
+    });
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Recurrence Utility Tests
+ *
+ * Unit tests for RRULE subset parsing and occurrence calculation.
+ */
+
+import { describe, it, expect } from "vitest";
+import { nextOccurrence, parseRecurrence } from "../../src/utils/recurrence";
+import { AppError } from "../../src/middlewares/error";
+
+const at = (iso: string) => new Date(iso);
+
+describe("recurrence", () => {
+  describe("parseRecurrence", () => {
+    it("should parse a rule with an RRULE: prefix in any case", () => {
+      expect(parseRecurrence("RRULE:freq=weekly;byday=FR,MO")).toEqual({
+        freq: "WEEKLY",
+        interval: 1,
+        byDay: [0, 4],
+        byMonthDay: null,
+      });
+    });
+
+    it("should parse an interval and a day of the month", () => {
+      expect(parseRecurrence("FREQ=MONTHLY;INTERVAL=3;BYMONTHDAY=15")).toEqual({
+        freq: "MONTHLY",
+        interval: 3,
+        byDay: null,
+        byMonthDay: 15,
+      });
+    });
+
+    it.each([
+      ["INTERVAL=2", "FREQ must be one of"],
+      ["FREQ=YEARLY", "FREQ must be one of"],
+      ["FREQ=DAILY;COUNT=5", "COUNT is not supported"],
+      ["FREQ=DAILY;INTERVAL=0", "INTERVAL must be a whole number"],
+      ["FREQ=MONTHLY;BYDAY=MO", "BYDAY only applies to WEEKLY rules"],
+      ["FREQ=WEEKLY;BYDAY=XX", "BYDAY must list weekdays"],
+      ["FREQ=MONTHLY;BYMONTHDAY=32", "BYMONTHDAY must be a day from 1 to 31"],
+      ["FREQ=DAILY;;", "malformed part"],
+    ])("should reject %s", (rule, message) => {
+      const error = (() => {
+        try {
+          parseRecurrence(rule);
+        } catch (e) {
+          return e as AppError;
+        }
+      })();
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error?.statusCode).toBe(400);
+      expect(error?.message).toContain(message);
+    });
+  });
+
+  describe("nextOccurrence", () => {
+    it("should return the start while it is still ahead", () => {
+      const rule = parseRecurrence("FREQ=DAILY");
+      const start = at("2024-01-10T09:00:00.000Z");
+
+      expect(nextOccurrence(rule, start, at("2024-01-01T00:00:00.000Z"))).toEqual(start);
+    });
+
+    it("should step daily rules by their interval", () => {
+      const rule = parseRecurrence("FREQ=DAILY;INTERVAL=2");
+      const start = at("2024-01-01T09:00:00.000Z");
+
+      expect(nextOccurrence(rule, start, start).toISOString()).toBe("2024-01-03T09:00:00.000Z");
+      expect(nextOccurrence(rule, start, at("2024-01-04T10:00:00.000Z")).toISOString()).toBe(
+        "2024-01-05T09:00:00.000Z"
+      );
+    });
+
+    it("should visit each listed weekday at the start's time of day", () => {
+      const rule = parseRecurrence("FREQ=WEEKLY;BYDAY=MO,FR");
+      // A Wednesday
+      const start = at("2024-01-03T08:00:00.000Z");
+
+      const first = nextOccurrence(rule, start, start);
+      const second = nextOccurrence(rule, start, first);
+
+      expect(first.toISOString()).toBe("2024-01-05T08:00:00.000Z");
+      expect(second.toISOString()).toBe("2024-01-08T08:00:00.000Z");
+    });
+
+    it("should skip weeks outside the interval", () => {
+      const rule = parseRecurrence("FREQ=WEEKLY;INTERVAL=2");
+      const start = at("2024-01-01T08:00:00.000Z");
+
+      expect(nextOccurrence(rule, start, start).toISOString()).toBe("2024-01-15T08:00:00.000Z");
+    });
+
+    it("should use the last day of shorter months", () => {
+      const rule = parseRecurrence("FREQ=MONTHLY");
+      const start = at("2024-01-31T12:00:00.000Z");
+
+      const february = nextOccurrence(rule, start, start);
+      const march = nextOccurrence(rule, start, february);
+
+      expect(february.toISOString()).toBe("2024-02-29T12:00:00.000Z");
+      expect(march.toISOString()).toBe("2024-03-31T12:00:00.000Z");
+    });
+
+    it("should skip occurrences missed long ago", () => {
+      const rule = parseRecurrence("FREQ=MONTHLY;BYMONTHDAY=1");
+      const start = at("2024-01-01T09:00:00.000Z");
+
+      expect(nextOccurrence(rule, start, at("2024-06-15T00:00:00.000Z")).toISOString()).toBe(
+        "2024-07-01T09:00:00.000Z"
+      );
+    });
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Reversal Controller Tests
+ *
+ * Unit tests for the admin reversal endpoint.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Request, Response, NextFunction } from "express";
+import { ReversalController } from "../../src/controllers/reversal.controller";
+import { WalletService } from "../../src/services/wallet.service";
+
+// Mock WalletService
+vi.mock("../../src/services/wallet.service", () => ({
+  WalletService: {
+    reverse: vi.fn(),
+  },
+}));
+
+describe("ReversalController", () => {
+  let mockReq: Partial<Request>;
+  let mockRes: Partial<Response>;
+  let mockNext: NextFunction;
+
+  const reversalTransaction = {
+    id: "txn-rev",
+    wallet_id: "wallet-123",
+    type: "reversal" as const,
+    amount_decimal: "500.000000",
+    balance_after: "100.000000",
+    reference: "REVERSAL-admin-1-1-ABC",
+    reversal_of: "txn-fund",
+    status: "completed" as const,
+    metadata: null,
+    created_at: new Date(),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockReq = {
+      body: { target: "txn-fund", reason: "Duplicate funding" },
+      user: { id: "admin-1" },
+    };
+
+    mockRes = {
+      status: vi.fn().mockReturnThis(),
+      json: vi.fn(),
+    };
+
+    mockNext = vi.fn();
+  });
+
+  describe("create", () => {
+    it("should reverse a transaction on behalf of the admin", async () => {
+      vi.mocked(WalletService.reverse).mockResolvedValue({
+        reference: reversalTransaction.reference,
+        transactions: [reversalTransaction],
+        transfer: null,
+      });
+
+      await ReversalController.create(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(WalletService.reverse).toHaveBeenCalledWith("txn-fund", "Duplicate funding", {
+        allowNegativeBalance: false,
+        reversedBy: "admin-1",
+      });
+      expect(mockRes.status).toHaveBeenCalledWith(201);
+      expect(mockRes.json).toHaveBeenCalledWith(
+        expect.objectContaining({
+          success: true,
+          message: "Transaction reversed successfully",
+          data: expect.objectContaining({
+            transfer: null,
+            transactions: [
+              expect.objectContaining({
+                id: "txn-rev",
+                amount: "500.000000",
+                reversal_of: "txn-fund",
+              }),
+            ],
+          }),
+        })
+      );
+    });
+
+    it("should pass the negative balance override through", async () => {
+      mockReq.body = { target: "TRANSFER-1", reason: "Wrong recipient", allowNegativeBalance: true };
+      vi.mocked(WalletService.reverse).mockResolvedValue({
+        reference: "REVERSAL-1",
+        transactions: [],
+        transfer: {
+          id: "transfer-1",
+          from_wallet_id: "wallet-a",
+          to_wallet_id: "wallet-b",
+          amount_decimal: "300.000000",
+          status: "reversed",
+          reference: "TRANSFER-1",
+          created_at: new Date(),
+        },
+      });
+
+      await ReversalController.create(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(WalletService.reverse).toHaveBeenCalledWith("TRANSFER-1", "Wrong recipient", {
+        allowNegativeBalance: true,
+        reversedBy: "admin-1",
+      });
+      expect(mockRes.json).toHaveBeenCalledWith(
+        expect.objectContaining({ message: "Transfer reversed successfully" })
+      );
+    });
+
+    it("should pass service errors to next", async () => {
+      const error = new Error("Already reversed");
+      vi.mocked(WalletService.reverse).mockRejectedValue(error);
+
+      await ReversalController.create(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith(error);
+    });
+  });
+});
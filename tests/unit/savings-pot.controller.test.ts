@@ -0,0 +1,224 @@
+/**
+ * Savings Pot Controller Tests
+ *
+ * Unit tests for savings pot endpoints.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Request, Response, NextFunction } from "express";
+import { SavingsPotController } from "../../src/controllers/savings-pot.controller";
+import { SavingsPotService } from "../../src/services/savings-pot.service";
+import { AppError } from "../../src/middlewares/error";
+import { Money } from "../../src/utils/money";
+
+// Mock SavingsPotService
+vi.mock("../../src/services/savings-pot.service", () => ({
+  SavingsPotService: {
+    create: vi.fn(),
+    listPots: vi.fn(),
+    getPot: vi.fn(),
+    deposit: vi.fn(),
+    withdraw: vi.fn(),
+    close: vi.fn(),
+  },
+}));
+
+describe("SavingsPotController", () => {
+  let mockReq: Partial<Request>;
+  let mockRes: Partial<Response>;
+  let mockNext: NextFunction;
+
+  const pot = {
+    id: "pot-1",
+    user_id: "user-123",
+    wallet_id: "wallet-pot",
+    parent_wallet_id: "wallet-main",
+    name: "School fees",
+    target_decimal: "450000.000000",
+    locked_until: null,
+    status: "active" as const,
+    created_at: new Date(),
+    updated_at: new Date(),
+    closed_at: null,
+    balance_decimal: "20000.000000",
+    currency: "NGN",
+  };
+
+  const move = {
+    pot,
+    wallet: { balance_decimal: "80000.000000" },
+    transfer: {
+      transfer: { id: "transfer-1", amount_decimal: "20000.000000" },
+      reference: "POT-user-123-1-ABCD",
+    },
+  } as any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockReq = {
+      params: { userId: "user-123" },
+      query: {},
+      body: {},
+      user: { id: "user-123" },
+    };
+
+    mockRes = {
+      status: vi.fn().mockReturnThis(),
+      json: vi.fn(),
+    };
+
+    mockNext = vi.fn();
+  });
+
+  describe("create", () => {
+    it("should open a pot for the wallet owner and return 201", async () => {
+      mockReq.body = { name: "School fees", targetAmount: "450000", lockedUntil: "2024-09-01T00:00:00Z" };
+      vi.mocked(SavingsPotService.create).mockResolvedValue(pot);
+
+      await SavingsPotController.create(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(SavingsPotService.create).toHaveBeenCalledWith("user-123", {
+        name: "School fees",
+        currency: undefined,
+        targetAmount: "450000",
+        lockedUntil: "2024-09-01T00:00:00Z",
+      });
+      expect(mockRes.status).toHaveBeenCalledWith(201);
+      expect(mockRes.json).toHaveBeenCalledWith({
+        success: true,
+        message: "Savings pot created successfully",
+        data: {
+          pot: expect.objectContaining({
+            id: "pot-1",
+            name: "School fees",
+            balance: "20000.000000",
+            target_amount: "450000.000000",
+          }),
+        },
+      });
+    });
+
+    it("should reject opening a pot on someone else's wallet", async () => {
+      mockReq.user = { id: "user-456" } as any;
+
+      await SavingsPotController.create(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockRes.status).toHaveBeenCalledWith(403);
+      expect(SavingsPotService.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("list and get", () => {
+    it("should list the user's pots by status", async () => {
+      mockReq.query = { status: "active" };
+      vi.mocked(SavingsPotService.listPots).mockResolvedValue([pot]);
+
+      await SavingsPotController.list(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(SavingsPotService.listPots).toHaveBeenCalledWith("user-123", "active");
+      expect(mockRes.json).toHaveBeenCalledWith({
+        success: true,
+        data: { pots: [expect.objectContaining({ id: "pot-1" })] },
+      });
+    });
+
+    it("should pass a missing pot to next", async () => {
+      mockReq.params = { userId: "user-123", potId: "pot-9" };
+      const error = new AppError(404, "Savings pot not found: pot-9");
+      vi.mocked(SavingsPotService.getPot).mockRejectedValue(error);
+
+      await SavingsPotController.get(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith(error);
+    });
+  });
+
+  describe("deposit and withdraw", () => {
+    it("should return the pot, the internal transfer and the main wallet balance", async () => {
+      mockReq.params = { userId: "user-123", potId: "pot-1" };
+      mockReq.body = { amount: "20000" };
+      vi.mocked(SavingsPotService.deposit).mockResolvedValue(move);
+
+      await SavingsPotController.deposit(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(SavingsPotService.deposit).toHaveBeenCalledWith("user-123", "pot-1", "20000");
+      expect(mockRes.json).toHaveBeenCalledWith({
+        success: true,
+        message: "Savings pot funded successfully",
+        data: {
+          pot: expect.objectContaining({ id: "pot-1" }),
+          transfer: { id: "transfer-1", reference: "POT-user-123-1-ABCD", amount: "20000.000000" },
+          wallet_balance: "80000.000000",
+        },
+      });
+    });
+
+    it("should report the early withdrawal penalty", async () => {
+      mockReq.params = { userId: "user-123", potId: "pot-1" };
+      mockReq.body = { amount: "5000", channel: "mobile" };
+      vi.mocked(SavingsPotService.withdraw).mockResolvedValue({
+        ...move,
+        penalty: {
+          operation: "pot_early_withdrawal",
+          channel: "mobile",
+          tier: "tier_1",
+          rule: { id: "rule-1", fee_type: "flat" },
+          amount: Money.parse("5000", "NGN"),
+          flat: Money.parse("250", "NGN"),
+          percentage: Money.zero("NGN"),
+          band: null,
+          adjustment: null,
+          fee: Money.parse("250", "NGN"),
+          total: Money.parse("5250", "NGN"),
+        },
+        penaltyTransaction: { id: "fee-tx-1" },
+      } as any);
+
+      await SavingsPotController.withdraw(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(SavingsPotService.withdraw).toHaveBeenCalledWith("user-123", "pot-1", "5000", "mobile");
+      expect(mockRes.json).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: "Savings pot withdrawal successful",
+          data: expect.objectContaining({
+            penalty: expect.objectContaining({
+              amount: "250.000000",
+              total_debit: "5250.000000",
+              rule_id: "rule-1",
+              transaction_id: "fee-tx-1",
+            }),
+          }),
+        })
+      );
+    });
+
+    it("should pass a locked pot to next", async () => {
+      mockReq.params = { userId: "user-123", potId: "pot-1" };
+      mockReq.body = { amount: "5000" };
+      const error = new AppError(403, "Savings pot is locked until 2024-09-01T00:00:00.000Z");
+      vi.mocked(SavingsPotService.withdraw).mockRejectedValue(error);
+
+      await SavingsPotController.withdraw(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith(error);
+    });
+  });
+
+  describe("close", () => {
+    it("should close the pot", async () => {
+      mockReq.params = { userId: "user-123", potId: "pot-1" };
+      vi.mocked(SavingsPotService.close).mockResolvedValue({ ...pot, status: "closed", balance_decimal: "0.000000" });
+
+      await SavingsPotController.close(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(SavingsPotService.close).toHaveBeenCalledWith("user-123", "pot-1");
+      expect(mockRes.json).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: "Savings pot closed successfully",
+          data: { pot: expect.objectContaining({ status: "closed", balance: "0.000000" }) },
+        })
+      );
+    });
+  });
+});
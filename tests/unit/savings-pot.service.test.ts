@@ -0,0 +1,376 @@
+/**
+ * Savings Pot Service Tests
+ *
+ * Unit tests for opening, funding, withdrawing from and closing savings pots.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { SavingsPotService, SavingsPot } from "../../src/services/savings-pot.service";
+import { WalletService } from "../../src/services/wallet.service";
+import { FeeService, FeeBreakdown } from "../../src/services/fee.service";
+import { LedgerService } from "../../src/services/ledger.service";
+import { withTransaction } from "../../src/db";
+import { AppError } from "../../src/middlewares/error";
+import { Money } from "../../src/utils/money";
+import { config } from "../../src/config/env";
+import { mockTables } from "../helpers/query-mock";
+
+// Mock the database
+vi.mock("../../src/db", () => {
+  const knexMock = vi.fn() as any;
+  knexMock.fn = { now: () => new Date() };
+  return {
+    knex: knexMock,
+    newId: vi.fn(() => "pot-1"),
+    withTransaction: vi.fn(),
+  };
+});
+
+/**
+ * Route the transaction to per-table query mocks
+ */
+const mockDb = () => {
+  const { tables, db: trx } = mockTables("savings_pots", "wallets");
+  vi.mocked(withTransaction).mockImplementation((callback: any) => callback(trx));
+  return { tables, trx };
+};
+
+const now = new Date("2024-02-01T09:00:00.000Z");
+
+const pot: SavingsPot = {
+  id: "pot-1",
+  user_id: "user-123",
+  wallet_id: "wallet-pot",
+  parent_wallet_id: "wallet-main",
+  name: "School fees",
+  target_decimal: "450000.000000",
+  locked_until: null,
+  status: "active",
+  created_at: now,
+  updated_at: now,
+  closed_at: null,
+};
+
+const mainWallet = {
+  id: "wallet-main",
+  user_id: "user-123",
+  parent_wallet_id: null,
+  balance_decimal: "100000.000000",
+  held_decimal: "0.000000",
+  currency: "NGN",
+  created_at: now,
+  updated_at: now,
+};
+
+const potWallet = {
+  ...mainWallet,
+  id: "wallet-pot",
+  parent_wallet_id: "wallet-main",
+  balance_decimal: "20000.000000",
+};
+
+/**
+ * Early withdrawal penalty priced by a matching rule
+ */
+const penaltyOf = (amount: string, fee: string): FeeBreakdown => ({
+  operation: "pot_early_withdrawal",
+  channel: "api",
+  tier: "tier_1",
+  rule: { id: "rule-1", fee_type: "percentage" } as any,
+  amount: Money.parse(amount, "NGN"),
+  flat: Money.zero("NGN"),
+  percentage: Money.parse(fee, "NGN"),
+  band: null,
+  adjustment: null,
+  fee: Money.parse(fee, "NGN"),
+  total: Money.parse(amount, "NGN").add(Money.parse(fee, "NGN")),
+});
+
+describe("SavingsPotService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(WalletService, "getWalletByUserId").mockResolvedValue(mainWallet);
+    vi.spyOn(WalletService, "createWallet").mockResolvedValue(potWallet);
+    vi.spyOn(WalletService, "lockWalletById").mockImplementation(async (_trx, id: string) =>
+      id === "wallet-main" ? mainWallet : potWallet
+    );
+    vi.spyOn(WalletService, "generateReference").mockReturnValue("POT-user-123-1-ABCD");
+    vi.spyOn(WalletService, "moveWithin").mockImplementation(
+      async (_trx, from, to, money, _metadata, reference) =>
+        ({
+          transfer: { id: "transfer-1", amount_decimal: money.toStorageString() },
+          fromWallet: {
+            ...from,
+            balance_decimal: Money.fromStorage(from.balance_decimal, "NGN").subtract(money).toStorageString(),
+          },
+          toWallet: {
+            ...to,
+            balance_decimal: Money.fromStorage(to.balance_decimal, "NGN").add(money).toStorageString(),
+          },
+          transactions: [],
+          reference,
+        }) as any
+    );
+    vi.spyOn(FeeService, "quote");
+    vi.spyOn(FeeService, "collect").mockResolvedValue({ id: "fee-tx-1" } as any);
+    vi.spyOn(LedgerService, "assertWalletBalance").mockResolvedValue();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe("create", () => {
+    it("should open a sub-wallet under the main wallet", async () => {
+      const { tables } = mockDb();
+      tables.savings_pots.first
+        .mockResolvedValueOnce(undefined) // no pot with that name
+        .mockResolvedValueOnce({ ...pot, balance_decimal: "0.000000", currency: "NGN" });
+
+      const result = await SavingsPotService.create(
+        "user-123",
+        { name: "School fees", targetAmount: "450000", lockedUntil: "2024-09-01T00:00:00Z" },
+        now
+      );
+
+      expect(WalletService.getWalletByUserId).toHaveBeenCalledWith("user-123", expect.anything(), true, {
+        currency: "NGN",
+      });
+      expect(WalletService.createWallet).toHaveBeenCalledWith("user-123", expect.anything(), "NGN", "wallet-main");
+      expect(tables.savings_pots.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          id: "pot-1",
+          wallet_id: "wallet-pot",
+          parent_wallet_id: "wallet-main",
+          name: "School fees",
+          target_decimal: "450000.000000",
+          locked_until: new Date("2024-09-01T00:00:00Z"),
+          status: "active",
+        })
+      );
+      expect(result.balance_decimal).toBe("0.000000");
+    });
+
+    it("should reject a lock date in the past", async () => {
+      mockDb();
+
+      await expect(
+        SavingsPotService.create("user-123", { name: "Rent", lockedUntil: "2024-01-01T00:00:00Z" }, now)
+      ).rejects.toThrow(new AppError(400, "lockedUntil must be a future date"));
+      expect(WalletService.createWallet).not.toHaveBeenCalled();
+    });
+
+    it("should reject a second active pot with the same name", async () => {
+      const { tables } = mockDb();
+      tables.savings_pots.first.mockResolvedValueOnce(pot);
+
+      await expect(SavingsPotService.create("user-123", { name: "School fees" }, now)).rejects.toThrow(
+        new AppError(409, 'You already have a savings pot named "School fees"')
+      );
+      expect(tables.savings_pots.where).toHaveBeenCalledWith({
+        user_id: "user-123",
+        name: "School fees",
+        status: "active",
+      });
+    });
+
+    it("should return 404 without a main wallet in the currency", async () => {
+      mockDb();
+      vi.mocked(WalletService.getWalletByUserId).mockResolvedValue(null);
+
+      await expect(
+        SavingsPotService.create("user-123", { name: "Holiday", currency: "USD" }, now)
+      ).rejects.toThrow(new AppError(404, "Wallet not found for user user-123 (USD)"));
+    });
+  });
+
+  describe("deposit", () => {
+    it("should move money from the main wallet into the pot as an internal transfer", async () => {
+      const { tables } = mockDb();
+      tables.savings_pots.first
+        .mockResolvedValueOnce(pot)
+        .mockResolvedValueOnce({ ...pot, balance_decimal: "25000.000000", currency: "NGN" });
+
+      const result = await SavingsPotService.deposit("user-123", "pot-1", "5000");
+
+      expect(tables.savings_pots.where).toHaveBeenCalledWith({ id: "pot-1", user_id: "user-123" });
+      expect(WalletService.lockWalletById).toHaveBeenNthCalledWith(1, expect.anything(), "wallet-main");
+      expect(WalletService.lockWalletById).toHaveBeenNthCalledWith(2, expect.anything(), "wallet-pot");
+      expect(WalletService.generateReference).toHaveBeenCalledWith("POT", "user-123");
+      expect(WalletService.moveWithin).toHaveBeenCalledWith(
+        expect.anything(),
+        mainWallet,
+        potWallet,
+        Money.parse("5000", "NGN"),
+        { savings_pot_id: "pot-1" },
+        "POT-user-123-1-ABCD",
+        "Savings pot deposit"
+      );
+      expect(result.wallet.balance_decimal).toBe("95000.000000");
+      expect(result.pot.balance_decimal).toBe("25000.000000");
+    });
+
+    it("should reject a deposit larger than the main wallet's available balance", async () => {
+      const { tables } = mockDb();
+      tables.savings_pots.first.mockResolvedValueOnce(pot);
+
+      await expect(SavingsPotService.deposit("user-123", "pot-1", "150000")).rejects.toThrow(
+        new AppError(422, "Insufficient funds. Available: 100000.000000, Required: 150000.000000")
+      );
+      expect(WalletService.moveWithin).not.toHaveBeenCalled();
+    });
+
+    it("should reject deposits into a closed pot", async () => {
+      const { tables } = mockDb();
+      tables.savings_pots.first.mockResolvedValueOnce({ ...pot, status: "closed" });
+
+      await expect(SavingsPotService.deposit("user-123", "pot-1", "5000")).rejects.toThrow(
+        new AppError(409, "Savings pot pot-1 is closed")
+      );
+    });
+
+    it("should return 404 for another user's pot", async () => {
+      const { tables } = mockDb();
+      tables.savings_pots.first.mockResolvedValueOnce(undefined);
+
+      await expect(SavingsPotService.deposit("user-456", "pot-1", "5000")).rejects.toThrow(
+        new AppError(404, "Savings pot not found: pot-1")
+      );
+    });
+  });
+
+  describe("withdraw", () => {
+    const locked = { ...pot, locked_until: new Date("2024-09-01T00:00:00Z") };
+
+    it("should move money back to the main wallet without a penalty once unlocked", async () => {
+      const { tables } = mockDb();
+      tables.savings_pots.first
+        .mockResolvedValueOnce({ ...locked, locked_until: new Date("2024-01-31T00:00:00Z") })
+        .mockResolvedValueOnce({ ...pot, balance_decimal: "15000.000000", currency: "NGN" });
+
+      const result = await SavingsPotService.withdraw("user-123", "pot-1", "5000", "web", now);
+
+      expect(FeeService.quote).not.toHaveBeenCalled();
+      expect(WalletService.moveWithin).toHaveBeenCalledWith(
+        expect.anything(),
+        potWallet,
+        mainWallet,
+        Money.parse("5000", "NGN"),
+        { savings_pot_id: "pot-1" },
+        "POT-user-123-1-ABCD",
+        "Savings pot withdrawal"
+      );
+      expect(result.wallet.balance_decimal).toBe("105000.000000");
+      expect(result.penalty).toBeNull();
+      expect(FeeService.collect).not.toHaveBeenCalled();
+    });
+
+    it("should refuse to withdraw from a locked pot without a penalty rule", async () => {
+      const { tables } = mockDb();
+      tables.savings_pots.first.mockResolvedValueOnce(locked);
+      vi.mocked(FeeService.quote).mockResolvedValue({ ...penaltyOf("5000", "1"), rule: null });
+
+      await expect(SavingsPotService.withdraw("user-123", "pot-1", "5000", undefined, now)).rejects.toThrow(
+        new AppError(403, "Savings pot is locked until 2024-09-01T00:00:00.000Z")
+      );
+      expect(FeeService.quote).toHaveBeenCalledWith(
+        expect.anything(),
+        { operation: "pot_early_withdrawal", userId: "user-123", currency: "NGN", channel: undefined },
+        Money.parse("5000", "NGN")
+      );
+      expect(WalletService.moveWithin).not.toHaveBeenCalled();
+    });
+
+    it("should take the early withdrawal penalty from the pot", async () => {
+      const { tables } = mockDb();
+      tables.savings_pots.first
+        .mockResolvedValueOnce(locked)
+        .mockResolvedValueOnce({ ...pot, balance_decimal: "14750.000000", currency: "NGN" });
+      const penalty = penaltyOf("5000", "250");
+      vi.mocked(FeeService.quote).mockResolvedValue(penalty);
+
+      const result = await SavingsPotService.withdraw("user-123", "pot-1", "5000", "mobile", now);
+
+      expect(FeeService.collect).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ id: "wallet-pot", balance_decimal: "15000.000000" }),
+        null,
+        penalty,
+        Money.parse("14750", "NGN"),
+        "POT-user-123-1-ABCD",
+        { savings_pot_id: "pot-1" }
+      );
+      expect(LedgerService.assertWalletBalance).toHaveBeenCalledWith(
+        expect.anything(),
+        "wallet-pot",
+        Money.parse("14750", "NGN")
+      );
+      expect(tables.wallets.where).toHaveBeenCalledWith({ id: "wallet-pot" });
+      expect(tables.wallets.update).toHaveBeenCalledWith(
+        expect.objectContaining({ balance_decimal: "14750.000000" })
+      );
+      expect(result.penalty).toBe(penalty);
+      expect(result.penaltyTransaction).toEqual({ id: "fee-tx-1" });
+    });
+
+    it("should lock the fee revenue wallet for the penalty in user_id order", async () => {
+      config.fees.revenueUserId = "user-000-revenue";
+      const { tables } = mockDb();
+      const revenueWallet = { ...mainWallet, id: "wallet-revenue", user_id: "user-000-revenue" };
+      tables.savings_pots.first
+        .mockResolvedValueOnce(locked)
+        .mockResolvedValueOnce({ ...pot, balance_decimal: "14750.000000", currency: "NGN" });
+      tables.wallets.first.mockResolvedValueOnce(revenueWallet);
+      vi.mocked(FeeService.quote).mockResolvedValue(penaltyOf("5000", "250"));
+
+      try {
+        await SavingsPotService.withdraw("user-123", "pot-1", "5000", undefined, now);
+      } finally {
+        config.fees.revenueUserId = undefined;
+      }
+
+      expect(tables.wallets.forUpdate.mock.invocationCallOrder[0]).toBeLessThan(
+        vi.mocked(WalletService.lockWalletById).mock.invocationCallOrder[0]!
+      );
+      expect(vi.mocked(FeeService.collect).mock.calls[0]![2]).toBe(revenueWallet);
+    });
+
+    it("should reject a withdrawal the pot cannot cover with its penalty", async () => {
+      const { tables } = mockDb();
+      tables.savings_pots.first.mockResolvedValueOnce(locked);
+      vi.mocked(FeeService.quote).mockResolvedValue(penaltyOf("20000", "1000"));
+
+      await expect(SavingsPotService.withdraw("user-123", "pot-1", "20000", undefined, now)).rejects.toThrow(
+        new AppError(422, "Insufficient funds. Available: 20000.000000, Required: 21000.000000")
+      );
+      expect(WalletService.moveWithin).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("close", () => {
+    it("should close an empty pot", async () => {
+      const { tables } = mockDb();
+      vi.mocked(WalletService.lockWalletById).mockImplementation(async (_trx, id: string) =>
+        id === "wallet-main" ? mainWallet : { ...potWallet, balance_decimal: "0.000000" }
+      );
+      tables.savings_pots.first
+        .mockResolvedValueOnce(pot)
+        .mockResolvedValueOnce({ ...pot, status: "closed", balance_decimal: "0.000000", currency: "NGN" });
+
+      const result = await SavingsPotService.close("user-123", "pot-1");
+
+      expect(tables.savings_pots.update).toHaveBeenCalledWith(expect.objectContaining({ status: "closed" }));
+      expect(result.status).toBe("closed");
+    });
+
+    it("should refuse to close a pot that still holds money", async () => {
+      const { tables } = mockDb();
+      tables.savings_pots.first.mockResolvedValueOnce(pot);
+
+      await expect(SavingsPotService.close("user-123", "pot-1")).rejects.toThrow(
+        new AppError(409, "Savings pot pot-1 still holds 20000.000000; withdraw it first")
+      );
+      expect(tables.savings_pots.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Scheduled Transfer Controller Tests
+ *
+ * Unit tests for scheduled transfer endpoints.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Request, Response, NextFunction } from "express";
+import { ScheduledTransferController } from "../../src/controllers/scheduled-transfer.controller";
+import { ScheduledTransferService } from "../../src/services/scheduled-transfer.service";
+import { AppError } from "../../src/middlewares/error";
+
+// Mock ScheduledTransferService
+vi.mock("../../src/services/scheduled-transfer.service", () => ({
+  ScheduledTransferService: {
+    create: vi.fn(),
+    listSchedules: vi.fn(),
+    getSchedule: vi.fn(),
+    listRuns: vi.fn(),
+    pause: vi.fn(),
+    resume: vi.fn(),
+    cancel: vi.fn(),
+  },
+}));
+
+describe("ScheduledTransferController", () => {
+  let mockReq: Partial<Request>;
+  let mockRes: Partial<Response>;
+  let mockNext: NextFunction;
+
+  const schedule = {
+    id: "sched-1",
+    user_id: "user-123",
+    recipient_user_id: "user-456",
+    currency: "NGN",
+    amount_decimal: "5000.000000",
+    channel: "api" as const,
+    recurrence: "FREQ=MONTHLY;BYMONTHDAY=1",
+    start_at: new Date(),
+    end_at: null,
+    max_runs: 12,
+    next_run_at: new Date(),
+    retry_at: null,
+    run_count: 0,
+    attempt_count: 0,
+    last_run_at: null,
+    last_error: null,
+    status: "active" as const,
+    metadata: null,
+    created_at: new Date(),
+    updated_at: new Date(),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockReq = {
+      params: { userId: "user-123" },
+      query: {},
+      body: {},
+      user: { id: "user-123" },
+    };
+
+    mockRes = {
+      status: vi.fn().mockReturnThis(),
+      json: vi.fn(),
+    };
+
+    mockNext = vi.fn();
+  });
+
+  describe("create", () => {
+    it("should schedule the transfer and return 201", async () => {
+      mockReq.body = {
+        recipientUserId: "user-456",
+        amount: "5000",
+        startAt: "2024-02-01T09:00:00Z",
+        recurrence: "FREQ=MONTHLY;BYMONTHDAY=1",
+        maxRuns: 12,
+      };
+      vi.mocked(ScheduledTransferService.create).mockResolvedValue(schedule);
+
+      await ScheduledTransferController.create(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(ScheduledTransferService.create).toHaveBeenCalledWith(
+        "user-123",
+        expect.objectContaining({ recipientUserId: "user-456", amount: "5000", maxRuns: 12 })
+      );
+      expect(mockRes.status).toHaveBeenCalledWith(201);
+      expect(mockRes.json).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: {
+            scheduled_transfer: expect.objectContaining({
+              id: "sched-1",
+              amount: "5000.000000",
+              status: "active",
+            }),
+          },
+        })
+      );
+    });
+
+    it("should return 403 for another user's wallet", async () => {
+      mockReq.params = { userId: "user-456" };
+
+      await ScheduledTransferController.create(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockRes.status).toHaveBeenCalledWith(403);
+      expect(ScheduledTransferService.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("list", () => {
+    it("should pass the status filter", async () => {
+      mockReq.query = { status: "paused" };
+      vi.mocked(ScheduledTransferService.listSchedules).mockResolvedValue([schedule]);
+
+      await ScheduledTransferController.list(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(ScheduledTransferService.listSchedules).toHaveBeenCalledWith("user-123", "paused");
+      expect(mockRes.status).toHaveBeenCalledWith(200);
+    });
+  });
+
+  describe("get", () => {
+    it("should return the schedule with its runs", async () => {
+      mockReq.params = { userId: "user-123", scheduleId: "sched-1" };
+      vi.mocked(ScheduledTransferService.getSchedule).mockResolvedValue(schedule);
+      vi.mocked(ScheduledTransferService.listRuns).mockResolvedValue([
+        {
+          id: "run-1",
+          schedule_id: "sched-1",
+          occurrence: 1,
+          attempt: 1,
+          scheduled_for: new Date(),
+          status: "failed",
+          reference: "SCHED-sched-1-1",
+          transfer_id: null,
+          error: "Insufficient funds",
+          retry_at: new Date(),
+          created_at: new Date(),
+        },
+      ]);
+
+      await ScheduledTransferController.get(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(ScheduledTransferService.listRuns).toHaveBeenCalledWith("sched-1");
+      const body = vi.mocked(mockRes.json!).mock.calls[0]![0];
+      expect(body.data.runs).toEqual([
+        expect.objectContaining({ occurrence: 1, status: "failed", error: "Insufficient funds" }),
+      ]);
+    });
+  });
+
+  describe("pause, resume and cancel", () => {
+    it("should pause the schedule", async () => {
+      mockReq.params = { userId: "user-123", scheduleId: "sched-1" };
+      vi.mocked(ScheduledTransferService.pause).mockResolvedValue({ ...schedule, status: "paused" });
+
+      await ScheduledTransferController.pause(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(ScheduledTransferService.pause).toHaveBeenCalledWith("user-123", "sched-1");
+      expect(mockRes.json).toHaveBeenCalledWith(
+        expect.objectContaining({ message: "Scheduled transfer paused successfully" })
+      );
+    });
+
+    it("should resume the schedule", async () => {
+      mockReq.params = { userId: "user-123", scheduleId: "sched-1" };
+      vi.mocked(ScheduledTransferService.resume).mockResolvedValue(schedule);
+
+      await ScheduledTransferController.resume(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(ScheduledTransferService.resume).toHaveBeenCalledWith("user-123", "sched-1");
+      expect(mockRes.status).toHaveBeenCalledWith(200);
+    });
+
+    it("should pass a conflict to the error handler", async () => {
+      mockReq.params = { userId: "user-123", scheduleId: "sched-1" };
+      const error = new AppError(409, "Scheduled transfer is already completed");
+      vi.mocked(ScheduledTransferService.cancel).mockRejectedValue(error);
+
+      await ScheduledTransferController.cancel(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith(error);
+    });
+
+    it("should return 403 for another user's schedule", async () => {
+      mockReq.params = { userId: "user-456", scheduleId: "sched-1" };
+
+      await ScheduledTransferController.cancel(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockRes.status).toHaveBeenCalledWith(403);
+      expect(ScheduledTransferService.cancel).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,428 @@
+/**
+ * Scheduled Transfer Service Tests
+ *
+ * Unit tests for creating, executing, retrying, pausing, resuming and
+ * cancelling scheduled transfers.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  ScheduledTransferService,
+  ScheduledTransfer,
+} from "../../src/services/scheduled-transfer.service";
+import { WalletService } from "../../src/services/wallet.service";
+import { knex, withTransaction } from "../../src/db";
+import { AppError, LimitExceededError } from "../../src/middlewares/error";
+import { Money } from "../../src/utils/money";
+import { mockTables } from "../helpers/query-mock";
+
+// Mock the database
+vi.mock("../../src/db", () => {
+  const knexMock = vi.fn() as any;
+  knexMock.fn = { now: () => new Date() };
+  return {
+    knex: knexMock,
+    newId: vi.fn(() => "run-123"),
+    withTransaction: vi.fn(),
+  };
+});
+
+/**
+ * Route the transaction to per-table query mocks
+ */
+const mockDb = () => {
+  const { tables, db } = mockTables("scheduled_transfers", "scheduled_transfer_runs", "transfers");
+  vi.mocked(withTransaction).mockImplementation((callback: any) => callback(db));
+  return tables;
+};
+
+const now = new Date("2024-02-01T09:00:00.000Z");
+
+const schedule: ScheduledTransfer = {
+  id: "sched-1",
+  user_id: "user-123",
+  recipient_user_id: "user-456",
+  currency: "NGN",
+  amount_decimal: "5000.000000",
+  channel: "api",
+  recurrence: null,
+  start_at: now,
+  end_at: null,
+  max_runs: null,
+  next_run_at: now,
+  retry_at: null,
+  run_count: 0,
+  attempt_count: 0,
+  last_run_at: null,
+  last_error: null,
+  status: "active",
+  metadata: { description: "Rent" },
+  created_at: new Date(),
+  updated_at: new Date(),
+};
+
+const monthly: ScheduledTransfer = {
+  ...schedule,
+  recurrence: "FREQ=MONTHLY;BYMONTHDAY=1",
+};
+
+const wallet = {
+  id: "wallet-123",
+  user_id: "user-123",
+  balance_decimal: "10000.000000",
+  held_decimal: "0.000000",
+  currency: "NGN",
+  created_at: new Date(),
+  updated_at: new Date(),
+};
+
+describe("ScheduledTransferService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(knex).mockReset();
+    vi.spyOn(WalletService, "getWalletByUserId").mockResolvedValue(wallet);
+    vi.spyOn(WalletService, "transfer").mockResolvedValue({
+      transfer: { id: "transfer-1" },
+    } as any);
+  });
+
+  describe("create", () => {
+    const input = {
+      recipientUserId: "user-456",
+      amount: "5000",
+      startAt: "2024-02-01T09:00:00Z",
+      recurrence: "FREQ=MONTHLY;BYMONTHDAY=1",
+      maxRuns: 12,
+    };
+    const before = new Date("2024-01-15T00:00:00.000Z");
+
+    it("should store the schedule with its first run at startAt", async () => {
+      const query = {
+        insert: vi.fn().mockResolvedValue([1]),
+        where: vi.fn().mockReturnThis(),
+        first: vi.fn().mockResolvedValue(monthly),
+      };
+      vi.mocked(knex).mockReturnValue(query as any);
+
+      const result = await ScheduledTransferService.create("user-123", input, before);
+
+      expect(query.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          user_id: "user-123",
+          recipient_user_id: "user-456",
+          currency: "NGN",
+          amount_decimal: "5000.000000",
+          channel: "api",
+          recurrence: "FREQ=MONTHLY;BYMONTHDAY=1",
+          max_runs: 12,
+          next_run_at: now,
+          status: "active",
+        })
+      );
+      expect(WalletService.getWalletByUserId).toHaveBeenCalledWith("user-456", undefined, false, {
+        currency: "NGN",
+      });
+      expect(result).toBe(monthly);
+    });
+
+    it.each([
+      [{ ...input, recipientUserId: "user-123" }, "Cannot schedule a transfer to yourself"],
+      [{ ...input, startAt: "2024-01-01T00:00:00Z" }, "startAt must be in the future"],
+      [{ ...input, recurrence: "FREQ=HOURLY" }, "Invalid recurrence"],
+      [{ ...input, recurrence: undefined }, "only apply to recurring transfers"],
+      [{ ...input, endAt: "2024-01-20T00:00:00Z" }, "endAt must be after startAt"],
+    ])("should reject invalid input %#", async (invalid, message) => {
+      const error = await ScheduledTransferService.create("user-123", invalid, before).catch((e) => e);
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.statusCode).toBe(400);
+      expect(error.message).toContain(message);
+      expect(knex).not.toHaveBeenCalled();
+    });
+
+    it("should return 404 when the recipient has no wallet in the currency", async () => {
+      vi.mocked(WalletService.getWalletByUserId)
+        .mockResolvedValueOnce(wallet)
+        .mockResolvedValueOnce(null);
+
+      const error = await ScheduledTransferService.create(
+        "user-123",
+        { ...input, currency: "USD" },
+        before
+      ).catch((e) => e);
+
+      expect(error.statusCode).toBe(404);
+      expect(error.message).toContain("Recipient has no USD wallet");
+    });
+  });
+
+  describe("execute", () => {
+    it("should transfer with the occurrence reference and complete a one-off", async () => {
+      const tables = mockDb();
+      tables.scheduled_transfers.first.mockResolvedValueOnce(schedule);
+
+      const result = await ScheduledTransferService.execute("sched-1", now);
+
+      expect(WalletService.transfer).toHaveBeenCalledWith(
+        "user-123",
+        "user-456",
+        Money.fromStorage("5000.000000", "NGN"),
+        { description: "Rent", scheduled_transfer_id: "sched-1", occurrence: 1 },
+        { currency: "NGN" },
+        "api",
+        "SCHED-sched-1-1"
+      );
+      expect(tables.scheduled_transfer_runs.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          occurrence: 1,
+          attempt: 1,
+          status: "succeeded",
+          reference: "SCHED-sched-1-1",
+          transfer_id: "transfer-1",
+        })
+      );
+      expect(tables.scheduled_transfers.update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: "completed", next_run_at: null, run_count: 1 })
+      );
+      expect(result).toEqual(expect.objectContaining({ status: "succeeded", transferId: "transfer-1" }));
+    });
+
+    it("should move a recurring schedule to its next occurrence", async () => {
+      const tables = mockDb();
+      tables.scheduled_transfers.first.mockResolvedValueOnce(monthly);
+
+      await ScheduledTransferService.execute("sched-1", now);
+
+      expect(tables.scheduled_transfers.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: "active",
+          next_run_at: new Date("2024-03-01T09:00:00.000Z"),
+          run_count: 1,
+          attempt_count: 0,
+        })
+      );
+    });
+
+    it("should complete a recurring schedule after its last run", async () => {
+      const tables = mockDb();
+      tables.scheduled_transfers.first.mockResolvedValueOnce({ ...monthly, max_runs: 3, run_count: 2 });
+
+      await ScheduledTransferService.execute("sched-1", now);
+
+      expect(tables.scheduled_transfers.update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: "completed", next_run_at: null, run_count: 3 })
+      );
+    });
+
+    it("should schedule a retry when funds are insufficient", async () => {
+      const tables = mockDb();
+      tables.scheduled_transfers.first.mockResolvedValueOnce(schedule);
+      vi.mocked(WalletService.transfer).mockRejectedValueOnce(
+        new Error("Insufficient funds. Available: 10.000000, Required: 5000.000000")
+      );
+
+      const result = await ScheduledTransferService.execute("sched-1", now);
+
+      const retryAt = new Date("2024-02-01T10:00:00.000Z");
+      expect(tables.scheduled_transfer_runs.insert).toHaveBeenCalledWith(
+        expect.objectContaining({ status: "failed", attempt: 1, transfer_id: null, retry_at: retryAt })
+      );
+      expect(tables.scheduled_transfers.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          retry_at: retryAt,
+          attempt_count: 1,
+          last_error: expect.stringContaining("Insufficient funds"),
+        })
+      );
+      expect(result?.retryAt).toEqual(retryAt);
+    });
+
+    it("should fail a one-off schedule after its last attempt", async () => {
+      const tables = mockDb();
+      tables.scheduled_transfers.first.mockResolvedValueOnce({
+        ...schedule,
+        attempt_count: 2,
+        retry_at: now,
+      });
+      vi.mocked(WalletService.transfer).mockRejectedValueOnce(new Error("Insufficient funds"));
+
+      await ScheduledTransferService.execute("sched-1", now);
+
+      expect(tables.scheduled_transfer_runs.insert).toHaveBeenCalledWith(
+        expect.objectContaining({ attempt: 3, retry_at: null })
+      );
+      expect(tables.scheduled_transfers.update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: "failed", next_run_at: null, retry_at: null, run_count: 1 })
+      );
+    });
+
+    it("should not retry a rejected transfer and keep a recurring schedule going", async () => {
+      const tables = mockDb();
+      tables.scheduled_transfers.first.mockResolvedValueOnce(monthly);
+      vi.mocked(WalletService.transfer).mockRejectedValueOnce(
+        new LimitExceededError(403, "Transfer exceeds your tier_1 daily limit", {
+          limit: "daily",
+          tier: "tier_1",
+          currency: "NGN",
+          max: "50000.000000",
+          used: "50000.000000",
+          requested: "5000.000000",
+        })
+      );
+
+      const result = await ScheduledTransferService.execute("sched-1", now);
+
+      expect(result?.retryAt).toBeNull();
+      expect(tables.scheduled_transfers.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: "active",
+          next_run_at: new Date("2024-03-01T09:00:00.000Z"),
+          run_count: 1,
+          last_error: "Transfer exceeds your tier_1 daily limit",
+        })
+      );
+    });
+
+    it("should record an occurrence that was already paid without paying it again", async () => {
+      const tables = mockDb();
+      tables.scheduled_transfers.first.mockResolvedValueOnce(schedule);
+      tables.transfers.first.mockResolvedValueOnce({ id: "transfer-0" });
+
+      const result = await ScheduledTransferService.execute("sched-1", now);
+
+      expect(tables.transfers.where).toHaveBeenCalledWith({ reference: "SCHED-sched-1-1" });
+      expect(WalletService.transfer).not.toHaveBeenCalled();
+      expect(result).toEqual(expect.objectContaining({ status: "succeeded", transferId: "transfer-0" }));
+    });
+
+    it.each([
+      ["paused", { ...schedule, status: "paused" as const }],
+      ["not yet due", { ...schedule, next_run_at: new Date("2024-02-02T09:00:00.000Z") }],
+      ["waiting for a retry", { ...schedule, retry_at: new Date("2024-02-01T10:00:00.000Z") }],
+    ])("should skip a schedule that is %s", async (_, row) => {
+      const tables = mockDb();
+      tables.scheduled_transfers.first.mockResolvedValueOnce(row);
+
+      expect(await ScheduledTransferService.execute("sched-1", now)).toBeNull();
+      expect(WalletService.transfer).not.toHaveBeenCalled();
+      expect(tables.scheduled_transfer_runs.insert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("runDue", () => {
+    it("should execute every due schedule and carry on after an error", async () => {
+      vi.mocked(knex).mockReturnValueOnce({
+        select: vi.fn().mockReturnThis(),
+        where: vi.fn().mockReturnThis(),
+        orderBy: vi.fn().mockReturnThis(),
+        limit: vi.fn().mockResolvedValue([{ id: "sched-1" }, { id: "sched-2" }]),
+      } as any);
+      const execute = vi
+        .spyOn(ScheduledTransferService, "execute")
+        .mockRejectedValueOnce(new Error("Deadlock found"))
+        .mockResolvedValueOnce({
+          scheduleId: "sched-2",
+          occurrence: 1,
+          attempt: 1,
+          status: "succeeded",
+          transferId: "transfer-2",
+          error: null,
+          retryAt: null,
+        });
+
+      const results = await ScheduledTransferService.runDue(now);
+
+      expect(execute).toHaveBeenCalledTimes(2);
+      expect(results).toEqual([expect.objectContaining({ scheduleId: "sched-2" })]);
+      execute.mockRestore();
+    });
+  });
+
+  describe("pause", () => {
+    it("should pause an active schedule", async () => {
+      const tables = mockDb();
+      tables.scheduled_transfers.first.mockResolvedValueOnce(schedule);
+
+      const result = await ScheduledTransferService.pause("user-123", "sched-1");
+
+      expect(tables.scheduled_transfers.where).toHaveBeenCalledWith({ id: "sched-1", user_id: "user-123" });
+      expect(result.status).toBe("paused");
+    });
+
+    it("should return 404 for another user's schedule", async () => {
+      const tables = mockDb();
+      tables.scheduled_transfers.first.mockResolvedValueOnce(undefined);
+
+      const error = await ScheduledTransferService.pause("user-456", "sched-1").catch((e) => e);
+
+      expect(error.statusCode).toBe(404);
+    });
+  });
+
+  describe("resume", () => {
+    it("should skip occurrences missed while paused", async () => {
+      const tables = mockDb();
+      tables.scheduled_transfers.first.mockResolvedValueOnce({
+        ...monthly,
+        status: "paused",
+        run_count: 1,
+        next_run_at: new Date("2024-03-01T09:00:00.000Z"),
+      });
+
+      const result = await ScheduledTransferService.resume(
+        "user-123",
+        "sched-1",
+        new Date("2024-05-10T00:00:00.000Z")
+      );
+
+      expect(result.status).toBe("active");
+      expect(result.next_run_at).toEqual(new Date("2024-06-01T09:00:00.000Z"));
+    });
+
+    it("should keep a one-off schedule's date", async () => {
+      const tables = mockDb();
+      tables.scheduled_transfers.first.mockResolvedValueOnce({ ...schedule, status: "paused" });
+
+      const result = await ScheduledTransferService.resume("user-123", "sched-1", new Date("2024-03-01"));
+
+      expect(result.next_run_at).toEqual(now);
+      expect(tables.scheduled_transfers.update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: "active" })
+      );
+    });
+
+    it("should return 409 unless the schedule is paused", async () => {
+      const tables = mockDb();
+      tables.scheduled_transfers.first.mockResolvedValueOnce(schedule);
+
+      const error = await ScheduledTransferService.resume("user-123", "sched-1").catch((e) => e);
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.statusCode).toBe(409);
+    });
+  });
+
+  describe("cancel", () => {
+    it("should cancel a paused schedule", async () => {
+      const tables = mockDb();
+      tables.scheduled_transfers.first.mockResolvedValueOnce({ ...monthly, status: "paused" });
+
+      const result = await ScheduledTransferService.cancel("user-123", "sched-1");
+
+      expect(tables.scheduled_transfers.update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: "cancelled", next_run_at: null, retry_at: null })
+      );
+      expect(result.status).toBe("cancelled");
+    });
+
+    it("should return 409 for a schedule that has ended", async () => {
+      const tables = mockDb();
+      tables.scheduled_transfers.first.mockResolvedValueOnce({ ...schedule, status: "completed" });
+
+      const error = await ScheduledTransferService.cancel("user-123", "sched-1").catch((e) => e);
+
+      expect(error.statusCode).toBe(409);
+      expect(tables.scheduled_transfers.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Session Service Tests
+ *
+ * Unit tests for session start, refresh token rotation and reuse
+ * detection, logout and revocation checks.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { SessionService } from "../../src/services/session.service";
+import { knex } from "../../src/db";
+import { mockQuery } from "../helpers/query-mock";
+import { AppError } from "../../src/middlewares/error";
+import { verifyToken } from "../../src/utils/token";
+
+// Mock the database
+vi.mock("../../src/db", () => {
+  const knexMock = vi.fn() as any;
+  knexMock.fn = { now: () => new Date() };
+  let id = 0;
+  return {
+    knex: knexMock,
+    newId: vi.fn(() => `00000000-0000-4000-8000-${String(++id).padStart(12, "0")}`),
+    withTransaction: vi.fn((callback) => callback(knexMock)),
+  };
+});
+
+describe("SessionService", () => {
+  const userId = "123e4567-e89b-12d3-a456-426614174000";
+  const familyId = "9b2f61c0-5a1d-4e2b-8c3f-0d6e7f8a9b0c";
+  const now = new Date("2024-03-01T09:00:00.000Z");
+
+  // Query mock that resolves lookups to `current` and records writes
+  const mockDb = (current: any, claimed = 1) => {
+    const query = mockQuery();
+    query.first.mockResolvedValue(current);
+    query.update.mockResolvedValue(claimed);
+    query.delete.mockResolvedValue(3);
+    vi.mocked(knex).mockReturnValue(query as any);
+    return query;
+  };
+
+  const storedToken = (overrides: Record<string, unknown> = {}) => ({
+    id: "token-1",
+    family_id: familyId,
+    user_id: userId,
+    refresh_token_hash: "hash",
+    expires_at: new Date("2024-03-31T09:00:00.000Z"),
+    rotated_at: null,
+    revoked_at: null,
+    revoked_reason: null,
+    created_at: new Date("2024-03-01T08:00:00.000Z"),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("start", () => {
+    it("should store a hashed refresh token for a new family and sign an access token", async () => {
+      const query = mockDb(undefined);
+
+      const tokens = await SessionService.start(userId, now);
+
+      expect(tokens.userId).toBe(userId);
+      expect(tokens.tokenExpiresAt).toEqual(new Date("2024-03-01T09:15:00.000Z"));
+      expect(tokens.refreshTokenExpiresAt).toEqual(new Date("2024-03-31T09:00:00.000Z"));
+      expect(tokens.refreshToken).toMatch(/^[A-Za-z0-9_-]{43}$/);
+
+      const row = query.insert.mock.calls[0]![0];
+      expect(row).toMatchObject({
+        family_id: tokens.sessionId,
+        user_id: userId,
+        expires_at: tokens.refreshTokenExpiresAt,
+        rotated_at: null,
+        revoked_at: null,
+      });
+      expect(row.refresh_token_hash).toMatch(/^[0-9a-f]{64}$/);
+      expect(row.refresh_token_hash).not.toBe(tokens.refreshToken);
+
+      expect(verifyToken(tokens.token, now)).toEqual({
+        userId,
+        sessionId: tokens.sessionId,
+        expiresAt: tokens.tokenExpiresAt,
+      });
+    });
+
+    it("should start a different family for each login", async () => {
+      mockDb(undefined);
+
+      const first = await SessionService.start(userId, now);
+      const second = await SessionService.start(userId, now);
+
+      expect(first.sessionId).not.toBe(second.sessionId);
+      expect(first.refreshToken).not.toBe(second.refreshToken);
+    });
+  });
+
+  describe("refresh", () => {
+    it("should rotate the refresh token within the same family", async () => {
+      const query = mockDb(storedToken());
+
+      const tokens = await SessionService.refresh("refresh-token", now);
+
+      expect(query.where).toHaveBeenCalledWith({ id: "token-1", rotated_at: null, revoked_at: null });
+      expect(query.update).toHaveBeenCalledWith({ rotated_at: now });
+      expect(query.insert).toHaveBeenCalledWith(
+        expect.objectContaining({ family_id: familyId, user_id: userId, rotated_at: null })
+      );
+      expect(tokens.sessionId).toBe(familyId);
+      expect(tokens.refreshToken).not.toBe("refresh-token");
+      expect(verifyToken(tokens.token, now).sessionId).toBe(familyId);
+    });
+
+    it("should reject an unknown refresh token", async () => {
+      mockDb(undefined);
+
+      const error = await SessionService.refresh("unknown", now).catch((e) => e);
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.statusCode).toBe(401);
+      expect(error.message).toBe("Invalid refresh token");
+    });
+
+    it("should reject an expired refresh token", async () => {
+      const query = mockDb(storedToken({ expires_at: new Date("2024-03-01T08:59:59.000Z") }));
+
+      await expect(SessionService.refresh("refresh-token", now)).rejects.toThrow("Refresh token has expired");
+      expect(query.insert).not.toHaveBeenCalled();
+    });
+
+    it("should reject a token of a revoked session", async () => {
+      const query = mockDb(storedToken({ revoked_at: now, revoked_reason: "logout" }));
+
+      await expect(SessionService.refresh("refresh-token", now)).rejects.toThrow("Session has been revoked");
+      expect(query.insert).not.toHaveBeenCalled();
+    });
+
+    it("should revoke the whole family when a rotated token is reused", async () => {
+      const query = mockDb(storedToken({ rotated_at: new Date("2024-03-01T08:30:00.000Z") }));
+
+      const error = await SessionService.refresh("refresh-token", now).catch((e) => e);
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.statusCode).toBe(401);
+      expect(error.message).toBe("Refresh token has already been used; the session has been revoked");
+      expect(query.where).toHaveBeenCalledWith({ family_id: familyId, revoked_at: null });
+      expect(query.update).toHaveBeenCalledWith({ revoked_at: now, revoked_reason: "reuse_detected" });
+      expect(query.insert).not.toHaveBeenCalled();
+    });
+
+    it("should revoke the family when a concurrent refresh used the token first", async () => {
+      const query = mockDb(storedToken(), 0);
+
+      await expect(SessionService.refresh("refresh-token", now)).rejects.toThrow(
+        "Refresh token has already been used; the session has been revoked"
+      );
+      expect(query.insert).not.toHaveBeenCalled();
+      expect(query.update).toHaveBeenCalledWith({ revoked_at: now, revoked_reason: "reuse_detected" });
+    });
+  });
+
+  describe("revoke", () => {
+    it("should revoke the family of the refresh token", async () => {
+      const query = mockDb(storedToken());
+
+      const revoked = await SessionService.revoke("refresh-token", now);
+
+      expect(revoked).toBe(true);
+      expect(query.where).toHaveBeenCalledWith({ family_id: familyId, revoked_at: null });
+      expect(query.update).toHaveBeenCalledWith({ revoked_at: now, revoked_reason: "logout" });
+    });
+
+    it("should ignore an unknown refresh token", async () => {
+      const query = mockDb(undefined);
+
+      expect(await SessionService.revoke("unknown", now)).toBe(false);
+      expect(query.update).not.toHaveBeenCalled();
+    });
+
+    it("should report an already revoked session", async () => {
+      mockDb(storedToken({ revoked_at: now }), 0);
+
+      expect(await SessionService.revoke("refresh-token", now)).toBe(false);
+    });
+  });
+
+  describe("isActive", () => {
+    it("should be active while the family has an unrevoked token", async () => {
+      const query = mockDb({ id: "token-2" });
+
+      expect(await SessionService.isActive(familyId)).toBe(true);
+      expect(query.where).toHaveBeenCalledWith({ family_id: familyId, revoked_at: null });
+    });
+
+    it("should be inactive once the family is revoked", async () => {
+      mockDb(undefined);
+
+      expect(await SessionService.isActive(familyId)).toBe(false);
+    });
+  });
+
+  describe("purgeExpired", () => {
+    it("should delete expired refresh tokens", async () => {
+      const query = mockDb(undefined);
+
+      expect(await SessionService.purgeExpired()).toBe(3);
+      expect(query.where).toHaveBeenCalledWith("expires_at", "<=", expect.anything());
+    });
+  });
+});
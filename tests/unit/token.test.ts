@@ -1,7 +1,7 @@
 /**
  * Token Utility Tests
  * 
- * Unit tests for token generation and verification.
+ * Unit tests for access token generation and verification.
  */
 
 import { describe, it, expect } from "vitest";
@@ -9,20 +9,32 @@ import { generateToken, verifyToken } from "../../src/utils/token";
 
 describe("Token Utility", () => {
   const testUserId = "123e4567-e89b-12d3-a456-426614174000";
+  const testSessionId = "9b2f61c0-5a1d-4e2b-8c3f-0d6e7f8a9b0c";
+  const expiresAt = new Date("2024-03-01T09:15:00.000Z");
+  const now = new Date("2024-03-01T09:00:00.000Z");
 
   describe("generateToken", () => {
     it("should generate a valid token", () => {
-      const token = generateToken(testUserId);
+      const token = generateToken(testUserId, testSessionId, expiresAt);
       
       expect(token).toBeDefined();
       expect(typeof token).toBe("string");
       expect(token).toContain("candidate:");
-      expect(token.split(":")).toHaveLength(4);
+      expect(token.split(":")).toHaveLength(5);
     });
 
-    it("should generate different tokens for the same user", () => {
-      const token1 = generateToken(testUserId);
-      const token2 = generateToken(testUserId);
+    it("should embed the session and expiry", () => {
+      const token = generateToken(testUserId, testSessionId, expiresAt);
+      const [, userId, sessionId, expiry] = token.split(":");
+
+      expect(userId).toBe(testUserId);
+      expect(sessionId).toBe(testSessionId);
+      expect(Number(expiry)).toBe(expiresAt.getTime() / 1000);
+    });
+
+    it("should generate different tokens for different sessions", () => {
+      const token1 = generateToken(testUserId, testSessionId, expiresAt);
+      const token2 = generateToken(testUserId, "0c1d2e3f-4a5b-4c6d-8e7f-8091a2b3c4d5", expiresAt);
       
       expect(token1).not.toBe(token2);
     });
@@ -30,11 +42,33 @@ describe("Token Utility", () => {
 
   describe("verifyToken", () => {
     it("should verify a valid token", () => {
-      const token = generateToken(testUserId);
-      const payload = verifyToken(token);
+      const token = generateToken(testUserId, testSessionId, expiresAt);
+      const payload = verifyToken(token, now);
       
-      expect(payload.userId).toBe(testUserId);
-      expect(payload.nonce).toBeDefined();
+      expect(payload).toEqual({
+        userId: testUserId,
+        sessionId: testSessionId,
+        expiresAt,
+      });
+    });
+
+    it("should reject an expired token", () => {
+      const token = generateToken(testUserId, testSessionId, expiresAt);
+
+      expect(() => verifyToken(token, expiresAt)).toThrow("Token has expired");
+      expect(() => verifyToken(token, new Date("2024-03-02T00:00:00.000Z"))).toThrow("Token has expired");
+    });
+
+    it("should reject a token whose expiry was changed", () => {
+      const [prefix, userId, sessionId, expiry, signature] = generateToken(testUserId, testSessionId, expiresAt).split(":");
+      const extended = [prefix, userId, sessionId, Number(expiry) + 86400, signature].join(":");
+
+      expect(() => verifyToken(extended, now)).toThrow("Invalid token signature");
+    });
+
+    it("should reject a token in the old format", () => {
+      const token = `candidate:${testUserId}:a1b2c3d4:signature`;
+      expect(() => verifyToken(token, now)).toThrow("Invalid token format");
     });
 
     it("should reject an invalid token format", () => {
@@ -42,19 +76,28 @@ describe("Token Utility", () => {
     });
 
     it("should reject a token with invalid prefix", () => {
-      const token = `wrong:${testUserId}:nonce:signature`;
+      const token = `wrong:${testUserId}:${testSessionId}:1709284500:signature`;
       expect(() => verifyToken(token)).toThrow("Invalid token prefix");
     });
 
     it("should reject a token with invalid signature", () => {
-      const token = `candidate:${testUserId}:nonce:invalid-signature`;
+      const token = `candidate:${testUserId}:${testSessionId}:1709284500:invalid-signature`;
       expect(() => verifyToken(token)).toThrow("Invalid token signature");
     });
 
     it("should reject a token with invalid UUID", () => {
-      const token = "candidate:not-a-uuid:nonce:signature";
+      const token = `candidate:not-a-uuid:${testSessionId}:1709284500:signature`;
       expect(() => verifyToken(token)).toThrow("Invalid user ID format");
     });
+
+    it("should reject a token with invalid session ID", () => {
+      const token = `candidate:${testUserId}:not-a-session:1709284500:signature`;
+      expect(() => verifyToken(token)).toThrow("Invalid session ID format");
+    });
+
+    it("should reject a token with invalid expiry", () => {
+      const token = `candidate:${testUserId}:${testSessionId}:soon:signature`;
+      expect(() => verifyToken(token)).toThrow("Invalid token expiry");
+    });
   });
 });
-
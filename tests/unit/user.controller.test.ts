@@ -14,6 +14,7 @@ import { AppError } from "../../src/middlewares/error";
 vi.mock("../../src/services/user.service", () => ({
   UserService: {
     getUserById: vi.fn(),
+    setHandle: vi.fn(),
   },
 }));
 
@@ -129,5 +130,46 @@ describe("UserController", () => {
       expect(mockNext).toHaveBeenCalledWith(error);
     });
   });
-});
 
+  describe("setHandle", () => {
+    it("should set the handle for your own account", async () => {
+      mockReq.params = { id: "user-123" };
+      mockReq.user = { id: "user-123" };
+      mockReq.body = { handle: "@JohnDoe" };
+      vi.mocked(UserService.setHandle).mockResolvedValue({ id: "user-123", handle: "johndoe" } as any);
+
+      await UserController.setHandle(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(UserService.setHandle).toHaveBeenCalledWith("user-123", "@JohnDoe");
+      expect(mockRes.status).toHaveBeenCalledWith(200);
+      expect(mockRes.json).toHaveBeenCalledWith({
+        success: true,
+        message: "Handle updated successfully",
+        data: { user: { id: "user-123", handle: "johndoe" } },
+      });
+    });
+
+    it("should return 403 when changing another user's handle", async () => {
+      mockReq.params = { id: "user-456" };
+      mockReq.user = { id: "user-123" };
+      mockReq.body = { handle: "johndoe" };
+
+      await UserController.setHandle(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockRes.status).toHaveBeenCalledWith(403);
+      expect(UserService.setHandle).not.toHaveBeenCalled();
+    });
+
+    it("should pass a taken handle to next", async () => {
+      mockReq.params = { id: "user-123" };
+      mockReq.user = { id: "user-123" };
+      mockReq.body = { handle: "johndoe" };
+      const error = new AppError(409, "Handle @johndoe is already taken");
+      vi.mocked(UserService.setHandle).mockRejectedValue(error);
+
+      await UserController.setHandle(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith(error);
+    });
+  });
+});
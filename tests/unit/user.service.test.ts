@@ -180,5 +180,168 @@ describe("UserService", () => {
       expect(result).toBe(false);
     });
   });
-});
 
+  describe("getUserByHandle", () => {
+    it("should look the handle up in lowercase without the @", async () => {
+      const query = {
+        where: vi.fn().mockReturnThis(),
+        first: vi.fn().mockResolvedValue({ id: "test-user-id", handle: "ada_pays" }),
+      };
+      vi.mocked(knex).mockReturnValue(query as any);
+
+      const result = await UserService.getUserByHandle(" @Ada_Pays ");
+
+      expect(query.where).toHaveBeenCalledWith({ handle: "ada_pays" });
+      expect(result).toEqual({ id: "test-user-id", handle: "ada_pays" });
+    });
+  });
+
+  describe("setHandle", () => {
+    const makeQuery = (found: unknown) => ({
+      where: vi.fn().mockReturnThis(),
+      first: vi.fn().mockResolvedValue(found),
+      update: vi.fn().mockResolvedValue(1),
+    });
+
+    beforeEach(() => {
+      (knex as any).fn = { now: () => new Date() };
+    });
+
+    it("should store the normalised handle", async () => {
+      const query = makeQuery(undefined);
+      query.first
+        .mockResolvedValueOnce(undefined) // handle free
+        .mockResolvedValueOnce({ id: "user-123", handle: "ada_pays" }); // updated user
+      vi.mocked(knex).mockReturnValue(query as any);
+
+      const user = await UserService.setHandle("user-123", "@Ada_Pays");
+
+      expect(query.update).toHaveBeenCalledWith(expect.objectContaining({ handle: "ada_pays" }));
+      expect(user.handle).toBe("ada_pays");
+    });
+
+    it("should allow keeping your own handle", async () => {
+      const query = makeQuery({ id: "user-123", handle: "ada_pays" });
+      vi.mocked(knex).mockReturnValue(query as any);
+
+      await UserService.setHandle("user-123", "ada_pays");
+
+      expect(query.update).toHaveBeenCalled();
+    });
+
+    it("should reject a handle taken by another user", async () => {
+      const query = makeQuery({ id: "user-456", handle: "ada_pays" });
+      vi.mocked(knex).mockReturnValue(query as any);
+
+      await expect(UserService.setHandle("user-123", "ada_pays")).rejects.toMatchObject({
+        statusCode: 409,
+        message: "Handle @ada_pays is already taken",
+      });
+      expect(query.update).not.toHaveBeenCalled();
+    });
+
+    it.each(["ab", "1abc", "has space", "a".repeat(31)])("should reject the handle %s", async (handle) => {
+      await expect(UserService.setHandle("user-123", handle)).rejects.toMatchObject({ statusCode: 400 });
+    });
+  });
+
+  describe("identifierType", () => {
+    it.each([
+      ["jane@example.com", "email"],
+      ["+234 801-234-5678", "phone"],
+      ["08012345678", "phone"],
+      ["@janedoe", "handle"],
+      ["janedoe", "handle"],
+    ])("should treat %s as %s", (identifier, type) => {
+      expect(UserService.identifierType(identifier)).toBe(type);
+    });
+  });
+
+  describe("resolveRecipient", () => {
+    const activeUser = { id: "user-456", name: "Jane Doe", status: "active" };
+
+    it("should look a phone number up without spaces or dashes", async () => {
+      const query = {
+        where: vi.fn().mockReturnThis(),
+        first: vi.fn().mockResolvedValue(activeUser),
+      };
+      vi.mocked(knex).mockReturnValue(query as any);
+
+      const result = await UserService.resolveRecipient("+234 801-234-5678");
+
+      expect(query.where).toHaveBeenCalledWith({ phone: "+2348012345678" });
+      expect(result).toEqual({ user: activeUser, type: "phone" });
+    });
+
+    it("should look an email up as typed", async () => {
+      const query = {
+        where: vi.fn().mockReturnThis(),
+        first: vi.fn().mockResolvedValue(activeUser),
+      };
+      vi.mocked(knex).mockReturnValue(query as any);
+
+      await UserService.resolveRecipient(" jane@example.com ");
+
+      expect(query.where).toHaveBeenCalledWith({ email: "jane@example.com" });
+    });
+
+    it("should throw 404 when no user matches", async () => {
+      vi.mocked(knex).mockReturnValue({
+        where: vi.fn().mockReturnThis(),
+        first: vi.fn().mockResolvedValue(undefined),
+      } as any);
+
+      await expect(UserService.resolveRecipient("@nobody")).rejects.toMatchObject({
+        statusCode: 404,
+        message: "No user found with handle @nobody",
+      });
+    });
+
+    it.each(["blocked", "blacklisted"])("should reject a %s recipient", async (status) => {
+      vi.mocked(knex).mockReturnValue({
+        where: vi.fn().mockReturnThis(),
+        first: vi.fn().mockResolvedValue({ ...activeUser, status }),
+      } as any);
+
+      await expect(UserService.resolveRecipient("@janedoe")).rejects.toMatchObject({
+        statusCode: 422,
+        message: "Recipient cannot receive transfers",
+      });
+    });
+  });
+
+  describe("assertCanReceive", () => {
+    const makeDb = (found: unknown) => {
+      const query = {
+        select: vi.fn().mockReturnThis(),
+        where: vi.fn().mockReturnThis(),
+        first: vi.fn().mockResolvedValue(found),
+      };
+      return { db: vi.fn(() => query) as any, query };
+    };
+
+    it("should accept an active user", async () => {
+      const { db, query } = makeDb({ id: "user-456", status: "active" });
+
+      await expect(UserService.assertCanReceive(db, "user-456")).resolves.toBeUndefined();
+      expect(db).toHaveBeenCalledWith("users");
+      expect(query.where).toHaveBeenCalledWith({ id: "user-456" });
+    });
+
+    it("should reject a blacklisted user", async () => {
+      const { db } = makeDb({ id: "user-456", status: "blacklisted" });
+
+      await expect(UserService.assertCanReceive(db, "user-456")).rejects.toThrow(
+        "Recipient cannot receive transfers"
+      );
+    });
+
+    it("should throw 404 for a missing user", async () => {
+      const { db } = makeDb(undefined);
+
+      await expect(UserService.assertCanReceive(db, "user-999")).rejects.toMatchObject({
+        statusCode: 404,
+      });
+    });
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Wallet Status Controller Tests
+ *
+ * Unit tests for the admin wallet status endpoints.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Request, Response, NextFunction } from "express";
+import { WalletStatusController } from "../../src/controllers/wallet-status.controller";
+import { WalletStatusService } from "../../src/services/wallet-status.service";
+import { AppError } from "../../src/middlewares/error";
+
+// Mock WalletStatusService
+vi.mock("../../src/services/wallet-status.service", () => ({
+  WalletStatusService: {
+    setStatus: vi.fn(),
+    listHistory: vi.fn(),
+  },
+}));
+
+describe("WalletStatusController", () => {
+  let mockReq: Partial<Request>;
+  let mockRes: Partial<Response>;
+  let mockNext: NextFunction;
+
+  const change = {
+    id: "change-1",
+    wallet_id: "wallet-123",
+    from_status: "active" as const,
+    to_status: "post_no_debit" as const,
+    reason: "Court order",
+    changed_by: "admin-1",
+    created_at: new Date(),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockReq = {
+      params: {},
+      query: {},
+      body: {},
+      user: { id: "admin-1" },
+    };
+
+    mockRes = {
+      status: vi.fn().mockReturnThis(),
+      json: vi.fn(),
+    };
+
+    mockNext = vi.fn();
+  });
+
+  describe("setStatus", () => {
+    it("should change the status as the acting admin", async () => {
+      mockReq.params = { walletId: "wallet-123" };
+      mockReq.body = { status: "post_no_debit", reason: "Court order" };
+      vi.mocked(WalletStatusService.setStatus).mockResolvedValue({
+        wallet: {
+          id: "wallet-123",
+          user_id: "user-123",
+          balance_decimal: "500.000000",
+          held_decimal: "0.000000",
+          currency: "NGN",
+          status: "post_no_debit",
+          created_at: new Date(),
+          updated_at: new Date(),
+        },
+        change,
+      });
+
+      await WalletStatusController.setStatus(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(WalletStatusService.setStatus).toHaveBeenCalledWith(
+        "wallet-123",
+        "post_no_debit",
+        "Court order",
+        "admin-1"
+      );
+      expect(mockRes.status).toHaveBeenCalledWith(200);
+      expect(mockRes.json).toHaveBeenCalledWith({
+        success: true,
+        message: "Wallet status updated successfully",
+        data: {
+          wallet: {
+            id: "wallet-123",
+            user_id: "user-123",
+            currency: "NGN",
+            balance: "500.000000",
+            status: "post_no_debit",
+          },
+          change,
+        },
+      });
+    });
+
+    it("should pass service errors to next", async () => {
+      mockReq.params = { walletId: "wallet-123" };
+      mockReq.body = { status: "closed", reason: "Customer request" };
+      const error = new AppError(409, "Wallet wallet-123 still holds NGN 500.00");
+      vi.mocked(WalletStatusService.setStatus).mockRejectedValue(error);
+
+      await WalletStatusController.setStatus(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith(error);
+      expect(mockRes.status).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("listHistory", () => {
+    it("should return the wallet's status history", async () => {
+      mockReq.params = { walletId: "wallet-123" };
+      vi.mocked(WalletStatusService.listHistory).mockResolvedValue([change]);
+
+      await WalletStatusController.listHistory(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(WalletStatusService.listHistory).toHaveBeenCalledWith("wallet-123");
+      expect(mockRes.status).toHaveBeenCalledWith(200);
+      expect(mockRes.json).toHaveBeenCalledWith({ success: true, data: { history: [change] } });
+    });
+
+    it("should pass a missing wallet to next", async () => {
+      mockReq.params = { walletId: "missing" };
+      const error = new AppError(404, "Wallet not found: missing");
+      vi.mocked(WalletStatusService.listHistory).mockRejectedValue(error);
+
+      await WalletStatusController.listHistory(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith(error);
+    });
+  });
+});
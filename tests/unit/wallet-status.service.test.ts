@@ -0,0 +1,205 @@
+/**
+ * Wallet Status Service Tests
+ *
+ * Unit tests for freezing, restricting, reactivating and closing wallets
+ * and listing their status history.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { WalletStatusService } from "../../src/services/wallet-status.service";
+import { knex, withTransaction } from "../../src/db";
+import { AppError } from "../../src/middlewares/error";
+import { mockTables } from "../helpers/query-mock";
+
+// Mock the database
+vi.mock("../../src/db", () => {
+  const knexMock = vi.fn() as any;
+  knexMock.fn = { now: () => new Date() };
+  return {
+    knex: knexMock,
+    newId: vi.fn(() => "change-1"),
+    withTransaction: vi.fn(),
+  };
+});
+
+/**
+ * Route the transaction to per-table query mocks
+ */
+const mockDb = () => {
+  const { tables, db: trx } = mockTables("wallets", "wallet_status_history");
+  vi.mocked(withTransaction).mockImplementation((callback: any) => callback(trx));
+  return { tables, trx };
+};
+
+const wallet = {
+  id: "wallet-123",
+  user_id: "user-123",
+  balance_decimal: "0.000000",
+  held_decimal: "0.000000",
+  currency: "NGN",
+  status: "active",
+  parent_wallet_id: null,
+  created_at: new Date(),
+  updated_at: new Date(),
+};
+
+const change = {
+  id: "change-1",
+  wallet_id: "wallet-123",
+  from_status: "active",
+  to_status: "frozen",
+  reason: "Suspected fraud",
+  changed_by: "admin-1",
+  created_at: new Date(),
+};
+
+describe("WalletStatusService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("setStatus", () => {
+    it("should change the status and record who changed it and why", async () => {
+      const { tables } = mockDb();
+      tables.wallets.first
+        .mockResolvedValueOnce(wallet)
+        .mockResolvedValueOnce({ ...wallet, status: "frozen" });
+      tables.wallet_status_history.first.mockResolvedValueOnce(change);
+
+      const result = await WalletStatusService.setStatus("wallet-123", "frozen", "  Suspected fraud ", "admin-1");
+
+      expect(tables.wallets.forUpdate).toHaveBeenCalled();
+      expect(tables.wallets.update).toHaveBeenCalledWith(expect.objectContaining({ status: "frozen" }));
+      expect(tables.wallet_status_history.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          id: "change-1",
+          wallet_id: "wallet-123",
+          from_status: "active",
+          to_status: "frozen",
+          reason: "Suspected fraud",
+          changed_by: "admin-1",
+        })
+      );
+      expect(result.wallet.status).toBe("frozen");
+      expect(result.change).toEqual(change);
+    });
+
+    it("should require a reason", async () => {
+      await expect(WalletStatusService.setStatus("wallet-123", "frozen", "   ", "admin-1")).rejects.toMatchObject({
+        statusCode: 400,
+      });
+      expect(withTransaction).not.toHaveBeenCalled();
+    });
+
+    it("should return 404 for an unknown wallet", async () => {
+      const { tables } = mockDb();
+      tables.wallets.first.mockResolvedValueOnce(undefined);
+
+      await expect(
+        WalletStatusService.setStatus("missing", "frozen", "Suspected fraud", "admin-1")
+      ).rejects.toMatchObject({ statusCode: 404 });
+    });
+
+    it("should reject a change to the current status", async () => {
+      const { tables } = mockDb();
+      tables.wallets.first.mockResolvedValueOnce({ ...wallet, status: "post_no_debit" });
+
+      await expect(
+        WalletStatusService.setStatus("wallet-123", "post_no_debit", "Court order", "admin-1")
+      ).rejects.toThrow("already post_no_debit");
+      expect(tables.wallets.update).not.toHaveBeenCalled();
+    });
+
+    it("should never reopen a closed wallet", async () => {
+      const { tables } = mockDb();
+      tables.wallets.first.mockResolvedValueOnce({ ...wallet, status: "closed" });
+
+      const error = await WalletStatusService.setStatus("wallet-123", "active", "Customer request", "admin-1").catch(
+        (e) => e
+      );
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.statusCode).toBe(409);
+      expect(error.message).toContain("cannot be reopened");
+    });
+
+    it("should close an empty wallet", async () => {
+      const { tables } = mockDb();
+      tables.wallets.first
+        .mockResolvedValueOnce({ ...wallet, status: "frozen" })
+        .mockResolvedValueOnce({ total: null })
+        .mockResolvedValueOnce({ ...wallet, status: "closed" });
+      tables.wallet_status_history.first.mockResolvedValueOnce({ ...change, from_status: "frozen", to_status: "closed" });
+
+      const result = await WalletStatusService.setStatus("wallet-123", "closed", "Customer request", "admin-1");
+
+      expect(tables.wallets.where).toHaveBeenCalledWith({ parent_wallet_id: "wallet-123" });
+      expect(result.wallet.status).toBe("closed");
+    });
+
+    it("should not close a wallet that still holds funds", async () => {
+      const { tables } = mockDb();
+      tables.wallets.first.mockResolvedValueOnce({ ...wallet, balance_decimal: "0.500000" });
+
+      await expect(
+        WalletStatusService.setStatus("wallet-123", "closed", "Customer request", "admin-1")
+      ).rejects.toMatchObject({ statusCode: 409, message: expect.stringContaining("move the funds out") });
+      expect(tables.wallets.update).not.toHaveBeenCalled();
+    });
+
+    it("should not close a wallet with active holds", async () => {
+      const { tables } = mockDb();
+      tables.wallets.first.mockResolvedValueOnce({ ...wallet, held_decimal: "10.000000" });
+
+      await expect(
+        WalletStatusService.setStatus("wallet-123", "closed", "Customer request", "admin-1")
+      ).rejects.toThrow("active holds");
+    });
+
+    it("should not close a wallet whose savings pots still hold funds", async () => {
+      const { tables } = mockDb();
+      tables.wallets.first
+        .mockResolvedValueOnce(wallet)
+        .mockResolvedValueOnce({ total: "2500.000000" });
+
+      await expect(
+        WalletStatusService.setStatus("wallet-123", "closed", "Customer request", "admin-1")
+      ).rejects.toThrow("in savings pots");
+      expect(tables.wallet_status_history.insert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("listHistory", () => {
+    it("should list the wallet's changes newest first", async () => {
+      const walletQuery = {
+        select: vi.fn().mockReturnThis(),
+        where: vi.fn().mockReturnThis(),
+        first: vi.fn().mockResolvedValue({ id: "wallet-123" }),
+      };
+      const historyQuery = {
+        where: vi.fn().mockReturnThis(),
+        orderBy: vi.fn().mockReturnThis(),
+        then: (resolve: (rows: unknown[]) => unknown) => resolve([change]),
+      };
+      vi.mocked(knex as any)
+        .mockReturnValueOnce(walletQuery)
+        .mockReturnValueOnce(historyQuery);
+
+      const history = await WalletStatusService.listHistory("wallet-123");
+
+      expect(historyQuery.where).toHaveBeenCalledWith({ wallet_id: "wallet-123" });
+      expect(historyQuery.orderBy).toHaveBeenCalledWith("created_at", "desc");
+      expect(history).toEqual([change]);
+    });
+
+    it("should return 404 for an unknown wallet", async () => {
+      vi.mocked(knex as any).mockReturnValueOnce({
+        select: vi.fn().mockReturnThis(),
+        where: vi.fn().mockReturnThis(),
+        first: vi.fn().mockResolvedValue(undefined),
+      });
+
+      await expect(WalletStatusService.listHistory("missing")).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+});
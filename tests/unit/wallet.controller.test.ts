@@ -8,6 +8,9 @@ import { describe, it, expect, vi, beforeEach } from "vitest";
 import { Request, Response, NextFunction } from "express";
 import { WalletController } from "../../src/controllers/wallet.controller";
 import { WalletService } from "../../src/services/wallet.service";
+import { UserService } from "../../src/services/user.service";
+import { AppError } from "../../src/middlewares/error";
+import { Money } from "../../src/utils/money";
 
 // Mock WalletService
 vi.mock("../../src/services/wallet.service", () => ({
@@ -16,9 +19,73 @@ vi.mock("../../src/services/wallet.service", () => ({
     withdraw: vi.fn(),
     transfer: vi.fn(),
     getBalance: vi.fn(),
+    getTransactionHistory: vi.fn(),
+    listWallets: vi.fn(),
+    openWallet: vi.fn(),
+    availableBalance: vi.fn(),
   },
 }));
 
+// Mock UserService
+vi.mock("../../src/services/user.service", () => ({
+  UserService: {
+    resolveRecipient: vi.fn(),
+  },
+}));
+
+/**
+ * Recipient found by UserService.resolveRecipient
+ */
+const recipientUser = {
+  id: "user-456",
+  name: "Jane Doe",
+  email: "jane@example.com",
+  phone: "+2348012345678",
+  handle: "janedoe",
+  status: "active" as const,
+  role: "user" as const,
+  tier: "tier_1" as const,
+  created_at: new Date(),
+  updated_at: new Date(),
+};
+
+/**
+ * Flat fee breakdown as returned by WalletService.withdraw/transfer
+ */
+const flatFee = (amount: string, fee: string) => ({
+  operation: "withdraw",
+  channel: "api",
+  tier: "tier_1",
+  rule: { id: "rule-1", fee_type: "flat", percentage_bps: null },
+  amount: Money.parse(amount, "NGN"),
+  flat: Money.parse(fee, "NGN"),
+  percentage: Money.zero("NGN"),
+  band: null,
+  adjustment: null,
+  fee: Money.parse(fee, "NGN"),
+  total: Money.parse(amount, "NGN").add(Money.parse(fee, "NGN")),
+});
+
+/**
+ * Expected `fee` field of a response for flatFee(amount, fee)
+ */
+const flatFeeResponse = (fee: string, total: string, transactionId: string) => ({
+  amount: fee,
+  total_debit: total,
+  rule_id: "rule-1",
+  fee_type: "flat",
+  channel: "api",
+  tier: "tier_1",
+  breakdown: {
+    flat: fee,
+    percentage: "0.000000",
+    percentage_bps: null,
+    band: null,
+    adjustment: null,
+  },
+  transaction_id: transactionId,
+});
+
 describe("WalletController", () => {
   let mockReq: Partial<Request>;
   let mockRes: Partial<Response>;
@@ -29,6 +96,7 @@ describe("WalletController", () => {
 
     mockReq = {
       params: {},
+      query: {},
       body: {},
       user: { id: "user-123" },
     };
@@ -41,10 +109,89 @@ describe("WalletController", () => {
     mockNext = vi.fn();
   });
 
+  describe("listWallets", () => {
+    it("should return every wallet with its balances", async () => {
+      mockReq.params = { userId: "user-123" };
+      vi.mocked(WalletService.listWallets).mockResolvedValue([
+        { id: "wallet-ngn", currency: "NGN", balance_decimal: "1000.000000", held_decimal: "0.000000" },
+        { id: "wallet-usd", currency: "USD", balance_decimal: "25.000000", held_decimal: "5.000000" },
+      ] as any);
+      vi.mocked(WalletService.availableBalance).mockReturnValue({
+        toStorageString: () => "20.000000",
+      } as any);
+
+      await WalletController.listWallets(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(WalletService.listWallets).toHaveBeenCalledWith("user-123");
+      expect(mockRes.status).toHaveBeenCalledWith(200);
+      expect(mockRes.json).toHaveBeenCalledWith({
+        success: true,
+        data: {
+          wallets: [
+            expect.objectContaining({ id: "wallet-ngn", currency: "NGN" }),
+            expect.objectContaining({
+              id: "wallet-usd",
+              currency: "USD",
+              balance: "25.000000",
+              available_balance: "20.000000",
+              held_balance: "5.000000",
+            }),
+          ],
+        },
+      });
+    });
+
+    it("should return 403 when listing another user's wallets", async () => {
+      mockReq.params = { userId: "user-456" };
+
+      await WalletController.listWallets(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockRes.status).toHaveBeenCalledWith(403);
+      expect(WalletService.listWallets).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("openWallet", () => {
+    it("should open a wallet in the requested currency", async () => {
+      mockReq.params = { userId: "user-123" };
+      mockReq.body = { currency: "USD" };
+      vi.mocked(WalletService.openWallet).mockResolvedValue({
+        id: "wallet-usd",
+        currency: "USD",
+        balance_decimal: "0.000000",
+        held_decimal: "0.000000",
+      } as any);
+      vi.mocked(WalletService.availableBalance).mockReturnValue({
+        toStorageString: () => "0.000000",
+      } as any);
+
+      await WalletController.openWallet(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(WalletService.openWallet).toHaveBeenCalledWith("user-123", "USD");
+      expect(mockRes.status).toHaveBeenCalledWith(201);
+      expect(mockRes.json).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { wallet: expect.objectContaining({ id: "wallet-usd", currency: "USD" }) },
+        })
+      );
+    });
+
+    it("should pass a duplicate currency error to next", async () => {
+      mockReq.params = { userId: "user-123" };
+      mockReq.body = { currency: "NGN" };
+      const error = new Error("User already has a NGN wallet");
+      vi.mocked(WalletService.openWallet).mockRejectedValue(error);
+
+      await WalletController.openWallet(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith(error);
+    });
+  });
+
   describe("fund", () => {
     it("should fund wallet successfully (no reference in request)", async () => {
       mockReq.params = { userId: "user-123" };
-      mockReq.body = { amount: 500 };
+      mockReq.body = { amount: "500" };
 
       const mockResult = {
         reference: "FUND-user-123-1234567890-abc",
@@ -72,7 +219,10 @@ describe("WalletController", () => {
         mockNext
       );
 
-      expect(WalletService.fund).toHaveBeenCalledWith("user-123", 500, undefined);
+      expect(WalletService.fund).toHaveBeenCalledWith("user-123", "500", undefined, {
+        walletId: undefined,
+        currency: undefined,
+      });
       expect(mockRes.status).toHaveBeenCalledWith(200);
       expect(mockRes.json).toHaveBeenCalledWith({
         success: true,
@@ -94,7 +244,7 @@ describe("WalletController", () => {
 
     it("should return 403 when funding another user's wallet", async () => {
       mockReq.params = { userId: "user-456" };
-      mockReq.body = { amount: 500 };
+      mockReq.body = { amount: "500" };
       mockReq.user = { id: "user-123" };
 
       await WalletController.fund(
@@ -113,7 +263,7 @@ describe("WalletController", () => {
 
     it("should pass metadata to service", async () => {
       mockReq.params = { userId: "user-123" };
-      mockReq.body = { amount: 500, metadata: { source: "bank" } };
+      mockReq.body = { amount: "500", metadata: { source: "bank" } };
 
       vi.mocked(WalletService.fund).mockResolvedValue({} as any);
 
@@ -123,12 +273,17 @@ describe("WalletController", () => {
         mockNext
       );
 
-      expect(WalletService.fund).toHaveBeenCalledWith("user-123", 500, { source: "bank" });
+      expect(WalletService.fund).toHaveBeenCalledWith(
+        "user-123",
+        "500",
+        { source: "bank" },
+        { walletId: undefined, currency: undefined }
+      );
     });
 
     it("should handle service errors", async () => {
       mockReq.params = { userId: "user-123" };
-      mockReq.body = { amount: -100 };
+      mockReq.body = { amount: "-100" };
 
       const error = new Error("Amount must be positive");
       vi.mocked(WalletService.fund).mockRejectedValue(error);
@@ -146,7 +301,7 @@ describe("WalletController", () => {
   describe("withdraw", () => {
     it("should withdraw successfully (no reference in request)", async () => {
       mockReq.params = { userId: "user-123" };
-      mockReq.body = { amount: 200 };
+      mockReq.body = { amount: "200" };
 
       const mockResult = {
         reference: "WITHDRAW-user-123-1234567890-xyz",
@@ -164,6 +319,8 @@ describe("WalletController", () => {
           balance_after: "800.0000",
           created_at: new Date(),
         },
+        fee: flatFee("200", "10"),
+        feeTransaction: { id: "txn-fee" },
       };
 
       vi.mocked(WalletService.withdraw).mockResolvedValue(mockResult as any);
@@ -174,7 +331,13 @@ describe("WalletController", () => {
         mockNext
       );
 
-      expect(WalletService.withdraw).toHaveBeenCalledWith("user-123", 200, undefined);
+      expect(WalletService.withdraw).toHaveBeenCalledWith(
+        "user-123",
+        "200",
+        undefined,
+        { walletId: undefined, currency: undefined },
+        undefined
+      );
       expect(mockRes.status).toHaveBeenCalledWith(200);
       expect(mockRes.json).toHaveBeenCalledWith({
         success: true,
@@ -190,13 +353,36 @@ describe("WalletController", () => {
             balance_after: mockResult.transaction.balance_after,
             created_at: mockResult.transaction.created_at,
           },
+          fee: flatFeeResponse("10.000000", "210.000000", "txn-fee"),
         },
       });
     });
 
+    it("should pass the request channel to the service", async () => {
+      mockReq.params = { userId: "user-123" };
+      mockReq.body = { amount: "200", channel: "ussd" };
+      vi.mocked(WalletService.withdraw).mockResolvedValue({
+        reference: "WITHDRAW-user-123-1234567890-xyz",
+        wallet: { balance_decimal: "800.00", currency: "NGN" },
+        transaction: { id: "txn-456" },
+        fee: flatFee("200", "10"),
+        feeTransaction: null,
+      } as any);
+
+      await WalletController.withdraw(
+        mockReq as Request,
+        mockRes as Response,
+        mockNext
+      );
+
+      expect(vi.mocked(WalletService.withdraw).mock.calls[0]![4]).toBe("ussd");
+      const body = vi.mocked(mockRes.json as any).mock.calls[0]![0];
+      expect(body.data.fee.transaction_id).toBeNull();
+    });
+
     it("should return 403 when withdrawing from another user's wallet", async () => {
       mockReq.params = { userId: "user-456" };
-      mockReq.body = { amount: 200 };
+      mockReq.body = { amount: "200" };
       mockReq.user = { id: "user-123" };
 
       await WalletController.withdraw(
@@ -215,7 +401,7 @@ describe("WalletController", () => {
 
     it("should handle insufficient balance errors", async () => {
       mockReq.params = { userId: "user-123" };
-      mockReq.body = { amount: 10000 };
+      mockReq.body = { amount: "10000" };
 
       const error = new Error("Insufficient balance");
       vi.mocked(WalletService.withdraw).mockRejectedValue(error);
@@ -235,7 +421,7 @@ describe("WalletController", () => {
       mockReq.body = {
         fromUserId: "user-123",
         toUserId: "user-456",
-        amount: 300,
+        amount: "300",
       };
 
       const mockResult = {
@@ -275,6 +461,8 @@ describe("WalletController", () => {
             balance_after: "1300.0000",
           },
         ],
+        fee: flatFee("300", "5"),
+        feeTransaction: { id: "txn-fee" },
       };
 
       vi.mocked(WalletService.transfer).mockResolvedValue(mockResult as any);
@@ -285,7 +473,14 @@ describe("WalletController", () => {
         mockNext
       );
 
-      expect(WalletService.transfer).toHaveBeenCalledWith("user-123", "user-456", 300, undefined);
+      expect(WalletService.transfer).toHaveBeenCalledWith(
+        "user-123",
+        "user-456",
+        "300",
+        undefined,
+        { currency: undefined, fromWalletId: undefined, toWalletId: undefined },
+        undefined
+      );
       expect(mockRes.status).toHaveBeenCalledWith(200);
       expect(mockRes.json).toHaveBeenCalledWith({
         success: true,
@@ -311,6 +506,7 @@ describe("WalletController", () => {
               balance_after: expect.any(String),
             }),
           ]),
+          fee: flatFeeResponse("5.000000", "305.000000", "txn-fee"),
         },
       });
     });
@@ -319,7 +515,7 @@ describe("WalletController", () => {
       mockReq.body = {
         fromUserId: "user-456",
         toUserId: "user-789",
-        amount: 300,
+        amount: "300",
       };
       mockReq.user = { id: "user-123" };
 
@@ -341,7 +537,7 @@ describe("WalletController", () => {
       mockReq.body = {
         fromUserId: "user-123",
         toUserId: "user-123",
-        amount: 300,
+        amount: "300",
       };
 
       const error = new Error("Cannot transfer to yourself");
@@ -355,14 +551,125 @@ describe("WalletController", () => {
 
       expect(mockNext).toHaveBeenCalledWith(error);
     });
+
+    it("should resolve a recipient email, phone or handle to their user ID", async () => {
+      mockReq.body = {
+        fromUserId: "user-123",
+        recipient: "@janedoe",
+        amount: "300",
+      };
+      vi.mocked(UserService.resolveRecipient).mockResolvedValue({ user: recipientUser, type: "handle" });
+      vi.mocked(WalletService.transfer).mockResolvedValue({
+        reference: "TRANSFER-user-123-1234567890-def",
+        transfer: { id: "transfer-123" },
+        fromWallet: { currency: "NGN" },
+        toWallet: {},
+        transactions: [],
+        fee: flatFee("300", "5"),
+        feeTransaction: null,
+      } as any);
+
+      await WalletController.transfer(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(UserService.resolveRecipient).toHaveBeenCalledWith("@janedoe");
+      expect(WalletService.transfer).toHaveBeenCalledWith(
+        "user-123",
+        "user-456",
+        "300",
+        undefined,
+        { currency: undefined, fromWalletId: undefined, toWalletId: undefined },
+        undefined
+      );
+      expect(mockRes.status).toHaveBeenCalledWith(200);
+    });
+
+    it("should return 400 when the recipient identifier is the sender's own", async () => {
+      mockReq.body = {
+        fromUserId: "user-123",
+        recipient: "me@example.com",
+        amount: "300",
+      };
+      vi.mocked(UserService.resolveRecipient).mockResolvedValue({
+        user: { ...recipientUser, id: "user-123" },
+        type: "email",
+      });
+
+      await WalletController.transfer(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockRes.status).toHaveBeenCalledWith(400);
+      expect(WalletService.transfer).not.toHaveBeenCalled();
+    });
+
+    it("should pass an unknown or blocked recipient to next", async () => {
+      mockReq.body = {
+        fromUserId: "user-123",
+        recipient: "+2348000000000",
+        amount: "300",
+      };
+      const error = new AppError(422, "Recipient cannot receive transfers");
+      vi.mocked(UserService.resolveRecipient).mockRejectedValue(error);
+
+      await WalletController.transfer(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith(error);
+      expect(WalletService.transfer).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("lookupRecipient", () => {
+    it("should return the masked name, handle and identifier type", async () => {
+      mockReq.query = { identifier: "jane@example.com" };
+      vi.mocked(UserService.resolveRecipient).mockResolvedValue({ user: recipientUser, type: "email" });
+
+      await WalletController.lookupRecipient(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(UserService.resolveRecipient).toHaveBeenCalledWith("jane@example.com");
+      expect(mockRes.status).toHaveBeenCalledWith(200);
+      expect(mockRes.json).toHaveBeenCalledWith({
+        success: true,
+        data: {
+          recipient: {
+            name: "J*** D**",
+            handle: "@janedoe",
+            identifier_type: "email",
+          },
+        },
+      });
+    });
+
+    it("should return 400 when looking up yourself", async () => {
+      mockReq.query = { identifier: "@me" };
+      vi.mocked(UserService.resolveRecipient).mockResolvedValue({
+        user: { ...recipientUser, id: "user-123" },
+        type: "handle",
+      });
+
+      await WalletController.lookupRecipient(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockRes.status).toHaveBeenCalledWith(400);
+    });
+
+    it("should pass a missing recipient to next", async () => {
+      mockReq.query = { identifier: "@nobody" };
+      const error = new AppError(404, "No user found with handle @nobody");
+      vi.mocked(UserService.resolveRecipient).mockRejectedValue(error);
+
+      await WalletController.lookupRecipient(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith(error);
+    });
   });
 
   describe("getBalance", () => {
-    it("should return wallet balance", async () => {
+    it("should return ledger, available and savings pot balances", async () => {
       mockReq.params = { userId: "user-123" };
 
       const mockResult = {
         balance: "1234.56",
+        available: "1034.560000",
+        held: "200.000000",
+        pots: "5000.000000",
+        total: "6234.560000",
         currency: "NGN",
         wallet: {
           id: "wallet-123",
@@ -386,14 +693,51 @@ describe("WalletController", () => {
         success: true,
         data: {
           balance: mockResult.balance,
+          available_balance: mockResult.available,
+          held_balance: mockResult.held,
+          pots_balance: mockResult.pots,
+          total_balance: mockResult.total,
           currency: mockResult.currency,
           wallet_id: mockResult.wallet.id,
         },
       });
     });
 
+    it("should read the wallet selected by the query", async () => {
+      mockReq.params = { userId: "user-123" };
+      mockReq.query = { currency: "USD" };
+      vi.mocked(WalletService.getBalance).mockResolvedValue({
+        balance: "25.000000",
+        available: "25.000000",
+        held: "0.000000",
+        currency: "USD",
+        wallet: { id: "wallet-usd" },
+      } as any);
+
+      await WalletController.getBalance(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(WalletService.getBalance).toHaveBeenCalledWith("user-123", {
+        walletId: undefined,
+        currency: "USD",
+      });
+    });
+
+    it("should return 403 when viewing another user's balance", async () => {
+      mockReq.params = { userId: "user-456" };
+      mockReq.query = {};
+
+      await WalletController.getBalance(
+        mockReq as Request,
+        mockRes as Response,
+        mockNext
+      );
+
+      expect(mockRes.status).toHaveBeenCalledWith(403);
+      expect(WalletService.getBalance).not.toHaveBeenCalled();
+    });
+
     it("should handle wallet not found", async () => {
-      mockReq.params = { userId: "non-existent" };
+      mockReq.params = { userId: "user-123" };
 
       const error = new Error("Wallet not found");
       vi.mocked(WalletService.getBalance).mockRejectedValue(error);
@@ -407,5 +751,102 @@ describe("WalletController", () => {
       expect(mockNext).toHaveBeenCalledWith(error);
     });
   });
-});
 
+  describe("getTransactions", () => {
+    it("should return a page of transactions with pagination info", async () => {
+      mockReq.params = { userId: "user-123" };
+      mockReq.query = {};
+
+      const createdAt = new Date();
+      vi.mocked(WalletService.getTransactionHistory).mockResolvedValue({
+        transactions: [
+          {
+            id: "txn-1",
+            wallet_id: "wallet-123",
+            type: "credit",
+            amount_decimal: "500.000000",
+            balance_after: "500.000000",
+            reference: "FUND-user-123-1",
+            metadata: null,
+            created_at: createdAt,
+          },
+        ],
+        nextCursor: "cursor-abc",
+      });
+
+      await WalletController.getTransactions(
+        mockReq as Request,
+        mockRes as Response,
+        mockNext
+      );
+
+      expect(mockRes.status).toHaveBeenCalledWith(200);
+      expect(mockRes.json).toHaveBeenCalledWith({
+        success: true,
+        data: {
+          transactions: [
+            {
+              id: "txn-1",
+              type: "credit",
+              amount: "500.000000",
+              balance_after: "500.000000",
+              reference: "FUND-user-123-1",
+              metadata: null,
+              created_at: createdAt,
+            },
+          ],
+          pagination: { next_cursor: "cursor-abc", has_more: true },
+        },
+      });
+    });
+
+    it("should convert query filters before calling the service", async () => {
+      mockReq.params = { userId: "user-123" };
+      mockReq.query = {
+        limit: "10",
+        type: "credit,transfer-in",
+        from: "2024-01-01T00:00:00.000Z",
+        to: "2024-02-01T00:00:00.000Z",
+        minAmount: "100",
+        maxAmount: "500.50",
+        reference: "FUND-",
+      };
+
+      vi.mocked(WalletService.getTransactionHistory).mockResolvedValue({
+        transactions: [],
+        nextCursor: null,
+      });
+
+      await WalletController.getTransactions(
+        mockReq as Request,
+        mockRes as Response,
+        mockNext
+      );
+
+      expect(WalletService.getTransactionHistory).toHaveBeenCalledWith("user-123", {
+        limit: 10,
+        cursor: undefined,
+        types: ["credit", "transfer-in"],
+        from: new Date("2024-01-01T00:00:00.000Z"),
+        to: new Date("2024-02-01T00:00:00.000Z"),
+        minAmount: "100",
+        maxAmount: "500.50",
+        referencePrefix: "FUND-",
+      }, { walletId: undefined, currency: undefined });
+    });
+
+    it("should return 403 when viewing another user's history", async () => {
+      mockReq.params = { userId: "user-456" };
+      mockReq.query = {};
+
+      await WalletController.getTransactions(
+        mockReq as Request,
+        mockRes as Response,
+        mockNext
+      );
+
+      expect(mockRes.status).toHaveBeenCalledWith(403);
+      expect(WalletService.getTransactionHistory).not.toHaveBeenCalled();
+    });
+  });
+});
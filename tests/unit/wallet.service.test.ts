@@ -7,7 +7,13 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { WalletService } from "../../src/services/wallet.service";
 import { knex, withTransaction } from "../../src/db";
-import { AppError } from "../../src/middlewares/error";
+import { AppError, LimitExceededError } from "../../src/middlewares/error";
+import { LedgerService } from "../../src/services/ledger.service";
+import { FeeService, FeeBreakdown } from "../../src/services/fee.service";
+import { LimitService } from "../../src/services/limit.service";
+import { UserService } from "../../src/services/user.service";
+import { Money } from "../../src/utils/money";
+import { config } from "../../src/config/env";
 
 // Create hoisted mocks to avoid vi.mock hoist issues
 const { mockTrx, mockKnex } = vi.hoisted(() => {
@@ -17,6 +23,7 @@ const { mockTrx, mockKnex } = vi.hoisted(() => {
     first: vi.fn(),
     forUpdate: vi.fn().mockReturnThis(),
     whereIn: vi.fn().mockReturnThis(),
+    select: vi.fn().mockReturnThis(),
     orderBy: vi.fn().mockReturnThis(),
     update: vi.fn().mockResolvedValue(1),
     commit: vi.fn(),
@@ -36,9 +43,73 @@ vi.mock("../../src/db", () => ({
   withTransaction: vi.fn((callback) => callback(mockKnex)),
 }));
 
+vi.mock("../../src/services/ledger.service", () => ({
+  LedgerService: {
+    postJournal: vi.fn().mockResolvedValue("journal-123"),
+    assertWalletBalance: vi.fn().mockResolvedValue(undefined),
+  },
+}));
+
+vi.mock("../../src/services/fee.service", async (importOriginal) => {
+  const { FeeService: actual } = await importOriginal<typeof import("../../src/services/fee.service")>();
+  return {
+    FeeService: {
+      quote: vi.fn(),
+      collect: vi.fn(),
+      lockWithRevenueWallet: actual.lockWithRevenueWallet,
+    },
+  };
+});
+
+vi.mock("../../src/services/limit.service", () => ({
+  LimitService: {
+    assertCanSend: vi.fn(),
+    assertCanReceive: vi.fn(),
+  },
+}));
+
+vi.mock("../../src/services/user.service", () => ({
+  UserService: {
+    assertCanReceive: vi.fn(),
+  },
+}));
+
+/**
+ * Limit breach raised by a mocked LimitService check
+ */
+const breachOf = (limit: "daily" | "max_balance") =>
+  new LimitExceededError(limit === "daily" ? 403 : 422, `${limit} limit exceeded`, {
+    limit,
+    tier: "tier_1",
+    currency: "NGN",
+    max: "500.000000",
+    requested: "300.000000",
+  });
+
+/**
+ * Fee breakdown charging `fee` on top of `amount`
+ */
+const feeOf = (amount: Money, fee: string): FeeBreakdown => {
+  const feeMoney = fee === "0" ? Money.zero(amount.currency) : Money.parse(fee, amount.currency);
+  return {
+    operation: "withdraw",
+    channel: "api",
+    tier: "tier_1",
+    rule: null,
+    amount,
+    flat: feeMoney,
+    percentage: Money.zero(amount.currency),
+    band: null,
+    adjustment: null,
+    fee: feeMoney,
+    total: amount.add(feeMoney),
+  };
+};
+
 describe("WalletService", () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    vi.mocked(FeeService.quote).mockImplementation(async (_db, _context, amount) => feeOf(amount, "0"));
   });
 
   // helper to simulate knex's thenable builder after .first() while keeping forUpdate available
@@ -52,6 +123,7 @@ describe("WalletService", () => {
       id: "wallet-123",
       user_id: "user-123",
       balance_decimal: "100.0000",
+      held_decimal: "0.000000",
       currency: "NGN",
       created_at: new Date(),
       updated_at: new Date(),
@@ -66,22 +138,42 @@ describe("WalletService", () => {
         amount_decimal: "500.0000",
       });
 
-      const result = await WalletService.fund("user-123", 500, { source: "test" });
+      const result = await WalletService.fund("user-123", "500", { source: "test" });
 
       expect(result.wallet.balance_decimal).toBe("600.0000");
       expect(result.transaction.reference).toContain("FUND-user-123");
       expect(mockTrx.insert).toHaveBeenCalled();
     });
 
+    it("should check the new balance against the tier's maximum balance", async () => {
+      mockTrx.first.mockReturnValueOnce(thenable(mockWallet));
+      vi.mocked(LimitService.assertCanReceive).mockRejectedValueOnce(breachOf("max_balance"));
+
+      const error = await WalletService.fund("user-123", "500").catch((e) => e);
+
+      expect(error).toBeInstanceOf(LimitExceededError);
+      expect(error.statusCode).toBe(422);
+      const [, wallet, amount, newBalance, recipient] = vi.mocked(LimitService.assertCanReceive).mock.calls[0]!;
+      expect(wallet.id).toBe("wallet-123");
+      expect(amount.toStorageString()).toBe("500.000000");
+      expect(newBalance.toStorageString()).toBe("600.000000");
+      expect(recipient).toBeUndefined();
+      expect(mockTrx.insert).not.toHaveBeenCalled();
+    });
+
     it("should reject negative amounts", async () => {
+      mockTrx.first.mockReturnValueOnce(thenable(mockWallet));
+
       await expect(
-        WalletService.fund("user-123", -100)
+        WalletService.fund("user-123", "-100")
       ).rejects.toThrow("Amount must be positive");
     });
 
     it("should reject zero amounts", async () => {
+      mockTrx.first.mockReturnValueOnce(thenable(mockWallet));
+
       await expect(
-        WalletService.fund("user-123", 0)
+        WalletService.fund("user-123", "0")
       ).rejects.toThrow("Amount must be positive");
     });
 
@@ -89,10 +181,56 @@ describe("WalletService", () => {
       mockTrx.first.mockReturnValueOnce(thenable(null));
 
       await expect(
-        WalletService.fund("non-existent-user", 100)
+        WalletService.fund("non-existent-user", "100")
       ).rejects.toThrow("Wallet not found");
     });
 
+    it("should reject funding a frozen or closed wallet", async () => {
+      for (const status of ["frozen", "closed"]) {
+        mockTrx.first.mockReturnValueOnce(thenable({ ...mockWallet, status }));
+
+        await expect(WalletService.fund("user-123", "100")).rejects.toMatchObject({
+          statusCode: 403,
+          message: expect.stringContaining("credits are not allowed"),
+        });
+      }
+      expect(mockTrx.insert).not.toHaveBeenCalled();
+    });
+
+    it("should fund a post-no-debit wallet", async () => {
+      mockTrx.first.mockReturnValueOnce(thenable({ ...mockWallet, status: "post_no_debit" }));
+      mockTrx.first.mockResolvedValueOnce({ balance_decimal: "200.0000", status: "post_no_debit" });
+      mockTrx.first.mockResolvedValueOnce({ id: "txn-123", amount_decimal: "100.0000" });
+
+      const result = await WalletService.fund("user-123", "100");
+
+      expect(result.wallet.balance_decimal).toBe("200.0000");
+    });
+
+    it("should reject amounts with more decimal places than the currency allows", async () => {
+      mockTrx.first.mockReturnValueOnce(thenable(mockWallet));
+
+      await expect(
+        WalletService.fund("user-123", "10.005")
+      ).rejects.toThrow("Amount cannot have more than 2 decimal places for NGN");
+    });
+
+    it("should add to large balances exactly", async () => {
+      const largeWallet = { ...mockWallet, balance_decimal: "90071992547409.930000" };
+      mockTrx.first.mockReturnValueOnce(thenable(largeWallet));
+      mockTrx.first.mockResolvedValueOnce({ balance_decimal: "90071992547410.000000" });
+      mockTrx.first.mockResolvedValueOnce({ id: "txn-123" });
+
+      await WalletService.fund("user-123", "0.07");
+
+      expect(mockTrx.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          amount_decimal: "0.070000",
+          balance_after: "90071992547410.000000",
+        })
+      );
+    });
+
     it("should create transaction record with correct data", async () => {
       mockTrx.first.mockReturnValueOnce(thenable(mockWallet));
       mockTrx.first.mockResolvedValueOnce({ balance_decimal: "600.0000" });
@@ -107,12 +245,40 @@ describe("WalletService", () => {
         metadata: { source: "test" },
       });
 
-      const result = await WalletService.fund("user-123", 500, { source: "test" });
+      const result = await WalletService.fund("user-123", "500", { source: "test" });
 
       expect(result.transaction.type).toBe("credit");
       expect(parseFloat(result.transaction.amount_decimal)).toBe(500);
     });
 
+    it("should post a balanced funding journal and check the wallet against it", async () => {
+      mockTrx.first.mockReturnValueOnce(thenable(mockWallet));
+      mockTrx.first.mockResolvedValueOnce({ balance_decimal: "600.000000" });
+      mockTrx.first.mockResolvedValueOnce({ id: "txn-123" });
+
+      const result = await WalletService.fund("user-123", "500");
+
+      const journal = vi.mocked(LedgerService.postJournal).mock.calls[0]![1];
+      expect(journal.reference).toBe(result.reference);
+      expect(journal.legs.map((leg) => [leg.account, leg.direction, leg.amount.toStorageString()])).toEqual([
+        [{ system: "FUNDING_CLEARING", currency: "NGN" }, "debit", "500.000000"],
+        [{ walletId: "wallet-123", currency: "NGN" }, "credit", "500.000000"],
+      ]);
+      expect(
+        vi.mocked(LedgerService.assertWalletBalance).mock.calls[0]![2].toStorageString()
+      ).toBe("600.000000");
+    });
+
+    it("should fail the funding if the ledger disagrees with the wallet", async () => {
+      mockTrx.first.mockReturnValueOnce(thenable(mockWallet));
+      vi.mocked(LedgerService.assertWalletBalance).mockRejectedValueOnce(
+        new Error("Ledger mismatch for wallet wallet-123")
+      );
+
+      await expect(WalletService.fund("user-123", "500")).rejects.toThrow("Ledger mismatch");
+      expect(mockTrx.update).not.toHaveBeenCalled();
+    });
+
     it("should handle decimal amounts correctly", async () => {
       mockTrx.first.mockReturnValueOnce(thenable(mockWallet));
       mockTrx.first.mockResolvedValueOnce({ balance_decimal: "250.5000" });
@@ -122,7 +288,7 @@ describe("WalletService", () => {
         reference: "FUND-user-123-1234567890-abc",
       });
 
-      const result = await WalletService.fund("user-123", 150.50);
+      const result = await WalletService.fund("user-123", "150.50");
 
       expect(result.transaction.amount_decimal).toBe("150.5000");
     });
@@ -133,6 +299,7 @@ describe("WalletService", () => {
       id: "wallet-123",
       user_id: "user-123",
       balance_decimal: "500.0000",
+      held_decimal: "0.000000",
       currency: "NGN",
     };
 
@@ -145,7 +312,7 @@ describe("WalletService", () => {
         amount_decimal: "200.0000",
       });
 
-      const result = await WalletService.withdraw("user-123", 200);
+      const result = await WalletService.withdraw("user-123", "200");
 
       expect(result.wallet.balance_decimal).toBe("300.0000");
       expect(result.transaction.reference).toContain("WITHDRAW-user-123");
@@ -155,30 +322,58 @@ describe("WalletService", () => {
       mockTrx.first.mockReturnValueOnce(thenable(mockWallet));
 
       await expect(
-        WalletService.withdraw("user-123", 1000)
+        WalletService.withdraw("user-123", "1000")
       ).rejects.toThrow("Insufficient funds");
     });
 
     it("should reject negative amounts", async () => {
+      mockTrx.first.mockReturnValueOnce(thenable(mockWallet));
+
       await expect(
-        WalletService.withdraw("user-123", -100)
+        WalletService.withdraw("user-123", "-100")
       ).rejects.toThrow("Amount must be positive");
     });
 
     it("should reject zero amounts", async () => {
+      mockTrx.first.mockReturnValueOnce(thenable(mockWallet));
+
       await expect(
-        WalletService.withdraw("user-123", 0)
+        WalletService.withdraw("user-123", "0")
       ).rejects.toThrow("Amount must be positive");
     });
 
+    it("should reject withdrawal of held funds", async () => {
+      mockTrx.first.mockReturnValueOnce(thenable({ ...mockWallet, held_decimal: "400.000000" }));
+
+      await expect(
+        WalletService.withdraw("user-123", "200")
+      ).rejects.toThrow("Insufficient funds. Available: 100.000000, Required: 200.000000");
+    });
+
     it("should handle wallet not found", async () => {
       mockTrx.first.mockReturnValueOnce(thenable(null));
 
       await expect(
-        WalletService.withdraw("non-existent-user", 100)
+        WalletService.withdraw("non-existent-user", "100")
       ).rejects.toThrow("Wallet not found");
     });
 
+    it("should reject withdrawals from frozen, post-no-debit and closed wallets", async () => {
+      for (const [status, label] of [
+        ["frozen", "frozen"],
+        ["post_no_debit", "post-no-debit"],
+        ["closed", "closed"],
+      ]) {
+        mockTrx.first.mockReturnValueOnce(thenable({ ...mockWallet, status }));
+
+        await expect(WalletService.withdraw("user-123", "100")).rejects.toMatchObject({
+          statusCode: 403,
+          message: `Wallet wallet-123 is ${label}; debits are not allowed`,
+        });
+      }
+      expect(mockTrx.update).not.toHaveBeenCalled();
+    });
+
     it("should allow withdrawal up to exact balance", async () => {
       const walletWith100 = { ...mockWallet, balance_decimal: "100.0000" };
       mockTrx.first.mockReturnValueOnce(thenable(walletWith100 as any));
@@ -189,10 +384,100 @@ describe("WalletService", () => {
         amount_decimal: "100.0000",
       });
 
-      const result = await WalletService.withdraw("user-123", 100);
+      const result = await WalletService.withdraw("user-123", "100");
 
       expect(result.wallet.balance_decimal).toBe("0.0000");
     });
+
+    it("should post a balanced payout journal", async () => {
+      mockTrx.first.mockReturnValueOnce(thenable(mockWallet));
+      mockTrx.first.mockResolvedValueOnce({ balance_decimal: "300.000000" });
+      mockTrx.first.mockResolvedValueOnce({ id: "txn-123" });
+
+      await WalletService.withdraw("user-123", "200");
+
+      const journal = vi.mocked(LedgerService.postJournal).mock.calls[0]![1];
+      expect(journal.legs.map((leg) => [leg.account, leg.direction])).toEqual([
+        [{ walletId: "wallet-123", currency: "NGN" }, "debit"],
+        [{ system: "PAYOUT_CLEARING", currency: "NGN" }, "credit"],
+      ]);
+      expect(FeeService.collect).not.toHaveBeenCalled();
+    });
+
+    it("should debit the fee on top of the amount and collect it", async () => {
+      vi.mocked(FeeService.quote).mockImplementationOnce(async (_db, _context, amount) => feeOf(amount, "25"));
+      vi.mocked(FeeService.collect).mockResolvedValueOnce({ id: "fee-txn" } as any);
+      mockTrx.first.mockReturnValueOnce(thenable(mockWallet));
+      mockTrx.first.mockResolvedValueOnce({ balance_decimal: "275.000000" });
+      mockTrx.first.mockResolvedValueOnce({ id: "txn-123" });
+
+      const result = await WalletService.withdraw("user-123", "200", undefined, {}, "ussd");
+
+      expect(FeeService.quote).toHaveBeenCalledWith(
+        mockKnex,
+        { operation: "withdraw", userId: "user-123", currency: "NGN", channel: "ussd" },
+        expect.any(Money)
+      );
+      expect(mockTrx.insert).toHaveBeenCalledWith(
+        expect.objectContaining({ type: "debit", amount_decimal: "200.000000", balance_after: "300.000000" })
+      );
+      const [, payer, , breakdown, balanceAfter, reference] = vi.mocked(FeeService.collect).mock.calls[0]!;
+      expect(payer.id).toBe("wallet-123");
+      expect(breakdown.fee.toStorageString()).toBe("25.000000");
+      expect(balanceAfter.toStorageString()).toBe("275.000000");
+      expect(reference).toBe(result.reference);
+      expect(mockTrx.update).toHaveBeenCalledWith(
+        expect.objectContaining({ balance_decimal: "275.000000" })
+      );
+      expect(result.feeTransaction).toEqual({ id: "fee-txn" });
+    });
+
+    it("should stop a withdrawal that breaches a tier limit", async () => {
+      mockTrx.first.mockReturnValueOnce(thenable(mockWallet));
+      vi.mocked(LimitService.assertCanSend).mockRejectedValueOnce(breachOf("daily"));
+
+      const error = await WalletService.withdraw("user-123", "300").catch((e) => e);
+
+      expect(error).toBeInstanceOf(LimitExceededError);
+      expect(error.breach.limit).toBe("daily");
+      const [, wallet, amount] = vi.mocked(LimitService.assertCanSend).mock.calls[0]!;
+      expect(wallet.id).toBe("wallet-123");
+      expect(amount.toStorageString()).toBe("300.000000");
+      expect(FeeService.quote).not.toHaveBeenCalled();
+      expect(mockTrx.insert).not.toHaveBeenCalled();
+    });
+
+    it("should lock the fee revenue wallet in user_id order and collect into it", async () => {
+      config.fees.revenueUserId = "user-000-revenue";
+      const revenueWallet = { ...mockWallet, id: "wallet-revenue", user_id: "user-000-revenue" };
+      vi.mocked(FeeService.quote).mockImplementationOnce(async (_db, _context, amount) => feeOf(amount, "25"));
+      mockTrx.first.mockReturnValueOnce(thenable(revenueWallet));
+      mockTrx.first.mockReturnValueOnce(thenable(mockWallet));
+      mockTrx.first.mockResolvedValueOnce({ balance_decimal: "275.000000" });
+      mockTrx.first.mockResolvedValueOnce({ id: "txn-123" });
+
+      try {
+        await WalletService.withdraw("user-123", "200");
+      } finally {
+        config.fees.revenueUserId = undefined;
+      }
+
+      const locks = vi.mocked(mockTrx.where).mock.calls.filter((call: any[]) => call[0]?.user_id);
+      expect(locks.map((call: any[]) => call[0].user_id)).toEqual(["user-000-revenue", "user-123"]);
+      const [, payer, revenue] = vi.mocked(FeeService.collect).mock.calls[0]!;
+      expect(payer.id).toBe("wallet-123");
+      expect(revenue).toEqual(revenueWallet);
+    });
+
+    it("should require the amount plus fee to be available", async () => {
+      vi.mocked(FeeService.quote).mockImplementationOnce(async (_db, _context, amount) => feeOf(amount, "25"));
+      mockTrx.first.mockReturnValueOnce(thenable(mockWallet));
+
+      await expect(
+        WalletService.withdraw("user-123", "490")
+      ).rejects.toThrow("Insufficient funds. Available: 500.000000, Required: 515.000000");
+      expect(mockTrx.insert).not.toHaveBeenCalled();
+    });
   });
 
   describe("transfer", () => {
@@ -200,6 +485,7 @@ describe("WalletService", () => {
       id: "wallet-sender",
       user_id: "user-sender",
       balance_decimal: "1000.0000",
+      held_decimal: "0.000000",
       currency: "NGN",
     };
 
@@ -207,6 +493,7 @@ describe("WalletService", () => {
       id: "wallet-recipient",
       user_id: "user-recipient",
       balance_decimal: "500.0000",
+      held_decimal: "0.000000",
       currency: "NGN",
     };
 
@@ -219,7 +506,7 @@ describe("WalletService", () => {
         .mockResolvedValueOnce({ balance_decimal: "700.0000" }) // from wallet after
         .mockResolvedValueOnce({ balance_decimal: "800.0000" }); // to wallet after
 
-      const result = await WalletService.transfer("user-sender", "user-recipient", 300);
+      const result = await WalletService.transfer("user-sender", "user-recipient", "300");
 
       expect(result.fromWallet.balance_decimal).toBe("700.0000");
       expect(result.toWallet.balance_decimal).toBe("800.0000");
@@ -234,7 +521,7 @@ describe("WalletService", () => {
         .mockResolvedValueOnce({ balance_decimal: "700.0000" })
         .mockResolvedValueOnce({ balance_decimal: "800.0000" });
 
-      await WalletService.transfer("user-sender", "user-recipient", 300);
+      await WalletService.transfer("user-sender", "user-recipient", "300");
 
       // Check that insert was called 3 times: 1 transfer + 2 transactions
       expect(mockTrx.insert).toHaveBeenCalledTimes(3);
@@ -246,9 +533,113 @@ describe("WalletService", () => {
       expect(txnCalls.length).toBe(2);
     });
 
+    it("should post a wallet-to-wallet journal and check both wallets", async () => {
+      mockTrx.first
+        .mockReturnValueOnce(thenable(mockRecipientWallet as any))
+        .mockReturnValueOnce(thenable(mockSenderWallet as any))
+        .mockResolvedValueOnce({ id: "transfer-1", status: "completed" });
+
+      const result = await WalletService.transfer("user-sender", "user-recipient", "300");
+
+      const journal = vi.mocked(LedgerService.postJournal).mock.calls[0]![1];
+      expect(journal.reference).toBe(result.reference);
+      expect(journal.legs.map((leg) => [leg.account, leg.direction])).toEqual([
+        [{ walletId: "wallet-sender", currency: "NGN" }, "debit"],
+        [{ walletId: "wallet-recipient", currency: "NGN" }, "credit"],
+      ]);
+
+      const checked = vi
+        .mocked(LedgerService.assertWalletBalance)
+        .mock.calls.map((call) => [call[1], call[2].toStorageString()]);
+      expect(checked).toEqual([
+        ["wallet-sender", "700.000000"],
+        ["wallet-recipient", "800.000000"],
+      ]);
+    });
+
+    it("should check the sender's limits and the recipient's maximum balance", async () => {
+      mockTrx.first
+        .mockReturnValueOnce(thenable(mockRecipientWallet as any))
+        .mockReturnValueOnce(thenable(mockSenderWallet as any));
+      vi.mocked(LimitService.assertCanReceive).mockRejectedValueOnce(breachOf("max_balance"));
+
+      const error = await WalletService.transfer("user-sender", "user-recipient", "300").catch((e) => e);
+
+      expect(error).toBeInstanceOf(LimitExceededError);
+      expect(vi.mocked(LimitService.assertCanSend).mock.calls[0]![1].id).toBe("wallet-sender");
+      const [, wallet, amount, newBalance, recipient] = vi.mocked(LimitService.assertCanReceive).mock.calls[0]!;
+      expect(wallet.id).toBe("wallet-recipient");
+      expect(amount.toStorageString()).toBe("300.000000");
+      expect(newBalance.toStorageString()).toBe("800.000000");
+      expect(recipient).toBe(true);
+      expect(mockTrx.insert).not.toHaveBeenCalled();
+    });
+
+    it("should charge the fee to the sender and credit the recipient the full amount", async () => {
+      vi.mocked(FeeService.quote).mockImplementationOnce(async (_db, _context, amount) => feeOf(amount, "10"));
+      mockTrx.first
+        .mockReturnValueOnce(thenable(mockRecipientWallet as any))
+        .mockReturnValueOnce(thenable(mockSenderWallet as any))
+        .mockResolvedValueOnce({ id: "transfer-1", status: "completed" });
+
+      await WalletService.transfer("user-sender", "user-recipient", "300", { note: "rent" });
+
+      expect(vi.mocked(FeeService.quote).mock.calls[0]![1]).toEqual({
+        operation: "transfer",
+        userId: "user-sender",
+        currency: "NGN",
+        channel: undefined,
+        counterpartyId: "user-recipient",
+      });
+      expect(mockTrx.insert).toHaveBeenCalledWith(
+        expect.objectContaining({ type: "transfer-out", balance_after: "700.000000" })
+      );
+      expect(mockTrx.insert).toHaveBeenCalledWith(
+        expect.objectContaining({ type: "transfer-in", amount_decimal: "300.000000", balance_after: "800.000000" })
+      );
+      const [, payer, , , balanceAfter, , metadata] = vi.mocked(FeeService.collect).mock.calls[0]!;
+      expect(payer.id).toBe("wallet-sender");
+      expect(balanceAfter.toStorageString()).toBe("690.000000");
+      expect(metadata).toEqual({ note: "rent", transfer_id: "test-id-123" });
+
+      const checked = vi
+        .mocked(LedgerService.assertWalletBalance)
+        .mock.calls.map((call) => [call[1], call[2].toStorageString()]);
+      expect(checked).toEqual([
+        ["wallet-sender", "690.000000"],
+        ["wallet-recipient", "800.000000"],
+      ]);
+    });
+
+    it("should lock each wallet once when the revenue user is the recipient", async () => {
+      config.fees.revenueUserId = "user-recipient";
+      mockTrx.first
+        .mockReturnValueOnce(thenable(mockRecipientWallet as any))
+        .mockReturnValueOnce(thenable(mockSenderWallet as any))
+        .mockResolvedValueOnce({ id: "transfer-1", status: "completed" });
+
+      try {
+        await WalletService.transfer("user-sender", "user-recipient", "300");
+      } finally {
+        config.fees.revenueUserId = undefined;
+      }
+
+      const locks = vi.mocked(mockTrx.where).mock.calls.filter((call: any[]) => call[0]?.user_id);
+      expect(locks.map((call: any[]) => call[0].user_id)).toEqual(["user-recipient", "user-sender"]);
+      expect(vi.mocked(FeeService.quote).mock.calls[0]![1].counterpartyId).toBe("user-recipient");
+      expect(FeeService.collect).not.toHaveBeenCalled();
+      const checked = vi
+        .mocked(LedgerService.assertWalletBalance)
+        .mock.calls.map((call) => [call[1], call[2].toStorageString()]);
+      expect(checked).toEqual([
+        ["wallet-sender", "700.000000"],
+        ["wallet-recipient", "800.000000"],
+      ]);
+    });
+
     it("should reject transfer to self", async () => {
       await expect(
-        WalletService.transfer("user-123", "user-123", 100)
+        WalletService.transfer("user-123", "user-123", "100")
       ).rejects.toThrow("Cannot transfer to yourself");
     });
 
@@ -258,17 +649,41 @@ describe("WalletService", () => {
         .mockReturnValueOnce(thenable(mockSenderWallet as any));
 
       await expect(
-        WalletService.transfer("user-sender", "user-recipient", 2000)
+        WalletService.transfer("user-sender", "user-recipient", "2000")
       ).rejects.toThrow("Insufficient funds");
     });
 
+    it("should reject a transfer that would spend held funds", async () => {
+      mockTrx.first
+        .mockReturnValueOnce(thenable(mockRecipientWallet as any))
+        .mockReturnValueOnce(thenable({ ...mockSenderWallet, held_decimal: "900.000000" } as any));
+
+      await expect(
+        WalletService.transfer("user-sender", "user-recipient", "300")
+      ).rejects.toThrow("Insufficient funds. Available: 100.000000");
+      expect(mockTrx.insert).not.toHaveBeenCalled();
+    });
+
+    it("should reject a blocked or blacklisted recipient before locking any wallet", async () => {
+      vi.mocked(UserService.assertCanReceive).mockRejectedValueOnce(
+        new AppError(422, "Recipient cannot receive transfers")
+      );
+
+      await expect(
+        WalletService.transfer("user-sender", "user-recipient", "100")
+      ).rejects.toThrow("Recipient cannot receive transfers");
+      expect(UserService.assertCanReceive).toHaveBeenCalledWith(expect.anything(), "user-recipient");
+      expect(mockTrx.forUpdate).not.toHaveBeenCalled();
+      expect(mockTrx.insert).not.toHaveBeenCalled();
+    });
+
     it("should reject if recipient wallet not found", async () => {
       mockTrx.first
         .mockReturnValueOnce(thenable(null as any)) // recipient missing
         .mockReturnValueOnce(thenable(mockSenderWallet as any));
 
       await expect(
-        WalletService.transfer("user-sender", "non-existent", 100)
+        WalletService.transfer("user-sender", "non-existent", "100")
       ).rejects.toThrow("Destination wallet not found");
     });
 
@@ -278,22 +693,71 @@ describe("WalletService", () => {
         .mockReturnValueOnce(thenable(mockRecipientWallet as any));
 
       await expect(
-        WalletService.transfer("non-existent", "user-recipient", 100)
+        WalletService.transfer("non-existent", "user-recipient", "100")
       ).rejects.toThrow("Source wallet not found");
     });
 
     it("should reject negative amounts", async () => {
+      mockTrx.first
+        .mockReturnValueOnce(thenable(mockRecipientWallet as any))
+        .mockReturnValueOnce(thenable(mockSenderWallet as any));
+
       await expect(
-        WalletService.transfer("user-sender", "user-recipient", -100)
+        WalletService.transfer("user-sender", "user-recipient", "-100")
       ).rejects.toThrow("Amount must be positive");
     });
 
     it("should reject zero amounts", async () => {
+      mockTrx.first
+        .mockReturnValueOnce(thenable(mockRecipientWallet as any))
+        .mockReturnValueOnce(thenable(mockSenderWallet as any));
+
       await expect(
-        WalletService.transfer("user-sender", "user-recipient", 0)
+        WalletService.transfer("user-sender", "user-recipient", "0")
       ).rejects.toThrow("Amount must be positive");
     });
 
+    it("should reject transfers between wallets in different currencies", async () => {
+      mockTrx.first
+        .mockResolvedValueOnce(mockSenderWallet) // source currency lookup
+        .mockReturnValueOnce(thenable({ ...mockRecipientWallet, currency: "USD" } as any))
+        .mockReturnValueOnce(thenable(mockSenderWallet as any));
+
+      const error = await WalletService.transfer("user-sender", "user-recipient", "100", undefined, {
+        fromWalletId: "wallet-sender",
+        toWalletId: "wallet-recipient",
+      }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.statusCode).toBe(422);
+      expect(error.message).toContain("convert the funds first");
+      expect(mockTrx.insert).not.toHaveBeenCalled();
+    });
+
+    it("should reject a transfer from a post-no-debit wallet", async () => {
+      mockTrx.first
+        .mockReturnValueOnce(thenable(mockRecipientWallet as any))
+        .mockReturnValueOnce(thenable({ ...mockSenderWallet, status: "post_no_debit" } as any));
+
+      await expect(
+        WalletService.transfer("user-sender", "user-recipient", "100")
+      ).rejects.toMatchObject({ statusCode: 403, message: expect.stringContaining("debits are not allowed") });
+      expect(mockTrx.insert).not.toHaveBeenCalled();
+    });
+
+    it("should reject a transfer to a frozen wallet without revealing its status", async () => {
+      mockTrx.first
+        .mockReturnValueOnce(thenable({ ...mockRecipientWallet, status: "frozen" } as any))
+        .mockReturnValueOnce(thenable(mockSenderWallet as any));
+
+      const error = await WalletService.transfer("user-sender", "user-recipient", "100").catch((e) => e);
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.statusCode).toBe(422);
+      expect(error.message).toBe("Recipient wallet cannot receive transfers");
+      expect(mockTrx.insert).not.toHaveBeenCalled();
+    });
+
     it("should be atomic - updates both wallets or neither", async () => {
       mockTrx.first
         .mockReturnValueOnce(thenable(mockRecipientWallet as any))
@@ -301,13 +765,149 @@ describe("WalletService", () => {
         .mockResolvedValueOnce({ balance_decimal: "700.0000" })
         .mockResolvedValueOnce({ balance_decimal: "800.0000" });
 
-      await WalletService.transfer("user-sender", "user-recipient", 300);
+      await WalletService.transfer("user-sender", "user-recipient", "300");
 
       // Both wallets should be updated
       expect(mockTrx.update).toHaveBeenCalledTimes(3);
     });
   });
 
+  describe("moveWithin", () => {
+    const escrowWallet = {
+      id: "wallet-escrow",
+      user_id: "user-escrow",
+      balance_decimal: "1000.000000",
+      held_decimal: "0.000000",
+      currency: "NGN",
+    };
+
+    const beneficiaryWallet = {
+      id: "wallet-beneficiary",
+      user_id: "user-beneficiary",
+      balance_decimal: "50.000000",
+      held_decimal: "0.000000",
+      currency: "NGN",
+    };
+
+    it("should move funds as a transfer without fees or limit checks", async () => {
+      mockTrx.first.mockResolvedValueOnce({ id: "test-id-123", status: "completed" });
+
+      const result = await WalletService.moveWithin(
+        mockKnex,
+        escrowWallet as any,
+        beneficiaryWallet as any,
+        Money.parse("300", "NGN"),
+        { escrow_id: "escrow-1" },
+        "ESCROW-escrow-1-RELEASE",
+        "Escrow escrow-1 released"
+      );
+
+      expect(result.reference).toBe("ESCROW-escrow-1-RELEASE");
+      expect(FeeService.quote).not.toHaveBeenCalled();
+      expect(LimitService.assertCanSend).not.toHaveBeenCalled();
+      expect(LimitService.assertCanReceive).not.toHaveBeenCalled();
+
+      const inserts = vi.mocked(mockTrx.insert as any).mock.calls.map((call: any[]) => call[0]);
+      expect(inserts[0]).toEqual(
+        expect.objectContaining({
+          from_wallet_id: "wallet-escrow",
+          to_wallet_id: "wallet-beneficiary",
+          amount_decimal: "300.000000",
+          reference: "ESCROW-escrow-1-RELEASE",
+        })
+      );
+      expect(inserts.slice(1).map((txn: any) => [txn.reference, txn.balance_after])).toEqual([
+        ["ESCROW-escrow-1-RELEASE-OUT", "700.000000"],
+        ["ESCROW-escrow-1-RELEASE-IN", "350.000000"],
+      ]);
+      expect(JSON.parse(inserts[1].metadata)).toEqual({ escrow_id: "escrow-1", transfer_id: "test-id-123" });
+      expect(vi.mocked(LedgerService.postJournal).mock.calls[0]![1].description).toBe(
+        "Escrow escrow-1 released"
+      );
+    });
+
+    it("should reject a move larger than the available balance", async () => {
+      await expect(
+        WalletService.moveWithin(
+          mockKnex,
+          { ...escrowWallet, held_decimal: "800.000000" } as any,
+          beneficiaryWallet as any,
+          Money.parse("300", "NGN"),
+          {},
+          "ESCROW-escrow-1-RELEASE",
+          "Escrow escrow-1 released"
+        )
+      ).rejects.toThrow("Insufficient funds");
+      expect(mockTrx.insert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("debitWithin", () => {
+    const borrowerWallet = {
+      id: "wallet-123",
+      user_id: "user-123",
+      balance_decimal: "1000.000000",
+      held_decimal: "100.000000",
+      currency: "NGN",
+      status: "active",
+    };
+
+    it("should debit the wallet like a withdrawal without fees or limit checks", async () => {
+      const result = await WalletService.debitWithin(
+        mockKnex,
+        borrowerWallet as any,
+        Money.parse("900", "NGN"),
+        { loan_application_id: "loan-1" },
+        "LOAN-loan-1-REPAY-1",
+        "Loan repayment"
+      );
+
+      expect(result).toHaveProperty("transaction");
+      expect(FeeService.quote).not.toHaveBeenCalled();
+      expect(LimitService.assertCanSend).not.toHaveBeenCalled();
+      expect(mockTrx.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          wallet_id: "wallet-123",
+          type: "debit",
+          amount_decimal: "900.000000",
+          balance_after: "100.000000",
+          reference: "LOAN-loan-1-REPAY-1",
+        })
+      );
+      expect(vi.mocked(LedgerService.postJournal).mock.calls[0]![1].legs[1]).toEqual(
+        expect.objectContaining({ account: { system: "PAYOUT_CLEARING", currency: "NGN" }, direction: "credit" })
+      );
+      expect(mockTrx.update).toHaveBeenCalledWith(expect.objectContaining({ balance_decimal: "100.000000" }));
+    });
+
+    it("should not debit held funds", async () => {
+      await expect(
+        WalletService.debitWithin(
+          mockKnex,
+          borrowerWallet as any,
+          Money.parse("900.01", "NGN"),
+          {},
+          "LOAN-loan-1-REPAY-1",
+          "Loan repayment"
+        )
+      ).rejects.toThrow("Insufficient funds");
+      expect(mockTrx.insert).not.toHaveBeenCalled();
+    });
+
+    it("should refuse a wallet that cannot be debited", async () => {
+      await expect(
+        WalletService.debitWithin(
+          mockKnex,
+          { ...borrowerWallet, status: "post_no_debit" } as any,
+          Money.parse("100", "NGN"),
+          {},
+          "LOAN-loan-1-REPAY-1",
+          "Loan repayment"
+        )
+      ).rejects.toMatchObject({ statusCode: 403 });
+    });
+  });
+
   describe("getWalletByUserId", () => {
     it("should return wallet for valid user", async () => {
       const mockWallet = {
@@ -341,6 +941,75 @@ describe("WalletService", () => {
 
       expect(result).toBeNull();
     });
+
+    it("should select the default currency wallet unless told otherwise", async () => {
+      const localMockTrx = {
+        where: vi.fn().mockReturnThis(),
+        first: vi.fn().mockResolvedValue(null),
+      };
+
+      vi.mocked(knex).mockReturnValue(localMockTrx as any);
+
+      await WalletService.getWalletByUserId("user-123");
+      await WalletService.getWalletByUserId("user-123", undefined, false, { currency: "USD" });
+      await WalletService.getWalletByUserId("user-123", undefined, false, { walletId: "wallet-9" });
+
+      expect(localMockTrx.where).toHaveBeenNthCalledWith(1, {
+        user_id: "user-123",
+        currency: "NGN",
+        parent_wallet_id: null,
+      });
+      expect(localMockTrx.where).toHaveBeenNthCalledWith(2, {
+        user_id: "user-123",
+        currency: "USD",
+        parent_wallet_id: null,
+      });
+      expect(localMockTrx.where).toHaveBeenNthCalledWith(3, {
+        user_id: "user-123",
+        id: "wallet-9",
+        parent_wallet_id: null,
+      });
+    });
+  });
+
+  describe("openWallet", () => {
+    beforeEach(() => {
+      vi.mocked(knex).mockReset().mockImplementation(() => mockTrx);
+      mockTrx.first.mockReset();
+    });
+
+    it("should create a wallet in the requested currency", async () => {
+      mockTrx.first
+        .mockResolvedValueOnce({ id: "user-123" }) // locked user
+        .mockResolvedValueOnce(undefined) // no USD wallet yet
+        .mockResolvedValueOnce({ id: "test-id-123", currency: "USD" }); // created wallet
+
+      const wallet = await WalletService.openWallet("user-123", "USD");
+
+      expect(mockTrx.insert).toHaveBeenCalledWith(
+        expect.objectContaining({ user_id: "user-123", currency: "USD", balance_decimal: "0.000000" })
+      );
+      expect(wallet.currency).toBe("USD");
+    });
+
+    it("should reject a second wallet in the same currency", async () => {
+      mockTrx.first
+        .mockResolvedValueOnce({ id: "user-123" })
+        .mockResolvedValueOnce({ id: "wallet-123", currency: "NGN" });
+
+      const error = await WalletService.openWallet("user-123", "NGN").catch((e) => e);
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.statusCode).toBe(409);
+      expect(mockTrx.insert).not.toHaveBeenCalled();
+    });
+
+    it("should reject unsupported currencies", async () => {
+      const error = await WalletService.openWallet("user-123", "XYZ").catch((e) => e);
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.statusCode).toBe(400);
+    });
   });
 
   describe("getBalance", () => {
@@ -349,6 +1018,7 @@ describe("WalletService", () => {
         id: "wallet-123",
         user_id: "user-123",
         balance_decimal: "1234.5600",
+        held_decimal: "200.000000",
         currency: "NGN",
         created_at: new Date(),
         updated_at: new Date(),
@@ -358,13 +1028,25 @@ describe("WalletService", () => {
         where: vi.fn().mockReturnThis(),
         first: vi.fn().mockResolvedValue(mockWallet as any),
       };
+      const potsQuery = {
+        where: vi.fn().mockReturnThis(),
+        sum: vi.fn().mockReturnThis(),
+        first: vi.fn().mockResolvedValue({ total: "5000.000000" }),
+      };
 
-      vi.mocked(knex).mockReturnValue(localMockTrx as any);
+      vi.mocked(knex)
+        .mockReturnValueOnce(localMockTrx as any)
+        .mockReturnValueOnce(potsQuery as any);
 
       const result = await WalletService.getBalance("user-123");
 
       expect(result.balance).toBe("1234.5600");
+      expect(result.available).toBe("1034.560000");
+      expect(result.held).toBe("200.000000");
+      expect(result.pots).toBe("5000.000000");
+      expect(result.total).toBe("6234.560000");
       expect(result.currency).toBe("NGN");
+      expect(potsQuery.where).toHaveBeenCalledWith({ parent_wallet_id: "wallet-123" });
     });
 
     it("should throw error if wallet not found", async () => {
@@ -380,5 +1062,389 @@ describe("WalletService", () => {
       ).rejects.toThrow("Wallet not found");
     });
   });
-});
 
+  describe("getTransactionHistory", () => {
+    const mockWallet = {
+      id: "wallet-123",
+      user_id: "user-123",
+      balance_decimal: "1000.0000",
+      held_decimal: "0.000000",
+      currency: "NGN",
+    };
+
+    // Builds a chainable query mock: wallet lookup first, then the history query
+    const mockHistoryQuery = (rows: any[]) => {
+      const walletQuery = {
+        where: vi.fn().mockReturnThis(),
+        first: vi.fn().mockResolvedValue(mockWallet),
+      };
+      const historyQuery = {
+        where: vi.fn().mockReturnThis(),
+        whereIn: vi.fn().mockReturnThis(),
+        orderBy: vi.fn().mockReturnThis(),
+        limit: vi.fn().mockResolvedValue(rows),
+      };
+      vi.mocked(knex)
+        .mockReturnValueOnce(walletQuery as any)
+        .mockReturnValueOnce(historyQuery as any);
+      return historyQuery;
+    };
+
+    const makeRows = (count: number) =>
+      Array.from({ length: count }, (_, i) => ({
+        id: `txn-${i}`,
+        wallet_id: "wallet-123",
+        type: "credit",
+        amount_decimal: "10.000000",
+        balance_after: "10.000000",
+        reference: `FUND-${i}`,
+        created_at: new Date(Date.UTC(2024, 0, 31 - i)),
+      }));
+
+    it("should return a next cursor when more rows exist", async () => {
+      const query = mockHistoryQuery(makeRows(3));
+
+      const page = await WalletService.getTransactionHistory("user-123", { limit: 2 });
+
+      expect(query.limit).toHaveBeenCalledWith(3);
+      expect(page.transactions).toHaveLength(2);
+      expect(page.nextCursor).not.toBeNull();
+    });
+
+    it("should return a null cursor on the last page", async () => {
+      mockHistoryQuery(makeRows(1));
+
+      const page = await WalletService.getTransactionHistory("user-123", { limit: 2 });
+
+      expect(page.transactions).toHaveLength(1);
+      expect(page.nextCursor).toBeNull();
+    });
+
+    it("should apply filters and a cursor from a previous page", async () => {
+      mockHistoryQuery(makeRows(3));
+      const firstPage = await WalletService.getTransactionHistory("user-123", { limit: 2 });
+
+      const query = mockHistoryQuery([]);
+      await WalletService.getTransactionHistory("user-123", {
+        limit: 2,
+        cursor: firstPage.nextCursor as string,
+        types: ["credit"],
+        minAmount: "5",
+        referencePrefix: "FUND_%",
+      });
+
+      expect(query.whereIn).toHaveBeenCalledWith("type", ["credit"]);
+      expect(query.where).toHaveBeenCalledWith("amount_decimal", ">=", "5");
+      expect(query.where).toHaveBeenCalledWith("reference", "like", "FUND\\_\\%%");
+      // Cursor condition is applied as a grouped where callback
+      expect(query.where).toHaveBeenCalledWith(expect.any(Function));
+    });
+
+    it("should reject a malformed cursor", async () => {
+      mockHistoryQuery([]);
+
+      await expect(
+        WalletService.getTransactionHistory("user-123", { cursor: "not-a-cursor" })
+      ).rejects.toThrow("Invalid pagination cursor");
+    });
+
+    it("should throw error if wallet not found", async () => {
+      vi.mocked(knex).mockReturnValueOnce({
+        where: vi.fn().mockReturnThis(),
+        first: vi.fn().mockResolvedValue(null),
+      } as any);
+
+      await expect(
+        WalletService.getTransactionHistory("non-existent")
+      ).rejects.toThrow("Wallet not found");
+    });
+  });
+
+  describe("reverse", () => {
+    const wallet = {
+      id: "wallet-123",
+      user_id: "user-123",
+      balance_decimal: "600.000000",
+      held_decimal: "0.000000",
+      currency: "NGN",
+    };
+
+    const fundTransaction = {
+      id: "txn-fund",
+      wallet_id: "wallet-123",
+      type: "credit",
+      amount_decimal: "500.000000",
+      reference: "FUND-user-123-1-ABC",
+    };
+
+    const transfer = {
+      id: "transfer-1",
+      from_wallet_id: "wallet-a",
+      to_wallet_id: "wallet-b",
+      amount_decimal: "300.000000",
+      status: "completed",
+      reference: "TRANSFER-user-a-1-ABC",
+    };
+
+    beforeEach(() => {
+      // Drop queued results left behind by earlier suites
+      vi.mocked(knex).mockReset().mockImplementation(() => mockTrx);
+      mockTrx.first.mockReset();
+      mockTrx.whereIn.mockReset().mockReturnThis();
+    });
+
+    it("should require a reason", async () => {
+      await expect(WalletService.reverse("txn-fund", "  ")).rejects.toThrow(
+        "Reversal reason is required"
+      );
+    });
+
+    it("should debit the wallet when reversing a credit", async () => {
+      mockTrx.first.mockResolvedValueOnce(undefined); // no transfer with that reference
+      mockTrx.first.mockResolvedValueOnce(fundTransaction);
+      mockTrx.first.mockResolvedValueOnce(wallet); // locked wallet
+      mockTrx.first.mockResolvedValueOnce(undefined); // no existing reversal
+      mockTrx.first.mockResolvedValueOnce({ id: "test-id-123", type: "reversal" });
+
+      const result = await WalletService.reverse("txn-fund", "Duplicate funding", {
+        reversedBy: "admin-1",
+      });
+
+      expect(result.transfer).toBeNull();
+      expect(result.reference).toMatch(/^REVERSAL-/);
+      expect(mockTrx.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: "reversal",
+          amount_decimal: "500.000000",
+          balance_after: "100.000000",
+          reversal_of: "txn-fund",
+        })
+      );
+      expect(LedgerService.postJournal).toHaveBeenCalledWith(
+        mockKnex,
+        expect.objectContaining({
+          legs: [
+            expect.objectContaining({ account: { walletId: "wallet-123", currency: "NGN" }, direction: "debit" }),
+            expect.objectContaining({ account: { system: "FUNDING_CLEARING", currency: "NGN" }, direction: "credit" }),
+          ],
+        })
+      );
+      expect(mockTrx.update).toHaveBeenCalledWith(
+        expect.objectContaining({ balance_decimal: "100.000000" })
+      );
+    });
+
+    it("should refuse to take a wallet negative without an override", async () => {
+      mockTrx.first.mockResolvedValueOnce(undefined);
+      mockTrx.first.mockResolvedValueOnce(fundTransaction);
+      mockTrx.first.mockResolvedValueOnce({ ...wallet, balance_decimal: "200.000000" });
+      mockTrx.first.mockResolvedValueOnce(undefined);
+
+      const error = await WalletService.reverse("txn-fund", "Chargeback").catch((e) => e);
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.statusCode).toBe(422);
+      expect(mockTrx.insert).not.toHaveBeenCalled();
+    });
+
+    it("should refuse to take a wallet below its held funds", async () => {
+      mockTrx.first.mockResolvedValueOnce(undefined);
+      mockTrx.first.mockResolvedValueOnce(fundTransaction);
+      mockTrx.first.mockResolvedValueOnce({ ...wallet, held_decimal: "200.000000" });
+      mockTrx.first.mockResolvedValueOnce(undefined);
+
+      const error = await WalletService.reverse("txn-fund", "Chargeback").catch((e) => e);
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.statusCode).toBe(422);
+      expect(error.message).toContain("available: 400.00");
+      expect(mockTrx.insert).not.toHaveBeenCalled();
+    });
+
+    it("should allow a negative balance when overridden", async () => {
+      mockTrx.first.mockResolvedValueOnce(undefined);
+      mockTrx.first.mockResolvedValueOnce(fundTransaction);
+      mockTrx.first.mockResolvedValueOnce({ ...wallet, balance_decimal: "200.000000" });
+      mockTrx.first.mockResolvedValueOnce(undefined);
+      mockTrx.first.mockResolvedValueOnce({ id: "test-id-123" });
+
+      await WalletService.reverse("txn-fund", "Chargeback", { allowNegativeBalance: true });
+
+      expect(mockTrx.insert).toHaveBeenCalledWith(
+        expect.objectContaining({ balance_after: "-300.000000" })
+      );
+    });
+
+    it("should reject a second reversal of the same transaction", async () => {
+      mockTrx.first.mockResolvedValueOnce(undefined);
+      mockTrx.first.mockResolvedValueOnce(fundTransaction);
+      mockTrx.first.mockResolvedValueOnce(wallet);
+      mockTrx.first.mockResolvedValueOnce({ id: "txn-rev", reference: "REVERSAL-1" });
+
+      const error = await WalletService.reverse("txn-fund", "Again").catch((e) => e);
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.statusCode).toBe(409);
+    });
+
+    it("should refuse to reverse a reversal", async () => {
+      mockTrx.first.mockResolvedValueOnce(undefined);
+      mockTrx.first.mockResolvedValueOnce({ ...fundTransaction, type: "reversal" });
+
+      await expect(WalletService.reverse("txn-rev", "Undo")).rejects.toThrow(
+        "A reversal cannot itself be reversed"
+      );
+    });
+
+    it("should refuse to reverse a conversion leg", async () => {
+      mockTrx.first.mockResolvedValueOnce(undefined);
+      mockTrx.first.mockResolvedValueOnce({ ...fundTransaction, type: "conversion-out" });
+
+      const error = await WalletService.reverse("txn-fx", "Undo").catch((e) => e);
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.statusCode).toBe(400);
+      expect(error.message).toContain("convert the funds back");
+    });
+
+    it("should refuse to reverse a loan disbursement", async () => {
+      mockTrx.first.mockResolvedValueOnce(undefined);
+      mockTrx.first.mockResolvedValueOnce({ ...fundTransaction, reference: "LOAN-app-1-DISBURSE" });
+
+      const error = await WalletService.reverse("txn-loan", "Undo").catch((e) => e);
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.statusCode).toBe(400);
+      expect(error.message).toContain("Loan disbursements and repayments cannot be reversed");
+      expect(mockTrx.insert).not.toHaveBeenCalled();
+    });
+
+    it("should refuse to reverse a loan repayment", async () => {
+      mockTrx.first.mockResolvedValueOnce(undefined);
+      mockTrx.first.mockResolvedValueOnce({ ...fundTransaction, type: "debit", reference: "LOAN-app-1-REPAY-2" });
+
+      const error = await WalletService.reverse("txn-repay", "Undo").catch((e) => e);
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.statusCode).toBe(400);
+      expect(error.message).toContain("Loan disbursements and repayments cannot be reversed");
+      expect(mockTrx.insert).not.toHaveBeenCalled();
+    });
+
+    it("should refuse to reverse an interest payment", async () => {
+      mockTrx.first.mockResolvedValueOnce(undefined);
+      mockTrx.first.mockResolvedValueOnce({ ...fundTransaction, reference: "INTEREST-wallet-123-2024-01" });
+
+      const error = await WalletService.reverse("txn-interest", "Undo").catch((e) => e);
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.statusCode).toBe(400);
+      expect(error.message).toContain("Interest payments cannot be reversed");
+      expect(mockTrx.insert).not.toHaveBeenCalled();
+    });
+
+    it("should refuse to reverse a hold capture", async () => {
+      mockTrx.first.mockResolvedValueOnce(undefined);
+      mockTrx.first.mockResolvedValueOnce({ ...fundTransaction, type: "debit", reference: "HOLD-user-123-1-ABC-CAPTURE" });
+
+      const error = await WalletService.reverse("txn-capture", "Undo").catch((e) => e);
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.statusCode).toBe(400);
+      expect(error.message).toContain("Hold captures cannot be reversed");
+      expect(mockTrx.insert).not.toHaveBeenCalled();
+    });
+
+    it("should return 404 for an unknown target", async () => {
+      mockTrx.first.mockResolvedValueOnce(undefined);
+      mockTrx.first.mockResolvedValueOnce(undefined);
+
+      const error = await WalletService.reverse("missing", "Typo").catch((e) => e);
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.statusCode).toBe(404);
+    });
+
+    it("should reverse both legs of a transfer and mark it reversed", async () => {
+      mockTrx.first.mockResolvedValueOnce(transfer);
+      mockTrx.whereIn.mockResolvedValueOnce([
+        { id: "leg-out", type: "transfer-out" },
+        { id: "leg-in", type: "transfer-in" },
+      ]);
+      mockTrx.whereIn.mockResolvedValueOnce([
+        { id: "wallet-b", user_id: "user-b" },
+        { id: "wallet-a", user_id: "user-a" },
+      ]);
+      mockTrx.first.mockResolvedValueOnce({ id: "wallet-a", user_id: "user-a", balance_decimal: "700.000000", held_decimal: "0.000000", currency: "NGN" });
+      mockTrx.first.mockResolvedValueOnce({ id: "wallet-b", user_id: "user-b", balance_decimal: "300.000000", held_decimal: "0.000000", currency: "NGN" });
+      mockTrx.first.mockResolvedValueOnce({ ...transfer, status: "reversed" });
+      mockTrx.whereIn.mockReturnValueOnce({ orderBy: vi.fn().mockResolvedValue([{}, {}]) });
+
+      const result = await WalletService.reverse(transfer.reference, "Wrong recipient");
+
+      expect(result.transfer?.status).toBe("reversed");
+      expect(result.transactions).toHaveLength(2);
+      expect(mockTrx.insert).toHaveBeenCalledWith(
+        expect.objectContaining({ wallet_id: "wallet-b", balance_after: "0.000000", reversal_of: "leg-in" })
+      );
+      expect(mockTrx.insert).toHaveBeenCalledWith(
+        expect.objectContaining({ wallet_id: "wallet-a", balance_after: "1000.000000", reversal_of: "leg-out" })
+      );
+      expect(LedgerService.assertWalletBalance).toHaveBeenCalledTimes(2);
+      expect(mockTrx.update).toHaveBeenCalledWith({ status: "reversed" });
+    });
+
+    it("should refuse to take the recipient below its held funds", async () => {
+      mockTrx.first.mockResolvedValueOnce(transfer);
+      mockTrx.whereIn.mockResolvedValueOnce([
+        { id: "leg-out", type: "transfer-out" },
+        { id: "leg-in", type: "transfer-in" },
+      ]);
+      mockTrx.whereIn.mockResolvedValueOnce([
+        { id: "wallet-b", user_id: "user-b" },
+        { id: "wallet-a", user_id: "user-a" },
+      ]);
+      mockTrx.first.mockResolvedValueOnce({ id: "wallet-a", user_id: "user-a", balance_decimal: "700.000000", held_decimal: "0.000000", currency: "NGN" });
+      mockTrx.first.mockResolvedValueOnce({ id: "wallet-b", user_id: "user-b", balance_decimal: "300.000000", held_decimal: "100.000000", currency: "NGN" });
+
+      const error = await WalletService.reverse(transfer.reference, "Wrong recipient").catch((e) => e);
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.statusCode).toBe(422);
+      expect(error.message).toContain("wallet-b");
+      expect(mockTrx.insert).not.toHaveBeenCalled();
+    });
+
+    it("should reject a transfer that was already reversed", async () => {
+      mockTrx.first.mockResolvedValueOnce({ ...transfer, status: "reversed" });
+
+      const error = await WalletService.reverse(transfer.reference, "Again").catch((e) => e);
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.statusCode).toBe(409);
+    });
+
+    it("should reject an escrow transfer", async () => {
+      mockTrx.first.mockResolvedValueOnce({ ...transfer, reference: "ESCROW-escrow-1-FUND" });
+
+      const error = await WalletService.reverse("ESCROW-escrow-1-FUND", "Undo").catch((e) => e);
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.statusCode).toBe(400);
+      expect(error.message).toContain("refund or resolve the escrow");
+      expect(mockTrx.insert).not.toHaveBeenCalled();
+    });
+
+    it("should reject a savings pot move", async () => {
+      const reference = "POT-user-a-1-ABC";
+      mockTrx.first.mockResolvedValueOnce({ ...transfer, reference });
+
+      const error = await WalletService.reverse(reference, "Undo").catch((e) => e);
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.statusCode).toBe(400);
+      expect(error.message).toContain("Savings pot moves cannot be reversed");
+      expect(mockTrx.insert).not.toHaveBeenCalled();
+    });
+  });
+});